@@ -0,0 +1,33 @@
+/**
+ * Unit tests for the batch command type.
+ */
+
+import { BatchCommand } from "../../commands/batch";
+
+describe("Batch Commands", () => {
+  test("BatchCommand should have correct structure", () => {
+    const command: BatchCommand = {
+      type: "batch",
+      payload: {
+        label: "Add person",
+        commands: [
+          {
+            type: "addElement",
+            payload: { parentId: "schema", elementName: "person" },
+          },
+          {
+            type: "addAttribute",
+            payload: { parentId: "/element:person", attributeName: "id" },
+          },
+        ],
+      },
+    };
+
+    expect(command.type).toBe("batch");
+    expect(command.payload.label).toBe("Add person");
+    expect(command.payload.commands.map((subCommand) => subCommand.type)).toEqual([
+      "addElement",
+      "addAttribute",
+    ]);
+  });
+});
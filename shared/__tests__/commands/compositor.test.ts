@@ -0,0 +1,52 @@
+/**
+ * Unit tests for compositor command types.
+ */
+
+import {
+  AddCompositorCommand,
+  RemoveCompositorCommand,
+  ModifyCompositorCommand,
+} from "../../commands/compositor";
+
+describe("Compositor Commands", () => {
+  test("AddCompositorCommand should have correct structure", () => {
+    const command: AddCompositorCommand = {
+      type: "addCompositor",
+      payload: {
+        parentId: "/complexType:PaymentType/sequence[0]",
+        compositor: "choice",
+        minOccurs: 0,
+        maxOccurs: "unbounded",
+      },
+    };
+
+    expect(command.type).toBe("addCompositor");
+    expect(command.payload.compositor).toBe("choice");
+    expect(command.payload.maxOccurs).toBe("unbounded");
+  });
+
+  test("RemoveCompositorCommand should have correct structure", () => {
+    const command: RemoveCompositorCommand = {
+      type: "removeCompositor",
+      payload: { compositorId: "/complexType:PaymentType/sequence[0]/choice[1]" },
+    };
+
+    expect(command.type).toBe("removeCompositor");
+    expect(command.payload.compositorId).toBe("/complexType:PaymentType/sequence[0]/choice[1]");
+  });
+
+  test("ModifyCompositorCommand should have correct structure", () => {
+    const command: ModifyCompositorCommand = {
+      type: "modifyCompositor",
+      payload: {
+        compositorId: "/complexType:PaymentType/sequence[0]/choice[1]",
+        compositor: "sequence",
+        minOccurs: 1,
+      },
+    };
+
+    expect(command.type).toBe("modifyCompositor");
+    expect(command.payload.compositor).toBe("sequence");
+    expect(command.payload.minOccurs).toBe(1);
+  });
+});
@@ -97,4 +97,22 @@ describe("Element Commands", () => {
     expect(command.payload.minOccurs).toBe(0);
     expect(command.payload.maxOccurs).toBe(0);
   });
+
+  test("ModifyElementCommand with declaration properties", () => {
+    const command: ModifyElementCommand = {
+      type: "modifyElement",
+      payload: {
+        elementId: "e1",
+        nillable: false,
+        substitutionGroup: "head",
+        fixedValue: "",
+        form: "qualified",
+      },
+    };
+
+    expect(command.payload.nillable).toBe(false);
+    expect(command.payload.substitutionGroup).toBe("head");
+    expect(command.payload.fixedValue).toBe("");
+    expect(command.payload.form).toBe("qualified");
+  });
 });
@@ -0,0 +1,55 @@
+/**
+ * Unit tests for identity constraint command types.
+ */
+
+import {
+  AddIdentityConstraintCommand,
+  RemoveIdentityConstraintCommand,
+  ModifyIdentityConstraintCommand,
+} from "../../commands/identityConstraint";
+
+describe("Identity Constraint Commands", () => {
+  test("AddIdentityConstraintCommand should have correct structure", () => {
+    const command: AddIdentityConstraintCommand = {
+      type: "addIdentityConstraint",
+      payload: {
+        parentId: "/element:orders",
+        kind: "keyref",
+        constraintName: "orderCustomer",
+        selector: "order",
+        fields: ["@customer"],
+        refer: "tns:customerKey",
+      },
+    };
+
+    expect(command.type).toBe("addIdentityConstraint");
+    expect(command.payload.kind).toBe("keyref");
+    expect(command.payload.fields).toEqual(["@customer"]);
+    expect(command.payload.refer).toBe("tns:customerKey");
+  });
+
+  test("RemoveIdentityConstraintCommand should have correct structure", () => {
+    const command: RemoveIdentityConstraintCommand = {
+      type: "removeIdentityConstraint",
+      payload: { constraintId: "/element:orders/key:customerKey" },
+    };
+
+    expect(command.type).toBe("removeIdentityConstraint");
+    expect(command.payload.constraintId).toBe("/element:orders/key:customerKey");
+  });
+
+  test("ModifyIdentityConstraintCommand should have correct structure", () => {
+    const command: ModifyIdentityConstraintCommand = {
+      type: "modifyIdentityConstraint",
+      payload: {
+        constraintId: "/element:orders/key:customerKey",
+        constraintName: "custKey",
+        selector: ".//customer",
+      },
+    };
+
+    expect(command.type).toBe("modifyIdentityConstraint");
+    expect(command.payload.constraintName).toBe("custKey");
+    expect(command.payload.fields).toBeUndefined();
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Unit tests for the move command type.
+ */
+
+import { MoveNodeCommand } from "../../commands/move";
+
+describe("Move Commands", () => {
+  test("MoveNodeCommand should have correct structure", () => {
+    const command: MoveNodeCommand = {
+      type: "moveNode",
+      payload: {
+        nodeId: "/complexType:PersonType/sequence[0]/element:lastName[1]",
+        newParentId: "/complexType:PersonType/sequence[0]",
+        index: 0,
+      },
+    };
+
+    expect(command.type).toBe("moveNode");
+    expect(command.payload.newParentId).toBe("/complexType:PersonType/sequence[0]");
+    expect(command.payload.index).toBe(0);
+  });
+
+  test("MoveNodeCommand should allow omitting the index", () => {
+    const command: MoveNodeCommand = {
+      type: "moveNode",
+      payload: {
+        nodeId: "/complexType:PersonType/attribute:id",
+        newParentId: "/attributeGroup:CommonAttributes",
+      },
+    };
+
+    expect(command.payload.index).toBeUndefined();
+  });
+});
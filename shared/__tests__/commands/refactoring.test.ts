@@ -0,0 +1,132 @@
+/**
+ * Unit tests for the refactoring command types.
+ */
+
+import {
+  RenameComponentCommand,
+  SafeDeleteComponentCommand,
+  ExtractTypeCommand,
+  InlineTypeCommand,
+  ExtractGroupCommand,
+  ExtractAttributeGroupCommand,
+  PromoteElementCommand,
+  DemoteElementCommand,
+} from "../../commands/refactoring";
+
+describe("Refactoring Commands", () => {
+  test("RenameComponentCommand should have correct structure", () => {
+    const command: RenameComponentCommand = {
+      type: "renameComponent",
+      payload: {
+        componentId: "/complexType:AddressType",
+        newName: "PostalAddressType",
+      },
+    };
+
+    expect(command.type).toBe("renameComponent");
+    expect(command.payload.componentId).toBe("/complexType:AddressType");
+    expect(command.payload.newName).toBe("PostalAddressType");
+  });
+
+  test("SafeDeleteComponentCommand should have correct structure", () => {
+    const command: SafeDeleteComponentCommand = {
+      type: "safeDeleteComponent",
+      payload: {
+        componentId: "/simpleType:CodeType",
+        strategy: "retarget",
+        replacement: "xs:string",
+      },
+    };
+
+    expect(command.type).toBe("safeDeleteComponent");
+    expect(command.payload.strategy).toBe("retarget");
+    expect(command.payload.replacement).toBe("xs:string");
+  });
+
+  test("ExtractTypeCommand should have correct structure", () => {
+    const command: ExtractTypeCommand = {
+      type: "extractType",
+      payload: {
+        typeId: "/element:order/anonymousComplexType[0]",
+        typeName: "OrderType",
+      },
+    };
+
+    expect(command.type).toBe("extractType");
+    expect(command.payload.typeId).toBe("/element:order/anonymousComplexType[0]");
+    expect(command.payload.typeName).toBe("OrderType");
+  });
+
+  test("InlineTypeCommand should have correct structure", () => {
+    const command: InlineTypeCommand = {
+      type: "inlineType",
+      payload: {
+        typeId: "/complexType:OrderType",
+        declarationId: "/element:order",
+      },
+    };
+
+    expect(command.type).toBe("inlineType");
+    expect(command.payload.typeId).toBe("/complexType:OrderType");
+    expect(command.payload.declarationId).toBe("/element:order");
+  });
+
+  test("ExtractGroupCommand should have correct structure", () => {
+    const command: ExtractGroupCommand = {
+      type: "extractGroup",
+      payload: {
+        particleIds: ["/complexType:PersonType/sequence[0]/element:street"],
+        groupName: "AddressGroup",
+        replaceDuplicates: true,
+      },
+    };
+
+    expect(command.type).toBe("extractGroup");
+    expect(command.payload.particleIds).toHaveLength(1);
+    expect(command.payload.groupName).toBe("AddressGroup");
+    expect(command.payload.replaceDuplicates).toBe(true);
+  });
+
+  test("ExtractAttributeGroupCommand should have correct structure", () => {
+    const command: ExtractAttributeGroupCommand = {
+      type: "extractAttributeGroup",
+      payload: {
+        attributeIds: [
+          "/complexType:OrderType/attribute:id",
+          "/complexType:InvoiceType/attribute:id",
+        ],
+        groupName: "IdentityAttributes",
+      },
+    };
+
+    expect(command.type).toBe("extractAttributeGroup");
+    expect(command.payload.attributeIds).toHaveLength(2);
+    expect(command.payload.groupName).toBe("IdentityAttributes");
+  });
+
+  test("PromoteElementCommand should have correct structure", () => {
+    const command: PromoteElementCommand = {
+      type: "promoteElement",
+      payload: {
+        elementId: "/complexType:OrderType/sequence[0]/element:item",
+      },
+    };
+
+    expect(command.type).toBe("promoteElement");
+    expect(command.payload.elementId).toBe("/complexType:OrderType/sequence[0]/element:item");
+  });
+
+  test("DemoteElementCommand should have correct structure", () => {
+    const command: DemoteElementCommand = {
+      type: "demoteElement",
+      payload: {
+        elementId: "/complexType:OrderType/sequence[0]/element:tns:item[0]",
+      },
+    };
+
+    expect(command.type).toBe("demoteElement");
+    expect(command.payload.elementId).toBe(
+      "/complexType:OrderType/sequence[0]/element:tns:item[0]"
+    );
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * Unit tests for schema root command types.
+ */
+
+import { ModifySchemaCommand } from "../../commands/schemaRoot";
+
+describe("Schema Root Commands", () => {
+  test("ModifySchemaCommand should have correct structure", () => {
+    const command: ModifySchemaCommand = {
+      type: "modifySchema",
+      payload: {
+        targetNamespace: "http://example.com/orders",
+        elementFormDefault: "qualified",
+        finalDefault: "#all",
+        lang: "en",
+      },
+    };
+
+    expect(command.type).toBe("modifySchema");
+    expect(command.payload.targetNamespace).toBe("http://example.com/orders");
+    expect(command.payload.elementFormDefault).toBe("qualified");
+    expect(command.payload.version).toBeUndefined();
+  });
+});
@@ -21,7 +21,7 @@ describe("Simple Type Commands", () => {
         restrictions: {
           minLength: 5,
           maxLength: 50,
-          pattern: "[a-zA-Z]+",
+          pattern: ["[a-zA-Z]+"],
         },
       },
     };
@@ -29,7 +29,7 @@ describe("Simple Type Commands", () => {
     expect(command.type).toBe("addSimpleType");
     expect(command.payload.typeName).toBe("CustomString");
     expect(command.payload.restrictions?.minLength).toBe(5);
-    expect(command.payload.restrictions?.pattern).toBe("[a-zA-Z]+");
+    expect(command.payload.restrictions?.pattern).toEqual(["[a-zA-Z]+"]);
   });
 
   test("AddSimpleTypeCommand with enumeration", () => {
@@ -79,6 +79,35 @@ describe("Simple Type Commands", () => {
     expect(command.payload.restrictions?.maxInclusive).toBe("100");
   });
 
+  test("AddSimpleTypeCommand for a list", () => {
+    const command: AddSimpleTypeCommand = {
+      type: "addSimpleType",
+      payload: {
+        typeName: "Percentages",
+        variety: "list",
+        itemSimpleType: { baseType: "xs:int", restrictions: { maxInclusive: "100" } },
+      },
+    };
+
+    expect(command.payload.variety).toBe("list");
+    expect(command.payload.baseType).toBeUndefined();
+    expect(command.payload.itemSimpleType?.restrictions?.maxInclusive).toBe("100");
+  });
+
+  test("ModifySimpleTypeCommand changing union members", () => {
+    const command: ModifySimpleTypeCommand = {
+      type: "modifySimpleType",
+      payload: {
+        typeId: "/simpleType:Size",
+        memberTypes: ["xs:int", "tns:SizeCode"],
+        memberSimpleTypes: [{ baseType: "xs:token" }],
+      },
+    };
+
+    expect(command.payload.memberTypes).toEqual(["xs:int", "tns:SizeCode"]);
+    expect(command.payload.memberSimpleTypes).toHaveLength(1);
+  });
+
   test("Restriction facets with all fields", () => {
     const command: AddSimpleTypeCommand = {
       type: "addSimpleType",
@@ -93,7 +122,7 @@ describe("Simple Type Commands", () => {
           length: 10,
           minLength: 5,
           maxLength: 15,
-          pattern: "[0-9]+",
+          pattern: ["[0-9]+"],
           enumeration: ["val1", "val2"],
           whiteSpace: "collapse",
           totalDigits: 10,
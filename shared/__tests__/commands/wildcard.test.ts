@@ -0,0 +1,54 @@
+/**
+ * Unit tests for wildcard command types.
+ */
+
+import {
+  AddWildcardCommand,
+  RemoveWildcardCommand,
+  ModifyWildcardCommand,
+} from "../../commands/wildcard";
+
+describe("Wildcard Commands", () => {
+  test("AddWildcardCommand should have correct structure", () => {
+    const command: AddWildcardCommand = {
+      type: "addWildcard",
+      payload: {
+        parentId: "/complexType:OpenType/sequence",
+        kind: "any",
+        namespace: "##other",
+        processContents: "lax",
+        minOccurs: 0,
+        maxOccurs: "unbounded",
+      },
+    };
+
+    expect(command.type).toBe("addWildcard");
+    expect(command.payload.kind).toBe("any");
+    expect(command.payload.namespace).toBe("##other");
+    expect(command.payload.maxOccurs).toBe("unbounded");
+  });
+
+  test("RemoveWildcardCommand should have correct structure", () => {
+    const command: RemoveWildcardCommand = {
+      type: "removeWildcard",
+      payload: { wildcardId: "/complexType:OpenType/anyAttribute" },
+    };
+
+    expect(command.type).toBe("removeWildcard");
+    expect(command.payload.wildcardId).toBe("/complexType:OpenType/anyAttribute");
+  });
+
+  test("ModifyWildcardCommand should have correct structure", () => {
+    const command: ModifyWildcardCommand = {
+      type: "modifyWildcard",
+      payload: {
+        wildcardId: "/complexType:OpenType/sequence/any[0]",
+        processContents: "skip",
+      },
+    };
+
+    expect(command.type).toBe("modifyWildcard");
+    expect(command.payload.processContents).toBe("skip");
+    expect(command.payload.namespace).toBeUndefined();
+  });
+});
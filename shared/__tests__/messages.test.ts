@@ -7,6 +7,12 @@ import {
   UpdateSchemaMessage,
   ErrorMessage,
   CommandResultMessage,
+  SelectionChangedMessage,
+  RevealNodeMessage,
+  StepToHistoryMessage,
+  UpdateHistoryMessage,
+  FindUsagesMessage,
+  ShowUsagesMessage,
   WebviewMessage,
   ExtensionMessage,
 } from "../messages";
@@ -87,6 +93,86 @@ describe("Message Types", () => {
     expect(message.data.success).toBe(true);
   });
 
+  test("SelectionChangedMessage should have correct structure", () => {
+    const message: SelectionChangedMessage = {
+      command: "selectionChanged",
+      data: { nodeId: "/element:person" },
+    };
+
+    expect(message.command).toBe("selectionChanged");
+    expect(message.data.nodeId).toBe("/element:person");
+  });
+
+  test("RevealNodeMessage should have correct structure", () => {
+    const message: RevealNodeMessage = {
+      command: "revealNode",
+      data: { nodeId: "/complexType:PersonType/group:sequence" },
+    };
+
+    expect(message.command).toBe("revealNode");
+    expect(message.data.nodeId).toBe("/complexType:PersonType/group:sequence");
+  });
+
+  test("StepToHistoryMessage should have correct structure", () => {
+    const message: StepToHistoryMessage = {
+      command: "stepToHistory",
+      data: { position: 0 },
+    };
+
+    expect(message.command).toBe("stepToHistory");
+    expect(message.data.position).toBe(0);
+  });
+
+  test("UpdateHistoryMessage should have correct structure", () => {
+    const message: UpdateHistoryMessage = {
+      command: "updateHistory",
+      data: {
+        entries: [
+          {
+            id: 1,
+            label: 'Add element "e1"',
+            timestamp: 1700000000000,
+            command: {
+              type: "addElement",
+              payload: { parentId: "schema", elementName: "e1" },
+            },
+            beforeHash: "before",
+            afterHash: "after",
+          },
+        ],
+        position: 1,
+        documentHash: "after",
+      },
+    };
+
+    expect(message.command).toBe("updateHistory");
+    expect(message.data.entries[0].label).toBe('Add element "e1"');
+    expect(message.data.position).toBe(1);
+  });
+
+  test("FindUsagesMessage should have correct structure", () => {
+    const message: FindUsagesMessage = {
+      command: "findUsages",
+      data: { componentId: "/complexType:PersonType" },
+    };
+
+    expect(message.command).toBe("findUsages");
+    expect(message.data.componentId).toBe("/complexType:PersonType");
+  });
+
+  test("ShowUsagesMessage should have correct structure", () => {
+    const message: ShowUsagesMessage = {
+      command: "showUsages",
+      data: {
+        componentId: "/complexType:PersonType",
+        usages: [{ nodeId: "/element:person", attribute: "type", value: "PersonType" }],
+      },
+    };
+
+    expect(message.command).toBe("showUsages");
+    expect(message.data.usages[0].nodeId).toBe("/element:person");
+  });
+
   test("WebviewMessage union type", () => {
     const messages: WebviewMessage[] = [
       {
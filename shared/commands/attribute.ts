@@ -69,9 +69,9 @@ export interface ModifyAttributePayload {
   ref?: string;
   /** New required status (optional) */
   required?: boolean;
-  /** New default value (optional). Not valid with ref. */
+  /** New default value (optional). An empty string removes it. Not valid with ref. */
   defaultValue?: string;
-  /** New fixed value (optional). Not valid with ref. */
+  /** New fixed value (optional). An empty string removes it. Not valid with ref. */
   fixedValue?: string;
   /** New documentation (optional) */
   documentation?: string;
@@ -0,0 +1,29 @@
+/**
+ * Batch command type for applying several commands as one transaction.
+ * Lets composite UI operations produce a single document edit and undo step.
+ */
+
+import { BaseCommand } from "./base";
+import type { SchemaCommand } from "./index";
+
+/**
+ * Payload for a batch of commands.
+ */
+export interface BatchPayload {
+  /**
+   * Commands to apply, in order. Each command is validated against the schema
+   * as left by the commands before it. Batches cannot be nested.
+   */
+  commands: SchemaCommand[];
+  /** Human-readable description of the composite operation (optional) */
+  label?: string;
+}
+
+/**
+ * Command to apply several commands atomically: either all of them are
+ * applied as one edit, or none is.
+ */
+export interface BatchCommand extends BaseCommand<BatchPayload> {
+  type: "batch";
+  payload: BatchPayload;
+}
@@ -0,0 +1,77 @@
+/**
+ * Compositor command types for xs:sequence, xs:choice and xs:all.
+ * Provides commands for adding, removing, and modifying the compositors that
+ * define the content model of complex types and named groups, including
+ * compositors nested inside other compositors.
+ */
+
+import { BaseCommand } from "./base";
+import { ContentModel } from "./schemaTypes";
+
+/**
+ * Payload for adding a compositor.
+ */
+export interface AddCompositorPayload {
+  /**
+   * ID of the parent node: a complex type or named group without a content
+   * model, or a sequence or choice to nest the compositor in,
+   * e.g. "/complexType:X/sequence[0]"
+   */
+  parentId: string;
+  /** Kind of the compositor; `all` can only define the content model of a complex type or named group */
+  compositor: ContentModel;
+  /** Minimum occurrences (default: 1). Not allowed on the compositor of a named group. */
+  minOccurs?: number;
+  /** Maximum occurrences (default: 1, use 'unbounded' for unlimited). Not allowed on the compositor of a named group. */
+  maxOccurs?: number | "unbounded";
+}
+
+/**
+ * Command to add a compositor.
+ */
+export interface AddCompositorCommand extends BaseCommand<AddCompositorPayload> {
+  type: "addCompositor";
+  payload: AddCompositorPayload;
+}
+
+/**
+ * Payload for removing a compositor together with its content.
+ */
+export interface RemoveCompositorPayload {
+  /**
+   * ID of the compositor to remove, e.g. "/complexType:X/sequence[0]/choice[1]".
+   * Nested compositors are addressed by their position among the compositors
+   * of the same kind in their parent.
+   */
+  compositorId: string;
+}
+
+/**
+ * Command to remove a compositor.
+ */
+export interface RemoveCompositorCommand extends BaseCommand<RemoveCompositorPayload> {
+  type: "removeCompositor";
+  payload: RemoveCompositorPayload;
+}
+
+/**
+ * Payload for modifying an existing compositor.
+ */
+export interface ModifyCompositorPayload {
+  /** ID of the compositor to modify */
+  compositorId: string;
+  /** New kind of the compositor (optional). The content of the compositor is kept. */
+  compositor?: ContentModel;
+  /** New minimum occurrences (optional) */
+  minOccurs?: number;
+  /** New maximum occurrences (optional) */
+  maxOccurs?: number | "unbounded";
+}
+
+/**
+ * Command to modify an existing compositor.
+ */
+export interface ModifyCompositorCommand extends BaseCommand<ModifyCompositorPayload> {
+  type: "modifyCompositor";
+  payload: ModifyCompositorPayload;
+}
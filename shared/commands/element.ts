@@ -5,13 +5,47 @@
 
 import { BaseCommand } from "./base";
 
+/**
+ * Whether a local element's name must be namespace-qualified in instance documents.
+ */
+export type ElementForm = "qualified" | "unqualified";
+
+/**
+ * Declaration properties of a named element, shared by the add and modify payloads.
+ * None of them are valid on element references.
+ *
+ * When modifying, `false` removes a flag and an empty string removes a value;
+ * when adding, empty strings are ignored.
+ */
+export interface ElementProperties {
+  /** Whether the element may be nil in instance documents (`nillable`) */
+  nillable?: boolean;
+  /** Whether the element is abstract. Only valid for top-level elements. */
+  abstract?: boolean;
+  /** Top-level element this element can substitute for. Only valid for top-level elements. */
+  substitutionGroup?: string;
+  /** Default value of the element (`default`). Mutually exclusive with fixedValue. */
+  defaultValue?: string;
+  /** Fixed value of the element (`fixed`). Mutually exclusive with defaultValue. */
+  fixedValue?: string;
+  /** Blocked substitutions: `#all` or a space-separated list of extension, restriction and substitution */
+  block?: string;
+  /**
+   * Derivations that may not use this element as a substitution group head: `#all`
+   * or a space-separated list of extension and restriction. Only valid for top-level elements.
+   */
+  final?: string;
+  /** Whether the element name is namespace-qualified. Only valid for local elements. */
+  form?: ElementForm | "";
+}
+
 /**
  * Payload for adding a new element to the schema.
  * Either `elementName` + optional `elementType` (named element) or `ref` (reference) must be provided.
  * Omit `elementType` when the element will carry an inline anonymous `simpleType` or `complexType`
  * added via a subsequent `addSimpleType` / `addComplexType` command.
  */
-export interface AddElementPayload {
+export interface AddElementPayload extends ElementProperties {
   /** ID of the parent node where the element should be added */
   parentId: string;
   /** Name of the new element. Required when not using ref. */
@@ -58,7 +92,7 @@ export interface RemoveElementCommand extends BaseCommand<RemoveElementPayload>
 /**
  * Payload for modifying an existing element.
  */
-export interface ModifyElementPayload {
+export interface ModifyElementPayload extends ElementProperties {
   /** ID of the element to modify */
   elementId: string;
   /** New name for the element (optional). When set, clears ref. */
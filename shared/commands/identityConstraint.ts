@@ -0,0 +1,86 @@
+/**
+ * Identity constraint command types for xs:key, xs:unique and xs:keyref.
+ * Provides commands for adding, removing, and modifying the identity
+ * constraints declared on an element.
+ */
+
+import { BaseCommand } from "./base";
+
+/**
+ * Kind of identity constraint.
+ */
+export type IdentityConstraintKind = "key" | "unique" | "keyref";
+
+/**
+ * Payload for adding an identity constraint to an element.
+ */
+export interface AddIdentityConstraintPayload {
+  /** ID of the element (top-level or local) that declares the constraint */
+  parentId: string;
+  /** Kind of the constraint */
+  kind: IdentityConstraintKind;
+  /** Name of the constraint, unique among all identity constraints of the schema */
+  constraintName: string;
+  /** XPath of xs:selector, e.g. ".//order" */
+  selector: string;
+  /** XPaths of the xs:field children, e.g. ["@id"]. At least one is required. */
+  fields: string[];
+  /** QName of the key or unique constraint referred to. Required for keyref, not valid otherwise. */
+  refer?: string;
+  /** Optional documentation for the constraint */
+  documentation?: string;
+}
+
+/**
+ * Command to add an identity constraint to an element.
+ */
+export interface AddIdentityConstraintCommand
+  extends BaseCommand<AddIdentityConstraintPayload> {
+  type: "addIdentityConstraint";
+  payload: AddIdentityConstraintPayload;
+}
+
+/**
+ * Payload for removing an identity constraint.
+ */
+export interface RemoveIdentityConstraintPayload {
+  /** ID of the constraint to remove, e.g. "/element:orders/key:orderKey" */
+  constraintId: string;
+}
+
+/**
+ * Command to remove an identity constraint.
+ */
+export interface RemoveIdentityConstraintCommand
+  extends BaseCommand<RemoveIdentityConstraintPayload> {
+  type: "removeIdentityConstraint";
+  payload: RemoveIdentityConstraintPayload;
+}
+
+/**
+ * Payload for modifying an existing identity constraint.
+ * The kind of a constraint cannot be changed; remove and add it instead.
+ */
+export interface ModifyIdentityConstraintPayload {
+  /** ID of the constraint to modify */
+  constraintId: string;
+  /** New name for the constraint (optional). Keyrefs referring to it are updated. */
+  constraintName?: string;
+  /** New selector XPath (optional) */
+  selector?: string;
+  /** New field XPaths (optional); replaces all fields */
+  fields?: string[];
+  /** New referred key or unique constraint (optional). Only valid for keyref. */
+  refer?: string;
+  /** New documentation (optional) */
+  documentation?: string;
+}
+
+/**
+ * Command to modify an existing identity constraint.
+ */
+export interface ModifyIdentityConstraintCommand
+  extends BaseCommand<ModifyIdentityConstraintPayload> {
+  type: "modifyIdentityConstraint";
+  payload: ModifyIdentityConstraintPayload;
+}
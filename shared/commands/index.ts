@@ -13,6 +13,13 @@ export * from "./schemaTypes";
 export * from "./group";
 export * from "./metadata";
 export * from "./module";
+export * from "./schemaRoot";
+export * from "./identityConstraint";
+export * from "./wildcard";
+export * from "./compositor";
+export * from "./move";
+export * from "./refactoring";
+export * from "./batch";
 
 // Import command types for union
 import {
@@ -57,6 +64,34 @@ import {
   RemoveIncludeCommand,
   ModifyIncludeCommand,
 } from "./module";
+import { ModifySchemaCommand } from "./schemaRoot";
+import {
+  AddIdentityConstraintCommand,
+  RemoveIdentityConstraintCommand,
+  ModifyIdentityConstraintCommand,
+} from "./identityConstraint";
+import {
+  AddWildcardCommand,
+  RemoveWildcardCommand,
+  ModifyWildcardCommand,
+} from "./wildcard";
+import {
+  AddCompositorCommand,
+  RemoveCompositorCommand,
+  ModifyCompositorCommand,
+} from "./compositor";
+import { MoveNodeCommand } from "./move";
+import {
+  RenameComponentCommand,
+  SafeDeleteComponentCommand,
+  ExtractTypeCommand,
+  InlineTypeCommand,
+  ExtractGroupCommand,
+  ExtractAttributeGroupCommand,
+  PromoteElementCommand,
+  DemoteElementCommand,
+} from "./refactoring";
+import { BatchCommand } from "./batch";
 
 /**
  * Union type of all possible commands.
@@ -92,4 +127,24 @@ export type SchemaCommand =
   | ModifyImportCommand
   | AddIncludeCommand
   | RemoveIncludeCommand
-  | ModifyIncludeCommand;
+  | ModifyIncludeCommand
+  | ModifySchemaCommand
+  | AddIdentityConstraintCommand
+  | RemoveIdentityConstraintCommand
+  | ModifyIdentityConstraintCommand
+  | AddWildcardCommand
+  | RemoveWildcardCommand
+  | ModifyWildcardCommand
+  | AddCompositorCommand
+  | RemoveCompositorCommand
+  | ModifyCompositorCommand
+  | MoveNodeCommand
+  | RenameComponentCommand
+  | SafeDeleteComponentCommand
+  | ExtractTypeCommand
+  | InlineTypeCommand
+  | ExtractGroupCommand
+  | ExtractAttributeGroupCommand
+  | PromoteElementCommand
+  | DemoteElementCommand
+  | BatchCommand;
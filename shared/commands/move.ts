@@ -0,0 +1,40 @@
+/**
+ * Move command type for relocating particles and attributes.
+ * Provides a command that moves an element, group reference, nested
+ * compositor or attribute to a new parent and position, keeping the node
+ * intact with its annotations and anonymous types.
+ */
+
+import { BaseCommand } from "./base";
+
+/**
+ * Payload for moving a node.
+ */
+export interface MoveNodePayload {
+  /**
+   * ID of the node to move: an element, group reference or compositor inside
+   * a compositor, or an attribute of a complex type or attribute group,
+   * e.g. "/complexType:X/sequence[0]/element:name[1]"
+   */
+  nodeId: string;
+  /**
+   * ID of the new parent: a sequence, choice or all for particles, or a
+   * complex type or attribute group for attributes. May be the current parent
+   * to reorder the node.
+   */
+  newParentId: string;
+  /**
+   * Position among the nodes of the same kind in the new parent, counted
+   * after the node has been removed from its current place
+   * (optional, default: append)
+   */
+  index?: number;
+}
+
+/**
+ * Command to move a node to a new parent and position.
+ */
+export interface MoveNodeCommand extends BaseCommand<MoveNodePayload> {
+  type: "moveNode";
+  payload: MoveNodePayload;
+}
@@ -0,0 +1,208 @@
+/**
+ * Refactoring command types.
+ * Provides commands that restructure the schema while keeping it consistent,
+ * such as renaming a top-level component together with every reference to it,
+ * deleting a component without leaving dangling references, extracting an
+ * anonymous type into a named one and inlining a named type again, extracting
+ * elements into a named model group and attributes into a named attribute
+ * group, or turning local elements into references to top-level elements and
+ * back.
+ */
+
+import { BaseCommand } from "./base";
+
+/**
+ * Payload for renaming a top-level component.
+ */
+export interface RenameComponentPayload {
+  /**
+   * ID of the top-level component to rename: an element, attribute, complex
+   * type, simple type, group or attribute group, e.g. "/complexType:Address"
+   */
+  componentId: string;
+  /** New name of the component */
+  newName: string;
+}
+
+/**
+ * Command to rename a top-level component and rewrite every QName that
+ * refers to it (type, ref, base, substitutionGroup, itemType and memberTypes).
+ */
+export interface RenameComponentCommand extends BaseCommand<RenameComponentPayload> {
+  type: "renameComponent";
+  payload: RenameComponentPayload;
+}
+
+/**
+ * How a safe delete deals with the references to the deleted component.
+ * - cascade: removes every construct that refers to the component
+ * - retarget: makes every reference refer to a replacement component instead
+ */
+export type SafeDeleteStrategy = "cascade" | "retarget";
+
+/**
+ * Payload for deleting a top-level component together with its references.
+ */
+export interface SafeDeleteComponentPayload {
+  /**
+   * ID of the top-level component to delete: an element, attribute, complex
+   * type, simple type, group or attribute group, e.g. "/simpleType:Code"
+   */
+  componentId: string;
+  /** How the references to the component are dealt with */
+  strategy: SafeDeleteStrategy;
+  /**
+   * QName of the component the references are retargeted to, e.g.
+   * "xs:string"; required for the retarget strategy
+   */
+  replacement?: string;
+}
+
+/**
+ * Command to delete a top-level component without leaving dangling
+ * references, either by removing its dependants or by retargeting the
+ * references to another component of the same symbol space.
+ */
+export interface SafeDeleteComponentCommand extends BaseCommand<SafeDeleteComponentPayload> {
+  type: "safeDeleteComponent";
+  payload: SafeDeleteComponentPayload;
+}
+
+/**
+ * Payload for turning an anonymous type into a named top-level type.
+ */
+export interface ExtractTypePayload {
+  /**
+   * ID of the anonymous complex or simple type of an element or attribute,
+   * e.g. "/element:order/anonymousComplexType[0]"
+   */
+  typeId: string;
+  /** Name of the new top-level type */
+  typeName: string;
+}
+
+/**
+ * Command to move an anonymous type with all its content to a new top-level
+ * type and make the declaring element or attribute refer to it by type.
+ */
+export interface ExtractTypeCommand extends BaseCommand<ExtractTypePayload> {
+  type: "extractType";
+  payload: ExtractTypePayload;
+}
+
+/**
+ * Payload for inlining a named type.
+ */
+export interface InlineTypePayload {
+  /** ID of the top-level complex or simple type, e.g. "/complexType:AddressType" */
+  typeId: string;
+  /**
+   * ID of the element or attribute declaration to inline the type into; the
+   * type is inlined into every declaration referring to it when omitted
+   */
+  declarationId?: string;
+}
+
+/**
+ * Command to replace the `type` of element or attribute declarations with an
+ * anonymous copy of the named type. The named type is removed once nothing
+ * refers to it anymore.
+ */
+export interface InlineTypeCommand extends BaseCommand<InlineTypePayload> {
+  type: "inlineType";
+  payload: InlineTypePayload;
+}
+
+/**
+ * Payload for extracting elements into a named model group.
+ */
+export interface ExtractGroupPayload {
+  /**
+   * IDs of adjacent elements of one sequence or choice, e.g.
+   * ["/complexType:OrderType/sequence[0]/element:street", "/complexType:OrderType/sequence[0]/element:city"]
+   */
+  particleIds: string[];
+  /** Name of the new top-level group */
+  groupName: string;
+  /**
+   * Whether identical runs of elements in the other sequences and choices of
+   * the schema are replaced with a reference to the new group as well
+   */
+  replaceDuplicates?: boolean;
+}
+
+/**
+ * Command to move elements of a sequence or choice into a new top-level
+ * group with the same kind of compositor and put a group reference in their
+ * place.
+ */
+export interface ExtractGroupCommand extends BaseCommand<ExtractGroupPayload> {
+  type: "extractGroup";
+  payload: ExtractGroupPayload;
+}
+
+/**
+ * Payload for extracting attributes into a named attribute group.
+ */
+export interface ExtractAttributeGroupPayload {
+  /**
+   * IDs of attributes of one or more complex types or attribute groups, e.g.
+   * ["/complexType:OrderType/attribute:id", "/complexType:InvoiceType/attribute:id"]
+   */
+  attributeIds: string[];
+  /** Name of the new top-level attribute group */
+  groupName: string;
+}
+
+/**
+ * Command to move attributes into a new top-level attribute group and put a
+ * reference to the group on every complex type or attribute group they were
+ * declared on. Attributes of the same name selected on several types are
+ * declared once in the group.
+ */
+export interface ExtractAttributeGroupCommand extends BaseCommand<ExtractAttributeGroupPayload> {
+  type: "extractAttributeGroup";
+  payload: ExtractAttributeGroupPayload;
+}
+
+/**
+ * Payload for promoting a local element to a top-level element.
+ */
+export interface PromoteElementPayload {
+  /**
+   * ID of a named local element in a compositor,
+   * e.g. "/complexType:OrderType/sequence[0]/element:item"
+   */
+  elementId: string;
+}
+
+/**
+ * Command to move a local element declaration to the schema root and put a
+ * reference to it, with the occurrence constraints of the local element, in
+ * its place.
+ */
+export interface PromoteElementCommand extends BaseCommand<PromoteElementPayload> {
+  type: "promoteElement";
+  payload: PromoteElementPayload;
+}
+
+/**
+ * Payload for demoting an element reference to a local element.
+ */
+export interface DemoteElementPayload {
+  /**
+   * ID of an element reference in a compositor,
+   * e.g. "/complexType:OrderType/sequence[0]/element:tns:item[0]"
+   */
+  elementId: string;
+}
+
+/**
+ * Command to replace an element reference with a local copy of the
+ * referenced top-level element. The top-level element is removed once
+ * nothing refers to it anymore.
+ */
+export interface DemoteElementCommand extends BaseCommand<DemoteElementPayload> {
+  type: "demoteElement";
+  payload: DemoteElementPayload;
+}
@@ -0,0 +1,41 @@
+/**
+ * Command types for editing the attributes of the `xs:schema` root element.
+ */
+
+import { BaseCommand } from "./base";
+import { ElementForm } from "./element";
+
+/**
+ * Payload for modifying the attributes of the schema root.
+ * Attributes left out are kept; an empty string removes an attribute.
+ */
+export interface ModifySchemaPayload {
+  /**
+   * New target namespace (optional). Must be an absolute URI; an empty string
+   * turns the schema into a no-namespace schema.
+   * Prefixes bound to the old target namespace are rebound to the new one.
+   * When a no-namespace schema gets a target namespace, a `tns` prefix is
+   * bound to it and unprefixed QName references are rewritten to use it.
+   */
+  targetNamespace?: string;
+  /** Default form of local element declarations (optional) */
+  elementFormDefault?: ElementForm | "";
+  /** Default form of local attribute declarations (optional) */
+  attributeFormDefault?: ElementForm | "";
+  /** Default `block` of elements and complex types: `#all` or a list of extension, restriction, substitution (optional) */
+  blockDefault?: string;
+  /** Default `final` of elements and types: `#all` or a list of extension, restriction, list, union (optional) */
+  finalDefault?: string;
+  /** Version of the schema (optional) */
+  version?: string;
+  /** Language of the schema, stored as `xml:lang` (optional) */
+  lang?: string;
+}
+
+/**
+ * Command to modify the attributes of the schema root.
+ */
+export interface ModifySchemaCommand extends BaseCommand<ModifySchemaPayload> {
+  type: "modifySchema";
+  payload: ModifySchemaPayload;
+}
@@ -6,7 +6,7 @@
 import { BaseCommand } from "./base";
 
 /**
- * Restriction facets for simple types.
+ * Restriction facets for simple types and simpleContent restrictions.
  */
 export interface RestrictionFacets {
   /** Minimum value (inclusive) */
@@ -23,10 +23,13 @@ export interface RestrictionFacets {
   minLength?: number;
   /** Maximum length */
   maxLength?: number;
-  /** Regular expression pattern */
-  pattern?: string;
-  /** Enumeration values */
-  enumeration?: string[];
+  /** Regular expression patterns; a value must match at least one of them */
+  pattern?: string[];
+  /**
+   * Enumeration values. A plain string keeps the documentation of an existing
+   * enumeration with the same value.
+   */
+  enumeration?: (string | EnumerationValue)[];
   /** Whitespace handling */
   whiteSpace?: "preserve" | "replace" | "collapse";
   /** Total number of digits */
@@ -35,10 +38,41 @@ export interface RestrictionFacets {
   fractionDigits?: number;
 }
 
+/**
+ * An enumeration value with its own documentation.
+ */
+export interface EnumerationValue {
+  /** The enumerated value */
+  value: string;
+  /** Documentation of the value; an empty string removes it */
+  documentation?: string;
+}
+
+/**
+ * How a simple type derives its value space: by restricting a base type,
+ * as a whitespace-separated list of an item type, or as a union of member types.
+ */
+export type SimpleTypeVariety = "restriction" | "list" | "union";
+
+/**
+ * An anonymous simple type derived by restriction, used as the item type of
+ * a list or as a member of a union.
+ */
+export interface InlineSimpleTypeDefinition {
+  /** Base type for the restriction */
+  baseType: string;
+  /** Restriction facets */
+  restrictions?: RestrictionFacets;
+}
+
 /**
  * Payload for adding a simple type definition.
  * When `parentId` refers to an element (not schema root), an anonymous simpleType
  * is added directly inside that element. In that case `typeName` is not needed.
+ *
+ * The `variety` selects which fields define the type: `baseType` and
+ * `restrictions` for a restriction, `itemType` or `itemSimpleType` for a list,
+ * and `memberTypes` and/or `memberSimpleTypes` for a union.
  */
 export interface AddSimpleTypePayload {
   /**
@@ -48,10 +82,20 @@ export interface AddSimpleTypePayload {
   parentId?: string;
   /** Name of the simple type. Required for top-level types; ignored for anonymous. */
   typeName?: string;
-  /** Base type for the restriction */
-  baseType: string;
+  /** Derivation variety (default: restriction) */
+  variety?: SimpleTypeVariety;
+  /** Base type for the restriction. Required for the restriction variety. */
+  baseType?: string;
   /** Restriction facets */
   restrictions?: RestrictionFacets;
+  /** Item type of a list, e.g. "xs:int". Exclusive with `itemSimpleType`. */
+  itemType?: string;
+  /** Anonymous item type of a list. Exclusive with `itemType`. */
+  itemSimpleType?: InlineSimpleTypeDefinition;
+  /** Member types of a union, e.g. ["xs:int", "tns:Code"] */
+  memberTypes?: string[];
+  /** Anonymous member types of a union, following the named `memberTypes` */
+  memberSimpleTypes?: InlineSimpleTypeDefinition[];
   /** Optional documentation */
   documentation?: string;
 }
@@ -82,16 +126,28 @@ export interface RemoveSimpleTypeCommand extends BaseCommand<RemoveSimpleTypePay
 
 /**
  * Payload for modifying a simple type.
+ * Giving a `variety` other than the current one replaces the derivation of the
+ * type; the fields of the new variety must then define it completely.
  */
 export interface ModifySimpleTypePayload {
   /** ID of the simple type to modify */
   typeId: string;
   /** New name for the type (optional) */
   typeName?: string;
-  /** New base type (optional) */
+  /** New derivation variety (optional) */
+  variety?: SimpleTypeVariety;
+  /** New base type (optional). Only valid for restrictions. */
   baseType?: string;
-  /** New restrictions (optional) */
+  /** New restrictions (optional). Only valid for restrictions. */
   restrictions?: RestrictionFacets;
+  /** New named item type of a list (optional); replaces an anonymous item type */
+  itemType?: string;
+  /** New anonymous item type of a list (optional); replaces a named item type */
+  itemSimpleType?: InlineSimpleTypeDefinition;
+  /** New named member types of a union (optional); anonymous members are kept */
+  memberTypes?: string[];
+  /** New anonymous member types of a union (optional); named members are kept */
+  memberSimpleTypes?: InlineSimpleTypeDefinition[];
   /** New documentation (optional) */
   documentation?: string;
 }
@@ -109,10 +165,25 @@ export interface ModifySimpleTypeCommand extends BaseCommand<ModifySimpleTypePay
  */
 export type ContentModel = "sequence" | "choice" | "all";
 
+/**
+ * How a complex type derives from its base type: by adding content and
+ * attributes to it, or by restricting its content and attributes.
+ */
+export type DerivationMethod = "extension" | "restriction";
+
+/**
+ * Content of a complex type besides its attributes: child elements
+ * (complexContent), or a text value of a simple type (simpleContent).
+ */
+export type ComplexContentKind = "complex" | "simple";
+
 /**
  * Payload for adding a complex type definition.
  * When `parentId` refers to an element (not schema root), an anonymous complexType
  * is added directly inside that element. In that case `typeName` is not needed.
+ *
+ * With a `baseType`, the type derives from it by the given `derivation` inside
+ * a `complexContent` or, for simple content, a `simpleContent` wrapper.
  */
 export interface AddComplexTypePayload {
   /**
@@ -122,12 +193,18 @@ export interface AddComplexTypePayload {
   parentId?: string;
   /** Name of the complex type. Required for top-level types; ignored for anonymous. */
   typeName?: string;
-  /** Content model (sequence, choice, all) */
-  contentModel: ContentModel;
+  /** Content model (sequence, choice, all). Required for complex content only. */
+  contentModel?: ContentModel;
   /** Whether the type is abstract. Only applicable to top-level types. */
   abstract?: boolean;
-  /** Base type for extension (optional) */
+  /** Base type (optional). Required for simple content. */
   baseType?: string;
+  /** Derivation method from the base type (default: extension) */
+  derivation?: DerivationMethod;
+  /** Content kind (default: complex) */
+  contentKind?: ComplexContentKind;
+  /** Facets of the text value. Only valid for simpleContent restrictions. */
+  restrictions?: RestrictionFacets;
   /** Whether to allow mixed content */
   mixed?: boolean;
   /** Optional documentation */
@@ -160,6 +237,8 @@ export interface RemoveComplexTypeCommand extends BaseCommand<RemoveComplexTypeP
 
 /**
  * Payload for modifying a complex type.
+ * Changing the `derivation` or `contentKind` keeps the base type, attributes
+ * and, for complex content, the content model of the type.
  */
 export interface ModifyComplexTypePayload {
   /** ID of the complex type to modify */
@@ -170,8 +249,14 @@ export interface ModifyComplexTypePayload {
   contentModel?: ContentModel;
   /** New abstract status (optional) */
   abstract?: boolean;
-  /** New base type (optional) */
+  /** New base type (optional); an empty string removes the derivation */
   baseType?: string;
+  /** New derivation method (optional) */
+  derivation?: DerivationMethod;
+  /** New content kind (optional) */
+  contentKind?: ComplexContentKind;
+  /** New facets of the text value (optional). Only valid for simpleContent restrictions. */
+  restrictions?: RestrictionFacets;
   /** New mixed content flag (optional) */
   mixed?: boolean;
   /** New documentation (optional) */
@@ -0,0 +1,92 @@
+/**
+ * Wildcard command types for xs:any and xs:anyAttribute.
+ * Provides commands for adding, removing, and modifying the element wildcards
+ * of compositors and the attribute wildcards of complex types and attribute groups.
+ */
+
+import { BaseCommand } from "./base";
+
+/**
+ * Kind of wildcard: `any` matches elements, `anyAttribute` matches attributes.
+ */
+export type WildcardKind = "any" | "anyAttribute";
+
+/**
+ * How a processor validates the content matched by a wildcard.
+ */
+export type ProcessContents = "strict" | "lax" | "skip";
+
+/**
+ * Payload for adding a wildcard.
+ */
+export interface AddWildcardPayload {
+  /**
+   * ID of the parent node: a sequence or choice for `any`; a complex type or
+   * attribute group for `anyAttribute`
+   */
+  parentId: string;
+  /** Kind of the wildcard */
+  kind: WildcardKind;
+  /**
+   * Namespace constraint: `##any`, `##other`, or a space-separated list of
+   * namespace URIs, `##targetNamespace` and `##local` (default: `##any`)
+   */
+  namespace?: string;
+  /** How matched content is validated (default: strict) */
+  processContents?: ProcessContents;
+  /** Minimum occurrences (default: 1). Only valid for `any`. */
+  minOccurs?: number;
+  /** Maximum occurrences (default: 1, use 'unbounded' for unlimited). Only valid for `any`. */
+  maxOccurs?: number | "unbounded";
+}
+
+/**
+ * Command to add a wildcard.
+ */
+export interface AddWildcardCommand extends BaseCommand<AddWildcardPayload> {
+  type: "addWildcard";
+  payload: AddWildcardPayload;
+}
+
+/**
+ * Payload for removing a wildcard.
+ */
+export interface RemoveWildcardPayload {
+  /**
+   * ID of the wildcard to remove, e.g. "/complexType:Ext/sequence/any[0]" or
+   * "/complexType:Ext/anyAttribute"
+   */
+  wildcardId: string;
+}
+
+/**
+ * Command to remove a wildcard.
+ */
+export interface RemoveWildcardCommand extends BaseCommand<RemoveWildcardPayload> {
+  type: "removeWildcard";
+  payload: RemoveWildcardPayload;
+}
+
+/**
+ * Payload for modifying an existing wildcard.
+ */
+export interface ModifyWildcardPayload {
+  /** ID of the wildcard to modify */
+  wildcardId: string;
+  /** New namespace constraint (optional) */
+  namespace?: string;
+  /** New processContents (optional) */
+  processContents?: ProcessContents;
+  /** New minimum occurrences (optional). Only valid for `any`. */
+  minOccurs?: number;
+  /** New maximum occurrences (optional). Only valid for `any`. */
+  maxOccurs?: number | "unbounded";
+}
+
+/**
+ * Command to modify an existing wildcard.
+ */
+export interface ModifyWildcardCommand extends BaseCommand<ModifyWildcardPayload> {
+  type: "modifyWildcard";
+  payload: ModifyWildcardPayload;
+}
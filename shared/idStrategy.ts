@@ -45,6 +45,22 @@ export enum SchemaNodeType {
   Annotation = "annotation",
   /** Documentation */
   Documentation = "documentation",
+  /** Key identity constraint of an element */
+  Key = "key",
+  /** Unique identity constraint of an element */
+  Unique = "unique",
+  /** Keyref identity constraint of an element */
+  Keyref = "keyref",
+  /** Element wildcard (xs:any) in a compositor */
+  Any = "any",
+  /** Attribute wildcard (xs:anyAttribute) of a complex type or attribute group */
+  AnyAttribute = "anyAttribute",
+  /** Sequence compositor, e.g. /complexType:X/sequence[0]/sequence[1] */
+  Sequence = "sequence",
+  /** Choice compositor, e.g. /complexType:X/sequence[0]/choice[1] */
+  Choice = "choice",
+  /** All compositor of a complex type or named group */
+  All = "all",
 }
 
 /**
@@ -37,6 +37,127 @@ export interface ExecuteCommandMessage
   data: SchemaCommand;
 }
 
+/**
+ * Identifies a schema node by its ID (see shared/idStrategy.ts).
+ */
+export interface NodeSelectionData {
+  /** ID of the schema node */
+  nodeId: string;
+}
+
+/**
+ * Message sent when the user selects a node in the diagram,
+ * so the extension can reveal the node in the text editor.
+ */
+export interface SelectionChangedMessage
+  extends Message<"selectionChanged", NodeSelectionData> {
+  command: "selectionChanged";
+  data: NodeSelectionData;
+}
+
+/**
+ * Identifies a point of the command history to restore.
+ */
+export interface StepHistoryData {
+  /** Number of history entries to keep applied; 0 restores the document as opened */
+  position: number;
+}
+
+/**
+ * Message sent when the user picks an entry in the history list,
+ * so the extension can restore the document to that point.
+ */
+export interface StepToHistoryMessage
+  extends Message<"stepToHistory", StepHistoryData> {
+  command: "stepToHistory";
+  data: StepHistoryData;
+}
+
+/**
+ * Identifies a component whose usages to find.
+ */
+export interface FindUsagesData {
+  /** ID of a top-level component or of a key or unique constraint */
+  componentId: string;
+  /**
+   * Whether the usages are found to confirm a safe delete of the component,
+   * so the usages of its dependants are needed too
+   */
+  forSafeDelete?: boolean;
+}
+
+/**
+ * Message sent when the user asks for the usages of a component.
+ */
+export interface FindUsagesMessage extends Message<"findUsages", FindUsagesData> {
+  command: "findUsages";
+  data: FindUsagesData;
+}
+
+/**
+ * A place in the schema that refers to a component by QName.
+ */
+export interface ComponentUsageData {
+  /**
+   * ID of the referencing node. References inside nodes that have no ID of
+   * their own (e.g. a group reference or an element of a nested compositor)
+   * are reported at the closest enclosing node that has one.
+   */
+  nodeId: string;
+  /** Name of the referencing attribute, e.g. "type", "base" or "refer" */
+  attribute: string;
+  /** The QName as written in the schema */
+  value: string;
+}
+
+/**
+ * The usages found for a component.
+ */
+export interface ComponentUsagesData {
+  /** ID of the component */
+  componentId: string;
+  /** The usages, grouped by the top-level component containing them */
+  usages: ComponentUsageData[];
+  /**
+   * For a safe delete, the usages of the components a cascade removes along
+   * with the component
+   */
+  dependants?: ComponentUsageData[];
+}
+
+/**
+ * A command recorded in the command history of a document.
+ */
+export interface CommandHistoryEntryData {
+  /** Sequence number of the entry, unique within the document's history */
+  id: number;
+  /** Human-readable description of the command */
+  label: string;
+  /** Time the command was applied, in milliseconds since the epoch */
+  timestamp: number;
+  /** The applied command */
+  command: SchemaCommand;
+  /** SHA-256 hash of the document text before the command */
+  beforeHash: string;
+  /** SHA-256 hash of the document text after the command */
+  afterHash: string;
+}
+
+/**
+ * Command history of a document.
+ */
+export interface CommandHistoryData {
+  /** Recorded commands, oldest first */
+  entries: CommandHistoryEntryData[];
+  /** Number of entries currently applied; later entries were stepped back over */
+  position: number;
+  /**
+   * SHA-256 hash of the current document text. Differs from the hash of the
+   * current history point when the document was edited outside the history.
+   */
+  documentHash: string;
+}
+
 /**
  * Diagram display options from settings.
  */
@@ -92,10 +213,42 @@ export interface CommandResultMessage
   data: CommandResponse;
 }
 
+/**
+ * Message to select a node in the diagram after the cursor moved
+ * onto it in the text editor.
+ */
+export interface RevealNodeMessage
+  extends Message<"revealNode", NodeSelectionData> {
+  command: "revealNode";
+  data: NodeSelectionData;
+}
+
+/**
+ * Message to update the command history list in the webview.
+ */
+export interface UpdateHistoryMessage
+  extends Message<"updateHistory", CommandHistoryData> {
+  command: "updateHistory";
+  data: CommandHistoryData;
+}
+
+/**
+ * Message to list the usages of a component in the webview.
+ */
+export interface ShowUsagesMessage
+  extends Message<"showUsages", ComponentUsagesData> {
+  command: "showUsages";
+  data: ComponentUsagesData;
+}
+
 /**
  * Union type of all messages from webview to extension.
  */
-export type WebviewMessage = ExecuteCommandMessage;
+export type WebviewMessage =
+  | ExecuteCommandMessage
+  | SelectionChangedMessage
+  | StepToHistoryMessage
+  | FindUsagesMessage;
 
 /**
  * Union type of all messages from extension to webview.
@@ -105,4 +258,7 @@ export type ExtensionMessage =
   | UpdateDiagramOptionsMessage
   | SchemaModifiedMessage
   | ErrorMessage
-  | CommandResultMessage;
+  | CommandResultMessage
+  | RevealNodeMessage
+  | UpdateHistoryMessage
+  | ShowUsagesMessage;
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for the built-in datatype knowledge base.
+ */
+
+import {
+  BUILT_IN_DATATYPE_NAMES,
+  compareValues,
+  getBuiltInDatatype,
+  getBuiltInFacets,
+  isFacetApplicable,
+  isValidLexicalValue,
+} from "./xsdDatatypes";
+
+describe("xsdDatatypes", () => {
+  describe("getBuiltInDatatype", () => {
+    it("should describe primitive, derived and list types", () => {
+      expect(BUILT_IN_DATATYPE_NAMES).toHaveLength(46);
+      expect(getBuiltInDatatype("int")).toMatchObject({
+        name: "int",
+        base: "long",
+        primitive: "decimal",
+        variety: "atomic",
+      });
+      expect(getBuiltInDatatype("token")?.primitive).toBe("string");
+      expect(getBuiltInDatatype("IDREFS")?.variety).toBe("list");
+      expect(getBuiltInDatatype("PersonType")).toBeUndefined();
+      expect(getBuiltInDatatype("xs:int")).toBeUndefined();
+    });
+  });
+
+  describe("getBuiltInFacets", () => {
+    it("should collect the facets of a type and its base types", () => {
+      expect(getBuiltInFacets("byte")).toMatchObject({
+        minInclusive: "-128",
+        maxInclusive: "127",
+        fractionDigits: 0,
+        whiteSpace: "collapse",
+      });
+      expect(getBuiltInFacets("normalizedString").whiteSpace).toBe("replace");
+      expect(getBuiltInFacets("ENTITIES").minLength).toBe(1);
+    });
+  });
+
+  describe("isFacetApplicable", () => {
+    it("should allow the facets of the primitive type only", () => {
+      expect(isFacetApplicable("int", "totalDigits")).toBe(true);
+      expect(isFacetApplicable("int", "maxLength")).toBe(false);
+      expect(isFacetApplicable("token", "maxLength")).toBe(true);
+      expect(isFacetApplicable("date", "minInclusive")).toBe(true);
+      expect(isFacetApplicable("boolean", "enumeration")).toBe(false);
+      expect(isFacetApplicable("NMTOKENS", "length")).toBe(true);
+      expect(isFacetApplicable("anySimpleType", "pattern")).toBe(false);
+    });
+  });
+
+  describe("isValidLexicalValue", () => {
+    it("should check values against the lexical space of the type", () => {
+      expect(isValidLexicalValue("int", " 42 ")).toBe(true);
+      expect(isValidLexicalValue("int", "4.2")).toBe(false);
+      expect(isValidLexicalValue("decimal", "-.5")).toBe(true);
+      expect(isValidLexicalValue("double", "-INF")).toBe(true);
+      expect(isValidLexicalValue("boolean", "yes")).toBe(false);
+      expect(isValidLexicalValue("date", "2024-02-29+01:00")).toBe(true);
+      expect(isValidLexicalValue("date", "29.02.2024")).toBe(false);
+      expect(isValidLexicalValue("duration", "P1Y2MT3H")).toBe(true);
+      expect(isValidLexicalValue("duration", "PT")).toBe(false);
+      expect(isValidLexicalValue("NCName", "a:b")).toBe(false);
+      expect(isValidLexicalValue("string", " anything ")).toBe(true);
+    });
+  });
+
+  describe("compareValues", () => {
+    it("should compare decimal values without loss of precision", () => {
+      expect(compareValues("unsignedLong", "18446744073709551615", "18446744073709551614")).toBe(
+        1
+      );
+      expect(compareValues("decimal", "-1.50", "-1.5")).toBe(0);
+      expect(compareValues("decimal", "-2", "-1.5")).toBe(-1);
+      expect(compareValues("decimal", "0.05", ".1")).toBe(-1);
+    });
+
+    it("should compare floating-point and date values", () => {
+      expect(compareValues("double", "1e3", "INF")).toBe(-1);
+      expect(compareValues("double", "NaN", "1")).toBeUndefined();
+      expect(compareValues("date", "2024-01-02", "2023-12-31")).toBe(1);
+      expect(
+        compareValues("dateTime", "2024-01-01T10:00:00+02:00", "2024-01-01T08:00:00Z")
+      ).toBe(0);
+      expect(compareValues("gMonthDay", "--02-29", "--03-01")).toBe(-1);
+      expect(compareValues("time", "10:00:00Z", "09:00:00")).toBeUndefined();
+    });
+
+    it("should not compare unordered types or invalid values", () => {
+      expect(compareValues("string", "a", "b")).toBeUndefined();
+      expect(compareValues("duration", "P1D", "P2D")).toBeUndefined();
+      expect(compareValues("int", "one", "2")).toBeUndefined();
+    });
+  });
+});
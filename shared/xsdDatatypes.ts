@@ -0,0 +1,382 @@
+/**
+ * Knowledge base of the built-in datatypes of XML Schema 1.0: the type
+ * hierarchy, the facets that can restrict each type, the facets each derived
+ * type is defined with, and the lexical and ordered value spaces.
+ * Shared between the extension validators and the webview editors.
+ */
+
+import type { RestrictionFacets } from "./commands/schemaTypes";
+
+/** Name of a restriction facet. */
+export type FacetName = keyof RestrictionFacets;
+
+/** How the values of a datatype are built: single values or whitespace-separated lists. */
+export type DatatypeVariety = "atomic" | "list";
+
+/**
+ * A built-in datatype of XML Schema 1.0.
+ */
+export interface BuiltInDatatype {
+  /** Local name of the type, e.g. "int" */
+  name: string;
+  /** Local name of the type it is derived from; undefined for xs:anyType */
+  base?: string;
+  /** Local name of the primitive type it derives from; undefined for the ur-types and lists */
+  primitive?: string;
+  /** Whether values are single values or lists */
+  variety: DatatypeVariety;
+  /** Facets that can restrict the type */
+  applicableFacets: readonly FacetName[];
+  /** Facets the type is defined with, on top of those of its base type */
+  facets: RestrictionFacets;
+}
+
+/** Facets of string-like types and lists, which are constrained by length. */
+const LENGTH_FACETS: readonly FacetName[] = [
+  "length",
+  "minLength",
+  "maxLength",
+  "pattern",
+  "enumeration",
+  "whiteSpace",
+];
+
+/** Facets of ordered types. */
+const ORDERED_FACETS: readonly FacetName[] = [
+  "pattern",
+  "enumeration",
+  "whiteSpace",
+  "maxInclusive",
+  "maxExclusive",
+  "minInclusive",
+  "minExclusive",
+];
+
+/** Facets of xs:decimal and the integer types. */
+const DECIMAL_FACETS: readonly FacetName[] = [...ORDERED_FACETS, "totalDigits", "fractionDigits"];
+
+/** Facets of xs:boolean. */
+const BOOLEAN_FACETS: readonly FacetName[] = ["pattern", "whiteSpace"];
+
+/** Facets that can restrict list types. */
+export const LIST_FACETS: readonly FacetName[] = LENGTH_FACETS;
+
+/** Facets that can restrict union types. */
+export const UNION_FACETS: readonly FacetName[] = ["pattern", "enumeration"];
+
+/** The built-in datatypes, each following its base type. */
+const DATATYPES = new Map<string, BuiltInDatatype>();
+
+/**
+ * Registers a built-in datatype. Types derived by restriction inherit the
+ * primitive type, variety and applicable facets of their base type.
+ *
+ * @param name - Local name of the type
+ * @param base - Local name of its base type
+ * @param facets - Facets the type is defined with
+ * @param definition - Overrides of the inherited properties
+ */
+function define(
+  name: string,
+  base: string | undefined,
+  facets: RestrictionFacets = {},
+  definition: Partial<Pick<BuiltInDatatype, "primitive" | "variety" | "applicableFacets">> = {}
+): void {
+  const baseType = base === undefined ? undefined : DATATYPES.get(base);
+  DATATYPES.set(name, {
+    name,
+    base,
+    primitive: baseType?.primitive,
+    variety: baseType?.variety ?? "atomic",
+    applicableFacets: baseType?.applicableFacets ?? [],
+    facets,
+    ...definition,
+  });
+}
+
+/**
+ * Registers a primitive type, derived from xs:anySimpleType.
+ */
+function primitive(
+  name: string,
+  applicableFacets: readonly FacetName[],
+  whiteSpace: "preserve" | "collapse" = "collapse"
+): void {
+  define(name, "anySimpleType", { whiteSpace }, { primitive: name, applicableFacets });
+}
+
+/**
+ * Registers a built-in list type, whose values hold at least one item.
+ */
+function list(name: string): void {
+  define(
+    name,
+    "anySimpleType",
+    { minLength: 1, whiteSpace: "collapse" },
+    { primitive: undefined, variety: "list", applicableFacets: LIST_FACETS }
+  );
+}
+
+// Ur-types
+define("anyType", undefined);
+define("anySimpleType", "anyType");
+
+// Primitive types
+primitive("string", LENGTH_FACETS, "preserve");
+primitive("boolean", BOOLEAN_FACETS);
+primitive("decimal", DECIMAL_FACETS);
+primitive("float", ORDERED_FACETS);
+primitive("double", ORDERED_FACETS);
+primitive("duration", ORDERED_FACETS);
+primitive("dateTime", ORDERED_FACETS);
+primitive("time", ORDERED_FACETS);
+primitive("date", ORDERED_FACETS);
+primitive("gYearMonth", ORDERED_FACETS);
+primitive("gYear", ORDERED_FACETS);
+primitive("gMonthDay", ORDERED_FACETS);
+primitive("gDay", ORDERED_FACETS);
+primitive("gMonth", ORDERED_FACETS);
+primitive("hexBinary", LENGTH_FACETS);
+primitive("base64Binary", LENGTH_FACETS);
+primitive("anyURI", LENGTH_FACETS);
+primitive("QName", LENGTH_FACETS);
+primitive("NOTATION", LENGTH_FACETS);
+
+// Types derived from xs:string
+define("normalizedString", "string", { whiteSpace: "replace" });
+define("token", "normalizedString", { whiteSpace: "collapse" });
+define("language", "token", { pattern: ["[a-zA-Z]{1,8}(-[a-zA-Z0-9]{1,8})*"] });
+define("NMTOKEN", "token", { pattern: ["\\c+"] });
+define("Name", "token", { pattern: ["\\i\\c*"] });
+define("NCName", "Name", { pattern: ["[\\i-[:]][\\c-[:]]*"] });
+define("ID", "NCName");
+define("IDREF", "NCName");
+define("ENTITY", "NCName");
+list("NMTOKENS");
+list("IDREFS");
+list("ENTITIES");
+
+// Types derived from xs:decimal
+define("integer", "decimal", { fractionDigits: 0, pattern: ["[\\-+]?[0-9]+"] });
+define("nonPositiveInteger", "integer", { maxInclusive: "0" });
+define("negativeInteger", "nonPositiveInteger", { maxInclusive: "-1" });
+define("long", "integer", {
+  minInclusive: "-9223372036854775808",
+  maxInclusive: "9223372036854775807",
+});
+define("int", "long", { minInclusive: "-2147483648", maxInclusive: "2147483647" });
+define("short", "int", { minInclusive: "-32768", maxInclusive: "32767" });
+define("byte", "short", { minInclusive: "-128", maxInclusive: "127" });
+define("nonNegativeInteger", "integer", { minInclusive: "0" });
+define("unsignedLong", "nonNegativeInteger", { maxInclusive: "18446744073709551615" });
+define("unsignedInt", "unsignedLong", { maxInclusive: "4294967295" });
+define("unsignedShort", "unsignedInt", { maxInclusive: "65535" });
+define("unsignedByte", "unsignedShort", { maxInclusive: "255" });
+define("positiveInteger", "nonNegativeInteger", { minInclusive: "1" });
+
+/** Local names of all built-in datatypes, each following its base type. */
+export const BUILT_IN_DATATYPE_NAMES: readonly string[] = [...DATATYPES.keys()];
+
+/** Optional timezone of date and time values. */
+const TIMEZONE = "(Z|[+-]\\d{2}:\\d{2})?";
+
+/** Lexical spaces of the types whose values are not arbitrary strings. */
+const LEXICAL_SPACES: Readonly<Record<string, RegExp>> = {
+  boolean: /^(true|false|1|0)$/,
+  decimal: /^[+-]?(\d+(\.\d*)?|\.\d+)$/,
+  integer: /^[+-]?\d+$/,
+  float: /^([+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?|-?INF|NaN)$/,
+  double: /^([+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?|-?INF|NaN)$/,
+  duration: /^-?P(?=\d|T\d)(\d+Y)?(\d+M)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/,
+  dateTime: new RegExp(`^-?\\d{4,}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?${TIMEZONE}$`),
+  time: new RegExp(`^\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?${TIMEZONE}$`),
+  date: new RegExp(`^-?\\d{4,}-\\d{2}-\\d{2}${TIMEZONE}$`),
+  gYearMonth: new RegExp(`^-?\\d{4,}-\\d{2}${TIMEZONE}$`),
+  gYear: new RegExp(`^-?\\d{4,}${TIMEZONE}$`),
+  gMonthDay: new RegExp(`^--\\d{2}-\\d{2}${TIMEZONE}$`),
+  gDay: new RegExp(`^---\\d{2}${TIMEZONE}$`),
+  gMonth: new RegExp(`^--\\d{2}${TIMEZONE}$`),
+  hexBinary: /^([0-9a-fA-F]{2})*$/,
+  base64Binary: /^[A-Za-z0-9+/=\s]*$/,
+  language: /^[a-zA-Z]{1,8}(-[a-zA-Z0-9]{1,8})*$/,
+  NMTOKEN: /^[\p{L}\p{N}._:\-\u00B7]+$/u,
+  Name: /^[\p{L}_:][\p{L}\p{N}._:\-\u00B7]*$/u,
+  NCName: /^[\p{L}_][\p{L}\p{N}._\-\u00B7]*$/u,
+};
+
+/** Fields of the values of the date and time types; a timezone may follow them. */
+const DATE_TIME_FIELDS: Readonly<Record<string, RegExp>> = {
+  dateTime: /^(?<year>-?\d{4,})-(?<month>\d{2})-(?<day>\d{2})T(?<time>[\d:.]+)/,
+  time: /^(?<time>[\d:.]+)/,
+  date: /^(?<year>-?\d{4,})-(?<month>\d{2})-(?<day>\d{2})/,
+  gYearMonth: /^(?<year>-?\d{4,})-(?<month>\d{2})/,
+  gYear: /^(?<year>-?\d{4,})/,
+  gMonthDay: /^--(?<month>\d{2})-(?<day>\d{2})/,
+  gDay: /^---(?<day>\d{2})/,
+  gMonth: /^--(?<month>\d{2})/,
+};
+
+/**
+ * Returns the built-in datatype of a type name.
+ * Callers resolve QNames first: only names in the XML Schema namespace are built-in.
+ *
+ * @param typeName - The local name of the type, without a namespace prefix
+ * @returns The datatype, or undefined if the name is not a built-in type
+ */
+export function getBuiltInDatatype(typeName: string): BuiltInDatatype | undefined {
+  return DATATYPES.get(typeName);
+}
+
+/**
+ * Returns the built-in type and its base types, starting with the type itself.
+ */
+function getAncestry(datatype: BuiltInDatatype): BuiltInDatatype[] {
+  const ancestry = [datatype];
+  let base = datatype.base;
+  while (base !== undefined) {
+    const baseType = DATATYPES.get(base);
+    if (!baseType) break;
+    ancestry.push(baseType);
+    base = baseType.base;
+  }
+  return ancestry;
+}
+
+/**
+ * Returns the facets in effect for a built-in type: its own facets and those
+ * of its base types that it does not redefine.
+ *
+ * @param typeName - The local name of the built-in type
+ * @returns The facets of the type; empty for unknown types
+ */
+export function getBuiltInFacets(typeName: string): RestrictionFacets {
+  const datatype = getBuiltInDatatype(typeName);
+  const ancestry = datatype ? getAncestry(datatype) : [];
+  return Object.assign({}, ...ancestry.reverse().map((type) => type.facets)) as RestrictionFacets;
+}
+
+/**
+ * Returns true if a facet can restrict the given built-in type.
+ *
+ * @param typeName - The local name of the built-in type
+ * @param facet - The facet name
+ */
+export function isFacetApplicable(typeName: string, facet: FacetName): boolean {
+  return getBuiltInDatatype(typeName)?.applicableFacets.includes(facet) ?? false;
+}
+
+/**
+ * Returns true if a value is in the lexical space of a built-in type.
+ * Values of types without a known lexical space, such as xs:string, are always valid.
+ *
+ * @param typeName - The local name of the built-in type
+ * @param value - The value to check
+ */
+export function isValidLexicalValue(typeName: string, value: string): boolean {
+  const datatype = getBuiltInDatatype(typeName);
+  if (!datatype) {
+    return true;
+  }
+  const lexicalSpace = getAncestry(datatype)
+    .map((type) => LEXICAL_SPACES[type.name])
+    .find((pattern) => pattern !== undefined);
+  const whiteSpace = getBuiltInFacets(typeName).whiteSpace;
+  return lexicalSpace?.test(whiteSpace === "collapse" ? value.trim() : value) ?? true;
+}
+
+/**
+ * Compares two strings by their code units.
+ */
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Compares two decimal numbers given in their lexical form, without loss of precision.
+ */
+function compareDecimals(a: string, b: string): number {
+  const parse = (value: string): { sign: number; integer: string; fraction: string } => {
+    const [integerPart, fractionPart = ""] = value.replace(/^[+-]/, "").split(".");
+    const integer = integerPart.replace(/^0+/, "");
+    const fraction = fractionPart.replace(/0+$/, "");
+    const sign = !integer && !fraction ? 0 : value.startsWith("-") ? -1 : 1;
+    return { sign, integer, fraction };
+  };
+  const x = parse(a);
+  const y = parse(b);
+  if (x.sign !== y.sign) {
+    return Math.sign(x.sign - y.sign);
+  }
+  const fractionLength = Math.max(x.fraction.length, y.fraction.length);
+  const magnitude =
+    Math.sign(x.integer.length - y.integer.length) ||
+    compareStrings(x.integer, y.integer) ||
+    compareStrings(x.fraction.padEnd(fractionLength, "0"), y.fraction.padEnd(fractionLength, "0"));
+  return magnitude === 0 ? 0 : x.sign * magnitude;
+}
+
+/**
+ * Converts a float or double value into a number.
+ */
+function toFloat(value: string): number {
+  if (value === "INF") {
+    return Infinity;
+  }
+  return value === "-INF" ? -Infinity : Number(value);
+}
+
+/**
+ * Converts a date or time value into milliseconds, for comparison.
+ * Fields the type does not have take fixed reference values.
+ *
+ * @param primitiveName - The date or time primitive type of the value
+ * @param value - A valid value of the type
+ * @returns The time in milliseconds and whether a timezone was given
+ */
+function toTime(primitiveName: string, value: string): { time: number; timezone: boolean } {
+  const timezone = /(Z|[+-]\d{2}:\d{2})$/.exec(value)?.[0];
+  const fields = DATE_TIME_FIELDS[primitiveName].exec(value)?.groups ?? {};
+  const { year = "1972", month = "01", day = "01", time = "00:00:00" } = fields;
+  const [hours, minutes, seconds] = time.split(":").map(Number);
+  const date = new Date(0);
+  date.setUTCFullYear(Number(year), Number(month) - 1, Number(day));
+  date.setUTCHours(hours, minutes, 0, 0);
+  let ms = date.getTime() + seconds * 1000;
+  if (timezone && timezone !== "Z") {
+    const sign = timezone.startsWith("-") ? -1 : 1;
+    const [offsetHours, offsetMinutes] = timezone.slice(1).split(":").map(Number);
+    ms -= sign * (offsetHours * 60 + offsetMinutes) * 60000;
+  }
+  return { time: ms, timezone: timezone !== undefined };
+}
+
+/**
+ * Compares two values of a built-in type in its value space.
+ *
+ * @param typeName - The local name of the built-in type
+ * @param a - The first value
+ * @param b - The second value
+ * @returns A negative number, zero or a positive number if `a` is less than,
+ * equal to or greater than `b`; undefined if the values are invalid, the type
+ * is not ordered or the values cannot be compared (such as times with and
+ * without a timezone)
+ */
+export function compareValues(typeName: string, a: string, b: string): number | undefined {
+  const primitiveName = getBuiltInDatatype(typeName)?.primitive;
+  if (!primitiveName || !isValidLexicalValue(typeName, a) || !isValidLexicalValue(typeName, b)) {
+    return undefined;
+  }
+  const [x, y] = [a.trim(), b.trim()];
+  if (primitiveName === "decimal") {
+    return compareDecimals(x, y);
+  }
+  if (primitiveName === "float" || primitiveName === "double") {
+    const [m, n] = [toFloat(x), toFloat(y)];
+    return Number.isNaN(m) || Number.isNaN(n) ? undefined : m === n ? 0 : m < n ? -1 : 1;
+  }
+  if (primitiveName in DATE_TIME_FIELDS) {
+    const [m, n] = [toTime(primitiveName, x), toTime(primitiveName, y)];
+    return m.timezone === n.timezone ? Math.sign(m.time - n.time) : undefined;
+  }
+  return undefined;
+}
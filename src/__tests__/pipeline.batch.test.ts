@@ -0,0 +1,119 @@
+/**
+ * Integration tests: batch command pipeline.
+ *
+ * Exercises composite operations sent as one `batch` command through
+ *   CommandProcessor → CommandValidator → CommandExecutor → XML round-trip
+ *
+ * Verifies that sub-commands build on each other's results, that the batch
+ * yields a single set of edits, and that a failing sub-command rolls back the
+ * whole batch with an error naming it.
+ */
+
+import type { BatchCommand } from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import {
+  MINIMAL_SCHEMA,
+  runCommand,
+  runCommandExpectSuccessSchema,
+  runCommandExpectValidationFailure,
+} from "./testHelpers";
+
+/** Element with an anonymous complex type containing three children and two attributes. */
+const ADD_PERSON: BatchCommand = {
+  type: "batch",
+  payload: {
+    label: "Add person",
+    commands: [
+      { type: "addElement", payload: { parentId: "schema", elementName: "person" } },
+      {
+        type: "addComplexType",
+        payload: { parentId: "/element:person", contentModel: "sequence" },
+      },
+      ...["firstName", "lastName", "email"].map((elementName) => ({
+        type: "addElement" as const,
+        payload: {
+          parentId: "/element:person/anonymousComplexType[0]/sequence",
+          elementName,
+          elementType: "xs:string",
+        },
+      })),
+      {
+        type: "addAttribute",
+        payload: {
+          parentId: "/element:person/anonymousComplexType[0]",
+          attributeName: "id",
+          attributeType: "xs:ID",
+          required: true,
+        },
+      },
+      {
+        type: "addAttribute",
+        payload: {
+          parentId: "/element:person/anonymousComplexType[0]",
+          attributeName: "status",
+          attributeType: "xs:string",
+        },
+      },
+    ],
+  },
+};
+
+describe("Integration: Batch pipeline", () => {
+  it("applies sub-commands that depend on the results of earlier ones", () => {
+    const result = runCommandExpectSuccessSchema(MINIMAL_SCHEMA, ADD_PERSON);
+
+    const person = toArray(result.element)[0];
+    expect(person.name).toBe("person");
+    const sequence = person.complexType?.sequence;
+    expect(toArray(sequence?.element).map((e) => e.name)).toEqual([
+      "firstName",
+      "lastName",
+      "email",
+    ]);
+    expect(toArray(person.complexType?.attribute).map((a) => a.name)).toEqual(["id", "status"]);
+  });
+
+  it("produces one set of edits for the whole batch", () => {
+    const result = runCommand(MINIMAL_SCHEMA, ADD_PERSON);
+
+    // All changes are inside the schema element, so they merge into one edit
+    expect(result).toMatchObject({ success: true, edits: [expect.anything()] });
+  });
+
+  it("rolls back the whole batch and names the failing sub-command", () => {
+    const invalid: BatchCommand = {
+      type: "batch",
+      payload: {
+        commands: [
+          ...ADD_PERSON.payload.commands.slice(0, 2),
+          {
+            type: "addElement",
+            payload: {
+              parentId: "/element:person/anonymousComplexType[0]/sequence",
+              elementName: "1invalid",
+            },
+          },
+        ],
+      },
+    };
+
+    runCommandExpectValidationFailure(
+      MINIMAL_SCHEMA,
+      invalid,
+      "Batch command 3 of 3 (addElement) is invalid: Element name must be a valid XML name"
+    );
+  });
+
+  it("rejects sub-commands that rely on changes made later in the batch", () => {
+    const reordered: BatchCommand = {
+      type: "batch",
+      payload: { commands: [ADD_PERSON.payload.commands[2], ...ADD_PERSON.payload.commands] },
+    };
+
+    runCommandExpectValidationFailure(
+      MINIMAL_SCHEMA,
+      reordered,
+      "Batch command 1 of 8 (addElement) is invalid: Parent node not found: /element:person/anonymousComplexType[0]/sequence"
+    );
+  });
+});
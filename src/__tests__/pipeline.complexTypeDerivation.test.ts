@@ -0,0 +1,67 @@
+/**
+ * Integration tests: complexType derivation pipeline.
+ *
+ * Covers complex types with simple content, complexContent restrictions and
+ * switching the derivation of an existing type, and base types that do not fit
+ * the derivation. Success-path assertions are made against the unmarshalled
+ * schema object and the serialized XML.
+ */
+
+import type { AddComplexTypeCommand, ModifyComplexTypeCommand } from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import {
+  SCHEMA_WITH_COMPLEXTYPE,
+  runCommandExpectSuccess,
+  runCommandExpectSuccessSchema,
+  runCommandExpectValidationFailure,
+} from "./testHelpers";
+
+describe("Integration: ComplexType derivation pipeline", () => {
+  it("adds a complexType with simple content", () => {
+    const cmd: AddComplexTypeCommand = {
+      type: "addComplexType",
+      payload: { typeName: "PriceType", contentKind: "simple", baseType: "xs:decimal" },
+    };
+
+    const xml = runCommandExpectSuccess(SCHEMA_WITH_COMPLEXTYPE, cmd);
+
+    expect(xml).toContain("<xs:simpleContent>");
+    expect(xml).toContain('<xs:extension base="xs:decimal"');
+  });
+
+  it("switches a complexContent extension to a restriction", () => {
+    const add: AddComplexTypeCommand = {
+      type: "addComplexType",
+      payload: { typeName: "EmployeeType", contentModel: "sequence", baseType: "PersonType" },
+    };
+    const xml = runCommandExpectSuccess(SCHEMA_WITH_COMPLEXTYPE, add);
+    const modify: ModifyComplexTypeCommand = {
+      type: "modifyComplexType",
+      payload: { typeId: "/complexType:EmployeeType", derivation: "restriction" },
+    };
+
+    const result = runCommandExpectSuccessSchema(xml, modify);
+
+    const employee = toArray(result.complexType).find((ct) => ct.name === "EmployeeType");
+    expect(employee?.complexContent?.extension).toBeUndefined();
+    expect(employee?.complexContent?.restriction?.base).toBe("PersonType");
+  });
+
+  it("returns validation error for a simpleContent restriction of a simple type", () => {
+    const cmd: AddComplexTypeCommand = {
+      type: "addComplexType",
+      payload: {
+        typeName: "PriceType",
+        contentKind: "simple",
+        baseType: "xs:decimal",
+        derivation: "restriction",
+      },
+    };
+
+    runCommandExpectValidationFailure(
+      SCHEMA_WITH_COMPLEXTYPE,
+      cmd,
+      "Base type 'xs:decimal' of a simpleContent restriction must be a complex type with simple content"
+    );
+  });
+});
@@ -138,6 +138,24 @@ describe("Integration: ComplexType pipeline", () => {
 
       runCommandExpectValidationFailure(SCHEMA_WITH_COMPLEXTYPE, cmd, "Complex type 'NoSuchType' not found in schema");
     });
+
+    it("returns validation error when the type is still referenced", () => {
+      const cmd: RemoveComplexTypeCommand = {
+        type: "removeComplexType",
+        payload: { typeId: "/complexType:PersonType" },
+      };
+
+      runCommandExpectValidationFailure(
+        `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="person" type="PersonType"/>
+  <xs:complexType name="PersonType">
+    <xs:sequence/>
+  </xs:complexType>
+</xs:schema>`,
+        cmd,
+        "Complex type 'PersonType' is still referenced and cannot be removed"
+      );
+    });
   });
 
   // ─── modifyComplexType ─────────────────────────────────────────────────────
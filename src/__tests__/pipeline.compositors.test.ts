@@ -0,0 +1,93 @@
+/**
+ * Integration tests: compositor add / remove / modify pipeline.
+ *
+ * Covers sequences and choices nested in other compositors and the XSD 1.0
+ * placement rules of xs:all.
+ * Success-path assertions are made against the unmarshalled schema object.
+ */
+
+import type {
+  AddCompositorCommand,
+  RemoveCompositorCommand,
+  ModifyCompositorCommand,
+} from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import {
+  runCommandExpectSuccessSchema,
+  runCommandExpectValidationFailure,
+} from "./testHelpers";
+
+const PAYMENT_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:complexType name="PaymentType">
+    <xs:sequence>
+      <xs:element name="amount" type="xs:decimal"/>
+      <xs:choice>
+        <xs:element name="iban" type="xs:string"/>
+        <xs:sequence>
+          <xs:element name="cardNumber" type="xs:string"/>
+          <xs:element name="expiry" type="xs:gYearMonth"/>
+        </xs:sequence>
+      </xs:choice>
+    </xs:sequence>
+  </xs:complexType>
+</xs:schema>`;
+
+const CHOICE_ID = "/complexType:PaymentType/sequence[0]/choice[0]";
+
+describe("Integration: Compositor pipeline", () => {
+  it("adds a choice inside the choice of a sequence", () => {
+    const cmd: AddCompositorCommand = {
+      type: "addCompositor",
+      payload: { parentId: CHOICE_ID, compositor: "choice", minOccurs: 0 },
+    };
+
+    const result = runCommandExpectSuccessSchema(PAYMENT_SCHEMA, cmd);
+
+    const choice = toArray(toArray(result.complexType)[0].sequence?.choice)[0];
+    expect(toArray(choice.choice)).toHaveLength(1);
+    expect(toArray(choice.choice)[0].minOccurs).toBe(0);
+    expect(toArray(choice.sequence)).toHaveLength(1);
+  });
+
+  it("switches a nested compositor and sets its occurrences", () => {
+    const cmd: ModifyCompositorCommand = {
+      type: "modifyCompositor",
+      payload: { compositorId: `${CHOICE_ID}/sequence[0]`, compositor: "choice", maxOccurs: 2 },
+    };
+
+    const result = runCommandExpectSuccessSchema(PAYMENT_SCHEMA, cmd);
+
+    const choice = toArray(toArray(result.complexType)[0].sequence?.choice)[0];
+    expect(choice.sequence).toBeUndefined();
+    const nested = toArray(choice.choice)[0];
+    expect(nested.maxOccurs).toBe(2);
+    expect(toArray(nested.element).map((element) => element.name)).toEqual(["cardNumber", "expiry"]);
+  });
+
+  it("removes a nested compositor with its content", () => {
+    const cmd: RemoveCompositorCommand = {
+      type: "removeCompositor",
+      payload: { compositorId: `${CHOICE_ID}/sequence[0]` },
+    };
+
+    const result = runCommandExpectSuccessSchema(PAYMENT_SCHEMA, cmd);
+
+    const choice = toArray(toArray(result.complexType)[0].sequence?.choice)[0];
+    expect(choice.sequence).toBeUndefined();
+    expect(toArray(choice.element).map((element) => element.name)).toEqual(["iban"]);
+  });
+
+  it("returns validation error for xs:all nested in a choice", () => {
+    const cmd: AddCompositorCommand = {
+      type: "addCompositor",
+      payload: { parentId: CHOICE_ID, compositor: "all" },
+    };
+
+    runCommandExpectValidationFailure(
+      PAYMENT_SCHEMA,
+      cmd,
+      "xs:all cannot be nested inside a sequence or choice; it can only define the content model of a complex type or group"
+    );
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Integration tests: promoteElement and demoteElement pipelines.
+ *
+ * Covers promoting local elements to referenced top-level elements, demoting
+ * references back to local elements, and the name collisions that prevent
+ * both. Success-path assertions are made against the unmarshalled schema
+ * object and the serialized XML.
+ */
+
+import type { PromoteElementCommand, DemoteElementCommand } from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import {
+  runCommandExpectSuccess,
+  runCommandExpectSuccessSchema,
+  runCommandExpectValidationFailure,
+} from "./testHelpers";
+
+const ORDER_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:orders"
+           targetNamespace="urn:orders"
+           elementFormDefault="qualified">
+  <xs:element name="note" type="xs:string"/>
+  <xs:complexType name="OrderType">
+    <xs:sequence>
+      <xs:element name="item" type="xs:string" maxOccurs="unbounded"/>
+      <xs:element name="note" type="xs:string" minOccurs="0"/>
+      <xs:element ref="tns:note" minOccurs="0"/>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:complexType name="MemoType">
+    <xs:sequence>
+      <xs:element ref="tns:note"/>
+    </xs:sequence>
+  </xs:complexType>
+</xs:schema>`;
+
+describe("Integration: Element scope pipeline", () => {
+  it("promotes a local element and keeps its occurrences on the reference", () => {
+    const cmd: PromoteElementCommand = {
+      type: "promoteElement",
+      payload: { elementId: "/complexType:OrderType/sequence[0]/element:item" },
+    };
+
+    const result = runCommandExpectSuccessSchema(ORDER_SCHEMA, cmd);
+
+    expect(toArray(result.element).map((el) => el.name)).toEqual(["note", "item"]);
+    const reference = toArray(toArray(result.complexType)[0].sequence?.element)[0];
+    expect(reference.ref).toBe("tns:item");
+    expect(reference.maxOccurs).toBe("unbounded");
+  });
+
+  it("demotes a reference to a local copy of the referenced element", () => {
+    const cmd: DemoteElementCommand = {
+      type: "demoteElement",
+      payload: { elementId: "/complexType:MemoType/sequence[0]/element:tns:note[0]" },
+    };
+
+    const xml = runCommandExpectSuccess(ORDER_SCHEMA, cmd);
+
+    expect(xml).toContain('<xs:element name="note" type="xs:string"');
+    expect(xml).toContain('<xs:element ref="tns:note"');
+  });
+
+  it("returns validation error when promoting over an existing top-level element", () => {
+    const cmd: PromoteElementCommand = {
+      type: "promoteElement",
+      payload: { elementId: "/complexType:OrderType/sequence[0]/element:note[1]" },
+    };
+
+    runCommandExpectValidationFailure(ORDER_SCHEMA, cmd, "Element 'note' already exists in schema");
+  });
+
+  it("returns validation error when demoting next to an element of the same name", () => {
+    const cmd: DemoteElementCommand = {
+      type: "demoteElement",
+      payload: { elementId: "/complexType:OrderType/sequence[0]/element:tns:note[2]" },
+    };
+
+    runCommandExpectValidationFailure(ORDER_SCHEMA, cmd, "Element 'note' already exists in parent");
+  });
+});
@@ -149,6 +149,57 @@ describe("Integration: Element pipeline", () => {
       expect(person!.type_).toBe("xs:integer");
     });
 
+    it("makes a top-level element abstract and nillable", () => {
+      const cmd: ModifyElementCommand = {
+        type: "modifyElement",
+        payload: { elementId: "/element:person", abstract: true, nillable: true },
+      };
+
+      const result = runCommandExpectSuccessSchema(SCHEMA_WITH_ELEMENTS, cmd);
+      const person = toArray(result.element).find((e) => e.name === "person");
+
+      expect(person!.abstract).toBe(true);
+      expect(person!.nillable).toBe(true);
+    });
+
+    it("puts an element into the substitution group of another", () => {
+      const cmd: ModifyElementCommand = {
+        type: "modifyElement",
+        payload: { elementId: "/element:company", substitutionGroup: "person" },
+      };
+
+      const result = runCommandExpectSuccessSchema(SCHEMA_WITH_ELEMENTS, cmd);
+      const company = toArray(result.element).find((e) => e.name === "company");
+
+      expect(company!.substitutionGroup).toBe("person");
+    });
+
+    it("returns validation error for a substitution group that does not exist", () => {
+      const cmd: ModifyElementCommand = {
+        type: "modifyElement",
+        payload: { elementId: "/element:company", substitutionGroup: "party" },
+      };
+
+      runCommandExpectValidationFailure(
+        SCHEMA_WITH_ELEMENTS,
+        cmd,
+        "Substitution group 'party' does not resolve to a top-level element"
+      );
+    });
+
+    it("returns validation error for a substitution group with an unbound prefix", () => {
+      const cmd: ModifyElementCommand = {
+        type: "modifyElement",
+        payload: { elementId: "/element:company", substitutionGroup: "other:person" },
+      };
+
+      runCommandExpectValidationFailure(
+        SCHEMA_WITH_ELEMENTS,
+        cmd,
+        "Substitution group 'other:person' does not resolve to a top-level element"
+      );
+    });
+
     it("returns validation error when element ID does not exist", () => {
       const cmd: ModifyElementCommand = {
         type: "modifyElement",
@@ -0,0 +1,91 @@
+/**
+ * Integration tests: extractAttributeGroup pipeline.
+ *
+ * Covers extracting attributes of several complex types into one named
+ * attribute group, and the attributes that cannot be merged.
+ * Success-path assertions are made against the unmarshalled schema object and
+ * the serialized XML.
+ */
+
+import type { ExtractAttributeGroupCommand } from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import {
+  runCommandExpectSuccess,
+  runCommandExpectSuccessSchema,
+  runCommandExpectValidationFailure,
+} from "./testHelpers";
+
+const AUDIT_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:audit"
+           targetNamespace="urn:audit">
+  <xs:complexType name="OrderType">
+    <xs:attribute name="id" type="xs:ID" use="required"/>
+    <xs:attribute name="created" type="xs:dateTime"/>
+  </xs:complexType>
+  <xs:complexType name="InvoiceType">
+    <xs:attribute name="id" type="xs:ID" use="required"/>
+    <xs:attribute name="created" type="xs:date"/>
+  </xs:complexType>
+</xs:schema>`;
+
+describe("Integration: Extract attribute group pipeline", () => {
+  it("extracts attributes into an attribute group referenced by their types", () => {
+    const cmd: ExtractAttributeGroupCommand = {
+      type: "extractAttributeGroup",
+      payload: {
+        attributeIds: [
+          "/complexType:OrderType/attribute:id",
+          "/complexType:InvoiceType/attribute:id",
+        ],
+        groupName: "IdentityAttributes",
+      },
+    };
+
+    const xml = runCommandExpectSuccess(AUDIT_SCHEMA, cmd);
+
+    expect(xml).toContain('<xs:attributeGroup name="IdentityAttributes"');
+    expect(xml).toContain('<xs:attributeGroup ref="tns:IdentityAttributes"');
+  });
+
+  it("declares attributes of the same name once in the group", () => {
+    const cmd: ExtractAttributeGroupCommand = {
+      type: "extractAttributeGroup",
+      payload: {
+        attributeIds: [
+          "/complexType:OrderType/attribute:id",
+          "/complexType:InvoiceType/attribute:id",
+        ],
+        groupName: "IdentityAttributes",
+      },
+    };
+
+    const result = runCommandExpectSuccessSchema(AUDIT_SCHEMA, cmd);
+
+    const [identity] = toArray(result.attributeGroup);
+    expect(toArray(identity.attribute).map((attr) => attr.name)).toEqual(["id"]);
+    for (const ct of toArray(result.complexType)) {
+      expect(toArray(ct.attribute).map((attr) => attr.name)).toEqual(["created"]);
+      expect(toArray(ct.attributeGroup)[0].ref).toBe("tns:IdentityAttributes");
+    }
+  });
+
+  it("returns validation error for attributes of the same name declared differently", () => {
+    const cmd: ExtractAttributeGroupCommand = {
+      type: "extractAttributeGroup",
+      payload: {
+        attributeIds: [
+          "/complexType:OrderType/attribute:created",
+          "/complexType:InvoiceType/attribute:created",
+        ],
+        groupName: "AuditAttributes",
+      },
+    };
+
+    runCommandExpectValidationFailure(
+      AUDIT_SCHEMA,
+      cmd,
+      "Attribute 'created' has different 'type' values in the selected types"
+    );
+  });
+});
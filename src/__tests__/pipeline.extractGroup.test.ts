@@ -0,0 +1,109 @@
+/**
+ * Integration tests: extractGroup pipeline.
+ *
+ * Covers extracting adjacent elements into a named group, replacing identical
+ * runs of elements elsewhere, and the selections that cannot be extracted.
+ * Success-path assertions are made against the unmarshalled schema object and
+ * the serialized XML.
+ */
+
+import type { ExtractGroupCommand } from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import {
+  runCommandExpectSuccess,
+  runCommandExpectSuccessSchema,
+  runCommandExpectValidationFailure,
+} from "./testHelpers";
+
+const PARTY_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:parties"
+           targetNamespace="urn:parties">
+  <xs:complexType name="PersonType">
+    <xs:sequence>
+      <xs:element name="name" type="xs:string"/>
+      <xs:element name="street" type="xs:string"/>
+      <xs:element name="city" type="xs:string"/>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:complexType name="CompanyType">
+    <xs:sequence>
+      <xs:element name="street" type="xs:string"/>
+      <xs:element name="city" type="xs:string"/>
+    </xs:sequence>
+  </xs:complexType>
+</xs:schema>`;
+
+const PERSON_ADDRESS = [
+  "/complexType:PersonType/sequence[0]/element:street",
+  "/complexType:PersonType/sequence[0]/element:city",
+];
+
+describe("Integration: Extract group pipeline", () => {
+  it("extracts adjacent elements into a group referenced in their place", () => {
+    const cmd: ExtractGroupCommand = {
+      type: "extractGroup",
+      payload: { particleIds: PERSON_ADDRESS, groupName: "AddressGroup" },
+    };
+
+    const xml = runCommandExpectSuccess(PARTY_SCHEMA, cmd);
+
+    expect(xml).toContain('<xs:group name="AddressGroup"');
+    const person = xml.slice(xml.indexOf('<xs:complexType name="PersonType"'));
+    expect(person.indexOf('<xs:element name="name"')).toBeGreaterThanOrEqual(0);
+    expect(person.indexOf('<xs:group ref="tns:AddressGroup"')).toBeGreaterThan(
+      person.indexOf('<xs:element name="name"')
+    );
+    expect(person.indexOf('<xs:group ref="tns:AddressGroup"')).toBeLessThan(
+      person.indexOf("</xs:sequence>")
+    );
+  });
+
+  it("replaces identical runs of elements in other complex types", () => {
+    const cmd: ExtractGroupCommand = {
+      type: "extractGroup",
+      payload: { particleIds: PERSON_ADDRESS, groupName: "AddressGroup", replaceDuplicates: true },
+    };
+
+    const result = runCommandExpectSuccessSchema(PARTY_SCHEMA, cmd);
+
+    const [person, company] = toArray(result.complexType);
+    expect(toArray(person.sequence?.group)[0].ref).toBe("tns:AddressGroup");
+    expect(company.sequence?.element).toBeUndefined();
+    expect(toArray(company.sequence?.group)[0].ref).toBe("tns:AddressGroup");
+  });
+
+  it("returns validation error for elements that are not adjacent", () => {
+    const cmd: ExtractGroupCommand = {
+      type: "extractGroup",
+      payload: {
+        particleIds: [
+          "/complexType:PersonType/sequence[0]/element:name",
+          "/complexType:PersonType/sequence[0]/element:city",
+        ],
+        groupName: "AddressGroup",
+      },
+    };
+
+    runCommandExpectValidationFailure(PARTY_SCHEMA, cmd, "Selected elements must be adjacent");
+  });
+
+  it("returns validation error for a run in the middle of a sequence", () => {
+    const cmd: ExtractGroupCommand = {
+      type: "extractGroup",
+      payload: {
+        particleIds: [
+          "/complexType:PersonType/sequence[0]/element:name",
+          "/complexType:PersonType/sequence[0]/element:street",
+        ],
+        groupName: "NameGroup",
+      },
+    };
+
+    runCommandExpectValidationFailure(
+      PARTY_SCHEMA,
+      cmd,
+      "Only elements at the end of a sequence can be extracted into a group"
+    );
+  });
+});
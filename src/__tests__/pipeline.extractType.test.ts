@@ -0,0 +1,89 @@
+/**
+ * Integration tests: extractType pipeline.
+ *
+ * Covers extracting anonymous types into named top-level types and the checks
+ * on the extracted type and its new name. Success-path assertions are made
+ * against the unmarshalled schema object and the serialized XML.
+ */
+
+import type { ExtractTypeCommand } from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import {
+  runCommandExpectSuccess,
+  runCommandExpectSuccessSchema,
+  runCommandExpectValidationFailure,
+} from "./testHelpers";
+
+const ORDER_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:orders"
+           targetNamespace="urn:orders">
+  <xs:element name="order">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="line" type="xs:string" maxOccurs="unbounded"/>
+      </xs:sequence>
+      <xs:attribute name="currency">
+        <xs:simpleType>
+          <xs:restriction base="xs:string"/>
+        </xs:simpleType>
+      </xs:attribute>
+    </xs:complexType>
+  </xs:element>
+  <xs:simpleType name="CodeType">
+    <xs:restriction base="xs:string"/>
+  </xs:simpleType>
+</xs:schema>`;
+
+describe("Integration: Extract type pipeline", () => {
+  it("extracts an anonymous complex type with its content", () => {
+    const cmd: ExtractTypeCommand = {
+      type: "extractType",
+      payload: {
+        typeId: "/element:order/anonymousComplexType[0]",
+        typeName: "OrderType",
+      },
+    };
+
+    const result = runCommandExpectSuccessSchema(ORDER_SCHEMA, cmd);
+
+    const order = toArray(result.element)[0];
+    expect(order.type_).toBe("tns:OrderType");
+    expect(order.complexType).toBeUndefined();
+    const orderType = toArray(result.complexType)[0];
+    expect(orderType.name).toBe("OrderType");
+    expect(toArray(orderType.sequence?.element)[0].name).toBe("line");
+    expect(toArray(orderType.attribute)[0].name).toBe("currency");
+  });
+
+  it("extracts the anonymous simple type of an attribute", () => {
+    const cmd: ExtractTypeCommand = {
+      type: "extractType",
+      payload: {
+        typeId: "/element:order/anonymousComplexType[0]/attribute:currency/anonymousSimpleType[0]",
+        typeName: "CurrencyCode",
+      },
+    };
+
+    const xml = runCommandExpectSuccess(ORDER_SCHEMA, cmd);
+
+    expect(xml).toContain('type="tns:CurrencyCode"');
+    expect(xml).toContain('name="CurrencyCode"');
+  });
+
+  it("returns validation error for a name taken by another type", () => {
+    const cmd: ExtractTypeCommand = {
+      type: "extractType",
+      payload: {
+        typeId: "/element:order/anonymousComplexType[0]",
+        typeName: "CodeType",
+      },
+    };
+
+    runCommandExpectValidationFailure(
+      ORDER_SCHEMA,
+      cmd,
+      "Type 'CodeType' already exists in schema"
+    );
+  });
+});
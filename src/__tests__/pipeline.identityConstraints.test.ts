@@ -0,0 +1,188 @@
+/**
+ * Integration tests: identity constraint add / remove / modify pipeline.
+ *
+ * Covers xs:key, xs:unique and xs:keyref on top-level and local elements.
+ * Success-path assertions are made against the unmarshalled schema object.
+ */
+
+import type {
+  AddIdentityConstraintCommand,
+  RemoveIdentityConstraintCommand,
+  ModifyIdentityConstraintCommand,
+} from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import {
+  runCommandExpectSuccess,
+  runCommandExpectSuccessSchema,
+  runCommandExpectValidationFailure,
+} from "./testHelpers";
+
+const SCHEMA_WITH_KEY = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="http://example.com/orders"
+           targetNamespace="http://example.com/orders">
+  <xs:element name="orders">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="order" maxOccurs="unbounded">
+          <xs:complexType>
+            <xs:attribute name="id" type="xs:string"/>
+            <xs:attribute name="customer" type="xs:string"/>
+          </xs:complexType>
+        </xs:element>
+        <xs:element name="customer" maxOccurs="unbounded">
+          <xs:complexType>
+            <xs:attribute name="id" type="xs:string"/>
+          </xs:complexType>
+        </xs:element>
+      </xs:sequence>
+    </xs:complexType>
+    <xs:key name="customerKey">
+      <xs:selector xpath="tns:customer"/>
+      <xs:field xpath="@id"/>
+    </xs:key>
+  </xs:element>
+</xs:schema>`;
+
+const ORDER_ID = "/element:orders/anonymousComplexType[0]/sequence/element:order";
+
+const ADD_KEYREF: AddIdentityConstraintCommand = {
+  type: "addIdentityConstraint",
+  payload: {
+    parentId: "/element:orders",
+    kind: "keyref",
+    constraintName: "orderCustomer",
+    selector: "tns:order",
+    fields: ["@customer"],
+    refer: "tns:customerKey",
+  },
+};
+
+describe("Integration: Identity constraint pipeline", () => {
+  // ─── addIdentityConstraint ────────────────────────────────────────────────
+
+  describe("addIdentityConstraint", () => {
+    it("adds a keyref referring to an existing key", () => {
+      const result = runCommandExpectSuccessSchema(SCHEMA_WITH_KEY, ADD_KEYREF);
+      const keyref = toArray(toArray(result.element)[0].keyref)[0];
+
+      expect(keyref.name).toBe("orderCustomer");
+      expect(keyref.refer).toBe("tns:customerKey");
+      expect(keyref.selector.xpath).toBe("tns:order");
+      expect(toArray(keyref.field).map((field) => field.xpath)).toEqual(["@customer"]);
+    });
+
+    it("adds a unique constraint to a local element", () => {
+      const cmd: AddIdentityConstraintCommand = {
+        type: "addIdentityConstraint",
+        payload: {
+          parentId: ORDER_ID,
+          kind: "unique",
+          constraintName: "orderId",
+          selector: ".",
+          fields: ["@id"],
+        },
+      };
+
+      const result = runCommandExpectSuccessSchema(SCHEMA_WITH_KEY, cmd);
+      const order = toArray(toArray(result.element)[0].complexType!.sequence!.element)[0];
+
+      expect(toArray(order.unique).map((unique) => unique.name)).toEqual(["orderId"]);
+    });
+
+    it("returns validation error for a name already used in the schema", () => {
+      const cmd: AddIdentityConstraintCommand = {
+        type: "addIdentityConstraint",
+        payload: {
+          parentId: ORDER_ID,
+          kind: "unique",
+          constraintName: "customerKey",
+          selector: ".",
+          fields: ["@id"],
+        },
+      };
+
+      runCommandExpectValidationFailure(
+        SCHEMA_WITH_KEY,
+        cmd,
+        "Duplicate identity constraint name 'customerKey': identity constraint names must be unique within the schema"
+      );
+    });
+
+    it("returns validation error for a keyref referring to a missing key", () => {
+      runCommandExpectValidationFailure(
+        SCHEMA_WITH_KEY,
+        { ...ADD_KEYREF, payload: { ...ADD_KEYREF.payload, refer: "tns:orderKey" } },
+        "Referenced key or unique constraint 'orderKey' does not exist in schema"
+      );
+    });
+
+    it("returns validation error for a selector outside the XPath subset", () => {
+      runCommandExpectValidationFailure(
+        SCHEMA_WITH_KEY,
+        { ...ADD_KEYREF, payload: { ...ADD_KEYREF.payload, selector: "tns:order[1]" } },
+        "Invalid selector XPath 'tns:order[1]': must be a path of element steps such as './/item' or 'a/b'"
+      );
+    });
+  });
+
+  // ─── removeIdentityConstraint ─────────────────────────────────────────────
+
+  describe("removeIdentityConstraint", () => {
+    it("removes a key no keyref refers to", () => {
+      const cmd: RemoveIdentityConstraintCommand = {
+        type: "removeIdentityConstraint",
+        payload: { constraintId: "/element:orders/key:customerKey" },
+      };
+
+      const result = runCommandExpectSuccessSchema(SCHEMA_WITH_KEY, cmd);
+
+      expect(toArray(result.element)[0].key).toBeUndefined();
+    });
+
+    it("returns validation error for a key a keyref refers to", () => {
+      const withKeyref = runCommandExpectSuccess(SCHEMA_WITH_KEY, ADD_KEYREF);
+      const cmd: RemoveIdentityConstraintCommand = {
+        type: "removeIdentityConstraint",
+        payload: { constraintId: "/element:orders/key:customerKey" },
+      };
+
+      runCommandExpectValidationFailure(
+        withKeyref,
+        cmd,
+        "Cannot remove identity constraint 'customerKey': keyref 'orderCustomer' refers to it"
+      );
+    });
+  });
+
+  // ─── modifyIdentityConstraint ─────────────────────────────────────────────
+
+  describe("modifyIdentityConstraint", () => {
+    it("renames a key and updates the keyrefs referring to it", () => {
+      const withKeyref = runCommandExpectSuccess(SCHEMA_WITH_KEY, ADD_KEYREF);
+      const cmd: ModifyIdentityConstraintCommand = {
+        type: "modifyIdentityConstraint",
+        payload: { constraintId: "/element:orders/key:customerKey", constraintName: "custKey" },
+      };
+
+      const result = runCommandExpectSuccessSchema(withKeyref, cmd);
+      const orders = toArray(result.element)[0];
+
+      expect(toArray(orders.key)[0].name).toBe("custKey");
+      expect(toArray(orders.keyref)[0].refer).toBe("tns:custKey");
+    });
+
+    it("returns validation error for a field that is not an attribute or element path", () => {
+      const cmd: ModifyIdentityConstraintCommand = {
+        type: "modifyIdentityConstraint",
+        payload: { constraintId: "/element:orders/key:customerKey", fields: ["@id/name"] },
+      };
+
+      runCommandExpectValidationFailure(
+        SCHEMA_WITH_KEY,
+        cmd,
+        "Invalid field XPath '@id/name': must be a path of element steps optionally ending in an attribute, such as '@id' or 'a/@b'"
+      );
+    });
+  });
+});
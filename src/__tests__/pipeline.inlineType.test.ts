@@ -0,0 +1,81 @@
+/**
+ * Integration tests: inlineType pipeline.
+ *
+ * Covers inlining named types into the declarations using them and the
+ * types that cannot be inlined. Success-path assertions are made against the
+ * unmarshalled schema object and the serialized XML.
+ */
+
+import type { InlineTypeCommand } from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import {
+  runCommandExpectSuccess,
+  runCommandExpectSuccessSchema,
+  runCommandExpectValidationFailure,
+} from "./testHelpers";
+
+const ORDER_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:orders"
+           targetNamespace="urn:orders">
+  <xs:element name="order" type="tns:OrderType"/>
+  <xs:complexType name="OrderType">
+    <xs:sequence>
+      <xs:element name="code" type="tns:CodeType"/>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:complexType name="RushOrderType">
+    <xs:complexContent>
+      <xs:extension base="tns:OrderType"/>
+    </xs:complexContent>
+  </xs:complexType>
+  <xs:simpleType name="CodeType">
+    <xs:restriction base="xs:string">
+      <xs:maxLength value="8"/>
+    </xs:restriction>
+  </xs:simpleType>
+</xs:schema>`;
+
+describe("Integration: Inline type pipeline", () => {
+  it("inlines a simple type into its users and removes it", () => {
+    const cmd: InlineTypeCommand = {
+      type: "inlineType",
+      payload: { typeId: "/simpleType:CodeType" },
+    };
+
+    const result = runCommandExpectSuccessSchema(ORDER_SCHEMA, cmd);
+
+    expect(result.simpleType).toBeUndefined();
+    const code = toArray(toArray(result.complexType)[0].sequence?.element)[0];
+    expect(code.type_).toBeUndefined();
+    expect(code.simpleType?.restriction?.base).toBe("xs:string");
+  });
+
+  it("inlines a simple type into the chosen element", () => {
+    const cmd: InlineTypeCommand = {
+      type: "inlineType",
+      payload: {
+        typeId: "/simpleType:CodeType",
+        declarationId: "/complexType:OrderType/sequence[0]/element:code",
+      },
+    };
+
+    const xml = runCommandExpectSuccess(ORDER_SCHEMA, cmd);
+
+    expect(xml).not.toContain("CodeType");
+    expect(xml).toContain('<xs:maxLength value="8"');
+  });
+
+  it("returns validation error for a type used as a base type", () => {
+    const cmd: InlineTypeCommand = {
+      type: "inlineType",
+      payload: { typeId: "/complexType:OrderType", declarationId: "/element:order" },
+    };
+
+    runCommandExpectValidationFailure(
+      ORDER_SCHEMA,
+      cmd,
+      "Type 'OrderType' is used as a base type and cannot be inlined"
+    );
+  });
+});
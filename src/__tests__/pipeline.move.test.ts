@@ -0,0 +1,97 @@
+/**
+ * Integration tests: moveNode pipeline.
+ *
+ * Covers reordering elements within a sequence, moving particles across
+ * compositors and the checks on the new parent.
+ * Success-path assertions are made against the unmarshalled schema object.
+ */
+
+import type { MoveNodeCommand } from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import {
+  runCommandExpectSuccessSchema,
+  runCommandExpectValidationFailure,
+} from "./testHelpers";
+
+const ORDER_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:complexType name="OrderType">
+    <xs:sequence>
+      <xs:element name="id" type="xs:string"/>
+      <xs:element name="customer">
+        <xs:annotation>
+          <xs:documentation>Ordering customer</xs:documentation>
+        </xs:annotation>
+        <xs:complexType>
+          <xs:sequence>
+            <xs:element name="id" type="xs:string"/>
+          </xs:sequence>
+        </xs:complexType>
+      </xs:element>
+      <xs:choice>
+        <xs:element name="invoice" type="xs:string"/>
+      </xs:choice>
+    </xs:sequence>
+  </xs:complexType>
+</xs:schema>`;
+
+const SEQUENCE_ID = "/complexType:OrderType/sequence";
+
+describe("Integration: Move pipeline", () => {
+  it("reorders an element with its annotation and anonymous type", () => {
+    const cmd: MoveNodeCommand = {
+      type: "moveNode",
+      payload: { nodeId: `${SEQUENCE_ID}/element:customer[1]`, newParentId: SEQUENCE_ID, index: 0 },
+    };
+
+    const result = runCommandExpectSuccessSchema(ORDER_SCHEMA, cmd);
+
+    const elements = toArray(toArray(result.complexType)[0].sequence?.element);
+    expect(elements.map((element) => element.name)).toEqual(["customer", "id"]);
+    expect(elements[0].annotation).toBeDefined();
+    expect(toArray(elements[0].complexType?.sequence?.element)[0].name).toBe("id");
+  });
+
+  it("moves an element into a nested choice", () => {
+    const cmd: MoveNodeCommand = {
+      type: "moveNode",
+      payload: { nodeId: `${SEQUENCE_ID}/element:id[0]`, newParentId: `${SEQUENCE_ID}/choice[0]` },
+    };
+
+    const result = runCommandExpectSuccessSchema(ORDER_SCHEMA, cmd);
+
+    const sequence = toArray(result.complexType)[0].sequence;
+    expect(toArray(sequence?.element).map((element) => element.name)).toEqual(["customer"]);
+    const choice = toArray(sequence?.choice)[0];
+    expect(toArray(choice.element).map((element) => element.name)).toEqual(["invoice", "id"]);
+  });
+
+  it("returns validation error for a duplicate element name", () => {
+    const cmd: MoveNodeCommand = {
+      type: "moveNode",
+      payload: {
+        nodeId: `${SEQUENCE_ID}/element:customer[1]/anonymousComplexType[0]/sequence/element:id[0]`,
+        newParentId: SEQUENCE_ID,
+      },
+    };
+
+    runCommandExpectValidationFailure(
+      ORDER_SCHEMA,
+      cmd,
+      "Cannot move element: duplicate element name 'id' in sequence"
+    );
+  });
+
+  it("returns validation error for an element moved into the complex type", () => {
+    const cmd: MoveNodeCommand = {
+      type: "moveNode",
+      payload: { nodeId: `${SEQUENCE_ID}/element:id[0]`, newParentId: "/complexType:OrderType" },
+    };
+
+    runCommandExpectValidationFailure(
+      ORDER_SCHEMA,
+      cmd,
+      "Elements can only be moved into a sequence, choice or all, not into: topLevelComplexType"
+    );
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Integration tests: renameComponent pipeline.
+ *
+ * Covers renaming top-level components together with the QNames that refer
+ * to them, and the checks on the new name.
+ * Success-path assertions are made against the unmarshalled schema object
+ * and the serialized XML.
+ */
+
+import type { RenameComponentCommand } from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import {
+  runCommandExpectSuccess,
+  runCommandExpectSuccessSchema,
+  runCommandExpectValidationFailure,
+} from "./testHelpers";
+
+const ORDER_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:orders"
+           targetNamespace="urn:orders">
+  <xs:element name="order" type="tns:OrderType"/>
+  <xs:complexType name="OrderType">
+    <xs:sequence>
+      <xs:element name="code" type="tns:CodeType"/>
+      <xs:group ref="tns:LineGroup"/>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:simpleType name="CodeType">
+    <xs:restriction base="xs:string"/>
+  </xs:simpleType>
+  <xs:simpleType name="CodeList">
+    <xs:list itemType="tns:CodeType"/>
+  </xs:simpleType>
+  <xs:group name="LineGroup">
+    <xs:sequence>
+      <xs:element name="line" type="xs:string"/>
+    </xs:sequence>
+  </xs:group>
+</xs:schema>`;
+
+describe("Integration: Rename pipeline", () => {
+  it("renames a simple type and rewrites its references", () => {
+    const cmd: RenameComponentCommand = {
+      type: "renameComponent",
+      payload: { componentId: "/simpleType:CodeType", newName: "SkuType" },
+    };
+
+    const result = runCommandExpectSuccessSchema(ORDER_SCHEMA, cmd);
+
+    expect(toArray(result.simpleType).map((st) => st.name)).toEqual(["SkuType", "CodeList"]);
+    const orderType = toArray(result.complexType)[0];
+    expect(toArray(orderType.sequence?.element)[0].type_).toBe("tns:SkuType");
+    expect(toArray(result.simpleType)[1].list?.itemType).toBe("tns:SkuType");
+  });
+
+  it("leaves no reference to the old name of a complex type", () => {
+    const cmd: RenameComponentCommand = {
+      type: "renameComponent",
+      payload: { componentId: "/complexType:OrderType", newName: "PurchaseOrderType" },
+    };
+
+    const xml = runCommandExpectSuccess(ORDER_SCHEMA, cmd);
+
+    expect(xml).toContain('type="tns:PurchaseOrderType"');
+    expect(xml).not.toContain('"OrderType"');
+    expect(xml).not.toContain('"tns:OrderType"');
+  });
+
+  it("returns validation error for a name taken by another type", () => {
+    const cmd: RenameComponentCommand = {
+      type: "renameComponent",
+      payload: { componentId: "/complexType:OrderType", newName: "CodeType" },
+    };
+
+    runCommandExpectValidationFailure(
+      ORDER_SCHEMA,
+      cmd,
+      "Type 'CodeType' already exists in schema"
+    );
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Integration tests: restriction facet pipeline.
+ *
+ * Covers simple types with several patterns and documented enumeration
+ * values, facets of simpleContent restrictions, and facets that do not fit
+ * their base type. Success-path assertions are made against the serialized XML.
+ */
+
+import type { AddComplexTypeCommand, AddSimpleTypeCommand } from "../../shared/types";
+import {
+  MINIMAL_SCHEMA,
+  runCommandExpectSuccess,
+  runCommandExpectValidationFailure,
+} from "./testHelpers";
+
+describe("Integration: Restriction facet pipeline", () => {
+  it("adds a simpleType with several patterns and a documented enumeration value", () => {
+    const cmd: AddSimpleTypeCommand = {
+      type: "addSimpleType",
+      payload: {
+        typeName: "CodeType",
+        baseType: "xs:token",
+        restrictions: {
+          pattern: ["[A-Z]{3}", "[0-9]{3}"],
+          enumeration: [{ value: "ABC", documentation: "The first code" }, "123"],
+        },
+      },
+    };
+
+    const xml = runCommandExpectSuccess(MINIMAL_SCHEMA, cmd);
+
+    expect(xml).toContain('<xs:pattern value="[A-Z]{3}"');
+    expect(xml).toContain('<xs:pattern value="[0-9]{3}"');
+    expect(xml).toContain("The first code");
+  });
+
+  it("adds a complexType restricting simple content with facets", () => {
+    const add: AddComplexTypeCommand = {
+      type: "addComplexType",
+      payload: { typeName: "PriceType", contentKind: "simple", baseType: "xs:decimal" },
+    };
+    const xml = runCommandExpectSuccess(MINIMAL_SCHEMA, add);
+    const restrict: AddComplexTypeCommand = {
+      type: "addComplexType",
+      payload: {
+        typeName: "PositivePriceType",
+        contentKind: "simple",
+        baseType: "PriceType",
+        derivation: "restriction",
+        restrictions: { minExclusive: "0", fractionDigits: 2 },
+      },
+    };
+
+    const result = runCommandExpectSuccess(xml, restrict);
+
+    expect(result).toContain('<xs:restriction base="PriceType"');
+    expect(result).toContain('<xs:minExclusive value="0"');
+  });
+
+  it("returns validation error for facets that do not apply to the base type", () => {
+    const cmd: AddSimpleTypeCommand = {
+      type: "addSimpleType",
+      payload: { typeName: "NameType", baseType: "xs:string", restrictions: { totalDigits: 3 } },
+    };
+
+    runCommandExpectValidationFailure(
+      MINIMAL_SCHEMA,
+      cmd,
+      "Facet 'totalDigits' does not apply to type 'xs:string'"
+    );
+  });
+
+  it("returns validation error for bounds outside the range of the base type", () => {
+    const cmd: AddSimpleTypeCommand = {
+      type: "addSimpleType",
+      payload: { typeName: "Count", baseType: "xs:byte", restrictions: { maxInclusive: "1000" } },
+    };
+
+    runCommandExpectValidationFailure(
+      MINIMAL_SCHEMA,
+      cmd,
+      "maxInclusive (1000) must be less than or equal to the maxInclusive of the base type (127)"
+    );
+  });
+});
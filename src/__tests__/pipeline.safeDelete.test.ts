@@ -0,0 +1,78 @@
+/**
+ * Integration tests: safeDeleteComponent pipeline.
+ *
+ * Covers deleting top-level components together with their dependants or
+ * with their references retargeted, and the checks on the replacement.
+ * Success-path assertions are made against the unmarshalled schema object
+ * and the serialized XML.
+ */
+
+import type { SafeDeleteComponentCommand } from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import {
+  runCommandExpectSuccess,
+  runCommandExpectSuccessSchema,
+  runCommandExpectValidationFailure,
+} from "./testHelpers";
+
+const ORDER_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:orders"
+           targetNamespace="urn:orders">
+  <xs:element name="order" type="tns:OrderType"/>
+  <xs:complexType name="OrderType">
+    <xs:sequence>
+      <xs:element name="code" type="tns:CodeType"/>
+      <xs:group ref="tns:LineGroup"/>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:simpleType name="CodeType">
+    <xs:restriction base="xs:string"/>
+  </xs:simpleType>
+  <xs:simpleType name="CodeList">
+    <xs:list itemType="tns:CodeType"/>
+  </xs:simpleType>
+  <xs:group name="LineGroup">
+    <xs:sequence>
+      <xs:element name="line" type="xs:string"/>
+    </xs:sequence>
+  </xs:group>
+</xs:schema>`;
+
+describe("Integration: Safe delete pipeline", () => {
+  it("deletes a simple type together with its dependants", () => {
+    const cmd: SafeDeleteComponentCommand = {
+      type: "safeDeleteComponent",
+      payload: { componentId: "/simpleType:CodeType", strategy: "cascade" },
+    };
+
+    const result = runCommandExpectSuccessSchema(ORDER_SCHEMA, cmd);
+
+    expect(result.simpleType).toBeUndefined();
+    const orderType = toArray(result.complexType)[0];
+    expect(orderType.sequence?.element).toBeUndefined();
+    expect(toArray(orderType.sequence?.group)[0].ref).toBe("tns:LineGroup");
+  });
+
+  it("retargets the references of a simple type to a built-in type", () => {
+    const cmd: SafeDeleteComponentCommand = {
+      type: "safeDeleteComponent",
+      payload: { componentId: "/simpleType:CodeType", strategy: "retarget", replacement: "xs:token" },
+    };
+
+    const xml = runCommandExpectSuccess(ORDER_SCHEMA, cmd);
+
+    expect(xml).toContain('type="xs:token"');
+    expect(xml).toContain('itemType="xs:token"');
+    expect(xml).not.toContain("CodeType");
+  });
+
+  it("returns validation error for a replacement that does not exist", () => {
+    const cmd: SafeDeleteComponentCommand = {
+      type: "safeDeleteComponent",
+      payload: { componentId: "/group:LineGroup", strategy: "retarget", replacement: "tns:Lines" },
+    };
+
+    runCommandExpectValidationFailure(ORDER_SCHEMA, cmd, "Group 'Lines' not found in schema");
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Integration tests: modifySchema pipeline.
+ *
+ * Exercises the full extension-side editing pipeline for the attributes of the
+ * xs:schema root, including rebinding prefixes when the target namespace changes.
+ * Success-path assertions are made against the unmarshalled schema object.
+ */
+
+import type { ModifySchemaCommand } from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import {
+  MINIMAL_SCHEMA,
+  runCommandExpectSuccessSchema,
+  runCommandExpectValidationFailure,
+} from "./testHelpers";
+
+/** No-namespace schema whose element references a type of the schema. */
+const NO_NAMESPACE_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="order" type="OrderType"/>
+  <xs:complexType name="OrderType"/>
+</xs:schema>`;
+
+describe("Integration: Schema root pipeline", () => {
+  it("sets the form defaults, version and language of the schema", () => {
+    const cmd: ModifySchemaCommand = {
+      type: "modifySchema",
+      payload: {
+        elementFormDefault: "qualified",
+        attributeFormDefault: "unqualified",
+        finalDefault: "#all",
+        version: "1.2",
+        lang: "en",
+      },
+    };
+
+    const result = runCommandExpectSuccessSchema(MINIMAL_SCHEMA, cmd);
+
+    expect(result.elementFormDefault).toBe("qualified");
+    expect(result.attributeFormDefault).toBe("unqualified");
+    expect(result.finalDefault).toBe("#all");
+    expect(result.version).toBe("1.2");
+    expect(result._anyAttributes?.["xml:lang"]).toBe("en");
+  });
+
+  it("gives a no-namespace schema a target namespace and keeps its references resolving", () => {
+    const cmd: ModifySchemaCommand = {
+      type: "modifySchema",
+      payload: { targetNamespace: "urn:example:orders" },
+    };
+
+    const result = runCommandExpectSuccessSchema(NO_NAMESPACE_SCHEMA, cmd);
+
+    expect(result.targetNamespace).toBe("urn:example:orders");
+    expect(result._namespacePrefixes?.["tns"]).toBe("urn:example:orders");
+    expect(toArray(result.element)[0].type_).toBe("tns:OrderType");
+  });
+
+  it("returns validation error for a target namespace that is not an absolute URI", () => {
+    const cmd: ModifySchemaCommand = {
+      type: "modifySchema",
+      payload: { targetNamespace: "orders" },
+    };
+
+    runCommandExpectValidationFailure(
+      MINIMAL_SCHEMA,
+      cmd,
+      "Target namespace must be a valid absolute URI"
+    );
+  });
+});
@@ -82,6 +82,37 @@ describe("Integration: SimpleType pipeline", () => {
       expect(nameType!.restriction).toBeDefined();
     });
 
+    it("adds a union simpleType of named members", () => {
+      const cmd: AddSimpleTypeCommand = {
+        type: "addSimpleType",
+        payload: {
+          parentId: "schema",
+          typeName: "DateOrTime",
+          variety: "union",
+          memberTypes: ["xs:date", "xs:time"],
+        },
+      };
+
+      const result = runCommandExpectSuccessSchema(MINIMAL_SCHEMA, cmd);
+      const dateOrTime = toArray(result.simpleType).find((t) => t.name === "DateOrTime");
+
+      expect(dateOrTime!.union?.memberTypes).toBe("xs:date xs:time");
+      expect(dateOrTime!.restriction).toBeUndefined();
+    });
+
+    it("returns validation error for a list without an item type", () => {
+      const cmd: AddSimpleTypeCommand = {
+        type: "addSimpleType",
+        payload: { parentId: "schema", typeName: "Numbers", variety: "list" },
+      };
+
+      runCommandExpectValidationFailure(
+        MINIMAL_SCHEMA,
+        cmd,
+        "A list simple type requires 'itemType' or 'itemSimpleType'"
+      );
+    });
+
     it("returns validation error when type name is invalid", () => {
       const cmd: AddSimpleTypeCommand = {
         type: "addSimpleType",
@@ -124,6 +155,24 @@ describe("Integration: SimpleType pipeline", () => {
 
       runCommandExpectValidationFailure(SCHEMA_WITH_SIMPLETYPE, cmd, "SimpleType not found: NonExistent");
     });
+
+    it("returns validation error when the type is still referenced", () => {
+      const cmd: RemoveSimpleTypeCommand = {
+        type: "removeSimpleType",
+        payload: { typeId: "/simpleType:StatusType" },
+      };
+
+      runCommandExpectValidationFailure(
+        `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="status" type="StatusType"/>
+  <xs:simpleType name="StatusType">
+    <xs:restriction base="xs:string"/>
+  </xs:simpleType>
+</xs:schema>`,
+        cmd,
+        "SimpleType is still referenced and cannot be removed: StatusType"
+      );
+    });
   });
 
   // ─── modifySimpleType ──────────────────────────────────────────────────────
@@ -155,6 +204,19 @@ describe("Integration: SimpleType pipeline", () => {
       expect(statusType!.restriction!.base).toBe("xs:token");
     });
 
+    it("turns a restriction into a list", () => {
+      const cmd: ModifySimpleTypeCommand = {
+        type: "modifySimpleType",
+        payload: { typeId: "/simpleType:StatusType", variety: "list", itemType: "xs:token" },
+      };
+
+      const result = runCommandExpectSuccessSchema(SCHEMA_WITH_SIMPLETYPE, cmd);
+      const statusType = toArray(result.simpleType).find((t) => t.name === "StatusType");
+
+      expect(statusType!.list?.itemType).toBe("xs:token");
+      expect(statusType!.restriction).toBeUndefined();
+    });
+
     it("returns validation error when type ID does not exist", () => {
       const cmd: ModifySimpleTypeCommand = {
         type: "modifySimpleType",
@@ -0,0 +1,149 @@
+/**
+ * Integration tests: wildcard add / remove / modify pipeline.
+ *
+ * Covers xs:any in compositors and xs:anyAttribute on complex types.
+ * Success-path assertions are made against the unmarshalled schema object.
+ */
+
+import type {
+  AddWildcardCommand,
+  RemoveWildcardCommand,
+  ModifyWildcardCommand,
+} from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import {
+  runCommandExpectSuccess,
+  runCommandExpectSuccessSchema,
+  runCommandExpectValidationFailure,
+} from "./testHelpers";
+
+const SCHEMA_WITH_TYPE = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="http://example.com/envelope"
+           targetNamespace="http://example.com/envelope">
+  <xs:complexType name="EnvelopeType">
+    <xs:sequence>
+      <xs:element name="header" type="xs:string"/>
+    </xs:sequence>
+  </xs:complexType>
+</xs:schema>`;
+
+const SEQUENCE_ID = "/complexType:EnvelopeType/sequence";
+
+const ADD_ANY: AddWildcardCommand = {
+  type: "addWildcard",
+  payload: {
+    parentId: SEQUENCE_ID,
+    kind: "any",
+    namespace: "##other",
+    processContents: "lax",
+    minOccurs: 0,
+    maxOccurs: "unbounded",
+  },
+};
+
+const ADD_ANY_ATTRIBUTE: AddWildcardCommand = {
+  type: "addWildcard",
+  payload: { parentId: "/complexType:EnvelopeType", kind: "anyAttribute", namespace: "##any" },
+};
+
+describe("Integration: Wildcard pipeline", () => {
+  // ─── addWildcard ──────────────────────────────────────────────────────────
+
+  describe("addWildcard", () => {
+    it("adds an element wildcard to a sequence", () => {
+      const result = runCommandExpectSuccessSchema(SCHEMA_WITH_TYPE, ADD_ANY);
+      const sequence = toArray(result.complexType)[0].sequence!;
+
+      expect(toArray(sequence.element)).toHaveLength(1);
+      expect(toArray(sequence.any_)[0]._anyAttributes).toEqual({
+        namespace: "##other",
+        processContents: "lax",
+        minOccurs: "0",
+        maxOccurs: "unbounded",
+      });
+    });
+
+    it("adds an attribute wildcard to a complex type", () => {
+      const result = runCommandExpectSuccessSchema(SCHEMA_WITH_TYPE, ADD_ANY_ATTRIBUTE);
+
+      expect(toArray(result.complexType)[0].anyAttribute?.namespace).toBe("##any");
+    });
+
+    it("returns validation error for a second attribute wildcard", () => {
+      const withAnyAttribute = runCommandExpectSuccess(SCHEMA_WITH_TYPE, ADD_ANY_ATTRIBUTE);
+
+      runCommandExpectValidationFailure(
+        withAnyAttribute,
+        ADD_ANY_ATTRIBUTE,
+        "Parent already has an attribute wildcard: /complexType:EnvelopeType"
+      );
+    });
+
+    it("returns validation error for an invalid namespace constraint", () => {
+      runCommandExpectValidationFailure(
+        SCHEMA_WITH_TYPE,
+        { ...ADD_ANY, payload: { ...ADD_ANY.payload, namespace: "##other ##local" } },
+        "Invalid wildcard namespace '##other ##local': must be ##any, ##other, or a list of namespace URIs, ##targetNamespace and ##local"
+      );
+    });
+  });
+
+  // ─── removeWildcard ───────────────────────────────────────────────────────
+
+  describe("removeWildcard", () => {
+    it("removes an element wildcard", () => {
+      const withAny = runCommandExpectSuccess(SCHEMA_WITH_TYPE, ADD_ANY);
+      const cmd: RemoveWildcardCommand = {
+        type: "removeWildcard",
+        payload: { wildcardId: `${SEQUENCE_ID}/any[0]` },
+      };
+
+      const result = runCommandExpectSuccessSchema(withAny, cmd);
+
+      expect(toArray(result.complexType)[0].sequence!.any_).toBeUndefined();
+    });
+
+    it("returns validation error for a missing wildcard", () => {
+      const cmd: RemoveWildcardCommand = {
+        type: "removeWildcard",
+        payload: { wildcardId: "/complexType:EnvelopeType/anyAttribute" },
+      };
+
+      runCommandExpectValidationFailure(
+        SCHEMA_WITH_TYPE,
+        cmd,
+        "Wildcard not found: /complexType:EnvelopeType/anyAttribute"
+      );
+    });
+  });
+
+  // ─── modifyWildcard ───────────────────────────────────────────────────────
+
+  describe("modifyWildcard", () => {
+    it("changes processContents of an attribute wildcard", () => {
+      const withAnyAttribute = runCommandExpectSuccess(SCHEMA_WITH_TYPE, ADD_ANY_ATTRIBUTE);
+      const cmd: ModifyWildcardCommand = {
+        type: "modifyWildcard",
+        payload: { wildcardId: "/complexType:EnvelopeType/anyAttribute", processContents: "skip" },
+      };
+
+      const result = runCommandExpectSuccessSchema(withAnyAttribute, cmd);
+
+      expect(toArray(result.complexType)[0].anyAttribute?.processContents).toBe("skip");
+    });
+
+    it("returns validation error for minOccurs above the current maxOccurs", () => {
+      const withAny = runCommandExpectSuccess(SCHEMA_WITH_TYPE, {
+        ...ADD_ANY,
+        payload: { ...ADD_ANY.payload, maxOccurs: 2 },
+      });
+      const cmd: ModifyWildcardCommand = {
+        type: "modifyWildcard",
+        payload: { wildcardId: `${SEQUENCE_ID}/any[0]`, minOccurs: 3 },
+      };
+
+      runCommandExpectValidationFailure(withAny, cmd, "minOccurs must be <= maxOccurs");
+    });
+  });
+});
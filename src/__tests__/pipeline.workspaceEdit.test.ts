@@ -6,8 +6,10 @@
  *
  * Tests that:
  * - Successful commands create a WorkspaceEdit, call applyEdit, and reply with
- *   commandResult { success: true }. The XML written into the edit is verified by
- *   unmarshalling it and inspecting schema object properties.
+ *   commandResult { success: true }. The document produced by the edit is verified
+ *   by unmarshalling it and inspecting schema object properties.
+ * - Edits touch only the changed fragment; comments and formatting elsewhere
+ *   stay byte-for-byte identical.
  * - Validation failures are routed to commandResult { success: false, error }.
  * - Runtime errors (thrown by CommandProcessor) are routed to an error message
  *   with code COMMAND_EXECUTION_ERROR.
@@ -25,6 +27,7 @@ import { SchemaEditorProvider } from "../webviewProvider";
 import { CommandProcessor } from "../commandProcessor";
 import { schema } from "../../shared/types";
 import { toArray } from "../../shared/schemaUtils";
+import { applyTextEdits } from "../minimalTextEdits";
 
 // ─── Test infrastructure ──────────────────────────────────────────────────────
 
@@ -33,10 +36,19 @@ const SIMPLE_SCHEMA_XML = `<?xml version="1.0" encoding="UTF-8"?>
   <xs:element name="person" type="xs:string"/>
 </xs:schema>`;
 
+/** Schema whose comments, quoting and indentation differ from marshal output. */
+const HAND_WRITTEN_SCHEMA_XML = `<?xml version="1.0"?>
+<!-- Maintained by hand -->
+<xs:schema xmlns:xs='http://www.w3.org/2001/XMLSchema'>
+    <!-- People -->
+    <xs:element name='person' type='xs:string'/>
+</xs:schema>
+`;
+
 const mockPostMessage = jest.fn<Promise<boolean>, [unknown]>();
 
 /** Builds the mocked VS Code objects required by SchemaEditorProvider. */
-function buildMocks(): {
+function buildMocks(xml: string = SIMPLE_SCHEMA_XML): {
   provider: SchemaEditorProvider;
   document: vscode.TextDocument;
   webview: vscode.Webview;
@@ -63,14 +75,13 @@ function buildMocks(): {
     onDidDispose: jest.fn(),
   } as unknown as vscode.WebviewPanel;
 
-  const lines = SIMPLE_SCHEMA_XML.split("\n");
-  const lastLineText = lines[lines.length - 1] ?? "";
+  // Positions are represented by their offsets, so written ranges can be
+  // applied to the text directly
   // eslint-disable-next-line no-restricted-syntax -- partial stub; unused TextDocument fields omitted
   const document = {
     uri: vscode.Uri.file("/test/schema.xsd"),
-    getText: jest.fn(() => SIMPLE_SCHEMA_XML),
-    lineCount: SIMPLE_SCHEMA_XML.split("\n").length,
-    lineAt: jest.fn(() => ({ text: lastLineText })),
+    getText: jest.fn(() => xml),
+    positionAt: jest.fn((offset: number) => offset),
   } as unknown as vscode.TextDocument;
 
   const provider = new SchemaEditorProvider(context);
@@ -96,6 +107,22 @@ function resolveAndGetHandler(
   return handler;
 }
 
+/**
+ * Applies the replacements recorded on the first WorkspaceEdit to a text.
+ * The document stub maps offsets to themselves, so the ranges hold offsets.
+ */
+function applyWrittenEdit(original: string): string {
+  const editInstance = (vscode.WorkspaceEdit as jest.Mock).mock.results[0].value as {
+    replace: jest.Mock<void, [vscode.Uri, { start: number; end: number }, string]>;
+  };
+  const edits = editInstance.replace.mock.calls.map(([, range, newText]) => ({
+    start: range.start,
+    end: range.end,
+    newText,
+  }));
+  return applyTextEdits(original, edits);
+}
+
 /** Waits for all pending microtasks to flush. */
 const flushMicrotasks = (): Promise<void> =>
   new Promise<void>((resolve) => setTimeout(resolve, 0));
@@ -136,8 +163,8 @@ describe("Integration: WorkspaceEdit via SchemaEditorProvider", () => {
         expect.any(vscode.Range),
         expect.any(String)
       );
-      // Verify the written XML parses correctly and contains the new element
-      const writtenXml = editInstance.replace.mock.calls[0][2];
+      // Verify the edited document parses correctly and contains the new element
+      const writtenXml = applyWrittenEdit(SIMPLE_SCHEMA_XML);
       const parsedSchema = unmarshal(schema, writtenXml);
       expect(toArray(parsedSchema.element).some((e) => e.name === "order")).toBe(true);
       expect(vscode.workspace.applyEdit).toHaveBeenCalled();
@@ -155,6 +182,33 @@ describe("Integration: WorkspaceEdit via SchemaEditorProvider", () => {
     });
   });
 
+  describe("minimal edits", () => {
+    it("keeps text outside the changed fragment byte-for-byte identical", async () => {
+      const { provider, document, webviewPanel } = buildMocks(HAND_WRITTEN_SCHEMA_XML);
+      const handler = resolveAndGetHandler(provider, document, webviewPanel);
+
+      handler({
+        command: "executeCommand",
+        data: {
+          type: "addElement",
+          payload: { parentId: "schema", elementName: "order", elementType: "xs:string" },
+        },
+      });
+      await flushMicrotasks();
+
+      const writtenXml = applyWrittenEdit(HAND_WRITTEN_SCHEMA_XML);
+      const insertAt = HAND_WRITTEN_SCHEMA_XML.indexOf("\n</xs:schema>");
+      // Only the new element is added, indented like its siblings
+      expect(writtenXml.substring(0, insertAt)).toBe(HAND_WRITTEN_SCHEMA_XML.substring(0, insertAt));
+      expect(writtenXml.endsWith(HAND_WRITTEN_SCHEMA_XML.substring(insertAt))).toBe(true);
+      expect(writtenXml.substring(insertAt)).toMatch(/^\n {4}<xs:element name="order"/);
+      expect(toArray(unmarshal(schema, writtenXml).element).map((e) => e.name)).toEqual([
+        "person",
+        "order",
+      ]);
+    });
+  });
+
   describe("validation failure path", () => {
     it("routes validation errors to commandResult { success: false }", async () => {
       const { provider, document, webview, webviewPanel } = buildMocks();
@@ -0,0 +1,110 @@
+/**
+ * Integration tests: comment and formatting preservation in the round trip.
+ *
+ * Every schema in `exampleFiles` is loaded into a SchemaModelManager and
+ * serialized again. The result must keep the golden outline of the original:
+ * the sequence of elements (with their prefixes), comments, processing
+ * instructions, blank lines and character content as written. Only attribute
+ * quoting and indentation may differ from the file on disk.
+ */
+
+import { readdirSync, readFileSync } from "fs";
+import { resolve } from "path";
+import type { AddElementCommand } from "../../shared/types";
+import { SchemaModelManager } from "../schemaModelManager";
+import { parseXmlSource, XmlSourceNode } from "../xmlSourceTree";
+import { isEquivalentXml } from "../xmlEquivalence";
+import { runCommandExpectSuccess } from "./testHelpers";
+
+// ─── Fixtures: project example schemas ───────────────────────────────────────
+
+const EXAMPLE_DIR = resolve(__dirname, "../../exampleFiles");
+
+/** Every example schema, read from disk so the tests always reflect the real files. */
+const EXAMPLE_FILES: Array<[string, string]> = readdirSync(EXAMPLE_DIR)
+  .filter((file) => file.endsWith(".xsd"))
+  .map((file) => [file, readFileSync(resolve(EXAMPLE_DIR, file), "utf-8")]);
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Builds the outline of a document: one line per element tag, comment,
+ * processing instruction, empty line and run of character content.
+ */
+function outlineOf(xml: string): string[] {
+  const lines: string[] = [];
+  const visit = (nodes: XmlSourceNode[], depth: number): void => {
+    for (const node of nodes) {
+      const indent = "  ".repeat(depth);
+      const raw = xml.substring(node.start, node.end);
+      if (node.type === "element") {
+        const name = node.attributes.find((attribute) => attribute.name === "name");
+        lines.push(`${indent}<${node.name}${name ? ` name="${name.value}"` : ""}>`);
+        visit(node.children, depth + 1);
+      } else if (node.type !== "text") {
+        lines.push(`${indent}${raw}`);
+      } else if (/\S/.test(raw)) {
+        lines.push(`${indent}${raw.trim()}`);
+      } else {
+        const emptyLines = raw.split("\n").length - 2;
+        lines.push(...Array.from({ length: Math.max(0, emptyLines) }, () => `${indent}(blank)`));
+      }
+    }
+  };
+  visit(parseXmlSource(xml).children, 0);
+  return lines;
+}
+
+/** Loads a schema into a fresh SchemaModelManager and serializes it again. */
+function roundTrip(xml: string): string {
+  const manager = new SchemaModelManager();
+  manager.loadFromXml(xml);
+  return manager.toXml();
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("Integration: round trip of the example schemas", () => {
+  it("covers comments, CDATA sections and a non-default prefix", () => {
+    const combined = EXAMPLE_FILES.map(([, xml]) => xml).join("\n");
+    expect(combined).toContain("<!--");
+    expect(combined).toContain("<![CDATA[");
+    expect(combined).toContain("<xsd:schema");
+  });
+
+  it.each(EXAMPLE_FILES)("keeps the golden outline of %s", (_file, xml) => {
+    const output = roundTrip(xml);
+
+    expect(outlineOf(output)).toEqual(outlineOf(xml));
+    expect(isEquivalentXml(output, xml)).toBe(true);
+  });
+
+  it.each(EXAMPLE_FILES)("is stable when %s is round-tripped twice", (_file, xml) => {
+    const once = roundTrip(xml);
+
+    expect(roundTrip(once)).toBe(once);
+  });
+});
+
+describe("Integration: trivia after an edit", () => {
+  const FIDELITY_XSD = readFileSync(resolve(EXAMPLE_DIR, "fidelity-test.xsd"), "utf-8");
+
+  it("keeps the licence header, section comments and prefix when a component is added", () => {
+    const command: AddElementCommand = {
+      type: "addElement",
+      payload: {
+        parentId: "/complexType:BookType/sequence",
+        elementName: "isbn",
+        elementType: "xsd:string",
+      },
+    };
+
+    const output = runCommandExpectSuccess(FIDELITY_XSD, command);
+
+    // The new element is the only change to the outline
+    const expected = outlineOf(FIDELITY_XSD);
+    const insertAt = expected.indexOf('      <xsd:element name="author">') + 1;
+    expected.splice(insertAt, 0, '      <xsd:element name="isbn">');
+    expect(outlineOf(output)).toEqual(expected);
+  });
+});
@@ -4,7 +4,16 @@
  */
 
 import { CommandExecutor } from "./commandExecutor";
-import { schema, SchemaCommand, topLevelElement } from "../shared/types";
+import {
+  schema,
+  SchemaCommand,
+  topLevelElement,
+  topLevelComplexType,
+  explicitGroup,
+  localElement,
+  localComplexType,
+  attribute,
+} from "../shared/types";
 import { toArray } from "../shared/schemaUtils";
 
 describe("CommandExecutor", () => {
@@ -250,5 +259,293 @@ describe("CommandExecutor", () => {
       expect(toArray(mockSchema.include)).toHaveLength(1);
       expect(toArray(mockSchema.include)[0].schemaLocation).toBe("included.xsd");
     });
+
+    it("should delegate addIdentityConstraint execution and add the constraint to the element", () => {
+      const orders = new topLevelElement();
+      orders.name = "orders";
+      mockSchema.element = [orders];
+      const command: SchemaCommand = {
+        type: "addIdentityConstraint",
+        payload: {
+          parentId: "/element:orders",
+          kind: "unique",
+          constraintName: "orderNumber",
+          selector: "order",
+          fields: ["@number"],
+        },
+      };
+
+      expect(() => {
+        executor.execute(command, mockSchema);
+      }).not.toThrow();
+
+      expect(toArray(toArray(mockSchema.element)[0].unique).map((u) => u.name)).toEqual([
+        "orderNumber",
+      ]);
+    });
+
+    it("should delegate addWildcard execution and add the wildcard to the compositor", () => {
+      const extensible = new topLevelComplexType();
+      extensible.name = "Extensible";
+      extensible.sequence = new explicitGroup();
+      mockSchema.complexType = [extensible];
+      const command: SchemaCommand = {
+        type: "addWildcard",
+        payload: { parentId: "/complexType:Extensible/sequence", kind: "any", namespace: "##other" },
+      };
+
+      expect(() => {
+        executor.execute(command, mockSchema);
+      }).not.toThrow();
+
+      expect(toArray(extensible.sequence.any_)[0]._anyAttributes).toEqual({
+        namespace: "##other",
+      });
+    });
+
+    it("should delegate addCompositor execution and nest the compositor", () => {
+      const payment = new topLevelComplexType();
+      payment.name = "Payment";
+      payment.sequence = new explicitGroup();
+      mockSchema.complexType = [payment];
+      const command: SchemaCommand = {
+        type: "addCompositor",
+        payload: { parentId: "/complexType:Payment/sequence", compositor: "choice", minOccurs: 0 },
+      };
+
+      expect(() => {
+        executor.execute(command, mockSchema);
+      }).not.toThrow();
+
+      expect(toArray(payment.sequence.choice)[0].minOccurs).toBe(0);
+    });
+
+    it("should delegate moveNode execution and reorder the elements", () => {
+      const amount = new localElement();
+      amount.name = "amount";
+      const currency = new localElement();
+      currency.name = "currency";
+      const payment = new topLevelComplexType();
+      payment.name = "Payment";
+      payment.sequence = new explicitGroup();
+      payment.sequence.element = [amount, currency];
+      mockSchema.complexType = [payment];
+      const command: SchemaCommand = {
+        type: "moveNode",
+        payload: {
+          nodeId: "/complexType:Payment/sequence/element:currency[1]",
+          newParentId: "/complexType:Payment/sequence",
+          index: 0,
+        },
+      };
+
+      expect(() => {
+        executor.execute(command, mockSchema);
+      }).not.toThrow();
+
+      expect(payment.sequence.element).toEqual([currency, amount]);
+    });
+
+    it("should delegate renameComponent execution and update the references", () => {
+      const payment = new topLevelComplexType();
+      payment.name = "Payment";
+      const element = new topLevelElement();
+      element.name = "payment";
+      element.type_ = "Payment";
+      mockSchema.complexType = [payment];
+      mockSchema.element = [element];
+      const command: SchemaCommand = {
+        type: "renameComponent",
+        payload: { componentId: "/complexType:Payment", newName: "Invoice" },
+      };
+
+      expect(() => {
+        executor.execute(command, mockSchema);
+      }).not.toThrow();
+
+      expect(payment.name).toBe("Invoice");
+      expect(element.type_).toBe("Invoice");
+    });
+
+    it("should delegate safeDeleteComponent execution and retarget the references", () => {
+      const payment = new topLevelComplexType();
+      payment.name = "Payment";
+      const element = new topLevelElement();
+      element.name = "payment";
+      element.type_ = "Payment";
+      mockSchema.complexType = [payment];
+      mockSchema.element = [element];
+      const command: SchemaCommand = {
+        type: "safeDeleteComponent",
+        payload: {
+          componentId: "/complexType:Payment",
+          strategy: "retarget",
+          replacement: "xs:string",
+        },
+      };
+
+      expect(() => {
+        executor.execute(command, mockSchema);
+      }).not.toThrow();
+
+      expect(mockSchema.complexType).toBeUndefined();
+      expect(element.type_).toBe("xs:string");
+    });
+
+    it("should delegate extractType execution and refer to the new type", () => {
+      const element = new topLevelElement();
+      element.name = "payment";
+      element.complexType = new localComplexType();
+      mockSchema.element = [element];
+      const command: SchemaCommand = {
+        type: "extractType",
+        payload: { typeId: "/element:payment/anonymousComplexType[0]", typeName: "Payment" },
+      };
+
+      expect(() => {
+        executor.execute(command, mockSchema);
+      }).not.toThrow();
+
+      expect(toArray(mockSchema.complexType).map((ct) => ct.name)).toEqual(["Payment"]);
+      expect(element.complexType).toBeUndefined();
+      expect(element.type_).toBe("tns:Payment");
+      expect(mockSchema._namespacePrefixes?.tns).toBe("http://example.com/schema");
+    });
+
+    it("should delegate inlineType execution and remove the unused type", () => {
+      const paymentType = new topLevelComplexType();
+      paymentType.name = "PaymentType";
+      const element = new topLevelElement();
+      element.name = "payment";
+      element.type_ = "PaymentType";
+      mockSchema.complexType = [paymentType];
+      mockSchema.element = [element];
+      const command: SchemaCommand = {
+        type: "inlineType",
+        payload: { typeId: "/complexType:PaymentType" },
+      };
+
+      expect(() => {
+        executor.execute(command, mockSchema);
+      }).not.toThrow();
+
+      expect(element.type_).toBeUndefined();
+      expect(element.complexType).toBeDefined();
+      expect(mockSchema.complexType).toBeUndefined();
+    });
+
+    it("should delegate extractGroup execution and refer to the new group", () => {
+      const personType = new topLevelComplexType();
+      personType.name = "PersonType";
+      personType.sequence = new explicitGroup();
+      const street = new localElement();
+      street.name = "street";
+      personType.sequence.element = [street];
+      mockSchema.complexType = [personType];
+      const command: SchemaCommand = {
+        type: "extractGroup",
+        payload: {
+          particleIds: ["/complexType:PersonType/sequence[0]/element:street"],
+          groupName: "AddressGroup",
+        },
+      };
+
+      expect(() => {
+        executor.execute(command, mockSchema);
+      }).not.toThrow();
+
+      expect(toArray(mockSchema.group).map((grp) => grp.name)).toEqual(["AddressGroup"]);
+      expect(personType.sequence.element).toBeUndefined();
+      expect(toArray(personType.sequence.group)[0].ref).toBe("tns:AddressGroup");
+    });
+
+    it("should delegate extractAttributeGroup execution and refer to the new attribute group", () => {
+      const personType = new topLevelComplexType();
+      personType.name = "PersonType";
+      const id = new attribute();
+      id.name = "id";
+      personType.attribute = [id];
+      mockSchema.complexType = [personType];
+      const command: SchemaCommand = {
+        type: "extractAttributeGroup",
+        payload: {
+          attributeIds: ["/complexType:PersonType/attribute:id"],
+          groupName: "IdentityAttributes",
+        },
+      };
+
+      expect(() => {
+        executor.execute(command, mockSchema);
+      }).not.toThrow();
+
+      expect(toArray(mockSchema.attributeGroup)[0].attribute).toEqual([id]);
+      expect(personType.attribute).toBeUndefined();
+      expect(toArray(personType.attributeGroup)[0].ref).toBe("tns:IdentityAttributes");
+    });
+
+    it("should delegate promoteElement execution and refer to the new top-level element", () => {
+      const orderType = new topLevelComplexType();
+      orderType.name = "OrderType";
+      orderType.sequence = new explicitGroup();
+      const item = new localElement();
+      item.name = "item";
+      item.type_ = "xs:string";
+      item.maxOccurs = "unbounded";
+      orderType.sequence.element = [item];
+      mockSchema.complexType = [orderType];
+      const command: SchemaCommand = {
+        type: "promoteElement",
+        payload: { elementId: "/complexType:OrderType/sequence[0]/element:item" },
+      };
+
+      expect(() => {
+        executor.execute(command, mockSchema);
+      }).not.toThrow();
+
+      expect(toArray(mockSchema.element).map((el) => el.name)).toEqual(["item"]);
+      expect(toArray(orderType.sequence.element)[0].ref).toBe("tns:item");
+      expect(toArray(orderType.sequence.element)[0].maxOccurs).toBe("unbounded");
+    });
+
+    it("should delegate demoteElement execution and remove the unused top-level element", () => {
+      const item = new topLevelElement();
+      item.name = "item";
+      item.type_ = "xs:string";
+      const orderType = new topLevelComplexType();
+      orderType.name = "OrderType";
+      orderType.sequence = new explicitGroup();
+      const reference = new localElement();
+      reference.ref = "item";
+      orderType.sequence.element = [reference];
+      mockSchema.element = [item];
+      mockSchema.complexType = [orderType];
+      const command: SchemaCommand = {
+        type: "demoteElement",
+        payload: { elementId: "/complexType:OrderType/sequence[0]/element:item[0]" },
+      };
+
+      expect(() => {
+        executor.execute(command, mockSchema);
+      }).not.toThrow();
+
+      expect(toArray(orderType.sequence.element)[0].name).toBe("item");
+      expect(toArray(orderType.sequence.element)[0].type_).toBe("xs:string");
+      expect(mockSchema.element).toBeUndefined();
+    });
+
+    it("should delegate modifySchema execution and update the schema root", () => {
+      const command: SchemaCommand = {
+        type: "modifySchema",
+        payload: { version: "2.0", elementFormDefault: "" },
+      };
+
+      expect(() => {
+        executor.execute(command, mockSchema);
+      }).not.toThrow();
+
+      expect(mockSchema.version).toBe("2.0");
+      expect(mockSchema.elementFormDefault).toBeUndefined();
+      expect(mockSchema.targetNamespace).toBe("http://example.com/schema");
+    });
   });
 });
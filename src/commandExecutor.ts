@@ -35,6 +35,25 @@ import {
   AddIncludeCommand,
   RemoveIncludeCommand,
   ModifyIncludeCommand,
+  ModifySchemaCommand,
+  AddIdentityConstraintCommand,
+  RemoveIdentityConstraintCommand,
+  ModifyIdentityConstraintCommand,
+  AddWildcardCommand,
+  RemoveWildcardCommand,
+  ModifyWildcardCommand,
+  AddCompositorCommand,
+  RemoveCompositorCommand,
+  ModifyCompositorCommand,
+  MoveNodeCommand,
+  RenameComponentCommand,
+  SafeDeleteComponentCommand,
+  ExtractTypeCommand,
+  InlineTypeCommand,
+  ExtractGroupCommand,
+  ExtractAttributeGroupCommand,
+  PromoteElementCommand,
+  DemoteElementCommand,
 } from "../shared/commands";
 
 // Import execution functions from specialized modules
@@ -45,6 +64,13 @@ import * as groupExecutors from "./commandExecutors/groupExecutors";
 import * as attributeGroupExecutors from "./commandExecutors/attributeGroupExecutors";
 import * as annotationExecutors from "./commandExecutors/annotationExecutors";
 import * as schemaExecutors from "./commandExecutors/schemaExecutors";
+import * as identityConstraintExecutors from "./commandExecutors/identityConstraintExecutors";
+import * as wildcardExecutors from "./commandExecutors/wildcardExecutors";
+import * as compositorExecutors from "./commandExecutors/compositorExecutors";
+import * as moveExecutors from "./commandExecutors/moveExecutors";
+import * as refactoringExecutors from "./commandExecutors/refactoringExecutors";
+import * as extractionExecutors from "./commandExecutors/extractionExecutors";
+import * as elementScopeExecutors from "./commandExecutors/elementScopeExecutors";
 
 /**
  * Generic type for executor functions that execute commands.
@@ -90,6 +116,25 @@ export interface ExecutorFunctions {
   executeAddInclude: ExecutorFunction<AddIncludeCommand>;
   executeRemoveInclude: ExecutorFunction<RemoveIncludeCommand>;
   executeModifyInclude: ExecutorFunction<ModifyIncludeCommand>;
+  executeModifySchema: ExecutorFunction<ModifySchemaCommand>;
+  executeAddIdentityConstraint: ExecutorFunction<AddIdentityConstraintCommand>;
+  executeRemoveIdentityConstraint: ExecutorFunction<RemoveIdentityConstraintCommand>;
+  executeModifyIdentityConstraint: ExecutorFunction<ModifyIdentityConstraintCommand>;
+  executeAddWildcard: ExecutorFunction<AddWildcardCommand>;
+  executeRemoveWildcard: ExecutorFunction<RemoveWildcardCommand>;
+  executeModifyWildcard: ExecutorFunction<ModifyWildcardCommand>;
+  executeAddCompositor: ExecutorFunction<AddCompositorCommand>;
+  executeRemoveCompositor: ExecutorFunction<RemoveCompositorCommand>;
+  executeModifyCompositor: ExecutorFunction<ModifyCompositorCommand>;
+  executeMoveNode: ExecutorFunction<MoveNodeCommand>;
+  executeRenameComponent: ExecutorFunction<RenameComponentCommand>;
+  executeSafeDeleteComponent: ExecutorFunction<SafeDeleteComponentCommand>;
+  executeExtractType: ExecutorFunction<ExtractTypeCommand>;
+  executeInlineType: ExecutorFunction<InlineTypeCommand>;
+  executeExtractGroup: ExecutorFunction<ExtractGroupCommand>;
+  executeExtractAttributeGroup: ExecutorFunction<ExtractAttributeGroupCommand>;
+  executePromoteElement: ExecutorFunction<PromoteElementCommand>;
+  executeDemoteElement: ExecutorFunction<DemoteElementCommand>;
 }
 
 /**
@@ -137,6 +182,25 @@ export class CommandExecutor {
       executeAddInclude: schemaExecutors.executeAddInclude,
       executeRemoveInclude: schemaExecutors.executeRemoveInclude,
       executeModifyInclude: schemaExecutors.executeModifyInclude,
+      executeModifySchema: schemaExecutors.executeModifySchema,
+      executeAddIdentityConstraint: identityConstraintExecutors.executeAddIdentityConstraint,
+      executeRemoveIdentityConstraint: identityConstraintExecutors.executeRemoveIdentityConstraint,
+      executeModifyIdentityConstraint: identityConstraintExecutors.executeModifyIdentityConstraint,
+      executeAddWildcard: wildcardExecutors.executeAddWildcard,
+      executeRemoveWildcard: wildcardExecutors.executeRemoveWildcard,
+      executeModifyWildcard: wildcardExecutors.executeModifyWildcard,
+      executeAddCompositor: compositorExecutors.executeAddCompositor,
+      executeRemoveCompositor: compositorExecutors.executeRemoveCompositor,
+      executeModifyCompositor: compositorExecutors.executeModifyCompositor,
+      executeMoveNode: moveExecutors.executeMoveNode,
+      executeRenameComponent: refactoringExecutors.executeRenameComponent,
+      executeSafeDeleteComponent: refactoringExecutors.executeSafeDeleteComponent,
+      executeExtractType: extractionExecutors.executeExtractType,
+      executeInlineType: extractionExecutors.executeInlineType,
+      executeExtractGroup: extractionExecutors.executeExtractGroup,
+      executeExtractAttributeGroup: extractionExecutors.executeExtractAttributeGroup,
+      executePromoteElement: elementScopeExecutors.executePromoteElement,
+      executeDemoteElement: elementScopeExecutors.executeDemoteElement,
     };
   }
 
@@ -241,6 +305,70 @@ export class CommandExecutor {
       case "modifyInclude":
         this.executors.executeModifyInclude(command, schemaObj);
         break;
+      case "modifySchema":
+        this.executors.executeModifySchema(command, schemaObj);
+        break;
+      case "addIdentityConstraint":
+        this.executors.executeAddIdentityConstraint(command, schemaObj);
+        break;
+      case "removeIdentityConstraint":
+        this.executors.executeRemoveIdentityConstraint(command, schemaObj);
+        break;
+      case "modifyIdentityConstraint":
+        this.executors.executeModifyIdentityConstraint(command, schemaObj);
+        break;
+      case "addWildcard":
+        this.executors.executeAddWildcard(command, schemaObj);
+        break;
+      case "removeWildcard":
+        this.executors.executeRemoveWildcard(command, schemaObj);
+        break;
+      case "modifyWildcard":
+        this.executors.executeModifyWildcard(command, schemaObj);
+        break;
+      case "addCompositor":
+        this.executors.executeAddCompositor(command, schemaObj);
+        break;
+      case "removeCompositor":
+        this.executors.executeRemoveCompositor(command, schemaObj);
+        break;
+      case "modifyCompositor":
+        this.executors.executeModifyCompositor(command, schemaObj);
+        break;
+      case "moveNode":
+        this.executors.executeMoveNode(command, schemaObj);
+        break;
+      case "renameComponent":
+        this.executors.executeRenameComponent(command, schemaObj);
+        break;
+      case "safeDeleteComponent":
+        this.executors.executeSafeDeleteComponent(command, schemaObj);
+        break;
+      case "extractType":
+        this.executors.executeExtractType(command, schemaObj);
+        break;
+      case "inlineType":
+        this.executors.executeInlineType(command, schemaObj);
+        break;
+      case "extractGroup":
+        this.executors.executeExtractGroup(command, schemaObj);
+        break;
+      case "extractAttributeGroup":
+        this.executors.executeExtractAttributeGroup(command, schemaObj);
+        break;
+      case "promoteElement":
+        this.executors.executePromoteElement(command, schemaObj);
+        break;
+      case "demoteElement":
+        this.executors.executeDemoteElement(command, schemaObj);
+        break;
+      case "batch":
+        // CommandProcessor validates each sub-command before executing it;
+        // executing a batch directly just applies the sub-commands in order
+        for (const subCommand of command.payload.commands) {
+          this.execute(subCommand, schemaObj);
+        }
+        break;
       default:
         throw new Error(
           `Unknown command type: ${
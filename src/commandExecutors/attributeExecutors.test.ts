@@ -557,6 +557,60 @@ describe("Attribute Executors", () => {
       expect(attrs[0].fixed).toBe("active");
       expect(attrs[0].default_).toBeUndefined();
     });
+
+    it("should remove the default value when it is set to an empty string", () => {
+      const schemaXml = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:complexType name="PersonType">
+    <xs:attribute name="status" type="xs:string" default="pending"/>
+  </xs:complexType>
+</xs:schema>`;
+      const schemaObj = unmarshal(schema, schemaXml);
+
+      const command: ModifyAttributeCommand = {
+        type: "modifyAttribute",
+        payload: {
+          attributeId: "/complexType:PersonType/attribute:status",
+          defaultValue: "",
+        },
+      };
+
+      executeModifyAttribute(command, schemaObj);
+
+      const complexTypes = Array.isArray(schemaObj.complexType)
+        ? schemaObj.complexType
+        : [schemaObj.complexType];
+      const attrs = toArray(complexTypes[0]!.attribute);
+      expect(attrs[0].default_).toBeUndefined();
+      expect(attrs[0].fixed).toBeUndefined();
+    });
+
+    it("should keep the default value when the fixed value is set to an empty string", () => {
+      const schemaXml = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:complexType name="PersonType">
+    <xs:attribute name="status" type="xs:string" default="pending"/>
+  </xs:complexType>
+</xs:schema>`;
+      const schemaObj = unmarshal(schema, schemaXml);
+
+      const command: ModifyAttributeCommand = {
+        type: "modifyAttribute",
+        payload: {
+          attributeId: "/complexType:PersonType/attribute:status",
+          fixedValue: "",
+        },
+      };
+
+      executeModifyAttribute(command, schemaObj);
+
+      const complexTypes = Array.isArray(schemaObj.complexType)
+        ? schemaObj.complexType
+        : [schemaObj.complexType];
+      const attrs = toArray(complexTypes[0]!.attribute);
+      expect(attrs[0].default_).toBe("pending");
+      expect(attrs[0].fixed).toBeUndefined();
+    });
   });
 
   describe("Round-trip XML serialization", () => {
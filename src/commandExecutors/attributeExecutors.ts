@@ -230,8 +230,8 @@ function removeAttributeFromParent(
  * @param newType - New type (optional)
  * @param newRef - New ref (optional). When set, clears name and type.
  * @param newRequired - New required status (optional)
- * @param newDefaultValue - New default value (optional)
- * @param newFixedValue - New fixed value (optional)
+ * @param newDefaultValue - New default value (optional). An empty string removes it.
+ * @param newFixedValue - New fixed value (optional). An empty string removes it.
  * @param newDocumentation - New documentation (optional)
  * @throws Error if parent type is unsupported or attribute not found
  */
@@ -332,8 +332,8 @@ function findAttribute<T extends { name?: string; ref?: string }>(
  * @param newType - New type (optional)
  * @param newRef - New ref (optional). When set, clears name and type.
  * @param newRequired - New required status (optional, only for local attributes)
- * @param newDefaultValue - New default value (optional)
- * @param newFixedValue - New fixed value (optional)
+ * @param newDefaultValue - New default value (optional). An empty string removes it.
+ * @param newFixedValue - New fixed value (optional). An empty string removes it.
  * @param newDocumentation - New documentation (optional)
  */
 function updateAttributeProperties(
@@ -365,11 +365,16 @@ function updateAttributeProperties(
   if (newRequired !== undefined && "use" in attr) {
     (attr).use = newRequired ? "required" : "optional";
   }
-  if (newDefaultValue !== undefined) {
+  // An empty value removes the default or fixed value without touching the other one
+  if (newDefaultValue === "") {
+    attr.default_ = undefined;
+  } else if (newDefaultValue !== undefined) {
     attr.default_ = newDefaultValue;
     attr.fixed = undefined;
   }
-  if (newFixedValue !== undefined) {
+  if (newFixedValue === "") {
+    attr.fixed = undefined;
+  } else if (newFixedValue !== undefined) {
     attr.fixed = newFixedValue;
     attr.default_ = undefined;
   }
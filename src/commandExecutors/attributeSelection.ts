@@ -0,0 +1,83 @@
+/**
+ * Attributes selected on one or more complex types or attribute groups:
+ * locating them by their IDs and merging the attributes of the same name
+ * selected on different holders.
+ */
+
+import { schema, attribute, attributeGroupRef } from "../../shared/types";
+import { locateMovableNode } from "./moveUtils";
+
+/** A complex type or attribute group holding selected attributes. */
+export type SelectedAttributeHolder = {
+  attribute?: attribute[];
+  attributeGroup?: attributeGroupRef[];
+};
+
+/** An attribute with the node holding it. */
+export interface SelectedAttribute {
+  holder: SelectedAttributeHolder;
+  attribute: attribute;
+}
+
+/** Result of locating selected attributes. */
+export type AttributeSelection =
+  { found: true; attributes: SelectedAttribute[] } | { found: false; error: string };
+
+/**
+ * Returns the name an attribute is merged by: its name, or the referenced
+ * name for attribute references.
+ */
+function attributeKey(attr: attribute): string {
+  return attr.name ?? attr.ref ?? "";
+}
+
+/**
+ * Locates the attributes chosen by their IDs. Attributes selected more than
+ * once are only returned once.
+ *
+ * @param schemaObj - The schema to search
+ * @param attributeIds - IDs of attributes of complex types or attribute groups
+ * @returns The attributes with their holders, or an error message if an ID
+ *   does not denote such an attribute
+ */
+export function locateAttributeSelection(
+  schemaObj: schema,
+  attributeIds: string[]
+): AttributeSelection {
+  const attributes: SelectedAttribute[] = [];
+  for (const attributeId of attributeIds) {
+    const location = locateMovableNode(schemaObj, attributeId);
+    if (!location.found) {
+      return location;
+    }
+    if (location.kind !== "attribute") {
+      return {
+        found: false,
+        error: `Only attributes can be extracted into an attribute group: ${attributeId}`,
+      };
+    }
+    const attr = location.node as attribute;
+    if (!attributes.some((selected) => selected.attribute === attr)) {
+      attributes.push({ holder: location.container, attribute: attr });
+    }
+  }
+  if (attributes.length === 0) {
+    return { found: false, error: "No attributes selected" };
+  }
+  return { found: true, attributes };
+}
+
+/**
+ * Groups selected attributes by the name they are merged by.
+ *
+ * @param attributes - The selected attributes
+ * @returns The declarations of each name, in selection order
+ */
+export function groupAttributesByName(attributes: SelectedAttribute[]): Map<string, attribute[]> {
+  const byName = new Map<string, attribute[]>();
+  for (const { attribute: attr } of attributes) {
+    const key = attributeKey(attr);
+    byName.set(key, [...(byName.get(key) ?? []), attr]);
+  }
+  return byName;
+}
@@ -0,0 +1,192 @@
+/**
+ * Builders for the content structure of a complex type: a direct content
+ * model, or the extension or restriction of its complexContent or
+ * simpleContent.
+ */
+
+import {
+  ContentModel,
+  complexContentType,
+  simpleContentType,
+  extensionType,
+  complexRestrictionType,
+  simpleExtensionType,
+  simpleRestrictionType,
+  explicitGroup,
+  all,
+} from "../../shared/types";
+import {
+  AttributeHolder,
+  ComplexTypeHolder,
+  ComplexTypeStructure,
+  ParticleHolder,
+  getComplexTypeStructure,
+  getContentHolder,
+} from "./complexTypeUtils";
+import { applyRestrictionFacets } from "./simpleTypeBuilders";
+
+/**
+ * Returns a content model holding a new, empty compositor.
+ *
+ * @param contentModel - The content model to create
+ * @returns The holder of the compositor
+ */
+function createContentModel(contentModel: ContentModel): ParticleHolder {
+  if (contentModel === "sequence") {
+    return { sequence: new explicitGroup() };
+  }
+  if (contentModel === "choice") {
+    return { choice: new explicitGroup() };
+  }
+  return { all: new all() };
+}
+
+/**
+ * Replaces the content model of a complex type or of its complexContent
+ * derivation with a new, empty compositor.
+ *
+ * @param holder - The type or derivation holding the content model
+ * @param contentModel - The content model to create
+ */
+function replaceContentModel(holder: ParticleHolder, contentModel: ContentModel): void {
+  holder.group = undefined;
+  holder.sequence = undefined;
+  holder.choice = undefined;
+  holder.all = undefined;
+  Object.assign(holder, createContentModel(contentModel));
+}
+
+/**
+ * Returns true if a complex type keeps its kind of content and derivation,
+ * so that only its base type or content model changes.
+ */
+function isSameStructure(current: ComplexTypeStructure, structure: ComplexTypeStructure): boolean {
+  return (
+    current.contentKind === structure.contentKind &&
+    !current.baseType === !structure.baseType &&
+    (!structure.baseType || current.derivation === structure.derivation)
+  );
+}
+
+/**
+ * Creates the complexContent derivation of a complex type.
+ *
+ * @param structure - The structure of the type, with a base type
+ * @param content - The content model and attributes of the derivation
+ * @returns The extension or restriction
+ */
+function createComplexDerivation(
+  structure: ComplexTypeStructure,
+  content: ParticleHolder & AttributeHolder
+): Pick<complexContentType, "extension" | "restriction"> {
+  const derivation =
+    structure.derivation === "restriction" ? new complexRestrictionType() : new extensionType();
+  derivation.base = structure.baseType ?? "";
+  Object.assign(derivation, content);
+  return derivation instanceof extensionType
+    ? { extension: derivation }
+    : { restriction: derivation };
+}
+
+/**
+ * Creates the simpleContent derivation of a complex type.
+ *
+ * @param structure - The structure of the type, with a base type
+ * @param attributes - The attributes of the derivation
+ * @returns The extension or restriction
+ */
+function createSimpleDerivation(
+  structure: ComplexTypeStructure,
+  attributes: AttributeHolder
+): Pick<simpleContentType, "extension" | "restriction"> {
+  const derivation =
+    structure.derivation === "restriction"
+      ? new simpleRestrictionType()
+      : new simpleExtensionType();
+  derivation.base = structure.baseType ?? "";
+  Object.assign(derivation, attributes);
+  return derivation instanceof simpleExtensionType
+    ? { extension: derivation }
+    : { restriction: derivation };
+}
+
+/**
+ * Rebuilds the content structure of a complexType: a direct compositor, or a
+ * complexContent or simpleContent wrapper with an extension or restriction of
+ * the base type. The attributes of the type move along; so does its content
+ * model, unless a new one is given or the type gets simple content. A type
+ * that keeps its kind of content and derivation is updated in place, keeping
+ * the facets of a restriction unless new ones are given.
+ *
+ * @param ct - The complexType holder to update
+ * @param structure - The structure the type gets
+ */
+export function applyComplexTypeStructure(
+  ct: ComplexTypeHolder,
+  structure: ComplexTypeStructure
+): void {
+  if (isSameStructure(getComplexTypeStructure(ct), structure)) {
+    const source = getContentHolder(ct);
+    if (structure.baseType) {
+      source.base = structure.baseType;
+    }
+    if (structure.contentModel && structure.contentKind === "complex") {
+      replaceContentModel(source, structure.contentModel);
+    }
+  } else {
+    rebuildComplexTypeStructure(ct, structure);
+  }
+  if (structure.restrictions && ct.simpleContent?.restriction) {
+    applyRestrictionFacets(ct.simpleContent.restriction, structure.restrictions);
+  }
+}
+
+/**
+ * Moves the attributes and content model of a complexType into the wrappers
+ * of a new structure.
+ *
+ * @param ct - The complexType holder to update
+ * @param structure - The structure the type gets
+ */
+function rebuildComplexTypeStructure(ct: ComplexTypeHolder, structure: ComplexTypeStructure): void {
+  const source = getContentHolder(ct);
+
+  const attributes: AttributeHolder = {
+    attribute: source.attribute,
+    attributeGroup: source.attributeGroup,
+    anyAttribute: source.anyAttribute,
+  };
+  const particles: ParticleHolder = structure.contentModel
+    ? createContentModel(structure.contentModel)
+    : { group: source.group, sequence: source.sequence, choice: source.choice, all: source.all };
+  const { complexContent, simpleContent } = ct;
+
+  ct.group = undefined;
+  ct.sequence = undefined;
+  ct.choice = undefined;
+  ct.all = undefined;
+  ct.attribute = undefined;
+  ct.attributeGroup = undefined;
+  ct.anyAttribute = undefined;
+  ct.complexContent = undefined;
+  ct.simpleContent = undefined;
+
+  if (structure.contentKind === "simple") {
+    // An existing wrapper keeps its annotation
+    const wrapper = simpleContent ?? new simpleContentType();
+    wrapper.extension = undefined;
+    wrapper.restriction = undefined;
+    ct.simpleContent = Object.assign(wrapper, createSimpleDerivation(structure, attributes));
+  } else if (structure.baseType) {
+    // An existing wrapper keeps its annotation and mixed flag
+    const wrapper = complexContent ?? new complexContentType();
+    wrapper.extension = undefined;
+    wrapper.restriction = undefined;
+    ct.complexContent = Object.assign(
+      wrapper,
+      createComplexDerivation(structure, { ...particles, ...attributes })
+    );
+  } else {
+    Object.assign(ct, particles, attributes);
+  }
+}
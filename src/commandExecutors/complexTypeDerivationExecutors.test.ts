@@ -0,0 +1,178 @@
+/**
+ * Unit tests for the derivation of complex types in the type executors.
+ * Tests adding complex types with simple content or derived by restriction,
+ * and switching the derivation method and content kind of existing types.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import {
+  schema,
+  AddComplexTypeCommand,
+  AddComplexTypePayload,
+  ModifyComplexTypeCommand,
+  ModifyComplexTypePayload,
+  topLevelComplexType,
+} from "../../shared/types";
+import { executeAddComplexType, executeModifyComplexType } from "./typeExecutors";
+import { toArray } from "../../shared/schemaUtils";
+
+const SCHEMA_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:prices" targetNamespace="urn:prices">
+  <xs:complexType name="PriceType">
+    <xs:simpleContent>
+      <xs:extension base="xs:decimal">
+        <xs:attribute name="currency" type="xs:string"/>
+      </xs:extension>
+    </xs:simpleContent>
+  </xs:complexType>
+  <xs:complexType name="EuroPriceType">
+    <xs:simpleContent>
+      <xs:restriction base="tns:PriceType">
+        <xs:minInclusive value="0"/>
+      </xs:restriction>
+    </xs:simpleContent>
+  </xs:complexType>
+  <xs:complexType name="ItemType">
+    <xs:complexContent>
+      <xs:extension base="tns:ProductType">
+        <xs:sequence>
+          <xs:element name="quantity" type="xs:int"/>
+        </xs:sequence>
+        <xs:attribute name="id" type="xs:ID"/>
+      </xs:extension>
+    </xs:complexContent>
+  </xs:complexType>
+  <xs:complexType name="ProductType">
+    <xs:sequence>
+      <xs:element name="name" type="xs:string"/>
+    </xs:sequence>
+    <xs:attribute name="sku" type="xs:string"/>
+  </xs:complexType>
+</xs:schema>`;
+
+describe("Complex Type Derivation Executors", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, SCHEMA_XML);
+  });
+
+  /** Returns the top-level complex type with the given name. */
+  function complexType(name: string): topLevelComplexType {
+    return toArray(schemaObj.complexType).find((type) => type.name === name)!;
+  }
+
+  /** Builds an addComplexType command for a top-level type named NewType. */
+  function addCommand(payload: Omit<AddComplexTypePayload, "typeName">): AddComplexTypeCommand {
+    return { type: "addComplexType", payload: { typeName: "NewType", ...payload } };
+  }
+
+  /** Builds a modifyComplexType command. */
+  function modifyCommand(payload: ModifyComplexTypePayload): ModifyComplexTypeCommand {
+    return { type: "modifyComplexType", payload };
+  }
+
+  describe("executeAddComplexType", () => {
+    it("should add a simpleContent extension of a simple type", () => {
+      executeAddComplexType(
+        addCommand({ contentKind: "simple", baseType: "xs:decimal" }),
+        schemaObj
+      );
+
+      const ct = complexType("NewType");
+      expect(ct.simpleContent?.extension?.base).toBe("xs:decimal");
+      expect(ct.simpleContent?.restriction).toBeUndefined();
+      expect(ct.complexContent).toBeUndefined();
+      expect(ct.sequence).toBeUndefined();
+    });
+
+    it("should add a simpleContent restriction of a complex type with simple content", () => {
+      executeAddComplexType(
+        addCommand({ contentKind: "simple", baseType: "tns:PriceType", derivation: "restriction" }),
+        schemaObj
+      );
+
+      const ct = complexType("NewType");
+      expect(ct.simpleContent?.restriction?.base).toBe("tns:PriceType");
+      expect(ct.simpleContent?.extension).toBeUndefined();
+    });
+
+    it("should add a complexContent restriction with its content model", () => {
+      executeAddComplexType(
+        addCommand({
+          contentModel: "choice",
+          baseType: "tns:ProductType",
+          derivation: "restriction",
+        }),
+        schemaObj
+      );
+
+      const restriction = complexType("NewType").complexContent?.restriction;
+      expect(restriction?.base).toBe("tns:ProductType");
+      expect(restriction?.choice).toBeDefined();
+      expect(complexType("NewType").complexContent?.extension).toBeUndefined();
+    });
+  });
+
+  describe("executeModifyComplexType", () => {
+    it("should switch a complexContent extension to a restriction, keeping its content", () => {
+      executeModifyComplexType(
+        modifyCommand({ typeId: "/complexType:ItemType", derivation: "restriction" }),
+        schemaObj
+      );
+
+      const complexContent = complexType("ItemType").complexContent;
+      expect(complexContent?.extension).toBeUndefined();
+      expect(complexContent?.restriction?.base).toBe("tns:ProductType");
+      expect(toArray(complexContent?.restriction?.sequence?.element)[0].name).toBe("quantity");
+      expect(toArray(complexContent?.restriction?.attribute)[0].name).toBe("id");
+    });
+
+    it("should keep the facets of a simpleContent restriction when its base changes", () => {
+      executeModifyComplexType(
+        modifyCommand({ typeId: "/complexType:EuroPriceType", baseType: "PriceType" }),
+        schemaObj
+      );
+
+      const restriction = complexType("EuroPriceType").simpleContent?.restriction;
+      expect(restriction?.base).toBe("PriceType");
+      expect(toArray(restriction?.minInclusive)[0].value).toBe("0");
+    });
+
+    it("should move the attributes into a simpleContent extension", () => {
+      executeModifyComplexType(
+        modifyCommand({
+          typeId: "/complexType:ProductType",
+          contentKind: "simple",
+          baseType: "xs:string",
+        }),
+        schemaObj
+      );
+
+      const ct = complexType("ProductType");
+      expect(ct.sequence).toBeUndefined();
+      expect(ct.attribute).toBeUndefined();
+      expect(ct.simpleContent?.extension?.base).toBe("xs:string");
+      expect(toArray(ct.simpleContent?.extension?.attribute)[0].name).toBe("sku");
+    });
+
+    it("should turn simple content into complex content with a content model", () => {
+      executeModifyComplexType(
+        modifyCommand({
+          typeId: "/complexType:PriceType",
+          contentKind: "complex",
+          baseType: "",
+          contentModel: "sequence",
+        }),
+        schemaObj
+      );
+
+      const ct = complexType("PriceType");
+      expect(ct.simpleContent).toBeUndefined();
+      expect(ct.complexContent).toBeUndefined();
+      expect(ct.sequence).toBeDefined();
+      expect(toArray(ct.attribute)[0].name).toBe("currency");
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Utilities for the content structure of complex types: their content model
+ * and attributes are held by the type itself, or by the extension or
+ * restriction of its complexContent or simpleContent.
+ */
+
+import {
+  ContentModel,
+  ComplexContentKind,
+  DerivationMethod,
+  RestrictionFacets,
+  annotationType,
+  complexContentType,
+  simpleContentType,
+  explicitGroup,
+  all,
+  groupRef,
+  attribute,
+  attributeGroupRef,
+  wildcard,
+} from "../../shared/types";
+
+/** Content model of a complex type or of its complexContent derivation. */
+export type ParticleHolder = {
+  group?: groupRef;
+  sequence?: explicitGroup;
+  choice?: explicitGroup;
+  all?: all;
+};
+
+/** Attributes of a complex type or of its derivation. */
+export type AttributeHolder = {
+  attribute?: attribute[];
+  attributeGroup?: attributeGroupRef[];
+  anyAttribute?: wildcard;
+};
+
+/** Structural type shared by topLevelComplexType and localComplexType for content operations. */
+export type ComplexTypeHolder = ParticleHolder &
+  AttributeHolder & {
+    mixed?: boolean;
+    annotation?: annotationType;
+    complexContent?: complexContentType;
+    simpleContent?: simpleContentType;
+  };
+
+/** How a complex type is derived. */
+export interface ComplexTypeStructure {
+  contentKind: ComplexContentKind;
+  /** The base type; empty or undefined if the type has no base type */
+  baseType?: string;
+  derivation: DerivationMethod;
+  /** Content model of complex content; undefined keeps the current content model */
+  contentModel?: ContentModel;
+  /** Facets of a simpleContent restriction; undefined keeps the current facets */
+  restrictions?: RestrictionFacets;
+}
+
+/** The extension or restriction of a complex type, or the type itself. */
+export type ContentHolder = ParticleHolder & AttributeHolder & { base?: string };
+
+/**
+ * Returns the node holding the attributes of a complex type, and its content
+ * model in case of complex content.
+ *
+ * @param ct - The complexType holder to inspect
+ * @returns The extension or restriction of the type, or the type itself
+ */
+export function getContentHolder(ct: ComplexTypeHolder): ContentHolder {
+  return (
+    ct.complexContent?.extension ??
+    ct.complexContent?.restriction ??
+    ct.simpleContent?.extension ??
+    ct.simpleContent?.restriction ??
+    ct
+  );
+}
+
+/**
+ * Returns how a complex type is currently derived.
+ *
+ * @param ct - The complexType holder to inspect
+ * @returns The structure of the type, with its current content model
+ */
+export function getComplexTypeStructure(ct: ComplexTypeHolder): ComplexTypeStructure {
+  return {
+    contentKind: ct.simpleContent ? "simple" : "complex",
+    baseType: getContentHolder(ct).base,
+    derivation:
+      (ct.complexContent?.restriction ?? ct.simpleContent?.restriction)
+        ? "restriction"
+        : "extension",
+    contentModel: getContentModel(ct),
+  };
+}
+
+/**
+ * Infers the current content model of a complexType by inspecting its
+ * direct compositor properties and those of its complexContent derivation.
+ *
+ * @param ct - The complexType holder to inspect
+ * @returns The current ContentModel or undefined if none is set
+ */
+export function getContentModel(ct: ComplexTypeHolder): ContentModel | undefined {
+  const holder = ct.simpleContent ? {} : getContentHolder(ct);
+  if (holder.sequence) {
+    return "sequence";
+  }
+  if (holder.choice) {
+    return "choice";
+  }
+  if (holder.all) {
+    return "all";
+  }
+  return undefined;
+}
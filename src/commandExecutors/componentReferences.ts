@@ -0,0 +1,254 @@
+/**
+ * Shared helpers for refactorings of top-level components: locating a
+ * component by its ID, resolving the QNames that refer to it, and copying it.
+ *
+ * A QName refers to a component when it names the component's symbol space
+ * (simple and complex types share one) and resolves to the target namespace
+ * and local name of the component. Prefixes are resolved through the namespace
+ * prefixes declared on the schema; unprefixed names resolve to the default
+ * namespace, or to the target namespace when no default namespace is known.
+ */
+
+import { schema } from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import { parseSchemaId } from "../../shared/idStrategy";
+import { QNameReferenceKind, rewriteQNamesInSchema } from "./schemaQNameTraversal";
+
+/** Kinds of top-level component that can be referenced by QName. */
+export type ComponentKind =
+  | "element"
+  | "attribute"
+  | "complexType"
+  | "simpleType"
+  | "group"
+  | "attributeGroup";
+
+/** A named top-level component as stored in the schema. */
+export type NamedComponent = { name?: string };
+
+/** Result of locating a top-level component. */
+export type ComponentLocation =
+  | { found: true; kind: ComponentKind; component: NamedComponent }
+  | { found: false; error: string };
+
+/** A QName resolved to its namespace and local name. */
+export interface ResolvedQName {
+  /** Namespace URI, empty for no namespace, undefined for an undeclared prefix */
+  namespace: string | undefined;
+  localName: string;
+}
+
+/** Symbol space each component kind is referenced in. */
+const REFERENCE_KINDS: Record<ComponentKind, QNameReferenceKind> = {
+  element: "element",
+  attribute: "attribute",
+  complexType: "type",
+  simpleType: "type",
+  group: "group",
+  attributeGroup: "attributeGroup",
+};
+
+/**
+ * Returns true if a node type denotes a component kind.
+ */
+function isComponentKind(nodeType: string): nodeType is ComponentKind {
+  return nodeType in REFERENCE_KINDS;
+}
+
+/**
+ * Returns the top-level components of a kind.
+ */
+function componentsOf(schemaObj: schema, kind: ComponentKind): NamedComponent[] {
+  return toArray<NamedComponent>(schemaObj[kind]);
+}
+
+/**
+ * Locates a top-level component by its ID.
+ *
+ * @param schemaObj - The schema to search
+ * @param componentId - ID of a top-level element, attribute, type, group or
+ *   attribute group, e.g. "/complexType:Address"
+ * @returns The component and its kind, or an error message
+ */
+export function locateComponent(schemaObj: schema, componentId: string): ComponentLocation {
+  let parsed;
+  try {
+    parsed = parseSchemaId(componentId);
+  } catch (error) {
+    return { found: false, error: (error as Error).message };
+  }
+  if (parsed.parentId !== undefined || !isComponentKind(parsed.nodeType) || !parsed.name) {
+    return {
+      found: false,
+      error: `Not a top-level element, attribute, type, group or attribute group: ${componentId}`,
+    };
+  }
+
+  const kind = parsed.nodeType;
+  const component = componentsOf(schemaObj, kind).find((c) => c.name === parsed.name);
+  if (!component) {
+    return { found: false, error: `Component not found: ${componentId}` };
+  }
+  return { found: true, kind, component };
+}
+
+/**
+ * Removes a located top-level component from the schema.
+ *
+ * @param schemaObj - The schema object to mutate in place
+ * @param kind - Kind of the component
+ * @param component - The component, as returned by {@link locateComponent}
+ */
+export function removeComponent(
+  schemaObj: schema,
+  kind: ComponentKind,
+  component: NamedComponent
+): void {
+  const components = componentsOf(schemaObj, kind);
+  const index = components.indexOf(component);
+  if (index >= 0) {
+    components.splice(index, 1);
+  }
+  if (components.length === 0) {
+    schemaObj[kind] = undefined;
+  }
+}
+
+/**
+ * Returns true if a top-level component of the same symbol space already has
+ * a name. Simple and complex types share one symbol space.
+ *
+ * @param schemaObj - The schema to search
+ * @param kind - Kind of the component
+ * @param name - The name to look for
+ */
+export function isComponentNameTaken(
+  schemaObj: schema,
+  kind: ComponentKind,
+  name: string
+): boolean {
+  const kinds: ComponentKind[] =
+    REFERENCE_KINDS[kind] === "type" ? ["complexType", "simpleType"] : [kind];
+  return kinds.some((k) => componentsOf(schemaObj, k).some((c) => c.name === name));
+}
+
+/**
+ * Resolves a QName against the namespace prefixes declared on the schema.
+ *
+ * @param value - The QName, with or without prefix
+ * @param schemaObj - The schema declaring the prefixes
+ * @returns The namespace and local name of the QName
+ */
+export function resolveQName(value: string, schemaObj: schema): ResolvedQName {
+  const prefixes = schemaObj._namespacePrefixes ?? {};
+  const colon = value.indexOf(":");
+  if (colon < 0) {
+    return { namespace: prefixes[""] ?? schemaObj.targetNamespace ?? "", localName: value };
+  }
+  return { namespace: prefixes[value.substring(0, colon)], localName: value.substring(colon + 1) };
+}
+
+/**
+ * Returns the symbol space in which a component kind is referenced.
+ *
+ * @param kind - Kind of the component
+ */
+export function referenceKindOf(kind: ComponentKind): QNameReferenceKind {
+  return REFERENCE_KINDS[kind];
+}
+
+/**
+ * Returns true if a QName resolves to a name in the target namespace of the schema.
+ *
+ * @param value - The QName, with or without prefix
+ * @param name - Local name of the component
+ * @param schemaObj - The schema declaring the prefixes and target namespace
+ */
+export function isQNameOfComponent(value: string, name: string, schemaObj: schema): boolean {
+  const { namespace, localName } = resolveQName(value, schemaObj);
+  return localName === name && namespace === (schemaObj.targetNamespace ?? "");
+}
+
+/**
+ * Returns the QName that refers to a top-level component of the schema from
+ * within the schema.
+ *
+ * A prefix bound to the target namespace is used if there is one; a target
+ * namespace that is only the default namespace leaves the name unprefixed.
+ * Without any binding, `tns` (or `tns0`, `tns1`, … when taken) is bound to
+ * the target namespace. Names in a schema without target namespace stay
+ * unprefixed.
+ *
+ * @param schemaObj - The schema object; a prefix may be bound on it
+ * @param name - Local name of the component
+ * @returns The QName referring to the component
+ */
+export function qualifyComponentName(schemaObj: schema, name: string): string {
+  const targetNamespace = schemaObj.targetNamespace;
+  if (!targetNamespace) {
+    return name;
+  }
+  const prefixes = schemaObj._namespacePrefixes ?? {};
+  const bound = Object.keys(prefixes).find(
+    (prefix) => prefix !== "" && prefixes[prefix] === targetNamespace
+  );
+  if (bound) {
+    return `${bound}:${name}`;
+  }
+  if (prefixes[""] === targetNamespace) {
+    return name;
+  }
+
+  let prefix = "tns";
+  for (let i = 0; prefixes[prefix] !== undefined; i++) {
+    prefix = `tns${i}`;
+  }
+  schemaObj._namespacePrefixes = { ...prefixes, [prefix]: targetNamespace };
+  return `${prefix}:${name}`;
+}
+
+/**
+ * Rewrites every QName that refers to a top-level component so that it uses
+ * a new local name. The prefix of each QName is kept.
+ *
+ * @param schemaObj - The schema object to mutate in place
+ * @param kind - Kind of the renamed component
+ * @param oldName - Name of the component before the rename
+ * @param newName - Name of the component after the rename
+ */
+export function renameComponentReferences(
+  schemaObj: schema,
+  kind: ComponentKind,
+  oldName: string,
+  newName: string
+): void {
+  const referenceKind = REFERENCE_KINDS[kind];
+  rewriteQNamesInSchema((value, valueKind) => {
+    if (valueKind !== referenceKind || !isQNameOfComponent(value, oldName, schemaObj)) {
+      return value;
+    }
+    const colon = value.indexOf(":");
+    return colon < 0 ? newName : `${value.substring(0, colon + 1)}${newName}`;
+  }, schemaObj);
+}
+
+/**
+ * Copies a schema node and everything below it, keeping the class of each
+ * copied node, e.g. to copy a top-level component to where it is used.
+ *
+ * @param node - The node to copy
+ * @returns The copy
+ */
+export function copyNode<T>(node: T): T {
+  if (Array.isArray(node)) {
+    return node.map((item: unknown) => copyNode(item)) as T;
+  }
+  if (node === null || typeof node !== "object") {
+    return node;
+  }
+  const copy = Object.create(Object.getPrototypeOf(node) as object) as Record<string, unknown>;
+  for (const [key, value] of Object.entries(node)) {
+    copy[key] = copyNode(value);
+  }
+  return copy as T;
+}
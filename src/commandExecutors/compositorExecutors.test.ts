@@ -0,0 +1,186 @@
+/**
+ * Unit tests for compositor executors.
+ * Tests adding, removing and modifying sequences, choices and xs:all,
+ * including compositors nested in other compositors.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import {
+  schema,
+  AddCompositorCommand,
+  AddCompositorPayload,
+  RemoveCompositorCommand,
+  ModifyCompositorCommand,
+  ModifyCompositorPayload,
+  topLevelComplexType,
+} from "../../shared/types";
+import {
+  executeAddCompositor,
+  executeRemoveCompositor,
+  executeModifyCompositor,
+} from "./compositorExecutors";
+import { toArray } from "../../shared/schemaUtils";
+
+const PAYMENT_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:complexType name="PaymentType">
+    <xs:sequence>
+      <xs:element name="amount" type="xs:decimal"/>
+      <xs:choice minOccurs="0">
+        <xs:element name="iban" type="xs:string"/>
+        <xs:element name="card" type="xs:string" minOccurs="0"/>
+      </xs:choice>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:complexType name="EmptyType"/>
+  <xs:group name="AddressGroup">
+    <xs:sequence>
+      <xs:element name="street" type="xs:string"/>
+    </xs:sequence>
+  </xs:group>
+</xs:schema>`;
+
+const PAYMENT_SEQUENCE_ID = "/complexType:PaymentType/sequence";
+
+describe("Compositor Executors", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, PAYMENT_SCHEMA);
+  });
+
+  /** Returns the top-level complex type with the given name. */
+  function complexType(name: string): topLevelComplexType {
+    return toArray(schemaObj.complexType).find((type) => type.name === name)!;
+  }
+
+  /** Builds an addCompositor command. */
+  function addCommand(payload: AddCompositorPayload): AddCompositorCommand {
+    return { type: "addCompositor", payload };
+  }
+
+  /** Builds a modifyCompositor command. */
+  function modifyCommand(payload: ModifyCompositorPayload): ModifyCompositorCommand {
+    return { type: "modifyCompositor", payload };
+  }
+
+  describe("executeAddCompositor", () => {
+    it("should append a nested compositor with its occurrences", () => {
+      executeAddCompositor(
+        addCommand({ parentId: PAYMENT_SEQUENCE_ID, compositor: "choice", maxOccurs: "unbounded" }),
+        schemaObj
+      );
+
+      const choices = toArray(complexType("PaymentType").sequence?.choice);
+      expect(choices).toHaveLength(2);
+      expect(choices[1].maxOccurs).toBe("unbounded");
+    });
+
+    it("should nest compositors several levels deep", () => {
+      executeAddCompositor(
+        addCommand({ parentId: `${PAYMENT_SEQUENCE_ID}/choice[0]`, compositor: "sequence" }),
+        schemaObj
+      );
+
+      const choice = toArray(complexType("PaymentType").sequence?.choice)[0];
+      expect(toArray(choice.sequence)).toHaveLength(1);
+    });
+
+    it("should set xs:all as the content model of a complex type", () => {
+      executeAddCompositor(
+        addCommand({ parentId: "/complexType:EmptyType", compositor: "all", minOccurs: 0 }),
+        schemaObj
+      );
+
+      expect(complexType("EmptyType").all?.minOccurs).toBe("0");
+    });
+  });
+
+  describe("executeRemoveCompositor", () => {
+    it("should remove a nested compositor with its content", () => {
+      const command: RemoveCompositorCommand = {
+        type: "removeCompositor",
+        payload: { compositorId: `${PAYMENT_SEQUENCE_ID}/choice[0]` },
+      };
+
+      executeRemoveCompositor(command, schemaObj);
+
+      const sequence = complexType("PaymentType").sequence;
+      expect(sequence?.choice).toBeUndefined();
+      expect(toArray(sequence?.element).map((element) => element.name)).toEqual(["amount"]);
+    });
+
+    it("should remove the content model of a complex type", () => {
+      const command: RemoveCompositorCommand = {
+        type: "removeCompositor",
+        payload: { compositorId: PAYMENT_SEQUENCE_ID },
+      };
+
+      executeRemoveCompositor(command, schemaObj);
+
+      expect(complexType("PaymentType").sequence).toBeUndefined();
+    });
+  });
+
+  describe("executeModifyCompositor", () => {
+    it("should switch a nested choice to a sequence and keep its content", () => {
+      executeModifyCompositor(
+        modifyCommand({ compositorId: `${PAYMENT_SEQUENCE_ID}/choice[0]`, compositor: "sequence" }),
+        schemaObj
+      );
+
+      const sequence = complexType("PaymentType").sequence;
+      expect(sequence?.choice).toBeUndefined();
+      const nested = toArray(sequence?.sequence)[0];
+      expect(nested.minOccurs).toBe(0);
+      expect(toArray(nested.element).map((element) => element.name)).toEqual(["iban", "card"]);
+    });
+
+    it("should set the occurrences of a compositor", () => {
+      executeModifyCompositor(
+        modifyCommand({ compositorId: `${PAYMENT_SEQUENCE_ID}/choice[0]`, minOccurs: 1, maxOccurs: 3 }),
+        schemaObj
+      );
+
+      const choice = toArray(complexType("PaymentType").sequence?.choice)[0];
+      expect(choice.minOccurs).toBe(1);
+      expect(choice.maxOccurs).toBe(3);
+    });
+
+    it("should convert the elements when a content model becomes xs:all and back", () => {
+      executeModifyCompositor(
+        modifyCommand({ compositorId: "/complexType:PaymentType/sequence/choice[0]", compositor: "sequence" }),
+        schemaObj
+      );
+      executeRemoveCompositor(
+        { type: "removeCompositor", payload: { compositorId: "/complexType:PaymentType/sequence/sequence[0]" } },
+        schemaObj
+      );
+
+      executeModifyCompositor(
+        modifyCommand({ compositorId: PAYMENT_SEQUENCE_ID, compositor: "all" }),
+        schemaObj
+      );
+      expect(complexType("PaymentType").sequence).toBeUndefined();
+      expect(toArray(complexType("PaymentType").all?.element)[0].name).toBe("amount");
+
+      executeModifyCompositor(
+        modifyCommand({ compositorId: "/complexType:PaymentType/all", compositor: "choice" }),
+        schemaObj
+      );
+      expect(complexType("PaymentType").all).toBeUndefined();
+      expect(toArray(complexType("PaymentType").choice?.element)[0].name).toBe("amount");
+    });
+
+    it("should switch the compositor of a named group", () => {
+      executeModifyCompositor(
+        modifyCommand({ compositorId: "/group:AddressGroup/sequence", compositor: "all" }),
+        schemaObj
+      );
+
+      const group = toArray(schemaObj.group)[0];
+      expect(group.sequence).toBeUndefined();
+      expect(toArray(group.all?.element)[0].name).toBe("street");
+    });
+  });
+});
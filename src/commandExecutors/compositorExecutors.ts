@@ -0,0 +1,231 @@
+/**
+ * Executors for compositor commands.
+ * Implements add, remove, and modify operations for the sequence, choice and
+ * all compositors of complex types and named groups, and for sequences and
+ * choices nested in other compositors.
+ */
+
+import {
+  schema,
+  AddCompositorCommand,
+  RemoveCompositorCommand,
+  ModifyCompositorCommand,
+  ContentModel,
+  all,
+  allType,
+  explicitGroup,
+  simpleExplicitGroup,
+  localElement,
+  narrowMaxMin,
+} from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import {
+  Compositor,
+  getCompositorOccurrences,
+  locateCompositor,
+  locateCompositorHolder,
+} from "./compositorUtils";
+import { convertElement } from "./particleConversion";
+
+// ===== Helper functions =====
+
+/** Structural view of a complex type or named group as a holder of one compositor. */
+type ContentModelSlots = { sequence?: Compositor; choice?: Compositor; all?: Compositor };
+
+/** Structural view of the particles a compositor can contain. */
+type CompositorParticles = {
+  element?: (localElement | narrowMaxMin)[];
+  group?: explicitGroup["group"];
+  choice?: explicitGroup[];
+  sequence?: explicitGroup[];
+  any_?: explicitGroup["any_"];
+};
+
+/**
+ * Creates an empty compositor of the generated class matching its kind and
+ * holder: named groups use the variants without occurrence constraints.
+ */
+function createCompositor(kind: ContentModel, inNamedGroup: boolean): Compositor {
+  if (kind === "all") {
+    return inNamedGroup ? new allType() : new all();
+  }
+  return inNamedGroup ? new simpleExplicitGroup() : new explicitGroup();
+}
+
+/**
+ * Sets the occurrence constraints of a compositor; `undefined` leaves them
+ * unchanged. xs:all stores them as strings, sequences and choices as numbers.
+ */
+function setCompositorOccurrences(
+  compositor: Compositor,
+  kind: ContentModel,
+  minOccurs: number | undefined,
+  maxOccurs: number | "unbounded" | undefined
+): void {
+  if (kind === "all") {
+    const allGroup = compositor as all;
+    if (minOccurs !== undefined) {
+      allGroup.minOccurs = String(minOccurs);
+    }
+    if (maxOccurs !== undefined) {
+      allGroup.maxOccurs = String(maxOccurs);
+    }
+    return;
+  }
+  const group = compositor as explicitGroup;
+  if (minOccurs !== undefined) {
+    group.minOccurs = minOccurs;
+  }
+  if (maxOccurs !== undefined) {
+    group.maxOccurs = maxOccurs;
+  }
+}
+
+/**
+ * Builds a compositor of another kind that keeps the content, annotation and
+ * occurrence constraints of the given compositor.
+ */
+function convertCompositor(
+  source: Compositor,
+  sourceKind: ContentModel,
+  kind: ContentModel,
+  inNamedGroup: boolean
+): Compositor {
+  const target = createCompositor(kind, inNamedGroup);
+  target.id = source.id;
+  target.annotation = source.annotation;
+  target._anyAttributes = source._anyAttributes;
+
+  const from = source as CompositorParticles;
+  const to = target as CompositorParticles;
+  const elements = toArray(from.element);
+  if (elements.length > 0) {
+    to.element =
+      (sourceKind === "all") === (kind === "all")
+        ? elements
+        : elements.map((element) => convertElement(element, kind === "all"));
+  }
+  if (kind !== "all") {
+    to.group = from.group;
+    to.choice = from.choice;
+    to.sequence = from.sequence;
+    to.any_ = from.any_;
+  }
+
+  if (!inNamedGroup) {
+    const { minOccurs, maxOccurs } = getCompositorOccurrences(source);
+    setCompositorOccurrences(target, kind, minOccurs, maxOccurs);
+  }
+  return target;
+}
+
+// ===== Compositor Executors =====
+
+/**
+ * Executes an addCompositor command.
+ * Sets the content model compositor of a complex type or named group, or
+ * appends a sequence or choice to a compositor.
+ *
+ * @param command - The addCompositor command to execute
+ * @param schemaObj - The schema object to modify
+ * @throws Error if the parent cannot hold a compositor
+ */
+export function executeAddCompositor(command: AddCompositorCommand, schemaObj: schema): void {
+  const { parentId, compositor: kind, minOccurs, maxOccurs } = command.payload;
+
+  const location = locateCompositorHolder(schemaObj, parentId);
+  if (!location.found) {
+    throw new Error(location.error);
+  }
+
+  const compositor = createCompositor(kind, location.holderKind === "namedGroup");
+  if (location.holderKind !== "namedGroup") {
+    setCompositorOccurrences(compositor, kind, minOccurs, maxOccurs);
+  }
+
+  if (location.holderKind === "compositor") {
+    if (kind === "all") {
+      throw new Error("xs:all cannot be nested inside a sequence or choice");
+    }
+    location.holder[kind] = [...toArray(location.holder[kind]), compositor as explicitGroup];
+  } else {
+    (location.holder as ContentModelSlots)[kind] = compositor;
+  }
+}
+
+/**
+ * Executes a removeCompositor command.
+ * The compositor is removed together with its content.
+ *
+ * @param command - The removeCompositor command to execute
+ * @param schemaObj - The schema object to modify
+ * @throws Error if the compositor is not found
+ */
+export function executeRemoveCompositor(
+  command: RemoveCompositorCommand,
+  schemaObj: schema
+): void {
+  const location = locateCompositor(schemaObj, command.payload.compositorId);
+  if (!location.found) {
+    throw new Error(location.error);
+  }
+
+  if (location.holderKind === "compositor") {
+    const remaining = toArray(location.holder[location.kind]).filter(
+      (compositor) => compositor !== location.compositor
+    );
+    location.holder[location.kind] = remaining.length > 0 ? remaining : undefined;
+  } else {
+    (location.holder as ContentModelSlots)[location.kind] = undefined;
+  }
+}
+
+/**
+ * Executes a modifyCompositor command.
+ * Switching the kind of a compositor keeps its content. A nested compositor
+ * that changes its kind moves to the end of the compositors of its new kind,
+ * since the generated classes keep one array per kind.
+ *
+ * @param command - The modifyCompositor command to execute
+ * @param schemaObj - The schema object to modify
+ * @throws Error if the compositor is not found
+ */
+export function executeModifyCompositor(
+  command: ModifyCompositorCommand,
+  schemaObj: schema
+): void {
+  const { compositorId, compositor: newKind, minOccurs, maxOccurs } = command.payload;
+
+  const location = locateCompositor(schemaObj, compositorId);
+  if (!location.found) {
+    throw new Error(location.error);
+  }
+
+  const inNamedGroup = location.holderKind === "namedGroup";
+  let compositor = location.compositor;
+  const kind = newKind ?? location.kind;
+  if (kind !== location.kind) {
+    compositor = convertCompositor(compositor, location.kind, kind, inNamedGroup);
+  }
+  if (!inNamedGroup) {
+    setCompositorOccurrences(compositor, kind, minOccurs, maxOccurs);
+  }
+  if (compositor === location.compositor) {
+    return;
+  }
+
+  if (location.holderKind === "compositor") {
+    if (kind === "all") {
+      throw new Error("xs:all cannot be nested inside a sequence or choice");
+    }
+    const remaining = toArray(location.holder[location.kind]).filter(
+      (nested) => nested !== location.compositor
+    );
+    location.holder[location.kind] = remaining.length > 0 ? remaining : undefined;
+    location.holder[kind] = [...toArray(location.holder[kind]), compositor as explicitGroup];
+  } else {
+    const slots = location.holder as ContentModelSlots;
+    slots[location.kind] = undefined;
+    slots[kind] = compositor;
+  }
+}
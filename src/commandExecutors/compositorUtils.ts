@@ -0,0 +1,211 @@
+/**
+ * Shared compositor helpers for the compositor executors and validators:
+ * resolving the holder of a new compositor, locating a compositor by ID and
+ * reading its occurrence constraints.
+ *
+ * A complex type or named group holds at most one compositor, which defines
+ * its content model, e.g. `/complexType:X/sequence[0]`. A sequence or choice
+ * holds any number of nested sequences and choices; the generated classes
+ * keep them in one array per kind, so a nested compositor is addressed by its
+ * position among the compositors of the same kind, e.g.
+ * `/complexType:X/sequence[0]/choice[1]`.
+ */
+
+import {
+  schema,
+  ContentModel,
+  all,
+  allType,
+  explicitGroup,
+  simpleExplicitGroup,
+  topLevelComplexType,
+  localComplexType,
+  namedGroup,
+} from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import { parseSchemaId } from "../../shared/idStrategy";
+import { locateNodeById } from "../schemaNavigator";
+
+/** Kinds of compositor. */
+export const COMPOSITOR_KINDS: readonly ContentModel[] = ["sequence", "choice", "all"];
+
+/** Any compositor object. */
+export type Compositor = explicitGroup | simpleExplicitGroup | all | allType;
+
+/** Component whose content model is defined by a single compositor. */
+export type ContentModelHolder = topLevelComplexType | localComplexType | namedGroup;
+
+/** Compositor that can contain nested sequences and choices. */
+export type NestingCompositor = explicitGroup | simpleExplicitGroup;
+
+/** Result of resolving the component that receives a new compositor. */
+export type CompositorHolderLocation =
+  | { found: true; holderKind: "complexType" | "namedGroup"; holder: ContentModelHolder }
+  | { found: true; holderKind: "compositor"; holder: NestingCompositor }
+  | { found: false; error: string };
+
+/** Result of locating a compositor by ID. */
+export type CompositorLocation =
+  | {
+      found: true;
+      kind: ContentModel;
+      compositor: Compositor;
+      holderKind: "complexType" | "namedGroup";
+      holder: ContentModelHolder;
+    }
+  | {
+      found: true;
+      kind: "sequence" | "choice";
+      compositor: explicitGroup;
+      holderKind: "compositor";
+      holder: NestingCompositor;
+      /** Position among the compositors of the same kind in the holder */
+      position: number;
+    }
+  | { found: false; error: string };
+
+/**
+ * Returns true if a value names a kind of compositor.
+ */
+export function isCompositorKind(value: string | undefined): value is ContentModel {
+  return (COMPOSITOR_KINDS as readonly (string | undefined)[]).includes(value);
+}
+
+/**
+ * Resolves the component that receives a new compositor: a complex type or
+ * named group, or a sequence or choice to nest the compositor in.
+ *
+ * @param schemaObj - The schema to search
+ * @param parentId - ID of the parent node
+ * @returns The receiving component, or an error message
+ */
+export function locateCompositorHolder(
+  schemaObj: schema,
+  parentId: string
+): CompositorHolderLocation {
+  const location = locateNodeById(schemaObj, parentId);
+  if (!location.found) {
+    return { found: false, error: `Parent node not found: ${parentId}` };
+  }
+  const parentType = location.parentType ?? "";
+
+  if (parentType === "topLevelComplexType" || parentType === "localComplexType") {
+    return { found: true, holderKind: "complexType", holder: location.parent as ContentModelHolder };
+  }
+  if (parentType === "namedGroup") {
+    return { found: true, holderKind: "namedGroup", holder: location.parent as namedGroup };
+  }
+  if (parentType === "sequence" || parentType === "choice") {
+    return { found: true, holderKind: "compositor", holder: location.parent as NestingCompositor };
+  }
+  if (parentType === "all") {
+    return { found: false, error: "An xs:all can only contain elements, not other compositors" };
+  }
+  return {
+    found: false,
+    error: `Compositors can only be added to complex types, groups, sequences or choices, not to: ${parentType}`,
+  };
+}
+
+/**
+ * Locates a compositor by its ID.
+ *
+ * @param schemaObj - The schema to search
+ * @param compositorId - ID such as `/complexType:X/sequence[0]/choice[1]`
+ * @returns The compositor with the component holding it, or an error message
+ */
+export function locateCompositor(schemaObj: schema, compositorId: string): CompositorLocation {
+  let parentId;
+  try {
+    parentId = parseSchemaId(compositorId).parentId;
+  } catch (error) {
+    return { found: false, error: (error as Error).message };
+  }
+
+  const location = locateNodeById(schemaObj, compositorId);
+  if (!location.found) {
+    return { found: false, error: `Compositor not found: ${compositorId}` };
+  }
+  const kind = location.parentType;
+  if (!isCompositorKind(kind) || !parentId) {
+    return { found: false, error: `Not a compositor ID: ${compositorId}` };
+  }
+
+  const holderLocation = locateCompositorHolder(schemaObj, parentId);
+  if (!holderLocation.found) {
+    return holderLocation;
+  }
+
+  if (holderLocation.holderKind === "compositor") {
+    const compositor = location.parent as explicitGroup;
+    const nestedKind = kind === "choice" ? "choice" : "sequence";
+    const position = toArray(holderLocation.holder[nestedKind]).indexOf(compositor);
+    return {
+      found: true,
+      kind: nestedKind,
+      compositor,
+      holderKind: "compositor",
+      holder: holderLocation.holder,
+      position,
+    };
+  }
+  return {
+    found: true,
+    kind,
+    compositor: location.parent as Compositor,
+    holderKind: holderLocation.holderKind,
+    holder: holderLocation.holder,
+  };
+}
+
+/**
+ * Returns true if a complex type or named group already defines its content
+ * model, directly or through a group reference or a simple or complex content.
+ */
+export function hasContentModel(holder: ContentModelHolder): boolean {
+  const complexType = holder as Partial<topLevelComplexType>;
+  return Boolean(
+    holder.sequence ||
+      holder.choice ||
+      holder.all ||
+      complexType.group ||
+      complexType.complexContent ||
+      complexType.simpleContent
+  );
+}
+
+/**
+ * Reads the occurrence constraints of a compositor. The generated classes
+ * store them as numbers on sequences and choices and as strings on `xs:all`;
+ * the compositor of a named group has none.
+ *
+ * @param compositor - The compositor
+ * @returns minOccurs as a number and maxOccurs as a number or "unbounded", if set
+ */
+export function getCompositorOccurrences(compositor: Compositor): {
+  minOccurs?: number;
+  maxOccurs?: number | "unbounded";
+} {
+  return getParticleOccurrences(
+    compositor as { minOccurs?: number | string; maxOccurs?: number | string }
+  );
+}
+
+/**
+ * Reads the occurrence constraints of a particle whose constraints may be
+ * stored as numbers or strings, such as the elements of an `xs:all`.
+ *
+ * @param particle - The particle
+ * @returns minOccurs as a number and maxOccurs as a number or "unbounded", if set
+ */
+export function getParticleOccurrences(particle: {
+  minOccurs?: number | string;
+  maxOccurs?: number | string;
+}): { minOccurs?: number; maxOccurs?: number | "unbounded" } {
+  const { minOccurs, maxOccurs } = particle;
+  return {
+    minOccurs: minOccurs !== undefined ? Number(minOccurs) : undefined,
+    maxOccurs:
+      maxOccurs === undefined || maxOccurs === "unbounded" ? maxOccurs : Number(maxOccurs),
+  };
+}
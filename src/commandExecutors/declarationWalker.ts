@@ -0,0 +1,162 @@
+/**
+ * Collection of the element and attribute declarations of a schema, wherever
+ * they are declared: at the top level, in the content and derivations of
+ * complex types, in named groups and attribute groups, and in the anonymous
+ * types of other declarations at any depth. The sequences and choices holding
+ * the element declarations are collected along the way.
+ */
+
+import {
+  schema,
+  topLevelComplexType,
+  localComplexType,
+  topLevelElement,
+  localElement,
+  narrowMaxMin,
+  attribute,
+  topLevelAttribute,
+  explicitGroup,
+  simpleExplicitGroup,
+  extensionType,
+  complexRestrictionType,
+  simpleExtensionType,
+  simpleRestrictionType,
+  namedGroup,
+  namedAttributeGroup,
+} from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+
+/** Any element declaration. */
+export type ElementDeclaration = topLevelElement | localElement | narrowMaxMin;
+
+/** Any attribute declaration. */
+export type AttributeDeclaration = topLevelAttribute | attribute;
+
+/** A sequence or choice of a content model. */
+export interface CompositorDeclaration {
+  kind: "sequence" | "choice";
+  compositor: explicitGroup | simpleExplicitGroup;
+}
+
+/** The element and attribute declarations of a schema, and its sequences and choices. */
+export interface SchemaDeclarations {
+  elements: ElementDeclaration[];
+  attributes: AttributeDeclaration[];
+  compositors: CompositorDeclaration[];
+}
+
+/** Node types `locateNodeById` reports for element declarations. */
+export const ELEMENT_PARENT_TYPES: ReadonlyArray<string> = ["topLevelElement", "localElement"];
+
+/** Node types `locateNodeById` reports for attribute declarations. */
+export const ATTRIBUTE_PARENT_TYPES: ReadonlyArray<string> = ["topLevelAttribute", "attribute"];
+
+/** Any node holding attributes. */
+type AttributeHolder =
+  | topLevelComplexType
+  | localComplexType
+  | extensionType
+  | complexRestrictionType
+  | simpleExtensionType
+  | simpleRestrictionType
+  | namedAttributeGroup;
+
+/** Any node holding a content model. */
+type ContentModelHolder =
+  topLevelComplexType | localComplexType | extensionType | complexRestrictionType | namedGroup;
+
+/**
+ * Collects an element declaration and the declarations in its anonymous type.
+ */
+function visitElement(found: SchemaDeclarations, el: ElementDeclaration): void {
+  found.elements.push(el);
+  if (el.complexType) {
+    visitComplexType(found, el.complexType);
+  }
+}
+
+/**
+ * Collects the attribute declarations of a node.
+ */
+function visitAttributes(found: SchemaDeclarations, holder: AttributeHolder): void {
+  found.attributes.push(...toArray(holder.attribute));
+}
+
+/**
+ * Collects a sequence or choice with its element declarations and the
+ * compositors nested in it.
+ */
+function visitParticles(found: SchemaDeclarations, declaration: CompositorDeclaration): void {
+  const { compositor } = declaration;
+  found.compositors.push(declaration);
+  for (const el of toArray(compositor.element)) {
+    visitElement(found, el);
+  }
+  for (const nested of toArray(compositor.choice)) {
+    visitParticles(found, { kind: "choice", compositor: nested });
+  }
+  for (const nested of toArray(compositor.sequence)) {
+    visitParticles(found, { kind: "sequence", compositor: nested });
+  }
+}
+
+/**
+ * Collects the element declarations of a content model.
+ */
+function visitContent(found: SchemaDeclarations, holder: ContentModelHolder): void {
+  if (holder.sequence) {
+    visitParticles(found, { kind: "sequence", compositor: holder.sequence });
+  }
+  if (holder.choice) {
+    visitParticles(found, { kind: "choice", compositor: holder.choice });
+  }
+  for (const el of toArray(holder.all?.element)) {
+    visitElement(found, el);
+  }
+}
+
+/**
+ * Collects the declarations of a complex type, including those of its
+ * simple or complex content derivation.
+ */
+function visitComplexType(
+  found: SchemaDeclarations,
+  ct: topLevelComplexType | localComplexType
+): void {
+  for (const derivation of [ct.simpleContent?.restriction, ct.simpleContent?.extension]) {
+    if (derivation) visitAttributes(found, derivation);
+  }
+  for (const derivation of [ct.complexContent?.restriction, ct.complexContent?.extension]) {
+    if (derivation) {
+      visitContent(found, derivation);
+      visitAttributes(found, derivation);
+    }
+  }
+  visitContent(found, ct);
+  visitAttributes(found, ct);
+}
+
+/**
+ * Collects every element and attribute declaration of a schema, and every
+ * sequence and choice.
+ *
+ * @param schemaObj - The schema to search
+ * @returns The declarations, in document order per kind
+ */
+export function collectDeclarations(schemaObj: schema): SchemaDeclarations {
+  const found: SchemaDeclarations = { elements: [], attributes: [], compositors: [] };
+  for (const el of toArray(schemaObj.element)) {
+    visitElement(found, el);
+  }
+  found.attributes.push(...toArray(schemaObj.attribute));
+  for (const ct of toArray(schemaObj.complexType)) {
+    visitComplexType(found, ct);
+  }
+  for (const grp of toArray(schemaObj.group)) {
+    visitContent(found, grp);
+  }
+  for (const attributeGroup of toArray(schemaObj.attributeGroup)) {
+    visitAttributes(found, attributeGroup);
+  }
+  return found;
+}
@@ -0,0 +1,385 @@
+/**
+ * Removal of the dependants of a deleted component, for the cascading safe
+ * delete. A dependant is the smallest construct that cannot be kept without
+ * the QName referring to the component:
+ *
+ * - an element or attribute declaration whose type, ref or substitution group
+ *   refers to it, or a group or attribute group reference to it
+ * - a simple or complex type whose derivation base or list item type refers
+ *   to it; anonymous types are removed from the element or attribute that
+ *   declares them, leaving it untyped
+ * - a union member type referring to it; a union left without members makes
+ *   its simple type a dependant
+ * - a keyref referring to a key or unique constraint of a removed element
+ *
+ * Dependants that are top-level components are deleted with their own
+ * dependants in turn, until no QName refers to a removed component.
+ */
+
+import {
+  schema,
+  topLevelComplexType,
+  localComplexType,
+  topLevelSimpleType,
+  localSimpleType,
+  topLevelElement,
+  localElement,
+  narrowMaxMin,
+  attribute,
+  topLevelAttribute,
+  explicitGroup,
+  simpleExplicitGroup,
+  extensionType,
+  complexRestrictionType,
+  simpleExtensionType,
+  simpleRestrictionType,
+  namedGroup,
+  namedAttributeGroup,
+} from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import { QNameReferenceKind } from "./schemaQNameTraversal";
+import {
+  ComponentKind,
+  isQNameOfComponent,
+  NamedComponent,
+  referenceKindOf,
+  removeComponent,
+} from "./componentReferences";
+
+/** A removed component, as QNames refer to it. */
+export interface RemovedComponent {
+  kind: QNameReferenceKind;
+  name: string;
+}
+
+/**
+ * State of one pass over the schema: the components whose dependants are
+ * removed, and the components removed along with them.
+ */
+interface RemovalPass {
+  /** Returns true if a QName refers to one of the removed components */
+  refersTo: (value: string | undefined, kind: QNameReferenceKind) => boolean;
+  /** Top-level components and identity constraints removed in this pass */
+  removed: RemovedComponent[];
+}
+
+/** Any element declaration. */
+type ElementLike = topLevelElement | localElement | narrowMaxMin;
+
+/** Any node holding attributes and attribute group references. */
+type AttributeHolder =
+  | topLevelComplexType
+  | localComplexType
+  | extensionType
+  | complexRestrictionType
+  | simpleExtensionType
+  | simpleRestrictionType
+  | namedAttributeGroup;
+
+/** Any node holding a content model. */
+type ContentModelHolder =
+  | topLevelComplexType
+  | localComplexType
+  | extensionType
+  | complexRestrictionType
+  | namedGroup;
+
+/**
+ * Removes the dependants from a list. The list is returned unchanged if
+ * nothing depends on the removed components, and as undefined if it is left empty.
+ */
+function withoutDependants<T>(
+  items: T[] | undefined,
+  isDependant: (item: T) => boolean
+): T[] | undefined {
+  const all = toArray(items);
+  const kept = all.filter((item) => !isDependant(item));
+  if (kept.length === all.length) {
+    return items;
+  }
+  return kept.length > 0 ? kept : undefined;
+}
+
+/**
+ * Returns the key and unique constraints of a removed element, so that the
+ * keyrefs referring to them are removed as well.
+ */
+function identityConstraintsOf(el: ElementLike): RemovedComponent[] {
+  return [...toArray(el.key), ...toArray(el.unique)].map((constraint) => ({
+    kind: "identityConstraint",
+    name: constraint.name,
+  }));
+}
+
+// ===== Schema walk =====
+
+/**
+ * Returns true if a simple type depends on a removed component. Union
+ * members that do are removed from the union.
+ */
+function isDependantSimpleType(
+  pass: RemovalPass,
+  st: topLevelSimpleType | localSimpleType
+): boolean {
+  const { restriction, list, union } = st;
+  if (restriction) {
+    if (pass.refersTo(restriction.base, "type")) return true;
+    if (restriction.simpleType && isDependantSimpleType(pass, restriction.simpleType)) return true;
+  }
+  if (list) {
+    if (pass.refersTo(list.itemType, "type")) return true;
+    if (list.simpleType && isDependantSimpleType(pass, list.simpleType)) return true;
+  }
+  if (union) {
+    const memberTypes = (union.memberTypes ?? "").split(/\s+/).filter(Boolean);
+    const keptTypes = memberTypes.filter((memberType) => !pass.refersTo(memberType, "type"));
+    if (keptTypes.length < memberTypes.length) {
+      union.memberTypes = keptTypes.length > 0 ? keptTypes.join(" ") : undefined;
+    }
+    union.simpleType = withoutDependants(union.simpleType, (member) =>
+      isDependantSimpleType(pass, member)
+    );
+    if (!union.memberTypes && !union.simpleType) return true;
+  }
+  return false;
+}
+
+/**
+ * Returns true if the type of an element depends on a removed component.
+ * Dependant anonymous types and keyrefs are removed from the element.
+ */
+function isDependantElementBody(pass: RemovalPass, el: ElementLike): boolean {
+  if (pass.refersTo(el.type_, "type")) {
+    return true;
+  }
+  if (el.simpleType && isDependantSimpleType(pass, el.simpleType)) {
+    el.simpleType = undefined;
+  }
+  if (el.complexType && isDependantComplexType(pass, el.complexType)) {
+    el.complexType = undefined;
+  }
+  el.keyref = withoutDependants(el.keyref, (keyref) =>
+    pass.refersTo(keyref.refer, "identityConstraint")
+  );
+  return false;
+}
+
+/**
+ * Returns true if a local element depends on a removed component.
+ */
+function isDependantLocalElement(pass: RemovalPass, el: localElement | narrowMaxMin): boolean {
+  if (pass.refersTo(el.ref, "element") || isDependantElementBody(pass, el)) {
+    pass.removed.push(...identityConstraintsOf(el));
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Returns true if an attribute declaration depends on a removed component.
+ * A dependant anonymous type is removed from the attribute.
+ */
+function isDependantAttribute(pass: RemovalPass, attr: attribute | topLevelAttribute): boolean {
+  if (
+    pass.refersTo(attr.type_, "type") ||
+    ("ref" in attr && pass.refersTo(attr.ref, "attribute"))
+  ) {
+    return true;
+  }
+  if (attr.simpleType && isDependantSimpleType(pass, attr.simpleType)) {
+    attr.simpleType = undefined;
+  }
+  return false;
+}
+
+/**
+ * Removes the dependant attributes and attribute group references of a node.
+ */
+function removeDependantAttributes(pass: RemovalPass, holder: AttributeHolder): void {
+  holder.attribute = withoutDependants(holder.attribute, (attr) =>
+    isDependantAttribute(pass, attr)
+  );
+  holder.attributeGroup = withoutDependants(holder.attributeGroup, (attributeGroup) =>
+    pass.refersTo(attributeGroup.ref, "attributeGroup")
+  );
+}
+
+/**
+ * Removes the dependant particles of a sequence or choice and of the
+ * compositors nested in it.
+ */
+function removeDependantParticles(
+  pass: RemovalPass,
+  compositor: explicitGroup | simpleExplicitGroup
+): void {
+  compositor.element = withoutDependants(compositor.element, (el) =>
+    isDependantLocalElement(pass, el)
+  );
+  compositor.group = withoutDependants(compositor.group, (groupRef) =>
+    pass.refersTo(groupRef.ref, "group")
+  );
+  for (const nested of [...toArray(compositor.choice), ...toArray(compositor.sequence)]) {
+    removeDependantParticles(pass, nested);
+  }
+}
+
+/**
+ * Removes the dependant group reference or particles of a content model.
+ */
+function removeDependantContent(pass: RemovalPass, holder: ContentModelHolder): void {
+  if ("group" in holder && holder.group && pass.refersTo(holder.group.ref, "group")) {
+    holder.group = undefined;
+  }
+  if (holder.sequence) {
+    removeDependantParticles(pass, holder.sequence);
+  }
+  if (holder.choice) {
+    removeDependantParticles(pass, holder.choice);
+  }
+  if (holder.all) {
+    holder.all.element = withoutDependants(holder.all.element, (el) =>
+      isDependantLocalElement(pass, el)
+    );
+  }
+}
+
+/**
+ * Returns true if a complex type derives from a removed component. Dependant
+ * content and attributes are removed from the type.
+ */
+function isDependantComplexType(
+  pass: RemovalPass,
+  ct: topLevelComplexType | localComplexType
+): boolean {
+  const simpleContent = ct.simpleContent;
+  const complexContent = ct.complexContent;
+  const simpleDerivations = [simpleContent?.restriction, simpleContent?.extension];
+  const complexDerivations = [complexContent?.restriction, complexContent?.extension];
+  if (
+    [...simpleDerivations, ...complexDerivations].some(
+      (derivation) => derivation && pass.refersTo(derivation.base, "type")
+    )
+  ) {
+    return true;
+  }
+  const restrictedType = simpleContent?.restriction?.simpleType;
+  if (restrictedType && isDependantSimpleType(pass, restrictedType)) {
+    return true;
+  }
+
+  for (const derivation of simpleDerivations) {
+    if (derivation) removeDependantAttributes(pass, derivation);
+  }
+  for (const derivation of complexDerivations) {
+    if (derivation) {
+      removeDependantContent(pass, derivation);
+      removeDependantAttributes(pass, derivation);
+    }
+  }
+  removeDependantContent(pass, ct);
+  removeDependantAttributes(pass, ct);
+  return false;
+}
+
+/**
+ * Removes the dependants of the removed components from the whole schema,
+ * recording the top-level components removed as dependants.
+ */
+function removeDependantsFromSchema(pass: RemovalPass, schemaObj: schema): void {
+  /** Records a removed top-level component if it depends on a removed one. */
+  const record = (
+    kind: QNameReferenceKind,
+    name: string | undefined,
+    dependant: boolean
+  ): boolean => {
+    if (dependant) {
+      pass.removed.push({ kind, name: name ?? "" });
+    }
+    return dependant;
+  };
+
+  schemaObj.element = withoutDependants(schemaObj.element, (el) => {
+    const dependant =
+      pass.refersTo(el.substitutionGroup, "element") || isDependantElementBody(pass, el);
+    if (dependant) pass.removed.push(...identityConstraintsOf(el));
+    return record("element", el.name, dependant);
+  });
+  schemaObj.attribute = withoutDependants(schemaObj.attribute, (attr) =>
+    record("attribute", attr.name, isDependantAttribute(pass, attr))
+  );
+  schemaObj.complexType = withoutDependants(schemaObj.complexType, (ct) =>
+    record("type", ct.name, isDependantComplexType(pass, ct))
+  );
+  schemaObj.simpleType = withoutDependants(schemaObj.simpleType, (st) =>
+    record("type", st.name, isDependantSimpleType(pass, st))
+  );
+  for (const grp of toArray(schemaObj.group)) {
+    removeDependantContent(pass, grp);
+  }
+  for (const attributeGroup of toArray(schemaObj.attributeGroup)) {
+    removeDependantAttributes(pass, attributeGroup);
+  }
+}
+
+// ===== Public API =====
+
+/**
+ * Removes everything that depends on a deleted top-level component, and
+ * everything that depends on the top-level components removed with it.
+ *
+ * @param schemaObj - The schema object to mutate in place; the component
+ *   itself must already be removed from it
+ * @param kind - Symbol space of the deleted component
+ * @param name - Local name of the deleted component
+ * @param element - The deleted component if it is an element, whose key and
+ *   unique constraints are deleted with it
+ * @returns Every component removed, the deleted component first
+ */
+export function removeDependants(
+  schemaObj: schema,
+  kind: QNameReferenceKind,
+  name: string,
+  element?: topLevelElement
+): RemovedComponent[] {
+  let removed: RemovedComponent[] = [
+    { kind, name },
+    ...(element ? identityConstraintsOf(element) : []),
+  ];
+  const allRemoved = [...removed];
+
+  while (removed.length > 0) {
+    const components = removed;
+    const pass: RemovalPass = {
+      refersTo: (value, valueKind) =>
+        !!value &&
+        components.some(
+          (component) =>
+            component.kind === valueKind && isQNameOfComponent(value, component.name, schemaObj)
+        ),
+      removed: [],
+    };
+    removeDependantsFromSchema(pass, schemaObj);
+    removed = pass.removed;
+    allRemoved.push(...removed);
+  }
+  return allRemoved;
+}
+
+/**
+ * Deletes a top-level component together with everything that depends on it.
+ *
+ * @param schemaObj - The schema object to mutate in place
+ * @param kind - Kind of the component
+ * @param component - The component to delete
+ * @returns Every component removed, the deleted component first
+ */
+export function deleteWithDependants(
+  schemaObj: schema,
+  kind: ComponentKind,
+  component: NamedComponent
+): RemovedComponent[] {
+  const element =
+    kind === "element" ? toArray(schemaObj.element).find((el) => el === component) : undefined;
+  removeComponent(schemaObj, kind, component);
+  return removeDependants(schemaObj, referenceKindOf(kind), component.name ?? "", element);
+}
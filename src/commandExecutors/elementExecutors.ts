@@ -8,6 +8,7 @@ import {
   AddElementCommand,
   RemoveElementCommand,
   ModifyElementCommand,
+  ElementProperties,
   topLevelElement,
   localElement,
   narrowMaxMin,
@@ -19,6 +20,7 @@ import {
 import { toArray } from "../../shared/schemaUtils";
 import { locateNodeById } from "../schemaNavigator";
 import { parseSchemaId } from "../../shared/idStrategy";
+import { applyElementProperties, clearElementProperties } from "./elementPropertyUtils";
 
 /**
  * Executes an addElement command.
@@ -48,6 +50,9 @@ export function executeAddElement(
     location.parentType === "schema",
     location.parentType === "all"
   );
+  if (ref === undefined) {
+    applyElementProperties(newElement, command.payload);
+  }
 
   // Add the element to the appropriate parent
   addElementToParent(location.parent, location.parentType ?? "", newElement);
@@ -109,7 +114,8 @@ export function executeModifyElement(
     ref,
     minOccurs,
     maxOccurs,
-    documentation
+    documentation,
+    command.payload
   );
 }
 
@@ -128,7 +134,7 @@ export function executeModifyElement(
  * @param isInAllGroup - Whether this element is in an 'all' group
  * @returns New element instance
  */
-function createNewElement(
+export function createNewElement(
   name: string | undefined,
   type: string | undefined,
   ref: string | undefined,
@@ -307,6 +313,7 @@ function filterElement<T extends { name?: string; ref?: string }>(
  * @param newMinOccurs - New minimum occurrences (optional)
  * @param newMaxOccurs - New maximum occurrences (optional)
  * @param newDocumentation - New documentation (optional)
+ * @param properties - New declaration properties; those left out are kept
  * @throws Error if element not found
  */
 function modifyElementInParent(
@@ -319,7 +326,8 @@ function modifyElementInParent(
   newRef?: string,
   newMinOccurs?: number,
   newMaxOccurs?: number | "unbounded",
-  newDocumentation?: string
+  newDocumentation?: string,
+  properties: ElementProperties = {}
 ): void {
   if (parentType === "schema") {
     const schemaObj = parent as schema;
@@ -334,6 +342,7 @@ function modifyElementInParent(
       undefined, // top-level elements don't have occurrences
       undefined,
       newDocumentation,
+      properties,
       false
     );
   } else if (
@@ -352,6 +361,7 @@ function modifyElementInParent(
       newMinOccurs,
       newMaxOccurs,
       newDocumentation,
+      properties,
       false
     );
   } else if (parentType === "all") {
@@ -367,6 +377,7 @@ function modifyElementInParent(
       newMinOccurs,
       newMaxOccurs,
       newDocumentation,
+      properties,
       true
     );
   }
@@ -397,7 +408,8 @@ function findElement<T extends { name?: string; ref?: string }>(
 
 /**
  * Updates element properties based on provided values.
- * When `newRef` is set, clears `name` and `type_`. When `newName` is set, clears `ref`.
+ * When `newRef` is set, clears `name`, `type_` and the declaration properties.
+ * When `newName` is set, clears `ref`.
  *
  * @param element - Element to update
  * @param newName - New name (optional). When set, clears ref.
@@ -406,6 +418,7 @@ function findElement<T extends { name?: string; ref?: string }>(
  * @param newMinOccurs - New minimum occurrences (optional)
  * @param newMaxOccurs - New maximum occurrences (optional)
  * @param newDocumentation - New documentation (optional)
+ * @param properties - New declaration properties (optional)
  * @param isInAllGroup - Whether this element is in an 'all' group
  */
 function updateElementProperties(
@@ -416,13 +429,15 @@ function updateElementProperties(
   newMinOccurs?: number,
   newMaxOccurs?: number | "unbounded",
   newDocumentation?: string,
+  properties: ElementProperties = {},
   isInAllGroup: boolean = false
 ): void {
   if (newRef !== undefined) {
-    // Switching to a reference: clear name and type
+    // Switching to a reference: clear name, type and declaration properties
     (element as localElement).ref = newRef;
     element.name = undefined;
     element.type_ = undefined;
+    clearElementProperties(element);
   } else {
     // Update name (clearing ref when switching to named)
     if (newName !== undefined) {
@@ -432,6 +447,7 @@ function updateElementProperties(
     if (newType !== undefined) {
       element.type_ = newType;
     }
+    applyElementProperties(element, properties);
   }
 
   // Update occurrences if provided (only for local elements and narrowMaxMin)
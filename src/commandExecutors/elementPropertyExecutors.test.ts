@@ -0,0 +1,143 @@
+/**
+ * Unit tests for element declaration properties in the element executors.
+ * Tests setting, keeping and removing nillable, abstract, substitutionGroup,
+ * default, fixed, block, final and form.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import {
+  schema,
+  AddElementCommand,
+  ModifyElementCommand,
+  ModifyElementPayload,
+  localElement,
+  topLevelElement,
+} from "../../shared/types";
+import { executeAddElement, executeModifyElement } from "./elementExecutors";
+import { toArray } from "../../shared/schemaUtils";
+
+const SCHEMA_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:vehicles" targetNamespace="urn:vehicles">
+  <xs:element name="vehicle" type="xs:string" abstract="true"/>
+  <xs:element name="car" type="xs:string" substitutionGroup="tns:vehicle" fixed="sedan" nillable="true"/>
+  <xs:complexType name="GarageType">
+    <xs:sequence>
+      <xs:element name="slots" type="xs:int" default="1" form="qualified"/>
+    </xs:sequence>
+  </xs:complexType>
+</xs:schema>`;
+
+const SEQUENCE_ID = "/complexType:GarageType/sequence";
+
+describe("Element Property Executors", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, SCHEMA_XML);
+  });
+
+  /** Returns the top-level element with the given name. */
+  function topLevel(name: string): topLevelElement {
+    return toArray(schemaObj.element).find((element) => element.name === name)!;
+  }
+
+  /** Returns the local elements of the GarageType sequence. */
+  function sequenceElements(): localElement[] {
+    return toArray(toArray(schemaObj.complexType)[0].sequence!.element);
+  }
+
+  /** Builds a modifyElement command. */
+  function modifyCommand(payload: ModifyElementPayload): ModifyElementCommand {
+    return { type: "modifyElement", payload };
+  }
+
+  describe("executeAddElement", () => {
+    it("should set the declaration properties of a top-level element", () => {
+      const command: AddElementCommand = {
+        type: "addElement",
+        payload: {
+          parentId: "schema",
+          elementName: "truck",
+          elementType: "xs:string",
+          nillable: true,
+          substitutionGroup: " tns:vehicle ",
+          defaultValue: "lorry",
+          block: " extension   substitution ",
+          final: "#all",
+          fixedValue: "",
+        },
+      };
+
+      executeAddElement(command, schemaObj);
+
+      const truck = topLevel("truck");
+      expect(truck.nillable).toBe(true);
+      expect(truck.substitutionGroup).toBe("tns:vehicle");
+      expect(truck.default_).toBe("lorry");
+      expect(truck.fixed).toBeUndefined();
+      expect(truck.block).toBe("extension substitution");
+      expect(truck.final).toBe("#all");
+    });
+
+    it("should set the form of a local element", () => {
+      const command: AddElementCommand = {
+        type: "addElement",
+        payload: { parentId: SEQUENCE_ID, elementName: "owner", elementType: "xs:string", form: "unqualified" },
+      };
+
+      executeAddElement(command, schemaObj);
+
+      expect(sequenceElements().find((element) => element.name === "owner")?.form).toBe("unqualified");
+    });
+  });
+
+  describe("executeModifyElement", () => {
+    it("should replace a fixed value with a default value and keep other properties", () => {
+      executeModifyElement(
+        modifyCommand({ elementId: "/element:car", defaultValue: "coupe", fixedValue: "" }),
+        schemaObj
+      );
+
+      const car = topLevel("car");
+      expect(car.default_).toBe("coupe");
+      expect(car.fixed).toBeUndefined();
+      expect(car.nillable).toBe(true);
+      expect(car.substitutionGroup).toBe("tns:vehicle");
+    });
+
+    it("should remove flags set to false and values set to empty strings", () => {
+      executeModifyElement(
+        modifyCommand({ elementId: "/element:car", nillable: false, substitutionGroup: "" }),
+        schemaObj
+      );
+      executeModifyElement(modifyCommand({ elementId: "/element:vehicle", abstract: false }), schemaObj);
+
+      expect(topLevel("car").nillable).toBeUndefined();
+      expect(topLevel("car").substitutionGroup).toBeUndefined();
+      expect(topLevel("vehicle").abstract).toBeUndefined();
+    });
+
+    it("should remove the form of a local element", () => {
+      executeModifyElement(
+        modifyCommand({ elementId: `${SEQUENCE_ID}/element:slots[0]`, form: "" }),
+        schemaObj
+      );
+
+      expect(sequenceElements()[0].form).toBeUndefined();
+      expect(sequenceElements()[0].default_).toBe("1");
+    });
+
+    it("should clear the declaration properties when an element becomes a reference", () => {
+      executeModifyElement(
+        modifyCommand({ elementId: `${SEQUENCE_ID}/element:slots[0]`, ref: "tns:car" }),
+        schemaObj
+      );
+
+      const reference = sequenceElements()[0];
+      expect(reference.ref).toBe("tns:car");
+      expect(reference.default_).toBeUndefined();
+      expect(reference.form).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Helpers for the element executors: applying the declaration properties of a
+ * named element (nillable, abstract, substitutionGroup, default, fixed, block,
+ * final and form) to the generated element classes.
+ */
+
+import {
+  ElementProperties,
+  blockSet,
+  derivationSet,
+  formChoice,
+} from "../../shared/types";
+
+/**
+ * The declaration property attributes of a generated element class.
+ * Top-level elements have no `form`, local elements have no `abstract`,
+ * `substitutionGroup` or `final`; the validators keep those properties off them.
+ */
+export interface ElementPropertyHolder {
+  nillable?: boolean;
+  abstract?: boolean;
+  substitutionGroup?: string;
+  default_?: string;
+  fixed?: string;
+  block?: blockSet;
+  final?: derivationSet;
+  form?: formChoice;
+}
+
+/**
+ * Returns a value to store, or undefined to remove the attribute for an empty string.
+ */
+export function valueOrUndefined(value: string): string | undefined {
+  const trimmed = value.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+/**
+ * Returns a space-separated list with normalized whitespace, or undefined for an empty list.
+ */
+export function listOrUndefined(value: string): string | undefined {
+  const tokens = value.split(/\s+/).filter((token) => token);
+  return tokens.length > 0 ? tokens.join(" ") : undefined;
+}
+
+/**
+ * Applies the declaration properties of an add or modify command to an element.
+ * Properties left out of the command are kept; `false` and empty strings remove
+ * the attribute.
+ *
+ * @param element - The element to update
+ * @param properties - The properties given by the command
+ */
+export function applyElementProperties(
+  element: ElementPropertyHolder,
+  properties: ElementProperties
+): void {
+  const { nillable, abstract, substitutionGroup, defaultValue, fixedValue, block, final, form } =
+    properties;
+
+  if (nillable !== undefined) {
+    element.nillable = nillable || undefined;
+  }
+  if (abstract !== undefined) {
+    element.abstract = abstract || undefined;
+  }
+  if (substitutionGroup !== undefined) {
+    element.substitutionGroup = valueOrUndefined(substitutionGroup);
+  }
+  // Default and fixed values are kept verbatim: whitespace may be significant
+  if (defaultValue !== undefined) {
+    element.default_ = defaultValue === "" ? undefined : defaultValue;
+  }
+  if (fixedValue !== undefined) {
+    element.fixed = fixedValue === "" ? undefined : fixedValue;
+  }
+  // The generated types model these lists loosely; the attributes are stored
+  // in their lexical form, as unmarshalling produces them
+  if (block !== undefined) {
+    element.block = listOrUndefined(block) as blockSet | undefined;
+  }
+  if (final !== undefined) {
+    element.final = listOrUndefined(final) as derivationSet | undefined;
+  }
+  if (form !== undefined) {
+    element.form = form ? formChoice[form] : undefined;
+  }
+}
+
+/**
+ * Removes all declaration properties from an element, as when it becomes a reference.
+ *
+ * @param element - The element to update
+ */
+export function clearElementProperties(element: ElementPropertyHolder): void {
+  element.nillable = undefined;
+  element.abstract = undefined;
+  element.substitutionGroup = undefined;
+  element.default_ = undefined;
+  element.fixed = undefined;
+  element.block = undefined;
+  element.final = undefined;
+  element.form = undefined;
+}
@@ -0,0 +1,177 @@
+/**
+ * Unit tests for the element scope executors.
+ * Tests promoting local elements to top-level elements referenced in their
+ * place, and demoting element references to local copies.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import {
+  schema,
+  PromoteElementCommand,
+  DemoteElementCommand,
+  localElement,
+  narrowMaxMin,
+  topLevelElement,
+} from "../../shared/types";
+import { executePromoteElement, executeDemoteElement } from "./elementScopeExecutors";
+import { toArray } from "../../shared/schemaUtils";
+
+const ORDER_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:orders"
+           targetNamespace="urn:orders"
+           elementFormDefault="qualified">
+  <xs:element name="note" type="xs:string" id="note-decl">
+    <xs:annotation>
+      <xs:documentation>A note</xs:documentation>
+    </xs:annotation>
+  </xs:element>
+  <xs:complexType name="OrderType">
+    <xs:sequence>
+      <xs:element name="item" minOccurs="0" maxOccurs="unbounded">
+        <xs:complexType>
+          <xs:attribute name="sku" type="xs:string"/>
+        </xs:complexType>
+      </xs:element>
+      <xs:element ref="tns:note" minOccurs="0"/>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:complexType name="MemoType">
+    <xs:all>
+      <xs:element name="subject" type="xs:string" minOccurs="0"/>
+      <xs:element ref="tns:note"/>
+    </xs:all>
+  </xs:complexType>
+</xs:schema>`;
+
+describe("Element Scope Executors", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, ORDER_SCHEMA);
+  });
+
+  /** Returns the elements of the sequence of OrderType. */
+  function orderElements(): localElement[] {
+    const orderType = toArray(schemaObj.complexType).find((ct) => ct.name === "OrderType");
+    return toArray(orderType?.sequence?.element);
+  }
+
+  /** Returns the elements of the all of MemoType. */
+  function memoElements(): narrowMaxMin[] {
+    const memoType = toArray(schemaObj.complexType).find((ct) => ct.name === "MemoType");
+    return toArray(memoType?.all?.element);
+  }
+
+  /** Returns the top-level element with a name. */
+  function topLevel(name: string): topLevelElement | undefined {
+    return toArray(schemaObj.element).find((el) => el.name === name);
+  }
+
+  describe("executePromoteElement", () => {
+    /** Builds a promoteElement command. */
+    function promoteCommand(elementId: string): PromoteElementCommand {
+      return { type: "promoteElement", payload: { elementId } };
+    }
+
+    test("should move a local element to the schema root and reference it in its place", () => {
+      executePromoteElement(
+        promoteCommand("/complexType:OrderType/sequence[0]/element:item"),
+        schemaObj
+      );
+
+      const [reference, noteRef] = orderElements();
+      expect(reference.ref).toBe("tns:item");
+      expect(reference.name).toBeUndefined();
+      expect(reference.minOccurs).toBe(0);
+      expect(reference.maxOccurs).toBe("unbounded");
+      expect(noteRef.ref).toBe("tns:note");
+
+      const item = topLevel("item");
+      expect(toArray(item?.complexType?.attribute)[0].name).toBe("sku");
+      expect(item).not.toHaveProperty("minOccurs");
+      expect(item).not.toHaveProperty("maxOccurs");
+    });
+
+    test("should keep string occurrences for elements of an all", () => {
+      executePromoteElement(
+        promoteCommand("/complexType:MemoType/all[0]/element:subject"),
+        schemaObj
+      );
+
+      const [reference] = memoElements();
+      expect(reference.ref).toBe("tns:subject");
+      expect(reference.minOccurs).toBe("0");
+      expect(topLevel("subject")?.type_).toBe("xs:string");
+    });
+
+    test("should throw for element references", () => {
+      expect(() =>
+        executePromoteElement(
+          promoteCommand("/complexType:OrderType/sequence[0]/element:tns:note[1]"),
+          schemaObj
+        )
+      ).toThrow("Only named local elements can be promoted");
+    });
+  });
+
+  describe("executeDemoteElement", () => {
+    /** Builds a demoteElement command. */
+    function demoteCommand(elementId: string): DemoteElementCommand {
+      return { type: "demoteElement", payload: { elementId } };
+    }
+
+    test("should replace a reference with a local copy and keep the referenced element", () => {
+      executeDemoteElement(
+        demoteCommand("/complexType:OrderType/sequence[0]/element:tns:note[1]"),
+        schemaObj
+      );
+
+      const note = orderElements()[1];
+      expect(note.ref).toBeUndefined();
+      expect(note.name).toBe("note");
+      expect(note.type_).toBe("xs:string");
+      expect(note.minOccurs).toBe(0);
+      expect(note.id).toBeUndefined();
+      expect(toArray(note.annotation?.documentation)).toHaveLength(1);
+      expect(topLevel("note")?.id).toBe("note-decl");
+      expect(memoElements()[1].ref).toBe("tns:note");
+    });
+
+    test("should remove the referenced element after demoting its last reference", () => {
+      executeDemoteElement(
+        demoteCommand("/complexType:OrderType/sequence[0]/element:tns:note[1]"),
+        schemaObj
+      );
+      executeDemoteElement(
+        demoteCommand("/complexType:MemoType/all[0]/element:tns:note[1]"),
+        schemaObj
+      );
+
+      const note = memoElements()[1];
+      expect(note.name).toBe("note");
+      expect(note.id).toBe("note-decl");
+      expect(schemaObj.element).toBeUndefined();
+    });
+
+    test("should qualify the local copy when local elements are unqualified by default", () => {
+      schemaObj.elementFormDefault = undefined;
+
+      executeDemoteElement(
+        demoteCommand("/complexType:OrderType/sequence[0]/element:tns:note[1]"),
+        schemaObj
+      );
+
+      expect(orderElements()[1].form).toBe("qualified");
+    });
+
+    test("should throw for named local elements", () => {
+      expect(() =>
+        executeDemoteElement(
+          demoteCommand("/complexType:OrderType/sequence[0]/element:item"),
+          schemaObj
+        )
+      ).toThrow("Only element references can be demoted");
+    });
+  });
+});
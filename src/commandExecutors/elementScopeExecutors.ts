@@ -0,0 +1,164 @@
+/**
+ * Executors for commands that change the scope of element declarations.
+ * Promotion turns a local element into a top-level element referenced from
+ * where it was declared; demotion turns an element reference back into a
+ * local declaration.
+ */
+
+import {
+  schema,
+  PromoteElementCommand,
+  DemoteElementCommand,
+  topLevelElement,
+  localElement,
+  narrowMaxMin,
+  formChoice,
+} from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import { collectUsages } from "../componentUsages";
+import { createNewElement } from "./elementExecutors";
+import { getParticleOccurrences } from "./compositorUtils";
+import { locateMovableNode, MoveContainer } from "./moveUtils";
+import {
+  copyNode,
+  isQNameOfComponent,
+  qualifyComponentName,
+  removeComponent,
+} from "./componentReferences";
+
+/** Properties only local elements can have. */
+const LOCAL_ELEMENT_PROPERTIES = ["minOccurs", "maxOccurs", "form"];
+
+/** Properties only top-level elements can have. */
+const TOP_LEVEL_ELEMENT_PROPERTIES = ["abstract", "final", "substitutionGroup"];
+
+/** A located element particle and the container holding it. */
+interface ElementParticle {
+  element: localElement | narrowMaxMin;
+  container: MoveContainer;
+  isInAllGroup: boolean;
+}
+
+/**
+ * Locates an element particle of a compositor.
+ *
+ * @throws Error if the ID is not the ID of an element in a compositor
+ */
+function locateElementParticle(schemaObj: schema, elementId: string): ElementParticle {
+  const location = locateMovableNode(schemaObj, elementId);
+  if (!location.found || location.kind !== "element") {
+    throw new Error(`Element not found: ${elementId}`);
+  }
+  return {
+    element: location.node,
+    container: location.container,
+    isInAllGroup: location.containerType === "all",
+  };
+}
+
+/**
+ * Puts a new element particle in the place of a located one.
+ */
+function replaceParticle(
+  particle: ElementParticle,
+  replacement: localElement | narrowMaxMin
+): void {
+  const elements = toArray(particle.container.element);
+  elements[elements.indexOf(particle.element)] = replacement;
+  particle.container.element = elements;
+}
+
+/**
+ * Executes a promoteElement command.
+ * Moves a local element declaration with its type, constraints and
+ * annotations to the schema root and replaces it with a reference carrying
+ * its occurrence constraints.
+ *
+ * @param command - The promoteElement command to execute
+ * @param schemaObj - The schema object to modify
+ * @throws Error if the element is not found or is a reference
+ */
+export function executePromoteElement(command: PromoteElementCommand, schemaObj: schema): void {
+  const { elementId } = command.payload;
+
+  const particle = locateElementParticle(schemaObj, elementId);
+  const { element } = particle;
+  if (!element.name) {
+    throw new Error(`Only named local elements can be promoted: ${elementId}`);
+  }
+
+  const promoted = Object.assign(new topLevelElement(), element);
+  for (const property of LOCAL_ELEMENT_PROPERTIES) {
+    Reflect.deleteProperty(promoted, property);
+  }
+  schemaObj.element = [...toArray(schemaObj.element), promoted];
+
+  const { minOccurs, maxOccurs } = getParticleOccurrences(element);
+  const reference = createNewElement(
+    undefined,
+    undefined,
+    qualifyComponentName(schemaObj, element.name),
+    minOccurs,
+    maxOccurs,
+    undefined,
+    false,
+    particle.isInAllGroup
+  ) as localElement | narrowMaxMin;
+  replaceParticle(particle, reference);
+}
+
+/**
+ * Executes a demoteElement command.
+ * Replaces an element reference with a local copy of the referenced
+ * top-level element, keeping the occurrence constraints of the reference.
+ * The local element is qualified explicitly if local elements are
+ * unqualified by default, so that it keeps its namespace. The top-level
+ * element is removed once no QName refers to it anymore.
+ *
+ * @param command - The demoteElement command to execute
+ * @param schemaObj - The schema object to modify
+ * @throws Error if the reference or the referenced element is not found
+ */
+export function executeDemoteElement(command: DemoteElementCommand, schemaObj: schema): void {
+  const { elementId } = command.payload;
+
+  const particle = locateElementParticle(schemaObj, elementId);
+  const ref = (particle.element as localElement).ref;
+  if (!ref) {
+    throw new Error(`Only element references can be demoted: ${elementId}`);
+  }
+  const referenced = toArray(schemaObj.element).find(
+    (el) => !!el.name && isQNameOfComponent(ref, el.name, schemaObj)
+  );
+  if (!referenced?.name) {
+    throw new Error(`Element '${ref}' not found in schema`);
+  }
+
+  const { minOccurs, maxOccurs } = getParticleOccurrences(particle.element);
+  const demoted = createNewElement(
+    referenced.name,
+    undefined,
+    undefined,
+    minOccurs,
+    maxOccurs,
+    undefined,
+    false,
+    particle.isInAllGroup
+  ) as localElement | narrowMaxMin;
+  Object.assign(demoted, copyNode(referenced));
+  for (const property of TOP_LEVEL_ELEMENT_PROPERTIES) {
+    Reflect.deleteProperty(demoted, property);
+  }
+  demoted.annotation = particle.element.annotation ?? demoted.annotation;
+  if (schemaObj.targetNamespace && schemaObj.elementFormDefault !== formChoice.qualified) {
+    demoted.form = formChoice.qualified;
+  }
+  replaceParticle(particle, demoted);
+
+  if (collectUsages(schemaObj, "element", referenced.name).length === 0) {
+    removeComponent(schemaObj, "element", referenced);
+  } else {
+    // The top-level element keeps its ID
+    demoted.id = undefined;
+  }
+}
@@ -0,0 +1,525 @@
+/**
+ * Unit tests for the extraction executors.
+ * Tests extracting anonymous complex and simple types into named top-level
+ * types with their whole content, and the QName the declaration gets for the
+ * new type, as well as inlining named types into the declarations using them
+ * and extracting runs of elements into named groups and attributes into named
+ * attribute groups.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import {
+  schema,
+  ExtractTypeCommand,
+  ExtractTypePayload,
+  InlineTypeCommand,
+  InlineTypePayload,
+  ExtractGroupCommand,
+  ExtractGroupPayload,
+  ExtractAttributeGroupCommand,
+  topLevelComplexType,
+  topLevelSimpleType,
+} from "../../shared/types";
+import {
+  executeExtractType,
+  executeInlineType,
+  executeExtractGroup,
+  executeExtractAttributeGroup,
+} from "./extractionExecutors";
+import { toArray } from "../../shared/schemaUtils";
+
+const ORDER_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:orders"
+           targetNamespace="urn:orders">
+  <xs:element name="order">
+    <xs:complexType>
+      <xs:annotation>
+        <xs:documentation>An order</xs:documentation>
+      </xs:annotation>
+      <xs:sequence>
+        <xs:element name="line" maxOccurs="unbounded">
+          <xs:complexType>
+            <xs:attribute name="sku" type="xs:string"/>
+          </xs:complexType>
+        </xs:element>
+        <xs:choice>
+          <xs:element name="rush" type="xs:boolean"/>
+          <xs:element name="deadline" type="xs:date"/>
+        </xs:choice>
+      </xs:sequence>
+      <xs:attribute name="currency">
+        <xs:simpleType>
+          <xs:restriction base="xs:string">
+            <xs:length value="3"/>
+          </xs:restriction>
+        </xs:simpleType>
+      </xs:attribute>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`;
+
+const CUSTOMER_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:customers"
+           targetNamespace="urn:customers">
+  <xs:element name="customer" type="tns:CustomerType"/>
+  <xs:element name="prospect" type="tns:CustomerType"/>
+  <xs:complexType name="CustomerType" final="extension" block="restriction">
+    <xs:sequence>
+      <xs:element name="id" type="tns:IdType"/>
+    </xs:sequence>
+    <xs:attribute name="ref" type="tns:IdType"/>
+  </xs:complexType>
+  <xs:simpleType name="IdType" final="list">
+    <xs:restriction base="xs:string">
+      <xs:pattern value="[A-Z]{2}[0-9]+"/>
+    </xs:restriction>
+  </xs:simpleType>
+</xs:schema>`;
+
+const PARTY_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:parties"
+           targetNamespace="urn:parties">
+  <xs:complexType name="PersonType">
+    <xs:sequence>
+      <xs:element name="name" type="xs:string"/>
+      <xs:element name="street" type="xs:string"/>
+      <xs:element name="city" type="xs:string"/>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:complexType name="CompanyType">
+    <xs:sequence>
+      <xs:element name="street" type="xs:string"/>
+      <xs:element name="city" type="xs:string"/>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:complexType name="ShopType">
+    <xs:sequence>
+      <xs:element name="street" type="xs:string"/>
+      <xs:element name="city" type="xs:token"/>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:complexType name="BranchType">
+    <xs:sequence>
+      <xs:element name="street" type="xs:string"/>
+      <xs:element name="city" type="xs:string"/>
+      <xs:element name="manager" type="xs:string"/>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:complexType name="OfficeType">
+    <xs:sequence>
+      <xs:element name="street" type="xs:string"/>
+      <xs:element name="city" type="xs:string"/>
+      <xs:any namespace="##other" minOccurs="0"/>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:element name="site">
+    <xs:complexType>
+      <xs:choice>
+        <xs:element name="street" type="xs:string"/>
+        <xs:element name="city" type="xs:string"/>
+      </xs:choice>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`;
+
+const AUDIT_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:audit"
+           targetNamespace="urn:audit">
+  <xs:complexType name="OrderType">
+    <xs:attribute name="id" type="xs:ID" use="required"/>
+    <xs:attribute name="created" type="xs:dateTime"/>
+  </xs:complexType>
+  <xs:complexType name="InvoiceType">
+    <xs:attribute name="id" type="xs:ID" use="required"/>
+    <xs:attribute name="paid" type="xs:boolean"/>
+  </xs:complexType>
+</xs:schema>`;
+
+describe("Extraction Executors", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, ORDER_SCHEMA);
+  });
+
+  /** Builds an extractType command. */
+  function extractCommand(payload: ExtractTypePayload): ExtractTypeCommand {
+    return { type: "extractType", payload };
+  }
+
+  /** Returns the top-level complex type with a name. */
+  function complexType(name: string): topLevelComplexType {
+    const type = toArray(schemaObj.complexType).find((ct) => ct.name === name);
+    if (!type) {
+      throw new Error(`Complex type not found: ${name}`);
+    }
+    return type;
+  }
+
+  /** Returns the top-level simple type with a name. */
+  function simpleType(name: string): topLevelSimpleType {
+    const type = toArray(schemaObj.simpleType).find((st) => st.name === name);
+    if (!type) {
+      throw new Error(`Simple type not found: ${name}`);
+    }
+    return type;
+  }
+
+  describe("executeExtractType", () => {
+    test("should move an anonymous complex type with its content to a named type", () => {
+      executeExtractType(
+        extractCommand({
+          typeId: "/element:order/anonymousComplexType[0]",
+          typeName: "OrderType",
+        }),
+        schemaObj
+      );
+
+      const order = toArray(schemaObj.element)[0];
+      expect(order.complexType).toBeUndefined();
+      expect(order.type_).toBe("tns:OrderType");
+
+      const orderType = complexType("OrderType");
+      expect(toArray(orderType.annotation?.documentation)[0]).toBeDefined();
+      const sequence = orderType.sequence;
+      expect(toArray(sequence?.element)[0].complexType?.attribute).toBeDefined();
+      expect(toArray(toArray(sequence?.choice)[0].element)).toHaveLength(2);
+      expect(toArray(orderType.attribute)[0].simpleType?.restriction?.base).toBe("xs:string");
+    });
+
+    test("should extract the anonymous type of a nested element", () => {
+      executeExtractType(
+        extractCommand({
+          typeId:
+            "/element:order/anonymousComplexType[0]/sequence[0]/element:line/anonymousComplexType[0]",
+          typeName: "LineType",
+        }),
+        schemaObj
+      );
+
+      const line = toArray(toArray(schemaObj.element)[0].complexType?.sequence?.element)[0];
+      expect(line.complexType).toBeUndefined();
+      expect(line.type_).toBe("tns:LineType");
+      expect(line.maxOccurs).toBe("unbounded");
+      expect(toArray(complexType("LineType").attribute)[0].name).toBe("sku");
+    });
+
+    test("should extract the anonymous simple type of an attribute", () => {
+      executeExtractType(
+        extractCommand({
+          typeId:
+            "/element:order/anonymousComplexType[0]/attribute:currency/anonymousSimpleType[0]",
+          typeName: "CurrencyCode",
+        }),
+        schemaObj
+      );
+
+      const currency = toArray(toArray(schemaObj.element)[0].complexType?.attribute)[0];
+      expect(currency.simpleType).toBeUndefined();
+      expect(currency.type_).toBe("tns:CurrencyCode");
+      expect(simpleType("CurrencyCode").restriction?.base).toBe("xs:string");
+    });
+
+    test("should bind a prefix to a target namespace that has none", () => {
+      schemaObj = unmarshal(
+        schema,
+        `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:other"
+           targetNamespace="urn:orders">
+  <xs:element name="order">
+    <xs:complexType/>
+  </xs:element>
+</xs:schema>`
+      );
+
+      executeExtractType(
+        extractCommand({
+          typeId: "/element:order/anonymousComplexType[0]",
+          typeName: "OrderType",
+        }),
+        schemaObj
+      );
+
+      expect(toArray(schemaObj.element)[0].type_).toBe("tns0:OrderType");
+      expect(schemaObj._namespacePrefixes?.tns0).toBe("urn:orders");
+    });
+
+    test("should leave the type name unprefixed without target namespace", () => {
+      schemaObj = unmarshal(
+        schema,
+        `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="code">
+    <xs:simpleType>
+      <xs:restriction base="xs:token"/>
+    </xs:simpleType>
+  </xs:element>
+</xs:schema>`
+      );
+
+      executeExtractType(
+        extractCommand({
+          typeId: "/element:code/anonymousSimpleType[0]",
+          typeName: "CodeType",
+        }),
+        schemaObj
+      );
+
+      expect(toArray(schemaObj.element)[0].type_).toBe("CodeType");
+      expect(simpleType("CodeType").restriction?.base).toBe("xs:token");
+    });
+
+    test("should throw if the anonymous type does not exist", () => {
+      expect(() =>
+        executeExtractType(
+          extractCommand({
+            typeId: "/element:order/anonymousSimpleType[0]",
+            typeName: "Code",
+          }),
+          schemaObj
+        )
+      ).toThrow("Anonymous type not found: /element:order/anonymousSimpleType[0]");
+    });
+  });
+
+  describe("executeInlineType", () => {
+    beforeEach(() => {
+      schemaObj = unmarshal(schema, CUSTOMER_SCHEMA);
+    });
+
+    /** Builds an inlineType command. */
+    function inlineCommand(payload: InlineTypePayload): InlineTypeCommand {
+      return { type: "inlineType", payload };
+    }
+
+    test("should inline a complex type into the chosen element and keep it for the others", () => {
+      executeInlineType(
+        inlineCommand({ typeId: "/complexType:CustomerType", declarationId: "/element:customer" }),
+        schemaObj
+      );
+
+      const [customer, prospect] = toArray(schemaObj.element);
+      expect(customer.type_).toBeUndefined();
+      expect(toArray(customer.complexType?.sequence?.element)[0].name).toBe("id");
+      expect(toArray(customer.complexType?.attribute)[0].name).toBe("ref");
+      expect(prospect.type_).toBe("tns:CustomerType");
+      expect(complexType("CustomerType").final).toBe("extension");
+    });
+
+    test("should inline a type into every user and remove it", () => {
+      executeInlineType(inlineCommand({ typeId: "/complexType:CustomerType" }), schemaObj);
+
+      const [customer, prospect] = toArray(schemaObj.element);
+      expect(customer.complexType).toBeDefined();
+      expect(prospect.complexType).toBeDefined();
+      expect(customer.complexType).not.toBe(prospect.complexType);
+      expect(customer.complexType?.sequence).not.toBe(prospect.complexType?.sequence);
+      expect(schemaObj.complexType).toBeUndefined();
+    });
+
+    test("should drop the properties only top-level types have", () => {
+      executeInlineType(inlineCommand({ typeId: "/complexType:CustomerType" }), schemaObj);
+
+      const anonymous = toArray(schemaObj.element)[0].complexType;
+      expect(anonymous).not.toHaveProperty("name");
+      expect(anonymous).not.toHaveProperty("final");
+      expect(anonymous).not.toHaveProperty("block");
+    });
+
+    test("should not copy the ID of a type into each inlined copy", () => {
+      complexType("CustomerType").id = "customer-type";
+
+      executeInlineType(inlineCommand({ typeId: "/complexType:CustomerType" }), schemaObj);
+
+      const [customer, prospect] = toArray(schemaObj.element);
+      expect(customer.complexType).not.toHaveProperty("id");
+      expect(prospect.complexType).not.toHaveProperty("id");
+    });
+
+    test("should inline a simple type into nested elements and attributes", () => {
+      executeInlineType(inlineCommand({ typeId: "/simpleType:IdType" }), schemaObj);
+
+      const customerType = complexType("CustomerType");
+      const id = toArray(customerType.sequence?.element)[0];
+      const ref = toArray(customerType.attribute)[0];
+      expect(id.type_).toBeUndefined();
+      expect(id.simpleType?.restriction?.base).toBe("xs:string");
+      expect(id.simpleType).not.toHaveProperty("final");
+      expect(ref.type_).toBeUndefined();
+      expect(ref.simpleType?.restriction?.base).toBe("xs:string");
+      expect(schemaObj.simpleType).toBeUndefined();
+    });
+
+    test("should keep a type that list item types still refer to", () => {
+      const list = new topLevelSimpleType();
+      list.name = "IdList";
+      list.list = { itemType: "tns:IdType" };
+      schemaObj.simpleType = [...toArray(schemaObj.simpleType), list];
+
+      executeInlineType(inlineCommand({ typeId: "/simpleType:IdType" }), schemaObj);
+
+      expect(simpleType("IdType").name).toBe("IdType");
+      expect(toArray(complexType("CustomerType").attribute)[0].simpleType).toBeDefined();
+    });
+
+    test("should throw if the declaration does not refer to the type", () => {
+      expect(() =>
+        executeInlineType(
+          inlineCommand({ typeId: "/simpleType:IdType", declarationId: "/element:customer" }),
+          schemaObj
+        )
+      ).toThrow("Declaration does not refer to type 'IdType': /element:customer");
+    });
+  });
+
+  describe("executeExtractGroup", () => {
+    beforeEach(() => {
+      schemaObj = unmarshal(schema, PARTY_SCHEMA);
+    });
+
+    /** Builds an extractGroup command. */
+    function extractGroupCommand(payload: ExtractGroupPayload): ExtractGroupCommand {
+      return { type: "extractGroup", payload };
+    }
+
+    const PERSON_ADDRESS = [
+      "/complexType:PersonType/sequence[0]/element:city",
+      "/complexType:PersonType/sequence[0]/element:street",
+    ];
+
+    test("should move the elements into a group and refer to it in their place", () => {
+      executeExtractGroup(
+        extractGroupCommand({ particleIds: PERSON_ADDRESS, groupName: "AddressGroup" }),
+        schemaObj
+      );
+
+      const [addressGroup] = toArray(schemaObj.group);
+      expect(addressGroup.name).toBe("AddressGroup");
+      expect(toArray(addressGroup.sequence?.element).map((el) => el.name)).toEqual([
+        "street",
+        "city",
+      ]);
+      const person = complexType("PersonType").sequence;
+      expect(toArray(person?.element).map((el) => el.name)).toEqual(["name"]);
+      expect(toArray(person?.group).map((ref) => ref.ref)).toEqual(["tns:AddressGroup"]);
+      expect(toArray(complexType("CompanyType").sequence?.element)).toHaveLength(2);
+    });
+
+    test("should replace identical runs in compositors of the same kind", () => {
+      executeExtractGroup(
+        extractGroupCommand({
+          particleIds: PERSON_ADDRESS,
+          groupName: "AddressGroup",
+          replaceDuplicates: true,
+        }),
+        schemaObj
+      );
+
+      const company = complexType("CompanyType").sequence;
+      expect(company?.element).toBeUndefined();
+      expect(toArray(company?.group).map((ref) => ref.ref)).toEqual(["tns:AddressGroup"]);
+      expect(toArray(complexType("ShopType").sequence?.element)).toHaveLength(2);
+      expect(toArray(toArray(schemaObj.element)[0].complexType?.choice?.element)).toHaveLength(2);
+    });
+
+    test("should not replace runs that would change the particle order", () => {
+      executeExtractGroup(
+        extractGroupCommand({
+          particleIds: PERSON_ADDRESS,
+          groupName: "AddressGroup",
+          replaceDuplicates: true,
+        }),
+        schemaObj
+      );
+
+      expect(toArray(complexType("BranchType").sequence?.element)).toHaveLength(3);
+      expect(complexType("BranchType").sequence?.group).toBeUndefined();
+      expect(toArray(complexType("OfficeType").sequence?.element)).toHaveLength(2);
+      expect(complexType("OfficeType").sequence?.group).toBeUndefined();
+    });
+
+    test("should give the group the compositor of the elements", () => {
+      executeExtractGroup(
+        extractGroupCommand({
+          particleIds: ["/element:site/anonymousComplexType[0]/choice[0]/element:city"],
+          groupName: "CityGroup",
+        }),
+        schemaObj
+      );
+
+      const [cityGroup] = toArray(schemaObj.group);
+      expect(cityGroup.sequence).toBeUndefined();
+      expect(toArray(cityGroup.choice?.element).map((el) => el.name)).toEqual(["city"]);
+    });
+
+    test("should throw if the elements are not adjacent", () => {
+      expect(() =>
+        executeExtractGroup(
+          extractGroupCommand({
+            particleIds: [
+              "/complexType:PersonType/sequence[0]/element:name",
+              "/complexType:PersonType/sequence[0]/element:city",
+            ],
+            groupName: "AddressGroup",
+          }),
+          schemaObj
+        )
+      ).toThrow("Selected elements must be adjacent");
+    });
+  });
+
+  describe("executeExtractAttributeGroup", () => {
+    beforeEach(() => {
+      schemaObj = unmarshal(schema, AUDIT_SCHEMA);
+    });
+
+    /** Builds an extractAttributeGroup command. */
+    function extractAttributeGroupCommand(attributeIds: string[]): ExtractAttributeGroupCommand {
+      return {
+        type: "extractAttributeGroup",
+        payload: { attributeIds, groupName: "AuditAttributes" },
+      };
+    }
+
+    test("should merge the attributes into a group referred to by every type", () => {
+      executeExtractAttributeGroup(
+        extractAttributeGroupCommand([
+          "/complexType:OrderType/attribute:id",
+          "/complexType:OrderType/attribute:created",
+          "/complexType:InvoiceType/attribute:id",
+        ]),
+        schemaObj
+      );
+
+      const [auditAttributes] = toArray(schemaObj.attributeGroup);
+      expect(auditAttributes.name).toBe("AuditAttributes");
+      expect(toArray(auditAttributes.attribute).map((attr) => attr.name)).toEqual([
+        "id",
+        "created",
+      ]);
+      expect(complexType("OrderType").attribute).toBeUndefined();
+      expect(toArray(complexType("InvoiceType").attribute).map((attr) => attr.name)).toEqual([
+        "paid",
+      ]);
+      for (const name of ["OrderType", "InvoiceType"]) {
+        expect(toArray(complexType(name).attributeGroup).map((ref) => ref.ref)).toEqual([
+          "tns:AuditAttributes",
+        ]);
+      }
+    });
+
+    test("should throw if an ID does not denote an attribute", () => {
+      expect(() =>
+        executeExtractAttributeGroup(
+          extractAttributeGroupCommand(["/complexType:OrderType/attribute:missing"]),
+          schemaObj
+        )
+      ).toThrow("Node not found: /complexType:OrderType/attribute:missing");
+    });
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Executors for extraction and inlining commands.
+ * Extractions move inline content of the schema into a new named top-level
+ * component and refer to the new component where the content was; inlining
+ * copies a named component back to where it is referred to.
+ */
+
+import {
+  schema,
+  ExtractTypeCommand,
+  InlineTypeCommand,
+  ExtractGroupCommand,
+  ExtractAttributeGroupCommand,
+  namedGroup,
+  namedAttributeGroup,
+  attributeGroupRef,
+  topLevelComplexType,
+  topLevelSimpleType,
+  localComplexType,
+  localSimpleType,
+  localElement,
+  attribute,
+} from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import { parseSchemaId, SchemaNodeType } from "../../shared/idStrategy";
+import { locateNodeById } from "../schemaNavigator";
+import { collectUsages } from "../componentUsages";
+import {
+  copyNode,
+  isQNameOfComponent,
+  locateComponent,
+  qualifyComponentName,
+  removeComponent,
+} from "./componentReferences";
+import {
+  collectDeclarations,
+  SchemaDeclarations,
+  ELEMENT_PARENT_TYPES,
+  ATTRIBUTE_PARENT_TYPES,
+} from "./declarationWalker";
+import { applyGroupContentModel, buildGroupRef } from "./groupExecutors";
+import { findIdenticalRuns, locateParticleRun } from "./particleRuns";
+import { groupAttributesByName, locateAttributeSelection } from "./attributeSelection";
+
+/**
+ * Properties of top-level types that anonymous copies cannot have. The ID is
+ * dropped too, as it must stay unique when a type is inlined more than once.
+ */
+const TOP_LEVEL_TYPE_PROPERTIES = ["name", "abstract", "final", "block", "id"];
+
+/**
+ * Creates an anonymous copy of a named type.
+ */
+function toAnonymousType<T extends localComplexType | localSimpleType>(
+  anonymous: T,
+  named: topLevelComplexType | topLevelSimpleType
+): T {
+  Object.assign(anonymous, copyNode(named));
+  for (const property of TOP_LEVEL_TYPE_PROPERTIES) {
+    Reflect.deleteProperty(anonymous, property);
+  }
+  return anonymous;
+}
+
+/**
+ * Locates the declaration a type is inlined into.
+ *
+ * @throws Error if the ID is not the ID of an element or attribute declaration
+ */
+function locateDeclaration(
+  schemaObj: schema,
+  declarationId: string
+): Pick<SchemaDeclarations, "elements" | "attributes"> {
+  const location = locateNodeById(schemaObj, declarationId);
+  const parentType = location.parentType ?? "";
+  if (location.found && ELEMENT_PARENT_TYPES.includes(parentType)) {
+    return { elements: [location.parent as localElement], attributes: [] };
+  }
+  if (location.found && ATTRIBUTE_PARENT_TYPES.includes(parentType)) {
+    return { elements: [], attributes: [location.parent as attribute] };
+  }
+  throw new Error(`Declaration not found: ${declarationId}`);
+}
+
+/**
+ * Executes an extractType command.
+ * Moves the anonymous type of an element or attribute, with its content,
+ * attributes and annotations, to a new top-level type and sets the `type`
+ * of the declaration to the QName of the new type.
+ *
+ * @param command - The extractType command to execute
+ * @param schemaObj - The schema object to modify
+ * @throws Error if the declaration or its anonymous type is not found
+ */
+export function executeExtractType(command: ExtractTypeCommand, schemaObj: schema): void {
+  const { typeId, typeName } = command.payload;
+  const parsed = parseSchemaId(typeId);
+
+  const location = parsed.parentId ? locateNodeById(schemaObj, parsed.parentId) : undefined;
+  if (!location?.found) {
+    throw new Error(`Parent not found: ${parsed.parentId ?? typeId}`);
+  }
+  const holder = location.parent as {
+    type_?: string;
+    complexType?: localComplexType;
+    simpleType?: localSimpleType;
+  };
+
+  if (parsed.nodeType === SchemaNodeType.AnonymousComplexType && holder.complexType) {
+    const complexType = Object.assign(new topLevelComplexType(), holder.complexType);
+    complexType.name = typeName;
+    schemaObj.complexType = [...toArray(schemaObj.complexType), complexType];
+    holder.complexType = undefined;
+  } else if (parsed.nodeType === SchemaNodeType.AnonymousSimpleType && holder.simpleType) {
+    const simpleType = Object.assign(new topLevelSimpleType(), holder.simpleType);
+    simpleType.name = typeName;
+    schemaObj.simpleType = [...toArray(schemaObj.simpleType), simpleType];
+    holder.simpleType = undefined;
+  } else {
+    throw new Error(`Anonymous type not found: ${typeId}`);
+  }
+  holder.type_ = qualifyComponentName(schemaObj, typeName);
+}
+
+/**
+ * Executes an inlineType command.
+ * Replaces the `type` of the chosen declaration, or of every element and
+ * attribute declaration referring to the named type, with an anonymous copy
+ * of the type. The named type is removed once no QName refers to it anymore;
+ * list item types and union member types keep referring to it.
+ *
+ * @param command - The inlineType command to execute
+ * @param schemaObj - The schema object to modify
+ * @throws Error if the type or the declaration is not found, or the
+ *   declaration does not refer to the type
+ */
+export function executeInlineType(command: InlineTypeCommand, schemaObj: schema): void {
+  const { typeId, declarationId } = command.payload;
+
+  const location = locateComponent(schemaObj, typeId);
+  if (!location.found) {
+    throw new Error(location.error);
+  }
+  if (location.kind !== "complexType" && location.kind !== "simpleType") {
+    throw new Error(`Only named types can be inlined: ${typeId}`);
+  }
+  const named = location.component as topLevelComplexType | topLevelSimpleType;
+  const name = named.name ?? "";
+
+  const declarations = declarationId
+    ? locateDeclaration(schemaObj, declarationId)
+    : collectDeclarations(schemaObj);
+  const refersToType = (declaration: { type_?: string }): boolean =>
+    !!declaration.type_ && isQNameOfComponent(declaration.type_, name, schemaObj);
+  const elements = declarations.elements.filter(refersToType);
+  // Attributes can only have simple types
+  const attributes =
+    location.kind === "simpleType" ? declarations.attributes.filter(refersToType) : [];
+  if (declarationId && elements.length + attributes.length === 0) {
+    throw new Error(`Declaration does not refer to type '${name}': ${declarationId}`);
+  }
+
+  for (const el of elements) {
+    el.type_ = undefined;
+    if (location.kind === "complexType") {
+      el.complexType = toAnonymousType(new localComplexType(), named);
+    } else {
+      el.simpleType = toAnonymousType(new localSimpleType(), named);
+    }
+  }
+  for (const attr of attributes) {
+    attr.type_ = undefined;
+    attr.simpleType = toAnonymousType(new localSimpleType(), named);
+  }
+
+  if (collectUsages(schemaObj, "type", name).length === 0) {
+    removeComponent(schemaObj, location.kind, location.component);
+  }
+}
+
+/**
+ * Executes an extractGroup command.
+ * Moves adjacent elements of a sequence or choice into a new top-level group
+ * whose content model is the same kind of compositor, and adds a reference to
+ * the group to the compositor in their place. The compositor holds only
+ * elements and a run of a sequence ends it, so the reference, written after
+ * the remaining elements, takes the place of the run. Identical runs of
+ * elements in other sequences or choices are replaced as well if requested.
+ *
+ * @param command - The extractGroup command to execute
+ * @param schemaObj - The schema object to modify
+ * @throws Error if the elements cannot be extracted (see `locateParticleRun`)
+ */
+export function executeExtractGroup(command: ExtractGroupCommand, schemaObj: schema): void {
+  const { particleIds, groupName, replaceDuplicates } = command.payload;
+
+  const run = locateParticleRun(schemaObj, particleIds);
+  if (!run.found) {
+    throw new Error(run.error);
+  }
+  const runs = replaceDuplicates ? [run, ...findIdenticalRuns(schemaObj, run)] : [run];
+
+  const grp = new namedGroup();
+  grp.name = groupName;
+  applyGroupContentModel(grp, run.kind);
+  const content = grp[run.kind];
+  if (content) {
+    content.element = run.elements;
+  }
+  schemaObj.group = [...toArray(schemaObj.group), grp];
+
+  const ref = qualifyComponentName(schemaObj, groupName);
+  for (const { compositor, start, elements } of runs) {
+    const remaining = toArray(compositor.element);
+    remaining.splice(start, elements.length);
+    compositor.element = remaining.length > 0 ? remaining : undefined;
+    compositor.group = [...toArray(compositor.group), buildGroupRef(ref)];
+  }
+}
+
+/**
+ * Executes an extractAttributeGroup command.
+ * Moves attributes of one or more complex types or attribute groups into a new
+ * top-level attribute group, and adds a reference to the group to every node
+ * they were declared on, after its other attribute group references.
+ * Attributes of the same name selected on several nodes are declared once in
+ * the group, as they are first selected.
+ *
+ * @param command - The extractAttributeGroup command to execute
+ * @param schemaObj - The schema object to modify
+ * @throws Error if an ID does not denote an attribute of a complex type or attribute group
+ */
+export function executeExtractAttributeGroup(
+  command: ExtractAttributeGroupCommand,
+  schemaObj: schema
+): void {
+  const { attributeIds, groupName } = command.payload;
+
+  const selection = locateAttributeSelection(schemaObj, attributeIds);
+  if (!selection.found) {
+    throw new Error(selection.error);
+  }
+
+  const attrGroup = new namedAttributeGroup();
+  attrGroup.name = groupName;
+  attrGroup.attribute = [...groupAttributesByName(selection.attributes).values()].map(
+    ([first]) => first
+  );
+  schemaObj.attributeGroup = [...toArray(schemaObj.attributeGroup), attrGroup];
+
+  const ref = qualifyComponentName(schemaObj, groupName);
+  const holders = new Set(selection.attributes.map(({ holder }) => holder));
+  for (const holder of holders) {
+    const remaining = toArray(holder.attribute).filter(
+      (attr) => !selection.attributes.some((selected) => selected.attribute === attr)
+    );
+    holder.attribute = remaining.length > 0 ? remaining : undefined;
+    const agRef = new attributeGroupRef();
+    agRef.ref = ref;
+    holder.attributeGroup = [...toArray(holder.attributeGroup), agRef];
+  }
+}
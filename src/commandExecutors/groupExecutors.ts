@@ -196,7 +196,7 @@ type ComplexTypeWithGroupRef = { group?: groupRef };
 /**
  * Builds a new groupRef instance with the given properties.
  */
-function buildGroupRef(
+export function buildGroupRef(
   ref: string,
   minOccurs?: number,
   maxOccurs?: number | "unbounded",
@@ -342,7 +342,7 @@ function filterGroupRef(
  * @param grp - The group holder to update
  * @param contentModel - The content model to apply
  */
-function applyGroupContentModel(
+export function applyGroupContentModel(
   grp: GroupHolder,
   contentModel: ContentModel
 ): void {
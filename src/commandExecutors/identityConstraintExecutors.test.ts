@@ -0,0 +1,218 @@
+/**
+ * Unit tests for identity constraint executors.
+ * Tests the implementation of add, remove, and modify execution logic for
+ * xs:key, xs:unique and xs:keyref constraints.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import {
+  schema,
+  AddIdentityConstraintCommand,
+  RemoveIdentityConstraintCommand,
+  ModifyIdentityConstraintCommand,
+  keyrefType,
+  topLevelElement,
+} from "../../shared/types";
+import {
+  executeAddIdentityConstraint,
+  executeRemoveIdentityConstraint,
+  executeModifyIdentityConstraint,
+} from "./identityConstraintExecutors";
+import { toArray } from "../../shared/schemaUtils";
+
+const ORDERS_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:orders" targetNamespace="urn:orders">
+  <xs:element name="orders">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="order" maxOccurs="unbounded">
+          <xs:complexType>
+            <xs:attribute name="id" type="xs:string"/>
+            <xs:attribute name="customer" type="xs:string"/>
+          </xs:complexType>
+        </xs:element>
+        <xs:element name="customer" maxOccurs="unbounded">
+          <xs:complexType>
+            <xs:attribute name="id" type="xs:string"/>
+          </xs:complexType>
+        </xs:element>
+      </xs:sequence>
+    </xs:complexType>
+    <xs:key name="customerKey">
+      <xs:selector xpath="customer"/>
+      <xs:field xpath="@id"/>
+    </xs:key>
+    <xs:keyref name="orderCustomer" refer="tns:customerKey">
+      <xs:selector xpath="order"/>
+      <xs:field xpath="@customer"/>
+    </xs:keyref>
+  </xs:element>
+</xs:schema>`;
+
+describe("Identity Constraint Executors", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, ORDERS_SCHEMA);
+  });
+
+  /** Returns the top-level orders element. */
+  function orders(): topLevelElement {
+    return toArray(schemaObj.element)[0];
+  }
+
+  describe("executeAddIdentityConstraint", () => {
+    it("should add a key with selector and fields to a top-level element", () => {
+      const command: AddIdentityConstraintCommand = {
+        type: "addIdentityConstraint",
+        payload: {
+          parentId: "/element:orders",
+          kind: "key",
+          constraintName: "orderKey",
+          selector: "order",
+          fields: ["@id", "@customer"],
+        },
+      };
+
+      executeAddIdentityConstraint(command, schemaObj);
+
+      const keys = toArray(orders().key);
+      expect(keys.map((key) => key.name)).toEqual(["customerKey", "orderKey"]);
+      expect(keys[1].selector.xpath).toBe("order");
+      expect(toArray(keys[1].field).map((field) => field.xpath)).toEqual(["@id", "@customer"]);
+      expect(keys[1].annotation).toBeUndefined();
+    });
+
+    it("should add a unique constraint with documentation to a local element", () => {
+      const command: AddIdentityConstraintCommand = {
+        type: "addIdentityConstraint",
+        payload: {
+          parentId: "/element:orders/anonymousComplexType[0]/sequence/element:order",
+          kind: "unique",
+          constraintName: "orderCustomerUnique",
+          selector: ".",
+          fields: ["@customer"],
+          documentation: "One order per customer",
+        },
+      };
+
+      executeAddIdentityConstraint(command, schemaObj);
+
+      const order = toArray(orders().complexType!.sequence!.element)[0];
+      const unique = toArray(order.unique);
+      expect(unique).toHaveLength(1);
+      expect(unique[0].name).toBe("orderCustomerUnique");
+      expect(unique[0].annotation?.documentation?.[0].value).toBe("One order per customer");
+    });
+
+    it("should add a keyref with its refer", () => {
+      const command: AddIdentityConstraintCommand = {
+        type: "addIdentityConstraint",
+        payload: {
+          parentId: "/element:orders",
+          kind: "keyref",
+          constraintName: "secondRef",
+          selector: ".//order",
+          fields: ["@id"],
+          refer: "tns:customerKey",
+        },
+      };
+
+      executeAddIdentityConstraint(command, schemaObj);
+
+      const keyrefs = toArray(orders().keyref);
+      expect(keyrefs).toHaveLength(2);
+      expect(keyrefs[1].name).toBe("secondRef");
+      expect(keyrefs[1].refer).toBe("tns:customerKey");
+    });
+
+    it("should throw when the element does not exist", () => {
+      const command: AddIdentityConstraintCommand = {
+        type: "addIdentityConstraint",
+        payload: {
+          parentId: "/element:missing",
+          kind: "key",
+          constraintName: "k",
+          selector: ".",
+          fields: ["@id"],
+        },
+      };
+
+      expect(() => executeAddIdentityConstraint(command, schemaObj)).toThrow(
+        "Element not found: /element:missing"
+      );
+    });
+  });
+
+  describe("executeRemoveIdentityConstraint", () => {
+    it("should remove the constraint and drop the empty list", () => {
+      const command: RemoveIdentityConstraintCommand = {
+        type: "removeIdentityConstraint",
+        payload: { constraintId: "/element:orders/keyref:orderCustomer" },
+      };
+
+      executeRemoveIdentityConstraint(command, schemaObj);
+
+      expect(orders().keyref).toBeUndefined();
+      expect(toArray(orders().key)).toHaveLength(1);
+    });
+
+    it("should throw when the constraint does not exist", () => {
+      const command: RemoveIdentityConstraintCommand = {
+        type: "removeIdentityConstraint",
+        payload: { constraintId: "/element:orders/unique:customerKey" },
+      };
+
+      expect(() => executeRemoveIdentityConstraint(command, schemaObj)).toThrow(
+        "Identity constraint not found: /element:orders/unique:customerKey"
+      );
+    });
+  });
+
+  describe("executeModifyIdentityConstraint", () => {
+    it("should rename a key and update the keyrefs referring to it", () => {
+      const command: ModifyIdentityConstraintCommand = {
+        type: "modifyIdentityConstraint",
+        payload: { constraintId: "/element:orders/key:customerKey", constraintName: "custKey" },
+      };
+
+      executeModifyIdentityConstraint(command, schemaObj);
+
+      expect(toArray(orders().key)[0].name).toBe("custKey");
+      expect(toArray(orders().keyref)[0].refer).toBe("tns:custKey");
+    });
+
+    it("should update the selector and replace the fields", () => {
+      const command: ModifyIdentityConstraintCommand = {
+        type: "modifyIdentityConstraint",
+        payload: {
+          constraintId: "/element:orders/key:customerKey",
+          selector: ".//customer",
+          fields: ["@id"],
+          documentation: "Customers by ID",
+        },
+      };
+
+      executeModifyIdentityConstraint(command, schemaObj);
+
+      const key = toArray(orders().key)[0];
+      expect(key.selector.xpath).toBe(".//customer");
+      expect(toArray(key.field).map((field) => field.xpath)).toEqual(["@id"]);
+      expect(key.annotation?.documentation?.[0].value).toBe("Customers by ID");
+    });
+
+    it("should change the refer of a keyref", () => {
+      const command: ModifyIdentityConstraintCommand = {
+        type: "modifyIdentityConstraint",
+        payload: { constraintId: "/element:orders/keyref:orderCustomer", refer: "customerKey" },
+      };
+
+      executeModifyIdentityConstraint(command, schemaObj);
+
+      const keyref: keyrefType = toArray(orders().keyref)[0];
+      expect(keyref.refer).toBe("customerKey");
+      expect(keyref.name).toBe("orderCustomer");
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Executors for identity constraint commands.
+ * Implements add, remove, and modify operations for the xs:key, xs:unique
+ * and xs:keyref constraints declared on elements.
+ */
+
+import {
+  schema,
+  AddIdentityConstraintCommand,
+  RemoveIdentityConstraintCommand,
+  ModifyIdentityConstraintCommand,
+  keybase,
+  keyrefType,
+  selectorType,
+  fieldType,
+  annotationType,
+  documentationType,
+} from "../../shared/types";
+import { locateNodeById } from "../schemaNavigator";
+import { createAnnotation } from "./annotationUtils";
+import {
+  IdentityConstraintOwner,
+  collectIdentityConstraints,
+  getIdentityConstraints,
+  isElementParentType,
+  localNameOfQName,
+  locateIdentityConstraint,
+  setIdentityConstraints,
+} from "./identityConstraintUtils";
+
+// ===== Helper functions =====
+
+/**
+ * Creates an xs:selector with the given XPath.
+ */
+function createSelector(xpath: string): selectorType {
+  const selector = new selectorType();
+  selector.xpath = xpath;
+  return selector;
+}
+
+/**
+ * Creates one xs:field per XPath.
+ */
+function createFields(xpaths: string[]): fieldType[] {
+  return xpaths.map((xpath) => {
+    const field = new fieldType();
+    field.xpath = xpath;
+    return field;
+  });
+}
+
+/**
+ * Points every keyref that refers to a renamed key or unique constraint at
+ * the new name, keeping the prefix of its `refer` QName.
+ */
+function renameKeyrefReferences(schemaObj: schema, oldName: string, newName: string): void {
+  for (const { kind, constraint } of collectIdentityConstraints(schemaObj)) {
+    if (kind !== "keyref") continue;
+    const keyref = constraint as keyrefType;
+    if (localNameOfQName(keyref.refer) === oldName) {
+      const prefixLength = keyref.refer.length - oldName.length;
+      keyref.refer = `${keyref.refer.substring(0, prefixLength)}${newName}`;
+    }
+  }
+}
+
+// ===== Identity Constraint Executors =====
+
+/**
+ * Executes an addIdentityConstraint command.
+ * Appends the new constraint to the element's constraints of the same kind.
+ *
+ * @param command - The addIdentityConstraint command to execute
+ * @param schemaObj - The schema object to modify
+ * @throws Error if the parent element is not found
+ */
+export function executeAddIdentityConstraint(
+  command: AddIdentityConstraintCommand,
+  schemaObj: schema
+): void {
+  const { parentId, kind, constraintName, selector, fields, refer, documentation } =
+    command.payload;
+
+  const location = locateNodeById(schemaObj, parentId);
+  if (!location.found || !isElementParentType(location.parentType)) {
+    throw new Error(`Element not found: ${parentId}`);
+  }
+  const owner = location.parent as IdentityConstraintOwner;
+
+  let constraint: keybase;
+  if (kind === "keyref") {
+    const keyref = new keyrefType();
+    keyref.refer = refer ?? "";
+    constraint = keyref;
+  } else {
+    constraint = new keybase();
+  }
+  constraint.name = constraintName;
+  constraint.selector = createSelector(selector);
+  constraint.field = createFields(fields);
+  if (documentation) {
+    constraint.annotation = createAnnotation(documentation);
+  }
+
+  setIdentityConstraints(owner, kind, [...getIdentityConstraints(owner, kind), constraint]);
+}
+
+/**
+ * Executes a removeIdentityConstraint command.
+ *
+ * @param command - The removeIdentityConstraint command to execute
+ * @param schemaObj - The schema object to modify
+ * @throws Error if the constraint is not found
+ */
+export function executeRemoveIdentityConstraint(
+  command: RemoveIdentityConstraintCommand,
+  schemaObj: schema
+): void {
+  const location = locateIdentityConstraint(schemaObj, command.payload.constraintId);
+  if (!location.found) {
+    throw new Error(location.error);
+  }
+  const { owner, kind, constraint } = location;
+  setIdentityConstraints(
+    owner,
+    kind,
+    getIdentityConstraints(owner, kind).filter((c) => c !== constraint)
+  );
+}
+
+/**
+ * Executes a modifyIdentityConstraint command.
+ * Renaming a key or unique constraint also updates the keyrefs referring to it.
+ *
+ * @param command - The modifyIdentityConstraint command to execute
+ * @param schemaObj - The schema object to modify
+ * @throws Error if the constraint is not found
+ */
+export function executeModifyIdentityConstraint(
+  command: ModifyIdentityConstraintCommand,
+  schemaObj: schema
+): void {
+  const { constraintId, constraintName, selector, fields, refer, documentation } =
+    command.payload;
+
+  const location = locateIdentityConstraint(schemaObj, constraintId);
+  if (!location.found) {
+    throw new Error(location.error);
+  }
+  const { kind, constraint } = location;
+
+  if (constraintName !== undefined && constraintName !== constraint.name) {
+    if (kind !== "keyref") {
+      renameKeyrefReferences(schemaObj, constraint.name, constraintName);
+    }
+    constraint.name = constraintName;
+  }
+  if (selector !== undefined) {
+    if (constraint.selector) {
+      constraint.selector.xpath = selector;
+    } else {
+      constraint.selector = createSelector(selector);
+    }
+  }
+  if (fields !== undefined) {
+    constraint.field = createFields(fields);
+  }
+  if (refer !== undefined && kind === "keyref") {
+    (constraint as keyrefType).refer = refer;
+  }
+  if (documentation !== undefined) {
+    if (!constraint.annotation) {
+      constraint.annotation = new annotationType();
+    }
+    const doc = new documentationType();
+    doc.value = documentation;
+    constraint.annotation.documentation = [doc];
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Shared identity constraint helpers for the identity constraint executors
+ * and validators: locating a constraint by ID and collecting every
+ * constraint declared in the schema.
+ *
+ * Identity constraints are addressed by the ID of their element followed by
+ * a `key:`, `unique:` or `keyref:` segment, e.g. `/element:orders/key:orderKey`.
+ */
+
+import {
+  schema,
+  IdentityConstraintKind,
+  topLevelElement,
+  localElement,
+  narrowMaxMin,
+  topLevelComplexType,
+  localComplexType,
+  explicitGroup,
+  simpleExplicitGroup,
+  extensionType,
+  complexRestrictionType,
+  keybase,
+  keyrefType,
+} from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import { parseSchemaId } from "../../shared/idStrategy";
+import { locateNodeById } from "../schemaNavigator";
+
+/** Kinds of identity constraint, in the order XSD requires them after the element's type. */
+export const IDENTITY_CONSTRAINT_KINDS: readonly IdentityConstraintKind[] = [
+  "unique",
+  "key",
+  "keyref",
+];
+
+/** Any element declaration that can carry identity constraints. */
+export type IdentityConstraintOwner = topLevelElement | localElement | narrowMaxMin;
+
+/** An identity constraint together with the element that declares it. */
+export interface IdentityConstraintEntry {
+  /** Kind of the constraint */
+  kind: IdentityConstraintKind;
+  /** The constraint; a keyrefType when kind is "keyref" */
+  constraint: keybase;
+  /** The element declaring the constraint */
+  owner: IdentityConstraintOwner;
+}
+
+/** Result of locating an identity constraint by ID. */
+export type IdentityConstraintLocation =
+  | ({ found: true } & IdentityConstraintEntry)
+  | { found: false; error: string };
+
+/**
+ * Returns true if a node type string names a kind of identity constraint.
+ */
+export function isIdentityConstraintKind(value: string): value is IdentityConstraintKind {
+  return (IDENTITY_CONSTRAINT_KINDS as readonly string[]).includes(value);
+}
+
+/**
+ * Returns true if a parent type reported by `locateNodeById` is an element.
+ */
+export function isElementParentType(parentType: string | undefined): boolean {
+  return parentType === "topLevelElement" || parentType === "localElement";
+}
+
+/**
+ * Returns the constraints of one kind declared on an element.
+ */
+export function getIdentityConstraints(
+  owner: IdentityConstraintOwner,
+  kind: IdentityConstraintKind
+): keybase[] {
+  return toArray(owner[kind]);
+}
+
+/**
+ * Replaces the constraints of one kind declared on an element.
+ * Removes the property altogether when the list is empty.
+ */
+export function setIdentityConstraints(
+  owner: IdentityConstraintOwner,
+  kind: IdentityConstraintKind,
+  constraints: keybase[]
+): void {
+  if (kind === "keyref") {
+    owner.keyref = constraints.length > 0 ? (constraints as keyrefType[]) : undefined;
+  } else {
+    owner[kind] = constraints.length > 0 ? constraints : undefined;
+  }
+}
+
+/**
+ * Extracts the local name from a QName such as `tns:orderKey`.
+ */
+export function localNameOfQName(qname: string): string {
+  const colonIndex = qname.indexOf(":");
+  return colonIndex >= 0 ? qname.substring(colonIndex + 1) : qname;
+}
+
+/**
+ * Locates an identity constraint by its ID.
+ *
+ * @param schemaObj - The schema to search
+ * @param constraintId - ID such as `/element:orders/key:orderKey`
+ * @returns The constraint with its kind and element, or an error message
+ */
+export function locateIdentityConstraint(
+  schemaObj: schema,
+  constraintId: string
+): IdentityConstraintLocation {
+  let parsed;
+  try {
+    parsed = parseSchemaId(constraintId);
+  } catch (error) {
+    return { found: false, error: (error as Error).message };
+  }
+
+  const kind: string = parsed.nodeType;
+  if (!isIdentityConstraintKind(kind) || parsed.name === undefined || !parsed.parentId) {
+    return { found: false, error: `Not an identity constraint ID: ${constraintId}` };
+  }
+
+  const location = locateNodeById(schemaObj, parsed.parentId);
+  if (!location.found || !isElementParentType(location.parentType)) {
+    return { found: false, error: `Element not found: ${parsed.parentId}` };
+  }
+
+  const owner = location.parent as IdentityConstraintOwner;
+  const constraint = getIdentityConstraints(owner, kind).find((c) => c.name === parsed.name);
+  if (!constraint) {
+    return { found: false, error: `Identity constraint not found: ${constraintId}` };
+  }
+  return { found: true, kind, constraint, owner };
+}
+
+/**
+ * Collects every identity constraint declared in the schema: on top-level
+ * elements and on local elements nested in complex types and groups.
+ *
+ * @param schemaObj - The schema to inspect
+ * @returns The constraints in document order of their elements
+ */
+export function collectIdentityConstraints(schemaObj: schema): IdentityConstraintEntry[] {
+  const entries: IdentityConstraintEntry[] = [];
+
+  function visitElement(el: IdentityConstraintOwner): void {
+    for (const kind of IDENTITY_CONSTRAINT_KINDS) {
+      for (const constraint of getIdentityConstraints(el, kind)) {
+        entries.push({ kind, constraint, owner: el });
+      }
+    }
+    if (el.complexType) visitComplexTypeBody(el.complexType);
+  }
+
+  function visitCompositor(c: explicitGroup | simpleExplicitGroup): void {
+    toArray(c.element).forEach(visitElement);
+    toArray(c.choice).forEach(visitCompositor);
+    toArray(c.sequence).forEach(visitCompositor);
+  }
+
+  function visitParticles(
+    holder: topLevelComplexType | localComplexType | extensionType | complexRestrictionType
+  ): void {
+    if (holder.all) toArray(holder.all.element).forEach(visitElement);
+    if (holder.choice) visitCompositor(holder.choice);
+    if (holder.sequence) visitCompositor(holder.sequence);
+  }
+
+  function visitComplexTypeBody(ct: topLevelComplexType | localComplexType): void {
+    visitParticles(ct);
+    if (ct.complexContent?.extension) visitParticles(ct.complexContent.extension);
+    if (ct.complexContent?.restriction) visitParticles(ct.complexContent.restriction);
+  }
+
+  toArray(schemaObj.element).forEach(visitElement);
+  toArray(schemaObj.complexType).forEach(visitComplexTypeBody);
+  for (const grp of toArray(schemaObj.group)) {
+    if (grp.all) toArray(grp.all.element).forEach(visitElement);
+    if (grp.choice) visitCompositor(grp.choice);
+    if (grp.sequence) visitCompositor(grp.sequence);
+  }
+  return entries;
+}
@@ -0,0 +1,203 @@
+/**
+ * Unit tests for the moveNode executor.
+ * Tests reordering and relocating elements, group references, nested
+ * compositors and attributes, including elements moving into and out of an
+ * xs:all.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import {
+  schema,
+  MoveNodeCommand,
+  MoveNodePayload,
+  topLevelComplexType,
+  localElement,
+  narrowMaxMin,
+} from "../../shared/types";
+import { executeMoveNode } from "./moveExecutors";
+import { toArray } from "../../shared/schemaUtils";
+
+const PERSON_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:complexType name="PersonType">
+    <xs:sequence>
+      <xs:element name="firstName" type="xs:string"/>
+      <xs:element name="lastName">
+        <xs:annotation>
+          <xs:documentation>Family name</xs:documentation>
+        </xs:annotation>
+        <xs:simpleType>
+          <xs:restriction base="xs:string">
+            <xs:maxLength value="40"/>
+          </xs:restriction>
+        </xs:simpleType>
+      </xs:element>
+      <xs:element name="phone" type="xs:string" maxOccurs="3"/>
+      <xs:group ref="AddressGroup"/>
+      <xs:choice>
+        <xs:element name="email" type="xs:string"/>
+        <xs:element name="fax" type="xs:string"/>
+      </xs:choice>
+    </xs:sequence>
+    <xs:attribute name="id" type="xs:ID"/>
+    <xs:attribute name="lang" type="xs:language"/>
+  </xs:complexType>
+  <xs:complexType name="ContactType">
+    <xs:all>
+      <xs:element name="mobile" type="xs:string" minOccurs="0"/>
+    </xs:all>
+  </xs:complexType>
+  <xs:group name="AddressGroup">
+    <xs:sequence>
+      <xs:element name="street" type="xs:string"/>
+    </xs:sequence>
+  </xs:group>
+  <xs:attributeGroup name="CommonAttributes">
+    <xs:attribute name="version" type="xs:string"/>
+  </xs:attributeGroup>
+</xs:schema>`;
+
+const PERSON_SEQUENCE_ID = "/complexType:PersonType/sequence";
+const CHOICE_ID = `${PERSON_SEQUENCE_ID}/choice[0]`;
+
+describe("Move Executors", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, PERSON_SCHEMA);
+  });
+
+  /** Returns the top-level complex type with the given name. */
+  function complexType(name: string): topLevelComplexType {
+    return toArray(schemaObj.complexType).find((type) => type.name === name)!;
+  }
+
+  /** Builds a moveNode command. */
+  function moveCommand(payload: MoveNodePayload): MoveNodeCommand {
+    return { type: "moveNode", payload };
+  }
+
+  /** Returns the names of the elements of the PersonType sequence. */
+  function sequenceElementNames(): (string | undefined)[] {
+    return toArray(complexType("PersonType").sequence?.element).map((element) => element.name);
+  }
+
+  describe("executeMoveNode", () => {
+    test("should reorder an element within its sequence and keep its content", () => {
+      const lastName = toArray(complexType("PersonType").sequence?.element)[1];
+
+      executeMoveNode(
+        moveCommand({
+          nodeId: `${PERSON_SEQUENCE_ID}/element:lastName[1]`,
+          newParentId: PERSON_SEQUENCE_ID,
+          index: 0,
+        }),
+        schemaObj
+      );
+
+      expect(sequenceElementNames()).toEqual(["lastName", "firstName", "phone"]);
+      const moved = toArray(complexType("PersonType").sequence?.element)[0];
+      expect(moved).toBe(lastName);
+      expect(moved.simpleType).toBeDefined();
+      expect(moved.annotation).toBeDefined();
+    });
+
+    test("should append an element to another compositor when no index is given", () => {
+      executeMoveNode(
+        moveCommand({ nodeId: `${PERSON_SEQUENCE_ID}/element:firstName[0]`, newParentId: CHOICE_ID }),
+        schemaObj
+      );
+
+      expect(sequenceElementNames()).toEqual(["lastName", "phone"]);
+      const choice = toArray(complexType("PersonType").sequence?.choice)[0];
+      expect(toArray(choice.element).map((element) => element.name)).toEqual([
+        "email",
+        "fax",
+        "firstName",
+      ]);
+    });
+
+    test("should convert elements moving into and out of an xs:all", () => {
+      executeMoveNode(
+        moveCommand({
+          nodeId: `${PERSON_SEQUENCE_ID}/element:lastName[1]`,
+          newParentId: "/complexType:ContactType/all",
+        }),
+        schemaObj
+      );
+
+      const allElements = toArray(complexType("ContactType").all?.element);
+      expect(allElements[1]).toBeInstanceOf(narrowMaxMin);
+      expect(allElements[1].name).toBe("lastName");
+      expect(allElements[1].simpleType).toBeDefined();
+
+      executeMoveNode(
+        moveCommand({
+          nodeId: "/complexType:ContactType/all/element:mobile[0]",
+          newParentId: PERSON_SEQUENCE_ID,
+          index: 0,
+        }),
+        schemaObj
+      );
+
+      const mobile = toArray(complexType("PersonType").sequence?.element)[0];
+      expect(mobile).toBeInstanceOf(localElement);
+      expect(mobile.name).toBe("mobile");
+      expect(mobile.minOccurs).toBe(0);
+    });
+
+    test("should move a group reference to the given index", () => {
+      executeMoveNode(
+        moveCommand({
+          nodeId: `${PERSON_SEQUENCE_ID}/groupRef:AddressGroup[0]`,
+          newParentId: CHOICE_ID,
+          index: 0,
+        }),
+        schemaObj
+      );
+
+      const sequence = complexType("PersonType").sequence;
+      expect(sequence?.group).toBeUndefined();
+      expect(toArray(toArray(sequence?.choice)[0].group)[0].ref).toBe("AddressGroup");
+    });
+
+    test("should move a nested compositor with its content", () => {
+      executeMoveNode(
+        moveCommand({ nodeId: CHOICE_ID, newParentId: "/group:AddressGroup/sequence" }),
+        schemaObj
+      );
+
+      expect(complexType("PersonType").sequence?.choice).toBeUndefined();
+      const addressSequence = toArray(schemaObj.group)[0].sequence;
+      const choice = toArray(addressSequence?.choice)[0];
+      expect(toArray(choice.element).map((element) => element.name)).toEqual(["email", "fax"]);
+    });
+
+    test("should move an attribute into an attribute group", () => {
+      executeMoveNode(
+        moveCommand({
+          nodeId: "/complexType:PersonType/attribute:lang",
+          newParentId: "/attributeGroup:CommonAttributes",
+          index: 0,
+        }),
+        schemaObj
+      );
+
+      expect(toArray(complexType("PersonType").attribute).map((attr) => attr.name)).toEqual(["id"]);
+      const attributeGroup = toArray(schemaObj.attributeGroup)[0];
+      expect(toArray(attributeGroup.attribute).map((attr) => attr.name)).toEqual([
+        "lang",
+        "version",
+      ]);
+    });
+
+    test("should throw if the node is not found", () => {
+      expect(() =>
+        executeMoveNode(
+          moveCommand({ nodeId: `${PERSON_SEQUENCE_ID}/element:middleName`, newParentId: CHOICE_ID }),
+          schemaObj
+        )
+      ).toThrow(`Node not found: ${PERSON_SEQUENCE_ID}/element:middleName`);
+    });
+  });
+});
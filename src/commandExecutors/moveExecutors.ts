@@ -0,0 +1,50 @@
+/**
+ * Executor for the moveNode command.
+ * Moves an element, group reference, nested compositor or attribute to a new
+ * parent and position. The node is moved as is, with its annotations,
+ * anonymous types and nested content.
+ */
+
+import { schema, MoveNodeCommand } from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import { MovableNode, locateMovableNode, locateMoveTarget } from "./moveUtils";
+import { convertElement } from "./particleConversion";
+
+/**
+ * Executes a moveNode command.
+ * The node is removed from its parent and inserted among the nodes of the
+ * same kind in the new parent, at the given index or at the end. Elements
+ * moving into or out of an xs:all are converted to the element declaration
+ * class of their new compositor.
+ *
+ * @param command - The moveNode command to execute
+ * @param schemaObj - The schema object to modify
+ * @throws Error if the node or the new parent is not found
+ */
+export function executeMoveNode(command: MoveNodeCommand, schemaObj: schema): void {
+  const { nodeId, newParentId, index } = command.payload;
+
+  const source = locateMovableNode(schemaObj, nodeId);
+  if (!source.found) {
+    throw new Error(source.error);
+  }
+  const target = locateMoveTarget(schemaObj, newParentId, source);
+  if (!target.found) {
+    throw new Error(target.error);
+  }
+
+  const remaining = toArray(source.container[source.slot]).filter(
+    (node) => node !== source.node
+  );
+  source.container[source.slot] = remaining.length > 0 ? remaining : undefined;
+
+  let node: MovableNode = source.node;
+  const toAll = target.containerType === "all";
+  if (source.kind === "element" && (source.containerType === "all") !== toAll) {
+    node = convertElement(node, toAll);
+  }
+
+  const siblings = toArray(target.container[target.slot]);
+  siblings.splice(index ?? siblings.length, 0, node);
+  target.container[target.slot] = siblings;
+}
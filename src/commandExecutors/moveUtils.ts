@@ -0,0 +1,247 @@
+/**
+ * Shared helpers for the move executor and validator: locating the node to
+ * move and the container that receives it.
+ *
+ * Movable nodes are the particles of a compositor (elements, group
+ * references and nested sequences or choices) and the attributes of a
+ * complex type or attribute group. The generated classes keep the nodes of
+ * each kind in their own array, so a node is moved from the array of its
+ * kind in the old parent into the array of the same kind in the new parent.
+ */
+
+import { schema } from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import { parseSchemaId, ParsedSchemaId, SchemaNodeType } from "../../shared/idStrategy";
+import { locateNodeById } from "../schemaNavigator";
+import { isCompositorKind, locateCompositor } from "./compositorUtils";
+
+/** Kinds of node that can be moved. */
+export type MovableKind = "element" | "groupRef" | "compositor" | "attribute";
+
+/** Property of a container holding the array of moved nodes. */
+export type MoveSlot = "element" | "group" | "sequence" | "choice" | "attribute";
+
+/** A named or referencing node as stored in a container array. */
+export type MovableNode = { name?: string; ref?: string };
+
+/** Structural view of a container with one array per kind of child node. */
+export type MoveContainer = Partial<Record<MoveSlot, MovableNode[]>>;
+
+/** Result of locating the node to move. */
+export type MoveSourceLocation =
+  | {
+      found: true;
+      kind: MovableKind;
+      node: MovableNode;
+      /** Container holding the node */
+      container: MoveContainer;
+      /** Type of the container as reported by the schema navigator */
+      containerType: string;
+      /** Array of the container holding the node */
+      slot: MoveSlot;
+    }
+  | { found: false; error: string };
+
+/** Result of resolving the container that receives the moved node. */
+export type MoveTargetLocation =
+  | { found: true; container: MoveContainer; containerType: string; slot: MoveSlot }
+  | { found: false; error: string };
+
+/** Container types that hold particles. */
+const PARTICLE_CONTAINERS: readonly string[] = ["sequence", "choice", "all"];
+
+/** Container types that hold attributes. */
+const ATTRIBUTE_CONTAINERS: readonly string[] = [
+  "topLevelComplexType",
+  "localComplexType",
+  "namedAttributeGroup",
+];
+
+/**
+ * Returns true if a parsed ID addresses a compositor, in either the plain
+ * form (`choice[1]`) or the `group:choice` form used by the diagram.
+ */
+function isCompositorId(parsed: ParsedSchemaId): boolean {
+  return parsed.nodeType === SchemaNodeType.Group
+    ? isCompositorKind(parsed.name)
+    : !parsed.name && isCompositorKind(parsed.nodeType);
+}
+
+/**
+ * Finds a node in a container array by position or, without a position, by
+ * name or ref. A name given together with a position must match as well.
+ */
+function findInSlot(
+  nodes: MovableNode[],
+  name: string | undefined,
+  position: number | undefined,
+  matchName: (node: MovableNode, name: string) => boolean
+): MovableNode | undefined {
+  if (position !== undefined) {
+    const node = nodes[position];
+    return node && (name === undefined || matchName(node, name)) ? node : undefined;
+  }
+  return name !== undefined ? nodes.find((node) => matchName(node, name)) : undefined;
+}
+
+/**
+ * Locates a compositor to move; only compositors nested in a sequence or
+ * choice can be moved.
+ */
+function locateMovableCompositor(schemaObj: schema, nodeId: string): MoveSourceLocation {
+  const location = locateCompositor(schemaObj, nodeId);
+  if (!location.found) {
+    return location;
+  }
+  if (location.holderKind !== "compositor") {
+    return {
+      found: false,
+      error: `Only compositors nested in a sequence or choice can be moved: ${nodeId}`,
+    };
+  }
+  return {
+    found: true,
+    kind: "compositor",
+    node: location.compositor as MovableNode,
+    container: location.holder as MoveContainer,
+    containerType: nestingTypeOf(schemaObj, nodeId),
+    slot: location.kind,
+  };
+}
+
+/**
+ * Returns the type of the compositor holding a nested compositor.
+ */
+function nestingTypeOf(schemaObj: schema, nodeId: string): string {
+  const parentId = parseSchemaId(nodeId).parentId ?? "";
+  return locateNodeById(schemaObj, parentId).parentType ?? "";
+}
+
+/**
+ * Locates the node to move by its ID.
+ *
+ * @param schemaObj - The schema to search
+ * @param nodeId - ID of an element, group reference or compositor inside a
+ *   compositor, or of an attribute of a complex type or attribute group
+ * @returns The node with the container holding it, or an error message
+ */
+export function locateMovableNode(schemaObj: schema, nodeId: string): MoveSourceLocation {
+  let parsed;
+  try {
+    parsed = parseSchemaId(nodeId);
+  } catch (error) {
+    return { found: false, error: (error as Error).message };
+  }
+
+  if (isCompositorId(parsed)) {
+    return locateMovableCompositor(schemaObj, nodeId);
+  }
+
+  let kind: MovableKind;
+  let slot: MoveSlot;
+  let containerTypes: readonly string[];
+  if (parsed.nodeType === SchemaNodeType.Element) {
+    [kind, slot, containerTypes] = ["element", "element", PARTICLE_CONTAINERS];
+  } else if (parsed.nodeType === SchemaNodeType.GroupRef) {
+    [kind, slot, containerTypes] = ["groupRef", "group", ["sequence", "choice"]];
+  } else if (parsed.nodeType === SchemaNodeType.Attribute) {
+    [kind, slot, containerTypes] = ["attribute", "attribute", ATTRIBUTE_CONTAINERS];
+  } else {
+    return {
+      found: false,
+      error: `Only elements, group references, compositors and attributes can be moved: ${nodeId}`,
+    };
+  }
+
+  const parent = parsed.parentId ? locateNodeById(schemaObj, parsed.parentId) : undefined;
+  if (!parent?.found || !containerTypes.includes(parent.parentType ?? "")) {
+    return { found: false, error: `Node not found: ${nodeId}` };
+  }
+  const container = parent.parent as MoveContainer;
+  const node = findInSlot(
+    toArray(container[slot]),
+    parsed.name,
+    parsed.position,
+    kind === "groupRef"
+      ? (candidate, name): boolean => candidate.ref === name
+      : (candidate, name): boolean => candidate.name === name || candidate.ref === name
+  );
+  if (!node) {
+    return { found: false, error: `Node not found: ${nodeId}` };
+  }
+  return { found: true, kind, node, container, containerType: parent.parentType ?? "", slot };
+}
+
+/**
+ * Resolves the container that receives a moved node and checks that it
+ * accepts nodes of the given kind.
+ *
+ * @param schemaObj - The schema to search
+ * @param newParentId - ID of the new parent
+ * @param source - The located node to move
+ * @returns The receiving container, or an error message
+ */
+export function locateMoveTarget(
+  schemaObj: schema,
+  newParentId: string,
+  source: Extract<MoveSourceLocation, { found: true }>
+): MoveTargetLocation {
+  const location = locateNodeById(schemaObj, newParentId);
+  if (!location.found) {
+    return { found: false, error: `Target parent not found: ${newParentId}` };
+  }
+  const containerType = location.parentType ?? "";
+  const container = location.parent as MoveContainer;
+
+  switch (source.kind) {
+    case "element":
+      if (PARTICLE_CONTAINERS.includes(containerType)) {
+        return { found: true, container, containerType, slot: source.slot };
+      }
+      return {
+        found: false,
+        error: `Elements can only be moved into a sequence, choice or all, not into: ${containerType}`,
+      };
+    case "groupRef":
+    case "compositor":
+      if (containerType === "sequence" || containerType === "choice") {
+        return { found: true, container, containerType, slot: source.slot };
+      }
+      return {
+        found: false,
+        error: `${source.kind === "groupRef" ? "Group references" : "Compositors"} can only be moved into a sequence or choice, not into: ${containerType}`,
+      };
+    case "attribute":
+      if (ATTRIBUTE_CONTAINERS.includes(containerType)) {
+        return { found: true, container, containerType, slot: source.slot };
+      }
+      return {
+        found: false,
+        error: `Attributes can only be moved into complex types or attribute groups, not into: ${containerType}`,
+      };
+  }
+}
+
+/**
+ * Returns true if a node contains another node anywhere in its subtree.
+ *
+ * @param root - The node whose subtree is searched
+ * @param node - The node to find
+ */
+export function subtreeContains(root: unknown, node: unknown): boolean {
+  const visited = new Set<unknown>();
+  const pending: unknown[] = [root];
+  while (pending.length > 0) {
+    const current = pending.pop();
+    if (current === node) {
+      return true;
+    }
+    if (typeof current !== "object" || current === null || visited.has(current)) {
+      continue;
+    }
+    visited.add(current);
+    pending.push(...Object.values(current as Record<string, unknown>));
+  }
+  return false;
+}
+
@@ -0,0 +1,31 @@
+/**
+ * Conversion of element declarations between the generated classes used by
+ * xs:all (`narrowMaxMin`, string occurrences) and those used by sequences and
+ * choices (`localElement`, numeric occurrences).
+ */
+
+import { localElement, narrowMaxMin } from "../../shared/types";
+import { getParticleOccurrences } from "./compositorUtils";
+
+/**
+ * Converts an element declaration for use in an xs:all or in a sequence or
+ * choice. All other properties, including annotations and anonymous types,
+ * are kept.
+ *
+ * @param element - The element declaration to convert
+ * @param toAll - Whether the element is placed in an xs:all
+ * @returns The converted element declaration
+ */
+export function convertElement(
+  element: localElement | narrowMaxMin,
+  toAll: boolean
+): localElement | narrowMaxMin {
+  const { minOccurs, maxOccurs } = getParticleOccurrences(element);
+  if (toAll) {
+    return Object.assign(new narrowMaxMin(), element, {
+      minOccurs: minOccurs !== undefined ? String(minOccurs) : undefined,
+      maxOccurs: maxOccurs !== undefined ? String(maxOccurs) : undefined,
+    });
+  }
+  return Object.assign(new localElement(), element, { minOccurs, maxOccurs });
+}
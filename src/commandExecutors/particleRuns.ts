@@ -0,0 +1,155 @@
+/**
+ * Runs of adjacent element particles in a sequence or choice: locating the
+ * run chosen by a list of element IDs and finding identical runs in the other
+ * content models of the schema.
+ *
+ * The generated classes keep the elements of a compositor in their own array
+ * and write them before its other particles, so a run is a range of positions
+ * in that array. Only compositors holding nothing but elements are searched,
+ * and a run of a sequence must end it: the group reference replacing the run
+ * is written after the remaining elements, which keeps the particle order.
+ */
+
+import { schema, localElement } from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import { collectDeclarations, CompositorDeclaration } from "./declarationWalker";
+import { locateMovableNode } from "./moveUtils";
+
+/** Adjacent elements of a sequence or choice. */
+export interface ParticleRun extends CompositorDeclaration {
+  /** Position of the first element among the elements of the compositor */
+  start: number;
+  elements: localElement[];
+}
+
+/** Result of locating a run of particles. */
+export type ParticleRunLocation = ({ found: true } & ParticleRun) | { found: false; error: string };
+
+/**
+ * Returns true if two nodes of the schema have the same content, ignoring
+ * properties without a value.
+ */
+function isSameContent(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, i) => isSameContent(item, b[i]))
+    );
+  }
+  const entriesOf = (node: object): [string, unknown][] =>
+    Object.entries(node).filter(([, value]) => value !== undefined);
+  const entries = entriesOf(a);
+  const other = b as Record<string, unknown>;
+  return (
+    entries.length === entriesOf(b).length &&
+    entries.every(([key, value]) => isSameContent(value, other[key]))
+  );
+}
+
+/**
+ * Returns true if a compositor holds particles other than elements.
+ */
+function hasOtherParticles(compositor: CompositorDeclaration["compositor"]): boolean {
+  const particles: (object[] | undefined)[] = [
+    compositor.group,
+    compositor.choice,
+    compositor.sequence,
+    compositor.any_,
+  ];
+  return particles.some((list) => toArray(list).length > 0);
+}
+
+/**
+ * Locates the run of elements chosen by their IDs.
+ *
+ * @param schemaObj - The schema to search
+ * @param particleIds - IDs of elements in one sequence or choice, in any order
+ * @returns The run, or an error message if the elements are not adjacent
+ *   elements of the same sequence or choice, the compositor holds other
+ *   particles, or the run does not end its sequence
+ */
+export function locateParticleRun(schemaObj: schema, particleIds: string[]): ParticleRunLocation {
+  let declaration: CompositorDeclaration | undefined;
+  const positions = new Set<number>();
+  for (const particleId of particleIds) {
+    const location = locateMovableNode(schemaObj, particleId);
+    if (!location.found) {
+      return location;
+    }
+    if (location.kind !== "element") {
+      return { found: false, error: `Only elements can be extracted into a group: ${particleId}` };
+    }
+    if (location.containerType !== "sequence" && location.containerType !== "choice") {
+      return { found: false, error: "Elements of an all cannot be extracted into a group" };
+    }
+    if (declaration && declaration.compositor !== location.container) {
+      return { found: false, error: "Selected elements must belong to the same compositor" };
+    }
+    declaration = {
+      kind: location.containerType,
+      compositor: location.container as CompositorDeclaration["compositor"],
+    };
+    positions.add(toArray(location.container.element).indexOf(location.node));
+  }
+  if (!declaration) {
+    return { found: false, error: "No elements selected" };
+  }
+
+  const start = Math.min(...positions);
+  if (Math.max(...positions) - start + 1 !== positions.size) {
+    return { found: false, error: "Selected elements must be adjacent" };
+  }
+  if (hasOtherParticles(declaration.compositor)) {
+    return {
+      found: false,
+      error: "Elements can only be extracted from a sequence or choice holding only elements",
+    };
+  }
+  const allElements = toArray(declaration.compositor.element);
+  if (declaration.kind === "sequence" && start + positions.size !== allElements.length) {
+    return {
+      found: false,
+      error: "Only elements at the end of a sequence can be extracted into a group",
+    };
+  }
+  const elements = allElements.slice(start, start + positions.size);
+  return { found: true, ...declaration, start, elements };
+}
+
+/**
+ * Finds the runs of elements identical to a run in the other sequences or
+ * choices of the schema. Runs only match in a compositor of the same kind that
+ * holds nothing but elements, at the end of a sequence or anywhere in a
+ * choice. At most one run is found per compositor.
+ *
+ * @param schemaObj - The schema to search
+ * @param run - The run to look for
+ * @returns The identical runs
+ */
+export function findIdenticalRuns(schemaObj: schema, run: ParticleRun): ParticleRun[] {
+  const length = run.elements.length;
+  const found: ParticleRun[] = [];
+  for (const { kind, compositor } of collectDeclarations(schemaObj).compositors) {
+    if (kind !== run.kind || compositor === run.compositor || hasOtherParticles(compositor)) {
+      continue;
+    }
+    const elements = toArray(compositor.element);
+    const firstStart = kind === "sequence" ? elements.length - length : 0;
+    for (let start = Math.max(firstStart, 0); start + length <= elements.length; start++) {
+      const candidate = elements.slice(start, start + length);
+      if (candidate.every((el, i) => isSameContent(el, run.elements[i]))) {
+        found.push({ kind, compositor, start, elements: candidate });
+        break;
+      }
+    }
+  }
+  return found;
+}
@@ -0,0 +1,366 @@
+/**
+ * Unit tests for the refactoring executors.
+ * Tests renaming each kind of top-level component together with the QNames
+ * that resolve to it, and that references to other namespaces or symbol
+ * spaces are left alone. Tests safely deleting components by cascading to
+ * their dependants or by retargeting their references.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import {
+  schema,
+  RenameComponentCommand,
+  RenameComponentPayload,
+  SafeDeleteComponentCommand,
+  SafeDeleteComponentPayload,
+  topLevelComplexType,
+  topLevelSimpleType,
+} from "../../shared/types";
+import { executeRenameComponent, executeSafeDeleteComponent } from "./refactoringExecutors";
+import { toArray } from "../../shared/schemaUtils";
+
+const ORDER_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:orders"
+           xmlns:ext="urn:external"
+           targetNamespace="urn:orders">
+  <xs:import namespace="urn:external" schemaLocation="external.xsd"/>
+  <xs:element name="order" type="tns:OrderType"/>
+  <xs:element name="rushOrder" type="tns:OrderType" substitutionGroup="tns:order"/>
+  <xs:attribute name="currency" type="tns:CodeType"/>
+  <xs:complexType name="OrderType">
+    <xs:sequence>
+      <xs:element name="code" type="tns:CodeType"/>
+      <xs:element name="externalCode" type="ext:CodeType"/>
+      <xs:element ref="tns:order" minOccurs="0"/>
+      <xs:group ref="tns:LineGroup"/>
+    </xs:sequence>
+    <xs:attribute ref="tns:currency"/>
+    <xs:attributeGroup ref="tns:PriceAttributes"/>
+  </xs:complexType>
+  <xs:complexType name="SpecialOrderType">
+    <xs:complexContent>
+      <xs:extension base="tns:OrderType"/>
+    </xs:complexContent>
+  </xs:complexType>
+  <xs:simpleType name="CodeType">
+    <xs:restriction base="xs:string"/>
+  </xs:simpleType>
+  <xs:simpleType name="CodeList">
+    <xs:list itemType="tns:CodeType"/>
+  </xs:simpleType>
+  <xs:simpleType name="CodeOrNumber">
+    <xs:union memberTypes="tns:CodeType xs:int"/>
+  </xs:simpleType>
+  <xs:group name="LineGroup">
+    <xs:sequence>
+      <xs:element name="line" type="xs:string"/>
+    </xs:sequence>
+  </xs:group>
+  <xs:attributeGroup name="PriceAttributes">
+    <xs:attribute name="amount" type="xs:decimal"/>
+  </xs:attributeGroup>
+</xs:schema>`;
+
+describe("Refactoring Executors", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, ORDER_SCHEMA);
+  });
+
+  /** Builds a renameComponent command. */
+  function renameCommand(payload: RenameComponentPayload): RenameComponentCommand {
+    return { type: "renameComponent", payload };
+  }
+
+  /** Builds a safeDeleteComponent command. */
+  function safeDeleteCommand(payload: SafeDeleteComponentPayload): SafeDeleteComponentCommand {
+    return { type: "safeDeleteComponent", payload };
+  }
+
+  /** Returns the names of the top-level components of a kind. */
+  function namesOf(components: Array<{ name?: string }> | undefined): Array<string | undefined> {
+    return toArray(components).map((component) => component.name);
+  }
+
+  /** Returns the top-level complex type with a name. */
+  function complexType(name: string): topLevelComplexType {
+    const type = toArray(schemaObj.complexType).find((ct) => ct.name === name);
+    if (!type) {
+      throw new Error(`Complex type not found: ${name}`);
+    }
+    return type;
+  }
+
+  /** Returns the top-level simple type with a name. */
+  function simpleType(name: string): topLevelSimpleType {
+    const type = toArray(schemaObj.simpleType).find((st) => st.name === name);
+    if (!type) {
+      throw new Error(`Simple type not found: ${name}`);
+    }
+    return type;
+  }
+
+  describe("executeRenameComponent", () => {
+    test("should rename a simple type and its type, itemType and memberTypes references", () => {
+      executeRenameComponent(
+        renameCommand({ componentId: "/simpleType:CodeType", newName: "SkuType" }),
+        schemaObj
+      );
+
+      expect(simpleType("SkuType").restriction?.base).toBe("xs:string");
+      expect(toArray(schemaObj.attribute)[0].type_).toBe("tns:SkuType");
+      const elements = toArray(complexType("OrderType").sequence?.element);
+      expect(elements[0].type_).toBe("tns:SkuType");
+      expect(simpleType("CodeList").list?.itemType).toBe("tns:SkuType");
+      expect(simpleType("CodeOrNumber").union?.memberTypes).toBe("tns:SkuType xs:int");
+    });
+
+    test("should leave references to other namespaces unchanged", () => {
+      executeRenameComponent(
+        renameCommand({ componentId: "/simpleType:CodeType", newName: "SkuType" }),
+        schemaObj
+      );
+
+      const elements = toArray(complexType("OrderType").sequence?.element);
+      expect(elements[1].type_).toBe("ext:CodeType");
+    });
+
+    test("should rename a complex type and its type and base references", () => {
+      executeRenameComponent(
+        renameCommand({ componentId: "/complexType:OrderType", newName: "PurchaseOrderType" }),
+        schemaObj
+      );
+
+      expect(complexType("PurchaseOrderType")).toBeDefined();
+      expect(toArray(schemaObj.element).map((el) => el.type_)).toEqual([
+        "tns:PurchaseOrderType",
+        "tns:PurchaseOrderType",
+      ]);
+      expect(complexType("SpecialOrderType").complexContent?.extension?.base).toBe(
+        "tns:PurchaseOrderType"
+      );
+    });
+
+    test("should rename an element and its ref and substitutionGroup references", () => {
+      executeRenameComponent(
+        renameCommand({ componentId: "/element:order", newName: "purchaseOrder" }),
+        schemaObj
+      );
+
+      const [order, rushOrder] = toArray(schemaObj.element);
+      expect(order.name).toBe("purchaseOrder");
+      expect(rushOrder.substitutionGroup).toBe("tns:purchaseOrder");
+      const elements = toArray(complexType("OrderType").sequence?.element);
+      expect(elements[2].ref).toBe("tns:purchaseOrder");
+    });
+
+    test("should rename attributes, groups and attribute groups and their references", () => {
+      executeRenameComponent(
+        renameCommand({ componentId: "/attribute:currency", newName: "currencyCode" }),
+        schemaObj
+      );
+      executeRenameComponent(
+        renameCommand({ componentId: "/group:LineGroup", newName: "LineItems" }),
+        schemaObj
+      );
+      executeRenameComponent(
+        renameCommand({ componentId: "/attributeGroup:PriceAttributes", newName: "Pricing" }),
+        schemaObj
+      );
+
+      const orderType = complexType("OrderType");
+      expect(toArray(orderType.attribute)[0].ref).toBe("tns:currencyCode");
+      expect(toArray(orderType.sequence?.group)[0].ref).toBe("tns:LineItems");
+      expect(toArray(orderType.attributeGroup)[0].ref).toBe("tns:Pricing");
+      expect(toArray(schemaObj.group)[0].name).toBe("LineItems");
+      expect(toArray(schemaObj.attributeGroup)[0].name).toBe("Pricing");
+    });
+
+    test("should not rewrite equally named references of another symbol space", () => {
+      executeRenameComponent(
+        renameCommand({ componentId: "/group:LineGroup", newName: "OrderType" }),
+        schemaObj
+      );
+      executeRenameComponent(
+        renameCommand({ componentId: "/complexType:OrderType", newName: "PurchaseOrderType" }),
+        schemaObj
+      );
+      expect(toArray(complexType("PurchaseOrderType").sequence?.group)[0].ref).toBe(
+        "tns:OrderType"
+      );
+    });
+
+    test("should rewrite unprefixed references in a schema without target namespace", () => {
+      schemaObj = unmarshal(
+        schema,
+        `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="code" type="CodeType"/>
+  <xs:simpleType name="CodeType">
+    <xs:restriction base="xs:string"/>
+  </xs:simpleType>
+</xs:schema>`
+      );
+
+      executeRenameComponent(
+        renameCommand({ componentId: "/simpleType:CodeType", newName: "SkuType" }),
+        schemaObj
+      );
+
+      expect(toArray(schemaObj.element)[0].type_).toBe("SkuType");
+    });
+
+    test("should throw if the component does not exist", () => {
+      expect(() =>
+        executeRenameComponent(
+          renameCommand({ componentId: "/complexType:Missing", newName: "Other" }),
+          schemaObj
+        )
+      ).toThrow("Component not found: /complexType:Missing");
+    });
+  });
+
+  describe("executeSafeDeleteComponent", () => {
+    test("should delete a simple type with its dependants", () => {
+      executeSafeDeleteComponent(
+        safeDeleteCommand({ componentId: "/simpleType:CodeType", strategy: "cascade" }),
+        schemaObj
+      );
+
+      expect(namesOf(schemaObj.simpleType)).toEqual(["CodeOrNumber"]);
+      expect(simpleType("CodeOrNumber").union?.memberTypes).toBe("xs:int");
+      expect(schemaObj.attribute).toBeUndefined();
+      const orderType = complexType("OrderType");
+      expect(toArray(orderType.sequence?.element).map((el) => el.name ?? el.ref)).toEqual([
+        "externalCode",
+        "tns:order",
+      ]);
+      // The reference to the removed attribute is removed in turn
+      expect(orderType.attribute).toBeUndefined();
+    });
+
+    test("should delete the components deriving from or typed by a complex type", () => {
+      executeSafeDeleteComponent(
+        safeDeleteCommand({ componentId: "/complexType:OrderType", strategy: "cascade" }),
+        schemaObj
+      );
+
+      expect(schemaObj.complexType).toBeUndefined();
+      expect(schemaObj.element).toBeUndefined();
+      expect(namesOf(schemaObj.simpleType)).toEqual(["CodeType", "CodeList", "CodeOrNumber"]);
+    });
+
+    test("should delete group and attribute group references", () => {
+      executeSafeDeleteComponent(
+        safeDeleteCommand({ componentId: "/group:LineGroup", strategy: "cascade" }),
+        schemaObj
+      );
+      executeSafeDeleteComponent(
+        safeDeleteCommand({ componentId: "/attributeGroup:PriceAttributes", strategy: "cascade" }),
+        schemaObj
+      );
+
+      expect(schemaObj.group).toBeUndefined();
+      expect(schemaObj.attributeGroup).toBeUndefined();
+      const orderType = complexType("OrderType");
+      expect(orderType.sequence?.group).toBeUndefined();
+      expect(orderType.attributeGroup).toBeUndefined();
+      expect(toArray(orderType.sequence?.element)).toHaveLength(3);
+    });
+
+    test("should remove dependant anonymous types and keyrefs but keep their elements", () => {
+      schemaObj = unmarshal(
+        schema,
+        `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="products">
+    <xs:key name="productKey">
+      <xs:selector xpath="product"/>
+      <xs:field xpath="@id"/>
+    </xs:key>
+  </xs:element>
+  <xs:element name="catalog">
+    <xs:simpleType>
+      <xs:restriction base="CodeType"/>
+    </xs:simpleType>
+    <xs:keyref name="productRef" refer="productKey">
+      <xs:selector xpath="item"/>
+      <xs:field xpath="@product"/>
+    </xs:keyref>
+  </xs:element>
+  <xs:simpleType name="CodeType">
+    <xs:restriction base="xs:string"/>
+  </xs:simpleType>
+</xs:schema>`
+      );
+
+      executeSafeDeleteComponent(
+        safeDeleteCommand({ componentId: "/simpleType:CodeType", strategy: "cascade" }),
+        schemaObj
+      );
+      executeSafeDeleteComponent(
+        safeDeleteCommand({ componentId: "/element:products", strategy: "cascade" }),
+        schemaObj
+      );
+
+      const catalog = toArray(schemaObj.element)[0];
+      expect(namesOf(schemaObj.element)).toEqual(["catalog"]);
+      expect(catalog.simpleType).toBeUndefined();
+      expect(catalog.keyref).toBeUndefined();
+    });
+
+    test("should retarget the references of a simple type to a built-in type", () => {
+      executeSafeDeleteComponent(
+        safeDeleteCommand({
+          componentId: "/simpleType:CodeType",
+          strategy: "retarget",
+          replacement: "xs:string",
+        }),
+        schemaObj
+      );
+
+      expect(namesOf(schemaObj.simpleType)).toEqual(["CodeList", "CodeOrNumber"]);
+      expect(toArray(schemaObj.attribute)[0].type_).toBe("xs:string");
+      expect(toArray(complexType("OrderType").sequence?.element)[0].type_).toBe("xs:string");
+      expect(simpleType("CodeList").list?.itemType).toBe("xs:string");
+      expect(simpleType("CodeOrNumber").union?.memberTypes).toBe("xs:string xs:int");
+    });
+
+    test("should retarget the references of a complex type to an imported type", () => {
+      executeSafeDeleteComponent(
+        safeDeleteCommand({
+          componentId: "/complexType:OrderType",
+          strategy: "retarget",
+          replacement: "ext:OrderType",
+        }),
+        schemaObj
+      );
+
+      expect(namesOf(schemaObj.complexType)).toEqual(["SpecialOrderType"]);
+      expect(toArray(schemaObj.element).map((el) => el.type_)).toEqual([
+        "ext:OrderType",
+        "ext:OrderType",
+      ]);
+      expect(complexType("SpecialOrderType").complexContent?.extension?.base).toBe(
+        "ext:OrderType"
+      );
+    });
+
+    test("should throw if the component does not exist or no replacement is given", () => {
+      expect(() =>
+        executeSafeDeleteComponent(
+          safeDeleteCommand({ componentId: "/group:Missing", strategy: "cascade" }),
+          schemaObj
+        )
+      ).toThrow("Component not found: /group:Missing");
+      expect(() =>
+        executeSafeDeleteComponent(
+          safeDeleteCommand({ componentId: "/simpleType:CodeType", strategy: "retarget" }),
+          schemaObj
+        )
+      ).toThrow("A replacement is required to retarget references");
+    });
+  });
+});
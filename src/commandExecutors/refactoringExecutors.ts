@@ -0,0 +1,85 @@
+/**
+ * Executors for refactoring commands.
+ * Refactorings change the structure of the schema and update the rest of the
+ * schema so that it keeps referring to the same components.
+ */
+
+import {
+  schema,
+  RenameComponentCommand,
+  SafeDeleteComponentCommand,
+} from "../../shared/types";
+import {
+  isQNameOfComponent,
+  locateComponent,
+  referenceKindOf,
+  removeComponent,
+  renameComponentReferences,
+} from "./componentReferences";
+import { deleteWithDependants } from "./dependantRemoval";
+import { rewriteQNamesInSchema } from "./schemaQNameTraversal";
+
+/**
+ * Executes a renameComponent command.
+ * Renames a top-level component and rewrites every QName that resolves to
+ * it, keeping the prefix each reference uses.
+ *
+ * @param command - The renameComponent command to execute
+ * @param schemaObj - The schema object to modify
+ * @throws Error if the component is not found
+ */
+export function executeRenameComponent(
+  command: RenameComponentCommand,
+  schemaObj: schema
+): void {
+  const { componentId, newName } = command.payload;
+
+  const location = locateComponent(schemaObj, componentId);
+  if (!location.found) {
+    throw new Error(location.error);
+  }
+
+  const oldName = location.component.name ?? "";
+  location.component.name = newName;
+  renameComponentReferences(schemaObj, location.kind, oldName, newName);
+}
+
+/**
+ * Executes a safeDeleteComponent command.
+ * Deletes a top-level component, then either removes everything that refers
+ * to it or rewrites every QName that resolves to it to the replacement.
+ *
+ * @param command - The safeDeleteComponent command to execute
+ * @param schemaObj - The schema object to modify
+ * @throws Error if the component is not found or no replacement is given
+ *   for the retarget strategy
+ */
+export function executeSafeDeleteComponent(
+  command: SafeDeleteComponentCommand,
+  schemaObj: schema
+): void {
+  const { componentId, strategy, replacement } = command.payload;
+
+  const location = locateComponent(schemaObj, componentId);
+  if (!location.found) {
+    throw new Error(location.error);
+  }
+  if (strategy === "retarget" && !replacement) {
+    throw new Error("A replacement is required to retarget references");
+  }
+
+  if (strategy === "retarget" && replacement) {
+    const name = location.component.name ?? "";
+    const referenceKind = referenceKindOf(location.kind);
+    removeComponent(schemaObj, location.kind, location.component);
+    rewriteQNamesInSchema(
+      (value, valueKind) =>
+        valueKind === referenceKind && isQNameOfComponent(value, name, schemaObj)
+          ? replacement
+          : value,
+      schemaObj
+    );
+    return;
+  }
+  deleteWithDependants(schemaObj, location.kind, location.component);
+}
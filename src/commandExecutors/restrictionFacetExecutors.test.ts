@@ -0,0 +1,191 @@
+/**
+ * Unit tests for restriction facets in the type executors.
+ * Tests multiple patterns, documented enumeration values and the facets of
+ * simpleContent restrictions.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import {
+  schema,
+  ModifySimpleTypeCommand,
+  ModifySimpleTypePayload,
+  AddComplexTypeCommand,
+  ModifyComplexTypeCommand,
+  ModifyComplexTypePayload,
+  topLevelSimpleType,
+  topLevelComplexType,
+} from "../../shared/types";
+import {
+  executeModifySimpleType,
+  executeAddComplexType,
+  executeModifyComplexType,
+} from "./typeExecutors";
+import { toArray } from "../../shared/schemaUtils";
+
+const SCHEMA_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:sizes" targetNamespace="urn:sizes">
+  <xs:simpleType name="SizeCode">
+    <xs:restriction base="xs:token">
+      <xs:enumeration value="S">
+        <xs:annotation>
+          <xs:documentation>Small</xs:documentation>
+        </xs:annotation>
+      </xs:enumeration>
+      <xs:enumeration value="M"/>
+    </xs:restriction>
+  </xs:simpleType>
+  <xs:complexType name="SizeType">
+    <xs:simpleContent>
+      <xs:extension base="tns:SizeCode">
+        <xs:attribute name="system" type="xs:string"/>
+      </xs:extension>
+    </xs:simpleContent>
+  </xs:complexType>
+  <xs:complexType name="LabelType">
+    <xs:simpleContent>
+      <xs:extension base="xs:token"/>
+    </xs:simpleContent>
+  </xs:complexType>
+  <xs:complexType name="EuropeanSizeType">
+    <xs:simpleContent>
+      <xs:restriction base="tns:SizeType">
+        <xs:enumeration value="M"/>
+      </xs:restriction>
+    </xs:simpleContent>
+  </xs:complexType>
+</xs:schema>`;
+
+describe("Restriction Facet Executors", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, SCHEMA_XML);
+  });
+
+  /** Returns the top-level simple type with the given name. */
+  function simpleType(name: string): topLevelSimpleType {
+    return toArray(schemaObj.simpleType).find((type) => type.name === name)!;
+  }
+
+  /** Returns the top-level complex type with the given name. */
+  function complexType(name: string): topLevelComplexType {
+    return toArray(schemaObj.complexType).find((type) => type.name === name)!;
+  }
+
+  /** Builds a modifySimpleType command. */
+  function modifySimpleType(payload: ModifySimpleTypePayload): ModifySimpleTypeCommand {
+    return { type: "modifySimpleType", payload };
+  }
+
+  /** Builds a modifyComplexType command. */
+  function modifyComplexType(payload: ModifyComplexTypePayload): ModifyComplexTypeCommand {
+    return { type: "modifyComplexType", payload };
+  }
+
+  describe("simple type facets", () => {
+    it("should add a pattern facet for each pattern", () => {
+      executeModifySimpleType(
+        modifySimpleType({
+          typeId: "/simpleType:SizeCode",
+          restrictions: { pattern: ["[SML]", "X+L"] },
+        }),
+        schemaObj
+      );
+
+      const patterns = toArray(simpleType("SizeCode").restriction?.pattern);
+      expect(patterns.map((pattern) => pattern.value)).toEqual(["[SML]", "X+L"]);
+    });
+
+    it("should keep the documentation of enumeration values given as plain strings", () => {
+      const annotation = toArray(simpleType("SizeCode").restriction?.enumeration)[0].annotation;
+
+      executeModifySimpleType(
+        modifySimpleType({
+          typeId: "/simpleType:SizeCode",
+          restrictions: { enumeration: ["S", "M", "L"] },
+        }),
+        schemaObj
+      );
+
+      const enumeration = toArray(simpleType("SizeCode").restriction?.enumeration);
+      expect(enumeration.map((value) => value.value)).toEqual(["S", "M", "L"]);
+      expect(annotation).toBeDefined();
+      expect(enumeration[0].annotation).toBe(annotation);
+      expect(enumeration[1].annotation).toBeUndefined();
+    });
+
+    it("should set and remove the documentation of enumeration values", () => {
+      executeModifySimpleType(
+        modifySimpleType({
+          typeId: "/simpleType:SizeCode",
+          restrictions: {
+            enumeration: [
+              { value: "S", documentation: "" },
+              { value: "M", documentation: "Medium" },
+            ],
+          },
+        }),
+        schemaObj
+      );
+
+      const enumeration = toArray(simpleType("SizeCode").restriction?.enumeration);
+      expect(enumeration[0].annotation).toBeUndefined();
+      expect(toArray(enumeration[1].annotation?.documentation)[0].value).toBe("Medium");
+    });
+  });
+
+  describe("simpleContent facets", () => {
+    it("should add a simpleContent restriction with facets", () => {
+      const command: AddComplexTypeCommand = {
+        type: "addComplexType",
+        payload: {
+          typeName: "SmallSizeType",
+          contentKind: "simple",
+          baseType: "tns:SizeType",
+          derivation: "restriction",
+          restrictions: { enumeration: ["S"], pattern: ["S"] },
+        },
+      };
+
+      executeAddComplexType(command, schemaObj);
+
+      const restriction = complexType("SmallSizeType").simpleContent?.restriction;
+      expect(restriction?.base).toBe("tns:SizeType");
+      expect(toArray(restriction?.enumeration)[0].value).toBe("S");
+      expect(toArray(restriction?.pattern)[0].value).toBe("S");
+    });
+
+    it("should replace the facets of a simpleContent restriction", () => {
+      executeModifyComplexType(
+        modifyComplexType({
+          typeId: "/complexType:EuropeanSizeType",
+          restrictions: { maxLength: 1 },
+        }),
+        schemaObj
+      );
+
+      const restriction = complexType("EuropeanSizeType").simpleContent?.restriction;
+      expect(restriction?.base).toBe("tns:SizeType");
+      expect(restriction?.enumeration).toBeUndefined();
+      expect(toArray(restriction?.maxLength)[0].value).toBe(1);
+    });
+
+    it("should apply facets when a simpleContent extension becomes a restriction", () => {
+      executeModifyComplexType(
+        modifyComplexType({
+          typeId: "/complexType:SizeType",
+          baseType: "tns:LabelType",
+          derivation: "restriction",
+          restrictions: { enumeration: ["M"] },
+        }),
+        schemaObj
+      );
+
+      const simpleContent = complexType("SizeType").simpleContent;
+      expect(simpleContent?.extension).toBeUndefined();
+      expect(toArray(simpleContent?.restriction?.enumeration)[0].value).toBe("M");
+      expect(toArray(simpleContent?.restriction?.attribute)[0].name).toBe("system");
+    });
+  });
+});
@@ -1,6 +1,7 @@
 /**
- * Executors for schema-level commands (imports and includes).
- * Implements add, remove, and modify operations for schema imports and includes.
+ * Executors for schema-level commands (imports, includes and the schema root attributes).
+ * Implements add, remove, and modify operations for schema imports and includes,
+ * and the modification of the attributes of the schema root.
  *
  * Import ID Convention:
  * - Imports are addressed by position using XPath-like IDs: /import[N]
@@ -31,10 +32,15 @@ import {
   AddIncludeCommand,
   RemoveIncludeCommand,
   ModifyIncludeCommand,
+  ModifySchemaCommand,
+  blockSet,
+  fullDerivationSet,
+  formChoice,
 } from "../../shared/types";
 import { toArray } from "../../shared/schemaUtils";
 import { parseSchemaId } from "../../shared/idStrategy";
 import { rewritePrefixInSchema } from "./schemaQNameRewriter";
+import { listOrUndefined, valueOrUndefined } from "./elementPropertyUtils";
 
 // ===== Helpers =====
 
@@ -54,15 +60,16 @@ function resolveImport(
 
 /**
  * Generates a unique namespace prefix that is not already present in
- * schema._namespacePrefixes. Candidates are "ns0", "ns1", "ns2", …
+ * schema._namespacePrefixes. Candidates are "ns0", "ns1", "ns2", … or the
+ * same numbered variants of another base.
  */
-function generateUniquePrefix(schemaObj: schema): string {
+function generateUniquePrefix(schemaObj: schema, base = "ns"): string {
   const existing = new Set(Object.keys(schemaObj._namespacePrefixes ?? {}));
   let i = 0;
-  while (existing.has(`ns${i}`)) {
+  while (existing.has(`${base}${i}`)) {
     i++;
   }
-  return `ns${i}`;
+  return `${base}${i}`;
 }
 
 /**
@@ -291,3 +298,116 @@ export function executeModifyInclude(
   includes[index].schemaLocation = schemaLocation;
 }
 
+// ===== Schema Root Executors =====
+
+/**
+ * Moves the namespace prefix bindings of the schema from the old target
+ * namespace to the new one and keeps QName references resolving to the
+ * schema's own components.
+ *
+ * - Prefixes bound to the old target namespace are rebound to the new one.
+ * - Without such a prefix, `tns` (or `tns0`, `tns1`, … when taken) is bound to
+ *   the new namespace; if the schema had no target namespace, unprefixed
+ *   references named the schema's components and are rewritten to use it.
+ * - When the target namespace is removed, its prefixes are unbound and the
+ *   references using them become unprefixed. The validator rejects this while
+ *   the default namespace is bound to another namespace.
+ */
+function rebindTargetNamespace(
+  oldNamespace: string | undefined,
+  newNamespace: string | undefined,
+  schemaObj: schema
+): void {
+  const prefixes = schemaObj._namespacePrefixes ?? {};
+  const boundPrefixes = oldNamespace
+    ? Object.keys(prefixes).filter((pfx) => prefixes[pfx] === oldNamespace)
+    : [];
+
+  if (!newNamespace) {
+    for (const pfx of boundPrefixes) {
+      delete prefixes[pfx];
+      rewritePrefixInSchema(pfx, "", schemaObj);
+    }
+  } else if (boundPrefixes.length > 0) {
+    for (const pfx of boundPrefixes) {
+      prefixes[pfx] = newNamespace;
+    }
+  } else {
+    const prefix = prefixes.tns === undefined ? "tns" : generateUniquePrefix(schemaObj, "tns");
+    prefixes[prefix] = newNamespace;
+    if (!oldNamespace) {
+      rewritePrefixInSchema("", prefix, schemaObj);
+    }
+  }
+
+  schemaObj._namespacePrefixes = Object.keys(prefixes).length > 0 ? prefixes : undefined;
+}
+
+/**
+ * Executes a modifySchema command.
+ *
+ * Updates the attributes of the schema root that are present in the payload;
+ * an empty string removes an attribute. `xml:lang` is stored in the
+ * `_anyAttributes` map. Changing the target namespace also rebinds the
+ * namespace prefixes (see {@link rebindTargetNamespace}).
+ *
+ * @param command - The modifySchema command to execute
+ * @param schemaObj - The schema object to modify
+ */
+export function executeModifySchema(
+  command: ModifySchemaCommand,
+  schemaObj: schema
+): void {
+  const {
+    targetNamespace,
+    elementFormDefault,
+    attributeFormDefault,
+    blockDefault,
+    finalDefault,
+    version,
+    lang,
+  } = command.payload;
+
+  if (targetNamespace !== undefined) {
+    const oldNamespace = schemaObj.targetNamespace;
+    const newNamespace = valueOrUndefined(targetNamespace);
+    schemaObj.targetNamespace = newNamespace;
+    if (newNamespace !== oldNamespace) {
+      rebindTargetNamespace(oldNamespace, newNamespace, schemaObj);
+    }
+  }
+
+  if (elementFormDefault !== undefined) {
+    schemaObj.elementFormDefault = elementFormDefault ? formChoice[elementFormDefault] : undefined;
+  }
+  if (attributeFormDefault !== undefined) {
+    schemaObj.attributeFormDefault = attributeFormDefault
+      ? formChoice[attributeFormDefault]
+      : undefined;
+  }
+  // The generated types model these lists loosely; the attributes are stored
+  // in their lexical form, as unmarshalling produces them
+  if (blockDefault !== undefined) {
+    schemaObj.blockDefault = listOrUndefined(blockDefault) as blockSet | undefined;
+  }
+  if (finalDefault !== undefined) {
+    schemaObj.finalDefault = listOrUndefined(finalDefault) as fullDerivationSet | undefined;
+  }
+  if (version !== undefined) {
+    schemaObj.version = valueOrUndefined(version);
+  }
+
+  if (lang !== undefined) {
+    const language = valueOrUndefined(lang);
+    if (!language) {
+      if (schemaObj._anyAttributes) {
+        delete schemaObj._anyAttributes["xml:lang"];
+      }
+    } else {
+      if (!schemaObj._anyAttributes) {
+        schemaObj._anyAttributes = {};
+      }
+      schemaObj._anyAttributes["xml:lang"] = language;
+    }
+  }
+}
@@ -1,5 +1,5 @@
 /**
- * Unit tests for rewritePrefixInSchema.
+ * Unit tests for rewritePrefixInSchema and the prefix lookups.
  *
  * These tests call rewritePrefixInSchema directly to verify that every
  * QName-valued field in the schema tree is rewritten correctly.  Integration
@@ -35,7 +35,11 @@ import {
   attribute,
   keyrefType,
 } from "../../shared/types";
-import { rewritePrefixInSchema, isPrefixReferencedInSchema, isAnyPrefixReferencedInSchema } from "./schemaQNameRewriter";
+import {
+  rewritePrefixInSchema,
+  isPrefixReferencedInSchema,
+  isAnyPrefixReferencedInSchema,
+} from "./schemaQNameRewriter";
 import { toArray } from "../../shared/schemaUtils";
 
 // ---------------------------------------------------------------------------
@@ -73,6 +77,45 @@ describe("rewritePrefixInSchema — no-op cases", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Empty prefixes
+// ---------------------------------------------------------------------------
+
+describe("rewritePrefixInSchema — empty prefixes", () => {
+  it("should prefix unprefixed names but not built-in type names", () => {
+    const s = emptySchema();
+    const el = new topLevelElement();
+    el.name = "order";
+    el.type_ = "OrderType";
+    el.substitutionGroup = "xs:item";
+    const st = new topLevelSimpleType();
+    st.name = "Codes";
+    const u = new unionType();
+    u.memberTypes = "string Code xs:int";
+    st.union = u;
+    s.element = [el];
+    s.simpleType = [st];
+
+    rewritePrefixInSchema("", "tns", s);
+
+    expect(toArray(s.element)[0].type_).toBe("tns:OrderType");
+    expect(toArray(s.element)[0].substitutionGroup).toBe("xs:item");
+    expect(toArray(s.simpleType)[0].union?.memberTypes).toBe("string tns:Code xs:int");
+  });
+
+  it("should remove the prefix when the new prefix is empty", () => {
+    const s = emptySchema();
+    const el = new topLevelElement();
+    el.name = "order";
+    el.type_ = "tns:OrderType";
+    s.element = [el];
+
+    rewritePrefixInSchema("tns", "", s);
+
+    expect(toArray(s.element)[0].type_).toBe("OrderType");
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Top-level elements
 // ---------------------------------------------------------------------------
@@ -0,0 +1,152 @@
+/**
+ * Unit tests for rewriteQNamesInSchema and forEachQNameInSchema.
+ *
+ * Rewriting namespace prefixes on top of this traversal is covered in
+ * schemaQNameRewriter.test.ts.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import {
+  schema,
+  topLevelComplexType,
+  topLevelSimpleType,
+  topLevelElement,
+  explicitGroup,
+  unionType,
+  groupRef,
+  attributeGroupRef,
+  attribute,
+} from "../../shared/types";
+import {
+  forEachQNameInSchema,
+  rewriteQNamesInSchema,
+  QNameReferenceKind,
+  QNameSite,
+} from "./schemaQNameTraversal";
+
+function emptySchema(): schema {
+  return unmarshal(
+    schema,
+    `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"></xs:schema>`
+  );
+}
+
+// ---------------------------------------------------------------------------
+// rewriteQNamesInSchema
+// ---------------------------------------------------------------------------
+
+describe("rewriteQNamesInSchema", () => {
+  it("passes the kind of component each QName refers to", () => {
+    const s = emptySchema();
+    const el = new topLevelElement();
+    el.name = "order";
+    el.type_ = "tns:OrderType";
+    el.substitutionGroup = "tns:item";
+    const ct = new topLevelComplexType();
+    ct.name = "OrderType";
+    const seq = new explicitGroup();
+    const gr = new groupRef();
+    gr.ref = "tns:Lines";
+    seq.group = [gr];
+    ct.sequence = seq;
+    const attr = new attribute();
+    attr.ref = "tns:currency";
+    ct.attribute = [attr];
+    const agr = new attributeGroupRef();
+    agr.ref = "tns:Prices";
+    ct.attributeGroup = [agr];
+    s.element = [el];
+    s.complexType = [ct];
+
+    const seen: [string, QNameReferenceKind][] = [];
+    rewriteQNamesInSchema((value, kind) => {
+      seen.push([value, kind]);
+      return value;
+    }, s);
+
+    expect(seen).toEqual(
+      expect.arrayContaining([
+        ["tns:OrderType", "type"],
+        ["tns:item", "element"],
+        ["tns:Lines", "group"],
+        ["tns:currency", "attribute"],
+        ["tns:Prices", "attributeGroup"],
+      ])
+    );
+    expect(seen).toHaveLength(5);
+  });
+
+  it("rewrites each memberTypes token and keeps the spacing of unchanged lists", () => {
+    const s = emptySchema();
+    const changed = new topLevelSimpleType();
+    changed.name = "Changed";
+    changed.union = new unionType();
+    changed.union.memberTypes = "tns:A  xs:int";
+    const unchanged = new topLevelSimpleType();
+    unchanged.name = "Unchanged";
+    unchanged.union = new unionType();
+    unchanged.union.memberTypes = "xs:int\n  xs:string";
+    s.simpleType = [changed, unchanged];
+
+    rewriteQNamesInSchema((value) => (value === "tns:A" ? "tns:B" : value), s);
+
+    expect(changed.union.memberTypes).toBe("tns:B xs:int");
+    expect(unchanged.union.memberTypes).toBe("xs:int\n  xs:string");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// forEachQNameInSchema
+// ---------------------------------------------------------------------------
+
+describe("forEachQNameInSchema", () => {
+  /** Collects the sites of the QNames with a given value. */
+  function sitesOf(s: schema, value: string): QNameSite[] {
+    const sites: QNameSite[] = [];
+    forEachQNameInSchema((qname, _kind, site) => {
+      if (qname === value) sites.push(site);
+    }, s);
+    return sites;
+  }
+
+  it("reports QNames in nested compositors at the innermost compositor", () => {
+    const s = unmarshal(
+      schema,
+      `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema" xmlns:tns="urn:t" targetNamespace="urn:t">
+  <xs:complexType name="OrderType">
+    <xs:sequence>
+      <xs:element name="code" type="tns:Code"/>
+      <xs:choice>
+        <xs:element name="a" type="tns:Code"/>
+      </xs:choice>
+      <xs:choice>
+        <xs:sequence>
+          <xs:group ref="tns:Lines"/>
+        </xs:sequence>
+        <xs:element name="b" type="tns:Code"/>
+      </xs:choice>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:group name="Lines">
+    <xs:sequence>
+      <xs:choice>
+        <xs:element name="line" type="tns:Code"/>
+      </xs:choice>
+    </xs:sequence>
+  </xs:group>
+</xs:schema>`
+    );
+
+    expect(sitesOf(s, "tns:Code")).toEqual([
+      { nodeId: "/complexType:OrderType/group:sequence/element:code[0]", attribute: "type" },
+      { nodeId: "/complexType:OrderType/group:sequence/choice[0]", attribute: "type" },
+      { nodeId: "/complexType:OrderType/group:sequence/choice[1]", attribute: "type" },
+      { nodeId: "/group:Lines", attribute: "type" },
+    ]);
+    expect(sitesOf(s, "tns:Lines")).toEqual([
+      { nodeId: "/complexType:OrderType/group:sequence/choice[1]/sequence[0]", attribute: "ref" },
+    ]);
+  });
+});
@@ -0,0 +1,469 @@
+/**
+ * Traversal of the QName-valued attributes in the schema tree, shared by
+ * every feature that reads or rewrites references between components.
+ *
+ * - {@link rewriteQNamesInSchema} — walks the entire schema object tree and
+ *   applies a caller-supplied rewrite to every QName, telling it the kind of
+ *   component the QName refers to and where the QName occurs.
+ * - {@link forEachQNameInSchema} — performs the same traversal read-only.
+ *
+ * All helper functions are module-private.
+ *
+ * Type aliases:
+ * - {@link AttributeBearer} — union of the four generated classes that carry
+ *   `base`, `attribute`, and `attributeGroup` fields.
+ * - {@link CompositorBearer} — subset of AttributeBearer that also carries
+ *   compositor content (`group`, `all`, `choice`, `sequence`).
+ *
+ * No shadow structural types are used; every alias references the actual
+ * generated classes so that TypeScript catches incompatibilities at compile
+ * time when the generated model changes.
+ */
+
+import {
+  schema,
+  topLevelComplexType,
+  localComplexType,
+  topLevelSimpleType,
+  localSimpleType,
+  extensionType,
+  complexRestrictionType,
+  simpleExtensionType,
+  simpleRestrictionType,
+  explicitGroup,
+  simpleExplicitGroup,
+  topLevelElement,
+  localElement,
+  narrowMaxMin,
+  attribute,
+  topLevelAttribute,
+  namedGroup,
+  namedAttributeGroup,
+} from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import { generateSchemaId, IdGenerationParams, SchemaNodeType } from "../../shared/idStrategy";
+
+// ===== Type aliases =====
+
+/**
+ * complexContent extension or restriction — carry base plus full compositor
+ * content (group, all, choice, sequence, attribute, attributeGroup).
+ */
+type CompositorBearer = extensionType | complexRestrictionType;
+
+/**
+ * Any arm of simpleContent or complexContent — carry base, attribute, and
+ * attributeGroup at minimum.
+ */
+type AttributeBearer = simpleExtensionType | simpleRestrictionType | CompositorBearer;
+
+// ===== QName traversal =====
+
+/**
+ * Kind of component a QName-valued attribute refers to. Simple and complex
+ * types share one symbol space, so both are `type`.
+ */
+export type QNameReferenceKind =
+  | "type"
+  | "element"
+  | "attribute"
+  | "group"
+  | "attributeGroup"
+  | "identityConstraint";
+
+/**
+ * Where a QName occurs in the schema.
+ */
+export interface QNameSite {
+  /**
+   * ID of the closest enclosing node that has one, as the diagram and the
+   * source range index derive it
+   */
+  nodeId: string;
+  /** Name of the attribute holding the QName, e.g. "type" or "memberTypes" */
+  attribute: string;
+  /**
+   * What a type reference requires of the type it refers to. Unset for
+   * element types, which can be of any type, and for other references.
+   */
+  requiredType?: RequiredType;
+}
+
+/**
+ * Kind of type required where a type is referenced: a simple type, a complex
+ * type, or simple content, i.e. a simple type or a complex type with simple
+ * content.
+ */
+export type RequiredType = "simpleType" | "complexType" | "simpleContent";
+
+/**
+ * Rewrites a single QName value, given the kind of component it refers to
+ * and where it occurs. Returns the value unchanged when it does not need
+ * rewriting.
+ */
+export type QNameRewrite = (value: string, kind: QNameReferenceKind, site: QNameSite) => string;
+
+/**
+ * The node that QNames are reported at while its contents are traversed.
+ * Only nodes below a top-level element or complex type have IDs of their
+ * own; the contents of named groups and attribute groups are reported at
+ * the group.
+ */
+interface Scope {
+  /** ID of the node */
+  id: string;
+  /** Whether nodes below it have IDs of their own */
+  addressable: boolean;
+}
+
+/**
+ * Returns the scope of a child node: its own ID if the parent is
+ * addressable, otherwise the parent's scope.
+ */
+function childScope(parent: Scope, params: Omit<IdGenerationParams, "parentId">): Scope {
+  return parent.addressable
+    ? { id: generateSchemaId({ ...params, parentId: parent.id }), addressable: true }
+    : parent;
+}
+
+/**
+ * Applies a rewrite to an optional QName; passes `undefined` and empty values through.
+ */
+function rewriteOptional(
+  rewrite: QNameRewrite,
+  value: string | undefined,
+  kind: QNameReferenceKind,
+  nodeId: string,
+  attribute: string
+): string | undefined {
+  return value ? rewrite(value, kind, { nodeId, attribute }) : value;
+}
+
+/**
+ * Rewrites every QName token in the space-separated
+ * `xs:union/@memberTypes` attribute value.
+ */
+function rewriteMemberTypes(
+  rewrite: QNameRewrite,
+  value: string | undefined,
+  nodeId: string
+): string | undefined {
+  if (!value) return value;
+  const memberTypes = value.split(/\s+/);
+  const rewritten = memberTypes.map((qn) =>
+    rewrite(qn, "type", { nodeId, attribute: "memberTypes", requiredType: "simpleType" })
+  );
+  // Keep the original spacing when no member type changes
+  return rewritten.some((qn, i) => qn !== memberTypes[i]) ? rewritten.join(" ") : value;
+}
+
+// ===== Node-type rewriters =====
+
+/**
+ * Nested anonymous simple types have no ID of their own, so all QNames of a
+ * simple type are reported at the owning node.
+ */
+function rewriteSimpleType(
+  rewrite: QNameRewrite,
+  st: localSimpleType | topLevelSimpleType,
+  nodeId: string
+): void {
+  if (st.restriction) {
+    st.restriction.base = rewrite(st.restriction.base, "type", {
+      nodeId,
+      attribute: "base",
+      requiredType: "simpleType",
+    });
+    if (st.restriction.simpleType) {
+      rewriteSimpleType(rewrite, st.restriction.simpleType, nodeId);
+    }
+  }
+  if (st.list) {
+    if (st.list.itemType) {
+      st.list.itemType = rewrite(st.list.itemType, "type", {
+        nodeId,
+        attribute: "itemType",
+        requiredType: "simpleType",
+      });
+    }
+    if (st.list.simpleType) {
+      rewriteSimpleType(rewrite, st.list.simpleType, nodeId);
+    }
+  }
+  if (st.union) {
+    st.union.memberTypes = rewriteMemberTypes(rewrite, st.union.memberTypes, nodeId);
+    for (const member of toArray(st.union.simpleType)) {
+      rewriteSimpleType(rewrite, member, nodeId);
+    }
+  }
+}
+
+/**
+ * Rewrites the type, inline types and keyrefs of any element declaration.
+ */
+function rewriteElementBody(
+  rewrite: QNameRewrite,
+  el: topLevelElement | localElement | narrowMaxMin,
+  scope: Scope
+): void {
+  el.type_ = rewriteOptional(rewrite, el.type_, "type", scope.id, "type");
+  if (el.simpleType) {
+    const typeScope = childScope(scope, {
+      nodeType: SchemaNodeType.AnonymousSimpleType,
+      position: 0,
+    });
+    rewriteSimpleType(rewrite, el.simpleType, typeScope.id);
+  }
+  if (el.complexType) {
+    const typeScope = childScope(scope, {
+      nodeType: SchemaNodeType.AnonymousComplexType,
+      position: 0,
+    });
+    rewriteComplexTypeBody(rewrite, el.complexType, typeScope);
+  }
+  for (const kr of toArray(el.keyref)) {
+    kr.refer = rewrite(kr.refer, "identityConstraint", { nodeId: scope.id, attribute: "refer" });
+  }
+}
+
+/**
+ * Rewrites the element declarations and references of a compositor.
+ */
+function rewriteElements(
+  rewrite: QNameRewrite,
+  elements: Array<localElement | narrowMaxMin>,
+  compositor: Scope
+): void {
+  elements.forEach((el, position) => {
+    const scope = childScope(compositor, {
+      nodeType: SchemaNodeType.Element,
+      name: el.name || el.ref || "unnamed",
+      position,
+    });
+    el.ref = rewriteOptional(rewrite, el.ref, "element", scope.id, "ref");
+    rewriteElementBody(rewrite, el, scope);
+  });
+}
+
+/**
+ * Rewrites the type and inline type of an attribute declaration, which is
+ * always of a simple type.
+ */
+function rewriteAttributeType(
+  rewrite: QNameRewrite,
+  attr: attribute | topLevelAttribute,
+  nodeId: string
+): void {
+  if (attr.type_) {
+    attr.type_ = rewrite(attr.type_, "type", {
+      nodeId,
+      attribute: "type",
+      requiredType: "simpleType",
+    });
+  }
+  if (attr.simpleType) rewriteSimpleType(rewrite, attr.simpleType, nodeId);
+}
+
+function rewriteAttribute(rewrite: QNameRewrite, attr: attribute, owner: Scope): void {
+  const nodeId = attr.name
+    ? childScope(owner, { nodeType: SchemaNodeType.Attribute, name: attr.name }).id
+    : owner.id;
+  attr.ref = rewriteOptional(rewrite, attr.ref, "attribute", nodeId, "ref");
+  rewriteAttributeType(rewrite, attr, nodeId);
+}
+
+/**
+ * Rewrites the particles of a sequence or choice. Nested sequences and
+ * choices are addressed by their position among the compositors of the same
+ * kind, e.g. `sequence[0]/choice[1]`; the elements inside them have no IDs
+ * of their own.
+ *
+ * @param nestedIds - Whether nested compositors have IDs of their own
+ */
+function rewriteCompositor(
+  rewrite: QNameRewrite,
+  compositor: explicitGroup | simpleExplicitGroup,
+  scope: Scope,
+  nestedIds: boolean
+): void {
+  rewriteElements(rewrite, toArray(compositor.element), scope);
+  for (const gr of toArray(compositor.group)) {
+    gr.ref = rewrite(gr.ref, "group", { nodeId: scope.id, attribute: "ref" });
+  }
+  const nestedKinds = [
+    ["choice", SchemaNodeType.Choice],
+    ["sequence", SchemaNodeType.Sequence],
+  ] as const;
+  for (const [kind, nodeType] of nestedKinds) {
+    toArray(compositor[kind]).forEach((sub, position) => {
+      const id = nestedIds
+        ? generateSchemaId({ nodeType, parentId: scope.id, position })
+        : scope.id;
+      rewriteCompositor(rewrite, sub, { id, addressable: false }, nestedIds);
+    });
+  }
+}
+
+/**
+ * Rewrites the derivation base, attributes and attribute group references of a node.
+ *
+ * @param requiredType - What the derivation requires of its base type
+ */
+function rewriteAttributeBearer(
+  rewrite: QNameRewrite,
+  bearer: AttributeBearer | topLevelComplexType | localComplexType | namedAttributeGroup,
+  scope: Scope,
+  requiredType?: RequiredType
+): void {
+  if ("base" in bearer) {
+    bearer.base = rewrite(bearer.base, "type", {
+      nodeId: scope.id,
+      attribute: "base",
+      requiredType,
+    });
+  }
+  for (const attr of toArray(bearer.attribute)) {
+    rewriteAttribute(rewrite, attr, scope);
+  }
+  for (const agr of toArray(bearer.attributeGroup)) {
+    agr.ref = rewrite(agr.ref, "attributeGroup", { nodeId: scope.id, attribute: "ref" });
+  }
+}
+
+function rewriteContentModel(
+  rewrite: QNameRewrite,
+  holder: CompositorBearer | topLevelComplexType | localComplexType | namedGroup,
+  scope: Scope
+): void {
+  if ("group" in holder && holder.group) {
+    holder.group.ref = rewrite(holder.group.ref, "group", { nodeId: scope.id, attribute: "ref" });
+  }
+  const compositorScope = (name: string): Scope =>
+    childScope(scope, { nodeType: SchemaNodeType.Group, name });
+  if (holder.all) {
+    rewriteElements(rewrite, toArray(holder.all.element), compositorScope("all"));
+  }
+  if (holder.choice) {
+    rewriteCompositor(rewrite, holder.choice, compositorScope("choice"), scope.addressable);
+  }
+  if (holder.sequence) {
+    rewriteCompositor(rewrite, holder.sequence, compositorScope("sequence"), scope.addressable);
+  }
+}
+
+/**
+ * Derivations in simple or complex content belong to the type, so their
+ * QNames are reported at the type's ID.
+ */
+function rewriteComplexTypeBody(
+  rewrite: QNameRewrite,
+  ct: topLevelComplexType | localComplexType,
+  scope: Scope
+): void {
+  if (ct.simpleContent?.restriction) {
+    rewriteAttributeBearer(rewrite, ct.simpleContent.restriction, scope, "simpleContent");
+    if (ct.simpleContent.restriction.simpleType) {
+      rewriteSimpleType(rewrite, ct.simpleContent.restriction.simpleType, scope.id);
+    }
+  }
+  if (ct.simpleContent?.extension) {
+    rewriteAttributeBearer(rewrite, ct.simpleContent.extension, scope, "simpleContent");
+  }
+  for (const derivation of [ct.complexContent?.restriction, ct.complexContent?.extension]) {
+    if (derivation) {
+      rewriteAttributeBearer(rewrite, derivation, scope, "complexType");
+      rewriteContentModel(rewrite, derivation, scope);
+    }
+  }
+  rewriteContentModel(rewrite, ct, scope);
+  rewriteAttributeBearer(rewrite, ct, scope);
+}
+
+// ===== Public API =====
+
+/**
+ * Applies a rewrite to every QName-valued attribute in the schema.
+ *
+ * Fields covered:
+ * - `element/@type`, `/@ref`, `/@substitutionGroup`, `keyref/@refer`
+ * - `attribute/@type`, `/@ref`
+ * - `complexType` / `localComplexType` bodies:
+ *   - `complexContent` extension/restriction `/@base`, `group/@ref`,
+ *     `attributeGroup/@ref`, compositor element types/refs (fully recursive)
+ *   - `simpleContent` extension/restriction `/@base`, attribute types/refs
+ * - `simpleType`: `restriction/@base`, `list/@itemType`,
+ *   `union/@memberTypes` (each token of the space-separated list)
+ * - Named `group` compositor contents and refs
+ * - Named `attributeGroup` attribute types/refs and attributeGroup refs
+ *
+ * The rewrite receives the kind of component each QName refers to, so
+ * callers can tell apart references to equally named components of
+ * different symbol spaces, and the ID of the closest enclosing node that has
+ * one, so callers can report where a QName occurs.
+ *
+ * @param rewrite - Returns the new value of a QName
+ * @param schemaObj - The schema object to mutate in place
+ */
+export function rewriteQNamesInSchema(rewrite: QNameRewrite, schemaObj: schema): void {
+  const topLevelScope = (
+    nodeType: SchemaNodeType,
+    name: string | undefined,
+    addressable: boolean
+  ): Scope => ({ id: generateSchemaId({ nodeType, name: name ?? "" }), addressable });
+
+  for (const el of toArray(schemaObj.element)) {
+    const scope = topLevelScope(SchemaNodeType.Element, el.name, true);
+    el.substitutionGroup = rewriteOptional(
+      rewrite,
+      el.substitutionGroup,
+      "element",
+      scope.id,
+      "substitutionGroup"
+    );
+    rewriteElementBody(rewrite, el, scope);
+  }
+
+  for (const attr of toArray(schemaObj.attribute)) {
+    const nodeId = topLevelScope(SchemaNodeType.Attribute, attr.name, true).id;
+    rewriteAttributeType(rewrite, attr, nodeId);
+  }
+
+  for (const ct of toArray(schemaObj.complexType)) {
+    rewriteComplexTypeBody(rewrite, ct, topLevelScope(SchemaNodeType.ComplexType, ct.name, true));
+  }
+
+  for (const st of toArray(schemaObj.simpleType)) {
+    rewriteSimpleType(rewrite, st, topLevelScope(SchemaNodeType.SimpleType, st.name, true).id);
+  }
+
+  for (const grp of toArray(schemaObj.group)) {
+    rewriteContentModel(rewrite, grp, topLevelScope(SchemaNodeType.Group, grp.name, false));
+  }
+
+  for (const ag of toArray(schemaObj.attributeGroup)) {
+    rewriteAttributeBearer(
+      rewrite,
+      ag,
+      topLevelScope(SchemaNodeType.AttributeGroup, ag.name, false)
+    );
+  }
+}
+
+/**
+ * Calls a visitor for every QName-valued field in the schema. Reuses the
+ * traversal of {@link rewriteQNamesInSchema} with a rewrite that leaves every
+ * value unchanged, so both cover exactly the same fields.
+ *
+ * @param visit - Called with each QName, the kind of component it refers to
+ *   and where it occurs
+ * @param schemaObj - The schema to inspect
+ */
+export function forEachQNameInSchema(
+  visit: (value: string, kind: QNameReferenceKind, site: QNameSite) => void,
+  schemaObj: schema
+): void {
+  rewriteQNamesInSchema((value, kind, site) => {
+    visit(value, kind, site);
+    return value;
+  }, schemaObj);
+}
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for executeModifySchema.
+ * Tests updating and removing the schema root attributes and rebinding the
+ * namespace prefixes when the target namespace changes.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import { schema, ModifySchemaCommand, ModifySchemaPayload } from "../../shared/types";
+import { executeModifySchema } from "./schemaExecutors";
+import { toArray } from "../../shared/schemaUtils";
+
+const NAMESPACED_SCHEMA_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:orders" targetNamespace="urn:orders"
+           elementFormDefault="qualified" blockDefault="#all" version="1.0" xml:lang="en">
+  <xs:element name="order" type="tns:OrderType"/>
+  <xs:complexType name="OrderType">
+    <xs:sequence>
+      <xs:element name="id" type="xs:string"/>
+    </xs:sequence>
+  </xs:complexType>
+</xs:schema>`;
+
+const NO_NAMESPACE_SCHEMA_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="order" type="OrderType"/>
+  <xs:complexType name="OrderType">
+    <xs:sequence>
+      <xs:element name="id" type="xs:string"/>
+      <xs:element name="line" type="LineType"/>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:complexType name="LineType"/>
+</xs:schema>`;
+
+/** Builds a modifySchema command. */
+function modifyCommand(payload: ModifySchemaPayload): ModifySchemaCommand {
+  return { type: "modifySchema", payload };
+}
+
+describe("executeModifySchema", () => {
+  it("should set, keep and remove the schema root attributes", () => {
+    const schemaObj = unmarshal(schema, NAMESPACED_SCHEMA_XML);
+
+    executeModifySchema(
+      modifyCommand({
+        attributeFormDefault: "qualified",
+        blockDefault: "",
+        finalDefault: " list   union ",
+        version: " 2.0 ",
+      }),
+      schemaObj
+    );
+
+    expect(schemaObj.attributeFormDefault).toBe("qualified");
+    expect(schemaObj.elementFormDefault).toBe("qualified");
+    expect(schemaObj.blockDefault).toBeUndefined();
+    expect(schemaObj.finalDefault).toBe("list union");
+    expect(schemaObj.version).toBe("2.0");
+  });
+
+  it("should replace and remove xml:lang", () => {
+    const schemaObj = unmarshal(schema, NAMESPACED_SCHEMA_XML);
+
+    executeModifySchema(modifyCommand({ lang: "de" }), schemaObj);
+    expect(schemaObj._anyAttributes?.["xml:lang"]).toBe("de");
+
+    executeModifySchema(modifyCommand({ lang: "" }), schemaObj);
+    expect(schemaObj._anyAttributes?.["xml:lang"]).toBeUndefined();
+  });
+
+  it("should rebind the prefixes of the old target namespace", () => {
+    const schemaObj = unmarshal(schema, NAMESPACED_SCHEMA_XML);
+
+    executeModifySchema(modifyCommand({ targetNamespace: "urn:orders:v2" }), schemaObj);
+
+    expect(schemaObj.targetNamespace).toBe("urn:orders:v2");
+    expect(schemaObj._namespacePrefixes?.["tns"]).toBe("urn:orders:v2");
+    expect(toArray(schemaObj.element)[0].type_).toBe("tns:OrderType");
+  });
+
+  it("should bind tns and prefix references when a no-namespace schema gets a target namespace", () => {
+    const schemaObj = unmarshal(schema, NO_NAMESPACE_SCHEMA_XML);
+
+    executeModifySchema(modifyCommand({ targetNamespace: "urn:orders" }), schemaObj);
+
+    expect(schemaObj._namespacePrefixes?.["tns"]).toBe("urn:orders");
+    expect(toArray(schemaObj.element)[0].type_).toBe("tns:OrderType");
+    const sequence = toArray(schemaObj.complexType)[0].sequence;
+    expect(toArray(sequence?.element).map((element) => element.type_)).toEqual([
+      "xs:string",
+      "tns:LineType",
+    ]);
+  });
+
+  it("should pick another prefix when tns is bound to a different namespace", () => {
+    const schemaObj = unmarshal(schema, NO_NAMESPACE_SCHEMA_XML);
+    schemaObj._namespacePrefixes = { ...schemaObj._namespacePrefixes, tns: "urn:other" };
+
+    executeModifySchema(modifyCommand({ targetNamespace: "urn:orders" }), schemaObj);
+
+    expect(schemaObj._namespacePrefixes?.["tns"]).toBe("urn:other");
+    expect(schemaObj._namespacePrefixes?.["tns0"]).toBe("urn:orders");
+    expect(toArray(schemaObj.element)[0].type_).toBe("tns0:OrderType");
+  });
+
+  it("should unbind the prefixes and unprefix references when the target namespace is removed", () => {
+    const schemaObj = unmarshal(schema, NAMESPACED_SCHEMA_XML);
+
+    executeModifySchema(modifyCommand({ targetNamespace: "" }), schemaObj);
+
+    expect(schemaObj.targetNamespace).toBeUndefined();
+    expect(schemaObj._namespacePrefixes?.["tns"]).toBeUndefined();
+    expect(toArray(schemaObj.element)[0].type_).toBe("OrderType");
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Builders for the derivation of a simple type: its restriction with facets,
+ * its list item type or its union member types.
+ */
+
+import {
+  SimpleTypeVariety,
+  InlineSimpleTypeDefinition,
+  RestrictionFacets,
+  EnumerationValue,
+  localSimpleType,
+  restrictionType,
+  listType,
+  unionType,
+  facet,
+  numFacet,
+  totalDigitsType,
+  noFixedFacet,
+  whiteSpaceType,
+  patternType,
+} from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import { createAnnotation } from "./annotationUtils";
+import {
+  RestrictionFacetHolder,
+  SimpleTypeContent,
+  SimpleTypeDerivationFields,
+  getEnumerationValue,
+} from "./simpleTypeUtils";
+
+/**
+ * Builds a new restrictionType with the given base and optional facets.
+ *
+ * @param base - The base type name
+ * @param facets - Optional restriction facets to apply
+ * @returns A new restrictionType instance
+ */
+export function buildRestriction(base: string, facets?: RestrictionFacets): restrictionType {
+  const restriction = new restrictionType();
+  const normalizedBase = base.trim();
+  restriction.base = normalizedBase;
+  if (facets) {
+    applyRestrictionFacets(restriction, facets);
+  }
+  return restriction;
+}
+
+/**
+ * Builds an anonymous simpleType derived by restriction.
+ *
+ * @param definition - Base type and facets of the anonymous type
+ * @returns A new localSimpleType instance
+ */
+function buildInlineSimpleType(definition: InlineSimpleTypeDefinition): localSimpleType {
+  const simpleType = new localSimpleType();
+  simpleType.restriction = buildRestriction(definition.baseType, definition.restrictions);
+  return simpleType;
+}
+
+/**
+ * Replaces the derivation of a simpleType with a new one of the given variety.
+ *
+ * @param simpleType - The simpleType object to update
+ * @param variety - The derivation variety to create
+ * @param fields - The fields defining the new derivation
+ */
+export function setDerivation(
+  simpleType: SimpleTypeContent,
+  variety: SimpleTypeVariety,
+  fields: SimpleTypeDerivationFields
+): void {
+  simpleType.restriction = undefined;
+  simpleType.list = undefined;
+  simpleType.union = undefined;
+
+  switch (variety) {
+    case "list":
+      simpleType.list = new listType();
+      updateList(simpleType.list, fields);
+      break;
+    case "union":
+      simpleType.union = new unionType();
+      updateUnion(simpleType.union, fields);
+      break;
+    default:
+      simpleType.restriction = buildRestriction(fields.baseType ?? "", fields.restrictions);
+  }
+}
+
+/**
+ * Sets the item type of a list to a named type or an anonymous simpleType,
+ * replacing the other form.
+ *
+ * @param list - The list to update
+ * @param fields - Fields carrying the new item type, if any
+ */
+export function updateList(list: listType, fields: SimpleTypeDerivationFields): void {
+  if (fields.itemSimpleType !== undefined) {
+    list.itemType = undefined;
+    list.simpleType = buildInlineSimpleType(fields.itemSimpleType);
+  } else if (fields.itemType !== undefined) {
+    list.itemType = fields.itemType.trim();
+    list.simpleType = undefined;
+  }
+}
+
+/**
+ * Replaces the named and/or anonymous member types of a union.
+ *
+ * @param union - The union to update
+ * @param fields - Fields carrying the new member types, if any
+ */
+export function updateUnion(union: unionType, fields: SimpleTypeDerivationFields): void {
+  if (fields.memberTypes !== undefined) {
+    const memberTypes = fields.memberTypes.map((member) => member.trim());
+    union.memberTypes = memberTypes.length > 0 ? memberTypes.join(" ") : undefined;
+  }
+  if (fields.memberSimpleTypes !== undefined) {
+    const members = fields.memberSimpleTypes.map(buildInlineSimpleType);
+    union.simpleType = members.length > 0 ? members : undefined;
+  }
+}
+
+/**
+ * Builds the enumeration facets of a restriction. Values without new
+ * documentation keep the annotation of the existing facet with the same value.
+ *
+ * @param entries - The enumeration values, optionally with documentation
+ * @param existing - The current enumeration facets of the restriction
+ * @returns The new enumeration facets
+ */
+function buildEnumeration(
+  entries: (string | EnumerationValue)[],
+  existing: noFixedFacet[]
+): noFixedFacet[] {
+  return entries.map((entry) => {
+    const nff = new noFixedFacet();
+    nff.value = getEnumerationValue(entry);
+    const documentation = typeof entry === "string" ? undefined : entry.documentation;
+    if (documentation === undefined) {
+      nff.annotation = existing.find((current) => current.value === nff.value)?.annotation;
+    } else if (documentation) {
+      nff.annotation = createAnnotation(documentation);
+    }
+    return nff;
+  });
+}
+
+/**
+ * Applies restriction facets to the restriction of a simple type or of a
+ * complex type with simple content.
+ * Any previously set facets are cleared and replaced with the provided ones.
+ *
+ * @param restriction - The restriction object to update
+ * @param facets - The new restriction facets to apply
+ */
+export function applyRestrictionFacets(
+  restriction: RestrictionFacetHolder,
+  facets: RestrictionFacets
+): void {
+  const existingEnumeration = toArray(restriction.enumeration);
+  restriction.minInclusive = undefined;
+  restriction.maxInclusive = undefined;
+  restriction.minExclusive = undefined;
+  restriction.maxExclusive = undefined;
+  restriction.length = undefined;
+  restriction.minLength = undefined;
+  restriction.maxLength = undefined;
+  restriction.totalDigits = undefined;
+  restriction.fractionDigits = undefined;
+  restriction.enumeration = undefined;
+  restriction.whiteSpace = undefined;
+  restriction.pattern = undefined;
+
+  if (facets.minInclusive !== undefined) {
+    const f = new facet();
+    f.value = facets.minInclusive;
+    restriction.minInclusive = [f];
+  }
+  if (facets.maxInclusive !== undefined) {
+    const f = new facet();
+    f.value = facets.maxInclusive;
+    restriction.maxInclusive = [f];
+  }
+  if (facets.minExclusive !== undefined) {
+    const f = new facet();
+    f.value = facets.minExclusive;
+    restriction.minExclusive = [f];
+  }
+  if (facets.maxExclusive !== undefined) {
+    const f = new facet();
+    f.value = facets.maxExclusive;
+    restriction.maxExclusive = [f];
+  }
+  if (facets.length !== undefined) {
+    const nf = new numFacet();
+    nf.value = facets.length;
+    restriction.length = [nf];
+  }
+  if (facets.minLength !== undefined) {
+    const nf = new numFacet();
+    nf.value = facets.minLength;
+    restriction.minLength = [nf];
+  }
+  if (facets.maxLength !== undefined) {
+    const nf = new numFacet();
+    nf.value = facets.maxLength;
+    restriction.maxLength = [nf];
+  }
+  if (facets.totalDigits !== undefined) {
+    const td = new totalDigitsType();
+    td.value = facets.totalDigits;
+    restriction.totalDigits = [td];
+  }
+  if (facets.fractionDigits !== undefined) {
+    const nf = new numFacet();
+    nf.value = facets.fractionDigits;
+    restriction.fractionDigits = [nf];
+  }
+  if (facets.enumeration !== undefined) {
+    restriction.enumeration = buildEnumeration(facets.enumeration, existingEnumeration);
+  }
+  if (facets.whiteSpace !== undefined) {
+    const ws = new whiteSpaceType();
+    ws.value = facets.whiteSpace;
+    restriction.whiteSpace = [ws];
+  }
+  if (facets.pattern !== undefined) {
+    restriction.pattern = facets.pattern.map((value) => {
+      const pt = new patternType();
+      pt.value = value;
+      return pt;
+    });
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Unit tests for list and union simple types in the type executors.
+ * Tests adding simple types of each variety and modifying their item and member types.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import {
+  schema,
+  AddSimpleTypeCommand,
+  ModifySimpleTypeCommand,
+  ModifySimpleTypePayload,
+  topLevelSimpleType,
+} from "../../shared/types";
+import { executeAddSimpleType, executeModifySimpleType } from "./typeExecutors";
+import { toArray } from "../../shared/schemaUtils";
+
+const SCHEMA_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:sizes" targetNamespace="urn:sizes">
+  <xs:simpleType name="SizeCode">
+    <xs:restriction base="xs:token">
+      <xs:enumeration value="S"/>
+      <xs:enumeration value="M"/>
+    </xs:restriction>
+  </xs:simpleType>
+  <xs:simpleType name="Sizes">
+    <xs:list>
+      <xs:simpleType>
+        <xs:restriction base="xs:int"/>
+      </xs:simpleType>
+    </xs:list>
+  </xs:simpleType>
+  <xs:simpleType name="Size">
+    <xs:union memberTypes="xs:int">
+      <xs:simpleType>
+        <xs:restriction base="xs:token">
+          <xs:enumeration value="auto"/>
+        </xs:restriction>
+      </xs:simpleType>
+    </xs:union>
+  </xs:simpleType>
+  <xs:element name="note"/>
+</xs:schema>`;
+
+describe("Simple Type Derivation Executors", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, SCHEMA_XML);
+  });
+
+  /** Returns the top-level simple type with the given name. */
+  function simpleType(name: string): topLevelSimpleType {
+    return toArray(schemaObj.simpleType).find((type) => type.name === name)!;
+  }
+
+  /** Builds a modifySimpleType command. */
+  function modifyCommand(payload: ModifySimpleTypePayload): ModifySimpleTypeCommand {
+    return { type: "modifySimpleType", payload };
+  }
+
+  describe("executeAddSimpleType", () => {
+    it("should add a list of a named item type", () => {
+      const command: AddSimpleTypeCommand = {
+        type: "addSimpleType",
+        payload: { typeName: "SizeCodes", variety: "list", itemType: " tns:SizeCode " },
+      };
+
+      executeAddSimpleType(command, schemaObj);
+
+      const added = simpleType("SizeCodes");
+      expect(added.list?.itemType).toBe("tns:SizeCode");
+      expect(added.restriction).toBeUndefined();
+    });
+
+    it("should add a list of an anonymous item type", () => {
+      const command: AddSimpleTypeCommand = {
+        type: "addSimpleType",
+        payload: {
+          typeName: "Percentages",
+          variety: "list",
+          itemSimpleType: { baseType: "xs:int", restrictions: { minInclusive: "0", maxInclusive: "100" } },
+        },
+      };
+
+      executeAddSimpleType(command, schemaObj);
+
+      const item = simpleType("Percentages").list?.simpleType;
+      expect(item?.restriction?.base).toBe("xs:int");
+      expect(toArray(item?.restriction?.minInclusive)[0].value).toBe("0");
+      expect(toArray(item?.restriction?.maxInclusive)[0].value).toBe("100");
+    });
+
+    it("should add a union of named and anonymous members", () => {
+      const command: AddSimpleTypeCommand = {
+        type: "addSimpleType",
+        payload: {
+          typeName: "Width",
+          variety: "union",
+          memberTypes: ["xs:int", "tns:SizeCode"],
+          memberSimpleTypes: [{ baseType: "xs:token", restrictions: { enumeration: ["auto"] } }],
+        },
+      };
+
+      executeAddSimpleType(command, schemaObj);
+
+      const union = simpleType("Width").union;
+      expect(union?.memberTypes).toBe("xs:int tns:SizeCode");
+      expect(toArray(union?.simpleType)).toHaveLength(1);
+      expect(toArray(toArray(union?.simpleType)[0].restriction?.enumeration)[0].value).toBe("auto");
+    });
+
+    it("should add an anonymous union to an element", () => {
+      const command: AddSimpleTypeCommand = {
+        type: "addSimpleType",
+        payload: {
+          typeName: "",
+          parentId: "/element:note",
+          variety: "union",
+          memberTypes: ["xs:date", "xs:dateTime"],
+        },
+      };
+
+      executeAddSimpleType(command, schemaObj);
+
+      const note = toArray(schemaObj.element).find((element) => element.name === "note");
+      expect(note?.simpleType?.union?.memberTypes).toBe("xs:date xs:dateTime");
+    });
+  });
+
+  describe("executeModifySimpleType", () => {
+    it("should replace a restriction with a union when the variety changes", () => {
+      executeModifySimpleType(
+        modifyCommand({ typeId: "/simpleType:SizeCode", variety: "union", memberTypes: ["xs:int"] }),
+        schemaObj
+      );
+
+      const modified = simpleType("SizeCode");
+      expect(modified.restriction).toBeUndefined();
+      expect(modified.union?.memberTypes).toBe("xs:int");
+    });
+
+    it("should replace an anonymous item type with a named one", () => {
+      executeModifySimpleType(
+        modifyCommand({ typeId: "/simpleType:Sizes", itemType: "xs:decimal" }),
+        schemaObj
+      );
+
+      const list = simpleType("Sizes").list;
+      expect(list?.itemType).toBe("xs:decimal");
+      expect(list?.simpleType).toBeUndefined();
+    });
+
+    it("should keep anonymous members when only named members change", () => {
+      executeModifySimpleType(
+        modifyCommand({ typeId: "/simpleType:Size", memberTypes: ["xs:decimal", "xs:int"] }),
+        schemaObj
+      );
+
+      const union = simpleType("Size").union;
+      expect(union?.memberTypes).toBe("xs:decimal xs:int");
+      expect(toArray(union?.simpleType)).toHaveLength(1);
+    });
+
+    it("should drop the memberTypes attribute when all named members are removed", () => {
+      executeModifySimpleType(
+        modifyCommand({ typeId: "/simpleType:Size", memberTypes: [] }),
+        schemaObj
+      );
+
+      expect(simpleType("Size").union?.memberTypes).toBeUndefined();
+    });
+  });
+});
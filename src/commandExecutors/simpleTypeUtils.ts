@@ -0,0 +1,124 @@
+/**
+ * Shared simple type helpers for the type executors and validators:
+ * determining how a simple type derives its value space.
+ */
+
+import {
+  SimpleTypeVariety,
+  ModifySimpleTypePayload,
+  EnumerationValue,
+  RestrictionFacets,
+  restrictionType,
+  listType,
+  unionType,
+  annotationType,
+} from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+
+/** Derivation varieties of simple types. */
+export const SIMPLE_TYPE_VARIETIES: readonly SimpleTypeVariety[] = ["restriction", "list", "union"];
+
+/**
+ * The fields of a simple type command that define its derivation.
+ */
+export type SimpleTypeDerivationFields = Pick<
+  ModifySimpleTypePayload,
+  "baseType" | "restrictions" | "itemType" | "itemSimpleType" | "memberTypes" | "memberSimpleTypes"
+>;
+
+/**
+ * The parts of a top-level or anonymous simpleType that define its content.
+ * At most one of `restriction`, `list` and `union` is set.
+ */
+export interface SimpleTypeContent {
+  restriction?: restrictionType;
+  list?: listType;
+  union?: unionType;
+  annotation?: annotationType;
+}
+
+/**
+ * The facets of a restriction, shared by the restrictions of simple types and
+ * of simpleContent.
+ */
+export type RestrictionFacetHolder = Pick<
+  restrictionType,
+  | "minInclusive"
+  | "maxInclusive"
+  | "minExclusive"
+  | "maxExclusive"
+  | "length"
+  | "minLength"
+  | "maxLength"
+  | "totalDigits"
+  | "fractionDigits"
+  | "enumeration"
+  | "whiteSpace"
+  | "pattern"
+>;
+
+/**
+ * Returns the value of an enumeration given as a plain string or with its documentation.
+ */
+export function getEnumerationValue(entry: string | EnumerationValue): string {
+  return typeof entry === "string" ? entry : entry.value;
+}
+
+/**
+ * Reads the facets of a restriction. Patterns and enumeration values are read
+ * in document order; of any other facet only the first occurrence counts.
+ *
+ * @param restriction - The restriction to read
+ * @returns The facets that are set, without documentation of enumeration values
+ */
+export function readRestrictionFacets(restriction: RestrictionFacetHolder): RestrictionFacets {
+  const first = <T>(facets: T | T[] | undefined): T | undefined => toArray(facets)[0];
+  const whiteSpace = first(restriction.whiteSpace)?.value;
+  const facets: RestrictionFacets = {
+    minInclusive: first(restriction.minInclusive)?.value,
+    maxInclusive: first(restriction.maxInclusive)?.value,
+    minExclusive: first(restriction.minExclusive)?.value,
+    maxExclusive: first(restriction.maxExclusive)?.value,
+    length: first(restriction.length)?.value,
+    minLength: first(restriction.minLength)?.value,
+    maxLength: first(restriction.maxLength)?.value,
+    totalDigits: first(restriction.totalDigits)?.value,
+    fractionDigits: first(restriction.fractionDigits)?.value,
+    whiteSpace:
+      whiteSpace === "preserve" || whiteSpace === "replace" || whiteSpace === "collapse"
+        ? whiteSpace
+        : undefined,
+  };
+  const pattern = toArray(restriction.pattern).map((facet) => facet.value);
+  const enumeration = toArray(restriction.enumeration).map((facet) => facet.value);
+  if (pattern.length > 0) {
+    facets.pattern = pattern;
+  }
+  if (enumeration.length > 0) {
+    facets.enumeration = enumeration;
+  }
+  return Object.fromEntries(Object.entries(facets).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Returns true if a value names a simple type derivation variety.
+ */
+export function isSimpleTypeVariety(value: string): value is SimpleTypeVariety {
+  return (SIMPLE_TYPE_VARIETIES as readonly string[]).includes(value);
+}
+
+/**
+ * Returns the derivation variety of a simple type.
+ *
+ * @param simpleType - The simple type to inspect
+ * @returns "list" or "union" if the type derives by list or union, otherwise "restriction"
+ */
+export function getSimpleTypeVariety(simpleType: SimpleTypeContent): SimpleTypeVariety {
+  if (simpleType.list) {
+    return "list";
+  }
+  if (simpleType.union) {
+    return "union";
+  }
+  return "restriction";
+}
@@ -219,7 +219,7 @@ describe("SimpleType Executors", () => {
         payload: {
           typeName: "PhoneType",
           baseType: "xs:string",
-          restrictions: { pattern: "[0-9]{10}" },
+          restrictions: { pattern: ["[0-9]{10}"] },
         },
       };
 
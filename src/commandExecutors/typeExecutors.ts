@@ -3,10 +3,12 @@
  * Implements add, remove, and modify operations for schema types.
  *
  * Simple type executors support both top-level named types and anonymous types
- * embedded within elements.
+ * embedded within elements, derived by restriction, list or union.
  * Complex type executors support both top-level named types and anonymous types
  * embedded within elements, with content models (sequence, choice, all),
- * abstract/mixed flags, base type extension, and documentation.
+ * abstract/mixed flags, derivation from a base type by extension or
+ * restriction of complex or simple content, facets of simpleContent
+ * restrictions, and documentation.
  */
 
 import {
@@ -14,26 +16,15 @@ import {
   AddSimpleTypeCommand,
   RemoveSimpleTypeCommand,
   ModifySimpleTypeCommand,
+  ModifySimpleTypePayload,
   AddComplexTypeCommand,
   RemoveComplexTypeCommand,
   ModifyComplexTypeCommand,
-  ContentModel,
-  RestrictionFacets,
+  ModifyComplexTypePayload,
   topLevelSimpleType,
   localSimpleType,
   topLevelComplexType,
   localComplexType,
-  complexContentType,
-  extensionType,
-  explicitGroup,
-  all,
-  restrictionType,
-  facet,
-  numFacet,
-  totalDigitsType,
-  noFixedFacet,
-  whiteSpaceType,
-  patternType,
   annotationType,
   documentationType,
 } from "../../shared/types";
@@ -41,6 +32,20 @@ import { toArray, isSchemaRoot } from "../../shared/schemaUtils";
 import { parseSchemaId, SchemaNodeType } from "../../shared/idStrategy";
 import { locateNodeById } from "../schemaNavigator";
 import { createAnnotation } from "./annotationUtils";
+import { SimpleTypeContent, getSimpleTypeVariety } from "./simpleTypeUtils";
+import {
+  setDerivation,
+  updateList,
+  updateUnion,
+  buildRestriction,
+  applyRestrictionFacets,
+} from "./simpleTypeBuilders";
+import {
+  ComplexTypeHolder,
+  ComplexTypeStructure,
+  getComplexTypeStructure,
+} from "./complexTypeUtils";
+import { applyComplexTypeStructure } from "./complexTypeBuilders";
 
 // ===== Simple Type Executors =====
 
@@ -57,7 +62,7 @@ export function executeAddSimpleType(
   command: AddSimpleTypeCommand,
   schemaObj: schema
 ): void {
-  const { parentId, typeName, baseType, restrictions, documentation } = command.payload;
+  const { parentId, typeName, variety = "restriction", documentation } = command.payload;
 
   if (!isSchemaRoot(parentId)) {
     // Anonymous simpleType inside an element or attribute — isSchemaRoot guarantees parentId is a non-empty string here
@@ -65,7 +70,7 @@ export function executeAddSimpleType(
     // Both elements and attributes share the same localSimpleType inline child structure
     const holder = location.parent as { simpleType?: localSimpleType };
     const anonType = new localSimpleType();
-    anonType.restriction = buildRestriction(baseType, restrictions);
+    setDerivation(anonType, variety, command.payload);
     if (documentation) {
       anonType.annotation = createAnnotation(documentation);
     }
@@ -76,7 +81,7 @@ export function executeAddSimpleType(
   // Top-level named simpleType — typeName is a valid non-empty string here (enforced by the validator)
   const simpleType = new topLevelSimpleType();
   simpleType.name = typeName as string;
-  simpleType.restriction = buildRestriction(baseType, restrictions);
+  setDerivation(simpleType, variety, command.payload);
   if (documentation) {
     simpleType.annotation = createAnnotation(documentation);
   }
@@ -132,7 +137,7 @@ export function executeModifySimpleType(
   command: ModifySimpleTypeCommand,
   schemaObj: schema
 ): void {
-  const { typeId, typeName, baseType, restrictions, documentation } = command.payload;
+  const { typeId, typeName, ...changes } = command.payload;
   const parsed = parseSchemaId(typeId);
 
   if (parsed.nodeType === SchemaNodeType.AnonymousSimpleType) {
@@ -143,7 +148,7 @@ export function executeModifySimpleType(
     const location = locateNodeById(schemaObj, parentId);
     const holder = location.parent as { simpleType?: localSimpleType };
     if (!holder.simpleType) return;
-    updateTypeContents(holder.simpleType, baseType, restrictions, documentation);
+    updateTypeContents(holder.simpleType, changes);
     return;
   }
 
@@ -155,44 +160,33 @@ export function executeModifySimpleType(
   if (typeName !== undefined) {
     simpleType.name = typeName;
   }
-  updateTypeContents(simpleType, baseType, restrictions, documentation);
+  updateTypeContents(simpleType, changes);
 }
 
 // ===== Helper Functions =====
 
 /**
- * Builds a new restrictionType with the given base and optional facets.
- *
- * @param base - The base type name
- * @param facets - Optional restriction facets to apply
- * @returns A new restrictionType instance
- */
-function buildRestriction(base: string, facets?: RestrictionFacets): restrictionType {
-  const restriction = new restrictionType();
-  const normalizedBase = base.trim();
-  restriction.base = normalizedBase;
-  if (facets) {
-    applyRestrictionFacets(restriction, facets);
-  }
-  return restriction;
-}
-
-/**
- * Updates the restriction and/or annotation of any simpleType object.
+ * Updates the derivation and/or annotation of any simpleType object.
  * Works for both `topLevelSimpleType` and `localSimpleType`.
+ * A `variety` other than the current one replaces the derivation; otherwise
+ * the fields of the current variety are updated in place.
  *
  * @param simpleType - The simpleType object to update
- * @param baseType - New base type (optional)
- * @param restrictions - New restriction facets (optional)
- * @param documentation - New documentation text (optional)
+ * @param changes - The modifySimpleType payload without ID and name
  */
 function updateTypeContents(
-  simpleType: { restriction?: restrictionType; annotation?: annotationType },
-  baseType?: string,
-  restrictions?: RestrictionFacets,
-  documentation?: string
+  simpleType: SimpleTypeContent,
+  changes: Omit<ModifySimpleTypePayload, "typeId" | "typeName">
 ): void {
-  if (baseType !== undefined || restrictions !== undefined) {
+  const { variety, baseType, restrictions, documentation } = changes;
+
+  if (variety !== undefined && variety !== getSimpleTypeVariety(simpleType)) {
+    setDerivation(simpleType, variety, changes);
+  } else if (simpleType.list) {
+    updateList(simpleType.list, changes);
+  } else if (simpleType.union) {
+    updateUnion(simpleType.union, changes);
+  } else if (baseType !== undefined || restrictions !== undefined) {
     if (!simpleType.restriction) {
       if (baseType !== undefined) {
         simpleType.restriction = buildRestriction(baseType, restrictions);
@@ -217,94 +211,6 @@ function updateTypeContents(
   }
 }
 
-/**
- * Applies restriction facets to a restrictionType object.
- * Any previously set facets are cleared and replaced with the provided ones.
- *
- * @param restriction - The restriction object to update
- * @param facets - The new restriction facets to apply
- */
-function applyRestrictionFacets(
-  restriction: restrictionType,
-  facets: RestrictionFacets
-): void {
-  restriction.minInclusive = undefined;
-  restriction.maxInclusive = undefined;
-  restriction.minExclusive = undefined;
-  restriction.maxExclusive = undefined;
-  restriction.length = undefined;
-  restriction.minLength = undefined;
-  restriction.maxLength = undefined;
-  restriction.totalDigits = undefined;
-  restriction.fractionDigits = undefined;
-  restriction.enumeration = undefined;
-  restriction.whiteSpace = undefined;
-  restriction.pattern = undefined;
-
-  if (facets.minInclusive !== undefined) {
-    const f = new facet();
-    f.value = facets.minInclusive;
-    restriction.minInclusive = [f];
-  }
-  if (facets.maxInclusive !== undefined) {
-    const f = new facet();
-    f.value = facets.maxInclusive;
-    restriction.maxInclusive = [f];
-  }
-  if (facets.minExclusive !== undefined) {
-    const f = new facet();
-    f.value = facets.minExclusive;
-    restriction.minExclusive = [f];
-  }
-  if (facets.maxExclusive !== undefined) {
-    const f = new facet();
-    f.value = facets.maxExclusive;
-    restriction.maxExclusive = [f];
-  }
-  if (facets.length !== undefined) {
-    const nf = new numFacet();
-    nf.value = facets.length;
-    restriction.length = [nf];
-  }
-  if (facets.minLength !== undefined) {
-    const nf = new numFacet();
-    nf.value = facets.minLength;
-    restriction.minLength = [nf];
-  }
-  if (facets.maxLength !== undefined) {
-    const nf = new numFacet();
-    nf.value = facets.maxLength;
-    restriction.maxLength = [nf];
-  }
-  if (facets.totalDigits !== undefined) {
-    const td = new totalDigitsType();
-    td.value = facets.totalDigits;
-    restriction.totalDigits = [td];
-  }
-  if (facets.fractionDigits !== undefined) {
-    const nf = new numFacet();
-    nf.value = facets.fractionDigits;
-    restriction.fractionDigits = [nf];
-  }
-  if (facets.enumeration !== undefined) {
-    restriction.enumeration = facets.enumeration.map((val) => {
-      const nff = new noFixedFacet();
-      nff.value = val;
-      return nff;
-    });
-  }
-  if (facets.whiteSpace !== undefined) {
-    const ws = new whiteSpaceType();
-    ws.value = facets.whiteSpace;
-    restriction.whiteSpace = [ws];
-  }
-  if (facets.pattern !== undefined) {
-    const pt = new patternType();
-    pt.value = facets.pattern;
-    restriction.pattern = [pt];
-  }
-}
-
 // ===== Complex Type Executors =====
 
 /**
@@ -312,7 +218,8 @@ function applyRestrictionFacets(
  * When `payload.parentId` points to an element (not schema root), creates an anonymous
  * complexType inside that element. Otherwise creates a top-level named complexType.
  * When `baseType` is provided the content model is nested inside a
- * `complexContent > extension` wrapper.
+ * `complexContent > extension` or `complexContent > restriction` wrapper;
+ * types with simple content get a `simpleContent` wrapper instead.
  *
  * @param command - The addComplexType command to execute
  * @param schemaObj - The schema object to modify
@@ -322,8 +229,25 @@ export function executeAddComplexType(
   command: AddComplexTypeCommand,
   schemaObj: schema
 ): void {
-  const { parentId, typeName, contentModel, abstract: isAbstract, baseType, mixed, documentation } =
-    command.payload;
+  const {
+    parentId,
+    typeName,
+    abstract: isAbstract,
+    mixed,
+    documentation,
+    contentModel,
+    baseType,
+    derivation,
+    contentKind,
+    restrictions,
+  } = command.payload;
+  const structure: ComplexTypeStructure = {
+    contentKind: contentKind ?? "complex",
+    baseType,
+    derivation: derivation ?? "extension",
+    contentModel,
+    restrictions,
+  };
 
   if (!isSchemaRoot(parentId)) {
     // Anonymous complexType inside an element — isSchemaRoot guarantees parentId is a non-empty string here
@@ -336,7 +260,7 @@ export function executeAddComplexType(
     if (documentation) {
       anonType.annotation = createAnnotation(documentation);
     }
-    applyContentStructure(anonType, contentModel, baseType);
+    applyComplexTypeStructure(anonType, structure);
     holder.complexType = anonType;
     return;
   }
@@ -353,7 +277,7 @@ export function executeAddComplexType(
   if (documentation) {
     ct.annotation = createAnnotation(documentation);
   }
-  applyContentStructure(ct, contentModel, baseType);
+  applyComplexTypeStructure(ct, structure);
 
   const complexTypes = toArray(schemaObj.complexType);
   complexTypes.push(ct);
@@ -406,8 +330,7 @@ export function executeModifyComplexType(
   command: ModifyComplexTypeCommand,
   schemaObj: schema
 ): void {
-  const { typeId, typeName, contentModel, abstract: isAbstract, baseType, mixed, documentation } =
-    command.payload;
+  const { typeId, typeName, abstract: isAbstract, ...updates } = command.payload;
   const parsed = parseSchemaId(typeId);
 
   if (parsed.nodeType === SchemaNodeType.AnonymousComplexType) {
@@ -418,7 +341,7 @@ export function executeModifyComplexType(
     const location = locateNodeById(schemaObj, parentId);
     const holder = location.parent as { complexType?: localComplexType };
     if (!holder.complexType) return;
-    updateComplexTypeContents(holder.complexType, { mixed, contentModel, baseType, documentation });
+    updateComplexTypeContents(holder.complexType, updates);
     return;
   }
 
@@ -434,38 +357,34 @@ export function executeModifyComplexType(
   if (isAbstract !== undefined) {
     ct.abstract = isAbstract;
   }
-  updateComplexTypeContents(ct, { mixed, contentModel, baseType, documentation });
+  updateComplexTypeContents(ct, updates);
 }
 
 // ===== Complex Type Helper Functions =====
 
-/** Structural type shared by topLevelComplexType and localComplexType for content operations. */
-type ComplexTypeHolder = {
-  mixed?: boolean;
-  annotation?: annotationType;
-  sequence?: explicitGroup;
-  choice?: explicitGroup;
-  all?: all;
-  complexContent?: complexContentType;
-};
-
 /**
  * Updates the shared mutable properties of any complexType object
  * (works for both `topLevelComplexType` and `localComplexType`).
+ * Properties of the derivation left out keep their current values.
  *
  * @param ct - The complexType object to update
  * @param updates - The properties to apply
  */
 function updateComplexTypeContents(
   ct: ComplexTypeHolder,
-  updates: {
-    mixed?: boolean;
-    contentModel?: ContentModel;
-    baseType?: string;
-    documentation?: string;
-  }
+  updates: Pick<
+    ModifyComplexTypePayload,
+    | "mixed"
+    | "contentModel"
+    | "baseType"
+    | "derivation"
+    | "contentKind"
+    | "restrictions"
+    | "documentation"
+  >
 ): void {
-  const { mixed, contentModel, baseType, documentation } = updates;
+  const { mixed, contentModel, baseType, derivation, contentKind, restrictions, documentation } =
+    updates;
   if (mixed !== undefined) {
     ct.mixed = mixed;
   }
@@ -477,91 +396,15 @@ function updateComplexTypeContents(
     doc.value = documentation;
     ct.annotation.documentation = [doc];
   }
-  if (contentModel !== undefined || baseType !== undefined) {
-    const effectiveBase = baseType !== undefined ? baseType : getBaseType(ct);
-    const effectiveModel = contentModel ?? getContentModel(ct);
-    if (effectiveModel) {
-      applyContentStructure(ct, effectiveModel, effectiveBase);
-    }
-  }
-}
-
-/**
- * Sets one of the three compositor children (sequence, choice, all) on a holder object.
- *
- * @param holder - Object that carries sequence/choice/all properties
- * @param contentModel - The content model to apply
- */
-function setContentModel(
-  holder: { sequence?: explicitGroup; choice?: explicitGroup; all?: all },
-  contentModel: ContentModel
-): void {
-  if (contentModel === "sequence") {
-    holder.sequence = new explicitGroup();
-  } else if (contentModel === "choice") {
-    holder.choice = new explicitGroup();
-  } else {
-    holder.all = new all();
-  }
-}
-
-/**
- * Rebuilds the full content structure (direct compositor or complexContent wrapper)
- * on a complexType holder, clearing any previously set content first.
- *
- * @param ct - The complexType holder to update
- * @param contentModel - The content model to apply
- * @param baseType - Optional base type; when truthy wraps the compositor in
- *   a complexContent/extension element
- */
-function applyContentStructure(
-  ct: ComplexTypeHolder,
-  contentModel: ContentModel,
-  baseType?: string
-): void {
-  ct.sequence = undefined;
-  ct.choice = undefined;
-  ct.all = undefined;
-  ct.complexContent = undefined;
-
-  if (baseType) {
-    const ext = new extensionType();
-    ext.base = baseType;
-    setContentModel(ext, contentModel);
-    const cc = new complexContentType();
-    cc.extension = ext;
-    ct.complexContent = cc;
-  } else {
-    setContentModel(ct, contentModel);
-  }
-}
-
-/**
- * Returns the base type of a complexType if it uses complexContent/extension.
- *
- * @param ct - The complexType holder to inspect
- * @returns The base type name or undefined
- */
-function getBaseType(ct: ComplexTypeHolder): string | undefined {
-  return ct.complexContent?.extension?.base;
-}
-
-/**
- * Infers the current content model of a complexType by inspecting its
- * direct compositor properties and complexContent/extension child.
- *
- * @param ct - The complexType holder to inspect
- * @returns The current ContentModel or undefined if none is set
- */
-function getContentModel(ct: ComplexTypeHolder): ContentModel | undefined {
-  if (ct.sequence ?? ct.complexContent?.extension?.sequence) {
-    return "sequence";
-  }
-  if (ct.choice ?? ct.complexContent?.extension?.choice) {
-    return "choice";
-  }
-  if (ct.all ?? ct.complexContent?.extension?.all) {
-    return "all";
+  const structureChanges = [contentModel, baseType, derivation, contentKind, restrictions];
+  if (structureChanges.some((value) => value !== undefined)) {
+    const current = getComplexTypeStructure(ct);
+    applyComplexTypeStructure(ct, {
+      contentKind: contentKind ?? current.contentKind,
+      baseType: baseType ?? current.baseType,
+      derivation: derivation ?? current.derivation,
+      contentModel,
+      restrictions,
+    });
   }
-  return undefined;
 }
@@ -0,0 +1,197 @@
+/**
+ * Unit tests for wildcard executors.
+ * Tests the implementation of add, remove, and modify execution logic for
+ * xs:any and xs:anyAttribute.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import {
+  schema,
+  AddWildcardCommand,
+  RemoveWildcardCommand,
+  ModifyWildcardCommand,
+  topLevelComplexType,
+} from "../../shared/types";
+import {
+  executeAddWildcard,
+  executeRemoveWildcard,
+  executeModifyWildcard,
+} from "./wildcardExecutors";
+import { toArray } from "../../shared/schemaUtils";
+
+const OPEN_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:open" targetNamespace="urn:open">
+  <xs:complexType name="OpenType">
+    <xs:sequence>
+      <xs:element name="id" type="xs:string"/>
+      <xs:any namespace="##other" processContents="lax" minOccurs="0" maxOccurs="3"/>
+    </xs:sequence>
+    <xs:anyAttribute namespace="##any"/>
+  </xs:complexType>
+  <xs:complexType name="DerivedType">
+    <xs:complexContent>
+      <xs:extension base="tns:OpenType">
+        <xs:sequence>
+          <xs:element name="extra" type="xs:string"/>
+        </xs:sequence>
+      </xs:extension>
+    </xs:complexContent>
+  </xs:complexType>
+  <xs:attributeGroup name="CommonAttributes">
+    <xs:attribute name="lang" type="xs:language"/>
+  </xs:attributeGroup>
+</xs:schema>`;
+
+const OPEN_SEQUENCE_ID = "/complexType:OpenType/sequence";
+
+describe("Wildcard Executors", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, OPEN_SCHEMA);
+  });
+
+  /** Returns the top-level complex type with the given name. */
+  function complexType(name: string): topLevelComplexType {
+    return toArray(schemaObj.complexType).find((type) => type.name === name)!;
+  }
+
+  describe("executeAddWildcard", () => {
+    it("should append an element wildcard to a sequence", () => {
+      const command: AddWildcardCommand = {
+        type: "addWildcard",
+        payload: {
+          parentId: OPEN_SEQUENCE_ID,
+          kind: "any",
+          namespace: "##local",
+          minOccurs: 0,
+          maxOccurs: "unbounded",
+        },
+      };
+
+      executeAddWildcard(command, schemaObj);
+
+      const wildcards = toArray(complexType("OpenType").sequence!.any_);
+      expect(wildcards).toHaveLength(2);
+      expect(wildcards[1]._anyAttributes).toEqual({
+        namespace: "##local",
+        minOccurs: "0",
+        maxOccurs: "unbounded",
+      });
+    });
+
+    it("should add an attribute wildcard to an attribute group", () => {
+      const command: AddWildcardCommand = {
+        type: "addWildcard",
+        payload: {
+          parentId: "/attributeGroup:CommonAttributes",
+          kind: "anyAttribute",
+          namespace: "##targetNamespace urn:extra",
+          processContents: "skip",
+        },
+      };
+
+      executeAddWildcard(command, schemaObj);
+
+      const anyAttribute = toArray(schemaObj.attributeGroup)[0].anyAttribute;
+      expect(anyAttribute?.namespace).toBe("##targetNamespace urn:extra");
+      expect(anyAttribute?.processContents).toBe("skip");
+    });
+
+    it("should add the attribute wildcard of a derived type to its extension", () => {
+      const command: AddWildcardCommand = {
+        type: "addWildcard",
+        payload: { parentId: "/complexType:DerivedType", kind: "anyAttribute" },
+      };
+
+      executeAddWildcard(command, schemaObj);
+
+      const derived = complexType("DerivedType");
+      expect(derived.complexContent?.extension?.anyAttribute).toBeDefined();
+      expect(derived.anyAttribute).toBeUndefined();
+    });
+
+    it("should throw when the parent cannot hold the wildcard", () => {
+      const command: AddWildcardCommand = {
+        type: "addWildcard",
+        payload: { parentId: "/complexType:OpenType", kind: "any" },
+      };
+
+      expect(() => executeAddWildcard(command, schemaObj)).toThrow(
+        "Element wildcards can only be added to a sequence or choice, not to: topLevelComplexType"
+      );
+    });
+  });
+
+  describe("executeRemoveWildcard", () => {
+    it("should remove an element wildcard and drop the empty list", () => {
+      const command: RemoveWildcardCommand = {
+        type: "removeWildcard",
+        payload: { wildcardId: `${OPEN_SEQUENCE_ID}/any[0]` },
+      };
+
+      executeRemoveWildcard(command, schemaObj);
+
+      expect(complexType("OpenType").sequence!.any_).toBeUndefined();
+      expect(toArray(complexType("OpenType").sequence!.element)).toHaveLength(1);
+    });
+
+    it("should remove an attribute wildcard", () => {
+      const command: RemoveWildcardCommand = {
+        type: "removeWildcard",
+        payload: { wildcardId: "/complexType:OpenType/anyAttribute" },
+      };
+
+      executeRemoveWildcard(command, schemaObj);
+
+      expect(complexType("OpenType").anyAttribute).toBeUndefined();
+    });
+
+    it("should throw when the wildcard does not exist", () => {
+      const command: RemoveWildcardCommand = {
+        type: "removeWildcard",
+        payload: { wildcardId: "/complexType:DerivedType/anyAttribute" },
+      };
+
+      expect(() => executeRemoveWildcard(command, schemaObj)).toThrow(
+        "Wildcard not found: /complexType:DerivedType/anyAttribute"
+      );
+    });
+  });
+
+  describe("executeModifyWildcard", () => {
+    it("should update the given attributes of an element wildcard", () => {
+      const command: ModifyWildcardCommand = {
+        type: "modifyWildcard",
+        payload: {
+          wildcardId: `${OPEN_SEQUENCE_ID}/any[0]`,
+          processContents: "strict",
+          maxOccurs: "unbounded",
+        },
+      };
+
+      executeModifyWildcard(command, schemaObj);
+
+      expect(toArray(complexType("OpenType").sequence!.any_)[0]._anyAttributes).toEqual({
+        namespace: "##other",
+        processContents: "strict",
+        minOccurs: "0",
+        maxOccurs: "unbounded",
+      });
+    });
+
+    it("should update the namespace of an attribute wildcard", () => {
+      const command: ModifyWildcardCommand = {
+        type: "modifyWildcard",
+        payload: { wildcardId: "/complexType:OpenType/anyAttribute", namespace: "##other" },
+      };
+
+      executeModifyWildcard(command, schemaObj);
+
+      const anyAttribute = complexType("OpenType").anyAttribute;
+      expect(anyAttribute?.namespace).toBe("##other");
+      expect(anyAttribute?.processContents).toBeUndefined();
+    });
+  });
+});
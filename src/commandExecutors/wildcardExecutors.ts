@@ -0,0 +1,128 @@
+/**
+ * Executors for wildcard commands.
+ * Implements add, remove, and modify operations for xs:any in compositors
+ * and xs:anyAttribute in complex types and attribute groups.
+ */
+
+import {
+  schema,
+  AddWildcardCommand,
+  RemoveWildcardCommand,
+  ModifyWildcardCommand,
+  ModifyWildcardPayload,
+  anyType,
+  wildcard,
+  namespaceList,
+} from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import {
+  locateWildcard,
+  locateWildcardHolder,
+  setElementWildcardAttribute,
+} from "./wildcardUtils";
+
+// ===== Helper functions =====
+
+/**
+ * Applies the given properties to an element wildcard.
+ */
+function applyElementWildcardProperties(
+  any: anyType,
+  properties: Omit<ModifyWildcardPayload, "wildcardId">
+): void {
+  setElementWildcardAttribute(any, "namespace", properties.namespace);
+  setElementWildcardAttribute(any, "processContents", properties.processContents);
+  setElementWildcardAttribute(any, "minOccurs", properties.minOccurs);
+  setElementWildcardAttribute(any, "maxOccurs", properties.maxOccurs);
+}
+
+/**
+ * Applies the given properties to an attribute wildcard.
+ */
+function applyAttributeWildcardProperties(
+  anyAttribute: wildcard,
+  properties: Omit<ModifyWildcardPayload, "wildcardId">
+): void {
+  if (properties.namespace !== undefined) {
+    // The generated namespaceList type omits lists of namespace URIs
+    anyAttribute.namespace = properties.namespace as namespaceList;
+  }
+  if (properties.processContents !== undefined) {
+    anyAttribute.processContents = properties.processContents;
+  }
+}
+
+// ===== Wildcard Executors =====
+
+/**
+ * Executes an addWildcard command.
+ * Appends an xs:any to a compositor, or sets the xs:anyAttribute of a
+ * complex type or attribute group.
+ *
+ * @param command - The addWildcard command to execute
+ * @param schemaObj - The schema object to modify
+ * @throws Error if the parent cannot hold a wildcard of the given kind
+ */
+export function executeAddWildcard(command: AddWildcardCommand, schemaObj: schema): void {
+  const { parentId, kind, ...properties } = command.payload;
+
+  const location = locateWildcardHolder(schemaObj, parentId, kind);
+  if (!location.found) {
+    throw new Error(location.error);
+  }
+
+  if (location.kind === "any") {
+    const any = new anyType();
+    applyElementWildcardProperties(any, properties);
+    location.compositor.any_ = [...toArray(location.compositor.any_), any];
+  } else {
+    const anyAttribute = new wildcard();
+    applyAttributeWildcardProperties(anyAttribute, properties);
+    location.holder.anyAttribute = anyAttribute;
+  }
+}
+
+/**
+ * Executes a removeWildcard command.
+ *
+ * @param command - The removeWildcard command to execute
+ * @param schemaObj - The schema object to modify
+ * @throws Error if the wildcard is not found
+ */
+export function executeRemoveWildcard(command: RemoveWildcardCommand, schemaObj: schema): void {
+  const location = locateWildcard(schemaObj, command.payload.wildcardId);
+  if (!location.found) {
+    throw new Error(location.error);
+  }
+
+  if (location.kind === "any") {
+    const remaining = toArray(location.compositor.any_).filter(
+      (any) => any !== location.wildcard
+    );
+    location.compositor.any_ = remaining.length > 0 ? remaining : undefined;
+  } else {
+    location.holder.anyAttribute = undefined;
+  }
+}
+
+/**
+ * Executes a modifyWildcard command.
+ *
+ * @param command - The modifyWildcard command to execute
+ * @param schemaObj - The schema object to modify
+ * @throws Error if the wildcard is not found
+ */
+export function executeModifyWildcard(command: ModifyWildcardCommand, schemaObj: schema): void {
+  const { wildcardId, ...properties } = command.payload;
+
+  const location = locateWildcard(schemaObj, wildcardId);
+  if (!location.found) {
+    throw new Error(location.error);
+  }
+
+  if (location.kind === "any") {
+    applyElementWildcardProperties(location.wildcard, properties);
+  } else {
+    applyAttributeWildcardProperties(location.wildcard, properties);
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Shared wildcard helpers for the wildcard executors and validators:
+ * resolving the holder of a new wildcard, locating a wildcard by ID and
+ * reading the properties of element wildcards.
+ *
+ * Element wildcards are addressed by position in their compositor, e.g.
+ * `/complexType:Ext/sequence/any[0]`; a complex type or attribute group has
+ * at most one attribute wildcard, addressed as `/complexType:Ext/anyAttribute`.
+ *
+ * The generated compositor classes type `xs:any` as the generic `anyType`,
+ * so the attributes of an element wildcard are kept in its `_anyAttributes`
+ * map as strings rather than in typed properties.
+ */
+
+import {
+  schema,
+  WildcardKind,
+  ProcessContents,
+  anyType,
+  wildcard,
+  explicitGroup,
+  topLevelComplexType,
+  localComplexType,
+  extensionType,
+  complexRestrictionType,
+  simpleExtensionType,
+  simpleRestrictionType,
+  namedAttributeGroup,
+} from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import { parseSchemaId } from "../../shared/idStrategy";
+import { locateNodeById } from "../schemaNavigator";
+
+/** Kinds of wildcard. */
+export const WILDCARD_KINDS: readonly WildcardKind[] = ["any", "anyAttribute"];
+
+/** Allowed values of processContents. */
+export const PROCESS_CONTENTS_VALUES: readonly ProcessContents[] = ["strict", "lax", "skip"];
+
+/** Any component that can declare an attribute wildcard. */
+export type AnyAttributeHolder =
+  | topLevelComplexType
+  | localComplexType
+  | extensionType
+  | complexRestrictionType
+  | simpleExtensionType
+  | simpleRestrictionType
+  | namedAttributeGroup;
+
+/** Attributes of an element wildcard, as stored in its `_anyAttributes` map. */
+export type ElementWildcardAttribute = "namespace" | "processContents" | "minOccurs" | "maxOccurs";
+
+/** Result of resolving the component that receives a new wildcard. */
+export type WildcardHolderLocation =
+  | { found: true; kind: "any"; compositor: explicitGroup }
+  | { found: true; kind: "anyAttribute"; holder: AnyAttributeHolder }
+  | { found: false; error: string };
+
+/** Result of locating a wildcard by ID. */
+export type WildcardLocation =
+  | { found: true; kind: "any"; compositor: explicitGroup; wildcard: anyType }
+  | { found: true; kind: "anyAttribute"; holder: AnyAttributeHolder; wildcard: wildcard }
+  | { found: false; error: string };
+
+/**
+ * Returns true if a value names a kind of wildcard.
+ */
+export function isWildcardKind(value: string): value is WildcardKind {
+  return (WILDCARD_KINDS as readonly string[]).includes(value);
+}
+
+/**
+ * Returns the holder of the attributes of a complex type: its extension or
+ * restriction if it derives its content, otherwise the type itself.
+ */
+function attributeHolderOfComplexType(
+  complexType: topLevelComplexType | localComplexType
+): AnyAttributeHolder {
+  return (
+    complexType.complexContent?.extension ??
+    complexType.complexContent?.restriction ??
+    complexType.simpleContent?.extension ??
+    complexType.simpleContent?.restriction ??
+    complexType
+  );
+}
+
+/**
+ * Resolves the component that receives a new wildcard of the given kind.
+ * Element wildcards go into a sequence or choice; attribute wildcards into a
+ * complex type (or the derivation defining its content) or an attribute group.
+ *
+ * @param schemaObj - The schema to search
+ * @param parentId - ID of the parent node
+ * @param kind - Kind of the wildcard
+ * @returns The receiving component, or an error message
+ */
+export function locateWildcardHolder(
+  schemaObj: schema,
+  parentId: string,
+  kind: WildcardKind
+): WildcardHolderLocation {
+  const location = locateNodeById(schemaObj, parentId);
+  if (!location.found) {
+    return { found: false, error: `Parent node not found: ${parentId}` };
+  }
+  const parentType = location.parentType ?? "";
+
+  if (kind === "any") {
+    if (parentType !== "sequence" && parentType !== "choice") {
+      return {
+        found: false,
+        error: `Element wildcards can only be added to a sequence or choice, not to: ${parentType}`,
+      };
+    }
+    return { found: true, kind, compositor: location.parent as explicitGroup };
+  }
+
+  if (parentType === "topLevelComplexType" || parentType === "localComplexType") {
+    const complexType = location.parent as topLevelComplexType | localComplexType;
+    return { found: true, kind, holder: attributeHolderOfComplexType(complexType) };
+  }
+  if (parentType === "namedAttributeGroup") {
+    return { found: true, kind, holder: location.parent as namedAttributeGroup };
+  }
+  return {
+    found: false,
+    error: `Attribute wildcards can only be added to complex types or attribute groups, not to: ${parentType}`,
+  };
+}
+
+/**
+ * Locates a wildcard by its ID.
+ *
+ * @param schemaObj - The schema to search
+ * @param wildcardId - ID such as `/complexType:Ext/sequence/any[0]`
+ * @returns The wildcard with the component holding it, or an error message
+ */
+export function locateWildcard(schemaObj: schema, wildcardId: string): WildcardLocation {
+  let parsed;
+  try {
+    parsed = parseSchemaId(wildcardId);
+  } catch (error) {
+    return { found: false, error: (error as Error).message };
+  }
+
+  const kind: string = parsed.nodeType;
+  if (!isWildcardKind(kind) || !parsed.parentId) {
+    return { found: false, error: `Not a wildcard ID: ${wildcardId}` };
+  }
+
+  const holderLocation = locateWildcardHolder(schemaObj, parsed.parentId, kind);
+  if (!holderLocation.found) {
+    return holderLocation;
+  }
+
+  if (holderLocation.kind === "any") {
+    const wildcards = toArray(holderLocation.compositor.any_);
+    const any = parsed.position !== undefined ? wildcards[parsed.position] : undefined;
+    return any
+      ? { found: true, kind: "any", compositor: holderLocation.compositor, wildcard: any }
+      : { found: false, error: `Wildcard not found: ${wildcardId}` };
+  }
+
+  const anyAttribute = holderLocation.holder.anyAttribute;
+  return anyAttribute
+    ? { found: true, kind: "anyAttribute", holder: holderLocation.holder, wildcard: anyAttribute }
+    : { found: false, error: `Wildcard not found: ${wildcardId}` };
+}
+
+/**
+ * Reads an attribute of an element wildcard.
+ */
+export function getElementWildcardAttribute(
+  any: anyType,
+  name: ElementWildcardAttribute
+): string | undefined {
+  return any._anyAttributes?.[name];
+}
+
+/**
+ * Sets an attribute of an element wildcard; `undefined` leaves it unchanged.
+ */
+export function setElementWildcardAttribute(
+  any: anyType,
+  name: ElementWildcardAttribute,
+  value: string | number | undefined
+): void {
+  if (value === undefined) {
+    return;
+  }
+  any._anyAttributes = { ...any._anyAttributes, [name]: String(value) };
+}
+
+/**
+ * Reads the occurrence constraints of an element wildcard.
+ *
+ * @param any - The element wildcard
+ * @returns minOccurs as a number and maxOccurs as a number or "unbounded", if set
+ */
+export function getElementWildcardOccurrences(any: anyType): {
+  minOccurs?: number;
+  maxOccurs?: number | "unbounded";
+} {
+  const minOccurs = getElementWildcardAttribute(any, "minOccurs");
+  const maxOccurs = getElementWildcardAttribute(any, "maxOccurs");
+  return {
+    minOccurs: minOccurs !== undefined ? Number(minOccurs) : undefined,
+    maxOccurs:
+      maxOccurs === undefined || maxOccurs === "unbounded" ? maxOccurs : Number(maxOccurs),
+  };
+}
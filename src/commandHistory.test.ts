@@ -0,0 +1,177 @@
+/**
+ * Unit tests for the command history.
+ */
+
+import type { AddElementCommand, BatchCommand, SchemaCommand } from "../shared/types";
+import {
+  CommandHistory,
+  computeSnapshotEdits,
+  describeCommand,
+  hashXml,
+  MAX_HISTORY_ENTRIES,
+} from "./commandHistory";
+import { applyTextEdits } from "./minimalTextEdits";
+
+/** Builds an addElement command for a global element. */
+function addElement(elementName: string): AddElementCommand {
+  return { type: "addElement", payload: { parentId: "schema", elementName } };
+}
+
+/** Records a command that turns document `v<n-1>` into `v<n>`, for each n from 1 to count. */
+function recordVersions(history: CommandHistory, count: number): void {
+  for (let n = 1; n <= count; n++) {
+    history.record(addElement(`e${n}`), `v${n - 1}`, `v${n}`, 1000 + n);
+  }
+}
+
+describe("CommandHistory", () => {
+  let history: CommandHistory;
+
+  beforeEach(() => {
+    history = new CommandHistory();
+  });
+
+  it("is empty at first", () => {
+    expect(history.toData("v0")).toEqual({
+      entries: [],
+      position: 0,
+      documentHash: hashXml("v0"),
+    });
+    expect(history.snapshotAt(0)).toBeUndefined();
+  });
+
+  it("records label, timestamp, command and document hashes", () => {
+    const command = addElement("order");
+
+    const entry = history.record(command, "before", "after", 1234);
+
+    expect(entry).toEqual({
+      id: 1,
+      label: 'Add element "order"',
+      timestamp: 1234,
+      command,
+      beforeHash: hashXml("before"),
+      afterHash: hashXml("after"),
+    });
+    expect(history.toData("after")).toEqual({
+      entries: [entry],
+      position: 1,
+      documentHash: hashXml("after"),
+    });
+  });
+
+  it("does not expose the document snapshots", () => {
+    recordVersions(history, 1);
+
+    expect(Object.keys(history.toData("v1").entries[0])).not.toContain("beforeXml");
+  });
+
+  it("returns the document at every point of the history", () => {
+    recordVersions(history, 3);
+
+    expect([0, 1, 2, 3].map((position) => history.snapshotAt(position))).toEqual([
+      "v0",
+      "v1",
+      "v2",
+      "v3",
+    ]);
+    expect(history.snapshotAt(4)).toBeUndefined();
+    expect(history.snapshotAt(-1)).toBeUndefined();
+    expect(history.snapshotAt(1.5)).toBeUndefined();
+  });
+
+  it("keeps the entries stepped back over until a new command is recorded", () => {
+    recordVersions(history, 3);
+
+    history.moveTo(1);
+    expect(history.toData("v1")).toMatchObject({ position: 1, entries: { length: 3 } });
+
+    history.moveTo(3);
+    expect(history.toData("v3").position).toBe(3);
+
+    history.moveTo(1);
+    history.record(addElement("other"), "v1", "w2");
+    const data = history.toData("w2");
+    expect(data.position).toBe(2);
+    expect(data.entries.map((entry) => entry.label)).toEqual([
+      'Add element "e1"',
+      'Add element "other"',
+    ]);
+    expect(history.snapshotAt(2)).toBe("w2");
+  });
+
+  it("rejects positions out of range", () => {
+    recordVersions(history, 2);
+
+    expect(() => history.moveTo(3)).toThrow("History position out of range: 3");
+    expect(history.toData("v2").position).toBe(2);
+  });
+
+  it("drops the oldest entries beyond the maximum", () => {
+    recordVersions(history, MAX_HISTORY_ENTRIES + 2);
+
+    const data = history.toData("");
+    expect(data.entries).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(data.entries[0].id).toBe(3);
+    expect(history.snapshotAt(0)).toBe("v2");
+  });
+});
+
+describe("describeCommand", () => {
+  it.each<[SchemaCommand, string]>([
+    [addElement("person"), 'Add element "person"'],
+    [
+      { type: "removeElement", payload: { elementId: "/element:person" } },
+      "Remove element",
+    ],
+    [
+      {
+        type: "addComplexType",
+        payload: { parentId: "schema", typeName: "PersonType", contentModel: "sequence" },
+      },
+      'Add complex type "PersonType"',
+    ],
+  ])("describes %j", (command, label) => {
+    expect(describeCommand(command)).toBe(label);
+  });
+
+  it("uses the label of a batch", () => {
+    const batch: BatchCommand = {
+      type: "batch",
+      payload: { label: "Add person", commands: [addElement("person")] },
+    };
+
+    expect(describeCommand(batch)).toBe("Add person");
+  });
+
+  it("counts the commands of a batch without a label", () => {
+    const batch: BatchCommand = {
+      type: "batch",
+      payload: { commands: [addElement("a"), addElement("b")] },
+    };
+
+    expect(describeCommand(batch)).toBe("Batch of 2 commands");
+  });
+});
+
+describe("computeSnapshotEdits", () => {
+  it("returns no edit for identical texts", () => {
+    expect(computeSnapshotEdits("<a/>", "<a/>")).toEqual([]);
+  });
+
+  it("replaces only the part between the common prefix and suffix", () => {
+    const edits = computeSnapshotEdits("<a>old</a>", "<a>new</a>");
+
+    expect(edits).toEqual([{ start: 3, end: 6, newText: "new" }]);
+  });
+
+  it.each([
+    ["<a><b/></a>", "<a></a>"],
+    ["aaa", "aa"],
+    ["aa", "aaa"],
+    ["", "<a/>"],
+    ["<a/>", ""],
+  ])("restores %j from %j exactly", (target, current) => {
+    expect(applyTextEdits(current, computeSnapshotEdits(current, target))).toBe(target);
+  });
+});
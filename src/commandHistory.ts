@@ -0,0 +1,189 @@
+/**
+ * CommandHistory: Records the semantic editing operations applied to a document.
+ *
+ * VS Code's text undo stack knows nothing about which schema commands caused an
+ * edit. The history keeps one entry per applied command — with a label, the
+ * command itself and hashes of the text before and after — together with text
+ * snapshots, so that the document can be stepped back (and forward again) to any
+ * recorded point. Stepping does not remove entries; recording a new command
+ * after stepping back discards the entries that were stepped over.
+ */
+
+import { createHash } from "crypto";
+import { SchemaCommand } from "../shared/types";
+import { CommandHistoryData, CommandHistoryEntryData } from "../shared/messages";
+import { XmlTextEdit } from "./minimalTextEdits";
+
+/** Maximum number of entries kept per document; the oldest entries are dropped first. */
+export const MAX_HISTORY_ENTRIES = 100;
+
+/**
+ * A recorded command with the document text before and after it.
+ */
+interface CommandHistoryEntry extends CommandHistoryEntryData {
+  /** Document text before the command was applied */
+  beforeXml: string;
+  /** Document text after the command was applied */
+  afterXml: string;
+}
+
+/**
+ * The command history of one document.
+ */
+export class CommandHistory {
+  private entries: CommandHistoryEntry[] = [];
+  /** Number of entries applied to the document; entries from here on were stepped back over */
+  private position = 0;
+  private nextId = 1;
+
+  /**
+   * Records a command that was applied to the document.
+   *
+   * @param command - The applied command
+   * @param beforeXml - Document text before the command
+   * @param afterXml - Document text after the command
+   * @param timestamp - Time the command was applied, in milliseconds since the epoch
+   * @returns The recorded entry
+   */
+  public record(
+    command: SchemaCommand,
+    beforeXml: string,
+    afterXml: string,
+    timestamp: number = Date.now()
+  ): CommandHistoryEntryData {
+    const entry: CommandHistoryEntry = {
+      id: this.nextId++,
+      label: describeCommand(command),
+      timestamp,
+      command,
+      beforeHash: hashXml(beforeXml),
+      afterHash: hashXml(afterXml),
+      beforeXml,
+      afterXml,
+    };
+    this.entries.splice(this.position, this.entries.length - this.position, entry);
+    if (this.entries.length > MAX_HISTORY_ENTRIES) {
+      this.entries.splice(0, this.entries.length - MAX_HISTORY_ENTRIES);
+    }
+    this.position = this.entries.length;
+    return toEntryData(entry);
+  }
+
+  /**
+   * Gets the document text at a point of the history.
+   *
+   * @param position - Number of applied entries; 0 is the state before the first entry
+   * @returns The document text, or undefined if the position is out of range or the history is empty
+   */
+  public snapshotAt(position: number): string | undefined {
+    if (!Number.isInteger(position) || position < 0 || position > this.entries.length) {
+      return undefined;
+    }
+    return position === 0 ? this.entries[0]?.beforeXml : this.entries[position - 1].afterXml;
+  }
+
+  /**
+   * Marks a point of the history as the current state of the document.
+   *
+   * @param position - Number of applied entries
+   * @throws Error if the position is out of range
+   */
+  public moveTo(position: number): void {
+    if (this.snapshotAt(position) === undefined) {
+      throw new Error(`History position out of range: ${position}`);
+    }
+    this.position = position;
+  }
+
+  /**
+   * Gets the entries and current position for display.
+   *
+   * @param documentXml - Current document text, hashed so that the view can tell
+   *   whether the document was changed outside of the history
+   * @returns The history data
+   */
+  public toData(documentXml: string): CommandHistoryData {
+    return {
+      entries: this.entries.map(toEntryData),
+      position: this.position,
+      documentHash: hashXml(documentXml),
+    };
+  }
+}
+
+/**
+ * Hashes a document text.
+ *
+ * @param xml - The document text
+ * @returns Hex-encoded SHA-256 hash of the text
+ */
+export function hashXml(xml: string): string {
+  return createHash("sha256").update(xml, "utf8").digest("hex");
+}
+
+/**
+ * Computes a single edit that replaces the part of a text that differs from
+ * another text, keeping their common prefix and suffix. Used to restore
+ * snapshots byte-for-byte.
+ *
+ * @param current - The current text
+ * @param target - The text to restore
+ * @returns The edit, or none if the texts are identical
+ */
+export function computeSnapshotEdits(current: string, target: string): XmlTextEdit[] {
+  if (current === target) {
+    return [];
+  }
+  let prefix = 0;
+  const maxPrefix = Math.min(current.length, target.length);
+  while (prefix < maxPrefix && current[prefix] === target[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (
+    suffix < maxSuffix &&
+    current[current.length - 1 - suffix] === target[target.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  return [
+    {
+      start: prefix,
+      end: current.length - suffix,
+      newText: target.substring(prefix, target.length - suffix),
+    },
+  ];
+}
+
+/**
+ * Builds a label for a command, such as `Add element "order"`.
+ * Batches use their own label if they have one.
+ *
+ * @param command - The command
+ * @returns The label
+ */
+export function describeCommand(command: SchemaCommand): string {
+  if (command.type === "batch") {
+    return command.payload.label ?? `Batch of ${command.payload.commands.length} commands`;
+  }
+  const words = command.type.replace(/([A-Z])/g, " $1").toLowerCase();
+  const action = words.charAt(0).toUpperCase() + words.slice(1);
+  const payload = command.payload as Record<string, unknown>;
+  const name = Object.keys(payload)
+    .filter((key) => key.endsWith("Name") || key === "ref")
+    .map((key) => payload[key])
+    .find((value): value is string => typeof value === "string" && value.length > 0);
+  return name ? `${action} "${name}"` : action;
+}
+
+/**
+ * Strips the snapshots from an entry.
+ *
+ * @param entry - The entry
+ * @returns The entry data sent to the webview
+ */
+function toEntryData(entry: CommandHistoryEntry): CommandHistoryEntryData {
+  const { beforeXml: _beforeXml, afterXml: _afterXml, ...data } = entry;
+  return data;
+}
@@ -11,7 +11,7 @@ import type {
   CommandExecutionValidationFailure,
   CommandExecutionRuntimeFailure,
 } from "./commandProcessor";
-import { AddElementCommand, SchemaCommand, schema } from "../shared/types";
+import { AddElementCommand, BatchCommand, SchemaCommand, schema } from "../shared/types";
 import type { CommandValidator } from "./commandValidator";
 import type { CommandExecutor } from "./commandExecutor";
 import type { SchemaModelManager } from "./schemaModelManager";
@@ -983,4 +983,166 @@ describe("CommandProcessor", () => {
       expect(result.success).toBe(true);
     });
   });
+
+  describe("Batch Commands", () => {
+    const batch: BatchCommand = {
+      type: "batch",
+      payload: {
+        label: "Add element with attribute",
+        commands: [
+          {
+            type: "addComplexType",
+            payload: { parentId: "schema", typeName: "PersonType", contentModel: "sequence" },
+          },
+          {
+            type: "addElement",
+            payload: { parentId: "/complexType:PersonType/sequence", elementName: "name" },
+          },
+          {
+            type: "addAttribute",
+            payload: { parentId: "/complexType:PersonType", attributeName: "id" },
+          },
+        ],
+      },
+    };
+
+    /** Builds a model manager mock whose working copy is a separate object. */
+    function createModelManager(workingSchema: schema): MockModelManager {
+      return {
+        loadFromXml: jest.fn(),
+        getSchema: jest.fn().mockReturnValue(mockSchema),
+        setSchema: jest.fn(),
+        cloneSchema: jest.fn().mockReturnValue(workingSchema),
+        toXml: jest.fn().mockReturnValue(simpleSchemaXml),
+      };
+    }
+
+    test("should validate each sub-command against the state left by the previous ones", () => {
+      const workingSchema = new schema();
+      const calls: string[] = [];
+      const mockValidator: MockValidator = {
+        validate: jest.fn((cmd: SchemaCommand) => {
+          calls.push(`validate ${cmd.type}`);
+          return { valid: true };
+        }),
+      };
+      const mockExecutor: MockExecutor = {
+        execute: jest.fn((cmd: SchemaCommand) => {
+          calls.push(`execute ${cmd.type}`);
+        }),
+      };
+      const mockModelManager = createModelManager(workingSchema);
+
+      const result = new CommandProcessor(
+        mockValidator as CommandValidator,
+        mockExecutor as CommandExecutor,
+        mockModelManager as SchemaModelManager
+      ).execute(batch, simpleSchemaXml);
+
+      expect(result.success).toBe(true);
+      // Each sub-command is validated after the previous one was executed
+      expect(calls).toEqual([
+        "validate batch",
+        "validate addComplexType",
+        "execute addComplexType",
+        "validate addElement",
+        "execute addElement",
+        "validate addAttribute",
+        "execute addAttribute",
+      ]);
+      expect(mockValidator.validate).toHaveBeenCalledWith(batch, mockSchema);
+      for (const subCommand of batch.payload.commands) {
+        expect(mockValidator.validate).toHaveBeenCalledWith(subCommand, workingSchema);
+        expect(mockExecutor.execute).toHaveBeenCalledWith(subCommand, workingSchema);
+      }
+      // The whole batch is serialized once
+      expect(mockModelManager.toXml).toHaveBeenCalledTimes(1);
+    });
+
+    test("should reject the whole batch and name the invalid sub-command", () => {
+      const mockValidator: MockValidator = {
+        validate: jest.fn((cmd: SchemaCommand) =>
+          cmd.type === "addElement"
+            ? { valid: false, error: "Parent node not found" }
+            : { valid: true }
+        ),
+      };
+      const mockExecutor: MockExecutor = { execute: jest.fn() };
+      const mockModelManager = createModelManager(new schema());
+
+      const result = new CommandProcessor(
+        mockValidator as CommandValidator,
+        mockExecutor as CommandExecutor,
+        mockModelManager as SchemaModelManager
+      ).execute(batch, simpleSchemaXml);
+
+      expectValidationFailure(result);
+      expect(result.error).toBe(
+        "Batch command 2 of 3 (addElement) is invalid: Parent node not found"
+      );
+      // Later sub-commands are not executed and nothing is serialized
+      expect(mockExecutor.execute).toHaveBeenCalledTimes(1);
+      expect(mockModelManager.setSchema).not.toHaveBeenCalled();
+      expect(mockModelManager.toXml).not.toHaveBeenCalled();
+    });
+
+    test("should report a runtime failure naming the sub-command that threw", () => {
+      const mockValidator: MockValidator = {
+        validate: jest.fn().mockReturnValue({ valid: true }),
+      };
+      const mockExecutor: MockExecutor = {
+        execute: jest.fn((cmd: SchemaCommand) => {
+          if (cmd.type === "addAttribute") {
+            throw new Error("Executor crashed unexpectedly");
+          }
+        }),
+      };
+      const mockModelManager = createModelManager(new schema());
+
+      const result = new CommandProcessor(
+        mockValidator as CommandValidator,
+        mockExecutor as CommandExecutor,
+        mockModelManager as SchemaModelManager
+      ).execute(batch, simpleSchemaXml);
+
+      expectRuntimeFailure(result);
+      expect(result.error).toBe(
+        "Command execution failed: Batch command 3 of 3 (addAttribute) failed: Executor crashed unexpectedly"
+      );
+      expect(result.stack).toBeDefined();
+      expect(mockModelManager.toXml).not.toHaveBeenCalled();
+    });
+
+    test("should reject a batch without commands", () => {
+      const result = processor.execute(
+        { type: "batch", payload: { commands: [] } },
+        simpleSchemaXml
+      );
+
+      expectValidationFailure(result);
+      expect(result.error).toBe("Batch must contain at least one command");
+    });
+  });
+
+  describe("Command History", () => {
+    test("should keep one history per document", () => {
+      const history = processor.getHistory("file:///a.xsd");
+
+      expect(processor.getHistory("file:///a.xsd")).toBe(history);
+      expect(processor.getHistory("file:///b.xsd")).not.toBe(history);
+    });
+
+    test("should start a new history after clearing a document's history", () => {
+      const history = processor.getHistory("file:///a.xsd");
+      history.record(
+        { type: "addElement", payload: { parentId: "schema", elementName: "a" } },
+        simpleSchemaXml,
+        simpleSchemaXml
+      );
+
+      processor.clearHistory("file:///a.xsd");
+
+      expect(processor.getHistory("file:///a.xsd").toData(simpleSchemaXml).entries).toEqual([]);
+    });
+  });
 });
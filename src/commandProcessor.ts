@@ -3,10 +3,12 @@
  * Implements validation, execution, and rollback logic for schema transformations.
  */
 
-import { SchemaCommand, schema } from "../shared/types";
+import { SchemaCommand, BatchCommand, schema } from "../shared/types";
 import { CommandValidator } from "./commandValidator";
 import { CommandExecutor } from "./commandExecutor";
 import { SchemaModelManager } from "./schemaModelManager";
+import { computeMinimalTextEdits, XmlTextEdit } from "./minimalTextEdits";
+import { CommandHistory } from "./commandHistory";
 
 /**
  * Classifies the origin of a command execution failure.
@@ -27,6 +29,11 @@ export interface CommandExecutionSuccess {
   schema: schema;
   /** Serialized XML content after applying the command. */
   xmlContent: string;
+  /**
+   * Edits that turn the original XML into a document equivalent to `xmlContent`,
+   * touching only the fragments the command changed.
+   */
+  edits: XmlTextEdit[];
 }
 
 /** Command was rejected by the validator (bad input or incompatible schema state). */
@@ -65,11 +72,13 @@ export type CommandExecutionResult =
  * CommandProcessor manages the execution of schema editing commands.
  * Ensures validation, transactionality, and rollback support.
  * Prevents concurrent command executions to maintain state consistency.
+ * Keeps the command history of each document it edits.
  */
 export class CommandProcessor {
   private readonly validator: CommandValidator;
   private readonly executor: CommandExecutor;
   private readonly modelManager: SchemaModelManager;
+  private readonly histories = new Map<string, CommandHistory>();
   private isExecuting: boolean = false;
 
   /**
@@ -93,6 +102,7 @@ export class CommandProcessor {
    * Execute a command on the given schema.
    * Validates the command, executes it, and returns the result.
    * If execution fails, the original schema is preserved.
+   * The sub-commands of a batch are applied together or not at all.
    * Prevents concurrent executions to maintain state consistency.
    *
    * @param command - The command to execute
@@ -141,7 +151,15 @@ export class CommandProcessor {
       const workingSchema = this.modelManager.cloneSchema();
 
       // Step 4: Execute the command on the working copy
-      this.executor.execute(command, workingSchema);
+      if (command.type === "batch") {
+        const batchFailure = this.executeBatch(command, workingSchema);
+        if (batchFailure) {
+          // The working copy is discarded, so none of the sub-commands is applied
+          return batchFailure;
+        }
+      } else {
+        this.executor.execute(command, workingSchema);
+      }
 
       // Step 5: Update the model manager with the working schema and serialize
       this.modelManager.setSchema(workingSchema);
@@ -153,10 +171,14 @@ export class CommandProcessor {
       // Restore the working schema to maintain consistency in modelManager state
       this.modelManager.setSchema(workingSchema);
 
+      // Step 7: Compute the edits that apply the change to the original text
+      const edits = computeMinimalTextEdits(currentXml, updatedXml);
+
       return {
         success: true,
         schema: workingSchema,
         xmlContent: updatedXml,
+        edits,
       };
     } catch (error) {
       // Rollback: any error during execution returns failure with original state preserved
@@ -174,4 +196,69 @@ export class CommandProcessor {
       this.isExecuting = false;
     }
   }
+
+  /**
+   * Gets the command history of a document, creating an empty one on first use.
+   * Callers record commands once their edits have been applied to the document.
+   *
+   * @param documentKey - Key identifying the document, such as its URI
+   * @returns The document's command history
+   */
+  public getHistory(documentKey: string): CommandHistory {
+    let history = this.histories.get(documentKey);
+    if (!history) {
+      history = new CommandHistory();
+      this.histories.set(documentKey, history);
+    }
+    return history;
+  }
+
+  /**
+   * Discards the command history of a document.
+   *
+   * @param documentKey - Key identifying the document
+   */
+  public clearHistory(documentKey: string): void {
+    this.histories.delete(documentKey);
+  }
+
+  /**
+   * Validates and executes the sub-commands of a batch in order on the working
+   * copy, so that each one is validated against the state left by the ones before.
+   *
+   * @param batch - The batch command
+   * @param workingSchema - The working copy of the schema, modified in place
+   * @returns A validation failure naming the rejected sub-command, or null if all were applied
+   * @throws Error naming the sub-command if its execution throws
+   */
+  private executeBatch(
+    batch: BatchCommand,
+    workingSchema: schema
+  ): CommandExecutionValidationFailure | null {
+    const { commands } = batch.payload;
+    for (const [index, subCommand] of commands.entries()) {
+      const description = `Batch command ${index + 1} of ${commands.length} (${subCommand.type})`;
+
+      const validationResult = this.validator.validate(subCommand, workingSchema);
+      if (!validationResult.valid) {
+        return {
+          success: false,
+          error: `${description} is invalid: ${validationResult.error}`,
+          errorKind: "validation",
+          schema: null,
+          xmlContent: null,
+        };
+      }
+
+      try {
+        this.executor.execute(subCommand, workingSchema);
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        const wrapped = new Error(`${description} failed: ${err.message}`);
+        wrapped.stack = err.stack;
+        throw wrapped;
+      }
+    }
+    return null;
+  }
 }
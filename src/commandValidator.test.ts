@@ -60,6 +60,26 @@ describe("CommandValidator", () => {
       validateAddInclude: createMockValidator(),
       validateRemoveInclude: createMockValidator(),
       validateModifyInclude: createMockValidator(),
+      validateModifySchema: createMockValidator(),
+      validateAddIdentityConstraint: createMockValidator(),
+      validateRemoveIdentityConstraint: createMockValidator(),
+      validateModifyIdentityConstraint: createMockValidator(),
+      validateAddWildcard: createMockValidator(),
+      validateRemoveWildcard: createMockValidator(),
+      validateModifyWildcard: createMockValidator(),
+      validateAddCompositor: createMockValidator(),
+      validateRemoveCompositor: createMockValidator(),
+      validateModifyCompositor: createMockValidator(),
+      validateMoveNode: createMockValidator(),
+      validateRenameComponent: createMockValidator(),
+      validateSafeDeleteComponent: createMockValidator(),
+      validateExtractType: createMockValidator(),
+      validateInlineType: createMockValidator(),
+      validateExtractGroup: createMockValidator(),
+      validateExtractAttributeGroup: createMockValidator(),
+      validatePromoteElement: createMockValidator(),
+      validateDemoteElement: createMockValidator(),
+      validateBatch: createMockValidator(),
     };
 
     validator = new CommandValidator(mockValidators);
@@ -241,6 +261,214 @@ describe("CommandValidator", () => {
       );
       expect(mockValidators.validateRemoveAttributeGroup).toHaveBeenCalledTimes(1);
     });
+    it("should delegate addIdentityConstraint to validateAddIdentityConstraint", () => {
+      const command: SchemaCommand = {
+        type: "addIdentityConstraint",
+        payload: {
+          parentId: "/element:orders",
+          kind: "key",
+          constraintName: "orderKey",
+          selector: "order",
+          fields: ["@id"],
+        },
+      };
+
+      const result = validator.validate(command, mockSchema);
+
+      expect(result.valid).toBe(true);
+      expect(mockValidators.validateAddIdentityConstraint).toHaveBeenCalledWith(
+        command,
+        mockSchema
+      );
+      expect(mockValidators.validateAddIdentityConstraint).toHaveBeenCalledTimes(1);
+    });
+
+    it("should delegate addWildcard to validateAddWildcard", () => {
+      const command: SchemaCommand = {
+        type: "addWildcard",
+        payload: { parentId: "/complexType:Ext/sequence", kind: "any", namespace: "##other" },
+      };
+
+      const result = validator.validate(command, mockSchema);
+
+      expect(result.valid).toBe(true);
+      expect(mockValidators.validateAddWildcard).toHaveBeenCalledWith(command, mockSchema);
+      expect(mockValidators.validateAddWildcard).toHaveBeenCalledTimes(1);
+    });
+
+    it("should delegate modifyCompositor to validateModifyCompositor", () => {
+      const command: SchemaCommand = {
+        type: "modifyCompositor",
+        payload: { compositorId: "/complexType:Payment/sequence/choice[0]", compositor: "sequence" },
+      };
+
+      const result = validator.validate(command, mockSchema);
+
+      expect(result.valid).toBe(true);
+      expect(mockValidators.validateModifyCompositor).toHaveBeenCalledWith(command, mockSchema);
+      expect(mockValidators.validateModifyCompositor).toHaveBeenCalledTimes(1);
+    });
+
+    it("should delegate moveNode to validateMoveNode", () => {
+      const command: SchemaCommand = {
+        type: "moveNode",
+        payload: {
+          nodeId: "/complexType:Payment/sequence/element:amount[1]",
+          newParentId: "/complexType:Payment/sequence",
+          index: 0,
+        },
+      };
+
+      const result = validator.validate(command, mockSchema);
+
+      expect(result.valid).toBe(true);
+      expect(mockValidators.validateMoveNode).toHaveBeenCalledWith(command, mockSchema);
+      expect(mockValidators.validateMoveNode).toHaveBeenCalledTimes(1);
+    });
+
+    it("should delegate renameComponent to validateRenameComponent", () => {
+      const command: SchemaCommand = {
+        type: "renameComponent",
+        payload: { componentId: "/complexType:Payment", newName: "Invoice" },
+      };
+
+      const result = validator.validate(command, mockSchema);
+
+      expect(result.valid).toBe(true);
+      expect(mockValidators.validateRenameComponent).toHaveBeenCalledWith(command, mockSchema);
+      expect(mockValidators.validateRenameComponent).toHaveBeenCalledTimes(1);
+    });
+
+    it("should delegate safeDeleteComponent to validateSafeDeleteComponent", () => {
+      const command: SchemaCommand = {
+        type: "safeDeleteComponent",
+        payload: { componentId: "/complexType:Payment", strategy: "cascade" },
+      };
+
+      const result = validator.validate(command, mockSchema);
+
+      expect(result.valid).toBe(true);
+      expect(mockValidators.validateSafeDeleteComponent).toHaveBeenCalledWith(command, mockSchema);
+      expect(mockValidators.validateSafeDeleteComponent).toHaveBeenCalledTimes(1);
+    });
+
+    it("should delegate extractType to validateExtractType", () => {
+      const command: SchemaCommand = {
+        type: "extractType",
+        payload: { typeId: "/element:payment/anonymousComplexType[0]", typeName: "Payment" },
+      };
+
+      const result = validator.validate(command, mockSchema);
+
+      expect(result.valid).toBe(true);
+      expect(mockValidators.validateExtractType).toHaveBeenCalledWith(command, mockSchema);
+      expect(mockValidators.validateExtractType).toHaveBeenCalledTimes(1);
+    });
+
+    it("should delegate inlineType to validateInlineType", () => {
+      const command: SchemaCommand = {
+        type: "inlineType",
+        payload: { typeId: "/complexType:PaymentType", declarationId: "/element:payment" },
+      };
+
+      const result = validator.validate(command, mockSchema);
+
+      expect(result.valid).toBe(true);
+      expect(mockValidators.validateInlineType).toHaveBeenCalledWith(command, mockSchema);
+      expect(mockValidators.validateInlineType).toHaveBeenCalledTimes(1);
+    });
+
+    it("should delegate extractGroup to validateExtractGroup", () => {
+      const command: SchemaCommand = {
+        type: "extractGroup",
+        payload: {
+          particleIds: ["/complexType:PersonType/sequence[0]/element:street"],
+          groupName: "AddressGroup",
+        },
+      };
+
+      const result = validator.validate(command, mockSchema);
+
+      expect(result.valid).toBe(true);
+      expect(mockValidators.validateExtractGroup).toHaveBeenCalledWith(command, mockSchema);
+      expect(mockValidators.validateExtractGroup).toHaveBeenCalledTimes(1);
+    });
+
+    it("should delegate extractAttributeGroup to validateExtractAttributeGroup", () => {
+      const command: SchemaCommand = {
+        type: "extractAttributeGroup",
+        payload: {
+          attributeIds: ["/complexType:PersonType/attribute:id"],
+          groupName: "IdentityAttributes",
+        },
+      };
+
+      const result = validator.validate(command, mockSchema);
+
+      expect(result.valid).toBe(true);
+      expect(mockValidators.validateExtractAttributeGroup).toHaveBeenCalledWith(
+        command,
+        mockSchema
+      );
+      expect(mockValidators.validateExtractAttributeGroup).toHaveBeenCalledTimes(1);
+    });
+
+    it("should delegate promoteElement to validatePromoteElement", () => {
+      const command: SchemaCommand = {
+        type: "promoteElement",
+        payload: { elementId: "/complexType:OrderType/sequence[0]/element:item" },
+      };
+
+      const result = validator.validate(command, mockSchema);
+
+      expect(result.valid).toBe(true);
+      expect(mockValidators.validatePromoteElement).toHaveBeenCalledWith(command, mockSchema);
+      expect(mockValidators.validatePromoteElement).toHaveBeenCalledTimes(1);
+    });
+
+    it("should delegate demoteElement to validateDemoteElement", () => {
+      const command: SchemaCommand = {
+        type: "demoteElement",
+        payload: { elementId: "/complexType:OrderType/sequence[0]/element:tns:item[0]" },
+      };
+
+      const result = validator.validate(command, mockSchema);
+
+      expect(result.valid).toBe(true);
+      expect(mockValidators.validateDemoteElement).toHaveBeenCalledWith(command, mockSchema);
+      expect(mockValidators.validateDemoteElement).toHaveBeenCalledTimes(1);
+    });
+
+    it("should delegate modifySchema to validateModifySchema", () => {
+      const command: SchemaCommand = {
+        type: "modifySchema",
+        payload: { targetNamespace: "urn:example:orders" },
+      };
+
+      const result = validator.validate(command, mockSchema);
+
+      expect(result.valid).toBe(true);
+      expect(mockValidators.validateModifySchema).toHaveBeenCalledWith(command, mockSchema);
+      expect(mockValidators.validateModifySchema).toHaveBeenCalledTimes(1);
+    });
+
+    it("should delegate batch to validateBatch", () => {
+      const command: SchemaCommand = {
+        type: "batch",
+        payload: {
+          commands: [
+            { type: "removeElement", payload: { elementId: "/element:a" } },
+          ],
+        },
+      };
+
+      const result = validator.validate(command, mockSchema);
+
+      expect(result.valid).toBe(true);
+      expect(mockValidators.validateBatch).toHaveBeenCalledWith(command, mockSchema);
+      // Sub-commands are validated by CommandProcessor against the intermediate state
+      expect(mockValidators.validateRemoveElement).not.toHaveBeenCalled();
+    });
   });
 
   describe("default constructor behavior", () => {
@@ -17,7 +17,6 @@
  * - Check for duplicate element/type names before adding (requires execution context)
  * - Validate type references (ensure referenced types are valid built-in or user-defined)
  * - Check for circular dependencies in type hierarchies
- * - Validate XPath expressions in key/keyref/unique constraints
  * - Verify namespace URI format and declarations
  * - Check if types/groups are being used before allowing removal
  * - Validate facet restrictions for simple types
@@ -56,6 +55,26 @@ import {
   AddIncludeCommand,
   RemoveIncludeCommand,
   ModifyIncludeCommand,
+  ModifySchemaCommand,
+  AddIdentityConstraintCommand,
+  RemoveIdentityConstraintCommand,
+  ModifyIdentityConstraintCommand,
+  AddWildcardCommand,
+  RemoveWildcardCommand,
+  ModifyWildcardCommand,
+  AddCompositorCommand,
+  RemoveCompositorCommand,
+  ModifyCompositorCommand,
+  MoveNodeCommand,
+  RenameComponentCommand,
+  SafeDeleteComponentCommand,
+  ExtractTypeCommand,
+  InlineTypeCommand,
+  ExtractGroupCommand,
+  ExtractAttributeGroupCommand,
+  PromoteElementCommand,
+  DemoteElementCommand,
+  BatchCommand,
 } from "../shared/commands";
 import { ValidationResult } from "./commandValidators/validationUtils";
 
@@ -66,6 +85,14 @@ import * as groupValidators from "./commandValidators/groupValidators";
 import * as attributeGroupValidators from "./commandValidators/attributeGroupValidators";
 import * as annotationValidators from "./commandValidators/annotationValidators";
 import * as schemaValidators from "./commandValidators/schemaValidators";
+import * as identityConstraintValidators from "./commandValidators/identityConstraintValidators";
+import * as wildcardValidators from "./commandValidators/wildcardValidators";
+import * as compositorValidators from "./commandValidators/compositorValidators";
+import * as moveValidators from "./commandValidators/moveValidators";
+import * as refactoringValidators from "./commandValidators/refactoringValidators";
+import * as extractionValidators from "./commandValidators/extractionValidators";
+import * as elementScopeValidators from "./commandValidators/elementScopeValidators";
+import * as batchValidators from "./commandValidators/batchValidators";
 
 /**
  * Generic type for validator functions that validate commands.
@@ -111,6 +138,26 @@ export interface ValidatorFunctions {
   validateAddInclude: ValidatorFunction<AddIncludeCommand>;
   validateRemoveInclude: ValidatorFunction<RemoveIncludeCommand>;
   validateModifyInclude: ValidatorFunction<ModifyIncludeCommand>;
+  validateModifySchema: ValidatorFunction<ModifySchemaCommand>;
+  validateAddIdentityConstraint: ValidatorFunction<AddIdentityConstraintCommand>;
+  validateRemoveIdentityConstraint: ValidatorFunction<RemoveIdentityConstraintCommand>;
+  validateModifyIdentityConstraint: ValidatorFunction<ModifyIdentityConstraintCommand>;
+  validateAddWildcard: ValidatorFunction<AddWildcardCommand>;
+  validateRemoveWildcard: ValidatorFunction<RemoveWildcardCommand>;
+  validateModifyWildcard: ValidatorFunction<ModifyWildcardCommand>;
+  validateAddCompositor: ValidatorFunction<AddCompositorCommand>;
+  validateRemoveCompositor: ValidatorFunction<RemoveCompositorCommand>;
+  validateModifyCompositor: ValidatorFunction<ModifyCompositorCommand>;
+  validateMoveNode: ValidatorFunction<MoveNodeCommand>;
+  validateRenameComponent: ValidatorFunction<RenameComponentCommand>;
+  validateSafeDeleteComponent: ValidatorFunction<SafeDeleteComponentCommand>;
+  validateExtractType: ValidatorFunction<ExtractTypeCommand>;
+  validateInlineType: ValidatorFunction<InlineTypeCommand>;
+  validateExtractGroup: ValidatorFunction<ExtractGroupCommand>;
+  validateExtractAttributeGroup: ValidatorFunction<ExtractAttributeGroupCommand>;
+  validatePromoteElement: ValidatorFunction<PromoteElementCommand>;
+  validateDemoteElement: ValidatorFunction<DemoteElementCommand>;
+  validateBatch: ValidatorFunction<BatchCommand>;
 }
 
 /**
@@ -158,6 +205,26 @@ export class CommandValidator {
       validateAddInclude: schemaValidators.validateAddInclude,
       validateRemoveInclude: schemaValidators.validateRemoveInclude,
       validateModifyInclude: schemaValidators.validateModifyInclude,
+      validateModifySchema: schemaValidators.validateModifySchema,
+      validateAddIdentityConstraint: identityConstraintValidators.validateAddIdentityConstraint,
+      validateRemoveIdentityConstraint: identityConstraintValidators.validateRemoveIdentityConstraint,
+      validateModifyIdentityConstraint: identityConstraintValidators.validateModifyIdentityConstraint,
+      validateAddWildcard: wildcardValidators.validateAddWildcard,
+      validateRemoveWildcard: wildcardValidators.validateRemoveWildcard,
+      validateModifyWildcard: wildcardValidators.validateModifyWildcard,
+      validateAddCompositor: compositorValidators.validateAddCompositor,
+      validateRemoveCompositor: compositorValidators.validateRemoveCompositor,
+      validateModifyCompositor: compositorValidators.validateModifyCompositor,
+      validateMoveNode: moveValidators.validateMoveNode,
+      validateRenameComponent: refactoringValidators.validateRenameComponent,
+      validateSafeDeleteComponent: refactoringValidators.validateSafeDeleteComponent,
+      validateExtractType: extractionValidators.validateExtractType,
+      validateInlineType: extractionValidators.validateInlineType,
+      validateExtractGroup: extractionValidators.validateExtractGroup,
+      validateExtractAttributeGroup: extractionValidators.validateExtractAttributeGroup,
+      validatePromoteElement: elementScopeValidators.validatePromoteElement,
+      validateDemoteElement: elementScopeValidators.validateDemoteElement,
+      validateBatch: batchValidators.validateBatch,
     };
   }
 
@@ -231,6 +298,46 @@ export class CommandValidator {
         return this.validators.validateRemoveInclude(command, schemaObj);
       case "modifyInclude":
         return this.validators.validateModifyInclude(command, schemaObj);
+      case "modifySchema":
+        return this.validators.validateModifySchema(command, schemaObj);
+      case "addIdentityConstraint":
+        return this.validators.validateAddIdentityConstraint(command, schemaObj);
+      case "removeIdentityConstraint":
+        return this.validators.validateRemoveIdentityConstraint(command, schemaObj);
+      case "modifyIdentityConstraint":
+        return this.validators.validateModifyIdentityConstraint(command, schemaObj);
+      case "addWildcard":
+        return this.validators.validateAddWildcard(command, schemaObj);
+      case "removeWildcard":
+        return this.validators.validateRemoveWildcard(command, schemaObj);
+      case "modifyWildcard":
+        return this.validators.validateModifyWildcard(command, schemaObj);
+      case "addCompositor":
+        return this.validators.validateAddCompositor(command, schemaObj);
+      case "removeCompositor":
+        return this.validators.validateRemoveCompositor(command, schemaObj);
+      case "modifyCompositor":
+        return this.validators.validateModifyCompositor(command, schemaObj);
+      case "moveNode":
+        return this.validators.validateMoveNode(command, schemaObj);
+      case "renameComponent":
+        return this.validators.validateRenameComponent(command, schemaObj);
+      case "safeDeleteComponent":
+        return this.validators.validateSafeDeleteComponent(command, schemaObj);
+      case "extractType":
+        return this.validators.validateExtractType(command, schemaObj);
+      case "inlineType":
+        return this.validators.validateInlineType(command, schemaObj);
+      case "extractGroup":
+        return this.validators.validateExtractGroup(command, schemaObj);
+      case "extractAttributeGroup":
+        return this.validators.validateExtractAttributeGroup(command, schemaObj);
+      case "promoteElement":
+        return this.validators.validatePromoteElement(command, schemaObj);
+      case "demoteElement":
+        return this.validators.validateDemoteElement(command, schemaObj);
+      case "batch":
+        return this.validators.validateBatch(command, schemaObj);
       default:
         return {
           valid: false,
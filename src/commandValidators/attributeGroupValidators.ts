@@ -15,6 +15,7 @@ import { ValidationResult, isValidXmlName } from "./validationUtils";
 import { toArray } from "../../shared/schemaUtils";
 import { parseSchemaId, SchemaNodeType } from "../../shared/idStrategy";
 import { locateNodeById } from "../schemaNavigator";
+import { collectUsages } from "../componentUsages";
 
 // ===== AttributeGroup Reference Helpers =====
 
@@ -152,31 +153,6 @@ function attrGroupRefExistsInHolderDeep(
   return false;
 }
 
-/**
- * Returns true if the named attribute group is referenced anywhere in the schema.
- *
- * Checks:
- * - Top-level complexType definitions (including their compositor trees and
- *   inline complexTypes on nested local elements)
- * - Inline complexTypes on top-level elements (same deep traversal)
- * - Other attribute group definitions (direct refs only — attribute group
- *   definitions do not carry compositor particles)
- */
-function isAttrGroupReferenced(name: string, schemaObj: schema): boolean {
-  for (const ct of toArray(schemaObj.complexType)) {
-    if (attrGroupRefExistsInHolderDeep(name, ct)) return true;
-  }
-  for (const el of toArray(schemaObj.element)) {
-    if (el.complexType && attrGroupRefExistsInHolderDeep(name, el.complexType)) {
-      return true;
-    }
-  }
-  for (const ag of toArray(schemaObj.attributeGroup)) {
-    if (toArray(ag.attributeGroup).some((r) => r.ref === name)) return true;
-  }
-  return false;
-}
-
 /**
  * Checks whether an attributeGroupRef identified by name and optional position
  * actually exists in the given refs array.
@@ -344,7 +320,7 @@ export function validateRemoveAttributeGroup(
       error: `Attribute group not found: ${command.payload.groupId}`,
     };
   }
-  if (parsed.name && isAttrGroupReferenced(parsed.name, schemaObj)) {
+  if (parsed.name && collectUsages(schemaObj, "attributeGroup", parsed.name).length > 0) {
     return {
       valid: false,
       error: `Attribute group is still referenced and cannot be removed: ${parsed.name}`,
@@ -0,0 +1,39 @@
+/**
+ * Unit tests for batch command validators.
+ */
+
+import { validateBatch } from "./batchValidators";
+import { expectInvalid } from "./validationTestHelpers";
+import type { BatchCommand, SchemaCommand } from "../../shared/types";
+
+/**
+ * Creates a batch command holding the given commands.
+ */
+function batchOf(commands: SchemaCommand[]): BatchCommand {
+  return { type: "batch", payload: { commands } };
+}
+
+describe("validateBatch", () => {
+  const removeElement: SchemaCommand = {
+    type: "removeElement",
+    payload: { elementId: "/element:a" },
+  };
+
+  it("should accept a batch of commands", () => {
+    expect(validateBatch(batchOf([removeElement, removeElement]))).toEqual({ valid: true });
+  });
+
+  it("should reject an empty batch", () => {
+    const result = validateBatch(batchOf([]));
+
+    expectInvalid(result);
+    expect(result.error).toBe("Batch must contain at least one command");
+  });
+
+  it("should reject nested batches", () => {
+    const result = validateBatch(batchOf([removeElement, batchOf([removeElement])]));
+
+    expectInvalid(result);
+    expect(result.error).toBe("Batch command 2 is a batch; batches cannot be nested");
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Validators for batch commands.
+ *
+ * Only the shape of the batch is checked here. The sub-commands depend on the
+ * schema state left by the commands before them, so CommandProcessor validates
+ * each of them against the intermediate state while applying the batch.
+ */
+
+import { BatchCommand } from "../../shared/types";
+import { ValidationResult } from "./validationUtils";
+
+/**
+ * Validates that a batch holds at least one command and no nested batches.
+ *
+ * @param command - The batch command
+ * @returns Validation result
+ */
+export function validateBatch(command: BatchCommand): ValidationResult {
+  const { commands } = command.payload;
+  if (!Array.isArray(commands) || commands.length === 0) {
+    return { valid: false, error: "Batch must contain at least one command" };
+  }
+  const nestedIndex = commands.findIndex((subCommand) => subCommand.type === "batch");
+  if (nestedIndex >= 0) {
+    return {
+      valid: false,
+      error: `Batch command ${nestedIndex + 1} is a batch; batches cannot be nested`,
+    };
+  }
+  return { valid: true };
+}
@@ -0,0 +1,193 @@
+/**
+ * Unit tests for complex type derivation validation.
+ * Tests the content kinds, derivation methods and base types accepted by the
+ * add and modify complex type validators.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import {
+  schema,
+  AddComplexTypeCommand,
+  AddComplexTypePayload,
+  ModifyComplexTypeCommand,
+  ModifyComplexTypePayload,
+} from "../../shared/types";
+import { validateAddComplexType, validateModifyComplexType } from "./typeValidators";
+import { expectInvalid } from "./validationTestHelpers";
+
+const SCHEMA_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:prices" xmlns:ext="urn:external" targetNamespace="urn:prices">
+  <xs:import namespace="urn:external" schemaLocation="external.xsd"/>
+  <xs:simpleType name="Amount">
+    <xs:restriction base="xs:decimal"/>
+  </xs:simpleType>
+  <xs:complexType name="PriceType">
+    <xs:simpleContent>
+      <xs:extension base="tns:Amount">
+        <xs:attribute name="currency" type="xs:string"/>
+      </xs:extension>
+    </xs:simpleContent>
+  </xs:complexType>
+  <xs:complexType name="ProductType">
+    <xs:sequence>
+      <xs:element name="name" type="xs:string"/>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:element name="price">
+    <xs:complexType>
+      <xs:simpleContent>
+        <xs:extension base="xs:decimal"/>
+      </xs:simpleContent>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`;
+
+describe("Complex Type Derivation Validation", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, SCHEMA_XML);
+  });
+
+  /** Builds an addComplexType command for a top-level type named NewType. */
+  function addCommand(payload: Omit<AddComplexTypePayload, "typeName">): AddComplexTypeCommand {
+    return { type: "addComplexType", payload: { typeName: "NewType", ...payload } };
+  }
+
+  /** Builds a modifyComplexType command. */
+  function modifyCommand(payload: ModifyComplexTypePayload): ModifyComplexTypeCommand {
+    return { type: "modifyComplexType", payload };
+  }
+
+  describe("validateAddComplexType", () => {
+    it("should accept derivations from compatible base types", () => {
+      const payloads: Omit<AddComplexTypePayload, "typeName">[] = [
+        { contentKind: "simple", baseType: "xs:decimal" },
+        { contentKind: "simple", baseType: "tns:Amount" },
+        { contentKind: "simple", baseType: "tns:PriceType" },
+        { contentKind: "simple", baseType: "tns:PriceType", derivation: "restriction" },
+        { contentModel: "sequence", baseType: "tns:ProductType", derivation: "restriction" },
+        { contentModel: "sequence", baseType: "xs:anyType", derivation: "restriction" },
+      ];
+      for (const payload of payloads) {
+        expect(validateAddComplexType(addCommand(payload), schemaObj)).toEqual({ valid: true });
+      }
+    });
+
+    it("should reject base types that do not fit the content kind and derivation", () => {
+      const cases: [Omit<AddComplexTypePayload, "typeName">, string][] = [
+        [
+          { contentModel: "sequence", baseType: "xs:string" },
+          "Base type 'xs:string' of a complexContent extension must be a complex type with complex content",
+        ],
+        [
+          { contentModel: "sequence", baseType: "tns:PriceType", derivation: "restriction" },
+          "Base type 'tns:PriceType' of a complexContent restriction must be a complex type with complex content",
+        ],
+        [
+          { contentKind: "simple", baseType: "tns:ProductType" },
+          "Base type 'tns:ProductType' of a simpleContent extension must be a simple type or a complex type with simple content",
+        ],
+        [
+          { contentKind: "simple", baseType: "tns:Amount", derivation: "restriction" },
+          "Base type 'tns:Amount' of a simpleContent restriction must be a complex type with simple content",
+        ],
+        [
+          { contentKind: "simple", baseType: "tns:Missing" },
+          "Base type 'tns:Missing' is not a recognized XSD type",
+        ],
+        [
+          { contentKind: "simple", baseType: "tns:string" },
+          "Base type 'tns:string' is not a recognized XSD type",
+        ],
+      ];
+      for (const [payload, error] of cases) {
+        const result = validateAddComplexType(addCommand(payload), schemaObj);
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+
+    it("should reject incomplete or contradictory derivations", () => {
+      const cases: [Omit<AddComplexTypePayload, "typeName">, string][] = [
+        [{ contentKind: "simple" }, "Simple content requires a base type"],
+        [
+          { contentKind: "simple", baseType: "xs:decimal", contentModel: "sequence" },
+          "Simple content cannot have a content model",
+        ],
+        [
+          { contentKind: "simple", baseType: "xs:decimal", mixed: true },
+          "Simple content cannot be mixed",
+        ],
+        [
+          { contentModel: "sequence", derivation: "restriction" },
+          "A derivation method requires a base type",
+        ],
+        [
+          { contentModel: "sequence", baseType: "tns:ProductType", derivation: "union" as never },
+          "Derivation must be one of: extension, restriction",
+        ],
+        [
+          { contentKind: "simple", baseType: "tns:NewType" },
+          "Complex type 'NewType' cannot derive from itself",
+        ],
+      ];
+      for (const [payload, error] of cases) {
+        const result = validateAddComplexType(addCommand(payload), schemaObj);
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+  });
+
+  describe("validateModifyComplexType", () => {
+    it("should accept changes of the derivation that fit the base type", () => {
+      const payloads: ModifyComplexTypePayload[] = [
+        {
+          typeId: "/element:price/anonymousComplexType[0]",
+          baseType: "tns:PriceType",
+          derivation: "restriction",
+        },
+        { typeId: "/complexType:ProductType", contentKind: "simple", baseType: "xs:string" },
+        { typeId: "/complexType:PriceType", contentKind: "complex", baseType: "" },
+      ];
+      for (const payload of payloads) {
+        expect(validateModifyComplexType(modifyCommand(payload), schemaObj)).toEqual({
+          valid: true,
+        });
+      }
+    });
+
+    it("should not take a base type of another namespace for the type itself", () => {
+      const command = modifyCommand({ typeId: "/complexType:ProductType", baseType: "ext:ProductType" });
+      expect(validateModifyComplexType(command, schemaObj).valid).toBe(true);
+    });
+
+    it("should check changes against the current derivation of the type", () => {
+      const cases: [ModifyComplexTypePayload, string][] = [
+        [
+          { typeId: "/complexType:PriceType", derivation: "restriction" },
+          "Base type 'tns:Amount' of a simpleContent restriction must be a complex type with simple content",
+        ],
+        [
+          { typeId: "/complexType:PriceType", contentModel: "sequence" },
+          "Simple content cannot have a content model",
+        ],
+        [
+          { typeId: "/complexType:ProductType", contentKind: "simple" },
+          "Simple content requires a base type",
+        ],
+        [
+          { typeId: "/complexType:ProductType", baseType: "tns:ProductType" },
+          "Complex type 'ProductType' cannot derive from itself",
+        ],
+      ];
+      for (const [payload, error] of cases) {
+        const result = validateModifyComplexType(modifyCommand(payload), schemaObj);
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Validation of complex type derivations for the complex type validators:
+ * checks that the content kind, derivation method, base type and facets of a
+ * complex type fit together.
+ *
+ * Complex content derives from a complex type with complex content. Simple
+ * content extends a simple type or a complex type with simple content, and
+ * restricts a complex type with simple content only.
+ */
+
+import {
+  schema,
+  ComplexContentKind,
+  DerivationMethod,
+  ModifyComplexTypePayload,
+} from "../../shared/types";
+import { ValidationResult, isBuiltInXsdType, validateElementType } from "./validationUtils";
+import { validateRestrictionFacets } from "./facetValidation";
+import { toArray } from "../../shared/schemaUtils";
+import { isQNameOfComponent, resolveQName } from "../commandExecutors/componentReferences";
+import { ComplexTypeHolder, getComplexTypeStructure } from "../commandExecutors/complexTypeUtils";
+
+/** Valid derivation methods of complex types. */
+export const DERIVATION_METHODS: ReadonlyArray<DerivationMethod> = ["extension", "restriction"];
+
+/** Valid content kinds of complex types. */
+export const COMPLEX_CONTENT_KINDS: ReadonlyArray<ComplexContentKind> = ["complex", "simple"];
+
+/** Name of the built-in type every complex type derives from. */
+const ANY_TYPE = "anyType";
+
+/** Fields of the complex type commands that define the derivation of a type. */
+export type ComplexTypeDerivationFields = Pick<
+  ModifyComplexTypePayload,
+  "contentModel" | "baseType" | "derivation" | "contentKind" | "restrictions" | "mixed"
+>;
+
+/** What a base type provides to the types deriving from it. */
+type BaseTypeKind = "simpleType" | "simpleContent" | "complexContent";
+
+/**
+ * Determines what a base type provides: a simple type, or a complex type with
+ * simple or complex content.
+ *
+ * @param baseType - The base type name
+ * @param schemaObj - The schema to look the type up in
+ * @returns The kind of the base type, or undefined for types of other schemas
+ */
+function getBaseTypeKind(baseType: string, schemaObj: schema): BaseTypeKind | undefined {
+  const { namespace, localName } = resolveQName(baseType.trim(), schemaObj);
+  if (isBuiltInXsdType(baseType, schemaObj)) {
+    return localName === ANY_TYPE ? "complexContent" : "simpleType";
+  }
+  if (namespace !== (schemaObj.targetNamespace ?? "")) {
+    return undefined;
+  }
+  if (toArray(schemaObj.simpleType).some((st) => st.name === localName)) {
+    return "simpleType";
+  }
+  const complexType = toArray(schemaObj.complexType).find((ct) => ct.name === localName);
+  if (complexType) {
+    return complexType.simpleContent ? "simpleContent" : "complexContent";
+  }
+  return undefined;
+}
+
+/**
+ * Validates that a base type can be extended or restricted into the given
+ * kind of content.
+ *
+ * @param baseType - The base type name
+ * @param contentKind - The content kind of the derived type
+ * @param derivation - The derivation method
+ * @param schemaObj - The schema to validate against
+ */
+function validateBaseTypeCompatibility(
+  baseType: string,
+  contentKind: ComplexContentKind,
+  derivation: DerivationMethod,
+  schemaObj: schema
+): ValidationResult {
+  if (!validateElementType(baseType, schemaObj).valid) {
+    return { valid: false, error: `Base type '${baseType}' is not a recognized XSD type` };
+  }
+  const baseKind = getBaseTypeKind(baseType, schemaObj);
+  if (baseKind === undefined) {
+    // Types of imported schemas cannot be checked
+    return { valid: true };
+  }
+  if (contentKind === "complex" && baseKind !== "complexContent") {
+    return {
+      valid: false,
+      error: `Base type '${baseType}' of a complexContent ${derivation} must be a complex type with complex content`,
+    };
+  }
+  if (contentKind === "simple" && derivation === "extension" && baseKind === "complexContent") {
+    return {
+      valid: false,
+      error: `Base type '${baseType}' of a simpleContent extension must be a simple type or a complex type with simple content`,
+    };
+  }
+  if (contentKind === "simple" && derivation === "restriction" && baseKind !== "simpleContent") {
+    return {
+      valid: false,
+      error: `Base type '${baseType}' of a simpleContent restriction must be a complex type with simple content`,
+    };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validates the derivation of a complex type, as created by addComplexType or
+ * changed by modifyComplexType. Fields left out keep the values of the
+ * current type; the base type is only checked when the derivation changes.
+ *
+ * @param fields - The derivation fields of the command
+ * @param schemaObj - The schema to validate against
+ * @param typeName - Name of a top-level type, which must not derive from itself
+ * @param current - The type being modified; omitted for new types
+ */
+export function validateComplexTypeDerivation(
+  fields: ComplexTypeDerivationFields,
+  schemaObj: schema,
+  typeName?: string,
+  current?: ComplexTypeHolder
+): ValidationResult {
+  if (fields.derivation !== undefined && !DERIVATION_METHODS.includes(fields.derivation)) {
+    return {
+      valid: false,
+      error: `Derivation must be one of: ${DERIVATION_METHODS.join(", ")}`,
+    };
+  }
+  if (fields.contentKind !== undefined && !COMPLEX_CONTENT_KINDS.includes(fields.contentKind)) {
+    return {
+      valid: false,
+      error: `Content kind must be one of: ${COMPLEX_CONTENT_KINDS.join(", ")}`,
+    };
+  }
+
+  const structure = current
+    ? getComplexTypeStructure(current)
+    : { contentKind: "complex" as const, baseType: undefined, derivation: "extension" as const };
+  const contentKind = fields.contentKind ?? structure.contentKind;
+  const derivation = fields.derivation ?? structure.derivation;
+  const baseType = (fields.baseType ?? structure.baseType)?.trim();
+
+  if (contentKind === "simple") {
+    if (!baseType) {
+      return { valid: false, error: "Simple content requires a base type" };
+    }
+    if (fields.contentModel !== undefined) {
+      return { valid: false, error: "Simple content cannot have a content model" };
+    }
+    if ((fields.mixed ?? current?.mixed) === true) {
+      return { valid: false, error: "Simple content cannot be mixed" };
+    }
+  }
+  if (fields.derivation !== undefined && !baseType) {
+    return { valid: false, error: "A derivation method requires a base type" };
+  }
+  if (fields.restrictions !== undefined) {
+    if (contentKind !== "simple" || derivation !== "restriction") {
+      return { valid: false, error: "Facets are only allowed for simpleContent restrictions" };
+    }
+    const facetsResult = validateRestrictionFacets(fields.restrictions, baseType ?? "", schemaObj);
+    if (!facetsResult.valid) {
+      return facetsResult;
+    }
+  }
+
+  const derivationChanged = [fields.baseType, fields.derivation, fields.contentKind].some(
+    (value) => value !== undefined
+  );
+  if (!baseType || !derivationChanged) {
+    return { valid: true };
+  }
+  if (typeName !== undefined && isQNameOfComponent(baseType.trim(), typeName, schemaObj)) {
+    return { valid: false, error: `Complex type '${typeName}' cannot derive from itself` };
+  }
+  return validateBaseTypeCompatibility(baseType, contentKind, derivation, schemaObj);
+}
@@ -0,0 +1,212 @@
+/**
+ * Unit tests for compositor validators.
+ * Tests validation of add, remove, and modify commands for sequences, choices
+ * and xs:all, including the XSD 1.0 placement rules of xs:all.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import {
+  schema,
+  AddCompositorCommand,
+  AddCompositorPayload,
+  RemoveCompositorCommand,
+  ModifyCompositorCommand,
+  ModifyCompositorPayload,
+} from "../../shared/types";
+import {
+  validateAddCompositor,
+  validateRemoveCompositor,
+  validateModifyCompositor,
+} from "./compositorValidators";
+import { expectInvalid } from "./validationTestHelpers";
+
+const PAYMENT_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:complexType name="PaymentType">
+    <xs:sequence>
+      <xs:element name="amount" type="xs:decimal"/>
+      <xs:choice>
+        <xs:element name="iban" type="xs:string"/>
+        <xs:element name="card" type="xs:string"/>
+      </xs:choice>
+      <xs:sequence minOccurs="2" maxOccurs="unbounded">
+        <xs:element name="note" type="xs:string"/>
+      </xs:sequence>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:complexType name="EmptyType"/>
+  <xs:complexType name="NotesType">
+    <xs:sequence>
+      <xs:element name="note" type="xs:string" maxOccurs="unbounded"/>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:group name="AddressGroup">
+    <xs:sequence>
+      <xs:element name="street" type="xs:string"/>
+    </xs:sequence>
+  </xs:group>
+</xs:schema>`;
+
+const PAYMENT_SEQUENCE_ID = "/complexType:PaymentType/sequence";
+
+describe("Compositor Validators", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, PAYMENT_SCHEMA);
+  });
+
+  /** Builds an addCompositor command nesting a choice in the PaymentType sequence. */
+  function addCommand(overrides: Partial<AddCompositorPayload> = {}): AddCompositorCommand {
+    return {
+      type: "addCompositor",
+      payload: { parentId: PAYMENT_SEQUENCE_ID, compositor: "choice", ...overrides },
+    };
+  }
+
+  /** Builds a modifyCompositor command. */
+  function modifyCommand(payload: ModifyCompositorPayload): ModifyCompositorCommand {
+    return { type: "modifyCompositor", payload };
+  }
+
+  describe("validateAddCompositor", () => {
+    test("should accept a nested choice with occurrence constraints", () => {
+      const result = validateAddCompositor(addCommand({ minOccurs: 0, maxOccurs: "unbounded" }), schemaObj);
+      expect(result.valid).toBe(true);
+    });
+
+    test("should accept xs:all as the content model of an empty complex type", () => {
+      const command = addCommand({ parentId: "/complexType:EmptyType", compositor: "all", minOccurs: 0 });
+      expect(validateAddCompositor(command, schemaObj).valid).toBe(true);
+    });
+
+    test("should reject xs:all nested in a sequence", () => {
+      const result = validateAddCompositor(addCommand({ compositor: "all" }), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "xs:all cannot be nested inside a sequence or choice; it can only define the content model of a complex type or group"
+      );
+    });
+
+    test("should reject a second content model for a complex type", () => {
+      const result = validateAddCompositor(addCommand({ parentId: "/complexType:PaymentType" }), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("Complex type already has a content model: /complexType:PaymentType");
+    });
+
+    test.each([
+      [{ maxOccurs: 2 }, "xs:all must have maxOccurs 1"],
+      [{ minOccurs: 2, maxOccurs: 1 }, "xs:all must have minOccurs 0 or 1"],
+    ])("should reject the occurrences %j on xs:all", (occurrences, error) => {
+      const command = addCommand({ parentId: "/complexType:EmptyType", compositor: "all", ...occurrences });
+      const result = validateAddCompositor(command, schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe(error);
+    });
+
+    test("should reject a missing parent", () => {
+      const result = validateAddCompositor(addCommand({ parentId: "/complexType:Missing" }), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("Parent node not found: /complexType:Missing");
+    });
+  });
+
+  describe("validateRemoveCompositor", () => {
+    test("should accept removing a nested compositor", () => {
+      const command: RemoveCompositorCommand = {
+        type: "removeCompositor",
+        payload: { compositorId: `${PAYMENT_SEQUENCE_ID}/choice[0]` },
+      };
+      expect(validateRemoveCompositor(command, schemaObj).valid).toBe(true);
+    });
+
+    test("should reject removing the compositor of a named group", () => {
+      const command: RemoveCompositorCommand = {
+        type: "removeCompositor",
+        payload: { compositorId: "/group:AddressGroup/sequence" },
+      };
+      const result = validateRemoveCompositor(command, schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "The compositor of a named group cannot be removed; change its kind with modifyCompositor instead"
+      );
+    });
+
+    test("should reject a compositor that does not exist", () => {
+      const command: RemoveCompositorCommand = {
+        type: "removeCompositor",
+        payload: { compositorId: `${PAYMENT_SEQUENCE_ID}/choice[1]` },
+      };
+      const result = validateRemoveCompositor(command, schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe(`Compositor not found: ${PAYMENT_SEQUENCE_ID}/choice[1]`);
+    });
+  });
+
+  describe("validateModifyCompositor", () => {
+    test("should accept switching a nested choice to a sequence", () => {
+      const command = modifyCommand({ compositorId: `${PAYMENT_SEQUENCE_ID}/choice[0]`, compositor: "sequence" });
+      expect(validateModifyCompositor(command, schemaObj).valid).toBe(true);
+    });
+
+    test("should check new occurrences against the current ones", () => {
+      const compositorId = `${PAYMENT_SEQUENCE_ID}/sequence[0]`;
+      expect(validateModifyCompositor(modifyCommand({ compositorId, maxOccurs: 5 }), schemaObj).valid).toBe(true);
+
+      const result = validateModifyCompositor(modifyCommand({ compositorId, maxOccurs: 1 }), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("minOccurs must be <= maxOccurs");
+    });
+
+    test("should reject switching a compositor with nested compositors to xs:all", () => {
+      const result = validateModifyCompositor(
+        modifyCommand({ compositorId: PAYMENT_SEQUENCE_ID, compositor: "all" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "xs:all can only contain elements; remove its nested compositors, group references and wildcards first"
+      );
+    });
+
+    test("should reject switching to xs:all when an element repeats", () => {
+      const result = validateModifyCompositor(
+        modifyCommand({ compositorId: "/complexType:NotesType/sequence", compositor: "all" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Elements in an xs:all can occur at most once: 'note' has maxOccurs unbounded"
+      );
+    });
+
+    test("should reject switching a nested compositor to xs:all", () => {
+      const result = validateModifyCompositor(
+        modifyCommand({ compositorId: `${PAYMENT_SEQUENCE_ID}/choice[0]`, compositor: "all" }),
+        schemaObj
+      );
+      expectInvalid(result);
+    });
+
+    test("should accept switching the compositor of a named group but reject occurrences on it", () => {
+      const switchKind = modifyCommand({ compositorId: "/group:AddressGroup/sequence", compositor: "all" });
+      expect(validateModifyCompositor(switchKind, schemaObj).valid).toBe(true);
+
+      const result = validateModifyCompositor(
+        modifyCommand({ compositorId: "/group:AddressGroup/sequence", minOccurs: 0 }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe("The compositor of a named group cannot have minOccurs or maxOccurs");
+    });
+
+    test("should reject an ID that does not name a compositor", () => {
+      const result = validateModifyCompositor(
+        modifyCommand({ compositorId: "/complexType:PaymentType" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe("Not a compositor ID: /complexType:PaymentType");
+    });
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Validators for compositor commands (xs:sequence, xs:choice, xs:all).
+ *
+ * Enforces the XSD 1.0 constraints on xs:all: it can only define the content
+ * model of a complex type or named group (never nested in another compositor),
+ * contains only elements that occur at most once, and has minOccurs 0 or 1
+ * and maxOccurs 1.
+ */
+
+import {
+  schema,
+  AddCompositorCommand,
+  RemoveCompositorCommand,
+  ModifyCompositorCommand,
+  ContentModel,
+} from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import { ValidationResult, validateOccurrences } from "./validationUtils";
+import {
+  COMPOSITOR_KINDS,
+  Compositor,
+  getCompositorOccurrences,
+  getParticleOccurrences,
+  hasContentModel,
+  isCompositorKind,
+  locateCompositor,
+  locateCompositorHolder,
+} from "../commandExecutors/compositorUtils";
+
+// ===== Helpers =====
+
+/**
+ * Validates the placement and occurrence constraints of a compositor.
+ *
+ * @param kind - Kind of the compositor
+ * @param holderKind - Kind of the component holding the compositor
+ * @param minOccurs - Effective minOccurs
+ * @param maxOccurs - Effective maxOccurs
+ * @param occurrencesGiven - Whether the command sets minOccurs or maxOccurs
+ */
+function validateCompositorPlacement(
+  kind: ContentModel,
+  holderKind: "complexType" | "namedGroup" | "compositor",
+  minOccurs: number | undefined,
+  maxOccurs: number | "unbounded" | undefined,
+  occurrencesGiven: boolean
+): ValidationResult {
+  if (kind === "all" && holderKind === "compositor") {
+    return {
+      valid: false,
+      error:
+        "xs:all cannot be nested inside a sequence or choice; it can only define the content model of a complex type or group",
+    };
+  }
+  if (holderKind === "namedGroup" && occurrencesGiven) {
+    return {
+      valid: false,
+      error: "The compositor of a named group cannot have minOccurs or maxOccurs",
+    };
+  }
+  if (kind === "all") {
+    if (minOccurs !== undefined && minOccurs !== 0 && minOccurs !== 1) {
+      return { valid: false, error: "xs:all must have minOccurs 0 or 1" };
+    }
+    if (maxOccurs !== undefined && maxOccurs !== 1) {
+      return { valid: false, error: "xs:all must have maxOccurs 1" };
+    }
+  }
+  return validateOccurrences(minOccurs, maxOccurs);
+}
+
+/**
+ * Validates that an element can be placed in an xs:all, where elements can
+ * occur at most once.
+ *
+ * @param element - The element declaration
+ * @returns Validation result
+ */
+export function validateAllElementOccurrence(element: {
+  name?: string;
+  ref?: string;
+  maxOccurs?: number | string;
+}): ValidationResult {
+  const { maxOccurs } = getParticleOccurrences(element);
+  if (maxOccurs !== undefined && maxOccurs !== 0 && maxOccurs !== 1) {
+    return {
+      valid: false,
+      error: `Elements in an xs:all can occur at most once: '${element.name ?? element.ref ?? ""}' has maxOccurs ${String(element.maxOccurs)}`,
+    };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validates that the content of a compositor is allowed inside an xs:all:
+ * only elements, each occurring at most once.
+ *
+ * @param compositor - The compositor that becomes an xs:all
+ */
+function validateAllContent(compositor: Compositor): ValidationResult {
+  const particles = compositor as {
+    group?: unknown[];
+    choice?: unknown[];
+    sequence?: unknown[];
+    any_?: unknown[];
+  };
+  if (
+    toArray(particles.group).length > 0 ||
+    toArray(particles.choice).length > 0 ||
+    toArray(particles.sequence).length > 0 ||
+    toArray(particles.any_).length > 0
+  ) {
+    return {
+      valid: false,
+      error:
+        "xs:all can only contain elements; remove its nested compositors, group references and wildcards first",
+    };
+  }
+
+  const elements = toArray(
+    compositor.element as { name?: string; ref?: string; maxOccurs?: number | string }[] | undefined
+  );
+  for (const element of elements) {
+    const occurrenceValidation = validateAllElementOccurrence(element);
+    if (!occurrenceValidation.valid) {
+      return occurrenceValidation;
+    }
+  }
+  return { valid: true };
+}
+
+// ===== Compositor Validators =====
+
+/**
+ * Validates an addCompositor command.
+ *
+ * @param command - The command to validate
+ * @param schemaObj - The schema to validate against
+ * @returns Validation result
+ */
+export function validateAddCompositor(
+  command: AddCompositorCommand,
+  schemaObj: schema
+): ValidationResult {
+  const { parentId, compositor, minOccurs, maxOccurs } = command.payload;
+
+  if (!parentId.trim()) {
+    return { valid: false, error: "Parent ID cannot be empty" };
+  }
+  if (!isCompositorKind(compositor)) {
+    return {
+      valid: false,
+      error: `Compositor must be one of: ${COMPOSITOR_KINDS.join(", ")}`,
+    };
+  }
+
+  const location = locateCompositorHolder(schemaObj, parentId);
+  if (!location.found) {
+    return { valid: false, error: location.error };
+  }
+  if (location.holderKind !== "compositor" && hasContentModel(location.holder)) {
+    const holderName = location.holderKind === "namedGroup" ? "Group" : "Complex type";
+    return { valid: false, error: `${holderName} already has a content model: ${parentId}` };
+  }
+
+  return validateCompositorPlacement(
+    compositor,
+    location.holderKind,
+    minOccurs,
+    maxOccurs,
+    minOccurs !== undefined || maxOccurs !== undefined
+  );
+}
+
+/**
+ * Validates a removeCompositor command.
+ * The compositor of a named group cannot be removed, because a named group
+ * must define a content model.
+ *
+ * @param command - The command to validate
+ * @param schemaObj - The schema to validate against
+ * @returns Validation result
+ */
+export function validateRemoveCompositor(
+  command: RemoveCompositorCommand,
+  schemaObj: schema
+): ValidationResult {
+  const { compositorId } = command.payload;
+
+  if (!compositorId.trim()) {
+    return { valid: false, error: "Compositor ID cannot be empty" };
+  }
+  const location = locateCompositor(schemaObj, compositorId);
+  if (!location.found) {
+    return { valid: false, error: location.error };
+  }
+  if (location.holderKind === "namedGroup") {
+    return {
+      valid: false,
+      error: "The compositor of a named group cannot be removed; change its kind with modifyCompositor instead",
+    };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validates a modifyCompositor command.
+ * Occurrence constraints are checked together with the current values of the
+ * compositor, and switching to xs:all checks the content it keeps.
+ *
+ * @param command - The command to validate
+ * @param schemaObj - The schema to validate against
+ * @returns Validation result
+ */
+export function validateModifyCompositor(
+  command: ModifyCompositorCommand,
+  schemaObj: schema
+): ValidationResult {
+  const { compositorId, compositor, minOccurs, maxOccurs } = command.payload;
+
+  if (!compositorId.trim()) {
+    return { valid: false, error: "Compositor ID cannot be empty" };
+  }
+  if (compositor !== undefined && !isCompositorKind(compositor)) {
+    return {
+      valid: false,
+      error: `Compositor must be one of: ${COMPOSITOR_KINDS.join(", ")}`,
+    };
+  }
+  const location = locateCompositor(schemaObj, compositorId);
+  if (!location.found) {
+    return { valid: false, error: location.error };
+  }
+
+  const kind = compositor ?? location.kind;
+  const current = getCompositorOccurrences(location.compositor);
+  const placementValidation = validateCompositorPlacement(
+    kind,
+    location.holderKind,
+    minOccurs ?? current.minOccurs,
+    maxOccurs ?? current.maxOccurs,
+    minOccurs !== undefined || maxOccurs !== undefined
+  );
+  if (!placementValidation.valid || kind !== "all" || location.kind === "all") {
+    return placementValidation;
+  }
+  return validateAllContent(location.compositor);
+}
@@ -0,0 +1,214 @@
+/**
+ * Unit tests for element property validation.
+ * Tests nillable, abstract, substitutionGroup, default, fixed, block, final and
+ * form through the add and modify element validators.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import {
+  schema,
+  AddElementCommand,
+  AddElementPayload,
+  ModifyElementCommand,
+  ModifyElementPayload,
+} from "../../shared/types";
+import { validateAddElement, validateModifyElement } from "./elementValidators";
+import { expectInvalid } from "./validationTestHelpers";
+
+const SCHEMA_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:vehicles" targetNamespace="urn:vehicles">
+  <xs:element name="vehicle" type="xs:string" abstract="true"/>
+  <xs:element name="car" type="xs:string" substitutionGroup="tns:vehicle" fixed="sedan"/>
+  <xs:complexType name="GarageType">
+    <xs:sequence>
+      <xs:element name="slots" type="xs:int" default="1"/>
+      <xs:element ref="tns:car"/>
+    </xs:sequence>
+  </xs:complexType>
+</xs:schema>`;
+
+const SEQUENCE_ID = "/complexType:GarageType/sequence";
+
+describe("Element Property Validation", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, SCHEMA_XML);
+  });
+
+  /** Builds an addElement command for a new top-level element named truck. */
+  function addCommand(payload: Partial<AddElementPayload>): AddElementCommand {
+    return {
+      type: "addElement",
+      payload: { parentId: "schema", elementName: "truck", elementType: "xs:string", ...payload },
+    };
+  }
+
+  /** Builds a modifyElement command. */
+  function modifyCommand(payload: ModifyElementPayload): ModifyElementCommand {
+    return { type: "modifyElement", payload };
+  }
+
+  describe("validateAddElement", () => {
+    test("should accept all properties of a top-level element", () => {
+      const command = addCommand({
+        nillable: true,
+        abstract: false,
+        substitutionGroup: "tns:vehicle",
+        defaultValue: "lorry",
+        block: "extension substitution",
+        final: "#all",
+      });
+      expect(validateAddElement(command, schemaObj).valid).toBe(true);
+    });
+
+    test("should accept a form on a local element", () => {
+      const command = addCommand({ parentId: SEQUENCE_ID, form: "qualified", block: "#all" });
+      expect(validateAddElement(command, schemaObj).valid).toBe(true);
+    });
+
+    test("should reject both a default and a fixed value", () => {
+      const result = validateAddElement(addCommand({ defaultValue: "a", fixedValue: "b" }), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("An element cannot have both a default value and a fixed value");
+    });
+
+    test("should reject abstract local elements", () => {
+      const result = validateAddElement(addCommand({ parentId: SEQUENCE_ID, abstract: true }), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("Only top-level elements can be abstract");
+    });
+
+    test("should reject a substitution group on a local element", () => {
+      const result = validateAddElement(
+        addCommand({ parentId: SEQUENCE_ID, substitutionGroup: "tns:vehicle" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe("Only top-level elements can have a substitution group");
+    });
+
+    test("should reject a substitution group that is not a top-level element", () => {
+      const result = validateAddElement(addCommand({ substitutionGroup: "tns:GarageType" }), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Substitution group 'tns:GarageType' does not resolve to a top-level element"
+      );
+    });
+
+    test("should reject a substitution group head in another namespace", () => {
+      const result = validateAddElement(addCommand({ substitutionGroup: "xs:vehicle" }), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Substitution group 'xs:vehicle' does not resolve to a top-level element"
+      );
+    });
+
+    test("should reject an element heading its own substitution group", () => {
+      const result = validateAddElement(addCommand({ substitutionGroup: "truck" }), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("An element cannot be the head of its own substitution group");
+    });
+
+    test("should reject a form on a top-level element", () => {
+      const result = validateAddElement(addCommand({ form: "unqualified" }), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("Only local elements can have a form");
+    });
+
+    test("should reject final on a local element", () => {
+      const result = validateAddElement(addCommand({ parentId: SEQUENCE_ID, final: "#all" }), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("Only top-level elements can have 'final'");
+    });
+
+    test.each(["#all extension", "list", "substitution restriction extra"])(
+      "should reject the block value %j",
+      (block) => {
+        const result = validateAddElement(addCommand({ block }), schemaObj);
+        expectInvalid(result);
+        expect(result.error).toBe(
+          `Invalid block value '${block}': must be #all or a list of extension, restriction, substitution`
+        );
+      }
+    );
+
+    test("should reject substitution in final", () => {
+      const result = validateAddElement(addCommand({ final: "substitution" }), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Invalid final value 'substitution': must be #all or a list of extension, restriction"
+      );
+    });
+
+    test("should reject an unknown form", () => {
+      const command = addCommand({ parentId: SEQUENCE_ID });
+      // eslint-disable-next-line no-restricted-syntax -- simulates an untyped message from the webview
+      command.payload.form = "local" as unknown as AddElementPayload["form"];
+
+      const result = validateAddElement(command, schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("Element form must be one of: qualified, unqualified");
+    });
+
+    test("should reject properties on element references", () => {
+      const command: AddElementCommand = {
+        type: "addElement",
+        payload: { parentId: SEQUENCE_ID, ref: "vehicle", nillable: true },
+      };
+
+      const result = validateAddElement(command, schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("A reference element cannot have 'nillable'");
+    });
+  });
+
+  describe("validateModifyElement", () => {
+    test("should reject a default value while the fixed value is kept", () => {
+      const result = validateModifyElement(
+        modifyCommand({ elementId: "/element:car", defaultValue: "coupe" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe("An element cannot have both a default value and a fixed value");
+    });
+
+    test("should accept replacing the fixed value with a default value", () => {
+      const command = modifyCommand({ elementId: "/element:car", defaultValue: "coupe", fixedValue: "" });
+      expect(validateModifyElement(command, schemaObj).valid).toBe(true);
+    });
+
+    test("should reject a fixed value while the default value of a local element is kept", () => {
+      const result = validateModifyElement(
+        modifyCommand({ elementId: `${SEQUENCE_ID}/element:slots[0]`, fixedValue: "2" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe("An element cannot have both a default value and a fixed value");
+    });
+
+    test("should reject properties on an element reference", () => {
+      const result = validateModifyElement(
+        modifyCommand({ elementId: `${SEQUENCE_ID}/element:car[1]`, block: "#all" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe("A reference element cannot have 'block'");
+    });
+
+    test("should accept properties when an element reference gets a name", () => {
+      const command = modifyCommand({
+        elementId: `${SEQUENCE_ID}/element:car[1]`,
+        elementName: "spare",
+        nillable: true,
+      });
+      expect(validateModifyElement(command, schemaObj).valid).toBe(true);
+    });
+
+    test("should accept removing the abstract flag of a top-level element", () => {
+      const command = modifyCommand({ elementId: "/element:vehicle", abstract: false });
+      expect(validateModifyElement(command, schemaObj).valid).toBe(true);
+    });
+  });
+});
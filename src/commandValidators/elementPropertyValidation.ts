@@ -0,0 +1,140 @@
+/**
+ * Validation of element declaration properties for the element validators:
+ * nillable, abstract, substitutionGroup, default, fixed, block, final and form.
+ */
+
+import { schema, ElementProperties } from "../../shared/types";
+import { ValidationResult, isValidDerivationList } from "./validationUtils";
+import { toArray } from "../../shared/schemaUtils";
+import { isQNameOfComponent } from "../commandExecutors/componentReferences";
+
+/** Allowed values of an element's form. */
+const ELEMENT_FORMS = ["qualified", "unqualified"] as const;
+
+/** Derivations an element can block. */
+const BLOCK_VALUES = ["extension", "restriction", "substitution"] as const;
+
+/** Derivations an element can make final. */
+const FINAL_VALUES = ["extension", "restriction"] as const;
+
+/** Order in which the properties are checked on element references. */
+const PROPERTY_KEYS: ReadonlyArray<keyof ElementProperties> = [
+  "nillable",
+  "abstract",
+  "substitutionGroup",
+  "defaultValue",
+  "fixedValue",
+  "block",
+  "final",
+  "form",
+];
+
+/**
+ * The element whose properties are validated.
+ */
+export interface ElementPropertyTarget {
+  /** Whether the element is declared at the top level of the schema */
+  isTopLevel: boolean;
+  /** Whether the element is (or becomes) a reference to a top-level element */
+  isReference: boolean;
+  /** Name of the element after the command */
+  name?: string;
+  /** The element's current default and fixed values, when it already exists */
+  current?: { default_?: string; fixed?: string };
+}
+
+/**
+ * Validates the declaration properties that only top-level or only local elements may have.
+ *
+ * @param properties - The properties given by the command
+ * @param isTopLevel - Whether the element is declared at the top level
+ */
+function validatePropertyPlacement(
+  properties: ElementProperties,
+  isTopLevel: boolean
+): ValidationResult {
+  if (!isTopLevel) {
+    if (properties.abstract) {
+      return { valid: false, error: "Only top-level elements can be abstract" };
+    }
+    if (properties.substitutionGroup?.trim()) {
+      return { valid: false, error: "Only top-level elements can have a substitution group" };
+    }
+    if (properties.final?.trim()) {
+      return { valid: false, error: "Only top-level elements can have 'final'" };
+    }
+  } else if (properties.form) {
+    return { valid: false, error: "Only local elements can have a form" };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validates the declaration properties of an element added or modified by a command.
+ *
+ * @param properties - The properties given by the command
+ * @param target - The element the properties apply to
+ * @param schemaObj - The schema to validate against
+ */
+export function validateElementProperties(
+  properties: ElementProperties,
+  target: ElementPropertyTarget,
+  schemaObj: schema
+): ValidationResult {
+  const { substitutionGroup, defaultValue, fixedValue, block, final, form } = properties;
+
+  if (target.isReference) {
+    const key = PROPERTY_KEYS.find((property) => properties[property] !== undefined);
+    return key
+      ? { valid: false, error: `A reference element cannot have '${key}'` }
+      : { valid: true };
+  }
+
+  const placementResult = validatePropertyPlacement(properties, target.isTopLevel);
+  if (!placementResult.valid) {
+    return placementResult;
+  }
+
+  const head = substitutionGroup?.trim();
+  if (head) {
+    if (target.name !== undefined && isQNameOfComponent(head, target.name, schemaObj)) {
+      return { valid: false, error: "An element cannot be the head of its own substitution group" };
+    }
+    const isHead = (name?: string): boolean =>
+      name !== undefined && isQNameOfComponent(head, name, schemaObj);
+    if (!toArray(schemaObj.element).some((element) => isHead(element.name))) {
+      return {
+        valid: false,
+        error: `Substitution group '${substitutionGroup}' does not resolve to a top-level element`,
+      };
+    }
+  }
+
+  if (form && !(ELEMENT_FORMS as readonly string[]).includes(form)) {
+    return { valid: false, error: `Element form must be one of: ${ELEMENT_FORMS.join(", ")}` };
+  }
+  if (block?.trim() && !isValidDerivationList(block, BLOCK_VALUES)) {
+    return {
+      valid: false,
+      error: `Invalid block value '${block}': must be #all or a list of ${BLOCK_VALUES.join(", ")}`,
+    };
+  }
+  if (final?.trim() && !isValidDerivationList(final, FINAL_VALUES)) {
+    return {
+      valid: false,
+      error: `Invalid final value '${final}': must be #all or a list of ${FINAL_VALUES.join(", ")}`,
+    };
+  }
+
+  // An empty string removes the value, anything left out keeps the current one
+  const effectiveDefault = defaultValue !== undefined ? defaultValue : target.current?.default_;
+  const effectiveFixed = fixedValue !== undefined ? fixedValue : target.current?.fixed;
+  if (effectiveDefault && effectiveFixed) {
+    return {
+      valid: false,
+      error: "An element cannot have both a default value and a fixed value",
+    };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for the element scope validators.
+ * Tests the local elements that can be promoted and the element references
+ * that can be demoted.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import { schema, PromoteElementCommand, DemoteElementCommand } from "../../shared/types";
+import { validatePromoteElement, validateDemoteElement } from "./elementScopeValidators";
+import { expectInvalid } from "./validationTestHelpers";
+
+const ORDER_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:orders"
+           targetNamespace="urn:orders"
+           elementFormDefault="qualified">
+  <xs:element name="note" type="xs:string"/>
+  <xs:element name="payment" abstract="true"/>
+  <xs:element name="orders">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="order" maxOccurs="unbounded">
+          <xs:complexType>
+            <xs:sequence>
+              <xs:element name="item" type="xs:string"/>
+              <xs:element name="note" type="xs:string" form="unqualified"/>
+              <xs:element ref="tns:note"/>
+              <xs:element ref="tns:payment"/>
+              <xs:element name="memo" type="xs:string" form="unqualified"/>
+            </xs:sequence>
+          </xs:complexType>
+        </xs:element>
+      </xs:sequence>
+    </xs:complexType>
+    <xs:key name="orderKey">
+      <xs:selector xpath="tns:order"/>
+      <xs:field xpath="tns:item"/>
+    </xs:key>
+  </xs:element>
+  <xs:complexType name="ArchiveType">
+    <xs:sequence>
+      <xs:element ref="tns:orders"/>
+      <xs:element ref="tns:orders"/>
+      <xs:element ref="ext:other"/>
+    </xs:sequence>
+  </xs:complexType>
+</xs:schema>`;
+
+/** ID of the sequence of the order elements. */
+const ORDER_SEQUENCE =
+  "/element:orders/anonymousComplexType[0]/sequence[0]/element:order/anonymousComplexType[0]/sequence[0]";
+
+describe("Element Scope Validators", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, ORDER_SCHEMA);
+  });
+
+  describe("validatePromoteElement", () => {
+    /** Builds a promoteElement command. */
+    function promoteCommand(elementId: string): PromoteElementCommand {
+      return { type: "promoteElement", payload: { elementId } };
+    }
+
+    test("should accept a named local element", () => {
+      expect(
+        validatePromoteElement(promoteCommand(`${ORDER_SEQUENCE}/element:item`), schemaObj).valid
+      ).toBe(true);
+    });
+
+    test("should reject elements that cannot become top-level elements", () => {
+      const cases: [string, string][] = [
+        ["", "Element ID cannot be empty"],
+        ["/element:note", "Node not found: /element:note"],
+        [`${ORDER_SEQUENCE}/element:tns:note[2]`, "Only named local elements can be promoted"],
+        [`${ORDER_SEQUENCE}/element:note[1]`, "Element 'note' already exists in schema"],
+        [
+          `${ORDER_SEQUENCE}/element:memo`,
+          "Element 'memo' is unqualified and would be qualified as a top-level element",
+        ],
+      ];
+      for (const [elementId, error] of cases) {
+        const result = validatePromoteElement(promoteCommand(elementId), schemaObj);
+        expectInvalid(result);
+        expect(result.error).toContain(error);
+      }
+    });
+  });
+
+  describe("validateDemoteElement", () => {
+    /** Builds a demoteElement command. */
+    function demoteCommand(elementId: string): DemoteElementCommand {
+      return { type: "demoteElement", payload: { elementId } };
+    }
+
+    test("should accept a reference to a top-level element", () => {
+      schemaObj = unmarshal(
+        schema,
+        ORDER_SCHEMA.replace('<xs:element name="note" type="xs:string" form="unqualified"/>', "")
+      );
+
+      expect(
+        validateDemoteElement(demoteCommand(`${ORDER_SEQUENCE}/element:tns:note[1]`), schemaObj)
+          .valid
+      ).toBe(true);
+    });
+
+    test("should reject references that cannot be replaced by a local copy", () => {
+      const cases: [string, string][] = [
+        [`${ORDER_SEQUENCE}/element:item`, "Only element references can be demoted"],
+        [
+          "/complexType:ArchiveType/sequence[0]/element:ext:other[2]",
+          "Element 'ext:other' not found in schema",
+        ],
+        [`${ORDER_SEQUENCE}/element:tns:note[2]`, "Element 'note' already exists in parent"],
+        [
+          `${ORDER_SEQUENCE}/element:tns:payment[3]`,
+          "Element 'payment' is part of a substitution group and cannot be demoted",
+        ],
+        [
+          "/complexType:ArchiveType/sequence[0]/element:tns:orders[0]",
+          "Element 'orders' declares identity constraints and is referenced elsewhere",
+        ],
+      ];
+      for (const [elementId, error] of cases) {
+        const result = validateDemoteElement(demoteCommand(elementId), schemaObj);
+        expectInvalid(result);
+        expect(result.error).toContain(error);
+      }
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Validators for commands that change the scope of element declarations.
+ *
+ * A promoted element must not collide with a top-level element and must
+ * keep its namespace, which top-level elements always take from the target
+ * namespace. A demoted reference must refer to a top-level element of the
+ * schema whose declaration can be copied into the compositor.
+ */
+
+import {
+  schema,
+  PromoteElementCommand,
+  DemoteElementCommand,
+  topLevelElement,
+} from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import { ValidationResult } from "./validationUtils";
+import { MovableNode, locateMovableNode } from "../commandExecutors/moveUtils";
+import { isComponentNameTaken, isQNameOfComponent } from "../commandExecutors/componentReferences";
+import { collectUsages } from "../componentUsages";
+
+/** A located element particle, or an error message. */
+type ParticleLocation =
+  | { found: true; element: MovableNode & { form?: string }; siblings: MovableNode[] }
+  | { found: false; error: string };
+
+/**
+ * Locates an element particle of a compositor together with its siblings.
+ */
+function locateElementParticle(schemaObj: schema, elementId: string): ParticleLocation {
+  const location = locateMovableNode(schemaObj, elementId);
+  if (!location.found) {
+    return location;
+  }
+  if (location.kind !== "element") {
+    return { found: false, error: `Not an element in a compositor: ${elementId}` };
+  }
+  const siblings = toArray(location.container.element).filter((el) => el !== location.node);
+  return { found: true, element: location.node, siblings };
+}
+
+/**
+ * Returns true if an element is part of a substitution group, as its head
+ * or as a member, or is abstract. Such elements only have their meaning as
+ * top-level elements.
+ */
+function isInSubstitutionGroup(schemaObj: schema, element: topLevelElement): boolean {
+  return (
+    !!element.abstract ||
+    !!element.substitutionGroup ||
+    collectUsages(schemaObj, "element", element.name ?? "").some(
+      (usage) => usage.attribute === "substitutionGroup"
+    )
+  );
+}
+
+// ===== Element Scope Validators =====
+
+/**
+ * Validates a promoteElement command.
+ *
+ * @param command - The command to validate
+ * @param schemaObj - The schema to validate against
+ * @returns Validation result
+ */
+export function validatePromoteElement(
+  command: PromoteElementCommand,
+  schemaObj: schema
+): ValidationResult {
+  const { elementId } = command.payload;
+
+  if (!elementId.trim()) {
+    return { valid: false, error: "Element ID cannot be empty" };
+  }
+  const location = locateElementParticle(schemaObj, elementId);
+  if (!location.found) {
+    return { valid: false, error: location.error };
+  }
+
+  const { name, form } = location.element;
+  if (!name) {
+    return { valid: false, error: `Only named local elements can be promoted: ${elementId}` };
+  }
+  if (isComponentNameTaken(schemaObj, "element", name)) {
+    return { valid: false, error: `Element '${name}' already exists in schema` };
+  }
+  if (schemaObj.targetNamespace && (form ?? schemaObj.elementFormDefault) !== "qualified") {
+    return {
+      valid: false,
+      error: `Element '${name}' is unqualified and would be qualified as a top-level element`,
+    };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validates a demoteElement command.
+ *
+ * @param command - The command to validate
+ * @param schemaObj - The schema to validate against
+ * @returns Validation result
+ */
+export function validateDemoteElement(
+  command: DemoteElementCommand,
+  schemaObj: schema
+): ValidationResult {
+  const { elementId } = command.payload;
+
+  if (!elementId.trim()) {
+    return { valid: false, error: "Element ID cannot be empty" };
+  }
+  const location = locateElementParticle(schemaObj, elementId);
+  if (!location.found) {
+    return { valid: false, error: location.error };
+  }
+
+  const { ref } = location.element;
+  if (!ref) {
+    return { valid: false, error: `Only element references can be demoted: ${elementId}` };
+  }
+  const referenced = toArray(schemaObj.element).find(
+    (el) => !!el.name && isQNameOfComponent(ref, el.name, schemaObj)
+  );
+  if (!referenced?.name) {
+    return { valid: false, error: `Element '${ref}' not found in schema` };
+  }
+  const name = referenced.name;
+
+  if (location.siblings.some((sibling) => sibling.name === name)) {
+    return { valid: false, error: `Element '${name}' already exists in parent` };
+  }
+  if (isInSubstitutionGroup(schemaObj, referenced)) {
+    return {
+      valid: false,
+      error: `Element '${name}' is part of a substitution group and cannot be demoted`,
+    };
+  }
+  const hasConstraints = [referenced.key, referenced.keyref, referenced.unique].some(
+    (constraints) => toArray(constraints).length > 0
+  );
+  if (hasConstraints && collectUsages(schemaObj, "element", name).length > 1) {
+    return {
+      valid: false,
+      error: `Element '${name}' declares identity constraints and is referenced elsewhere`,
+    };
+  }
+  return { valid: true };
+}
@@ -23,6 +23,7 @@ import {
 import { locateNodeById } from "../schemaNavigator";
 import { parseSchemaId } from "../../shared/idStrategy";
 import { toArray } from "../../shared/schemaUtils";
+import { validateElementProperties } from "./elementPropertyValidation";
 
 /** Parent types that can contain child elements. */
 const VALID_ELEMENT_PARENTS = ["schema", "sequence", "choice", "all"] as const;
@@ -30,6 +31,9 @@ const VALID_ELEMENT_PARENTS = ["schema", "sequence", "choice", "all"] as const;
 /** Parent types that can contain attributes. */
 const VALID_ATTR_PARENTS = ["schema", "topLevelComplexType", "localComplexType"] as const;
 
+/** The element properties the validators inspect. */
+type ChildElement = { name?: string; ref?: string; default_?: string; fixed?: string };
+
 /**
  * Returns the array of local elements from the given parent container.
  * Works for schema, explicitGroup (sequence/choice), and all.
@@ -37,7 +41,7 @@ const VALID_ATTR_PARENTS = ["schema", "topLevelComplexType", "localComplexType"]
 function getChildElements(
   parent: unknown,
   parentType: string
-): Array<{ name?: string; ref?: string }> {
+): ChildElement[] {
   if (parentType === "schema") {
     return toArray((parent as schema).element);
   }
@@ -59,7 +63,7 @@ function findChildElement(
   parentType: string,
   name?: string,
   position?: number
-): { name?: string; ref?: string } | undefined {
+): ChildElement | undefined {
   const elements = getChildElements(parent, parentType);
   if (position !== undefined) {
     return elements[position];
@@ -149,6 +153,15 @@ export function validateAddElement(
     return { valid: false, error: `Cannot add element: duplicate element reference '${ref}' in ${parentType}` };
   }
 
+  const propertiesResult = validateElementProperties(
+    command.payload,
+    { isTopLevel: parentType === "schema", isReference: ref !== undefined, name: elementName },
+    schemaObj
+  );
+  if (!propertiesResult.valid) {
+    return propertiesResult;
+  }
+
   // Validate occurrences
   return validateOccurrences(minOccurs, maxOccurs);
 }
@@ -245,6 +258,21 @@ export function validateModifyElement(
     }
   }
 
+  // An element reference stays a reference unless the command gives it a name
+  const propertiesResult = validateElementProperties(
+    command.payload,
+    {
+      isTopLevel: parentType === "schema",
+      isReference: ref !== undefined || (el.ref !== undefined && elementName === undefined),
+      name: elementName ?? el.name,
+      current: el,
+    },
+    schemaObj
+  );
+  if (!propertiesResult.valid) {
+    return propertiesResult;
+  }
+
   // Validate occurrences
   return validateOccurrences(minOccurs, maxOccurs);
 }
@@ -0,0 +1,447 @@
+/**
+ * Unit tests for the extraction validators.
+ * Tests the anonymous type IDs that can be extracted and the names the new
+ * types can get, the named types and declarations a type can be inlined
+ * into, the elements that can be extracted into a group, and the attributes
+ * that can be merged into an attribute group.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import {
+  schema,
+  ExtractTypeCommand,
+  ExtractTypePayload,
+  InlineTypeCommand,
+  InlineTypePayload,
+  ExtractGroupCommand,
+  ExtractGroupPayload,
+  ExtractAttributeGroupCommand,
+} from "../../shared/types";
+import {
+  validateExtractType,
+  validateInlineType,
+  validateExtractGroup,
+  validateExtractAttributeGroup,
+} from "./extractionValidators";
+import { expectInvalid } from "./validationTestHelpers";
+
+const ORDER_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="order">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="note" type="xs:string"/>
+      </xs:sequence>
+      <xs:attribute name="currency">
+        <xs:simpleType>
+          <xs:restriction base="xs:string"/>
+        </xs:simpleType>
+      </xs:attribute>
+    </xs:complexType>
+  </xs:element>
+  <xs:simpleType name="SkuType">
+    <xs:restriction base="xs:string"/>
+  </xs:simpleType>
+</xs:schema>`;
+
+const CUSTOMER_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:customers"
+           targetNamespace="urn:customers">
+  <xs:element name="customer" type="tns:CustomerType"/>
+  <xs:element name="vip" type="tns:VipType"/>
+  <xs:attribute name="customerId" type="tns:IdType"/>
+  <xs:complexType name="CustomerType">
+    <xs:sequence>
+      <xs:element name="id" type="tns:IdType"/>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:complexType name="VipType">
+    <xs:complexContent>
+      <xs:extension base="tns:CustomerType"/>
+    </xs:complexContent>
+  </xs:complexType>
+  <xs:complexType name="NodeType">
+    <xs:sequence>
+      <xs:element name="child" type="tns:NodeType" minOccurs="0"/>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:complexType name="UnusedType"/>
+  <xs:simpleType name="IdType">
+    <xs:restriction base="xs:string"/>
+  </xs:simpleType>
+</xs:schema>`;
+
+const PERSON_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:group name="AddressGroup">
+    <xs:sequence>
+      <xs:element name="zip" type="xs:string"/>
+    </xs:sequence>
+  </xs:group>
+  <xs:complexType name="PersonType">
+    <xs:sequence>
+      <xs:element name="name" type="xs:string"/>
+      <xs:element name="street" type="xs:string"/>
+      <xs:element name="city" type="xs:string"/>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:complexType name="ContactType">
+    <xs:sequence>
+      <xs:element name="email" type="xs:string"/>
+      <xs:group ref="AddressGroup"/>
+      <xs:choice>
+        <xs:element name="phone" type="xs:string"/>
+        <xs:element name="fax" type="xs:string"/>
+      </xs:choice>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:complexType name="NoteType">
+    <xs:all>
+      <xs:element name="text" type="xs:string"/>
+    </xs:all>
+  </xs:complexType>
+</xs:schema>`;
+
+const AUDIT_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:attributeGroup name="Audit">
+    <xs:attribute name="created" type="xs:dateTime"/>
+  </xs:attributeGroup>
+  <xs:complexType name="OrderType">
+    <xs:sequence>
+      <xs:element name="note" type="xs:string"/>
+    </xs:sequence>
+    <xs:attribute name="id" type="xs:ID" use="required"/>
+    <xs:attribute name="version" type="xs:int" default="1"/>
+  </xs:complexType>
+  <xs:complexType name="InvoiceType">
+    <xs:attribute name="id" type="xs:ID" use="required"/>
+    <xs:attribute name="version" type="xs:int" fixed="1"/>
+  </xs:complexType>
+  <xs:complexType name="NoteType">
+    <xs:attribute name="id" type="xs:ID"/>
+  </xs:complexType>
+</xs:schema>`;
+
+describe("Extraction Validators", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, ORDER_SCHEMA);
+  });
+
+  /** Builds an extractType command. */
+  function extractCommand(payload: ExtractTypePayload): ExtractTypeCommand {
+    return { type: "extractType", payload };
+  }
+
+  describe("validateExtractType", () => {
+    test("should accept extracting anonymous complex and simple types", () => {
+      const payloads: ExtractTypePayload[] = [
+        {
+          typeId: "/element:order/anonymousComplexType[0]",
+          typeName: "OrderType",
+        },
+        {
+          typeId:
+            "/element:order/anonymousComplexType[0]/attribute:currency/anonymousSimpleType[0]",
+          typeName: "CurrencyCode",
+        },
+      ];
+      for (const payload of payloads) {
+        expect(validateExtractType(extractCommand(payload), schemaObj).valid).toBe(true);
+      }
+    });
+
+    test("should reject IDs that do not denote an existing anonymous type", () => {
+      const cases: [ExtractTypePayload, string][] = [
+        [{ typeId: " ", typeName: "OrderType" }, "Type ID cannot be empty"],
+        [
+          { typeId: "/simpleType:SkuType", typeName: "Sku" },
+          "Only anonymous types can be extracted: /simpleType:SkuType",
+        ],
+        [
+          {
+            typeId: "/element:missing/anonymousComplexType[0]",
+            typeName: "MissingType",
+          },
+          "Parent not found: /element:missing",
+        ],
+        [
+          {
+            typeId: "/element:order/anonymousSimpleType[0]",
+            typeName: "OrderCode",
+          },
+          "No anonymous simpleType found in parent: /element:order",
+        ],
+      ];
+      for (const [payload, error] of cases) {
+        const result = validateExtractType(extractCommand(payload), schemaObj);
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+
+    test("should reject invalid names and names taken by another type", () => {
+      const typeId = "/element:order/anonymousComplexType[0]";
+      const cases: [ExtractTypePayload, string][] = [
+        [{ typeId, typeName: "" }, "Type name must be a valid XML name"],
+        [{ typeId, typeName: "tns:OrderType" }, "Type name must be a valid XML name"],
+        [{ typeId, typeName: "SkuType" }, "Type 'SkuType' already exists in schema"],
+      ];
+      for (const [payload, error] of cases) {
+        const result = validateExtractType(extractCommand(payload), schemaObj);
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+  });
+
+  describe("validateInlineType", () => {
+    beforeEach(() => {
+      schemaObj = unmarshal(schema, CUSTOMER_SCHEMA);
+    });
+
+    /** Builds an inlineType command. */
+    function inlineCommand(payload: InlineTypePayload): InlineTypeCommand {
+      return { type: "inlineType", payload };
+    }
+
+    test("should accept inlining a type into its users or into one declaration", () => {
+      const payloads: InlineTypePayload[] = [
+        { typeId: "/simpleType:IdType" },
+        { typeId: "/simpleType:IdType", declarationId: "/attribute:customerId" },
+        {
+          typeId: "/simpleType:IdType",
+          declarationId: "/complexType:CustomerType/sequence[0]/element:id",
+        },
+        { typeId: "/complexType:VipType", declarationId: "/element:vip" },
+      ];
+      for (const payload of payloads) {
+        expect(validateInlineType(inlineCommand(payload), schemaObj).valid).toBe(true);
+      }
+    });
+
+    test("should reject types that cannot be replaced by anonymous copies", () => {
+      const cases: [InlineTypePayload, string][] = [
+        [{ typeId: "" }, "Type ID cannot be empty"],
+        [{ typeId: "/complexType:MissingType" }, "Component not found: /complexType:MissingType"],
+        [{ typeId: "/element:customer" }, "Only named types can be inlined: /element:customer"],
+        [
+          { typeId: "/complexType:CustomerType" },
+          "Type 'CustomerType' is used as a base type and cannot be inlined",
+        ],
+        [
+          { typeId: "/complexType:NodeType" },
+          "Type 'NodeType' refers to itself and cannot be inlined",
+        ],
+        [
+          { typeId: "/complexType:UnusedType" },
+          "Type 'UnusedType' is not used by any element or attribute",
+        ],
+      ];
+      for (const [payload, error] of cases) {
+        const result = validateInlineType(inlineCommand(payload), schemaObj);
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+
+    test("should reject declarations that do not use the type", () => {
+      const typeId = "/simpleType:IdType";
+      const cases: [InlineTypePayload, string][] = [
+        [{ typeId, declarationId: "/element:missing" }, "Declaration not found: /element:missing"],
+        [
+          { typeId, declarationId: "/complexType:CustomerType" },
+          "Declaration not found: /complexType:CustomerType",
+        ],
+        [
+          { typeId, declarationId: "/element:customer" },
+          "Declaration does not refer to type 'IdType': /element:customer",
+        ],
+      ];
+      for (const [payload, error] of cases) {
+        const result = validateInlineType(inlineCommand(payload), schemaObj);
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+
+    test("should reject inlining a complex type into an attribute", () => {
+      schemaObj.attribute = [{ name: "broken", type_: "tns:VipType" }];
+
+      const result = validateInlineType(
+        inlineCommand({ typeId: "/complexType:VipType", declarationId: "/attribute:broken" }),
+        schemaObj
+      );
+
+      expectInvalid(result);
+      expect(result.error).toBe("A complex type cannot be inlined into an attribute");
+    });
+  });
+
+  describe("validateExtractGroup", () => {
+    beforeEach(() => {
+      schemaObj = unmarshal(schema, PERSON_SCHEMA);
+    });
+
+    /** Builds an extractGroup command. */
+    function extractGroupCommand(payload: ExtractGroupPayload): ExtractGroupCommand {
+      return { type: "extractGroup", payload };
+    }
+
+    const PERSON = "/complexType:PersonType/sequence[0]";
+    const CONTACT = "/complexType:ContactType/sequence[0]";
+    const ADDRESS = [`${PERSON}/element:street`, `${PERSON}/element:city`];
+
+    test("should accept adjacent elements at the end of a sequence", () => {
+      expect(
+        validateExtractGroup(
+          extractGroupCommand({ particleIds: ADDRESS, groupName: "StreetGroup" }),
+          schemaObj
+        ).valid
+      ).toBe(true);
+    });
+
+    test("should accept adjacent elements anywhere in a choice", () => {
+      expect(
+        validateExtractGroup(
+          extractGroupCommand({
+            particleIds: [`${CONTACT}/choice[0]/element:phone`],
+            groupName: "PhoneGroup",
+          }),
+          schemaObj
+        ).valid
+      ).toBe(true);
+    });
+
+    test("should reject particles that cannot be extracted together", () => {
+      const cases: [string[], string][] = [
+        [[], "Particle IDs cannot be empty"],
+        [[`${PERSON}/element:missing`], `Node not found: ${PERSON}/element:missing`],
+        [
+          [`${CONTACT}/groupRef:AddressGroup[0]`],
+          `Only elements can be extracted into a group: ${CONTACT}/groupRef:AddressGroup[0]`,
+        ],
+        [
+          ["/complexType:NoteType/all[0]/element:text"],
+          "Elements of an all cannot be extracted into a group",
+        ],
+        [
+          [`${CONTACT}/element:email`, `${CONTACT}/choice[0]/element:phone`],
+          "Selected elements must belong to the same compositor",
+        ],
+        [
+          [`${PERSON}/element:name`, `${PERSON}/element:city`],
+          "Selected elements must be adjacent",
+        ],
+        [
+          [`${CONTACT}/element:email`],
+          "Elements can only be extracted from a sequence or choice holding only elements",
+        ],
+        [
+          [`${PERSON}/element:name`, `${PERSON}/element:street`],
+          "Only elements at the end of a sequence can be extracted into a group",
+        ],
+      ];
+      for (const [particleIds, error] of cases) {
+        const result = validateExtractGroup(
+          extractGroupCommand({ particleIds, groupName: "StreetGroup" }),
+          schemaObj
+        );
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+
+    test("should reject invalid names and names taken by another group", () => {
+      const cases: [string, string][] = [
+        ["1street", "Group name must be a valid XML name"],
+        ["AddressGroup", "Group 'AddressGroup' already exists in schema"],
+      ];
+      for (const [groupName, error] of cases) {
+        const result = validateExtractGroup(
+          extractGroupCommand({ particleIds: ADDRESS, groupName }),
+          schemaObj
+        );
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+  });
+
+  describe("validateExtractAttributeGroup", () => {
+    beforeEach(() => {
+      schemaObj = unmarshal(schema, AUDIT_SCHEMA);
+    });
+
+    /** Builds an extractAttributeGroup command. */
+    function extractAttributeGroupCommand(
+      attributeIds: string[],
+      groupName = "IdentityAttributes"
+    ): ExtractAttributeGroupCommand {
+      return { type: "extractAttributeGroup", payload: { attributeIds, groupName } };
+    }
+
+    test("should accept attributes declared alike on several types", () => {
+      const attributeIds = [
+        "/complexType:OrderType/attribute:id",
+        "/complexType:OrderType/attribute:version",
+        "/complexType:InvoiceType/attribute:id",
+        "/attributeGroup:Audit/attribute:created",
+      ];
+      expect(
+        validateExtractAttributeGroup(extractAttributeGroupCommand(attributeIds), schemaObj).valid
+      ).toBe(true);
+    });
+
+    test("should reject attributes that cannot be merged into one group", () => {
+      const cases: [string[], string][] = [
+        [[], "Attribute IDs cannot be empty"],
+        [
+          ["/complexType:OrderType/attribute:missing"],
+          "Node not found: /complexType:OrderType/attribute:missing",
+        ],
+        [
+          ["/complexType:OrderType/sequence[0]/element:note"],
+          "Only attributes can be extracted into an attribute group: /complexType:OrderType/sequence[0]/element:note",
+        ],
+        [
+          ["/complexType:OrderType/attribute:id", "/complexType:NoteType/attribute:id"],
+          "Attribute 'id' has different 'use' values in the selected types",
+        ],
+        [
+          [
+            "/complexType:OrderType/attribute:version",
+            "/complexType:InvoiceType/attribute:version",
+          ],
+          "Attribute 'version' has different 'default' values in the selected types",
+        ],
+      ];
+      for (const [attributeIds, error] of cases) {
+        const result = validateExtractAttributeGroup(
+          extractAttributeGroupCommand(attributeIds),
+          schemaObj
+        );
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+
+    test("should reject invalid names and names taken by another attribute group", () => {
+      const cases: [string, string][] = [
+        ["1id", "Attribute group name must be a valid XML name"],
+        ["Audit", "Attribute group 'Audit' already exists in schema"],
+      ];
+      for (const [groupName, error] of cases) {
+        const result = validateExtractAttributeGroup(
+          extractAttributeGroupCommand(["/complexType:OrderType/attribute:id"], groupName),
+          schemaObj
+        );
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Validators for extraction and inlining commands.
+ *
+ * The inline content to extract must exist, and the new top-level component
+ * needs a valid name that is not taken in its symbol space. Elements are
+ * extracted into a group as a run of adjacent elements of one sequence or
+ * choice. Attributes of the same name merged into one attribute group from
+ * several types must agree on how they are declared. A named type can only be inlined where an anonymous type can take
+ * its place.
+ */
+
+import {
+  schema,
+  ExtractTypeCommand,
+  InlineTypeCommand,
+  ExtractGroupCommand,
+  ExtractAttributeGroupCommand,
+  attribute,
+} from "../../shared/types";
+import { parseSchemaId, ParsedSchemaId, SchemaNodeType } from "../../shared/idStrategy";
+import { locateNodeById } from "../schemaNavigator";
+import { ValidationResult, isValidXmlName } from "./validationUtils";
+import {
+  ComponentKind,
+  isComponentNameTaken,
+  isQNameOfComponent,
+  locateComponent,
+} from "../commandExecutors/componentReferences";
+import {
+  ELEMENT_PARENT_TYPES,
+  ATTRIBUTE_PARENT_TYPES,
+} from "../commandExecutors/declarationWalker";
+import { locateParticleRun } from "../commandExecutors/particleRuns";
+import {
+  groupAttributesByName,
+  locateAttributeSelection,
+} from "../commandExecutors/attributeSelection";
+import { collectUsages } from "../componentUsages";
+
+/** Property of the declaring element or attribute holding each kind of anonymous type. */
+const ANONYMOUS_TYPE_PROPERTIES: Partial<Record<string, "complexType" | "simpleType">> = {
+  [SchemaNodeType.AnonymousComplexType]: "complexType",
+  [SchemaNodeType.AnonymousSimpleType]: "simpleType",
+};
+
+// ===== Extraction Validators =====
+
+/**
+ * Validates an extractType command.
+ *
+ * @param command - The command to validate
+ * @param schemaObj - The schema to validate against
+ * @returns Validation result
+ */
+export function validateExtractType(
+  command: ExtractTypeCommand,
+  schemaObj: schema
+): ValidationResult {
+  const { typeId, typeName } = command.payload;
+
+  if (!typeId.trim()) {
+    return { valid: false, error: "Type ID cannot be empty" };
+  }
+  let parsed: ParsedSchemaId;
+  try {
+    parsed = parseSchemaId(typeId);
+  } catch (error) {
+    return { valid: false, error: (error as Error).message };
+  }
+  const property = ANONYMOUS_TYPE_PROPERTIES[parsed.nodeType];
+  if (!property || !parsed.parentId) {
+    return {
+      valid: false,
+      error: `Only anonymous types can be extracted: ${typeId}`,
+    };
+  }
+
+  const location = locateNodeById(schemaObj, parsed.parentId);
+  if (!location.found) {
+    return { valid: false, error: `Parent not found: ${parsed.parentId}` };
+  }
+  if (!(location.parent as Record<string, unknown>)[property]) {
+    return {
+      valid: false,
+      error: `No anonymous ${property} found in parent: ${parsed.parentId}`,
+    };
+  }
+
+  if (!isValidXmlName(typeName)) {
+    return { valid: false, error: "Type name must be a valid XML name" };
+  }
+  if (isComponentNameTaken(schemaObj, "complexType", typeName)) {
+    return {
+      valid: false,
+      error: `Type '${typeName}' already exists in schema`,
+    };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validates an extractGroup command.
+ *
+ * @param command - The command to validate
+ * @param schemaObj - The schema to validate against
+ * @returns Validation result
+ */
+export function validateExtractGroup(
+  command: ExtractGroupCommand,
+  schemaObj: schema
+): ValidationResult {
+  const { particleIds, groupName } = command.payload;
+
+  if (particleIds.length === 0 || particleIds.some((particleId) => !particleId.trim())) {
+    return { valid: false, error: "Particle IDs cannot be empty" };
+  }
+  const run = locateParticleRun(schemaObj, particleIds);
+  if (!run.found) {
+    return { valid: false, error: run.error };
+  }
+
+  if (!isValidXmlName(groupName)) {
+    return { valid: false, error: "Group name must be a valid XML name" };
+  }
+  if (isComponentNameTaken(schemaObj, "group", groupName)) {
+    return { valid: false, error: `Group '${groupName}' already exists in schema` };
+  }
+  return { valid: true };
+}
+
+/** Properties that attributes merged into one declaration must agree on. */
+const MERGED_ATTRIBUTE_PROPERTIES: ReadonlyArray<[keyof attribute, string]> = [
+  ["type_", "type"],
+  ["use", "use"],
+  ["default_", "default"],
+  ["fixed", "fixed"],
+];
+
+/**
+ * Validates an extractAttributeGroup command.
+ * Attributes of the same name selected on several types are declared once in
+ * the new group, so their type, use, default and fixed values must be
+ * identical.
+ *
+ * @param command - The command to validate
+ * @param schemaObj - The schema to validate against
+ * @returns Validation result
+ */
+export function validateExtractAttributeGroup(
+  command: ExtractAttributeGroupCommand,
+  schemaObj: schema
+): ValidationResult {
+  const { attributeIds, groupName } = command.payload;
+
+  if (attributeIds.length === 0 || attributeIds.some((attributeId) => !attributeId.trim())) {
+    return { valid: false, error: "Attribute IDs cannot be empty" };
+  }
+  const selection = locateAttributeSelection(schemaObj, attributeIds);
+  if (!selection.found) {
+    return { valid: false, error: selection.error };
+  }
+  for (const [name, declarations] of groupAttributesByName(selection.attributes)) {
+    const [first, ...others] = declarations;
+    for (const [property, label] of MERGED_ATTRIBUTE_PROPERTIES) {
+      if (others.some((other) => other[property] !== first[property])) {
+        return {
+          valid: false,
+          error: `Attribute '${name}' has different '${label}' values in the selected types`,
+        };
+      }
+    }
+  }
+
+  if (!isValidXmlName(groupName)) {
+    return { valid: false, error: "Attribute group name must be a valid XML name" };
+  }
+  if (isComponentNameTaken(schemaObj, "attributeGroup", groupName)) {
+    return { valid: false, error: `Attribute group '${groupName}' already exists in schema` };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validates an inlineType command.
+ * Types used as the base of a derivation cannot be inlined, since
+ * derivations can only refer to named types, and neither can types that
+ * refer to themselves.
+ *
+ * @param command - The command to validate
+ * @param schemaObj - The schema to validate against
+ * @returns Validation result
+ */
+export function validateInlineType(
+  command: InlineTypeCommand,
+  schemaObj: schema
+): ValidationResult {
+  const { typeId, declarationId } = command.payload;
+
+  if (!typeId.trim()) {
+    return { valid: false, error: "Type ID cannot be empty" };
+  }
+  const location = locateComponent(schemaObj, typeId);
+  if (!location.found) {
+    return { valid: false, error: location.error };
+  }
+  if (location.kind !== "complexType" && location.kind !== "simpleType") {
+    return { valid: false, error: `Only named types can be inlined: ${typeId}` };
+  }
+
+  const name = location.component.name ?? "";
+  const usages = collectUsages(schemaObj, "type", name);
+  if (usages.some((usage) => usage.attribute === "base")) {
+    return {
+      valid: false,
+      error: `Type '${name}' is used as a base type and cannot be inlined`,
+    };
+  }
+  if (usages.some((usage) => usage.nodeId === typeId || usage.nodeId.startsWith(`${typeId}/`))) {
+    return { valid: false, error: `Type '${name}' refers to itself and cannot be inlined` };
+  }
+
+  if (declarationId === undefined) {
+    if (!usages.some((usage) => usage.attribute === "type")) {
+      return {
+        valid: false,
+        error: `Type '${name}' is not used by any element or attribute`,
+      };
+    }
+    return { valid: true };
+  }
+  return validateInlineDeclaration(schemaObj, location.kind, name, declarationId);
+}
+
+/**
+ * Validates the declaration a type is inlined into: an element or attribute
+ * declaration whose type is the inlined type.
+ */
+function validateInlineDeclaration(
+  schemaObj: schema,
+  kind: ComponentKind,
+  name: string,
+  declarationId: string
+): ValidationResult {
+  const location = locateNodeById(schemaObj, declarationId);
+  const parentType = location.parentType ?? "";
+  const isAttribute = ATTRIBUTE_PARENT_TYPES.includes(parentType);
+  if (!location.found || (!ELEMENT_PARENT_TYPES.includes(parentType) && !isAttribute)) {
+    return { valid: false, error: `Declaration not found: ${declarationId}` };
+  }
+
+  const { type_ } = location.parent as { type_?: string };
+  if (!type_ || !isQNameOfComponent(type_, name, schemaObj)) {
+    return {
+      valid: false,
+      error: `Declaration does not refer to type '${name}': ${declarationId}`,
+    };
+  }
+  if (isAttribute && kind === "complexType") {
+    return { valid: false, error: "A complex type cannot be inlined into an attribute" };
+  }
+  return { valid: true };
+}
@@ -0,0 +1,360 @@
+/**
+ * Unit tests for restriction facet validation.
+ * Tests facets checked against each other and against the base type, directly
+ * and through the simple and complex type validators.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import {
+  schema,
+  RestrictionFacets,
+  AddSimpleTypeCommand,
+  ModifySimpleTypeCommand,
+  AddComplexTypeCommand,
+  ModifyComplexTypePayload,
+} from "../../shared/types";
+import { resolveBaseTypeFacets, validateRestrictionFacets } from "./facetValidation";
+import {
+  validateAddSimpleType,
+  validateModifySimpleType,
+  validateAddComplexType,
+  validateModifyComplexType,
+} from "./typeValidators";
+import { expectInvalid } from "./validationTestHelpers";
+
+const SCHEMA_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:prices" targetNamespace="urn:prices">
+  <xs:simpleType name="Amount">
+    <xs:restriction base="xs:decimal"/>
+  </xs:simpleType>
+  <xs:simpleType name="Code">
+    <xs:restriction base="xs:token"/>
+  </xs:simpleType>
+  <xs:simpleType name="Percentage">
+    <xs:restriction base="xs:int">
+      <xs:minInclusive value="0"/>
+      <xs:maxInclusive value="100"/>
+    </xs:restriction>
+  </xs:simpleType>
+  <xs:simpleType name="Size">
+    <xs:restriction base="xs:string">
+      <xs:maxLength value="3"/>
+      <xs:enumeration value="S"/>
+      <xs:enumeration value="M"/>
+    </xs:restriction>
+  </xs:simpleType>
+  <xs:simpleType name="date">
+    <xs:restriction base="xs:string">
+      <xs:maxLength value="10"/>
+    </xs:restriction>
+  </xs:simpleType>
+  <xs:simpleType name="Codes">
+    <xs:list itemType="tns:Code"/>
+  </xs:simpleType>
+  <xs:complexType name="PriceType">
+    <xs:simpleContent>
+      <xs:extension base="tns:Amount">
+        <xs:attribute name="currency" type="xs:string"/>
+      </xs:extension>
+    </xs:simpleContent>
+  </xs:complexType>
+  <xs:complexType name="ProductType">
+    <xs:sequence/>
+  </xs:complexType>
+</xs:schema>`;
+
+describe("Facet Validation", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, SCHEMA_XML);
+  });
+
+  describe("resolveBaseTypeFacets", () => {
+    it("should follow restrictions and simple content to a built-in type", () => {
+      expect(resolveBaseTypeFacets("xs:int", schemaObj)?.builtInType).toBe("int");
+      expect(resolveBaseTypeFacets("tns:Amount", schemaObj)?.builtInType).toBe("decimal");
+      expect(resolveBaseTypeFacets("tns:PriceType", schemaObj)?.builtInType).toBe("decimal");
+    });
+
+    it("should collect the facets inherited along the derivation", () => {
+      const base = resolveBaseTypeFacets("tns:Percentage", schemaObj);
+      expect(base?.facets).toMatchObject({
+        minInclusive: "0",
+        maxInclusive: "100",
+        fractionDigits: 0,
+        whiteSpace: "collapse",
+      });
+      expect(base?.applicableFacets).toContain("totalDigits");
+    });
+
+    it("should not resolve the values of lists or unknown types", () => {
+      expect(resolveBaseTypeFacets("tns:Codes", schemaObj)?.builtInType).toBeUndefined();
+      expect(resolveBaseTypeFacets("tns:Codes", schemaObj)?.applicableFacets).toContain("length");
+      expect(resolveBaseTypeFacets("ext:Imported", schemaObj)).toBeUndefined();
+    });
+
+    it("should only treat types of the XML Schema namespace as built-in", () => {
+      const userDate = resolveBaseTypeFacets("tns:date", schemaObj);
+      expect(userDate?.builtInType).toBe("string");
+      expect(userDate?.applicableFacets).toContain("maxLength");
+      expect(resolveBaseTypeFacets("xs:date", schemaObj)?.builtInType).toBe("date");
+      expect(resolveBaseTypeFacets("ext:date", schemaObj)).toBeUndefined();
+    });
+  });
+
+  describe("validateRestrictionFacets", () => {
+    it("should accept consistent facets", () => {
+      const facets: RestrictionFacets[] = [
+        { minInclusive: "0", maxInclusive: "0" },
+        { minExclusive: "0", maxInclusive: "1.5" },
+        { totalDigits: 5, fractionDigits: 2 },
+        { pattern: ["[0-9]+", "N/A"], enumeration: ["1", { value: "2", documentation: "Two" }] },
+      ];
+      for (const facet of facets) {
+        expect(validateRestrictionFacets(facet, "tns:Amount", schemaObj)).toEqual({ valid: true });
+      }
+    });
+
+    it("should reject conflicting facets", () => {
+      const cases: [RestrictionFacets, string][] = [
+        [
+          { minInclusive: "10", maxInclusive: "5" },
+          "minInclusive (10) must be less than or equal to maxInclusive (5)",
+        ],
+        [
+          { minInclusive: "5", maxExclusive: "5" },
+          "minInclusive (5) must be less than maxExclusive (5)",
+        ],
+        [
+          { minInclusive: "1", minExclusive: "0" },
+          "Facets 'minInclusive' and 'minExclusive' cannot both be set",
+        ],
+        [
+          { maxInclusive: "1", maxExclusive: "2" },
+          "Facets 'maxInclusive' and 'maxExclusive' cannot both be set",
+        ],
+        [
+          { length: 3, maxLength: 4 },
+          "Facet 'length' cannot be combined with 'minLength' or 'maxLength'",
+        ],
+        [{ minLength: 4, maxLength: 3 }, "minLength (4) must not be greater than maxLength (3)"],
+        [{ totalDigits: 0 }, "totalDigits must be greater than 0"],
+        [
+          { totalDigits: 2, fractionDigits: 3 },
+          "fractionDigits (3) must not be greater than totalDigits (2)",
+        ],
+        [{ pattern: ["[0-9]+", " "] }, "Patterns cannot be empty"],
+        [
+          { enumeration: ["1", { value: "1", documentation: "One" }] },
+          "Duplicate enumeration value '1'",
+        ],
+      ];
+      for (const [facets, error] of cases) {
+        const result = validateRestrictionFacets(facets, "tns:Amount", schemaObj);
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+
+    it("should compare bounds in the value space of the base type", () => {
+      const result = validateRestrictionFacets(
+        { minInclusive: "2024-01-01", maxExclusive: "2023-12-31" },
+        "xs:date",
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "minInclusive (2024-01-01) must be less than maxExclusive (2023-12-31)"
+      );
+      expect(
+        validateRestrictionFacets(
+          { minInclusive: "2024-01-01", maxInclusive: "2023-01-01" },
+          "ext:Imported",
+          schemaObj
+        )
+      ).toEqual({ valid: true });
+    });
+
+    it("should only allow the facets that apply to the base type", () => {
+      expect(validateRestrictionFacets({ totalDigits: 4 }, "xs:int", schemaObj)).toEqual({
+        valid: true,
+      });
+      expect(validateRestrictionFacets({ fractionDigits: 2 }, "ext:Imported", schemaObj)).toEqual({
+        valid: true,
+      });
+
+      const cases: [RestrictionFacets, string, string][] = [
+        [{ maxLength: 4 }, "xs:int", "Facet 'maxLength' does not apply to type 'xs:int'"],
+        [
+          { fractionDigits: 2 },
+          "tns:Code",
+          "Facet 'fractionDigits' does not apply to type 'tns:Code'",
+        ],
+        [
+          { minInclusive: "1" },
+          "tns:Codes",
+          "Facet 'minInclusive' does not apply to type 'tns:Codes'",
+        ],
+        [
+          { enumeration: ["true"] },
+          "xs:boolean",
+          "Facet 'enumeration' does not apply to type 'xs:boolean'",
+        ],
+      ];
+      for (const [facets, baseType, error] of cases) {
+        const result = validateRestrictionFacets(facets, baseType, schemaObj);
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+
+    it("should only allow values of the base type", () => {
+      const cases: [RestrictionFacets, string, string][] = [
+        [
+          { minInclusive: "abc" },
+          "xs:int",
+          "Facet 'minInclusive' value 'abc' is not a valid value of type 'xs:int'",
+        ],
+        [
+          { maxExclusive: "1.5" },
+          "tns:Percentage",
+          "Facet 'maxExclusive' value '1.5' is not a valid value of type 'tns:Percentage'",
+        ],
+        [
+          { enumeration: ["2024-01-01"] },
+          "xs:dateTime",
+          "Enumeration value '2024-01-01' is not a valid value of type 'xs:dateTime'",
+        ],
+      ];
+      for (const [facets, baseType, error] of cases) {
+        const result = validateRestrictionFacets(facets, baseType, schemaObj);
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+
+    it("should only allow facets that narrow those of the base type", () => {
+      const valid: [RestrictionFacets, string][] = [
+        [{ minInclusive: "0", maxExclusive: "50" }, "tns:Percentage"],
+        [{ enumeration: ["S"], maxLength: 1 }, "tns:Size"],
+        [{ whiteSpace: "collapse" }, "xs:normalizedString"],
+        [{ minInclusive: "-2147483648" }, "xs:int"],
+      ];
+      for (const [facets, baseType] of valid) {
+        expect(validateRestrictionFacets(facets, baseType, schemaObj)).toEqual({ valid: true });
+      }
+
+      const cases: [RestrictionFacets, string, string][] = [
+        [
+          { maxInclusive: "101" },
+          "tns:Percentage",
+          "maxInclusive (101) must be less than or equal to the maxInclusive of the base type (100)",
+        ],
+        [
+          { minExclusive: "-1" },
+          "tns:Percentage",
+          "minExclusive (-1) must be greater than or equal to the minInclusive of the base type (0)",
+        ],
+        [
+          { minInclusive: "-3000000000" },
+          "xs:int",
+          "minInclusive (-3000000000) must be greater than or equal to the minInclusive of the base type (-2147483648)",
+        ],
+        [
+          { enumeration: ["200"] },
+          "tns:Percentage",
+          "Enumeration value (200) must be less than or equal to the maxInclusive of the base type (100)",
+        ],
+        [
+          { enumeration: ["L"] },
+          "tns:Size",
+          "Enumeration value 'L' is not an enumeration value of the base type",
+        ],
+        [
+          { maxLength: 5 },
+          "tns:Size",
+          "maxLength (5) must not be greater than the maxLength of the base type (3)",
+        ],
+        [
+          { fractionDigits: 2 },
+          "xs:int",
+          "fractionDigits (2) must not be greater than the fractionDigits of the base type (0)",
+        ],
+        [
+          { whiteSpace: "preserve" },
+          "xs:token",
+          "whiteSpace (preserve) must not be weaker than the whiteSpace of the base type (collapse)",
+        ],
+      ];
+      for (const [facets, baseType, error] of cases) {
+        const result = validateRestrictionFacets(facets, baseType, schemaObj);
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+  });
+
+  describe("type validators", () => {
+    it("should check the facets of new and modified simple types", () => {
+      const add: AddSimpleTypeCommand = {
+        type: "addSimpleType",
+        payload: { typeName: "Name", baseType: "xs:string", restrictions: { totalDigits: 3 } },
+      };
+      const addResult = validateAddSimpleType(add, schemaObj);
+      expectInvalid(addResult);
+      expect(addResult.error).toBe("Facet 'totalDigits' does not apply to type 'xs:string'");
+
+      const modify: ModifySimpleTypeCommand = {
+        type: "modifySimpleType",
+        payload: { typeId: "/simpleType:Amount", restrictions: { totalDigits: 3 } },
+      };
+      expect(validateModifySimpleType(modify, schemaObj)).toEqual({ valid: true });
+    });
+
+    it("should check the facets of anonymous item types", () => {
+      const command: AddSimpleTypeCommand = {
+        type: "addSimpleType",
+        payload: {
+          typeName: "Ranges",
+          variety: "list",
+          itemSimpleType: { baseType: "xs:int", restrictions: { minLength: 2, maxLength: 1 } },
+        },
+      };
+      const result = validateAddSimpleType(command, schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("minLength (2) must not be greater than maxLength (1)");
+    });
+
+    it("should only allow facets on simpleContent restrictions", () => {
+      const add: AddComplexTypeCommand = {
+        type: "addComplexType",
+        payload: {
+          typeName: "PositivePriceType",
+          contentKind: "simple",
+          baseType: "tns:PriceType",
+          derivation: "restriction",
+          restrictions: { minExclusive: "0", fractionDigits: 2 },
+        },
+      };
+      expect(validateAddComplexType(add, schemaObj)).toEqual({ valid: true });
+
+      const cases: [ModifyComplexTypePayload, string][] = [
+        [
+          { typeId: "/complexType:PriceType", restrictions: { minInclusive: "0" } },
+          "Facets are only allowed for simpleContent restrictions",
+        ],
+        [
+          { typeId: "/complexType:ProductType", restrictions: { maxLength: 3 } },
+          "Facets are only allowed for simpleContent restrictions",
+        ],
+      ];
+      for (const [payload, error] of cases) {
+        const result = validateModifyComplexType({ type: "modifyComplexType", payload }, schemaObj);
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+  });
+});
@@ -0,0 +1,467 @@
+/**
+ * Validation of restriction facets for the simple and complex type
+ * validators: checks that the facets of a restriction are consistent with
+ * each other, apply to the type they restrict, hold values of that type and
+ * only narrow the facets it inherits.
+ */
+
+import { schema, RestrictionFacets } from "../../shared/types";
+import { ValidationResult, XSD_NAMESPACE } from "./validationUtils";
+import { toArray } from "../../shared/schemaUtils";
+import {
+  FacetName,
+  LIST_FACETS,
+  UNION_FACETS,
+  compareValues,
+  getBuiltInDatatype,
+  getBuiltInFacets,
+  isValidLexicalValue,
+} from "../../shared/xsdDatatypes";
+import { resolveQName } from "../commandExecutors/componentReferences";
+import {
+  SimpleTypeContent,
+  getEnumerationValue,
+  readRestrictionFacets,
+} from "../commandExecutors/simpleTypeUtils";
+
+/** The facets a restriction inherits from the type it restricts. */
+export interface BaseTypeFacets {
+  /** Built-in type the values derive from; undefined for lists and unions */
+  builtInType?: string;
+  /** Facets that can restrict the type */
+  applicableFacets: readonly FacetName[];
+  /** Facets in effect for the type */
+  facets: RestrictionFacets;
+}
+
+/** Facets that bound the values of ordered types. */
+const BOUND_FACETS = ["minInclusive", "minExclusive", "maxInclusive", "maxExclusive"] as const;
+
+/** Name of a facet that bounds values. */
+type BoundFacetName = (typeof BOUND_FACETS)[number];
+
+/** Facets with a non-negative integer value. */
+type NumericFacetName = "length" | "minLength" | "maxLength" | "totalDigits" | "fractionDigits";
+
+/**
+ * How a numeric facet must relate to a facet inherited from the base type:
+ * the facet, the inherited facet, and whether it must be equal to it, not less
+ * than it or not greater than it.
+ */
+const NUMERIC_FACET_LIMITS: readonly [
+  NumericFacetName,
+  NumericFacetName,
+  "equal" | "min" | "max",
+][] = [
+  ["length", "length", "equal"],
+  ["length", "minLength", "min"],
+  ["length", "maxLength", "max"],
+  ["minLength", "minLength", "min"],
+  ["minLength", "maxLength", "max"],
+  ["maxLength", "maxLength", "max"],
+  ["maxLength", "minLength", "min"],
+  ["totalDigits", "totalDigits", "max"],
+  ["fractionDigits", "fractionDigits", "max"],
+  ["fractionDigits", "totalDigits", "max"],
+];
+
+/** The whiteSpace values, from the least to the most normalizing. */
+const WHITE_SPACE_ORDER = ["preserve", "replace", "collapse"];
+
+/** Lexical form of decimal, float and double values that can be compared as numbers. */
+const NUMERIC_VALUE = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+
+/**
+ * Returns the facets in effect after a restriction: the inherited facets,
+ * overridden by those the restriction sets.
+ *
+ * @param inherited - The facets of the base type
+ * @param facets - The facets set by the restriction, as read from the schema
+ */
+function inheritFacets(inherited: RestrictionFacets, facets: RestrictionFacets): RestrictionFacets {
+  const result: RestrictionFacets = { ...inherited, ...facets };
+  if (facets.minInclusive !== undefined) delete result.minExclusive;
+  if (facets.minExclusive !== undefined) delete result.minInclusive;
+  if (facets.maxInclusive !== undefined) delete result.maxExclusive;
+  if (facets.maxExclusive !== undefined) delete result.maxInclusive;
+  return result;
+}
+
+/**
+ * Resolves the facets of a user-defined simple type.
+ */
+function resolveSimpleTypeFacets(
+  simpleType: SimpleTypeContent,
+  schemaObj: schema,
+  visited: Set<string>
+): BaseTypeFacets | undefined {
+  if (simpleType.list) {
+    return { applicableFacets: LIST_FACETS, facets: { whiteSpace: "collapse" } };
+  }
+  if (simpleType.union) {
+    return { applicableFacets: UNION_FACETS, facets: {} };
+  }
+  const restriction = simpleType.restriction;
+  if (!restriction) {
+    return undefined;
+  }
+  const base =
+    restriction.base !== undefined
+      ? resolveTypeFacets(restriction.base, schemaObj, visited)
+      : restriction.simpleType &&
+        resolveSimpleTypeFacets(restriction.simpleType, schemaObj, visited);
+  return (
+    base && { ...base, facets: inheritFacets(base.facets, readRestrictionFacets(restriction)) }
+  );
+}
+
+/**
+ * Resolves the facets of a built-in or top-level type.
+ */
+function resolveTypeFacets(
+  typeName: string,
+  schemaObj: schema,
+  visited: Set<string>
+): BaseTypeFacets | undefined {
+  const { namespace, localName } = resolveQName(typeName.trim(), schemaObj);
+  if (namespace === XSD_NAMESPACE) {
+    const datatype = getBuiltInDatatype(localName);
+    return (
+      datatype && {
+        builtInType: datatype.variety === "atomic" ? datatype.name : undefined,
+        applicableFacets: datatype.applicableFacets,
+        facets: getBuiltInFacets(datatype.name),
+      }
+    );
+  }
+  if (namespace !== (schemaObj.targetNamespace ?? "") || visited.has(localName)) {
+    return undefined;
+  }
+  visited.add(localName);
+
+  const simpleType = toArray(schemaObj.simpleType).find((st) => st.name === localName);
+  if (simpleType) {
+    return resolveSimpleTypeFacets(simpleType, schemaObj, visited);
+  }
+  const simpleContent = toArray(schemaObj.complexType).find(
+    (ct) => ct.name === localName
+  )?.simpleContent;
+  if (simpleContent?.extension?.base !== undefined) {
+    return resolveTypeFacets(simpleContent.extension.base, schemaObj, visited);
+  }
+  const restriction = simpleContent?.restriction;
+  if (restriction?.base === undefined) {
+    return undefined;
+  }
+  const base = restriction.simpleType
+    ? resolveSimpleTypeFacets(restriction.simpleType, schemaObj, visited)
+    : resolveTypeFacets(restriction.base, schemaObj, visited);
+  return (
+    base && { ...base, facets: inheritFacets(base.facets, readRestrictionFacets(restriction)) }
+  );
+}
+
+/**
+ * Follows the restrictions of a type to the built-in type it derives from,
+ * collecting the facets it inherits along the way. Complex types with simple
+ * content are followed to the type of their text value.
+ *
+ * @param baseType - The type to resolve
+ * @param schemaObj - The schema to look types up in
+ * @returns The facets of the type, or undefined if it cannot be resolved
+ * (types of other schemas and circular derivations)
+ */
+export function resolveBaseTypeFacets(
+  baseType: string,
+  schemaObj: schema
+): BaseTypeFacets | undefined {
+  return resolveTypeFacets(baseType, schemaObj, new Set());
+}
+
+/**
+ * Compares two values of a type. Values of unknown types are compared as
+ * numbers if both look like numbers.
+ */
+function compareBoundValues(
+  builtInType: string | undefined,
+  a: string,
+  b: string
+): number | undefined {
+  if (builtInType !== undefined && getBuiltInDatatype(builtInType)?.primitive !== undefined) {
+    return compareValues(builtInType, a, b);
+  }
+  const [x, y] = [a.trim(), b.trim()];
+  if (!NUMERIC_VALUE.test(x) || !NUMERIC_VALUE.test(y)) {
+    return undefined;
+  }
+  return Math.sign(Number(x) - Number(y));
+}
+
+/**
+ * Validates that a lower bound does not exceed an upper bound.
+ *
+ * @param facets - The restriction facets
+ * @param builtInType - The built-in type of the values, if known
+ */
+function validateValueBounds(
+  facets: RestrictionFacets,
+  builtInType: string | undefined
+): ValidationResult {
+  const lowerName = facets.minExclusive !== undefined ? "minExclusive" : "minInclusive";
+  const upperName = facets.maxExclusive !== undefined ? "maxExclusive" : "maxInclusive";
+  const lower = facets[lowerName]?.trim();
+  const upper = facets[upperName]?.trim();
+  if (lower === undefined || upper === undefined) {
+    return { valid: true };
+  }
+  const comparison = compareBoundValues(builtInType, lower, upper);
+  if (comparison === undefined) {
+    return { valid: true };
+  }
+  const strict = lowerName === "minExclusive" || upperName === "maxExclusive";
+  const inRange = strict ? comparison < 0 : comparison <= 0;
+  if (!inRange) {
+    return {
+      valid: false,
+      error: `${lowerName} (${lower}) must be ${strict ? "less than" : "less than or equal to"} ${upperName} (${upper})`,
+    };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validates that the facets of a restriction are consistent with each other:
+ * no conflicting bounds, lengths or digit counts, and no repeated values.
+ *
+ * @param facets - The restriction facets
+ * @param builtInType - The built-in type of the values, if known
+ */
+function validateFacetConsistency(
+  facets: RestrictionFacets,
+  builtInType: string | undefined
+): ValidationResult {
+  if (facets.minInclusive !== undefined && facets.minExclusive !== undefined) {
+    return { valid: false, error: "Facets 'minInclusive' and 'minExclusive' cannot both be set" };
+  }
+  if (facets.maxInclusive !== undefined && facets.maxExclusive !== undefined) {
+    return { valid: false, error: "Facets 'maxInclusive' and 'maxExclusive' cannot both be set" };
+  }
+  if (
+    facets.length !== undefined &&
+    (facets.minLength !== undefined || facets.maxLength !== undefined)
+  ) {
+    return {
+      valid: false,
+      error: "Facet 'length' cannot be combined with 'minLength' or 'maxLength'",
+    };
+  }
+  if (
+    facets.minLength !== undefined &&
+    facets.maxLength !== undefined &&
+    facets.minLength > facets.maxLength
+  ) {
+    return {
+      valid: false,
+      error: `minLength (${facets.minLength}) must not be greater than maxLength (${facets.maxLength})`,
+    };
+  }
+  if (facets.totalDigits !== undefined && facets.totalDigits < 1) {
+    return { valid: false, error: "totalDigits must be greater than 0" };
+  }
+  if (
+    facets.totalDigits !== undefined &&
+    facets.fractionDigits !== undefined &&
+    facets.fractionDigits > facets.totalDigits
+  ) {
+    return {
+      valid: false,
+      error: `fractionDigits (${facets.fractionDigits}) must not be greater than totalDigits (${facets.totalDigits})`,
+    };
+  }
+  return validateValueBounds(facets, builtInType);
+}
+
+/**
+ * Validates that the bound and enumeration values of a restriction are values
+ * of the type it restricts.
+ *
+ * @param facets - The restriction facets
+ * @param builtInType - The built-in type of the values
+ * @param baseType - The type being restricted, for error messages
+ */
+function validateFacetValues(
+  facets: RestrictionFacets,
+  builtInType: string,
+  baseType: string
+): ValidationResult {
+  for (const name of BOUND_FACETS) {
+    const value = facets[name];
+    if (value !== undefined && !isValidLexicalValue(builtInType, value)) {
+      return {
+        valid: false,
+        error: `Facet '${name}' value '${value}' is not a valid value of type '${baseType}'`,
+      };
+    }
+  }
+  for (const entry of facets.enumeration ?? []) {
+    const value = getEnumerationValue(entry);
+    if (!isValidLexicalValue(builtInType, value)) {
+      return {
+        valid: false,
+        error: `Enumeration value '${value}' is not a valid value of type '${baseType}'`,
+      };
+    }
+  }
+  return { valid: true };
+}
+
+/**
+ * Checks that a value lies within the bounds inherited from the base type.
+ * A bound may repeat an inherited bound of the same kind.
+ *
+ * @param label - Describes the value in error messages
+ * @param value - The bound or enumeration value
+ * @param facet - The bound facet the value is given for, if any
+ * @param base - The facets of the base type
+ * @returns An error message, or undefined if the value is within the bounds
+ */
+function checkInheritedBounds(
+  label: string,
+  value: string,
+  facet: BoundFacetName | undefined,
+  base: BaseTypeFacets
+): string | undefined {
+  for (const baseName of BOUND_FACETS) {
+    const baseValue = base.facets[baseName];
+    const comparison =
+      baseValue === undefined ? undefined : compareBoundValues(base.builtInType, value, baseValue);
+    if (comparison === undefined) {
+      continue;
+    }
+    const lower = baseName.startsWith("min");
+    const equalAllowed = !baseName.endsWith("Exclusive") || facet === baseName;
+    const sign = lower ? comparison : -comparison;
+    if (sign < 0 || (sign === 0 && !equalAllowed)) {
+      const relation = `${lower ? "greater" : "less"} than${equalAllowed ? " or equal to" : ""}`;
+      return `${label} (${value}) must be ${relation} the ${baseName} of the base type (${baseValue})`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Validates that a restriction only narrows the facets of its base type.
+ *
+ * @param facets - The restriction facets
+ * @param base - The facets of the base type
+ */
+function validateFacetNarrowing(facets: RestrictionFacets, base: BaseTypeFacets): ValidationResult {
+  for (const [name, baseName, relation] of NUMERIC_FACET_LIMITS) {
+    const value = facets[name];
+    const baseValue = base.facets[baseName];
+    if (value === undefined || baseValue === undefined) {
+      continue;
+    }
+    if (relation === "equal" && value !== baseValue) {
+      const error = `${name} (${value}) must equal the ${baseName} of the base type (${baseValue})`;
+      return { valid: false, error };
+    }
+    if ((relation === "min" && value < baseValue) || (relation === "max" && value > baseValue)) {
+      const bound = relation === "min" ? "less" : "greater";
+      const error = `${name} (${value}) must not be ${bound} than the ${baseName} of the base type (${baseValue})`;
+      return { valid: false, error };
+    }
+  }
+
+  const whiteSpace = facets.whiteSpace;
+  const baseWhiteSpace = base.facets.whiteSpace;
+  if (
+    whiteSpace !== undefined &&
+    baseWhiteSpace !== undefined &&
+    WHITE_SPACE_ORDER.indexOf(whiteSpace) < WHITE_SPACE_ORDER.indexOf(baseWhiteSpace)
+  ) {
+    return {
+      valid: false,
+      error: `whiteSpace (${whiteSpace}) must not be weaker than the whiteSpace of the base type (${baseWhiteSpace})`,
+    };
+  }
+
+  for (const name of BOUND_FACETS) {
+    const value = facets[name];
+    const error = value === undefined ? undefined : checkInheritedBounds(name, value, name, base);
+    if (error) {
+      return { valid: false, error };
+    }
+  }
+  const baseEnumeration = base.facets.enumeration?.map(getEnumerationValue);
+  for (const entry of facets.enumeration ?? []) {
+    const value = getEnumerationValue(entry);
+    const error = checkInheritedBounds("Enumeration value", value, undefined, base);
+    if (error) {
+      return { valid: false, error };
+    }
+    const inherited = baseEnumeration?.some(
+      (baseValue) =>
+        baseValue === value || compareBoundValues(base.builtInType, value, baseValue) === 0
+    );
+    if (inherited === false) {
+      return {
+        valid: false,
+        error: `Enumeration value '${value}' is not an enumeration value of the base type`,
+      };
+    }
+  }
+  return { valid: true };
+}
+
+/**
+ * Validates the facets of a restriction of the given base type. Bases that
+ * cannot be resolved, such as types of other schemas, are only checked for
+ * consistency.
+ *
+ * @param facets - The restriction facets
+ * @param baseType - The type being restricted
+ * @param schemaObj - The schema to look the base type up in
+ */
+export function validateRestrictionFacets(
+  facets: RestrictionFacets,
+  baseType: string,
+  schemaObj: schema
+): ValidationResult {
+  if (facets.pattern?.some((pattern) => !pattern.trim())) {
+    return { valid: false, error: "Patterns cannot be empty" };
+  }
+  const values = new Set<string>();
+  for (const entry of facets.enumeration ?? []) {
+    const value = getEnumerationValue(entry);
+    if (values.has(value)) {
+      return { valid: false, error: `Duplicate enumeration value '${value}'` };
+    }
+    values.add(value);
+  }
+
+  const base = resolveBaseTypeFacets(baseType, schemaObj);
+  const consistencyResult = validateFacetConsistency(facets, base?.builtInType);
+  if (!consistencyResult.valid || !base) {
+    return consistencyResult;
+  }
+
+  const inapplicable = (Object.keys(facets) as FacetName[]).find((name) => {
+    const value = facets[name];
+    const isSet = Array.isArray(value) ? value.length > 0 : value !== undefined;
+    return isSet && !base.applicableFacets.includes(name);
+  });
+  if (inapplicable) {
+    return {
+      valid: false,
+      error: `Facet '${inapplicable}' does not apply to type '${baseType}'`,
+    };
+  }
+  if (base.builtInType !== undefined) {
+    const valuesResult = validateFacetValues(facets, base.builtInType, baseType);
+    if (!valuesResult.valid) {
+      return valuesResult;
+    }
+  }
+  return validateFacetNarrowing(facets, base);
+}
@@ -192,6 +192,36 @@ describe("Group Validators", () => {
       );
     });
 
+    test("should reject removeGroup when group is referenced with a namespace prefix", () => {
+      const schemaXml = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:people"
+           targetNamespace="urn:people">
+  <xs:group name="PersonGroup">
+    <xs:sequence/>
+  </xs:group>
+  <xs:complexType name="PersonType">
+    <xs:sequence>
+      <xs:group ref="tns:PersonGroup"/>
+    </xs:sequence>
+  </xs:complexType>
+</xs:schema>`;
+      const schemaWithRef = unmarshal(schema, schemaXml);
+
+      const command: RemoveGroupCommand = {
+        type: "removeGroup",
+        payload: {
+          groupId: "/group:PersonGroup",
+        },
+      };
+
+      const result = validateRemoveGroup(command, schemaWithRef);
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Group is still referenced and cannot be removed: PersonGroup"
+      );
+    });
+
     test("should reject removeGroup when group is referenced by a complexType choice", () => {
       const schemaXml = `<?xml version="1.0" encoding="UTF-8"?>
 <xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
@@ -17,6 +17,7 @@ import {
 import { toArray } from "../../shared/schemaUtils";
 import { parseSchemaId, SchemaNodeType } from "../../shared/idStrategy";
 import { locateNodeById } from "../schemaNavigator";
+import { collectUsages } from "../componentUsages";
 
 /**
  * Valid content models for Group elements.
@@ -166,41 +167,6 @@ function groupRefExistsInHolderDeep(
   return false;
 }
 
-/**
- * Returns true if any schema construct references the named group.
- *
- * Checks:
- * - Top-level complexType definitions (direct or via complexContent)
- * - Inline complexTypes on top-level element definitions
- * - Other top-level group definitions (groups can reference groups)
- */
-function isGroupReferenced(name: string, schemaObj: schema): boolean {
-  // Top-level complexType definitions.
-  for (const ct of toArray(schemaObj.complexType)) {
-    if (groupRefExistsInHolderDeep(name, ct)) return true;
-  }
-
-  // Inline complexTypes on top-level element definitions.
-  for (const el of toArray(schemaObj.element)) {
-    if (el.complexType && groupRefExistsInHolderDeep(name, el.complexType)) {
-      return true;
-    }
-  }
-
-  // Other top-level group definitions (groups can reference groups),
-  // including nested local elements inside their particles.
-  for (const grp of toArray(schemaObj.group)) {
-    if (grp.sequence && groupRefExistsInCompositorDeep(name, grp.sequence)) {
-      return true;
-    }
-    if (grp.choice && groupRefExistsInCompositorDeep(name, grp.choice)) {
-      return true;
-    }
-  }
-
-  return false;
-}
-
 /** Structural type for a complexType node that can hold a direct particle. */
 type ComplexTypeWithParticles = {
   group?: groupRef;
@@ -386,7 +352,7 @@ export function validateRemoveGroup(
       error: `Group not found: ${command.payload.groupId}`,
     };
   }
-  if (parsed.name && isGroupReferenced(parsed.name, schemaObj)) {
+  if (parsed.name && collectUsages(schemaObj, "group", parsed.name).length > 0) {
     return {
       valid: false,
       error: `Group is still referenced and cannot be removed: ${parsed.name}`,
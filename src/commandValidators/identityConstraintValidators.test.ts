@@ -0,0 +1,431 @@
+/**
+ * Unit tests for identity constraint validators.
+ * Tests validation of add, remove, and modify commands for xs:key,
+ * xs:unique and xs:keyref constraints.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import {
+  schema,
+  AddIdentityConstraintCommand,
+  AddIdentityConstraintPayload,
+  RemoveIdentityConstraintCommand,
+  ModifyIdentityConstraintCommand,
+  ModifyIdentityConstraintPayload,
+} from "../../shared/types";
+import {
+  validateAddIdentityConstraint,
+  validateRemoveIdentityConstraint,
+  validateModifyIdentityConstraint,
+} from "./identityConstraintValidators";
+import { expectInvalid } from "./validationTestHelpers";
+
+const ORDERS_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:orders" targetNamespace="urn:orders">
+  <xs:element name="orders">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="order" maxOccurs="unbounded">
+          <xs:complexType>
+            <xs:sequence>
+              <xs:element name="line" maxOccurs="unbounded">
+                <xs:complexType>
+                  <xs:attribute name="number" type="xs:int"/>
+                </xs:complexType>
+              </xs:element>
+            </xs:sequence>
+            <xs:attribute name="id" type="xs:string"/>
+            <xs:attribute name="customer" type="xs:string"/>
+          </xs:complexType>
+          <xs:unique name="lineNumber">
+            <xs:selector xpath="line"/>
+            <xs:field xpath="@number"/>
+          </xs:unique>
+        </xs:element>
+        <xs:element ref="tns:customer" maxOccurs="unbounded"/>
+      </xs:sequence>
+    </xs:complexType>
+    <xs:key name="orderKey">
+      <xs:selector xpath="order"/>
+      <xs:field xpath="@id"/>
+    </xs:key>
+    <xs:key name="customerKey">
+      <xs:selector xpath="tns:customer"/>
+      <xs:field xpath="@id"/>
+    </xs:key>
+    <xs:keyref name="orderCustomer" refer="tns:customerKey">
+      <xs:selector xpath="order"/>
+      <xs:field xpath="@customer"/>
+    </xs:keyref>
+  </xs:element>
+  <xs:element name="customer">
+    <xs:complexType>
+      <xs:attribute name="id" type="xs:string"/>
+      <xs:attribute name="region" type="xs:string"/>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`;
+
+const ORDER_ID = "/element:orders/anonymousComplexType[0]/sequence/element:order";
+
+describe("Identity Constraint Validators", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, ORDERS_SCHEMA);
+  });
+
+  /** Builds an addIdentityConstraint command for a key on the customer element. */
+  function addCommand(
+    overrides: Partial<AddIdentityConstraintPayload> = {}
+  ): AddIdentityConstraintCommand {
+    return {
+      type: "addIdentityConstraint",
+      payload: {
+        parentId: "/element:customer",
+        kind: "key",
+        constraintName: "regionKey",
+        selector: ".",
+        fields: ["@region"],
+        ...overrides,
+      },
+    };
+  }
+
+  /** Builds a modifyIdentityConstraint command. */
+  function modifyCommand(
+    payload: ModifyIdentityConstraintPayload
+  ): ModifyIdentityConstraintCommand {
+    return { type: "modifyIdentityConstraint", payload };
+  }
+
+  /** Builds a removeIdentityConstraint command. */
+  function removeCommand(constraintId: string): RemoveIdentityConstraintCommand {
+    return { type: "removeIdentityConstraint", payload: { constraintId } };
+  }
+
+  describe("validateAddIdentityConstraint", () => {
+    test("should accept a key on a top-level element", () => {
+      expect(validateAddIdentityConstraint(addCommand(), schemaObj).valid).toBe(true);
+    });
+
+    test("should accept a unique constraint on a local element", () => {
+      const command = addCommand({
+        parentId: ORDER_ID,
+        kind: "unique",
+        constraintName: "lineId",
+        selector: ".//line",
+        fields: ["@number"],
+      });
+
+      expect(validateAddIdentityConstraint(command, schemaObj).valid).toBe(true);
+    });
+
+    test("should accept a keyref referring to a key by prefixed QName", () => {
+      const command = addCommand({
+        parentId: "/element:orders",
+        kind: "keyref",
+        constraintName: "orderRef",
+        selector: "order",
+        fields: ["@id"],
+        refer: "tns:orderKey",
+      });
+
+      expect(validateAddIdentityConstraint(command, schemaObj).valid).toBe(true);
+    });
+
+    test("should reject an empty parent ID", () => {
+      const result = validateAddIdentityConstraint(addCommand({ parentId: " " }), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("Parent ID cannot be empty");
+    });
+
+    test("should reject an unknown kind", () => {
+      const command = addCommand();
+      // eslint-disable-next-line no-restricted-syntax -- simulates an untyped message from the webview
+      command.payload.kind = "primary" as unknown as AddIdentityConstraintPayload["kind"];
+
+      const result = validateAddIdentityConstraint(command, schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("Identity constraint kind must be one of: unique, key, keyref");
+    });
+
+    test("should reject a parent that does not exist", () => {
+      const result = validateAddIdentityConstraint(
+        addCommand({ parentId: "/element:missing" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe("Parent node not found: /element:missing");
+    });
+
+    test("should reject a parent that is not an element", () => {
+      const result = validateAddIdentityConstraint(
+        addCommand({ parentId: "/element:orders/anonymousComplexType[0]/sequence" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Identity constraints can only be added to elements, not to: sequence"
+      );
+    });
+
+    test("should reject an element reference", () => {
+      const result = validateAddIdentityConstraint(
+        addCommand({
+          parentId: "/element:orders/anonymousComplexType[0]/sequence/element:tns:customer",
+        }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe("Cannot add an identity constraint to an element reference");
+    });
+
+    test("should reject an invalid name", () => {
+      const result = validateAddIdentityConstraint(
+        addCommand({ constraintName: "1key" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe("Identity constraint name must be a valid XML name");
+    });
+
+    test("should reject a name used by a constraint on another element", () => {
+      const result = validateAddIdentityConstraint(
+        addCommand({ constraintName: "lineNumber" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Duplicate identity constraint name 'lineNumber': identity constraint names must be unique within the schema"
+      );
+    });
+
+    test.each(["", "../order", "order[1]", "/orders", "@id"])(
+      "should reject the selector %j",
+      (selector) => {
+        const result = validateAddIdentityConstraint(addCommand({ selector }), schemaObj);
+        expectInvalid(result);
+        expect(result.error).toBe(
+          `Invalid selector XPath '${selector}': must be a path of element steps such as './/item' or 'a/b'`
+        );
+      }
+    );
+
+    test("should reject a constraint without fields", () => {
+      const result = validateAddIdentityConstraint(addCommand({ fields: [] }), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("Identity constraint must have at least one field");
+    });
+
+    test("should reject a field with an attribute step before the end", () => {
+      const result = validateAddIdentityConstraint(
+        addCommand({ fields: ["@region", "@id/name"] }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Invalid field XPath '@id/name': must be a path of element steps optionally ending in an attribute, such as '@id' or 'a/@b'"
+      );
+    });
+
+    test("should reject refer on a key", () => {
+      const result = validateAddIdentityConstraint(
+        addCommand({ refer: "tns:orderKey" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe("Only keyref constraints can refer to another constraint");
+    });
+
+    test("should reject a keyref without refer", () => {
+      const result = validateAddIdentityConstraint(addCommand({ kind: "keyref" }), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("A keyref must refer to a key or unique constraint");
+    });
+
+    test("should reject a keyref referring to a missing constraint", () => {
+      const result = validateAddIdentityConstraint(
+        addCommand({ kind: "keyref", refer: "tns:regionKey" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Referenced key or unique constraint 'regionKey' does not exist in schema"
+      );
+    });
+
+    test("should reject a keyref referring to another keyref", () => {
+      const result = validateAddIdentityConstraint(
+        addCommand({ kind: "keyref", refer: "tns:orderCustomer" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Keyref must refer to a key or unique constraint, but 'orderCustomer' is a keyref"
+      );
+    });
+
+    test("should reject a keyref whose field count differs from the referenced constraint", () => {
+      const result = validateAddIdentityConstraint(
+        addCommand({ kind: "keyref", refer: "tns:customerKey", fields: ["@id", "@region"] }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Keyref has 2 field(s) but referenced constraint 'customerKey' has 1"
+      );
+    });
+
+    test("should reject an invalid refer QName", () => {
+      const result = validateAddIdentityConstraint(
+        addCommand({ kind: "keyref", refer: "a:b:c" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe("Keyref refer must be a valid QName");
+    });
+  });
+
+  describe("validateRemoveIdentityConstraint", () => {
+    test("should accept removing a keyref", () => {
+      const result = validateRemoveIdentityConstraint(
+        removeCommand("/element:orders/keyref:orderCustomer"),
+        schemaObj
+      );
+      expect(result.valid).toBe(true);
+    });
+
+    test("should accept removing a key no keyref refers to", () => {
+      const result = validateRemoveIdentityConstraint(
+        removeCommand("/element:orders/key:orderKey"),
+        schemaObj
+      );
+      expect(result.valid).toBe(true);
+    });
+
+    test("should reject removing a key a keyref refers to", () => {
+      const result = validateRemoveIdentityConstraint(
+        removeCommand("/element:orders/key:customerKey"),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Cannot remove identity constraint 'customerKey': keyref 'orderCustomer' refers to it"
+      );
+    });
+
+    test("should reject an empty constraint ID", () => {
+      const result = validateRemoveIdentityConstraint(removeCommand(""), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("Constraint ID cannot be empty");
+    });
+
+    test("should reject an ID that is not an identity constraint", () => {
+      const result = validateRemoveIdentityConstraint(removeCommand("/element:orders"), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("Not an identity constraint ID: /element:orders");
+    });
+
+    test("should reject a constraint that does not exist", () => {
+      const result = validateRemoveIdentityConstraint(
+        removeCommand("/element:orders/unique:orderKey"),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe("Identity constraint not found: /element:orders/unique:orderKey");
+    });
+  });
+
+  describe("validateModifyIdentityConstraint", () => {
+    test("should accept renaming a constraint", () => {
+      const result = validateModifyIdentityConstraint(
+        modifyCommand({ constraintId: "/element:orders/key:customerKey", constraintName: "custKey" }),
+        schemaObj
+      );
+      expect(result.valid).toBe(true);
+    });
+
+    test("should accept keeping the constraint's own name", () => {
+      const result = validateModifyIdentityConstraint(
+        modifyCommand({ constraintId: "/element:orders/key:orderKey", constraintName: "orderKey" }),
+        schemaObj
+      );
+      expect(result.valid).toBe(true);
+    });
+
+    test("should reject renaming to the name of another constraint", () => {
+      const result = validateModifyIdentityConstraint(
+        modifyCommand({ constraintId: "/element:orders/key:orderKey", constraintName: "lineNumber" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Duplicate identity constraint name 'lineNumber': identity constraint names must be unique within the schema"
+      );
+    });
+
+    test("should reject an invalid selector", () => {
+      const result = validateModifyIdentityConstraint(
+        modifyCommand({ constraintId: `${ORDER_ID}/unique:lineNumber`, selector: "line[@number]" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toContain("Invalid selector XPath 'line[@number]'");
+    });
+
+    test("should reject refer on a key", () => {
+      const result = validateModifyIdentityConstraint(
+        modifyCommand({ constraintId: "/element:orders/key:orderKey", refer: "tns:customerKey" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe("Only keyref constraints can refer to another constraint");
+    });
+
+    test("should accept changing the fields of a key no keyref refers to", () => {
+      const result = validateModifyIdentityConstraint(
+        modifyCommand({ constraintId: "/element:orders/key:orderKey", fields: ["@id", "@customer"] }),
+        schemaObj
+      );
+      expect(result.valid).toBe(true);
+    });
+
+    test("should reject changing the field count of a key a keyref refers to", () => {
+      const result = validateModifyIdentityConstraint(
+        modifyCommand({
+          constraintId: "/element:orders/key:customerKey",
+          fields: ["@id", "@region"],
+        }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Cannot change the number of fields of 'customerKey': keyref 'orderCustomer' refers to it with 1 field(s)"
+      );
+    });
+
+    test("should accept pointing a keyref at another key", () => {
+      const result = validateModifyIdentityConstraint(
+        modifyCommand({ constraintId: "/element:orders/keyref:orderCustomer", refer: "orderKey" }),
+        schemaObj
+      );
+      expect(result.valid).toBe(true);
+    });
+
+    test("should reject keyref fields that no longer match the referenced constraint", () => {
+      const result = validateModifyIdentityConstraint(
+        modifyCommand({
+          constraintId: "/element:orders/keyref:orderCustomer",
+          fields: ["@customer", "@id"],
+        }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Keyref has 2 field(s) but referenced constraint 'customerKey' has 1"
+      );
+    });
+  });
+});
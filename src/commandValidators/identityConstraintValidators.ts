@@ -0,0 +1,293 @@
+/**
+ * Validators for identity constraint commands (xs:key, xs:unique, xs:keyref).
+ *
+ * Identity constraint names share one symbol space across the whole schema,
+ * so duplicates are checked against every constraint, not only those of the
+ * same element. A keyref must refer to a key or unique constraint with the
+ * same number of fields.
+ */
+
+import {
+  schema,
+  AddIdentityConstraintCommand,
+  RemoveIdentityConstraintCommand,
+  ModifyIdentityConstraintCommand,
+  keyrefType,
+  keybase,
+  localElement,
+} from "../../shared/types";
+import {
+  ValidationResult,
+  isValidXmlName,
+  isValidSelectorXPath,
+  isValidFieldXPath,
+} from "./validationUtils";
+import { locateNodeById } from "../schemaNavigator";
+import {
+  IDENTITY_CONSTRAINT_KINDS,
+  collectIdentityConstraints,
+  isElementParentType,
+  isIdentityConstraintKind,
+  localNameOfQName,
+  locateIdentityConstraint,
+} from "../commandExecutors/identityConstraintUtils";
+
+// ===== Helpers =====
+
+/**
+ * Validates the constraint name and checks that no other constraint in the
+ * schema uses it.
+ *
+ * @param name - The constraint name
+ * @param schemaObj - The schema
+ * @param self - The constraint being renamed, which may keep its own name
+ */
+function validateConstraintName(
+  name: string,
+  schemaObj: schema,
+  self?: keybase
+): ValidationResult {
+  if (!isValidXmlName(name)) {
+    return { valid: false, error: "Identity constraint name must be a valid XML name" };
+  }
+  const duplicate = collectIdentityConstraints(schemaObj).some(
+    ({ constraint }) => constraint !== self && constraint.name === name
+  );
+  if (duplicate) {
+    return {
+      valid: false,
+      error: `Duplicate identity constraint name '${name}': identity constraint names must be unique within the schema`,
+    };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validates the selector XPath and the field XPaths.
+ */
+function validateXPaths(
+  selector: string | undefined,
+  fields: string[] | undefined
+): ValidationResult {
+  if (selector !== undefined && !isValidSelectorXPath(selector)) {
+    return {
+      valid: false,
+      error: `Invalid selector XPath '${selector}': must be a path of element steps such as './/item' or 'a/b'`,
+    };
+  }
+  if (fields !== undefined) {
+    if (!Array.isArray(fields) || fields.length === 0) {
+      return { valid: false, error: "Identity constraint must have at least one field" };
+    }
+    const invalid = fields.find((field) => !isValidFieldXPath(field));
+    if (invalid !== undefined) {
+      return {
+        valid: false,
+        error: `Invalid field XPath '${invalid}': must be a path of element steps optionally ending in an attribute, such as '@id' or 'a/@b'`,
+      };
+    }
+  }
+  return { valid: true };
+}
+
+/**
+ * Validates that a keyref's `refer` resolves to a key or unique constraint
+ * with the same number of fields.
+ *
+ * @param refer - QName of the referred constraint
+ * @param fieldCount - Number of fields of the keyref
+ * @param schemaObj - The schema
+ */
+function validateRefer(refer: string, fieldCount: number, schemaObj: schema): ValidationResult {
+  const parts = refer.split(":");
+  if (parts.length > 2 || !parts.every(isValidXmlName)) {
+    return { valid: false, error: "Keyref refer must be a valid QName" };
+  }
+  const referName = localNameOfQName(refer);
+
+  const target = collectIdentityConstraints(schemaObj).find(
+    ({ constraint }) => constraint.name === referName
+  );
+  if (!target) {
+    return {
+      valid: false,
+      error: `Referenced key or unique constraint '${referName}' does not exist in schema`,
+    };
+  }
+  if (target.kind === "keyref") {
+    return {
+      valid: false,
+      error: `Keyref must refer to a key or unique constraint, but '${referName}' is a keyref`,
+    };
+  }
+  const targetFieldCount = target.constraint.field?.length ?? 0;
+  if (targetFieldCount !== fieldCount) {
+    return {
+      valid: false,
+      error: `Keyref has ${fieldCount} field(s) but referenced constraint '${referName}' has ${targetFieldCount}`,
+    };
+  }
+  return { valid: true };
+}
+
+/**
+ * Finds the keyrefs that refer to a key or unique constraint by name.
+ */
+function findReferringKeyrefs(name: string, schemaObj: schema): keyrefType[] {
+  return collectIdentityConstraints(schemaObj)
+    .filter(({ kind }) => kind === "keyref")
+    .map(({ constraint }) => constraint as keyrefType)
+    .filter((keyref) => localNameOfQName(keyref.refer) === name);
+}
+
+// ===== Identity Constraint Validators =====
+
+/**
+ * Validates an addIdentityConstraint command.
+ *
+ * @param command - The command to validate
+ * @param schemaObj - The schema to validate against
+ * @returns Validation result
+ */
+export function validateAddIdentityConstraint(
+  command: AddIdentityConstraintCommand,
+  schemaObj: schema
+): ValidationResult {
+  const { parentId, kind, constraintName, selector, fields, refer } = command.payload;
+
+  if (!parentId.trim()) {
+    return { valid: false, error: "Parent ID cannot be empty" };
+  }
+  if (!isIdentityConstraintKind(kind)) {
+    return {
+      valid: false,
+      error: `Identity constraint kind must be one of: ${IDENTITY_CONSTRAINT_KINDS.join(", ")}`,
+    };
+  }
+
+  const location = locateNodeById(schemaObj, parentId);
+  if (!location.found) {
+    return { valid: false, error: `Parent node not found: ${parentId}` };
+  }
+  if (!isElementParentType(location.parentType)) {
+    return {
+      valid: false,
+      error: `Identity constraints can only be added to elements, not to: ${location.parentType ?? ""}`,
+    };
+  }
+  if ((location.parent as localElement).ref !== undefined) {
+    return { valid: false, error: "Cannot add an identity constraint to an element reference" };
+  }
+
+  const nameValidation = validateConstraintName(constraintName, schemaObj);
+  if (!nameValidation.valid) {
+    return nameValidation;
+  }
+
+  const xpathValidation = validateXPaths(selector ?? "", fields ?? []);
+  if (!xpathValidation.valid) {
+    return xpathValidation;
+  }
+
+  if (kind !== "keyref") {
+    return refer === undefined
+      ? { valid: true }
+      : { valid: false, error: "Only keyref constraints can refer to another constraint" };
+  }
+  if (!refer) {
+    return { valid: false, error: "A keyref must refer to a key or unique constraint" };
+  }
+  return validateRefer(refer, fields.length, schemaObj);
+}
+
+/**
+ * Validates a removeIdentityConstraint command.
+ * A key or unique constraint cannot be removed while a keyref refers to it.
+ *
+ * @param command - The command to validate
+ * @param schemaObj - The schema to validate against
+ * @returns Validation result
+ */
+export function validateRemoveIdentityConstraint(
+  command: RemoveIdentityConstraintCommand,
+  schemaObj: schema
+): ValidationResult {
+  const { constraintId } = command.payload;
+
+  if (!constraintId.trim()) {
+    return { valid: false, error: "Constraint ID cannot be empty" };
+  }
+  const location = locateIdentityConstraint(schemaObj, constraintId);
+  if (!location.found) {
+    return { valid: false, error: location.error };
+  }
+
+  if (location.kind !== "keyref") {
+    const [keyref] = findReferringKeyrefs(location.constraint.name, schemaObj);
+    if (keyref) {
+      return {
+        valid: false,
+        error: `Cannot remove identity constraint '${location.constraint.name}': keyref '${keyref.name}' refers to it`,
+      };
+    }
+  }
+  return { valid: true };
+}
+
+/**
+ * Validates a modifyIdentityConstraint command.
+ *
+ * @param command - The command to validate
+ * @param schemaObj - The schema to validate against
+ * @returns Validation result
+ */
+export function validateModifyIdentityConstraint(
+  command: ModifyIdentityConstraintCommand,
+  schemaObj: schema
+): ValidationResult {
+  const { constraintId, constraintName, selector, fields, refer } = command.payload;
+
+  if (!constraintId.trim()) {
+    return { valid: false, error: "Constraint ID cannot be empty" };
+  }
+  const location = locateIdentityConstraint(schemaObj, constraintId);
+  if (!location.found) {
+    return { valid: false, error: location.error };
+  }
+  const { kind, constraint } = location;
+
+  if (constraintName !== undefined) {
+    const nameValidation = validateConstraintName(constraintName, schemaObj, constraint);
+    if (!nameValidation.valid) {
+      return nameValidation;
+    }
+  }
+
+  const xpathValidation = validateXPaths(selector, fields);
+  if (!xpathValidation.valid) {
+    return xpathValidation;
+  }
+
+  const fieldCount = fields?.length ?? constraint.field?.length ?? 0;
+  if (kind !== "keyref") {
+    if (refer !== undefined) {
+      return { valid: false, error: "Only keyref constraints can refer to another constraint" };
+    }
+    // Keyrefs referring to this constraint must keep the same number of fields
+    const mismatched = findReferringKeyrefs(constraint.name, schemaObj).find(
+      (keyref) => (keyref.field?.length ?? 0) !== fieldCount
+    );
+    if (mismatched) {
+      return {
+        valid: false,
+        error: `Cannot change the number of fields of '${constraint.name}': keyref '${mismatched.name}' refers to it with ${mismatched.field?.length ?? 0} field(s)`,
+      };
+    }
+    return { valid: true };
+  }
+
+  if (refer === undefined && fields === undefined) {
+    return { valid: true };
+  }
+  return validateRefer(refer ?? (constraint as keyrefType).refer, fieldCount, schemaObj);
+}
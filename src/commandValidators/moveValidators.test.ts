@@ -0,0 +1,225 @@
+/**
+ * Unit tests for the moveNode validator.
+ * Tests the accepted targets of each movable kind, index ranges, duplicate
+ * names, moves into a compositor's own subtree and the xs:all rules.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import { schema, MoveNodeCommand, MoveNodePayload } from "../../shared/types";
+import { validateMoveNode } from "./moveValidators";
+import { expectInvalid } from "./validationTestHelpers";
+
+const PERSON_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:complexType name="PersonType">
+    <xs:sequence>
+      <xs:element name="firstName" type="xs:string"/>
+      <xs:element name="lastName" type="xs:string"/>
+      <xs:element name="phone" type="xs:string" maxOccurs="unbounded"/>
+      <xs:group ref="AddressGroup"/>
+      <xs:choice>
+        <xs:element name="email" type="xs:string"/>
+        <xs:element name="fax" type="xs:string"/>
+      </xs:choice>
+    </xs:sequence>
+    <xs:attribute name="id" type="xs:ID"/>
+    <xs:attribute name="lang" type="xs:language"/>
+  </xs:complexType>
+  <xs:complexType name="ContactType">
+    <xs:all>
+      <xs:element name="email" type="xs:string" minOccurs="0"/>
+    </xs:all>
+    <xs:attribute name="id" type="xs:ID"/>
+  </xs:complexType>
+  <xs:group name="AddressGroup">
+    <xs:sequence>
+      <xs:element name="street" type="xs:string"/>
+    </xs:sequence>
+  </xs:group>
+  <xs:attributeGroup name="CommonAttributes">
+    <xs:attribute name="version" type="xs:string"/>
+  </xs:attributeGroup>
+</xs:schema>`;
+
+const PERSON_SEQUENCE_ID = "/complexType:PersonType/sequence";
+const CHOICE_ID = `${PERSON_SEQUENCE_ID}/choice[0]`;
+const CONTACT_ALL_ID = "/complexType:ContactType/all";
+
+describe("Move Validators", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, PERSON_SCHEMA);
+  });
+
+  /** Builds a moveNode command. */
+  function moveCommand(payload: MoveNodePayload): MoveNodeCommand {
+    return { type: "moveNode", payload };
+  }
+
+  describe("validateMoveNode", () => {
+    test("should accept reordering an element within its sequence", () => {
+      const result = validateMoveNode(
+        moveCommand({
+          nodeId: `${PERSON_SEQUENCE_ID}/element:lastName[1]`,
+          newParentId: PERSON_SEQUENCE_ID,
+          index: 0,
+        }),
+        schemaObj
+      );
+      expect(result.valid).toBe(true);
+    });
+
+    test("should accept moving an element into another compositor without an index", () => {
+      const result = validateMoveNode(
+        moveCommand({ nodeId: `${PERSON_SEQUENCE_ID}/element:firstName[0]`, newParentId: CHOICE_ID }),
+        schemaObj
+      );
+      expect(result.valid).toBe(true);
+    });
+
+    test("should accept moving a group reference, a compositor and an attribute", () => {
+      const commands: MoveNodePayload[] = [
+        { nodeId: `${PERSON_SEQUENCE_ID}/groupRef:AddressGroup[0]`, newParentId: CHOICE_ID, index: 0 },
+        { nodeId: CHOICE_ID, newParentId: "/group:AddressGroup/sequence" },
+        { nodeId: "/complexType:PersonType/attribute:lang", newParentId: "/attributeGroup:CommonAttributes" },
+      ];
+      for (const payload of commands) {
+        expect(validateMoveNode(moveCommand(payload), schemaObj).valid).toBe(true);
+      }
+    });
+
+    test("should reject empty IDs and invalid indexes", () => {
+      const nodeId = `${PERSON_SEQUENCE_ID}/element:lastName[1]`;
+      const cases: [MoveNodePayload, string][] = [
+        [{ nodeId: " ", newParentId: PERSON_SEQUENCE_ID }, "Node ID cannot be empty"],
+        [{ nodeId, newParentId: "" }, "New parent ID cannot be empty"],
+        [{ nodeId, newParentId: PERSON_SEQUENCE_ID, index: -1 }, "Index must be a non-negative integer"],
+        [{ nodeId, newParentId: PERSON_SEQUENCE_ID, index: 0.5 }, "Index must be a non-negative integer"],
+      ];
+      for (const [payload, error] of cases) {
+        const result = validateMoveNode(moveCommand(payload), schemaObj);
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+
+    test("should reject a node that does not exist", () => {
+      const result = validateMoveNode(
+        moveCommand({ nodeId: `${PERSON_SEQUENCE_ID}/element:middleName`, newParentId: CHOICE_ID }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(`Node not found: ${PERSON_SEQUENCE_ID}/element:middleName`);
+    });
+
+    test("should reject nodes that cannot be moved", () => {
+      const typeResult = validateMoveNode(
+        moveCommand({ nodeId: "/complexType:PersonType", newParentId: CHOICE_ID }),
+        schemaObj
+      );
+      expectInvalid(typeResult);
+      expect(typeResult.error).toBe(
+        "Only elements, group references, compositors and attributes can be moved: /complexType:PersonType"
+      );
+
+      const contentModelResult = validateMoveNode(
+        moveCommand({ nodeId: PERSON_SEQUENCE_ID, newParentId: "/group:AddressGroup/sequence" }),
+        schemaObj
+      );
+      expectInvalid(contentModelResult);
+      expect(contentModelResult.error).toBe(
+        `Only compositors nested in a sequence or choice can be moved: ${PERSON_SEQUENCE_ID}`
+      );
+    });
+
+    test("should reject targets that do not accept the node kind", () => {
+      const cases: [MoveNodePayload, string][] = [
+        [
+          { nodeId: `${PERSON_SEQUENCE_ID}/element:firstName[0]`, newParentId: "/complexType:ContactType" },
+          "Elements can only be moved into a sequence, choice or all, not into: topLevelComplexType",
+        ],
+        [
+          { nodeId: `${PERSON_SEQUENCE_ID}/groupRef:AddressGroup[0]`, newParentId: CONTACT_ALL_ID },
+          "Group references can only be moved into a sequence or choice, not into: all",
+        ],
+        [
+          { nodeId: CHOICE_ID, newParentId: CONTACT_ALL_ID },
+          "Compositors can only be moved into a sequence or choice, not into: all",
+        ],
+        [
+          { nodeId: "/complexType:PersonType/attribute:lang", newParentId: PERSON_SEQUENCE_ID },
+          "Attributes can only be moved into complex types or attribute groups, not into: sequence",
+        ],
+        [
+          { nodeId: "/complexType:PersonType/attribute:lang", newParentId: "/complexType:MissingType" },
+          "Target parent not found: /complexType:MissingType",
+        ],
+      ];
+      for (const [payload, error] of cases) {
+        const result = validateMoveNode(moveCommand(payload), schemaObj);
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+
+    test("should reject moving a compositor into itself", () => {
+      const result = validateMoveNode(
+        moveCommand({ nodeId: CHOICE_ID, newParentId: CHOICE_ID }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe("Cannot move a compositor into itself or one of its nested compositors");
+    });
+
+    test("should reject an index beyond the nodes of the same kind", () => {
+      const nodeId = `${PERSON_SEQUENCE_ID}/element:lastName[1]`;
+      expect(
+        validateMoveNode(moveCommand({ nodeId, newParentId: PERSON_SEQUENCE_ID, index: 2 }), schemaObj).valid
+      ).toBe(true);
+
+      const result = validateMoveNode(
+        moveCommand({ nodeId, newParentId: PERSON_SEQUENCE_ID, index: 3 }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe("Index 3 is out of range: the new parent has 2 elements");
+    });
+
+    test("should reject duplicate element and attribute names in the new parent", () => {
+      const elementResult = validateMoveNode(
+        moveCommand({ nodeId: `${CHOICE_ID}/element:email[0]`, newParentId: CONTACT_ALL_ID }),
+        schemaObj
+      );
+      expectInvalid(elementResult);
+      expect(elementResult.error).toBe("Cannot move element: duplicate element name 'email' in all");
+
+      const attributeResult = validateMoveNode(
+        moveCommand({ nodeId: "/complexType:PersonType/attribute:id", newParentId: "/complexType:ContactType" }),
+        schemaObj
+      );
+      expectInvalid(attributeResult);
+      expect(attributeResult.error).toBe(
+        "Cannot move attribute: duplicate attribute name 'id' in topLevelComplexType"
+      );
+    });
+
+    test("should only move elements that occur at most once into an xs:all", () => {
+      expect(
+        validateMoveNode(
+          moveCommand({ nodeId: `${PERSON_SEQUENCE_ID}/element:firstName[0]`, newParentId: CONTACT_ALL_ID }),
+          schemaObj
+        ).valid
+      ).toBe(true);
+
+      const result = validateMoveNode(
+        moveCommand({ nodeId: `${PERSON_SEQUENCE_ID}/element:phone[2]`, newParentId: CONTACT_ALL_ID }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Elements in an xs:all can occur at most once: 'phone' has maxOccurs unbounded"
+      );
+    });
+  });
+});
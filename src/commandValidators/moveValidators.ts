@@ -0,0 +1,125 @@
+/**
+ * Validators for the moveNode command.
+ *
+ * Checks that the new parent accepts the kind of the moved node, that the
+ * position is within the nodes of the same kind in the new parent, that no
+ * duplicate element or attribute names arise and that a compositor is not
+ * moved into its own subtree. Elements moved into an xs:all must occur at
+ * most once.
+ */
+
+import { schema, MoveNodeCommand } from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import { ValidationResult } from "./validationUtils";
+import { validateAllElementOccurrence } from "./compositorValidators";
+import {
+  MovableKind,
+  MovableNode,
+  locateMovableNode,
+  locateMoveTarget,
+  subtreeContains,
+} from "../commandExecutors/moveUtils";
+
+/** Plural labels of the movable kinds, used in error messages. */
+const KIND_LABELS: Record<MovableKind, string> = {
+  element: "elements",
+  groupRef: "group references",
+  compositor: "compositors of this kind",
+  attribute: "attributes",
+};
+
+// ===== Helpers =====
+
+/**
+ * Validates that a moved element or attribute does not duplicate the name or
+ * reference of a sibling in its new parent.
+ *
+ * @param kind - Kind of the moved node
+ * @param node - The moved node
+ * @param siblings - Nodes of the same kind in the new parent, without the moved node
+ * @param containerType - Type of the new parent
+ */
+function validateUniqueName(
+  kind: "element" | "attribute",
+  node: MovableNode,
+  siblings: MovableNode[],
+  containerType: string
+): ValidationResult {
+  if (node.name && siblings.some((sibling) => sibling.name === node.name)) {
+    return {
+      valid: false,
+      error: `Cannot move ${kind}: duplicate ${kind} name '${node.name}' in ${containerType}`,
+    };
+  }
+  if (node.ref && siblings.some((sibling) => sibling.ref === node.ref)) {
+    return {
+      valid: false,
+      error: `Cannot move ${kind}: duplicate ${kind} reference '${node.ref}' in ${containerType}`,
+    };
+  }
+  return { valid: true };
+}
+
+// ===== Move Validators =====
+
+/**
+ * Validates a moveNode command.
+ *
+ * @param command - The command to validate
+ * @param schemaObj - The schema to validate against
+ * @returns Validation result
+ */
+export function validateMoveNode(command: MoveNodeCommand, schemaObj: schema): ValidationResult {
+  const { nodeId, newParentId, index } = command.payload;
+
+  if (!nodeId.trim()) {
+    return { valid: false, error: "Node ID cannot be empty" };
+  }
+  if (!newParentId.trim()) {
+    return { valid: false, error: "New parent ID cannot be empty" };
+  }
+  if (index !== undefined && (!Number.isInteger(index) || index < 0)) {
+    return { valid: false, error: "Index must be a non-negative integer" };
+  }
+
+  const source = locateMovableNode(schemaObj, nodeId);
+  if (!source.found) {
+    return { valid: false, error: source.error };
+  }
+  const target = locateMoveTarget(schemaObj, newParentId, source);
+  if (!target.found) {
+    return { valid: false, error: target.error };
+  }
+  if (source.kind === "compositor" && subtreeContains(source.node, target.container)) {
+    return {
+      valid: false,
+      error: "Cannot move a compositor into itself or one of its nested compositors",
+    };
+  }
+
+  const siblings = toArray(target.container[target.slot]).filter(
+    (sibling) => sibling !== source.node
+  );
+  if (index !== undefined && index > siblings.length) {
+    return {
+      valid: false,
+      error: `Index ${index} is out of range: the new parent has ${siblings.length} ${KIND_LABELS[source.kind]}`,
+    };
+  }
+
+  if (source.kind === "element" || source.kind === "attribute") {
+    const nameValidation = validateUniqueName(
+      source.kind,
+      source.node,
+      siblings,
+      target.containerType
+    );
+    if (!nameValidation.valid) {
+      return nameValidation;
+    }
+  }
+  if (source.kind === "element" && target.containerType === "all") {
+    return validateAllElementOccurrence(source.node);
+  }
+  return { valid: true };
+}
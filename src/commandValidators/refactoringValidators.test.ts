@@ -0,0 +1,328 @@
+/**
+ * Unit tests for the refactoring validators.
+ * Tests the component IDs that can be renamed, name validity and name
+ * conflicts within each symbol space, and the replacements the references of
+ * a safely deleted component can be retargeted to.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import {
+  schema,
+  RenameComponentCommand,
+  RenameComponentPayload,
+  SafeDeleteComponentCommand,
+  SafeDeleteComponentPayload,
+} from "../../shared/types";
+import { validateRenameComponent, validateSafeDeleteComponent } from "./refactoringValidators";
+import { expectInvalid } from "./validationTestHelpers";
+
+const ORDER_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="order" type="OrderType"/>
+  <xs:element name="note" type="xs:string"/>
+  <xs:attribute name="currency" type="xs:string"/>
+  <xs:complexType name="OrderType">
+    <xs:sequence>
+      <xs:element name="item" type="xs:string"/>
+    </xs:sequence>
+    <xs:attribute name="sku" type="SkuType"/>
+  </xs:complexType>
+  <xs:complexType name="RushOrderType">
+    <xs:complexContent>
+      <xs:extension base="OrderType"/>
+    </xs:complexContent>
+  </xs:complexType>
+  <xs:complexType name="PriceType">
+    <xs:simpleContent>
+      <xs:extension base="xs:decimal"/>
+    </xs:simpleContent>
+  </xs:complexType>
+  <xs:complexType name="AmountType">
+    <xs:simpleContent>
+      <xs:extension base="PriceType"/>
+    </xs:simpleContent>
+  </xs:complexType>
+  <xs:simpleType name="SkuType">
+    <xs:restriction base="xs:string"/>
+  </xs:simpleType>
+  <xs:group name="LineGroup">
+    <xs:sequence>
+      <xs:element name="line" type="xs:string"/>
+    </xs:sequence>
+  </xs:group>
+  <xs:attributeGroup name="PriceAttributes">
+    <xs:attribute name="amount" type="xs:decimal"/>
+  </xs:attributeGroup>
+</xs:schema>`;
+
+describe("Refactoring Validators", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, ORDER_SCHEMA);
+  });
+
+  /** Builds a renameComponent command. */
+  function renameCommand(payload: RenameComponentPayload): RenameComponentCommand {
+    return { type: "renameComponent", payload };
+  }
+
+  /** Builds a safeDeleteComponent command. */
+  function safeDeleteCommand(payload: SafeDeleteComponentPayload): SafeDeleteComponentCommand {
+    return { type: "safeDeleteComponent", payload };
+  }
+
+  describe("validateRenameComponent", () => {
+    test("should accept renaming each kind of top-level component", () => {
+      const payloads: RenameComponentPayload[] = [
+        { componentId: "/element:order", newName: "purchaseOrder" },
+        { componentId: "/attribute:currency", newName: "currencyCode" },
+        { componentId: "/complexType:OrderType", newName: "PurchaseOrderType" },
+        { componentId: "/simpleType:SkuType", newName: "StockKeepingUnit" },
+        { componentId: "/group:LineGroup", newName: "LineItems" },
+        { componentId: "/attributeGroup:PriceAttributes", newName: "Pricing" },
+      ];
+      for (const payload of payloads) {
+        expect(validateRenameComponent(renameCommand(payload), schemaObj).valid).toBe(true);
+      }
+    });
+
+    test("should accept keeping the current name", () => {
+      const result = validateRenameComponent(
+        renameCommand({ componentId: "/complexType:OrderType", newName: "OrderType" }),
+        schemaObj
+      );
+      expect(result.valid).toBe(true);
+    });
+
+    test("should reject an empty component ID and invalid names", () => {
+      const cases: [RenameComponentPayload, string][] = [
+        [{ componentId: " ", newName: "Order" }, "Component ID cannot be empty"],
+        [{ componentId: "/element:order", newName: "" }, "New name must be a valid XML name"],
+        [{ componentId: "/element:order", newName: "1order" }, "New name must be a valid XML name"],
+        [{ componentId: "/element:order", newName: "tns:order" }, "New name must be a valid XML name"],
+      ];
+      for (const [payload, error] of cases) {
+        const result = validateRenameComponent(renameCommand(payload), schemaObj);
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+
+    test("should reject components that are not top-level or do not exist", () => {
+      const localResult = validateRenameComponent(
+        renameCommand({
+          componentId: "/complexType:OrderType/sequence/element:item[0]",
+          newName: "lineItem",
+        }),
+        schemaObj
+      );
+      expectInvalid(localResult);
+      expect(localResult.error).toBe(
+        "Not a top-level element, attribute, type, group or attribute group: /complexType:OrderType/sequence/element:item[0]"
+      );
+
+      const missingResult = validateRenameComponent(
+        renameCommand({ componentId: "/group:Missing", newName: "Other" }),
+        schemaObj
+      );
+      expectInvalid(missingResult);
+      expect(missingResult.error).toBe("Component not found: /group:Missing");
+    });
+
+    test("should reject a name taken in the same symbol space", () => {
+      const cases: [RenameComponentPayload, string][] = [
+        [{ componentId: "/element:order", newName: "note" }, "Element 'note' already exists in schema"],
+        [
+          { componentId: "/simpleType:SkuType", newName: "OrderType" },
+          "Type 'OrderType' already exists in schema",
+        ],
+        [
+          { componentId: "/complexType:OrderType", newName: "SkuType" },
+          "Type 'SkuType' already exists in schema",
+        ],
+      ];
+      for (const [payload, error] of cases) {
+        const result = validateRenameComponent(renameCommand(payload), schemaObj);
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+
+    test("should allow a name used in another symbol space", () => {
+      const result = validateRenameComponent(
+        renameCommand({ componentId: "/group:LineGroup", newName: "OrderType" }),
+        schemaObj
+      );
+      expect(result.valid).toBe(true);
+    });
+  });
+
+  describe("validateSafeDeleteComponent", () => {
+    test("should accept deleting each kind of top-level component with its dependants", () => {
+      const componentIds = [
+        "/element:order",
+        "/attribute:currency",
+        "/complexType:OrderType",
+        "/simpleType:SkuType",
+        "/group:LineGroup",
+        "/attributeGroup:PriceAttributes",
+      ];
+      for (const componentId of componentIds) {
+        const command = safeDeleteCommand({ componentId, strategy: "cascade" });
+        expect(validateSafeDeleteComponent(command, schemaObj).valid).toBe(true);
+      }
+    });
+
+    test("should accept retargeting to built-in types and components of the same symbol space", () => {
+      const payloads: SafeDeleteComponentPayload[] = [
+        { componentId: "/simpleType:SkuType", strategy: "retarget", replacement: "xs:token" },
+        { componentId: "/complexType:OrderType", strategy: "retarget", replacement: "xs:anyType" },
+        { componentId: "/complexType:PriceType", strategy: "retarget", replacement: "xs:decimal" },
+        { componentId: "/element:order", strategy: "retarget", replacement: "note" },
+      ];
+      for (const payload of payloads) {
+        expect(validateSafeDeleteComponent(safeDeleteCommand(payload), schemaObj).valid).toBe(true);
+      }
+    });
+
+    test("should reject empty component IDs, unknown strategies and missing components", () => {
+      const cases: [SafeDeleteComponentPayload, string][] = [
+        [{ componentId: " ", strategy: "cascade" }, "Component ID cannot be empty"],
+        [
+          // eslint-disable-next-line no-restricted-syntax -- payloads from the webview are unchecked
+          { componentId: "/element:order", strategy: "keep" as unknown as "cascade" },
+          "Unknown safe delete strategy: keep",
+        ],
+        [{ componentId: "/group:Missing", strategy: "cascade" }, "Component not found: /group:Missing"],
+      ];
+      for (const [payload, error] of cases) {
+        const result = validateSafeDeleteComponent(safeDeleteCommand(payload), schemaObj);
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+
+    test("should reject missing, invalid and unsuitable replacements", () => {
+      const retarget = (componentId: string, replacement?: string): SafeDeleteComponentPayload => ({
+        componentId,
+        strategy: "retarget",
+        replacement,
+      });
+      const cases: [SafeDeleteComponentPayload, string][] = [
+        [retarget("/simpleType:SkuType"), "A replacement is required to retarget references"],
+        [retarget("/simpleType:SkuType", "1sku"), "Replacement must be a valid QName"],
+        [retarget("/simpleType:SkuType", "a:b:c"), "Replacement must be a valid QName"],
+        [
+          retarget("/simpleType:SkuType", "ext:Sku"),
+          "Undeclared namespace prefix in replacement: ext:Sku",
+        ],
+        [retarget("/simpleType:SkuType", "SkuType"), "Replacement cannot be the deleted component"],
+        [retarget("/simpleType:SkuType", "CodeType"), "Type 'CodeType' not found in schema"],
+        [retarget("/simpleType:SkuType", "xs:text"), "Unknown built-in type: xs:text"],
+        [
+          retarget("/group:LineGroup", "xs:string"),
+          "Only types can be replaced by built-in types: xs:string",
+        ],
+      ];
+      for (const [payload, error] of cases) {
+        const result = validateSafeDeleteComponent(safeDeleteCommand(payload), schemaObj);
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+
+    test("should reject type replacements that do not suit the usages of the type", () => {
+      const retarget = (componentId: string, replacement: string): SafeDeleteComponentPayload => ({
+        componentId,
+        strategy: "retarget",
+        replacement,
+      });
+      const cases: [SafeDeleteComponentPayload, string][] = [
+        [
+          retarget("/simpleType:SkuType", "OrderType"),
+          "A simple type is required where 'SkuType' is used: /complexType:OrderType/attribute:sku",
+        ],
+        [
+          retarget("/simpleType:SkuType", "xs:anyType"),
+          "A simple type is required where 'SkuType' is used: /complexType:OrderType/attribute:sku",
+        ],
+        [
+          retarget("/complexType:OrderType", "SkuType"),
+          "A complex type is required where 'OrderType' is used: /complexType:RushOrderType",
+        ],
+        [
+          retarget("/complexType:OrderType", "xs:string"),
+          "A complex type is required where 'OrderType' is used: /complexType:RushOrderType",
+        ],
+        [
+          retarget("/complexType:PriceType", "OrderType"),
+          "A simple type or a complex type with simple content is required where 'PriceType' is used: /complexType:AmountType",
+        ],
+      ];
+      for (const [payload, error] of cases) {
+        const result = validateSafeDeleteComponent(safeDeleteCommand(payload), schemaObj);
+        expectInvalid(result);
+        expect(result.error).toBe(error);
+      }
+    });
+
+    test("should check imports and keyrefs when retargeting", () => {
+      schemaObj = unmarshal(
+        schema,
+        `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:ext="urn:external"
+           xmlns:other="urn:other">
+  <xs:import namespace="urn:external" schemaLocation="external.xsd"/>
+  <xs:element name="products">
+    <xs:key name="productKey">
+      <xs:selector xpath="product"/>
+      <xs:field xpath="@id"/>
+    </xs:key>
+  </xs:element>
+  <xs:element name="catalog" type="ext:Catalog">
+    <xs:keyref name="productRef" refer="productKey">
+      <xs:selector xpath="item"/>
+      <xs:field xpath="@product"/>
+    </xs:keyref>
+  </xs:element>
+</xs:schema>`
+      );
+
+      const imported = validateSafeDeleteComponent(
+        safeDeleteCommand({
+          componentId: "/element:catalog",
+          strategy: "retarget",
+          replacement: "ext:catalog",
+        }),
+        schemaObj
+      );
+      expect(imported.valid).toBe(true);
+
+      const notImported = validateSafeDeleteComponent(
+        safeDeleteCommand({
+          componentId: "/element:catalog",
+          strategy: "retarget",
+          replacement: "other:catalog",
+        }),
+        schemaObj
+      );
+      expectInvalid(notImported);
+      expect(notImported.error).toBe("Namespace of replacement is not imported: urn:other");
+
+      const keyed = validateSafeDeleteComponent(
+        safeDeleteCommand({
+          componentId: "/element:products",
+          strategy: "retarget",
+          replacement: "catalog",
+        }),
+        schemaObj
+      );
+      expectInvalid(keyed);
+      expect(keyed.error).toBe(
+        "Element declares constraints referenced by keyrefs; delete its dependants instead"
+      );
+    });
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Validators for refactoring commands.
+ *
+ * A renamed component must keep a valid, unique name within its symbol
+ * space; simple and complex types share one symbol space. References of a
+ * safely deleted component can only be retargeted to a component of the same
+ * symbol space that exists in the schema, is built in or is imported. A type
+ * replacement must also suit every place the deleted type is used, e.g. a
+ * complex content base requires a complex type.
+ */
+
+import {
+  schema,
+  RenameComponentCommand,
+  SafeDeleteComponentCommand,
+} from "../../shared/types";
+import { toArray } from "../../shared/schemaUtils";
+import {
+  ValidationResult,
+  XSD_NAMESPACE,
+  isBuiltInXsdType,
+  isValidXmlName,
+} from "./validationUtils";
+import {
+  ComponentKind,
+  isComponentNameTaken,
+  locateComponent,
+  resolveQName,
+} from "../commandExecutors/componentReferences";
+import { RequiredType } from "../commandExecutors/schemaQNameTraversal";
+import { collectUsages, collectUsageSites } from "../componentUsages";
+
+/** Labels of the component kinds, used in error messages. */
+const KIND_LABELS: Record<ComponentKind, string> = {
+  element: "Element",
+  attribute: "Attribute",
+  complexType: "Type",
+  simpleType: "Type",
+  group: "Group",
+  attributeGroup: "Attribute group",
+};
+
+/** Labels of the kinds of type required where types are used, used in error messages. */
+const REQUIRED_TYPE_LABELS: Record<RequiredType, string> = {
+  simpleType: "A simple type",
+  complexType: "A complex type",
+  simpleContent: "A simple type or a complex type with simple content",
+};
+
+// ===== Refactoring Validators =====
+
+/**
+ * Validates a renameComponent command.
+ *
+ * @param command - The command to validate
+ * @param schemaObj - The schema to validate against
+ * @returns Validation result
+ */
+export function validateRenameComponent(
+  command: RenameComponentCommand,
+  schemaObj: schema
+): ValidationResult {
+  const { componentId, newName } = command.payload;
+
+  if (!componentId.trim()) {
+    return { valid: false, error: "Component ID cannot be empty" };
+  }
+  if (!isValidXmlName(newName)) {
+    return { valid: false, error: "New name must be a valid XML name" };
+  }
+
+  const location = locateComponent(schemaObj, componentId);
+  if (!location.found) {
+    return { valid: false, error: location.error };
+  }
+  if (location.component.name === newName) {
+    return { valid: true };
+  }
+  if (isComponentNameTaken(schemaObj, location.kind, newName)) {
+    return {
+      valid: false,
+      error: `${KIND_LABELS[location.kind]} '${newName}' already exists in schema`,
+    };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validates a safeDeleteComponent command.
+ *
+ * @param command - The command to validate
+ * @param schemaObj - The schema to validate against
+ * @returns Validation result
+ */
+export function validateSafeDeleteComponent(
+  command: SafeDeleteComponentCommand,
+  schemaObj: schema
+): ValidationResult {
+  const { componentId, strategy, replacement } = command.payload;
+
+  if (!componentId.trim()) {
+    return { valid: false, error: "Component ID cannot be empty" };
+  }
+  if (strategy !== "cascade" && strategy !== "retarget") {
+    return { valid: false, error: `Unknown safe delete strategy: ${String(strategy)}` };
+  }
+
+  const location = locateComponent(schemaObj, componentId);
+  if (!location.found) {
+    return { valid: false, error: location.error };
+  }
+  if (strategy === "cascade") {
+    return { valid: true };
+  }
+
+  const name = location.component.name ?? "";
+  if (location.kind === "element" && hasReferencedConstraints(schemaObj, componentId, name)) {
+    return {
+      valid: false,
+      error: "Element declares constraints referenced by keyrefs; delete its dependants instead",
+    };
+  }
+  return validateReplacement(schemaObj, location.kind, name, replacement);
+}
+
+/**
+ * Returns true if keyrefs outside a top-level element refer to its key or
+ * unique constraints. Keyrefs inside the element are deleted with it.
+ *
+ * @param schemaObj - The schema to search
+ * @param elementId - ID of the top-level element, e.g. "/element:orders"
+ * @param name - Name of the element
+ */
+function hasReferencedConstraints(schemaObj: schema, elementId: string, name: string): boolean {
+  const element = toArray(schemaObj.element).find((el) => el.name === name);
+  const isOutside = (nodeId: string): boolean =>
+    nodeId !== elementId && !nodeId.startsWith(`${elementId}/`);
+  return [...toArray(element?.key), ...toArray(element?.unique)].some((constraint) =>
+    collectUsages(schemaObj, "identityConstraint", constraint.name).some((usage) =>
+      isOutside(usage.nodeId)
+    )
+  );
+}
+
+/**
+ * Validates the replacement the references of a deleted component are
+ * retargeted to.
+ *
+ * @param schemaObj - The schema to validate against
+ * @param kind - Kind of the deleted component
+ * @param name - Name of the deleted component
+ * @param replacement - QName of the replacement component
+ * @returns Validation result
+ */
+function validateReplacement(
+  schemaObj: schema,
+  kind: ComponentKind,
+  name: string,
+  replacement: string | undefined
+): ValidationResult {
+  if (!replacement) {
+    return { valid: false, error: "A replacement is required to retarget references" };
+  }
+  const parts = replacement.split(":");
+  if (parts.length > 2 || !parts.every(isValidXmlName)) {
+    return { valid: false, error: "Replacement must be a valid QName" };
+  }
+
+  const { namespace, localName } = resolveQName(replacement, schemaObj);
+  if (namespace === undefined) {
+    return { valid: false, error: `Undeclared namespace prefix in replacement: ${replacement}` };
+  }
+  if (namespace === (schemaObj.targetNamespace ?? "")) {
+    if (localName === name) {
+      return { valid: false, error: "Replacement cannot be the deleted component" };
+    }
+    if (!isComponentNameTaken(schemaObj, kind, localName)) {
+      return {
+        valid: false,
+        error: `${KIND_LABELS[kind]} '${localName}' not found in schema`,
+      };
+    }
+  } else if (namespace === XSD_NAMESPACE) {
+    if (kind !== "simpleType" && kind !== "complexType") {
+      return {
+        valid: false,
+        error: `Only types can be replaced by built-in types: ${replacement}`,
+      };
+    }
+    if (!isBuiltInXsdType(replacement, schemaObj)) {
+      return { valid: false, error: `Unknown built-in type: ${replacement}` };
+    }
+  } else if (!toArray(schemaObj.import_).some((imp) => imp.namespace === namespace)) {
+    return { valid: false, error: `Namespace of replacement is not imported: ${namespace}` };
+  }
+
+  if (kind === "simpleType" || kind === "complexType") {
+    const unsuited = collectUsageSites(schemaObj, "type", name).find(
+      ({ requiredType }) =>
+        requiredType && !isTypeSuited(schemaObj, namespace, localName, requiredType)
+    );
+    if (unsuited?.requiredType) {
+      return {
+        valid: false,
+        error: `${REQUIRED_TYPE_LABELS[unsuited.requiredType]} is required where '${name}' is used: ${unsuited.nodeId}`,
+      };
+    }
+  }
+  return { valid: true };
+}
+
+/**
+ * Returns true if a type can be used where a kind of type is required.
+ * Types of imported namespaces cannot be inspected and are assumed to suit.
+ *
+ * @param schemaObj - The schema declaring the types of its target namespace
+ * @param namespace - Namespace of the type
+ * @param localName - Local name of the type
+ * @param requiredType - Kind of type required
+ */
+function isTypeSuited(
+  schemaObj: schema,
+  namespace: string,
+  localName: string,
+  requiredType: RequiredType
+): boolean {
+  if (namespace === XSD_NAMESPACE) {
+    // xs:anyType is the only built-in complex type
+    return (localName === "anyType") === (requiredType === "complexType");
+  }
+  if (namespace !== (schemaObj.targetNamespace ?? "")) {
+    return true;
+  }
+  const complexType = toArray(schemaObj.complexType).find((ct) => ct.name === localName);
+  if (!complexType) {
+    return requiredType !== "complexType";
+  }
+  return (
+    requiredType === "complexType" ||
+    (requiredType === "simpleContent" && !!complexType.simpleContent)
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for the validation of modifySchema commands.
+ * Tests the target namespace, form defaults, blockDefault, finalDefault and xml:lang.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import { schema, ModifySchemaCommand, ModifySchemaPayload } from "../../shared/types";
+import { validateModifySchema } from "./schemaValidators";
+import { expectInvalid } from "./validationTestHelpers";
+
+const SCHEMA_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:orders" xmlns:addr="urn:addresses"
+           targetNamespace="urn:orders">
+  <xs:import namespace="urn:addresses" schemaLocation="addresses.xsd"/>
+</xs:schema>`;
+
+describe("validateModifySchema", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, SCHEMA_XML);
+  });
+
+  /** Builds a modifySchema command. */
+  function modifyCommand(payload: ModifySchemaPayload): ModifySchemaCommand {
+    return { type: "modifySchema", payload };
+  }
+
+  test("should accept all schema root attributes", () => {
+    const command = modifyCommand({
+      targetNamespace: "http://example.com/orders",
+      elementFormDefault: "qualified",
+      attributeFormDefault: "unqualified",
+      blockDefault: "extension substitution",
+      finalDefault: "list union",
+      version: "1.1",
+      lang: "en-US",
+    });
+    expect(validateModifySchema(command, schemaObj).valid).toBe(true);
+  });
+
+  test("should accept removing every attribute", () => {
+    const command = modifyCommand({
+      targetNamespace: "",
+      elementFormDefault: "",
+      attributeFormDefault: "",
+      blockDefault: "",
+      finalDefault: "",
+      version: "",
+      lang: "",
+    });
+    expect(validateModifySchema(command, schemaObj).valid).toBe(true);
+  });
+
+  test.each(["orders", "urn orders", "http://example.com/a b"])(
+    "should reject the target namespace %j",
+    (targetNamespace) => {
+      const result = validateModifySchema(modifyCommand({ targetNamespace }), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("Target namespace must be a valid absolute URI");
+    }
+  );
+
+  test("should reject a target namespace that is imported", () => {
+    const result = validateModifySchema(modifyCommand({ targetNamespace: "urn:addresses" }), schemaObj);
+    expectInvalid(result);
+    expect(result.error).toBe(
+      "Target namespace 'urn:addresses' is already imported; a schema cannot import its own namespace"
+    );
+  });
+
+  test("should reject removing the target namespace while the default namespace is bound elsewhere", () => {
+    schemaObj = unmarshal(
+      schema,
+      `<?xml version="1.0" encoding="UTF-8"?>
+<schema xmlns="http://www.w3.org/2001/XMLSchema" xmlns:tns="urn:orders" targetNamespace="urn:orders">
+  <element name="order" type="tns:OrderType"/>
+  <complexType name="OrderType"/>
+</schema>`
+    );
+
+    const result = validateModifySchema(modifyCommand({ targetNamespace: "" }), schemaObj);
+    expectInvalid(result);
+    expect(result.error).toBe(
+      "Cannot remove the target namespace while the default namespace is bound to 'http://www.w3.org/2001/XMLSchema'"
+    );
+  });
+
+  test("should reject an unknown form default", () => {
+    const command = modifyCommand({});
+    // eslint-disable-next-line no-restricted-syntax -- simulates an untyped message from the webview
+    command.payload.attributeFormDefault = "local" as unknown as ModifySchemaPayload["attributeFormDefault"];
+
+    const result = validateModifySchema(command, schemaObj);
+    expectInvalid(result);
+    expect(result.error).toBe("'attributeFormDefault' must be one of: qualified, unqualified");
+  });
+
+  test("should reject list and union in blockDefault", () => {
+    const result = validateModifySchema(modifyCommand({ blockDefault: "list" }), schemaObj);
+    expectInvalid(result);
+    expect(result.error).toBe(
+      "Invalid blockDefault value 'list': must be #all or a list of extension, restriction, substitution"
+    );
+  });
+
+  test("should reject substitution in finalDefault", () => {
+    const result = validateModifySchema(modifyCommand({ finalDefault: "#all substitution" }), schemaObj);
+    expectInvalid(result);
+    expect(result.error).toBe(
+      "Invalid finalDefault value '#all substitution': must be #all or a list of extension, restriction, list, union"
+    );
+  });
+
+  test("should reject an invalid language", () => {
+    const result = validateModifySchema(modifyCommand({ lang: "en_US" }), schemaObj);
+    expectInvalid(result);
+    expect(result.error).toBe("Invalid language 'en_US': must be a language tag such as en or en-US");
+  });
+});
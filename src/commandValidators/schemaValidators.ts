@@ -1,5 +1,5 @@
 /**
- * Validators for schema-level commands (Import and Include).
+ * Validators for schema-level commands (Import, Include and the schema root attributes).
  */
 
 import {
@@ -10,10 +10,11 @@ import {
   AddIncludeCommand,
   RemoveIncludeCommand,
   ModifyIncludeCommand,
+  ModifySchemaCommand,
 } from "../../shared/types";
 import { toArray } from "../../shared/schemaUtils";
 import { parseSchemaId, SchemaNodeType } from "../../shared/idStrategy";
-import { isValidXmlName, ValidationResult } from "./validationUtils";
+import { isValidXmlName, isValidDerivationList, ValidationResult } from "./validationUtils";
 import { isAnyPrefixReferencedInSchema } from "../commandExecutors/schemaQNameRewriter";
 
 // ===== Helpers =====
@@ -364,3 +365,114 @@ export function validateModifyInclude(
 
   return { valid: true };
 }
+
+// ===== Schema Root Validation =====
+
+/** Allowed values of elementFormDefault and attributeFormDefault. */
+const FORM_DEFAULTS = ["qualified", "unqualified"] as const;
+
+/** Derivations that blockDefault may list. */
+const BLOCK_DEFAULT_VALUES = ["extension", "restriction", "substitution"] as const;
+
+/** Derivations that finalDefault may list. */
+const FINAL_DEFAULT_VALUES = ["extension", "restriction", "list", "union"] as const;
+
+/**
+ * Returns true if `value` is a language tag as allowed by xs:language (e.g. "en", "en-US").
+ */
+function isValidLanguage(value: string): boolean {
+  return /^[a-zA-Z]{1,8}(-[a-zA-Z0-9]{1,8})*$/.test(value);
+}
+
+/**
+ * Validates removing the target namespace. The references using a prefix of the
+ * target namespace become unprefixed, so the default namespace must not be bound
+ * to another namespace, or they would no longer name the schema's components.
+ */
+function validateTargetNamespaceRemoval(schemaObj: schema): ValidationResult {
+  const oldNamespace = schemaObj.targetNamespace;
+  const prefixes = schemaObj._namespacePrefixes ?? {};
+  const defaultNamespace = prefixes[""];
+  if (
+    !oldNamespace ||
+    !defaultNamespace ||
+    defaultNamespace === oldNamespace ||
+    !Object.values(prefixes).includes(oldNamespace)
+  ) {
+    return { valid: true };
+  }
+  return {
+    valid: false,
+    error: `Cannot remove the target namespace while the default namespace is bound to '${defaultNamespace}'`,
+  };
+}
+
+/**
+ * Validates a new target namespace: it must be an absolute URI and must not be
+ * the namespace of an import, since a schema cannot import its own namespace.
+ * An empty value removes the target namespace.
+ */
+function validateTargetNamespace(targetNamespace: string, schemaObj: schema): ValidationResult {
+  const trimmed = targetNamespace.trim();
+  if (!trimmed) {
+    return validateTargetNamespaceRemoval(schemaObj);
+  }
+  if (!isAbsoluteUri(trimmed)) {
+    return { valid: false, error: "Target namespace must be a valid absolute URI" };
+  }
+  if (toArray(schemaObj.import_).some((imp) => imp.namespace === trimmed)) {
+    return {
+      valid: false,
+      error: `Target namespace '${trimmed}' is already imported; a schema cannot import its own namespace`,
+    };
+  }
+  return { valid: true };
+}
+
+export function validateModifySchema(
+  command: ModifySchemaCommand,
+  schemaObj: schema
+): ValidationResult {
+  const {
+    targetNamespace,
+    elementFormDefault,
+    attributeFormDefault,
+    blockDefault,
+    finalDefault,
+    lang,
+  } = command.payload;
+
+  if (targetNamespace !== undefined) {
+    const namespaceResult = validateTargetNamespace(targetNamespace, schemaObj);
+    if (!namespaceResult.valid) return namespaceResult;
+  }
+
+  const forms: Array<[string, string | undefined]> = [
+    ["elementFormDefault", elementFormDefault],
+    ["attributeFormDefault", attributeFormDefault],
+  ];
+  for (const [key, value] of forms) {
+    if (value && !(FORM_DEFAULTS as readonly string[]).includes(value)) {
+      return { valid: false, error: `'${key}' must be one of: ${FORM_DEFAULTS.join(", ")}` };
+    }
+  }
+
+  if (blockDefault?.trim() && !isValidDerivationList(blockDefault, BLOCK_DEFAULT_VALUES)) {
+    return {
+      valid: false,
+      error: `Invalid blockDefault value '${blockDefault}': must be #all or a list of ${BLOCK_DEFAULT_VALUES.join(", ")}`,
+    };
+  }
+  if (finalDefault?.trim() && !isValidDerivationList(finalDefault, FINAL_DEFAULT_VALUES)) {
+    return {
+      valid: false,
+      error: `Invalid finalDefault value '${finalDefault}': must be #all or a list of ${FINAL_DEFAULT_VALUES.join(", ")}`,
+    };
+  }
+
+  if (lang?.trim() && !isValidLanguage(lang.trim())) {
+    return { valid: false, error: `Invalid language '${lang}': must be a language tag such as en or en-US` };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,239 @@
+/**
+ * Unit tests for simple type derivation validation.
+ * Tests list and union simple types through the add and modify simple type validators.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import {
+  schema,
+  AddSimpleTypeCommand,
+  AddSimpleTypePayload,
+  ModifySimpleTypeCommand,
+  ModifySimpleTypePayload,
+} from "../../shared/types";
+import { validateAddSimpleType, validateModifySimpleType } from "./typeValidators";
+import { expectInvalid } from "./validationTestHelpers";
+
+const SCHEMA_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:sizes" xmlns:ext="urn:external" targetNamespace="urn:sizes">
+  <xs:import namespace="urn:external" schemaLocation="external.xsd"/>
+  <xs:simpleType name="SizeCode">
+    <xs:restriction base="xs:token">
+      <xs:enumeration value="S"/>
+      <xs:enumeration value="M"/>
+    </xs:restriction>
+  </xs:simpleType>
+  <xs:simpleType name="SizeCodes">
+    <xs:list itemType="tns:SizeCode"/>
+  </xs:simpleType>
+  <xs:simpleType name="Size">
+    <xs:union memberTypes="xs:int tns:SizeCode"/>
+  </xs:simpleType>
+  <xs:complexType name="PersonType">
+    <xs:sequence/>
+  </xs:complexType>
+  <xs:element name="sizes">
+    <xs:simpleType>
+      <xs:list itemType="xs:int"/>
+    </xs:simpleType>
+  </xs:element>
+  <xs:element name="note"/>
+</xs:schema>`;
+
+describe("Simple Type Derivation Validation", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, SCHEMA_XML);
+  });
+
+  /** Builds an addSimpleType command for a top-level type named NewType. */
+  function addCommand(payload: Partial<AddSimpleTypePayload>): AddSimpleTypeCommand {
+    return { type: "addSimpleType", payload: { typeName: "NewType", ...payload } };
+  }
+
+  /** Builds a modifySimpleType command. */
+  function modifyCommand(payload: ModifySimpleTypePayload): ModifySimpleTypeCommand {
+    return { type: "modifySimpleType", payload };
+  }
+
+  describe("validateAddSimpleType (list)", () => {
+    test("should accept a list of a built-in type", () => {
+      const command = addCommand({ variety: "list", itemType: "xs:int" });
+      expect(validateAddSimpleType(command, schemaObj).valid).toBe(true);
+    });
+
+    test("should accept a list with an anonymous item type", () => {
+      const command = addCommand({
+        variety: "list",
+        itemSimpleType: { baseType: "xs:int", restrictions: { minInclusive: "0" } },
+      });
+      expect(validateAddSimpleType(command, schemaObj).valid).toBe(true);
+    });
+
+    test("should accept an anonymous list inside an element", () => {
+      const command = addCommand({ parentId: "/element:note", variety: "list", itemType: "tns:SizeCode" });
+      expect(validateAddSimpleType(command, schemaObj).valid).toBe(true);
+    });
+
+    test("should require an item type", () => {
+      const result = validateAddSimpleType(addCommand({ variety: "list" }), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("A list simple type requires 'itemType' or 'itemSimpleType'");
+    });
+
+    test("should reject both a named and an anonymous item type", () => {
+      const command = addCommand({
+        variety: "list",
+        itemType: "xs:int",
+        itemSimpleType: { baseType: "xs:int" },
+      });
+
+      const result = validateAddSimpleType(command, schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("A list cannot have both 'itemType' and 'itemSimpleType'");
+    });
+
+    test("should reject an unknown item type", () => {
+      const result = validateAddSimpleType(addCommand({ variety: "list", itemType: "xs:bogus" }), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("Item type 'xs:bogus' is not a recognized XSD type");
+    });
+
+    test("should reject a complex item type", () => {
+      const result = validateAddSimpleType(
+        addCommand({ variety: "list", itemType: "tns:PersonType" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe("Item type 'tns:PersonType' must be a simple type");
+    });
+
+    test("should not check item types of other namespaces against the types of the schema", () => {
+      const result = validateAddSimpleType(
+        addCommand({ variety: "list", itemType: "ext:PersonType" }),
+        schemaObj
+      );
+      expect(result.valid).toBe(true);
+    });
+
+    test("should reject lists of lists", () => {
+      const result = validateAddSimpleType(
+        addCommand({ variety: "list", itemType: "tns:SizeCodes" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Item type 'tns:SizeCodes' is a list type; lists of lists are not allowed"
+      );
+    });
+
+    test("should reject restriction fields", () => {
+      const result = validateAddSimpleType(
+        addCommand({ variety: "list", itemType: "xs:int", baseType: "xs:string" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "'baseType' is only allowed for restriction simple types, not for list simple types"
+      );
+    });
+  });
+
+  describe("validateAddSimpleType (union)", () => {
+    test("should accept named and anonymous members", () => {
+      const command = addCommand({
+        variety: "union",
+        memberTypes: ["xs:int", "tns:SizeCode"],
+        memberSimpleTypes: [{ baseType: "xs:token", restrictions: { enumeration: ["auto"] } }],
+      });
+      expect(validateAddSimpleType(command, schemaObj).valid).toBe(true);
+    });
+
+    test("should require at least one member", () => {
+      const result = validateAddSimpleType(addCommand({ variety: "union", memberTypes: [] }), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("A union simple type requires at least one member type");
+    });
+
+    test("should reject an unknown anonymous member base type", () => {
+      const result = validateAddSimpleType(
+        addCommand({ variety: "union", memberSimpleTypes: [{ baseType: "tns:Missing" }] }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Member type base type 'tns:Missing' is not a recognized XSD type"
+      );
+    });
+
+    test("should reject an unknown variety", () => {
+      const command = addCommand({ itemType: "xs:int" });
+      // eslint-disable-next-line no-restricted-syntax -- simulates an untyped message from the webview
+      command.payload.variety = "sequence" as unknown as AddSimpleTypePayload["variety"];
+
+      const result = validateAddSimpleType(command, schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("Simple type variety must be one of: restriction, list, union");
+    });
+  });
+
+  describe("validateModifySimpleType", () => {
+    test("should accept a new item type of a list", () => {
+      const command = modifyCommand({ typeId: "/simpleType:SizeCodes", itemType: "xs:token" });
+      expect(validateModifySimpleType(command, schemaObj).valid).toBe(true);
+    });
+
+    test("should reject facets on a list", () => {
+      const result = validateModifySimpleType(
+        modifyCommand({ typeId: "/simpleType:SizeCodes", restrictions: { maxLength: 3 } }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "'restrictions' is only allowed for restriction simple types, not for list simple types"
+      );
+    });
+
+    test("should reject removing the last members of a union", () => {
+      const result = validateModifySimpleType(
+        modifyCommand({ typeId: "/simpleType:Size", memberTypes: [] }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe("A union simple type requires at least one member type");
+    });
+
+    test("should keep named members when only anonymous members change", () => {
+      const command = modifyCommand({ typeId: "/simpleType:Size", memberSimpleTypes: [] });
+      expect(validateModifySimpleType(command, schemaObj).valid).toBe(true);
+    });
+
+    test("should require the new derivation when the variety changes", () => {
+      const result = validateModifySimpleType(
+        modifyCommand({ typeId: "/simpleType:SizeCode", variety: "union" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe("A union simple type requires at least one member type");
+    });
+
+    test("should accept turning a list into a restriction", () => {
+      const command = modifyCommand({
+        typeId: "/simpleType:SizeCodes",
+        variety: "restriction",
+        baseType: "xs:string",
+      });
+      expect(validateModifySimpleType(command, schemaObj).valid).toBe(true);
+    });
+
+    test("should validate the item type of an anonymous list", () => {
+      const result = validateModifySimpleType(
+        modifyCommand({ typeId: "/element:sizes/anonymousSimpleType[0]", itemType: "tns:Size" }),
+        schemaObj
+      );
+      expect(result.valid).toBe(true);
+    });
+  });
+});
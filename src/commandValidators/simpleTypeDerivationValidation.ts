@@ -0,0 +1,291 @@
+/**
+ * Validation of simple type derivations for the simple type validators:
+ * checks the restriction base and facets, list item type or union member
+ * types a simple type is derived from.
+ */
+
+import {
+  schema,
+  ModifySimpleTypePayload,
+  SimpleTypeVariety,
+  InlineSimpleTypeDefinition,
+} from "../../shared/types";
+import { ValidationResult, validateElementType } from "./validationUtils";
+import { validateRestrictionFacets } from "./facetValidation";
+import { toArray } from "../../shared/schemaUtils";
+import { isQNameOfComponent } from "../commandExecutors/componentReferences";
+import {
+  SIMPLE_TYPE_VARIETIES,
+  SimpleTypeContent,
+  SimpleTypeDerivationFields,
+  getSimpleTypeVariety,
+  isSimpleTypeVariety,
+} from "../commandExecutors/simpleTypeUtils";
+
+/** Derivation fields that apply to one variety only. */
+const VARIETY_FIELDS: Record<SimpleTypeVariety, ReadonlyArray<keyof SimpleTypeDerivationFields>> = {
+  restriction: ["baseType", "restrictions"],
+  list: ["itemType", "itemSimpleType"],
+  union: ["memberTypes", "memberSimpleTypes"],
+};
+
+/**
+ * Rejects derivation fields that belong to another variety than the given one.
+ *
+ * @param variety - The variety the type will have
+ * @param fields - The derivation fields of the command
+ */
+function validateVarietyFields(
+  variety: SimpleTypeVariety,
+  fields: SimpleTypeDerivationFields
+): ValidationResult {
+  for (const otherVariety of SIMPLE_TYPE_VARIETIES) {
+    if (otherVariety === variety) continue;
+    const field = VARIETY_FIELDS[otherVariety].find((key) => fields[key] !== undefined);
+    if (field) {
+      return {
+        valid: false,
+        error: `'${field}' is only allowed for ${otherVariety} simple types, not for ${variety} simple types`,
+      };
+    }
+  }
+  return { valid: true };
+}
+
+/**
+ * Validates a type referenced as list item type or union member: it must be a
+ * known type and, if defined in this schema, a simple type.
+ *
+ * @param typeName - The referenced type name
+ * @param label - Describes the reference in error messages, e.g. "Item type"
+ * @param schemaObj - The schema to validate against
+ */
+function validateSimpleTypeReference(
+  typeName: string,
+  label: string,
+  schemaObj: schema
+): ValidationResult {
+  if (!typeName.trim()) {
+    return { valid: false, error: `${label} cannot be empty` };
+  }
+  if (!validateElementType(typeName, schemaObj).valid) {
+    return { valid: false, error: `${label} '${typeName}' is not a recognized XSD type` };
+  }
+  const isNamed = (name?: string): boolean =>
+    name !== undefined && isQNameOfComponent(typeName.trim(), name, schemaObj);
+  const isSimpleType = toArray(schemaObj.simpleType).some((st) => isNamed(st.name));
+  if (!isSimpleType && toArray(schemaObj.complexType).some((ct) => isNamed(ct.name))) {
+    return { valid: false, error: `${label} '${typeName}' must be a simple type` };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validates the base type and facets of an anonymous item or member type.
+ *
+ * @param definition - The anonymous type definition
+ * @param label - Describes the anonymous type in error messages
+ * @param schemaObj - The schema to validate against
+ */
+function validateInlineSimpleType(
+  definition: InlineSimpleTypeDefinition,
+  label: string,
+  schemaObj: schema
+): ValidationResult {
+  const baseResult = validateSimpleTypeReference(
+    definition.baseType,
+    `${label} base type`,
+    schemaObj
+  );
+  if (!baseResult.valid || !definition.restrictions) {
+    return baseResult;
+  }
+  return validateRestrictionFacets(definition.restrictions, definition.baseType, schemaObj);
+}
+
+/**
+ * Validates the item type of a list.
+ * Lists of lists are not allowed, so a named item type must not itself derive by list.
+ *
+ * @param fields - The derivation fields of the command
+ * @param schemaObj - The schema to validate against
+ * @param requireItemType - Whether the command must define the item type
+ */
+function validateListFields(
+  fields: SimpleTypeDerivationFields,
+  schemaObj: schema,
+  requireItemType: boolean
+): ValidationResult {
+  const { itemType, itemSimpleType } = fields;
+
+  if (itemType !== undefined && itemSimpleType !== undefined) {
+    return { valid: false, error: "A list cannot have both 'itemType' and 'itemSimpleType'" };
+  }
+  if (itemSimpleType !== undefined) {
+    return validateInlineSimpleType(itemSimpleType, "Item type", schemaObj);
+  }
+  if (itemType === undefined) {
+    return requireItemType
+      ? { valid: false, error: "A list simple type requires 'itemType' or 'itemSimpleType'" }
+      : { valid: true };
+  }
+
+  const referenceResult = validateSimpleTypeReference(itemType, "Item type", schemaObj);
+  if (!referenceResult.valid) {
+    return referenceResult;
+  }
+  const itemSimpleTypeDef = toArray(schemaObj.simpleType).find(
+    (st) => st.name !== undefined && isQNameOfComponent(itemType.trim(), st.name, schemaObj)
+  );
+  if (itemSimpleTypeDef?.list) {
+    return { valid: false, error: `Item type '${itemType}' is a list type; lists of lists are not allowed` };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validates the member types of a union.
+ *
+ * @param fields - The derivation fields of the command
+ * @param schemaObj - The schema to validate against
+ * @param current - Member counts of the union being modified; fields left out keep these members
+ */
+function validateUnionFields(
+  fields: SimpleTypeDerivationFields,
+  schemaObj: schema,
+  current: { memberTypes: number; memberSimpleTypes: number } = { memberTypes: 0, memberSimpleTypes: 0 }
+): ValidationResult {
+  const { memberTypes, memberSimpleTypes } = fields;
+
+  for (const memberType of memberTypes ?? []) {
+    const result = validateSimpleTypeReference(memberType, "Member type", schemaObj);
+    if (!result.valid) return result;
+  }
+  for (const member of memberSimpleTypes ?? []) {
+    const result = validateInlineSimpleType(member, "Member type", schemaObj);
+    if (!result.valid) return result;
+  }
+
+  const memberCount =
+    (memberTypes?.length ?? current.memberTypes) +
+    (memberSimpleTypes?.length ?? current.memberSimpleTypes);
+  if (memberCount === 0) {
+    return { valid: false, error: "A union simple type requires at least one member type" };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validates the base type of a restriction.
+ * Anonymous types report the reason an unknown base type was rejected.
+ *
+ * @param baseType - The base type of the restriction
+ * @param schemaObj - The schema to validate against
+ * @param anonymous - Whether the restriction belongs to an anonymous type
+ */
+function validateRestrictionBase(
+  baseType: string | undefined,
+  schemaObj: schema,
+  anonymous: boolean
+): ValidationResult {
+  if (!baseType?.trim()) {
+    return { valid: false, error: "Base type cannot be empty" };
+  }
+  const baseTypeResult = validateElementType(baseType, schemaObj);
+  if (baseTypeResult.valid) {
+    return baseTypeResult;
+  }
+  if (!anonymous) {
+    return { valid: false, error: `Base type '${baseType}' is not a recognized XSD type` };
+  }
+  return {
+    valid: false,
+    error:
+      baseTypeResult.error
+        ? `Base type: ${baseTypeResult.error}`
+        : `Base type '${baseType}' is not a recognized XSD type`,
+  };
+}
+
+/**
+ * Validates a complete derivation of the given variety, as created by
+ * addSimpleType or by a modifySimpleType that changes the variety.
+ *
+ * @param variety - The variety of the new derivation
+ * @param fields - The derivation fields of the command
+ * @param schemaObj - The schema to validate against
+ * @param anonymous - Whether the derivation belongs to an anonymous type
+ */
+export function validateNewDerivation(
+  variety: SimpleTypeVariety,
+  fields: SimpleTypeDerivationFields,
+  schemaObj: schema,
+  anonymous: boolean
+): ValidationResult {
+  const fieldsResult = validateVarietyFields(variety, fields);
+  if (!fieldsResult.valid) {
+    return fieldsResult;
+  }
+  switch (variety) {
+    case "list":
+      return validateListFields(fields, schemaObj, true);
+    case "union":
+      return validateUnionFields(fields, schemaObj);
+    default: {
+      const baseResult = validateRestrictionBase(fields.baseType, schemaObj, anonymous);
+      if (!baseResult.valid || !fields.restrictions) {
+        return baseResult;
+      }
+      return validateRestrictionFacets(fields.restrictions, fields.baseType ?? "", schemaObj);
+    }
+  }
+}
+
+/**
+ * Validates the derivation changes of a modifySimpleType command against the
+ * simple type being modified.
+ *
+ * @param simpleType - The simple type being modified
+ * @param payload - The modifySimpleType payload
+ * @param schemaObj - The schema to validate against
+ * @param anonymous - Whether the simple type is anonymous
+ */
+export function validateDerivationChanges(
+  simpleType: SimpleTypeContent,
+  payload: ModifySimpleTypePayload,
+  schemaObj: schema,
+  anonymous: boolean
+): ValidationResult {
+  const currentVariety = getSimpleTypeVariety(simpleType);
+  const { variety = currentVariety } = payload;
+
+  if (!isSimpleTypeVariety(variety)) {
+    return { valid: false, error: `Simple type variety must be one of: ${SIMPLE_TYPE_VARIETIES.join(", ")}` };
+  }
+  if (variety !== currentVariety) {
+    return validateNewDerivation(variety, payload, schemaObj, anonymous);
+  }
+
+  const fieldsResult = validateVarietyFields(variety, payload);
+  if (!fieldsResult.valid) {
+    return fieldsResult;
+  }
+  switch (variety) {
+    case "list":
+      return validateListFields(payload, schemaObj, false);
+    case "union":
+      return validateUnionFields(payload, schemaObj, {
+        memberTypes: simpleType.union?.memberTypes?.trim().split(/\s+/).filter(Boolean).length ?? 0,
+        memberSimpleTypes: toArray(simpleType.union?.simpleType).length,
+      });
+    default:
+      if (payload.restrictions !== undefined && payload.baseType === undefined && !simpleType.restriction) {
+        return { valid: false, error: "Cannot apply restrictions without a base type" };
+      }
+      if (payload.restrictions !== undefined) {
+        const baseType = payload.baseType ?? simpleType.restriction?.base ?? "";
+        return validateRestrictionFacets(payload.restrictions, baseType, schemaObj);
+      }
+      return { valid: true };
+  }
+}
@@ -150,6 +150,27 @@ describe("SimpleType Validators", () => {
       const result = validateRemoveSimpleType(command, schemaWithAgeType);
       expect(result.valid).toBe(true);
     });
+
+    test("should reject removeSimpleType for a type that is still referenced", () => {
+      const schemaWithAgeUsage = unmarshal(
+        schema,
+        `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="age" type="AgeType"/>
+  <xs:simpleType name="AgeType">
+    <xs:restriction base="xs:integer"/>
+  </xs:simpleType>
+</xs:schema>`
+      );
+      const command: RemoveSimpleTypeCommand = {
+        type: "removeSimpleType",
+        payload: { typeId: "/simpleType:AgeType" },
+      };
+
+      const result = validateRemoveSimpleType(command, schemaWithAgeUsage);
+      expectInvalid(result);
+      expect(result.error).toBe("SimpleType is still referenced and cannot be removed: AgeType");
+    });
   });
 
   describe("validateModifySimpleType", () => {
@@ -682,6 +703,32 @@ describe("ComplexType Validators", () => {
       expect(result.error).toBe("Complex type 'NonExistent' not found in schema");
     });
 
+    test("should reject removeComplexType for a type that is still referenced", () => {
+      const schemaWithPersonUsage = unmarshal(
+        schema,
+        `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:complexType name="PersonType">
+    <xs:sequence/>
+  </xs:complexType>
+  <xs:complexType name="EmployeeType">
+    <xs:complexContent>
+      <xs:extension base="PersonType"/>
+    </xs:complexContent>
+  </xs:complexType>
+</xs:schema>`
+      );
+      const command: RemoveComplexTypeCommand = {
+        type: "removeComplexType",
+        payload: { typeId: "/complexType:PersonType" },
+      };
+      const result = validateRemoveComplexType(command, schemaWithPersonUsage);
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Complex type 'PersonType' is still referenced and cannot be removed"
+      );
+    });
+
     test("should accept removeComplexType for an existing anonymous complexType", () => {
       const schemaWithInlineCT = unmarshal(
         schema,
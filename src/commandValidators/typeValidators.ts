@@ -7,18 +7,24 @@ import {
   AddSimpleTypeCommand,
   RemoveSimpleTypeCommand,
   ModifySimpleTypeCommand,
+  localSimpleType,
+  localComplexType,
   AddComplexTypeCommand,
+  AddComplexTypePayload,
   RemoveComplexTypeCommand,
   ModifyComplexTypeCommand,
 } from "../../shared/types";
 import {
   ValidationResult,
   isValidXmlName,
-  validateElementType,
 } from "./validationUtils";
 import { parseSchemaId, SchemaNodeType } from "../../shared/idStrategy";
 import { toArray, isSchemaRoot } from "../../shared/schemaUtils";
 import { locateNodeById } from "../schemaNavigator";
+import { SIMPLE_TYPE_VARIETIES, isSimpleTypeVariety } from "../commandExecutors/simpleTypeUtils";
+import { validateNewDerivation, validateDerivationChanges } from "./simpleTypeDerivationValidation";
+import { validateComplexTypeDerivation } from "./complexTypeDerivationValidation";
+import { collectUsages } from "../componentUsages";
 
 /**
  * Valid content models for ComplexType elements.
@@ -92,13 +98,40 @@ function validateContentModel(
   return null;
 }
 
+/**
+ * Validates the content of a new complex type: complex content needs a
+ * content model, and the derivation must fit the base type.
+ *
+ * @param payload - The payload of the addComplexType command
+ * @param schemaObj - The schema to validate against
+ * @param typeName - Name of a new top-level type
+ */
+function validateNewComplexTypeContent(
+  payload: AddComplexTypePayload,
+  schemaObj: schema,
+  typeName?: string
+): ValidationResult {
+  if (payload.contentKind !== "simple") {
+    const contentModelError = validateContentModel(
+      payload.contentModel,
+      VALID_COMPLEX_TYPE_CONTENT_MODELS
+    );
+    if (contentModelError) return contentModelError;
+  }
+  return validateComplexTypeDerivation(payload, schemaObj, typeName);
+}
+
 // ===== SimpleType Command Validation =====
 
 export function validateAddSimpleType(
   command: AddSimpleTypeCommand,
   schemaObj: schema
 ): ValidationResult {
-  const { parentId, typeName, baseType } = command.payload;
+  const { parentId, typeName, variety = "restriction" } = command.payload;
+
+  if (!isSimpleTypeVariety(variety)) {
+    return { valid: false, error: `Simple type variety must be one of: ${SIMPLE_TYPE_VARIETIES.join(", ")}` };
+  }
 
   if (!isSchemaRoot(parentId)) {
     // Anonymous simpleType inside an element or attribute — isSchemaRoot guarantees parentId is a non-empty string here
@@ -123,37 +156,20 @@ export function validateAddSimpleType(
     if (holder.simpleType) {
       return { valid: false, error: `'${parentId}' already has an anonymous simpleType` };
     }
-    if (!baseType.trim()) {
-      return { valid: false, error: "Base type cannot be empty" };
-    }
-    const baseTypeResult = validateElementType(baseType, schemaObj);
-    if (!baseTypeResult.valid) {
-      return {
-        valid: false,
-        error:
-          baseTypeResult.error
-            ? `Base type: ${baseTypeResult.error}`
-            : `Base type '${baseType}' is not a recognized XSD type`,
-      };
-    }
-    return { valid: true };
+    return validateNewDerivation(variety, command.payload, schemaObj, true);
   }
 
   // Top-level named simpleType
   if (!isValidXmlName(typeName ?? "")) {
     return { valid: false, error: "Type name must be a valid XML name" };
   }
-  if (!baseType.trim()) {
+  if (variety === "restriction" && !command.payload.baseType?.trim()) {
     return { valid: false, error: "Base type cannot be empty" };
   }
   if (toArray(schemaObj.simpleType).some(st => st.name === typeName)) {
     return { valid: false, error: `Simple type '${typeName}' already exists in schema` };
   }
-  const baseTypeResult = validateElementType(baseType, schemaObj);
-  if (!baseTypeResult.valid) {
-    return { valid: false, error: `Base type '${baseType}' is not a recognized XSD type` };
-  }
-  return { valid: true };
+  return validateNewDerivation(variety, command.payload, schemaObj, false);
 }
 
 export function validateRemoveSimpleType(
@@ -171,11 +187,16 @@ export function validateRemoveSimpleType(
     return result.success ? { valid: true } : result.error;
   }
 
-  // TODO Phase 2: Check if type is being used by other elements/types
-  // Top-level named simpleType: check it exists
+  // Top-level named simpleType: check it exists and is not referenced
   if (!toArray(schemaObj.simpleType).some(st => st.name === parsed.name)) {
     return { valid: false, error: `SimpleType not found: ${parsed.name}` };
   }
+  if (parsed.name && collectUsages(schemaObj, "type", parsed.name).length > 0) {
+    return {
+      valid: false,
+      error: `SimpleType is still referenced and cannot be removed: ${parsed.name}`,
+    };
+  }
   return { valid: true };
 }
 
@@ -195,33 +216,23 @@ export function validateModifySimpleType(
   if (parsed.nodeType === SchemaNodeType.AnonymousSimpleType) {
     const result = validateAnonymousTypeParent(command.payload.typeId, parsed.parentId, schemaObj, "simpleType");
     if (!result.success) return result.error;
-    const location = result.location;
-    if (command.payload.restrictions !== undefined && command.payload.baseType === undefined) {
-      const anonSt = (location.parent as { simpleType?: { restriction?: unknown } }).simpleType;
-      if (anonSt && !(anonSt).restriction) {
-        return { valid: false, error: "Cannot apply restrictions without a base type" };
-      }
-    }
     if (command.payload.typeName !== undefined) {
       return {
         valid: false,
         error: "Cannot provide 'typeName' when modifying an anonymous simpleType",
       };
     }
-    return { valid: true };
+    // validateAnonymousTypeParent confirmed that the parent holds a simpleType
+    const anonSt = (result.location.parent as { simpleType: localSimpleType }).simpleType;
+    return validateDerivationChanges(anonSt, command.payload, schemaObj, true);
   }
 
   // Top-level named simpleType: validate it exists in the schema
-  if (!toArray(schemaObj.simpleType).some(st => st.name === parsed.name)) {
+  const simpleType = toArray(schemaObj.simpleType).find(st => st.name === parsed.name);
+  if (!simpleType) {
     return { valid: false, error: `Simple type '${parsed.name}' not found in schema` };
   }
-  if (command.payload.restrictions !== undefined && command.payload.baseType === undefined) {
-    const simpleType = toArray(schemaObj.simpleType).find(st => st.name === parsed.name);
-    if (simpleType && !simpleType.restriction) {
-      return { valid: false, error: "Cannot apply restrictions without a base type" };
-    }
-  }
-  return { valid: true };
+  return validateDerivationChanges(simpleType, command.payload, schemaObj, false);
 }
 
 // ===== ComplexType Command Validation =====
@@ -230,7 +241,7 @@ export function validateAddComplexType(
   command: AddComplexTypeCommand,
   schemaObj: schema
 ): ValidationResult {
-  const { parentId, typeName, contentModel } = command.payload;
+  const { parentId, typeName } = command.payload;
 
   if (!isSchemaRoot(parentId)) {
     // Anonymous complexType inside an element — isSchemaRoot guarantees parentId is a non-empty string here
@@ -254,24 +265,20 @@ export function validateAddComplexType(
     if (holder.complexType) {
       return { valid: false, error: `'${parentId}' already has an anonymous complexType` };
     }
-    const contentModelError = validateContentModel(contentModel, VALID_COMPLEX_TYPE_CONTENT_MODELS);
-    if (contentModelError) return contentModelError;
-    return { valid: true };
+    return validateNewComplexTypeContent(command.payload, schemaObj);
   }
 
   // Top-level named complexType
   if (!isValidXmlName(typeName ?? "")) {
     return { valid: false, error: "Type name must be a valid XML name" };
   }
-  const contentModelError = validateContentModel(contentModel, VALID_COMPLEX_TYPE_CONTENT_MODELS);
-  if (contentModelError) return contentModelError;
   if (toArray(schemaObj.complexType).some((ct) => ct.name === typeName)) {
     return {
       valid: false,
       error: `Complex type '${typeName}' already exists in schema`,
     };
   }
-  return { valid: true };
+  return validateNewComplexTypeContent(command.payload, schemaObj, typeName);
 }
 
 export function validateRemoveComplexType(
@@ -292,6 +299,12 @@ export function validateRemoveComplexType(
   if (!toArray(schemaObj.complexType).some((ct) => ct.name === parsed.name)) {
     return { valid: false, error: `Complex type '${parsed.name}' not found in schema` };
   }
+  if (parsed.name && collectUsages(schemaObj, "type", parsed.name).length > 0) {
+    return {
+      valid: false,
+      error: `Complex type '${parsed.name}' is still referenced and cannot be removed`,
+    };
+  }
   return { valid: true };
 }
 
@@ -318,7 +331,8 @@ export function validateModifyComplexType(
       const contentModelError = validateContentModel(command.payload.contentModel, VALID_COMPLEX_TYPE_CONTENT_MODELS);
       if (contentModelError) return contentModelError;
     }
-    return { valid: true };
+    const holder = result.location.parent as { complexType: localComplexType };
+    return validateComplexTypeDerivation(command.payload, schemaObj, undefined, holder.complexType);
   }
 
   if (command.payload.typeName !== undefined && !isValidXmlName(command.payload.typeName)) {
@@ -328,8 +342,14 @@ export function validateModifyComplexType(
     const contentModelError = validateContentModel(command.payload.contentModel, VALID_COMPLEX_TYPE_CONTENT_MODELS);
     if (contentModelError) return contentModelError;
   }
-  if (!toArray(schemaObj.complexType).some((ct) => ct.name === parsed.name)) {
+  const complexType = toArray(schemaObj.complexType).find((ct) => ct.name === parsed.name);
+  if (!complexType) {
     return { valid: false, error: `Complex type '${parsed.name}' not found in schema` };
   }
-  return { valid: true };
+  return validateComplexTypeDerivation(
+    command.payload,
+    schemaObj,
+    command.payload.typeName ?? parsed.name,
+    complexType
+  );
 }
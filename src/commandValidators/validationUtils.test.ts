@@ -3,7 +3,13 @@ import {
   validateMinOccurs,
   validateMaxOccurs,
   validateOccurrences,
+  isValidSelectorXPath,
+  isValidFieldXPath,
+  isValidNamespaceConstraint,
+  isValidDerivationList,
+  isBuiltInXsdType,
 } from "./validationUtils";
+import { schema } from "../../shared/types";
 import { expectInvalid } from "./validationTestHelpers";
 
 describe("validationUtils", () => {
@@ -124,4 +130,90 @@ describe("validationUtils", () => {
       expect(result.valid).toBe(true);
     });
   });
+
+  describe("isValidSelectorXPath", () => {
+    test.each([
+      ".",
+      ".//order",
+      "order/item",
+      "tns:order",
+      "*",
+      "tns:*",
+      "child::order",
+      "a | .//b",
+    ])("should accept %j", (xpath) => {
+      expect(isValidSelectorXPath(xpath)).toBe(true);
+    });
+
+    test.each(["", "@id", "order/@id", "a//b", "../a", "/a", "a[1]", "text()", "a |"])(
+      "should reject %j",
+      (xpath) => {
+        expect(isValidSelectorXPath(xpath)).toBe(false);
+      }
+    );
+  });
+
+  describe("isValidFieldXPath", () => {
+    test.each(["@id", "attribute::id", "@tns:id", "@*", "customer/@ref", ".//name", "."])(
+      "should accept %j",
+      (xpath) => {
+        expect(isValidFieldXPath(xpath)).toBe(true);
+      }
+    );
+
+    test.each(["", "a/@b/c", "@id/a", "../@id", "a[1]", "@"])("should reject %j", (xpath) => {
+      expect(isValidFieldXPath(xpath)).toBe(false);
+    });
+  });
+
+  describe("isValidNamespaceConstraint", () => {
+    test.each([
+      "##any",
+      "##other",
+      "##local",
+      "##targetNamespace ##local",
+      "urn:a http://example.com/b ##local",
+    ])("should accept %j", (namespace) => {
+      expect(isValidNamespaceConstraint(namespace)).toBe(true);
+    });
+
+    test.each(["", "   ", "##any ##local", "##other urn:a", "##all", "urn:a ##foo"])(
+      "should reject %j",
+      (namespace) => {
+        expect(isValidNamespaceConstraint(namespace)).toBe(false);
+      }
+    );
+  });
+
+  describe("isValidDerivationList", () => {
+    const allowed = ["extension", "restriction"];
+
+    test.each(["#all", "extension", " extension  restriction "])("should accept %j", (value) => {
+      expect(isValidDerivationList(value, allowed)).toBe(true);
+    });
+
+    test.each(["", "#all extension", "list", "extension substitution"])("should reject %j", (value) => {
+      expect(isValidDerivationList(value, allowed)).toBe(false);
+    });
+  });
+
+  describe("isBuiltInXsdType", () => {
+    const schemaObj = {
+      targetNamespace: "urn:orders",
+      _namespacePrefixes: { xsd: "http://www.w3.org/2001/XMLSchema", tns: "urn:orders" },
+    } as schema;
+
+    test.each(["xsd:string", " xsd:int ", "date"])("should accept %j", (typeName) => {
+      expect(isBuiltInXsdType(typeName, schemaObj)).toBe(true);
+    });
+
+    test.each(["tns:string", "xsd:OrderType"])("should reject %j", (typeName) => {
+      expect(isBuiltInXsdType(typeName, schemaObj)).toBe(false);
+    });
+
+    test("should reject unprefixed names when the default namespace is another namespace", () => {
+      const withDefault = { ...schemaObj, _namespacePrefixes: { "": "urn:orders" } } as schema;
+      expect(isBuiltInXsdType("string", withDefault)).toBe(false);
+    });
+  });
 });
@@ -2,6 +2,12 @@
  * Shared validation utilities for command validators.
  */
 
+import { schema } from "../../shared/types";
+import { getBuiltInDatatype } from "../../shared/xsdDatatypes";
+
+/** Namespace URI of XML Schema, holding the built-in types. */
+export const XSD_NAMESPACE = "http://www.w3.org/2001/XMLSchema";
+
 /** A validation check that passed. */
 export interface ValidationSuccess {
   valid: true;
@@ -39,6 +45,104 @@ export function isValidXmlName(name: string): boolean {
   return xmlNamePattern.test(name);
 }
 
+// ===== XPath subset of identity constraints =====
+
+/** NCName pattern, with the same simplifications as {@link isValidXmlName}. */
+const NCNAME = "[a-zA-Z_][\\w.-]*";
+
+/** NameTest ::= QName | '*' | NCName ':' '*' */
+const NAME_TEST = `(?:\\*|${NCNAME}:\\*|${NCNAME}(?::${NCNAME})?)`;
+
+/** Step ::= '.' | NameTest, where `child::` may be written out. */
+const STEP = `(?:\\.|(?:child::)?${NAME_TEST})`;
+
+/** Attribute step of a field; `attribute::` is the long form of `@`. */
+const ATTRIBUTE_STEP = `(?:@|attribute::)${NAME_TEST}`;
+
+/** Path ::= ('.//')? Step ( '/' Step )* */
+const SELECTOR_PATH = new RegExp(`^(?:\\.//)?${STEP}(?:/${STEP})*$`);
+
+/** Path ::= ('.//')? ( Step '/' )* ( Step | '@' NameTest ) */
+const FIELD_PATH = new RegExp(`^(?:\\.//)?(?:${STEP}/)*(?:${STEP}|${ATTRIBUTE_STEP})$`);
+
+/**
+ * Checks that every `|`-separated path of an expression matches a path pattern.
+ * Whitespace between tokens is allowed, as in XPath.
+ */
+function matchesXPathSubset(xpath: string, pathPattern: RegExp): boolean {
+  if (!xpath || xpath.trim().length === 0) {
+    return false;
+  }
+  return xpath
+    .split("|")
+    .map((path) => path.trim().replace(/\s*(\/|::|@)\s*/g, "$1"))
+    .every((path) => pathPattern.test(path));
+}
+
+/**
+ * Validates the XPath of an xs:selector against the restricted XPath subset
+ * of XML Schema 1.0 (§3.11.6), e.g. `.//order`, `item | tns:entry`.
+ *
+ * @param xpath - The selector expression
+ * @returns true if the expression is in the selector subset
+ */
+export function isValidSelectorXPath(xpath: string): boolean {
+  return matchesXPathSubset(xpath, SELECTOR_PATH);
+}
+
+/**
+ * Validates the XPath of an xs:field against the restricted XPath subset of
+ * XML Schema 1.0 (§3.11.6). Unlike selectors, the last step of a field may
+ * select an attribute, e.g. `@id`, `customer/@ref`.
+ *
+ * @param xpath - The field expression
+ * @returns true if the expression is in the field subset
+ */
+export function isValidFieldXPath(xpath: string): boolean {
+  return matchesXPathSubset(xpath, FIELD_PATH);
+}
+
+// ===== Namespace constraints of wildcards =====
+
+/** Tokens that may appear in a namespace list next to namespace URIs. */
+const NAMESPACE_LIST_KEYWORDS = ["##targetNamespace", "##local"];
+
+/**
+ * Validates the namespace constraint of an xs:any or xs:anyAttribute:
+ * `##any`, `##other`, or a whitespace-separated list of namespace URIs,
+ * `##targetNamespace` and `##local`.
+ *
+ * @param namespace - The namespace attribute value
+ * @returns true if the value is a valid namespace constraint
+ */
+export function isValidNamespaceConstraint(namespace: string): boolean {
+  const tokens = namespace.trim().split(/\s+/).filter((token) => token.length > 0);
+  if (tokens.length === 0) {
+    return false;
+  }
+  if (tokens.length === 1 && (tokens[0] === "##any" || tokens[0] === "##other")) {
+    return true;
+  }
+  return tokens.every(
+    (token) => NAMESPACE_LIST_KEYWORDS.includes(token) || !token.startsWith("##")
+  );
+}
+
+/**
+ * Returns true if a block or final value is `#all` or a non-empty list of the allowed derivations.
+ *
+ * @param value - The block or final value
+ * @param allowed - The derivations that may be listed
+ * @returns true if the value is a valid derivation set
+ */
+export function isValidDerivationList(value: string, allowed: readonly string[]): boolean {
+  const tokens = value.split(/\s+/).filter((token) => token);
+  if (tokens.length === 1 && tokens[0] === "#all") {
+    return true;
+  }
+  return tokens.length > 0 && tokens.every((token) => allowed.includes(token));
+}
+
 /**
  * Validates minOccurs value.
  *
@@ -150,66 +254,6 @@ export function validateOccurrences(
   return validateOccurrenceConstraint(minOccurs, maxOccurs);
 }
 
-/**
- * List of built-in XSD type names (without namespace prefix).
- * The actual type reference can use any prefix (xs:, xsd:, etc.) or no prefix.
- */
-const BUILT_IN_XSD_TYPE_NAMES = new Set([
-  // String types
-  "string",
-  "normalizedString",
-  "token",
-  "language",
-  "Name",
-  "NCName",
-  "ID",
-  "IDREF",
-  "IDREFS",
-  "ENTITY",
-  "ENTITIES",
-  "NMTOKEN",
-  "NMTOKENS",
-  
-  // Numeric types
-  "decimal",
-  "integer",
-  "int",
-  "long",
-  "short",
-  "byte",
-  "nonNegativeInteger",
-  "positiveInteger",
-  "nonPositiveInteger",
-  "negativeInteger",
-  "unsignedLong",
-  "unsignedInt",
-  "unsignedShort",
-  "unsignedByte",
-  "float",
-  "double",
-  
-  // Date and time types
-  "date",
-  "time",
-  "dateTime",
-  "duration",
-  "gDay",
-  "gMonth",
-  "gMonthDay",
-  "gYear",
-  "gYearMonth",
-  
-  // Other types
-  "boolean",
-  "base64Binary",
-  "hexBinary",
-  "anyURI",
-  "QName",
-  "NOTATION",
-  "anyType",
-  "anySimpleType",
-]);
-
 /**
  * Extracts the local name from a potentially prefixed type name.
  * For example: "xs:string" -> "string", "string" -> "string"
@@ -236,14 +280,23 @@ function getTypePrefix(typeName: string): string | undefined {
 
 /**
  * Checks if a type name is a built-in XSD type.
- * Handles any namespace prefix (xs:, xsd:, etc.) or no prefix.
+ * The prefix is resolved against the schema: a name whose prefix (or default
+ * namespace, for unprefixed names) is bound to another namespace than XML
+ * Schema is not built-in, so `tns:string` names a type of the schema. Names
+ * with an undeclared prefix, or unprefixed without a default namespace, are
+ * taken as built-in by their local name.
  *
  * @param typeName - The type name to check
+ * @param schemaObj - The schema declaring the prefixes
  * @returns true if it's a built-in XSD type
  */
-function isBuiltInXsdType(typeName: string): boolean {
-  const localName = getLocalTypeName(typeName);
-  return BUILT_IN_XSD_TYPE_NAMES.has(localName);
+export function isBuiltInXsdType(typeName: string, schemaObj: schema): boolean {
+  const trimmed = typeName.trim();
+  const namespace = schemaObj._namespacePrefixes?.[getTypePrefix(trimmed) ?? ""];
+  return (
+    (namespace === undefined || namespace === XSD_NAMESPACE) &&
+    getBuiltInDatatype(getLocalTypeName(trimmed)) !== undefined
+  );
 }
 
 /**
@@ -255,13 +308,7 @@ function isBuiltInXsdType(typeName: string): boolean {
  */
 export function validateElementType(
   typeName: string,
-  schemaObj: { 
-    simpleType?: Array<{ name?: string }>, 
-    complexType?: Array<{ name?: string }>,
-    import_?: Array<{ namespace?: string }>,
-    include?: Array<{ schemaLocation?: string }>,
-    _namespacePrefixes?: Record<string, string>
-  }
+  schemaObj: schema
 ): ValidationResult {
   if (!typeName || typeName.trim().length === 0) {
     return { valid: false, error: "Element type is required" };
@@ -269,8 +316,8 @@ export function validateElementType(
 
   const trimmedType = typeName.trim();
 
-  // Check if it's a built-in XSD type (handles any prefix like xs:, xsd:, or no prefix)
-  if (isBuiltInXsdType(trimmedType)) {
+  // Check if it's a built-in XSD type (any prefix bound to the XML Schema namespace)
+  if (isBuiltInXsdType(trimmedType, schemaObj)) {
     return { valid: true };
   }
 
@@ -0,0 +1,274 @@
+/**
+ * Unit tests for wildcard validators.
+ * Tests validation of add, remove, and modify commands for xs:any and
+ * xs:anyAttribute.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import {
+  schema,
+  AddWildcardCommand,
+  AddWildcardPayload,
+  RemoveWildcardCommand,
+  ModifyWildcardCommand,
+  ModifyWildcardPayload,
+} from "../../shared/types";
+import {
+  validateAddWildcard,
+  validateRemoveWildcard,
+  validateModifyWildcard,
+} from "./wildcardValidators";
+import { expectInvalid } from "./validationTestHelpers";
+
+const OPEN_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:open" targetNamespace="urn:open">
+  <xs:complexType name="OpenType">
+    <xs:sequence>
+      <xs:element name="id" type="xs:string"/>
+      <xs:any namespace="##other" processContents="lax" minOccurs="0" maxOccurs="3"/>
+    </xs:sequence>
+    <xs:anyAttribute namespace="##any"/>
+  </xs:complexType>
+  <xs:complexType name="ClosedType">
+    <xs:all>
+      <xs:element name="name" type="xs:string"/>
+    </xs:all>
+  </xs:complexType>
+  <xs:attributeGroup name="CommonAttributes">
+    <xs:attribute name="lang" type="xs:language"/>
+  </xs:attributeGroup>
+  <xs:element name="note" type="xs:string"/>
+</xs:schema>`;
+
+const OPEN_SEQUENCE_ID = "/complexType:OpenType/sequence";
+
+describe("Wildcard Validators", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, OPEN_SCHEMA);
+  });
+
+  /** Builds an addWildcard command for an element wildcard in the OpenType sequence. */
+  function addCommand(overrides: Partial<AddWildcardPayload> = {}): AddWildcardCommand {
+    return {
+      type: "addWildcard",
+      payload: { parentId: OPEN_SEQUENCE_ID, kind: "any", ...overrides },
+    };
+  }
+
+  /** Builds a modifyWildcard command. */
+  function modifyCommand(payload: ModifyWildcardPayload): ModifyWildcardCommand {
+    return { type: "modifyWildcard", payload };
+  }
+
+  /** Builds a removeWildcard command. */
+  function removeCommand(wildcardId: string): RemoveWildcardCommand {
+    return { type: "removeWildcard", payload: { wildcardId } };
+  }
+
+  describe("validateAddWildcard", () => {
+    test("should accept an element wildcard in a sequence", () => {
+      const command = addCommand({
+        namespace: "urn:a ##targetNamespace",
+        processContents: "skip",
+        minOccurs: 0,
+        maxOccurs: "unbounded",
+      });
+
+      expect(validateAddWildcard(command, schemaObj).valid).toBe(true);
+    });
+
+    test("should accept an attribute wildcard on an attribute group", () => {
+      const command = addCommand({
+        parentId: "/attributeGroup:CommonAttributes",
+        kind: "anyAttribute",
+        namespace: "##local",
+      });
+
+      expect(validateAddWildcard(command, schemaObj).valid).toBe(true);
+    });
+
+    test("should reject an empty parent ID", () => {
+      const result = validateAddWildcard(addCommand({ parentId: " " }), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("Parent ID cannot be empty");
+    });
+
+    test("should reject an unknown kind", () => {
+      const command = addCommand();
+      // eslint-disable-next-line no-restricted-syntax -- simulates an untyped message from the webview
+      command.payload.kind = "anyElement" as unknown as AddWildcardPayload["kind"];
+
+      const result = validateAddWildcard(command, schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("Wildcard kind must be one of: any, anyAttribute");
+    });
+
+    test("should reject a parent that does not exist", () => {
+      const result = validateAddWildcard(
+        addCommand({ parentId: "/complexType:Missing/sequence" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe("Parent node not found: /complexType:Missing/sequence");
+    });
+
+    test("should reject an element wildcard in an all group", () => {
+      const result = validateAddWildcard(
+        addCommand({ parentId: "/complexType:ClosedType/all" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Element wildcards can only be added to a sequence or choice, not to: all"
+      );
+    });
+
+    test("should reject an attribute wildcard on an element", () => {
+      const result = validateAddWildcard(
+        addCommand({ parentId: "/element:note", kind: "anyAttribute" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Attribute wildcards can only be added to complex types or attribute groups, not to: topLevelElement"
+      );
+    });
+
+    test("should reject a second attribute wildcard", () => {
+      const result = validateAddWildcard(
+        addCommand({ parentId: "/complexType:OpenType", kind: "anyAttribute" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Parent already has an attribute wildcard: /complexType:OpenType"
+      );
+    });
+
+    test.each(["##all", "##any ##local", "##other urn:a", ""])(
+      "should reject the namespace %j",
+      (namespace) => {
+        const result = validateAddWildcard(addCommand({ namespace }), schemaObj);
+        expectInvalid(result);
+        expect(result.error).toBe(
+          `Invalid wildcard namespace '${namespace}': must be ##any, ##other, or a list of namespace URIs, ##targetNamespace and ##local`
+        );
+      }
+    );
+
+    test("should reject an unknown processContents", () => {
+      const command = addCommand();
+      // eslint-disable-next-line no-restricted-syntax -- simulates an untyped message from the webview
+      command.payload.processContents = "loose" as unknown as AddWildcardPayload["processContents"];
+
+      const result = validateAddWildcard(command, schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("processContents must be one of: strict, lax, skip");
+    });
+
+    test("should reject occurrences on attribute wildcards", () => {
+      const result = validateAddWildcard(
+        addCommand({
+          parentId: "/attributeGroup:CommonAttributes",
+          kind: "anyAttribute",
+          minOccurs: 0,
+        }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe("Attribute wildcards cannot have minOccurs or maxOccurs");
+    });
+
+    test("should reject minOccurs greater than maxOccurs", () => {
+      const result = validateAddWildcard(addCommand({ minOccurs: 2, maxOccurs: 1 }), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("minOccurs must be <= maxOccurs");
+    });
+  });
+
+  describe("validateRemoveWildcard", () => {
+    test("should accept existing wildcards", () => {
+      expect(
+        validateRemoveWildcard(removeCommand(`${OPEN_SEQUENCE_ID}/any[0]`), schemaObj).valid
+      ).toBe(true);
+      expect(
+        validateRemoveWildcard(removeCommand("/complexType:OpenType/anyAttribute"), schemaObj).valid
+      ).toBe(true);
+    });
+
+    test("should reject an empty wildcard ID", () => {
+      const result = validateRemoveWildcard(removeCommand(""), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("Wildcard ID cannot be empty");
+    });
+
+    test("should reject an ID that does not address a wildcard", () => {
+      const result = validateRemoveWildcard(removeCommand("/complexType:OpenType"), schemaObj);
+      expectInvalid(result);
+      expect(result.error).toBe("Not a wildcard ID: /complexType:OpenType");
+    });
+
+    test("should reject a wildcard that does not exist", () => {
+      const result = validateRemoveWildcard(
+        removeCommand("/attributeGroup:CommonAttributes/anyAttribute"),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(
+        "Wildcard not found: /attributeGroup:CommonAttributes/anyAttribute"
+      );
+    });
+  });
+
+  describe("validateModifyWildcard", () => {
+    test("should accept a new namespace and processContents", () => {
+      const command = modifyCommand({
+        wildcardId: "/complexType:OpenType/anyAttribute",
+        namespace: "##targetNamespace",
+        processContents: "lax",
+      });
+
+      expect(validateModifyWildcard(command, schemaObj).valid).toBe(true);
+    });
+
+    test("should check minOccurs against the current maxOccurs", () => {
+      const result = validateModifyWildcard(
+        modifyCommand({ wildcardId: `${OPEN_SEQUENCE_ID}/any[0]`, minOccurs: 4 }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe("minOccurs must be <= maxOccurs");
+    });
+
+    test("should accept raising maxOccurs to unbounded", () => {
+      const command = modifyCommand({
+        wildcardId: `${OPEN_SEQUENCE_ID}/any[0]`,
+        minOccurs: 4,
+        maxOccurs: "unbounded",
+      });
+
+      expect(validateModifyWildcard(command, schemaObj).valid).toBe(true);
+    });
+
+    test("should reject occurrences on attribute wildcards", () => {
+      const result = validateModifyWildcard(
+        modifyCommand({ wildcardId: "/complexType:OpenType/anyAttribute", maxOccurs: 2 }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe("Attribute wildcards cannot have minOccurs or maxOccurs");
+    });
+
+    test("should reject a wildcard position that does not exist", () => {
+      const result = validateModifyWildcard(
+        modifyCommand({ wildcardId: `${OPEN_SEQUENCE_ID}/any[1]`, processContents: "skip" }),
+        schemaObj
+      );
+      expectInvalid(result);
+      expect(result.error).toBe(`Wildcard not found: ${OPEN_SEQUENCE_ID}/any[1]`);
+    });
+  });
+});
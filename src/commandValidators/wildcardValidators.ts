@@ -0,0 +1,170 @@
+/**
+ * Validators for wildcard commands (xs:any, xs:anyAttribute).
+ */
+
+import {
+  schema,
+  AddWildcardCommand,
+  RemoveWildcardCommand,
+  ModifyWildcardCommand,
+  WildcardKind,
+} from "../../shared/types";
+import {
+  ValidationResult,
+  isValidNamespaceConstraint,
+  validateOccurrences,
+} from "./validationUtils";
+import {
+  PROCESS_CONTENTS_VALUES,
+  WILDCARD_KINDS,
+  getElementWildcardOccurrences,
+  isWildcardKind,
+  locateWildcard,
+  locateWildcardHolder,
+} from "../commandExecutors/wildcardUtils";
+
+// ===== Helpers =====
+
+/**
+ * Validates the properties shared by the add and modify commands.
+ *
+ * @param kind - Kind of the wildcard
+ * @param namespace - Namespace constraint, if given
+ * @param processContents - processContents value, if given
+ * @param minOccurs - minOccurs, if given
+ * @param maxOccurs - maxOccurs, if given
+ */
+function validateWildcardProperties(
+  kind: WildcardKind,
+  namespace: string | undefined,
+  processContents: string | undefined,
+  minOccurs: number | undefined,
+  maxOccurs: number | string | undefined
+): ValidationResult {
+  if (namespace !== undefined && !isValidNamespaceConstraint(namespace)) {
+    return {
+      valid: false,
+      error: `Invalid wildcard namespace '${namespace}': must be ##any, ##other, or a list of namespace URIs, ##targetNamespace and ##local`,
+    };
+  }
+  if (
+    processContents !== undefined &&
+    !(PROCESS_CONTENTS_VALUES as readonly string[]).includes(processContents)
+  ) {
+    return {
+      valid: false,
+      error: `processContents must be one of: ${PROCESS_CONTENTS_VALUES.join(", ")}`,
+    };
+  }
+  if (kind === "anyAttribute" && (minOccurs !== undefined || maxOccurs !== undefined)) {
+    return {
+      valid: false,
+      error: "Attribute wildcards cannot have minOccurs or maxOccurs",
+    };
+  }
+  return { valid: true };
+}
+
+// ===== Wildcard Validators =====
+
+/**
+ * Validates an addWildcard command.
+ *
+ * @param command - The command to validate
+ * @param schemaObj - The schema to validate against
+ * @returns Validation result
+ */
+export function validateAddWildcard(
+  command: AddWildcardCommand,
+  schemaObj: schema
+): ValidationResult {
+  const { parentId, kind, namespace, processContents, minOccurs, maxOccurs } = command.payload;
+
+  if (!parentId.trim()) {
+    return { valid: false, error: "Parent ID cannot be empty" };
+  }
+  if (!isWildcardKind(kind)) {
+    return {
+      valid: false,
+      error: `Wildcard kind must be one of: ${WILDCARD_KINDS.join(", ")}`,
+    };
+  }
+
+  const location = locateWildcardHolder(schemaObj, parentId, kind);
+  if (!location.found) {
+    return { valid: false, error: location.error };
+  }
+  if (location.kind === "anyAttribute" && location.holder.anyAttribute) {
+    return { valid: false, error: `Parent already has an attribute wildcard: ${parentId}` };
+  }
+
+  const propertiesValidation = validateWildcardProperties(
+    kind,
+    namespace,
+    processContents,
+    minOccurs,
+    maxOccurs
+  );
+  if (!propertiesValidation.valid) {
+    return propertiesValidation;
+  }
+  return validateOccurrences(minOccurs, maxOccurs);
+}
+
+/**
+ * Validates a removeWildcard command.
+ *
+ * @param command - The command to validate
+ * @param schemaObj - The schema to validate against
+ * @returns Validation result
+ */
+export function validateRemoveWildcard(
+  command: RemoveWildcardCommand,
+  schemaObj: schema
+): ValidationResult {
+  const { wildcardId } = command.payload;
+
+  if (!wildcardId.trim()) {
+    return { valid: false, error: "Wildcard ID cannot be empty" };
+  }
+  const location = locateWildcard(schemaObj, wildcardId);
+  return location.found ? { valid: true } : { valid: false, error: location.error };
+}
+
+/**
+ * Validates a modifyWildcard command.
+ * Occurrence constraints are checked together with the current values of
+ * the wildcard, so that e.g. raising minOccurs above the current maxOccurs fails.
+ *
+ * @param command - The command to validate
+ * @param schemaObj - The schema to validate against
+ * @returns Validation result
+ */
+export function validateModifyWildcard(
+  command: ModifyWildcardCommand,
+  schemaObj: schema
+): ValidationResult {
+  const { wildcardId, namespace, processContents, minOccurs, maxOccurs } = command.payload;
+
+  if (!wildcardId.trim()) {
+    return { valid: false, error: "Wildcard ID cannot be empty" };
+  }
+  const location = locateWildcard(schemaObj, wildcardId);
+  if (!location.found) {
+    return { valid: false, error: location.error };
+  }
+
+  const propertiesValidation = validateWildcardProperties(
+    location.kind,
+    namespace,
+    processContents,
+    minOccurs,
+    maxOccurs
+  );
+  if (!propertiesValidation.valid || location.kind === "anyAttribute") {
+    return propertiesValidation;
+  }
+
+  const current = getElementWildcardOccurrences(location.wildcard);
+  return validateOccurrences(minOccurs ?? current.minOccurs, maxOccurs ?? current.maxOccurs);
+}
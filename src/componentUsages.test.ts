@@ -0,0 +1,265 @@
+/**
+ * Unit tests for ComponentUsages.
+ * Tests that every kind of QName reference is found and reported at the ID
+ * of the referencing node, and that references to other namespaces or symbol
+ * spaces are not, and that a cascading safe delete reports the usages of
+ * everything it removes.
+ */
+
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import { schema } from "../shared/types";
+import {
+  findCascadeUsages,
+  findComponentUsages,
+  ComponentUsagesResult,
+} from "./componentUsages";
+
+const ORDER_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:tns="urn:orders"
+           xmlns:ext="urn:external"
+           targetNamespace="urn:orders">
+  <xs:import namespace="urn:external" schemaLocation="external.xsd"/>
+  <xs:element name="order" type="tns:OrderType">
+    <xs:key name="codeKey">
+      <xs:selector xpath="tns:code"/>
+      <xs:field xpath="."/>
+    </xs:key>
+    <xs:keyref name="codeRef" refer="tns:codeKey">
+      <xs:selector xpath="tns:line"/>
+      <xs:field xpath="."/>
+    </xs:keyref>
+  </xs:element>
+  <xs:element name="rushOrder" type="tns:OrderType" substitutionGroup="tns:order"/>
+  <xs:attribute name="currency" type="tns:CodeType"/>
+  <xs:complexType name="OrderType">
+    <xs:sequence>
+      <xs:element name="code" type="tns:CodeType"/>
+      <xs:element name="externalCode" type="ext:CodeType"/>
+      <xs:element ref="tns:order" minOccurs="0"/>
+      <xs:group ref="tns:LineGroup"/>
+      <xs:choice>
+        <xs:element name="altCode" type="tns:CodeType"/>
+      </xs:choice>
+    </xs:sequence>
+    <xs:attribute name="kind" type="tns:CodeType"/>
+    <xs:attribute ref="tns:currency"/>
+    <xs:attributeGroup ref="tns:PriceAttributes"/>
+  </xs:complexType>
+  <xs:complexType name="SpecialOrderType">
+    <xs:complexContent>
+      <xs:extension base="tns:OrderType">
+        <xs:sequence>
+          <xs:element name="note">
+            <xs:complexType>
+              <xs:attribute name="code" type="tns:CodeType"/>
+            </xs:complexType>
+          </xs:element>
+        </xs:sequence>
+      </xs:extension>
+    </xs:complexContent>
+  </xs:complexType>
+  <xs:simpleType name="CodeType">
+    <xs:restriction base="xs:string"/>
+  </xs:simpleType>
+  <xs:simpleType name="CodeList">
+    <xs:list itemType="tns:CodeType"/>
+  </xs:simpleType>
+  <xs:simpleType name="CodeOrNumber">
+    <xs:union memberTypes="tns:CodeType xs:int"/>
+  </xs:simpleType>
+  <xs:group name="LineGroup">
+    <xs:sequence>
+      <xs:element name="line" type="tns:CodeType"/>
+    </xs:sequence>
+  </xs:group>
+  <xs:attributeGroup name="PriceAttributes">
+    <xs:attribute name="amount" type="xs:decimal"/>
+    <xs:attributeGroup ref="tns:CurrencyAttributes"/>
+  </xs:attributeGroup>
+  <xs:attributeGroup name="CurrencyAttributes">
+    <xs:attribute ref="tns:currency"/>
+  </xs:attributeGroup>
+</xs:schema>`;
+
+describe("ComponentUsages", () => {
+  let schemaObj: schema;
+
+  beforeEach(() => {
+    schemaObj = unmarshal(schema, ORDER_SCHEMA);
+  });
+
+  /** Finds the usages of a component and fails if it is not found. */
+  function usagesOf(componentId: string): ComponentUsagesResult & { found: true } {
+    const result = findComponentUsages(schemaObj, componentId);
+    if (!result.found) {
+      throw new Error(result.error);
+    }
+    return result;
+  }
+
+  describe("findComponentUsages", () => {
+    test("should find the type, itemType and memberTypes usages of a simple type", () => {
+      expect(usagesOf("/simpleType:CodeType").usages).toEqual([
+        { nodeId: "/attribute:currency", attribute: "type", value: "tns:CodeType" },
+        {
+          nodeId: "/complexType:OrderType/group:sequence/element:code[0]",
+          attribute: "type",
+          value: "tns:CodeType",
+        },
+        {
+          nodeId: "/complexType:OrderType/group:sequence/choice[0]",
+          attribute: "type",
+          value: "tns:CodeType",
+        },
+        {
+          nodeId: "/complexType:OrderType/attribute:kind",
+          attribute: "type",
+          value: "tns:CodeType",
+        },
+        {
+          nodeId:
+            "/complexType:SpecialOrderType/group:sequence/element:note[0]/anonymousComplexType[0]/attribute:code",
+          attribute: "type",
+          value: "tns:CodeType",
+        },
+        { nodeId: "/simpleType:CodeList", attribute: "itemType", value: "tns:CodeType" },
+        { nodeId: "/simpleType:CodeOrNumber", attribute: "memberTypes", value: "tns:CodeType" },
+        { nodeId: "/group:LineGroup", attribute: "type", value: "tns:CodeType" },
+      ]);
+    });
+
+    test("should find the type and base usages of a complex type", () => {
+      expect(usagesOf("/complexType:OrderType").usages).toEqual([
+        { nodeId: "/element:order", attribute: "type", value: "tns:OrderType" },
+        { nodeId: "/element:rushOrder", attribute: "type", value: "tns:OrderType" },
+        { nodeId: "/complexType:SpecialOrderType", attribute: "base", value: "tns:OrderType" },
+      ]);
+    });
+
+    test("should find the ref and substitutionGroup usages of an element", () => {
+      expect(usagesOf("/element:order").usages).toEqual([
+        { nodeId: "/element:rushOrder", attribute: "substitutionGroup", value: "tns:order" },
+        {
+          nodeId: "/complexType:OrderType/group:sequence/element:tns:order[2]",
+          attribute: "ref",
+          value: "tns:order",
+        },
+      ]);
+    });
+
+    test("should find attribute, group and attribute group references", () => {
+      expect(usagesOf("/attribute:currency").usages).toEqual([
+        { nodeId: "/complexType:OrderType", attribute: "ref", value: "tns:currency" },
+        { nodeId: "/attributeGroup:CurrencyAttributes", attribute: "ref", value: "tns:currency" },
+      ]);
+      expect(usagesOf("/group:LineGroup").usages).toEqual([
+        { nodeId: "/complexType:OrderType/group:sequence", attribute: "ref", value: "tns:LineGroup" },
+      ]);
+      expect(usagesOf("/attributeGroup:CurrencyAttributes").usages).toEqual([
+        {
+          nodeId: "/attributeGroup:PriceAttributes",
+          attribute: "ref",
+          value: "tns:CurrencyAttributes",
+        },
+      ]);
+    });
+
+    test("should find the keyrefs referring to a key", () => {
+      expect(usagesOf("/element:order/key:codeKey").usages).toEqual([
+        { nodeId: "/element:order", attribute: "refer", value: "tns:codeKey" },
+      ]);
+    });
+
+    test("should return no usages for an unreferenced component", () => {
+      expect(usagesOf("/complexType:SpecialOrderType").usages).toEqual([]);
+    });
+
+    test("should not report references to other namespaces or symbol spaces", () => {
+      schemaObj = unmarshal(
+        schema,
+        `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+           xmlns:ext="urn:external">
+  <xs:element name="Code" type="ext:Code"/>
+  <xs:complexType name="Code"/>
+  <xs:element name="wrapper">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element ref="Code"/>
+      </xs:sequence>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`
+      );
+
+      expect(usagesOf("/complexType:Code").usages).toEqual([]);
+      expect(usagesOf("/element:Code").usages).toEqual([
+        {
+          nodeId: "/element:wrapper/anonymousComplexType[0]/group:sequence/element:Code[0]",
+          attribute: "ref",
+          value: "Code",
+        },
+      ]);
+    });
+
+    test("should report components that cannot be referenced or do not exist", () => {
+      expect(findComponentUsages(schemaObj, "/complexType:Missing")).toEqual({
+        found: false,
+        error: "Component not found: /complexType:Missing",
+      });
+      expect(findComponentUsages(schemaObj, "/element:order/keyref:codeRef")).toEqual({
+        found: false,
+        error: "Keyrefs cannot be referenced: /element:order/keyref:codeRef",
+      });
+      expect(findComponentUsages(schemaObj, "/complexType:OrderType/attribute:kind")).toEqual({
+        found: false,
+        error:
+          "Not a top-level element, attribute, type, group or attribute group: /complexType:OrderType/attribute:kind",
+      });
+    });
+  });
+
+  describe("findCascadeUsages", () => {
+    /** Finds the usages of what deleting a component removes along with it. */
+    function cascadeUsagesOf(componentId: string): ComponentUsagesResult {
+      return findCascadeUsages(schemaObj, unmarshal(schema, ORDER_SCHEMA), componentId);
+    }
+
+    test("should find the usages of the top-level components removed with a type", () => {
+      expect(cascadeUsagesOf("/simpleType:CodeType")).toEqual({
+        found: true,
+        usages: [
+          { nodeId: "/complexType:OrderType", attribute: "ref", value: "tns:currency" },
+          { nodeId: "/attributeGroup:CurrencyAttributes", attribute: "ref", value: "tns:currency" },
+        ],
+      });
+    });
+
+    test("should find the usages of removed elements and of their keys", () => {
+      expect(cascadeUsagesOf("/complexType:OrderType")).toEqual({
+        found: true,
+        usages: [
+          { nodeId: "/element:order", attribute: "refer", value: "tns:codeKey" },
+          { nodeId: "/element:rushOrder", attribute: "substitutionGroup", value: "tns:order" },
+          {
+            nodeId: "/complexType:OrderType/group:sequence/element:tns:order[2]",
+            attribute: "ref",
+            value: "tns:order",
+          },
+        ],
+      });
+    });
+
+    test("should find no usages if nothing else is removed", () => {
+      expect(cascadeUsagesOf("/group:LineGroup")).toEqual({ found: true, usages: [] });
+    });
+
+    test("should report a component that does not exist", () => {
+      expect(cascadeUsagesOf("/complexType:Missing")).toEqual({
+        found: false,
+        error: "Component not found: /complexType:Missing",
+      });
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * ComponentUsages: Finds every place in a schema that refers to a component.
+ *
+ * A usage is a QName-valued attribute that resolves to the component: an
+ * element or attribute type, a derivation base, a list item type or union
+ * member type, an element, attribute, group or attribute group reference, a
+ * substitution group head, or the key a keyref refers to.
+ *
+ * Usages are reported with the ID of the referencing node as the diagram and
+ * the source range index derive it, so they can be selected and revealed.
+ * The schema is searched with the traversal shared by all QName rewrites.
+ * Before a cascading safe delete, the usages of everything the cascade would
+ * remove along with the component are found as well.
+ */
+
+import { schema } from "../shared/types";
+import { ComponentUsageData } from "../shared/messages";
+import { parseSchemaId } from "../shared/idStrategy";
+import {
+  forEachQNameInSchema,
+  QNameReferenceKind,
+  QNameSite,
+} from "./commandExecutors/schemaQNameTraversal";
+import {
+  isQNameOfComponent,
+  locateComponent,
+  referenceKindOf,
+} from "./commandExecutors/componentReferences";
+import { deleteWithDependants } from "./commandExecutors/dependantRemoval";
+import {
+  isIdentityConstraintKind,
+  locateIdentityConstraint,
+} from "./commandExecutors/identityConstraintUtils";
+
+/** Result of finding the usages of a component. */
+export type ComponentUsagesResult =
+  | { found: true; usages: ComponentUsageData[] }
+  | { found: false; error: string };
+
+/**
+ * Calls a visitor for each QName of the schema that refers to a component of
+ * the target namespace.
+ */
+function forEachUsage(
+  schemaObj: schema,
+  kind: QNameReferenceKind,
+  name: string,
+  visit: (value: string, site: QNameSite) => void
+): void {
+  forEachQNameInSchema((value, valueKind, site) => {
+    if (value && valueKind === kind && isQNameOfComponent(value, name, schemaObj)) {
+      visit(value, site);
+    }
+  }, schemaObj);
+}
+
+// ===== Public API =====
+
+/**
+ * Collects where the QNames of the schema that refer to a component of the
+ * target namespace occur, with what each of them requires of the component.
+ *
+ * @param schemaObj - The schema to search
+ * @param kind - Symbol space of the component
+ * @param name - Local name of the component
+ * @returns The sites of the component's usages
+ */
+export function collectUsageSites(
+  schemaObj: schema,
+  kind: QNameReferenceKind,
+  name: string
+): QNameSite[] {
+  const sites: QNameSite[] = [];
+  forEachUsage(schemaObj, kind, name, (_value, site) => sites.push(site));
+  return sites;
+}
+
+/**
+ * Collects the QNames of the schema that refer to a component of the target
+ * namespace.
+ *
+ * @param schemaObj - The schema to search
+ * @param kind - Symbol space of the component
+ * @param name - Local name of the component
+ * @returns The usages of the component
+ */
+export function collectUsages(
+  schemaObj: schema,
+  kind: QNameReferenceKind,
+  name: string
+): ComponentUsageData[] {
+  const usages: ComponentUsageData[] = [];
+  forEachUsage(schemaObj, kind, name, (value, { nodeId, attribute }) =>
+    usages.push({ nodeId, attribute, value })
+  );
+  return usages;
+}
+
+/**
+ * Finds the usages of a component.
+ *
+ * @param schemaObj - The schema to search
+ * @param componentId - ID of a top-level element, attribute, type, group or
+ *   attribute group, or of a key or unique constraint,
+ *   e.g. "/complexType:Address" or "/element:orders/key:orderKey"
+ * @returns The usages, or an error message if the component is not found
+ */
+export function findComponentUsages(
+  schemaObj: schema,
+  componentId: string
+): ComponentUsagesResult {
+  let nodeType: string;
+  try {
+    nodeType = parseSchemaId(componentId).nodeType;
+  } catch (error) {
+    return { found: false, error: (error as Error).message };
+  }
+
+  if (isIdentityConstraintKind(nodeType)) {
+    const location = locateIdentityConstraint(schemaObj, componentId);
+    if (!location.found) {
+      return location;
+    }
+    if (location.kind === "keyref") {
+      return { found: false, error: `Keyrefs cannot be referenced: ${componentId}` };
+    }
+    return {
+      found: true,
+      usages: collectUsages(schemaObj, "identityConstraint", location.constraint.name),
+    };
+  }
+
+  const location = locateComponent(schemaObj, componentId);
+  if (!location.found) {
+    return location;
+  }
+  return {
+    found: true,
+    usages: collectUsages(schemaObj, referenceKindOf(location.kind), location.component.name ?? ""),
+  };
+}
+
+/**
+ * Finds the usages of the components a cascading safe delete removes along
+ * with a top-level component: the components depending on it, those
+ * depending on them in turn, and the key and unique constraints of a deleted
+ * element. The cascade is run on a copy of the schema.
+ *
+ * @param schemaObj - The schema to search
+ * @param copy - A copy of the schema to run the cascade on; it is modified
+ * @param componentId - ID of the top-level component to delete
+ * @returns The usages of the removed components, without the usages of the
+ *   component itself, or an error message if the component is not found
+ */
+export function findCascadeUsages(
+  schemaObj: schema,
+  copy: schema,
+  componentId: string
+): ComponentUsagesResult {
+  const location = locateComponent(copy, componentId);
+  if (!location.found) {
+    return location;
+  }
+  const [, ...dependants] = deleteWithDependants(copy, location.kind, location.component);
+
+  const kind = referenceKindOf(location.kind);
+  const keyOf = ({ nodeId, attribute, value }: ComponentUsageData): string =>
+    `${nodeId} ${attribute} ${value}`;
+  const seen = new Set(collectUsages(schemaObj, kind, location.component.name ?? "").map(keyOf));
+  const usages: ComponentUsageData[] = [];
+  for (const dependant of dependants) {
+    for (const usage of collectUsages(schemaObj, dependant.kind, dependant.name)) {
+      if (!seen.has(keyOf(usage))) {
+        seen.add(keyOf(usage));
+        usages.push(usage);
+      }
+    }
+  }
+  return { found: true, usages };
+}
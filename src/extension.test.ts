@@ -48,6 +48,15 @@ describe("Extension", () => {
       );
     });
 
+    it("should register the reference provider for XSD files", () => {
+      activate(mockContext);
+
+      expect(vscode.languages.registerReferenceProvider).toHaveBeenCalledWith(
+        { pattern: "**/*.xsd" },
+        expect.any(Object)
+      );
+    });
+
     it("should add registrations to context subscriptions", () => {
       activate(mockContext);
 
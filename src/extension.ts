@@ -1,9 +1,10 @@
 import * as vscode from "vscode";
 import { SchemaEditorProvider } from "./webviewProvider";
+import { SchemaReferenceProvider } from "./schemaReferenceProvider";
 
 /**
  * Activates the XML Schema Visual Editor extension.
- * Registers the custom editor provider and commands.
+ * Registers the custom editor provider, the reference provider and commands.
  * 
  * @param context - The extension context provided by VS Code
  */
@@ -24,6 +25,14 @@ export function activate(context: vscode.ExtensionContext): void {
     )
   );
 
+  // Find the usages of schema components from XSD text editors
+  context.subscriptions.push(
+    vscode.languages.registerReferenceProvider(
+      { pattern: "**/*.xsd" },
+      new SchemaReferenceProvider()
+    )
+  );
+
   // Register command to open schema in visual editor
   context.subscriptions.push(
     vscode.commands.registerCommand(
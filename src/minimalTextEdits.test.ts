@@ -0,0 +1,224 @@
+/**
+ * Unit tests for minimal text edits.
+ */
+
+import { computeMinimalTextEdits, applyTextEdits } from "./minimalTextEdits";
+
+/**
+ * Applies the minimal edits between two texts to the original text.
+ */
+function edit(original: string, updated: string): string {
+  return applyTextEdits(original, computeMinimalTextEdits(original, updated));
+}
+
+// The original documents use comments, single quotes, tabs or four-space
+// indentation; the updated documents mimic the uniform marshal output.
+const ORIGINAL = `<?xml version="1.0"?>
+<!-- Person schema -->
+<xsd:schema xmlns:xsd='http://www.w3.org/2001/XMLSchema' elementFormDefault='qualified'>
+    <!-- The root element -->
+    <xsd:element name='person' type='PersonType'/>
+
+    <xsd:complexType name='PersonType'>
+        <xsd:sequence>
+            <xsd:element name='name' type='xsd:string'/>
+        </xsd:sequence>
+    </xsd:complexType>
+</xsd:schema>
+`;
+
+const MARSHALLED = `<?xml version="1.0" encoding="UTF-8"?>
+<xsd:schema xmlns:xsd="http://www.w3.org/2001/XMLSchema" elementFormDefault="qualified">
+  <xsd:element name="person" type="PersonType"/>
+  <xsd:complexType name="PersonType">
+    <xsd:sequence>
+      <xsd:element name="name" type="xsd:string"/>
+    </xsd:sequence>
+  </xsd:complexType>
+</xsd:schema>`;
+
+describe("computeMinimalTextEdits", () => {
+  it("should not edit documents that only differ in formatting", () => {
+    expect(computeMinimalTextEdits(ORIGINAL, MARSHALLED)).toEqual([]);
+  });
+
+  it("should change attribute values in place, keeping the quote style", () => {
+    const updated = MARSHALLED.replace('type="PersonType"/>', 'type="xsd:string"/>');
+
+    expect(edit(ORIGINAL, updated)).toBe(
+      ORIGINAL.replace("type='PersonType'/>", "type='xsd:string'/>")
+    );
+    expect(computeMinimalTextEdits(ORIGINAL, updated)).toHaveLength(1);
+  });
+
+  it("should add and remove attributes", () => {
+    const updated = MARSHALLED.replace(
+      '<xsd:element name="person" type="PersonType"/>',
+      '<xsd:element name="person" nillable="true"/>'
+    );
+
+    expect(edit(ORIGINAL, updated)).toBe(
+      ORIGINAL.replace(
+        "<xsd:element name='person' type='PersonType'/>",
+        "<xsd:element name='person' nillable=\"true\"/>"
+      )
+    );
+  });
+
+  it("should insert elements in the indentation style of the original", () => {
+    const updated = MARSHALLED.replace(
+      '      <xsd:element name="name" type="xsd:string"/>\n',
+      '      <xsd:element name="name" type="xsd:string"/>\n      <xsd:element name="age" type="xsd:int"/>\n'
+    );
+
+    expect(edit(ORIGINAL, updated)).toBe(
+      ORIGINAL.replace(
+        "            <xsd:element name='name' type='xsd:string'/>\n",
+        "            <xsd:element name='name' type='xsd:string'/>\n            <xsd:element name=\"age\" type=\"xsd:int\"/>\n"
+      )
+    );
+  });
+
+  it("should format inserted elements with nested content", () => {
+    const updated = MARSHALLED.replace(
+      "</xsd:schema>",
+      '  <xsd:complexType name="AddressType"><xsd:sequence><xsd:element name="city"/></xsd:sequence></xsd:complexType>\n</xsd:schema>'
+    );
+
+    expect(edit(ORIGINAL, updated)).toBe(
+      ORIGINAL.replace(
+        "    </xsd:complexType>\n",
+        [
+          "    </xsd:complexType>",
+          "    <xsd:complexType name=\"AddressType\">",
+          "        <xsd:sequence>",
+          "            <xsd:element name=\"city\"/>",
+          "        </xsd:sequence>",
+          "    </xsd:complexType>",
+          "",
+        ].join("\n")
+      )
+    );
+  });
+
+  it("should delete elements with their leading whitespace and keep comments", () => {
+    const updated = MARSHALLED.replace('  <xsd:element name="person" type="PersonType"/>\n', "");
+
+    expect(edit(ORIGINAL, updated)).toBe(
+      ORIGINAL.replace("\n    <xsd:element name='person' type='PersonType'/>", "")
+    );
+  });
+
+  it("should edit a renamed element in place", () => {
+    const updated = MARSHALLED.replace('name="name"', 'name="fullName"');
+
+    expect(edit(ORIGINAL, updated)).toBe(ORIGINAL.replace("name='name'", "name='fullName'"));
+  });
+
+  it("should give self-closing elements their first children", () => {
+    const original = `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+\t<xs:complexType name="Empty"/>
+</xs:schema>`;
+    const updated = `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:complexType name="Empty">
+    <xs:sequence/>
+  </xs:complexType>
+</xs:schema>`;
+
+    expect(edit(original, updated)).toBe(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+\t<xs:complexType name="Empty">
+\t\t<xs:sequence/>
+\t</xs:complexType>
+</xs:schema>`);
+  });
+
+  it("should collapse elements that lose all children", () => {
+    const updated = MARSHALLED.replace(
+      '<xsd:sequence>\n      <xsd:element name="name" type="xsd:string"/>\n    </xsd:sequence>',
+      "<xsd:sequence/>"
+    );
+
+    expect(edit(ORIGINAL, updated)).toBe(
+      ORIGINAL.replace(
+        "<xsd:sequence>\n            <xsd:element name='name' type='xsd:string'/>\n        </xsd:sequence>",
+        "<xsd:sequence/>"
+      )
+    );
+  });
+
+  it("should replace changed documentation text and keep unchanged text", () => {
+    const original = `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:annotation>
+    <xs:documentation>
+      Keeps its   line breaks
+    </xs:documentation>
+    <xs:documentation>Old</xs:documentation>
+  </xs:annotation>
+</xs:schema>`;
+    const updated = `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:annotation>
+    <xs:documentation>Keeps its line breaks</xs:documentation>
+    <xs:documentation>New &amp; improved</xs:documentation>
+  </xs:annotation>
+</xs:schema>`;
+
+    expect(edit(original, updated)).toBe(original.replace(">Old<", ">New &amp; improved<"));
+  });
+
+  it("should keep namespace declarations that marshal dropped", () => {
+    const original = `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema" xmlns:unused="urn:unused">
+  <xs:element name="a"/>
+</xs:schema>`;
+    const updated = `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="b"/>
+</xs:schema>`;
+
+    expect(edit(original, updated)).toBe(original.replace('"a"', '"b"'));
+  });
+
+  it("should use the line endings of the original", () => {
+    const original = '<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">\r\n  <xs:element name="a"/>\r\n</xs:schema>';
+    const updated = '<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">\n  <xs:element name="a"/>\n  <xs:element name="b"/>\n</xs:schema>';
+
+    expect(edit(original, updated)).toBe(
+      original.replace('"a"/>', '"a"/>\r\n  <xs:element name="b"/>')
+    );
+  });
+
+  it("should return sorted edits that do not overlap", () => {
+    const updated = MARSHALLED.replace('name="person" type="PersonType"', 'name="human"').replace(
+      '<xsd:element name="name" type="xsd:string"/>',
+      '<xsd:element name="first" type="xsd:string"/>\n      <xsd:element name="last" type="xsd:string"/>'
+    );
+
+    const edits = computeMinimalTextEdits(ORIGINAL, updated);
+
+    edits.slice(1).forEach((current, index) => {
+      expect(current.start).toBeGreaterThan(edits[index].end);
+    });
+  });
+
+  it("should replace the whole document if the root element changed", () => {
+    expect(computeMinimalTextEdits("<a/>", "<b/>")).toEqual([
+      { start: 0, end: 4, newText: "<b/>" },
+    ]);
+  });
+
+  it("should replace the whole document if the original has no root element", () => {
+    expect(computeMinimalTextEdits("", MARSHALLED)).toEqual([
+      { start: 0, end: 0, newText: MARSHALLED },
+    ]);
+  });
+});
+
+describe("applyTextEdits", () => {
+  it("should apply edits in order", () => {
+    expect(
+      applyTextEdits("abcdef", [
+        { start: 0, end: 1, newText: "A" },
+        { start: 3, end: 3, newText: "-" },
+        { start: 4, end: 6, newText: "" },
+      ])
+    ).toBe("Abc-d");
+  });
+});
@@ -0,0 +1,443 @@
+/**
+ * MinimalTextEdits: Computes the text edits that turn an XSD document into the
+ * serialized result of a command while touching only the changed fragments.
+ * `marshal` output is formatted as a whole, so replacing the document with it
+ * would discard comments, attribute order, quoting and indentation. Instead, the
+ * element trees of both texts are aligned and only differing attributes and
+ * elements are rewritten; all other text stays byte-for-byte identical.
+ */
+
+import {
+  parseXmlSource,
+  childElements,
+  findAttribute,
+  lineIndentOf,
+  XmlSourceElement,
+} from "./xmlSourceTree";
+import { alignChildren } from "./xmlChildAlignment";
+import {
+  isEquivalentXml,
+  hasCharacterContent,
+  contentSignature,
+  isNamespaceDeclaration,
+} from "./xmlEquivalence";
+
+/**
+ * Replacement of a range of the original text, as character offsets.
+ */
+export interface XmlTextEdit {
+  /** Offset of the first replaced character */
+  start: number;
+  /** Offset just past the last replaced character; equals `start` for insertions */
+  end: number;
+  /** Text replacing the range */
+  newText: string;
+}
+
+/** Indentation used if the original text has no indented elements. */
+const DEFAULT_INDENT_UNIT = "  ";
+
+/**
+ * Computes the edits that turn the original text into a document equivalent to
+ * the updated text. Falls back to replacing the whole document if the texts
+ * cannot be aligned, e.g. because the original is not well-formed.
+ *
+ * @param original - The current document text
+ * @param updated - The serialized document after the change
+ * @returns Sorted, non-overlapping edits against the original text
+ */
+export function computeMinimalTextEdits(original: string, updated: string): XmlTextEdit[] {
+  if (original === updated) {
+    return [];
+  }
+  const fullReplacement: XmlTextEdit[] = [{ start: 0, end: original.length, newText: updated }];
+
+  const before = parseXmlSource(original).root;
+  const after = parseXmlSource(updated).root;
+  if (!before || !after || before.localName !== after.localName) {
+    return fullReplacement;
+  }
+
+  const differ = new ElementDiffer(original, updated);
+  differ.diffElements(before, after);
+  const edits = mergeTextEdits(original, differ.edits);
+
+  // Guard against alignments that do not reproduce the updated document
+  return isEquivalentXml(applyTextEdits(original, edits), updated) ? edits : fullReplacement;
+}
+
+/**
+ * Applies edits to a text.
+ *
+ * @param text - The original text
+ * @param edits - Sorted, non-overlapping edits against the text
+ * @returns The edited text
+ */
+export function applyTextEdits(text: string, edits: readonly XmlTextEdit[]): string {
+  let result = "";
+  let position = 0;
+  for (const edit of edits) {
+    result += text.substring(position, edit.start) + edit.newText;
+    position = edit.end;
+  }
+  return result + text.substring(position);
+}
+
+/**
+ * Aligns the element trees of the original and updated text and collects the
+ * edits for their differences.
+ */
+class ElementDiffer {
+  /** Edits collected so far, in no particular order */
+  public readonly edits: XmlTextEdit[] = [];
+  private readonly eol: string;
+  private readonly indentUnit: string;
+
+  /**
+   * Creates a new ElementDiffer.
+   *
+   * @param original - The current document text
+   * @param updated - The serialized document after the change
+   */
+  constructor(
+    private readonly original: string,
+    private readonly updated: string
+  ) {
+    this.eol = original.includes("\r\n") ? "\r\n" : "\n";
+    this.indentUnit = detectIndentUnit(original);
+  }
+
+  /**
+   * Collects the edits that turn an original element into its updated counterpart.
+   *
+   * @param before - Element of the original text
+   * @param after - Corresponding element of the updated text
+   */
+  public diffElements(before: XmlSourceElement, after: XmlSourceElement): void {
+    this.diffAttributes(before, after);
+
+    if (hasCharacterContent(before, this.original) || hasCharacterContent(after, this.updated)) {
+      if (contentSignature(before, this.original) !== contentSignature(after, this.updated)) {
+        this.replaceContent(before, after);
+      }
+      return;
+    }
+
+    const beforeChildren = childElements(before);
+    const afterChildren = childElements(after);
+
+    if (afterChildren.length === 0) {
+      if (beforeChildren.length > 0) {
+        this.removeChildren(before, beforeChildren);
+      }
+      return;
+    }
+    if (beforeChildren.length === 0) {
+      this.addFirstChildren(before, afterChildren);
+      return;
+    }
+
+    let anchor = before.startTagEnd;
+    let pending: XmlSourceElement[] = [];
+    for (const step of alignChildren(beforeChildren, afterChildren)) {
+      if (step.kind === "insert") {
+        pending.push(step.after);
+        continue;
+      }
+      if (step.kind === "delete") {
+        this.deleteElement(step.before);
+        continue;
+      }
+      this.insertElements(anchor, pending, this.childIndent(before));
+      pending = [];
+      this.diffElements(step.before, step.after);
+      anchor = step.before.end;
+    }
+    this.insertElements(anchor, pending, this.childIndent(before));
+  }
+
+  /**
+   * Collects the edits for added, changed and removed attributes. Namespace
+   * declarations are never removed, since `marshal` may drop unused ones.
+   *
+   * @param before - Element of the original text
+   * @param after - Corresponding element of the updated text
+   */
+  private diffAttributes(before: XmlSourceElement, after: XmlSourceElement): void {
+    const added: string[] = [];
+    for (const attribute of after.attributes) {
+      const existing = findAttribute(before, attribute.name);
+      if (!existing) {
+        added.push(this.updated.substring(attribute.start, attribute.end));
+      } else if (existing.value !== attribute.value) {
+        const quote = this.original[existing.valueEnd];
+        this.edits.push({
+          start: existing.valueStart,
+          end: existing.valueEnd,
+          newText: escapeAttributeValue(attribute.value, quote),
+        });
+      }
+    }
+
+    for (const attribute of before.attributes) {
+      if (!findAttribute(after, attribute.name) && !isNamespaceDeclaration(attribute.name)) {
+        this.edits.push({
+          start: skipWhitespaceBackwards(this.original, attribute.start),
+          end: attribute.end,
+          newText: "",
+        });
+      }
+    }
+
+    if (added.length > 0) {
+      const lastAttribute = before.attributes[before.attributes.length - 1];
+      const position = lastAttribute ? lastAttribute.end : before.start + 1 + before.name.length;
+      this.edits.push({
+        start: position,
+        end: position,
+        newText: added.map((attribute) => ` ${attribute}`).join(""),
+      });
+    }
+  }
+
+  /**
+   * Replaces the character content of an element, such as documentation text.
+   *
+   * @param before - Element of the original text
+   * @param after - Corresponding element of the updated text
+   */
+  private replaceContent(before: XmlSourceElement, after: XmlSourceElement): void {
+    const content = this.updated.substring(after.startTagEnd, after.contentEnd);
+    if (!content) {
+      this.collapseElement(before);
+    } else if (before.selfClosing) {
+      this.edits.push({
+        start: skipWhitespaceBackwards(this.original, before.end - 2),
+        end: before.end,
+        newText: `>${content}</${before.name}>`,
+      });
+    } else {
+      this.edits.push({ start: before.startTagEnd, end: before.contentEnd, newText: content });
+    }
+  }
+
+  /**
+   * Removes all child elements of an element. The element becomes self-closing
+   * unless it holds comments or processing instructions, which are kept.
+   *
+   * @param before - Element of the original text
+   * @param children - Its child elements
+   */
+  private removeChildren(before: XmlSourceElement, children: XmlSourceElement[]): void {
+    const keepsMarkup = before.children.some(
+      (child) => child.type === "comment" || child.type === "processingInstruction"
+    );
+    if (keepsMarkup) {
+      children.forEach((child) => this.deleteElement(child));
+    } else {
+      this.collapseElement(before);
+    }
+  }
+
+  /**
+   * Adds child elements to an element that has none yet.
+   *
+   * @param before - Element of the original text
+   * @param children - Child elements of the updated text to add
+   */
+  private addFirstChildren(before: XmlSourceElement, children: XmlSourceElement[]): void {
+    const indent = this.elementIndent(before);
+    const childIndent = indent + this.indentUnit;
+    const formatted = children
+      .map((child) => this.eol + childIndent + this.formatFragment(child, childIndent))
+      .join("");
+
+    if (before.selfClosing) {
+      this.edits.push({
+        start: skipWhitespaceBackwards(this.original, before.end - 2),
+        end: before.end,
+        newText: `>${formatted}${this.eol}${indent}</${before.name}>`,
+      });
+      return;
+    }
+
+    const content = this.original.substring(before.startTagEnd, before.contentEnd);
+    if (content.includes("\n")) {
+      this.edits.push({ start: before.startTagEnd, end: before.startTagEnd, newText: formatted });
+    } else {
+      this.edits.push({
+        start: before.startTagEnd,
+        end: before.contentEnd,
+        newText: `${formatted}${this.eol}${indent}`,
+      });
+    }
+  }
+
+  /**
+   * Turns an element into a self-closing element, dropping its content.
+   *
+   * @param before - Element of the original text
+   */
+  private collapseElement(before: XmlSourceElement): void {
+    if (!before.selfClosing) {
+      this.edits.push({ start: before.startTagEnd - 1, end: before.end, newText: "/>" });
+    }
+  }
+
+  /**
+   * Deletes an element together with the whitespace leading up to it.
+   *
+   * @param before - Element of the original text
+   */
+  private deleteElement(before: XmlSourceElement): void {
+    this.edits.push({
+      start: skipWhitespaceBackwards(this.original, before.start),
+      end: before.end,
+      newText: "",
+    });
+  }
+
+  /**
+   * Inserts elements of the updated text, each on its own line.
+   *
+   * @param position - Offset in the original text to insert at
+   * @param elements - Elements of the updated text
+   * @param indent - Indentation of the inserted elements
+   */
+  private insertElements(position: number, elements: XmlSourceElement[], indent: string): void {
+    if (elements.length === 0) {
+      return;
+    }
+    this.edits.push({
+      start: position,
+      end: position,
+      newText: elements
+        .map((element) => this.eol + indent + this.formatFragment(element, indent))
+        .join(""),
+    });
+  }
+
+  /**
+   * Formats an element of the updated text in the style of the original text.
+   * Elements with character content are copied verbatim.
+   *
+   * @param element - Element of the updated text
+   * @param indent - Indentation of the element's start tag
+   * @returns The formatted element
+   */
+  private formatFragment(element: XmlSourceElement, indent: string): string {
+    const children = childElements(element);
+    if (children.length === 0 || hasCharacterContent(element, this.updated)) {
+      return this.updated.substring(element.start, element.end);
+    }
+
+    const childIndent = indent + this.indentUnit;
+    const body = children
+      .map((child) => this.eol + childIndent + this.formatFragment(child, childIndent))
+      .join("");
+    return (
+      this.updated.substring(element.start, element.startTagEnd) +
+      body +
+      this.eol +
+      indent +
+      this.updated.substring(element.contentEnd, element.end)
+    );
+  }
+
+  /**
+   * Gets the indentation of an element of the original text.
+   *
+   * @param element - Element of the original text
+   * @returns The whitespace before the element on its line, or "" if it does not start a line
+   */
+  private elementIndent(element: XmlSourceElement): string {
+    return lineIndentOf(this.original, element.start) ?? "";
+  }
+
+  /**
+   * Gets the indentation for children of an element of the original text,
+   * preferring that of its existing children.
+   *
+   * @param element - Element of the original text
+   * @returns The indentation of the element's children
+   */
+  private childIndent(element: XmlSourceElement): string {
+    for (const child of childElements(element)) {
+      const indent = lineIndentOf(this.original, child.start);
+      if (indent !== undefined) {
+        return indent;
+      }
+    }
+    return this.elementIndent(element) + this.indentUnit;
+  }
+}
+
+/**
+ * Sorts edits and merges edits that touch or overlap, as VS Code rejects
+ * overlapping ranges in one workspace edit.
+ *
+ * @param original - The text the edits apply to
+ * @param edits - The edits in any order
+ * @returns Sorted, non-overlapping edits
+ */
+function mergeTextEdits(original: string, edits: XmlTextEdit[]): XmlTextEdit[] {
+  const sorted = [...edits].sort((a, b) => a.start - b.start || a.end - b.end);
+  const merged: XmlTextEdit[] = [];
+  for (const edit of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && edit.start <= last.end) {
+      last.newText += original.substring(last.end, Math.max(last.end, edit.start)) + edit.newText;
+      last.end = Math.max(last.end, edit.end);
+    } else {
+      merged.push({ ...edit });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Detects the indentation unit of a text from its indented lines.
+ *
+ * @param text - The document text
+ * @returns A tab if lines are indented with tabs, otherwise the smallest run of leading spaces
+ */
+function detectIndentUnit(text: string): string {
+  let smallest: string | undefined;
+  for (const match of text.matchAll(/\n([ \t]+)</g)) {
+    const indent = match[1];
+    if (indent.startsWith("\t")) {
+      return "\t";
+    }
+    if (!smallest || indent.length < smallest.length) {
+      smallest = indent;
+    }
+  }
+  return smallest ?? DEFAULT_INDENT_UNIT;
+}
+
+/**
+ * Moves an offset back over whitespace.
+ *
+ * @param text - The document text
+ * @param offset - The offset to start from
+ * @returns The offset of the first whitespace character of the run ending at the offset
+ */
+function skipWhitespaceBackwards(text: string, offset: number): number {
+  let position = offset;
+  while (position > 0 && /\s/.test(text[position - 1])) {
+    position--;
+  }
+  return position;
+}
+
+/**
+ * Escapes an attribute value for the given quote character.
+ *
+ * @param value - The unescaped value
+ * @param quote - The quote character delimiting the value
+ * @returns The escaped value
+ */
+function escapeAttributeValue(value: string, quote: string): string {
+  const escaped = value.replace(/&/g, "&amp;").replace(/</g, "&lt;");
+  return quote === "'" ? escaped.replace(/'/g, "&apos;") : escaped.replace(/"/g, "&quot;");
+}
@@ -5,6 +5,7 @@
  * - Schema loading and state management
  * - Marshalling (schema object to XML)
  * - Unmarshalling (XML to schema object)
+ * - Preservation of comments and formatting across the round trip
  * - Query interface for schema introspection
  * - Schema reference and import management
  * 
@@ -23,6 +24,7 @@ import {
   includeType,
 } from "../shared/types";
 import { toArray } from "../shared/schemaUtils";
+import { captureSchemaTrivia, restoreSchemaTrivia, SchemaTrivia } from "./schemaTrivia";
 
 /**
  * Result of a schema query operation.
@@ -40,6 +42,8 @@ export interface QueryResult<T> {
  */
 export class SchemaModelManager {
   private schemaState: schema | null = null;
+  /** Comments and formatting of the XML last loaded, restored when marshalling */
+  private trivia: SchemaTrivia | undefined;
 
   /**
    * Creates a new SchemaModelManager.
@@ -54,6 +58,8 @@ export class SchemaModelManager {
 
   /**
    * Loads schema from XML string.
+   * Comments, blank lines, CDATA sections and the namespace prefix are kept
+   * aside so that `toXml` can write them back.
    * 
    * @param xmlContent - The XML content to parse
    * @throws Error if parsing fails
@@ -61,6 +67,7 @@ export class SchemaModelManager {
   public loadFromXml(xmlContent: string): void {
     try {
       this.schemaState = unmarshal(schema, xmlContent);
+      this.trivia = captureSchemaTrivia(xmlContent);
     } catch (error) {
       throw new Error(
         `Failed to load schema from XML: ${(error as Error).message}`
@@ -79,6 +86,8 @@ export class SchemaModelManager {
 
   /**
    * Sets the schema state.
+   * The trivia of the XML last loaded is kept, since the new state is
+   * usually a modified copy of the loaded schema.
    * 
    * @param schemaObj - The schema object to set
    */
@@ -88,6 +97,7 @@ export class SchemaModelManager {
 
   /**
    * Marshals the current schema to XML.
+   * Trivia of the XML last loaded is restored on the components that still exist.
    * 
    * @returns The XML string representation of the schema
    * @throws Error if schema is not loaded or marshalling fails
@@ -98,7 +108,8 @@ export class SchemaModelManager {
     }
 
     try {
-      return marshal(this.schemaState);
+      const xml = marshal(this.schemaState);
+      return this.trivia ? restoreSchemaTrivia(xml, this.trivia) : xml;
     } catch (error) {
       throw new Error(
         `Failed to marshal schema to XML: ${(error as Error).message}`
@@ -142,6 +153,7 @@ export class SchemaModelManager {
    */
   public clear(): void {
     this.schemaState = null;
+    this.trivia = undefined;
   }
 
   // ===== Query Methods =====
@@ -314,6 +314,74 @@ describe("SchemaNavigator", () => {
         const parentGroup = result.parent as { name: string } | undefined;
         expect(parentGroup?.name).toBe("PersonGroup");
       });
+
+      it("should locate the compositor of a named group", () => {
+        const schemaXml = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:group name="PersonGroup">
+    <xs:choice>
+      <xs:element name="name" type="xs:string"/>
+    </xs:choice>
+  </xs:group>
+</xs:schema>`;
+        const schemaObj = unmarshal(schema, schemaXml);
+
+        const result = locateNodeById(schemaObj, "/group:PersonGroup/choice[0]");
+
+        expect(result.found).toBe(true);
+        expect(result.parentType).toBe("choice");
+      });
+    });
+
+    describe("Nested compositor navigation", () => {
+      const schemaXml = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:complexType name="PaymentType">
+    <xs:sequence>
+      <xs:element name="amount" type="xs:decimal"/>
+      <xs:choice>
+        <xs:element name="iban" type="xs:string"/>
+      </xs:choice>
+      <xs:choice>
+        <xs:element name="card" type="xs:string"/>
+        <xs:sequence>
+          <xs:element name="voucher" type="xs:string"/>
+        </xs:sequence>
+      </xs:choice>
+    </xs:sequence>
+  </xs:complexType>
+</xs:schema>`;
+
+      it("should locate a nested choice by its position among choices", () => {
+        const schemaObj = unmarshal(schema, schemaXml);
+
+        const result = locateNodeById(schemaObj, "/complexType:PaymentType/sequence[0]/choice[1]");
+
+        expect(result.found).toBe(true);
+        expect(result.parentType).toBe("choice");
+        const choice = result.parent as { element?: { name?: string }[] } | undefined;
+        expect(choice?.element?.[0].name).toBe("card");
+      });
+
+      it("should locate elements below several levels of compositors", () => {
+        const schemaObj = unmarshal(schema, schemaXml);
+
+        const result = locateNodeById(
+          schemaObj,
+          "/complexType:PaymentType/group:sequence/choice[1]/sequence/element:voucher[0]"
+        );
+
+        expect(result.found).toBe(true);
+        expect(result.parentType).toBe("localElement");
+      });
+
+      it("should return not found for a nested compositor position out of range", () => {
+        const schemaObj = unmarshal(schema, schemaXml);
+
+        const result = locateNodeById(schemaObj, "/complexType:PaymentType/sequence[0]/choice[2]");
+
+        expect(result.found).toBe(false);
+      });
     });
 
     describe("Error handling", () => {
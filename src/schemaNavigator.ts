@@ -12,6 +12,8 @@ import {
   explicitGroup,
   topLevelAttribute,
   attribute,
+  namedGroup,
+  ContentModel,
 } from "../shared/types";
 import { parseSchemaId, SchemaNodeType } from "../shared/idStrategy";
 import { toArray, isSchemaRoot } from "../shared/schemaUtils";
@@ -46,6 +48,9 @@ export interface NodeLocation {
  * // Find a sequence within a complex type
  * locateNodeById(schema, "/complexType:PersonType/sequence[0]")
  * // Returns the sequence group where elements can be added
+ *
+ * // Find the second choice nested in that sequence
+ * locateNodeById(schema, "/complexType:PersonType/sequence[0]/choice[1]")
  * ```
  */
 export function locateNodeById(
@@ -186,6 +191,8 @@ function navigateToChild(
       name,
       position
     );
+  } else if (parentType === "namedGroup") {
+    return navigateFromNamedGroup(parent as namedGroup, nodeType, name, position);
   } else if (
     parentType === "topLevelAttribute" ||
     parentType === "attribute"
@@ -280,7 +287,7 @@ function navigateFromElement(
 }
 
 /**
- * Navigate from a complex type to a child (sequence, choice, all).
+ * Navigate from a complex type to a child (sequence, choice, all, attribute).
  */
 function navigateFromComplexType(
   complexType: topLevelComplexType | localComplexType,
@@ -288,47 +295,12 @@ function navigateFromComplexType(
   name?: string,
   position?: number
 ): { found: boolean; node?: unknown; nodeType?: string } {
-  // Complex types can have sequence, choice, or all as children
-  if (nodeType === SchemaNodeType.Group && name === "sequence") {
-    if ((complexType).sequence) {
-      return {
-        found: true,
-        node: (complexType).sequence,
-        nodeType: "sequence",
-      };
-    }
-  } else if (nodeType === SchemaNodeType.Group && name === "choice") {
-    if ((complexType).choice) {
-      return {
-        found: true,
-        node: (complexType).choice,
-        nodeType: "choice",
-      };
-    }
-  } else if (nodeType === SchemaNodeType.Group && name === "all") {
-    if ((complexType).all) {
-      return { found: true, node: (complexType).all, nodeType: "all" };
-    }
+  const compositor = compositorKindOf(nodeType, name);
+  if (compositor) {
+    return navigateToContentModel(complexType, compositor, position);
   }
 
-  // Handle direct navigation to sequence/choice/all without explicit "group:" prefix
-  if (!name && !position) {
-    if (nodeType === "sequence" as SchemaNodeType && (complexType).sequence) {
-      return {
-        found: true,
-        node: (complexType).sequence,
-        nodeType: "sequence",
-      };
-    } else if (nodeType === "choice" as SchemaNodeType && (complexType).choice) {
-      return {
-        found: true,
-        node: (complexType).choice,
-        nodeType: "choice",
-      };
-    } else if (nodeType === "all" as SchemaNodeType && (complexType).all) {
-      return { found: true, node: (complexType).all, nodeType: "all" };
-    }
-  } else if (nodeType === SchemaNodeType.Attribute) {
+  if (nodeType === SchemaNodeType.Attribute) {
     const attrs = toArray(complexType.attribute);
     const attr = findByNameOrPosition(attrs, name, position);
     if (attr) {
@@ -339,6 +311,52 @@ function navigateFromComplexType(
   return { found: false };
 }
 
+/**
+ * Navigate from a named group to its compositor (sequence, choice, all).
+ */
+function navigateFromNamedGroup(
+  group: namedGroup,
+  nodeType: SchemaNodeType,
+  name?: string,
+  position?: number
+): { found: boolean; node?: unknown; nodeType?: string } {
+  const compositor = compositorKindOf(nodeType, name);
+  return compositor
+    ? navigateToContentModel(group, compositor, position)
+    : { found: false };
+}
+
+/**
+ * Returns the compositor named by a segment, accepting both the plain form
+ * (`sequence`, `choice[1]`) and the `group:sequence` form used by the diagram.
+ */
+function compositorKindOf(
+  nodeType: SchemaNodeType,
+  name?: string
+): ContentModel | undefined {
+  const kind = nodeType === SchemaNodeType.Group ? name : name ? undefined : nodeType;
+  return kind === "sequence" || kind === "choice" || kind === "all"
+    ? kind
+    : undefined;
+}
+
+/**
+ * Navigate to the compositor defining the content model of a complex type
+ * or named group. A holder has at most one compositor, so only position 0
+ * (or no position) matches.
+ */
+function navigateToContentModel(
+  holder: { sequence?: unknown; choice?: unknown; all?: unknown },
+  compositor: ContentModel,
+  position?: number
+): { found: boolean; node?: unknown; nodeType?: string } {
+  const node = holder[compositor];
+  if (node && !position) {
+    return { found: true, node, nodeType: compositor };
+  }
+  return { found: false };
+}
+
 /**
  * Navigate from an attribute to a child (anonymousSimpleType).
  */
@@ -358,7 +376,9 @@ function navigateFromAttribute(
 }
 
 /**
- * Navigate from a group (sequence/choice/all) to a child element.
+ * Navigate from a group (sequence/choice/all) to a child element or to a
+ * nested sequence or choice. Nested compositors are addressed by their
+ * position among the compositors of the same kind, e.g. `choice[1]`.
  */
 function navigateFromGroup(
   group: explicitGroup,
@@ -372,6 +392,15 @@ function navigateFromGroup(
     if (element) {
       return { found: true, node: element, nodeType: "localElement" };
     }
+    return { found: false };
+  }
+
+  const compositor = compositorKindOf(nodeType, name);
+  if (compositor === "sequence" || compositor === "choice") {
+    const nested = toArray(group[compositor])[position ?? 0];
+    if (nested) {
+      return { found: true, node: nested, nodeType: compositor };
+    }
   }
 
   return { found: false };
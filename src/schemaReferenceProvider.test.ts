@@ -0,0 +1,148 @@
+/**
+ * Unit tests for SchemaReferenceProvider.
+ */
+
+import * as vscode from "vscode";
+import {
+  SchemaReferenceProvider,
+  findComponentIdAtOffset,
+  locateUsages,
+} from "./schemaReferenceProvider";
+import { SourceRangeIndex } from "./sourceRangeIndex";
+
+const SCHEMA = `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="order" type="OrderType"/>
+  <xs:complexType name="OrderType">
+    <xs:sequence>
+      <xs:element name="code" type="CodeType"/>
+      <xs:choice>
+        <xs:element name="altCode" type="CodeType"/>
+        <xs:element name="otherCode" type="CodeType"/>
+      </xs:choice>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:simpleType name="CodeType">
+    <xs:restriction base="xs:string"/>
+  </xs:simpleType>
+  <xs:simpleType name="CodeOrNumber">
+    <xs:union memberTypes="xs:int  CodeType"/>
+  </xs:simpleType>
+</xs:schema>`;
+
+/** Returns the span of the n-th occurrence of a text in the schema. */
+function spanOf(text: string, occurrence = 0): { start: number; end: number } {
+  let start = -1;
+  for (let i = 0; i <= occurrence; i++) {
+    start = SCHEMA.indexOf(text, start + 1);
+  }
+  return { start, end: start + text.length };
+}
+
+describe("SchemaReferenceProvider", () => {
+  const index = SourceRangeIndex.build(SCHEMA);
+
+  describe("findComponentIdAtOffset", () => {
+    it("should find the top-level component around an offset", () => {
+      expect(findComponentIdAtOffset(index, SCHEMA.indexOf('"altCode"'))).toBe(
+        "/complexType:OrderType"
+      );
+      expect(findComponentIdAtOffset(index, SCHEMA.indexOf('"order"'))).toBe("/element:order");
+    });
+
+    it("should return undefined outside the top-level components", () => {
+      expect(findComponentIdAtOffset(index, 2)).toBeUndefined();
+    });
+  });
+
+  describe("locateUsages", () => {
+    it("should locate each QName at its attribute value", () => {
+      const spans = locateUsages(SCHEMA, index, [
+        { nodeId: "/element:order", attribute: "type", value: "OrderType" },
+        { nodeId: "/simpleType:CodeOrNumber", attribute: "memberTypes", value: "CodeType" },
+      ]);
+
+      expect(spans).toEqual([spanOf("OrderType"), spanOf("CodeType", 4)]);
+    });
+
+    it("should locate repeated usages of one node at successive occurrences", () => {
+      const usage = {
+        nodeId: "/complexType:OrderType/group:sequence/choice[0]",
+        attribute: "type",
+        value: "CodeType",
+      };
+      const spans = locateUsages(SCHEMA, index, [
+        {
+          nodeId: "/complexType:OrderType/group:sequence/element:code[0]",
+          attribute: "type",
+          value: "CodeType",
+        },
+        usage,
+        usage,
+      ]);
+
+      expect(spans).toEqual([spanOf("CodeType"), spanOf("CodeType", 1), spanOf("CodeType", 2)]);
+    });
+
+    it("should fall back to the start tag and skip nodes that are not in the document", () => {
+      const spans = locateUsages(SCHEMA, index, [
+        { nodeId: "/element:order", attribute: "substitutionGroup", value: "head" },
+        { nodeId: "/element:missing", attribute: "type", value: "CodeType" },
+      ]);
+
+      const range = index.findRange("/element:order");
+      expect(spans).toEqual([{ start: range?.start, end: range?.startTagEnd }]);
+    });
+  });
+
+  describe("provideReferences", () => {
+    // eslint-disable-next-line no-restricted-syntax -- partial stub; unused TextDocument fields omitted
+    const document = {
+      uri: { toString: () => "/test/schema.xsd" } as vscode.Uri,
+      getText: () => SCHEMA,
+      // Positions are represented by their offsets to keep the stub simple
+      offsetAt: (position: number) => position,
+      positionAt: (offset: number) => offset,
+    } as unknown as vscode.TextDocument;
+    const provider = new SchemaReferenceProvider();
+
+    /** Finds the references of the component declared around an offset. */
+    function referencesAt(offset: number, includeDeclaration: boolean): vscode.Location[] {
+      return provider.provideReferences(
+        document,
+        // eslint-disable-next-line no-restricted-syntax -- positions are stubbed as offsets
+        offset as unknown as vscode.Position,
+        { includeDeclaration }
+      );
+    }
+
+    it("should return the locations of the usages of the component under the cursor", () => {
+      const codeType = SCHEMA.indexOf('name="CodeType"');
+
+      const locations = referencesAt(codeType, false);
+
+      expect(locations).toHaveLength(4);
+      expect(locations[0]).toEqual({
+        uri: document.uri,
+        range: { start: spanOf("CodeType").start, end: spanOf("CodeType").end },
+      });
+    });
+
+    it("should include the declaration when asked to", () => {
+      const order = SCHEMA.indexOf('name="order"');
+
+      const locations = referencesAt(order, true);
+
+      const declaration = index.findRange("/element:order");
+      expect(locations).toEqual([
+        {
+          uri: document.uri,
+          range: { start: declaration?.start, end: declaration?.startTagEnd },
+        },
+      ]);
+    });
+
+    it("should return no locations outside the top-level components", () => {
+      expect(referencesAt(2, true)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * SchemaReferenceProvider: Answers "Find All References" in XSD text editors.
+ * The references of a top-level component are the QNames that refer to it, as
+ * found by {@link findComponentUsages}, located in the document text through
+ * the source range index.
+ */
+
+import * as vscode from "vscode";
+import { unmarshal } from "@neumaennl/xmlbind-ts";
+import { schema } from "../shared/types";
+import { ComponentUsageData } from "../shared/messages";
+import { parseSchemaId, SchemaNodeType } from "../shared/idStrategy";
+import { findComponentUsages } from "./componentUsages";
+import { SourceRange, SourceRangeIndex } from "./sourceRangeIndex";
+
+/**
+ * A span of the document text, as character offsets.
+ */
+export interface TextSpan {
+  /** Offset of the first character */
+  start: number;
+  /** Offset just past the last character */
+  end: number;
+}
+
+/**
+ * Finds the ID of the top-level component declared around an offset.
+ *
+ * @param index - The source range index of the document
+ * @param offset - Character offset in the document
+ * @returns The component ID, or undefined if the offset is not inside a component
+ */
+export function findComponentIdAtOffset(
+  index: SourceRangeIndex,
+  offset: number
+): string | undefined {
+  const nodeId = index.findIdAtOffset(offset);
+  if (!nodeId) {
+    return undefined;
+  }
+  const { nodeType, path } = parseSchemaId(nodeId);
+  return path.length === 1 && nodeType === SchemaNodeType.Schema ? undefined : `/${path[0]}`;
+}
+
+/**
+ * Locates the QNames of usages in the document text. Each usage is located in
+ * the source range of its node, outside the nodes nested in it that have IDs
+ * of their own, at the attribute that holds it. A usage whose QName cannot be
+ * found there is located at the start tag of the node.
+ *
+ * @param text - The document text
+ * @param index - The source range index of the document
+ * @param usages - The usages to locate
+ * @returns The spans of the usages that could be located
+ */
+export function locateUsages(
+  text: string,
+  index: SourceRangeIndex,
+  usages: readonly ComponentUsageData[]
+): TextSpan[] {
+  const spans: TextSpan[] = [];
+  // A node can hold the same reference several times, e.g. the elements of a
+  // nested compositor; each occurrence is matched to the next one in the text
+  const occurrences = new Map<string, number>();
+  for (const usage of usages) {
+    const range = index.findRange(usage.nodeId);
+    if (!range) {
+      continue;
+    }
+    const key = `${usage.nodeId} ${usage.attribute} ${usage.value}`;
+    const occurrence = occurrences.get(key) ?? 0;
+    occurrences.set(key, occurrence + 1);
+    const nested = index
+      .getRanges()
+      .filter((other) => other.start > range.start && other.end <= range.end);
+    spans.push(
+      findQNameInRange(text, range, nested, usage, occurrence) ?? {
+        start: range.start,
+        end: range.startTagEnd,
+      }
+    );
+  }
+  return spans;
+}
+
+/**
+ * Finds an occurrence of a QName in the values of an attribute within the
+ * source range of a node. List-valued attributes such as memberTypes are
+ * searched token by token.
+ *
+ * @param text - The document text
+ * @param range - The source range of the node
+ * @param nested - Ranges of nested nodes, whose attributes are skipped
+ * @param usage - The usage whose attribute and QName to find
+ * @param occurrence - Number of earlier occurrences to skip
+ * @returns The span of the QName, or undefined if it does not occur
+ */
+function findQNameInRange(
+  text: string,
+  range: SourceRange,
+  nested: readonly SourceRange[],
+  usage: ComponentUsageData,
+  occurrence: number
+): TextSpan | undefined {
+  const attributePattern = new RegExp(`\\b${usage.attribute}\\s*=\\s*(["'])(.*?)\\1`, "gs");
+  attributePattern.lastIndex = range.start;
+  let skipped = 0;
+  for (let match = attributePattern.exec(text); match; match = attributePattern.exec(text)) {
+    const offset = match.index;
+    if (offset >= range.end) {
+      break;
+    }
+    if (nested.some((other) => offset >= other.start && offset < other.end)) {
+      continue;
+    }
+    const valueStart = match.index + match[0].length - match[2].length - 1;
+    const tokenPattern = /\S+/g;
+    for (let token = tokenPattern.exec(match[2]); token; token = tokenPattern.exec(match[2])) {
+      if (token[0] !== usage.value) {
+        continue;
+      }
+      if (skipped === occurrence) {
+        const tokenStart = valueStart + token.index;
+        return { start: tokenStart, end: tokenStart + token[0].length };
+      }
+      skipped++;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Provides the references of the top-level component under the cursor.
+ */
+export class SchemaReferenceProvider implements vscode.ReferenceProvider {
+  /**
+   * Finds the usages of the top-level component whose declaration contains
+   * the position.
+   *
+   * @param document - The XSD document
+   * @param position - The position of the cursor
+   * @param context - Whether to include the declaration of the component
+   * @returns The locations of the references; empty if the position is not
+   *   inside a component or the document cannot be parsed
+   */
+  public provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.ReferenceContext
+  ): vscode.Location[] {
+    const text = document.getText();
+    const index = SourceRangeIndex.build(text);
+    const componentId = findComponentIdAtOffset(index, document.offsetAt(position));
+    if (!componentId) {
+      return [];
+    }
+
+    let schemaObj: schema;
+    try {
+      schemaObj = unmarshal(schema, text);
+    } catch {
+      return [];
+    }
+    const result = findComponentUsages(schemaObj, componentId);
+    if (!result.found) {
+      return [];
+    }
+
+    const spans = locateUsages(text, index, result.usages);
+    const declaration = index.findRange(componentId);
+    if (context.includeDeclaration && declaration) {
+      spans.unshift({ start: declaration.start, end: declaration.startTagEnd });
+    }
+    return spans.map(
+      (span) =>
+        new vscode.Location(
+          document.uri,
+          new vscode.Range(document.positionAt(span.start), document.positionAt(span.end))
+        )
+    );
+  }
+}
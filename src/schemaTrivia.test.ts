@@ -0,0 +1,139 @@
+/**
+ * Unit tests for capturing and restoring schema trivia.
+ * The serialized texts mimic the uniform `marshal` output.
+ */
+
+import { captureSchemaTrivia, restoreSchemaTrivia, SchemaTrivia } from "./schemaTrivia";
+
+/**
+ * Captures the trivia of a document, failing the test if it has no root element.
+ */
+function triviaOf(text: string): SchemaTrivia {
+  const trivia = captureSchemaTrivia(text);
+  if (!trivia) {
+    throw new Error("No root element");
+  }
+  return trivia;
+}
+
+const ORIGINAL = `<?xml version="1.0"?>
+<!-- Licence header -->
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+
+  <!-- Elements -->
+  <xs:element name="a" type="xs:string"/>
+
+  <xs:element name="b">
+    <xs:annotation>
+      <xs:documentation><![CDATA[<b>bold</b>]]></xs:documentation>
+    </xs:annotation>
+  </xs:element>
+  <!-- End of elements -->
+</xs:schema>
+`;
+
+const MARSHALLED = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="a" type="xs:string"/>
+  <xs:element name="b">
+    <xs:annotation>
+      <xs:documentation>&lt;b&gt;bold&lt;/b&gt;</xs:documentation>
+    </xs:annotation>
+  </xs:element>
+</xs:schema>`;
+
+describe("captureSchemaTrivia", () => {
+  it("should attach comments and blank lines to the following element", () => {
+    const trivia = triviaOf(ORIGINAL);
+
+    expect(trivia.prolog).toBe('<?xml version="1.0"?>\n<!-- Licence header -->\n');
+    expect(trivia.epilog).toBe("\n");
+    expect(trivia.root.children[0].leading).toEqual([
+      { kind: "blankLine" },
+      { kind: "markup", text: "<!-- Elements -->" },
+    ]);
+    expect(trivia.root.children[1].leading).toEqual([{ kind: "blankLine" }]);
+    expect(trivia.root.closing).toEqual([{ kind: "markup", text: "<!-- End of elements -->" }]);
+  });
+
+  it("should return undefined for text without root element", () => {
+    expect(captureSchemaTrivia("<!-- only a comment -->")).toBeUndefined();
+  });
+});
+
+describe("restoreSchemaTrivia", () => {
+  it("should restore the original document when nothing changed", () => {
+    expect(restoreSchemaTrivia(MARSHALLED, triviaOf(ORIGINAL))).toBe(ORIGINAL);
+  });
+
+  it("should keep trivia with its component when siblings are added", () => {
+    const marshalled = MARSHALLED.replace(
+      '  <xs:element name="a"',
+      '  <xs:element name="new"/>\n  <xs:element name="a"'
+    );
+
+    expect(restoreSchemaTrivia(marshalled, triviaOf(ORIGINAL))).toBe(
+      ORIGINAL.replace("\n\n  <!-- Elements -->", '\n  <xs:element name="new"/>\n\n  <!-- Elements -->')
+    );
+  });
+
+  it("should drop the trivia of removed components", () => {
+    const marshalled = MARSHALLED.replace('  <xs:element name="a" type="xs:string"/>\n', "");
+
+    expect(restoreSchemaTrivia(marshalled, triviaOf(ORIGINAL))).toBe(
+      ORIGINAL.replace('\n  <!-- Elements -->\n  <xs:element name="a" type="xs:string"/>\n', "")
+    );
+  });
+
+  it("should keep trivia of components whose name changed", () => {
+    const marshalled = MARSHALLED.replace('name="a"', 'name="renamed"');
+
+    expect(restoreSchemaTrivia(marshalled, triviaOf(ORIGINAL))).toBe(
+      ORIGINAL.replace('name="a"', 'name="renamed"')
+    );
+  });
+
+  it("should only restore character content that is still equivalent", () => {
+    const marshalled = MARSHALLED.replace("&lt;b&gt;bold&lt;/b&gt;", "plain");
+
+    expect(restoreSchemaTrivia(marshalled, triviaOf(ORIGINAL))).toBe(
+      ORIGINAL.replace("<![CDATA[<b>bold</b>]]>", "plain")
+    );
+  });
+
+  it("should indent trivia like the serialized elements", () => {
+    const original = '<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">\n\t<!-- c -->\n\t<xs:element name="a"/>\n</xs:schema>';
+    const marshalled = '<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">\n  <xs:element name="a"/>\n</xs:schema>';
+
+    expect(restoreSchemaTrivia(marshalled, triviaOf(original))).toBe(
+      '<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">\n  <!-- c -->\n  <xs:element name="a"/>\n</xs:schema>'
+    );
+  });
+
+  it("should restore the prefix of the XML Schema namespace", () => {
+    const original = '<xsd:schema xmlns:xsd="http://www.w3.org/2001/XMLSchema">\n  <xsd:element name="a"/>\n  <xsd:sequence></xsd:sequence>\n</xsd:schema>';
+    const marshalled = '<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">\n  <xs:element name="a"/>\n  <xs:sequence></xs:sequence>\n</xs:schema>';
+
+    expect(restoreSchemaTrivia(marshalled, triviaOf(original))).toBe(original);
+  });
+
+  it("should keep the serialized prefix declared if attribute values use it", () => {
+    const original = '<xsd:schema xmlns:xsd="http://www.w3.org/2001/XMLSchema"/>';
+    const marshalled = '<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">\n  <xs:element name="a" type="xs:string"/>\n</xs:schema>';
+
+    expect(restoreSchemaTrivia(marshalled, triviaOf(original))).toBe(
+      '<xsd:schema xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xs="http://www.w3.org/2001/XMLSchema">\n  <xsd:element name="a" type="xs:string"/>\n</xsd:schema>'
+    );
+  });
+
+  it("should restore the default namespace style", () => {
+    const original = '<schema xmlns="http://www.w3.org/2001/XMLSchema">\n  <element name="a"/>\n</schema>';
+    const marshalled = '<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">\n  <xs:element name="a"/>\n</xs:schema>';
+
+    expect(restoreSchemaTrivia(marshalled, triviaOf(original))).toBe(original);
+  });
+
+  it("should not restore trivia if the root element changed", () => {
+    expect(restoreSchemaTrivia("<other/>", triviaOf(ORIGINAL))).toBe("<other/>");
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * SchemaTrivia: Keeps the parts of an XSD document that `unmarshal` discards and
+ * writes them back into `marshal` output.
+ *
+ * Preserved are comments, processing instructions, blank lines, the prolog,
+ * CDATA sections and other raw character content, and the prefix used for the
+ * XML Schema namespace. Trivia is attached to the schema component it precedes,
+ * or to the closing tag of the parent after its last child, so it stays with
+ * its component when siblings are added or removed and disappears when the
+ * component itself is deleted.
+ */
+
+import {
+  parseXmlSource,
+  childElements,
+  findAttribute,
+  localNameOf,
+  lineIndentOf,
+  XmlSourceElement,
+} from "./xmlSourceTree";
+import { alignChildren } from "./xmlChildAlignment";
+import { hasCharacterContent, contentSignature } from "./xmlEquivalence";
+import { applyTextEdits, XmlTextEdit } from "./minimalTextEdits";
+
+/**
+ * A comment or processing instruction as written, or an empty line.
+ */
+export type TriviaItem = { kind: "blankLine" } | { kind: "markup"; text: string };
+
+/**
+ * Trivia attached to an element of the original document.
+ */
+export interface ElementTrivia {
+  /** The element in the original document, used to find it again after marshalling */
+  source: XmlSourceElement;
+  /** Trivia between the previous sibling element (or the parent's start tag) and the element */
+  leading: TriviaItem[];
+  /** Trivia between the last child element and the end tag */
+  closing: TriviaItem[];
+  /** Trivia of the child elements */
+  children: ElementTrivia[];
+}
+
+/**
+ * Trivia of a whole document.
+ */
+export interface SchemaTrivia {
+  /** The original document text */
+  text: string;
+  /** Text before the root element, e.g. the XML declaration and licence headers */
+  prolog: string;
+  /** Text after the root element */
+  epilog: string;
+  /** Trivia of the root element */
+  root: ElementTrivia;
+}
+
+/**
+ * Captures the trivia of a document.
+ *
+ * @param text - The original document text
+ * @returns The trivia, or undefined if the text has no root element
+ */
+export function captureSchemaTrivia(text: string): SchemaTrivia | undefined {
+  const root = parseXmlSource(text).root;
+  if (!root) {
+    return undefined;
+  }
+  return {
+    text,
+    prolog: text.substring(0, root.start),
+    epilog: text.substring(root.end),
+    root: captureElementTrivia(root, text, []),
+  };
+}
+
+/**
+ * Writes captured trivia back into a serialized schema. Elements of the
+ * serialized text are matched with the original elements the same way minimal
+ * text edits align them; trivia of original elements without a match is dropped.
+ *
+ * @param marshalled - The serialized schema
+ * @param trivia - Trivia captured from the original document
+ * @returns The serialized schema with the trivia restored
+ */
+export function restoreSchemaTrivia(marshalled: string, trivia: SchemaTrivia): string {
+  const root = parseXmlSource(marshalled).root;
+  if (!root || root.localName !== trivia.root.source.localName) {
+    return marshalled;
+  }
+  const restorer = new TriviaRestorer(trivia.text, marshalled);
+  restorer.replace(0, root.start, trivia.prolog);
+  restorer.replace(root.end, marshalled.length, trivia.epilog);
+  restorer.restoreElement(trivia.root, root);
+  restorer.restorePrefix(prefixOf(trivia.root.source.name), root);
+  return restorer.apply();
+}
+
+/**
+ * Captures the trivia of an element and its descendants.
+ *
+ * @param element - The original element
+ * @param text - The original document text
+ * @param leading - Trivia preceding the element
+ * @returns The trivia of the element
+ */
+function captureElementTrivia(
+  element: XmlSourceElement,
+  text: string,
+  leading: TriviaItem[]
+): ElementTrivia {
+  const children: ElementTrivia[] = [];
+  let pending: TriviaItem[] = [];
+  for (const node of element.children) {
+    if (node.type === "element") {
+      children.push(captureElementTrivia(node, text, pending));
+      pending = [];
+    } else if (node.type === "text") {
+      pending.push(...blankLinesOf(text.substring(node.start, node.end)));
+    } else if (node.type === "comment" || node.type === "processingInstruction") {
+      pending.push({ kind: "markup", text: text.substring(node.start, node.end) });
+    }
+  }
+  return { source: element, leading, closing: pending, children };
+}
+
+/**
+ * Collects the empty lines in whitespace between markup.
+ *
+ * @param whitespace - Text between two nodes
+ * @returns One blank line per empty line, or none if the text is not whitespace
+ */
+function blankLinesOf(whitespace: string): TriviaItem[] {
+  if (/\S/.test(whitespace)) {
+    return [];
+  }
+  const lineBreaks = whitespace.split("\n").length - 1;
+  return Array.from({ length: Math.max(0, lineBreaks - 1) }, () => ({ kind: "blankLine" }));
+}
+
+/**
+ * Collects the edits that restore trivia in a serialized schema.
+ */
+class TriviaRestorer {
+  private readonly edits: XmlTextEdit[] = [];
+  private readonly eol: string;
+
+  /**
+   * Creates a restorer.
+   *
+   * @param original - The original document text
+   * @param marshalled - The serialized schema
+   */
+  constructor(
+    private readonly original: string,
+    private readonly marshalled: string
+  ) {
+    this.eol = marshalled.includes("\r\n") ? "\r\n" : "\n";
+  }
+
+  /**
+   * Replaces a range of the serialized schema, unless it already has the text.
+   *
+   * @param start - Offset of the first replaced character
+   * @param end - Offset just past the last replaced character
+   * @param newText - The replacement
+   */
+  public replace(start: number, end: number, newText: string): void {
+    if (this.marshalled.substring(start, end) !== newText) {
+      this.edits.push({ start, end, newText });
+    }
+  }
+
+  /**
+   * Restores the trivia of an element and its descendants.
+   *
+   * @param trivia - Trivia of the original element
+   * @param element - The matching serialized element
+   */
+  public restoreElement(trivia: ElementTrivia, element: XmlSourceElement): void {
+    const children = childElements(element);
+    if (trivia.children.length === 0 && children.length === 0) {
+      this.restoreContent(trivia.source, element);
+      return;
+    }
+
+    const triviaBySource = new Map(trivia.children.map((child) => [child.source, child]));
+    for (const step of alignChildren(trivia.children.map((child) => child.source), children)) {
+      const childTrivia = step.kind === "match" ? triviaBySource.get(step.before) : undefined;
+      if (step.kind === "match" && childTrivia) {
+        this.insertTrivia(childTrivia.leading, step.after.start);
+        this.restoreElement(childTrivia, step.after);
+      }
+    }
+
+    const lastChild = children[children.length - 1];
+    if (lastChild && !element.selfClosing) {
+      this.insertTrivia(trivia.closing, element.contentEnd, lineIndentOf(this.marshalled, lastChild.start));
+    }
+  }
+
+  /**
+   * Restores the XSD namespace prefix of the original document on all elements
+   * serialized with a different prefix, and declares it on the root element.
+   *
+   * @param prefix - Prefix of the original root element; empty for the default namespace
+   * @param root - The serialized root element
+   */
+  public restorePrefix(prefix: string, root: XmlSourceElement): void {
+    const marshalledPrefix = prefixOf(root.name);
+    const declaration = findAttribute(root, namespaceDeclarationOf(marshalledPrefix));
+    if (prefix === marshalledPrefix || !declaration) {
+      return;
+    }
+    const existing = findAttribute(root, namespaceDeclarationOf(prefix));
+    if (existing && existing.value !== declaration.value) {
+      // The prefix is bound to another namespace, so renaming would change the meaning
+      return;
+    }
+
+    if (!existing) {
+      const name = namespaceDeclarationOf(prefix);
+      // QName values such as type="xs:string" may still need the serialized prefix
+      if (marshalledPrefix === "" || this.usesPrefixInValues(root, marshalledPrefix)) {
+        this.replace(declaration.start, declaration.start, `${name}="${declaration.value}" `);
+      } else {
+        this.replace(declaration.start, declaration.start + declaration.name.length, name);
+      }
+    }
+    this.renameElements(root, marshalledPrefix, prefix);
+  }
+
+  /**
+   * Applies the collected edits.
+   *
+   * @returns The serialized schema with the trivia restored
+   */
+  public apply(): string {
+    const sorted = [...this.edits].sort((a, b) => a.start - b.start);
+    return applyTextEdits(this.marshalled, sorted);
+  }
+
+  /**
+   * Restores the original character content of an element without children,
+   * such as CDATA sections or line breaks in documentation, if the serialized
+   * content is equivalent.
+   *
+   * @param source - The original element
+   * @param element - The matching serialized element
+   */
+  private restoreContent(source: XmlSourceElement, element: XmlSourceElement): void {
+    if (
+      !element.selfClosing &&
+      hasCharacterContent(source, this.original) &&
+      contentSignature(source, this.original) === contentSignature(element, this.marshalled)
+    ) {
+      this.replace(
+        element.startTagEnd,
+        element.contentEnd,
+        this.original.substring(source.startTagEnd, source.contentEnd)
+      );
+    }
+  }
+
+  /**
+   * Inserts trivia before a tag. Each item gets its own line if the tag starts a line.
+   *
+   * @param items - The trivia to insert
+   * @param offset - Offset of the tag
+   * @param indent - Indentation of inserted lines; defaults to that of the tag
+   */
+  private insertTrivia(items: TriviaItem[], offset: number, indent?: string): void {
+    if (items.length === 0) {
+      return;
+    }
+    const lineIndent = lineIndentOf(this.marshalled, offset);
+    if (lineIndent === undefined) {
+      const markup = items.map((item) => (item.kind === "markup" ? item.text : ""));
+      this.edits.push({ start: offset, end: offset, newText: markup.join("") });
+      return;
+    }
+    const itemIndent = indent ?? lineIndent;
+    const lines = items.map((item) =>
+      item.kind === "markup" ? `${itemIndent}${item.text}${this.eol}` : this.eol
+    );
+    const lineStart = offset - lineIndent.length;
+    this.edits.push({ start: lineStart, end: lineStart, newText: lines.join("") });
+  }
+
+  /**
+   * Renames the prefix of an element and its descendants.
+   *
+   * @param element - The serialized element
+   * @param from - The serialized prefix
+   * @param to - The original prefix
+   */
+  private renameElements(element: XmlSourceElement, from: string, to: string): void {
+    if (prefixOf(element.name) === from) {
+      const name = to ? `${to}:${element.localName}` : element.localName;
+      this.replace(element.start + 1, element.start + 1 + element.name.length, name);
+      if (!element.selfClosing) {
+        this.replace(element.contentEnd + 2, element.contentEnd + 2 + element.name.length, name);
+      }
+    }
+    for (const child of childElements(element)) {
+      this.renameElements(child, from, to);
+    }
+  }
+
+  /**
+   * Checks whether attribute values refer to a prefix, as QNames do.
+   *
+   * @param element - The serialized element to search with its descendants
+   * @param prefix - The prefix
+   * @returns True if an attribute value contains a name with the prefix
+   */
+  private usesPrefixInValues(element: XmlSourceElement, prefix: string): boolean {
+    const qualified = `${prefix}:`;
+    return (
+      element.attributes.some(
+        (attribute) =>
+          !attribute.name.startsWith("xmlns") &&
+          attribute.value.split(/\s+/).some((token) => token.startsWith(qualified))
+      ) || childElements(element).some((child) => this.usesPrefixInValues(child, prefix))
+    );
+  }
+}
+
+/**
+ * Gets the namespace prefix of a qualified name.
+ *
+ * @param qualifiedName - The name as written in the tag
+ * @returns The prefix, or an empty string for unprefixed names
+ */
+function prefixOf(qualifiedName: string): string {
+  const localName = localNameOf(qualifiedName);
+  return qualifiedName.substring(0, Math.max(0, qualifiedName.length - localName.length - 1));
+}
+
+/**
+ * Gets the name of the attribute declaring a prefix.
+ *
+ * @param prefix - The prefix; empty for the default namespace
+ * @returns `xmlns:prefix`, or `xmlns` for the default namespace
+ */
+function namespaceDeclarationOf(prefix: string): string {
+  return prefix ? `xmlns:${prefix}` : "xmlns";
+}
@@ -0,0 +1,183 @@
+/**
+ * Unit tests for SelectionSync.
+ */
+
+import * as vscode from "vscode";
+import { ExtensionMessage } from "../shared/messages";
+import { SelectionSync } from "./selectionSync";
+
+const SCHEMA = `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="person" type="xs:string"/>
+  <xs:complexType name="PersonType"/>
+</xs:schema>`;
+
+type SelectionListener = (e: vscode.TextEditorSelectionChangeEvent) => void;
+
+/**
+ * Sets the text editors the mocked window reports as visible.
+ */
+function setVisibleTextEditors(editors: readonly vscode.TextEditor[]): void {
+  (vscode.window as { visibleTextEditors: readonly vscode.TextEditor[] }).visibleTextEditors = editors;
+}
+
+describe("SelectionSync", () => {
+  let document: vscode.TextDocument;
+  let editor: vscode.TextEditor;
+  let postMessage: jest.Mock<void, [ExtensionMessage]>;
+  let sync: SelectionSync;
+
+  /**
+   * Returns the listener registered for text editor selection changes.
+   */
+  function selectionListener(): SelectionListener {
+    const onSelection = vscode.window.onDidChangeTextEditorSelection as jest.MockedFunction<
+      (listener: SelectionListener) => vscode.Disposable
+    >;
+    return onSelection.mock.calls[0][0];
+  }
+
+  /**
+   * Simulates the user moving the cursor to an offset in the text editor.
+   */
+  function moveCursor(
+    offset: number,
+    kind = vscode.TextEditorSelectionChangeKind.Mouse
+  ): void {
+    // eslint-disable-next-line no-restricted-syntax -- partial stub; only the fields read by SelectionSync
+    const event = {
+      textEditor: editor,
+      selections: [{ active: offset }],
+      kind,
+    } as unknown as vscode.TextEditorSelectionChangeEvent;
+    selectionListener()(event);
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    // Positions are represented by their offsets to keep the stub simple
+    // eslint-disable-next-line no-restricted-syntax -- partial stub; unused TextDocument fields omitted
+    document = {
+      uri: { toString: () => "/test/schema.xsd" },
+      version: 1,
+      getText: jest.fn(() => SCHEMA),
+      positionAt: jest.fn((offset: number) => offset),
+      offsetAt: jest.fn((position: number) => position),
+    } as unknown as vscode.TextDocument;
+
+    // eslint-disable-next-line no-restricted-syntax -- partial stub; unused TextEditor fields omitted
+    editor = {
+      document,
+      selection: undefined,
+      revealRange: jest.fn(),
+      setDecorations: jest.fn(),
+    } as unknown as vscode.TextEditor;
+
+    postMessage = jest.fn<void, [ExtensionMessage]>();
+    sync = new SelectionSync(document, postMessage);
+  });
+
+  afterEach(() => {
+    setVisibleTextEditors([]);
+  });
+
+  describe("revealNode", () => {
+    it("should select, reveal and highlight the node in a visible text editor", async () => {
+      setVisibleTextEditors([editor]);
+      const start = SCHEMA.indexOf("<xs:complexType");
+      const end = SCHEMA.indexOf("</xs:schema>") - 1;
+
+      await sync.revealNode("/complexType:PersonType");
+
+      expect(vscode.window.showTextDocument).not.toHaveBeenCalled();
+      expect(editor.selection).toEqual({ anchor: start, active: start });
+      expect(editor.revealRange).toHaveBeenCalledWith(
+        { start, end },
+        vscode.TextEditorRevealType.InCenterIfOutsideViewport
+      );
+      expect(editor.setDecorations).toHaveBeenCalledWith(expect.anything(), [{ start, end }]);
+    });
+
+    it("should open the document beside the visual editor if it is not shown as text", async () => {
+      (vscode.window.showTextDocument as jest.Mock).mockResolvedValue(editor);
+
+      await sync.revealNode("/element:person");
+
+      expect(vscode.window.showTextDocument).toHaveBeenCalledWith(document, {
+        viewColumn: vscode.ViewColumn.Beside,
+        preserveFocus: true,
+      });
+      expect(editor.revealRange).toHaveBeenCalled();
+    });
+
+    it("should ignore nodes that are not in the document", async () => {
+      await sync.revealNode("/element:missing");
+
+      expect(vscode.window.showTextDocument).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("text editor selection", () => {
+    it("should reveal the node under the cursor in the diagram", () => {
+      moveCursor(SCHEMA.indexOf("PersonType"));
+
+      expect(postMessage).toHaveBeenCalledWith({
+        command: "revealNode",
+        data: { nodeId: "/complexType:PersonType" },
+      });
+      expect(editor.setDecorations).toHaveBeenCalledWith(expect.anything(), []);
+    });
+
+    it("should send a node only once while the cursor stays on it", () => {
+      moveCursor(SCHEMA.indexOf("person"));
+      moveCursor(SCHEMA.indexOf("person") + 2, vscode.TextEditorSelectionChangeKind.Keyboard);
+
+      expect(postMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not echo nodes revealed from the diagram", async () => {
+      setVisibleTextEditors([editor]);
+      await sync.revealNode("/element:person");
+
+      moveCursor(SCHEMA.indexOf("person"));
+
+      expect(postMessage).not.toHaveBeenCalled();
+    });
+
+    it("should ignore programmatic selections and other documents", () => {
+      moveCursor(SCHEMA.indexOf("person"), vscode.TextEditorSelectionChangeKind.Command);
+      // eslint-disable-next-line no-restricted-syntax -- partial stub; only the document URI is read
+      editor = { document: { uri: { toString: () => "/other.xsd" } } } as unknown as vscode.TextEditor;
+      moveCursor(SCHEMA.indexOf("person"));
+
+      expect(postMessage).not.toHaveBeenCalled();
+    });
+
+    it("should rebuild the index after the document changed", () => {
+      const changed = SCHEMA.replace("PersonType", "AddressType");
+      (document.getText as jest.Mock).mockReturnValue(changed);
+      (document as { version: number }).version = 2;
+
+      moveCursor(changed.indexOf("AddressType"));
+
+      expect(postMessage).toHaveBeenCalledWith({
+        command: "revealNode",
+        data: { nodeId: "/complexType:AddressType" },
+      });
+    });
+  });
+
+  describe("dispose", () => {
+    it("should dispose the selection listener and the highlight", () => {
+      const subscription = (vscode.window.onDidChangeTextEditorSelection as jest.Mock).mock
+        .results[0].value as vscode.Disposable;
+      const decoration = (vscode.window.createTextEditorDecorationType as jest.Mock).mock
+        .results[0].value as vscode.TextEditorDecorationType;
+
+      sync.dispose();
+
+      expect(subscription.dispose).toHaveBeenCalled();
+      expect(decoration.dispose).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * SelectionSync: Keeps the diagram selection and the text editor cursor of an
+ * XSD document in step. Selecting a node in the diagram reveals and highlights
+ * its XSD text; moving the cursor in the text selects the matching diagram node.
+ */
+
+import * as vscode from "vscode";
+import { ExtensionMessage } from "../shared/messages";
+import { SourceRangeIndex } from "./sourceRangeIndex";
+
+/**
+ * Synchronises the selection between the visual editor of one document
+ * and the text editors showing the same document.
+ */
+export class SelectionSync implements vscode.Disposable {
+  private readonly highlight: vscode.TextEditorDecorationType;
+  private readonly selectionSubscription: vscode.Disposable;
+  private index: SourceRangeIndex | undefined;
+  private indexVersion = -1;
+  private lastNodeId: string | undefined;
+
+  /**
+   * Creates a new SelectionSync and starts listening to text editor selections.
+   *
+   * @param document - The document shown in the visual editor
+   * @param postMessage - Callback used to send messages to the webview
+   */
+  constructor(
+    private readonly document: vscode.TextDocument,
+    private readonly postMessage: (message: ExtensionMessage) => void
+  ) {
+    this.highlight = vscode.window.createTextEditorDecorationType({
+      backgroundColor: new vscode.ThemeColor("editor.rangeHighlightBackground"),
+    });
+    this.selectionSubscription = vscode.window.onDidChangeTextEditorSelection(
+      (e) => this.handleSelectionChange(e)
+    );
+  }
+
+  /**
+   * Reveals and highlights the XSD text of a schema node. Uses a visible text
+   * editor of the document, or opens one beside the visual editor.
+   *
+   * @param nodeId - ID of the schema node selected in the diagram
+   */
+  public async revealNode(nodeId: string): Promise<void> {
+    const range = this.getIndex().findRange(nodeId);
+    if (!range) {
+      return;
+    }
+
+    const editor =
+      this.findTextEditor() ??
+      (await vscode.window.showTextDocument(this.document, {
+        viewColumn: vscode.ViewColumn.Beside,
+        preserveFocus: true,
+      }));
+
+    const start = this.document.positionAt(range.start);
+    const startTag = new vscode.Range(start, this.document.positionAt(range.startTagEnd));
+    const node = new vscode.Range(start, this.document.positionAt(range.end));
+
+    // The node is selected in the diagram already, so the cursor landing on it
+    // must not be sent back to the webview
+    this.lastNodeId = nodeId;
+    editor.selection = new vscode.Selection(start, start);
+    editor.revealRange(startTag, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    editor.setDecorations(this.highlight, [node]);
+  }
+
+  /**
+   * Stops listening to selections and removes the highlight.
+   */
+  public dispose(): void {
+    this.selectionSubscription.dispose();
+    this.highlight.dispose();
+  }
+
+  /**
+   * Selects the diagram node under the cursor when the user moves the cursor
+   * in a text editor of the document.
+   *
+   * @param e - The selection change event
+   */
+  private handleSelectionChange(e: vscode.TextEditorSelectionChangeEvent): void {
+    if (e.textEditor.document.uri.toString() !== this.document.uri.toString()) {
+      return;
+    }
+    // Selections set programmatically, including by revealNode, are ignored
+    if (
+      e.kind !== vscode.TextEditorSelectionChangeKind.Mouse &&
+      e.kind !== vscode.TextEditorSelectionChangeKind.Keyboard
+    ) {
+      return;
+    }
+
+    e.textEditor.setDecorations(this.highlight, []);
+
+    const offset = this.document.offsetAt(e.selections[0].active);
+    const nodeId = this.getIndex().findIdAtOffset(offset);
+    if (!nodeId || nodeId === this.lastNodeId) {
+      return;
+    }
+
+    this.lastNodeId = nodeId;
+    this.postMessage({ command: "revealNode", data: { nodeId } });
+  }
+
+  /**
+   * Gets the source range index of the document, rebuilding it after edits.
+   *
+   * @returns The index for the current document version
+   */
+  private getIndex(): SourceRangeIndex {
+    if (!this.index || this.indexVersion !== this.document.version) {
+      this.index = SourceRangeIndex.build(this.document.getText());
+      this.indexVersion = this.document.version;
+    }
+    return this.index;
+  }
+
+  /**
+   * Finds a visible text editor showing the document.
+   *
+   * @returns The text editor, or undefined if the document is not shown as text
+   */
+  private findTextEditor(): vscode.TextEditor | undefined {
+    const uri = this.document.uri.toString();
+    return vscode.window.visibleTextEditors.find(
+      (editor) => editor.document.uri.toString() === uri
+    );
+  }
+}
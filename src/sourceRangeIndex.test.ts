@@ -0,0 +1,147 @@
+/**
+ * Unit tests for SourceRangeIndex.
+ */
+
+import { SourceRangeIndex } from "./sourceRangeIndex";
+
+const SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- <xs:element name="commented"/> -->
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="person">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="name" type="xs:string"/>
+        <xs:element ref="address"/>
+      </xs:sequence>
+      <xs:attribute name="id" type="xs:ID"/>
+    </xs:complexType>
+  </xs:element>
+  <xs:complexType name="Derived">
+    <xs:complexContent>
+      <xs:extension base="Base">
+        <xs:choice>
+          <xs:element name="a" type="xs:string"/>
+        </xs:choice>
+      </xs:extension>
+    </xs:complexContent>
+  </xs:complexType>
+  <xs:simpleType name="Code">
+    <xs:restriction base="xs:string">
+      <xs:pattern value="[A-Z]>[0-9]"/>
+    </xs:restriction>
+  </xs:simpleType>
+</xs:schema>`;
+
+describe("SourceRangeIndex", () => {
+  let index: SourceRangeIndex;
+
+  beforeEach(() => {
+    index = SourceRangeIndex.build(SCHEMA);
+  });
+
+  /**
+   * Returns the text covered by the range of a node.
+   */
+  function textOf(id: string): string {
+    const range = index.findRange(id);
+    if (!range) {
+      throw new Error(`No range for ${id}`);
+    }
+    return SCHEMA.substring(range.start, range.end);
+  }
+
+  describe("findRange", () => {
+    it("should index the nodes with the IDs used by the diagram", () => {
+      expect(index.getRanges().map((range) => range.id)).toEqual([
+        "/schema",
+        "/element:person",
+        "/element:person/anonymousComplexType[0]",
+        "/element:person/anonymousComplexType[0]/group:sequence",
+        "/element:person/anonymousComplexType[0]/group:sequence/element:name[0]",
+        "/element:person/anonymousComplexType[0]/group:sequence/element:address[1]",
+        "/element:person/anonymousComplexType[0]/attribute:id",
+        "/complexType:Derived",
+        "/complexType:Derived/group:choice",
+        "/complexType:Derived/group:choice/element:a[0]",
+        "/simpleType:Code",
+      ]);
+    });
+
+    it("should cover the node from its start tag to its end tag", () => {
+      expect(textOf("/element:person")).toMatch(/^<xs:element name="person">[\s\S]*<\/xs:element>$/);
+      expect(textOf("/simpleType:Code")).toMatch(/^<xs:simpleType name="Code">[\s\S]*<\/xs:simpleType>$/);
+    });
+
+    it("should cover self-closing elements", () => {
+      expect(textOf("/element:person/anonymousComplexType[0]/group:sequence/element:name[0]")).toBe(
+        '<xs:element name="name" type="xs:string"/>'
+      );
+    });
+
+    it("should record the end of the start tag", () => {
+      const range = index.findRange("/element:person");
+
+      expect(SCHEMA.substring(range?.start ?? 0, range?.startTagEnd)).toBe('<xs:element name="person">');
+    });
+
+    it("should index nested compositors by their position among those of the same kind", () => {
+      const nested = SourceRangeIndex.build(`<xs:schema>
+  <xs:complexType name="T">
+    <xs:sequence>
+      <xs:choice><xs:element name="a"/></xs:choice>
+      <xs:sequence><xs:choice/></xs:sequence>
+      <xs:choice/>
+    </xs:sequence>
+  </xs:complexType>
+</xs:schema>`);
+
+      expect(nested.getRanges().map((range) => range.id)).toEqual([
+        "/schema",
+        "/complexType:T",
+        "/complexType:T/group:sequence",
+        "/complexType:T/group:sequence/choice[0]",
+        "/complexType:T/group:sequence/sequence[0]",
+        "/complexType:T/group:sequence/sequence[0]/choice[0]",
+        "/complexType:T/group:sequence/choice[1]",
+      ]);
+    });
+
+    it("should return undefined for unknown nodes", () => {
+      expect(index.findRange("/element:commented")).toBeUndefined();
+    });
+
+    it("should index schemas without namespace prefix", () => {
+      const unprefixed = SourceRangeIndex.build(
+        '<schema xmlns="http://www.w3.org/2001/XMLSchema"><element name="root"/></schema>'
+      );
+
+      expect(unprefixed.findRange("/element:root")).toBeDefined();
+    });
+
+    it("should tolerate unclosed elements", () => {
+      const text = '<xs:schema><xs:complexType name="Open"><xs:sequence>';
+      const unclosed = SourceRangeIndex.build(text);
+
+      expect(unclosed.findRange("/complexType:Open")?.end).toBe(text.length);
+      expect(unclosed.findRange("/complexType:Open/group:sequence")).toBeDefined();
+    });
+  });
+
+  describe("findIdAtOffset", () => {
+    it("should return the innermost node containing the offset", () => {
+      const offset = SCHEMA.indexOf('name="a"');
+
+      expect(index.findIdAtOffset(offset)).toBe("/complexType:Derived/group:choice/element:a[0]");
+    });
+
+    it("should return the enclosing node for unindexed content", () => {
+      expect(index.findIdAtOffset(SCHEMA.indexOf("xs:pattern"))).toBe("/simpleType:Code");
+      expect(index.findIdAtOffset(SCHEMA.indexOf("xs:extension"))).toBe("/complexType:Derived");
+    });
+
+    it("should return undefined outside the schema", () => {
+      expect(index.findIdAtOffset(0)).toBeUndefined();
+      expect(index.findIdAtOffset(SCHEMA.length)).toBeUndefined();
+    });
+  });
+});
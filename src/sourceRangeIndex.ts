@@ -0,0 +1,318 @@
+/**
+ * SourceRangeIndex: Maps schema node IDs to their location in the XSD text.
+ * The unmarshalled schema object carries no source positions, so the index is
+ * built from the source tree of the document text, deriving the same XPath-like
+ * IDs that the diagram and the schema navigator use.
+ */
+
+import { generateSchemaId, SchemaNodeType } from "../shared/idStrategy";
+import {
+  parseXmlSource,
+  childElements,
+  findAttribute,
+  XmlSourceElement,
+} from "./xmlSourceTree";
+
+/**
+ * Location of a schema node in the document text, as character offsets.
+ */
+export interface SourceRange {
+  /** ID of the schema node */
+  id: string;
+  /** Offset of the `<` opening the node's start tag */
+  start: number;
+  /** Offset just past the node's end tag (or its self-closing start tag) */
+  end: number;
+  /** Offset just past the node's start tag */
+  startTagEnd: number;
+}
+
+/**
+ * Role of an XML element, deciding which IDs its children get.
+ */
+type FrameRole =
+  /** The xs:schema root */
+  | "schema"
+  /** An element declaration, whose inline types are anonymous types */
+  | "element"
+  /** A named or anonymous complex type, or content wrappers inside it */
+  | "complexType"
+  /** A sequence, choice or all directly inside a complex type */
+  | "compositor"
+  /** A sequence or choice nested in another compositor */
+  | "nestedCompositor"
+  /** Any other XML element */
+  | "other";
+
+/**
+ * An XML element being visited, with what it means for the IDs of its children.
+ */
+interface Frame {
+  /** How children of this element are identified */
+  role: FrameRole;
+  /** Schema ID used as parent for the IDs of children */
+  ownerId: string;
+  /** Schema ID of the element itself, if it is a schema node */
+  id?: string;
+  /** Number of element declarations seen so far (compositors only) */
+  elementCount: number;
+  /** Number of nested sequences and choices seen so far, per kind (compositors only) */
+  compositorCounts: Map<string, number>;
+}
+
+/** Top-level components and the node types of their IDs. */
+const TOP_LEVEL_NODE_TYPES: Record<string, SchemaNodeType> = {
+  element: SchemaNodeType.Element,
+  complexType: SchemaNodeType.ComplexType,
+  simpleType: SchemaNodeType.SimpleType,
+  group: SchemaNodeType.Group,
+  attributeGroup: SchemaNodeType.AttributeGroup,
+  attribute: SchemaNodeType.Attribute,
+};
+
+/** Compositors whose IDs are addressable below a complex type. */
+const COMPOSITORS = new Set(["sequence", "choice", "all"]);
+
+/** Compositors that can be nested in a sequence or choice, and the node types of their IDs. */
+const NESTED_COMPOSITORS = new Map([
+  ["sequence", SchemaNodeType.Sequence],
+  ["choice", SchemaNodeType.Choice],
+]);
+
+/** Wrappers that do not change the type their compositors belong to. */
+const CONTENT_WRAPPERS = new Set(["complexContent", "simpleContent", "extension", "restriction"]);
+
+/**
+ * Index of the source ranges of the schema nodes in an XSD document.
+ */
+export class SourceRangeIndex {
+  private readonly ranges: SourceRange[];
+  private readonly byId: Map<string, SourceRange> = new Map();
+
+  /**
+   * Creates an index over the given ranges.
+   *
+   * @param ranges - The ranges in document order
+   */
+  constructor(ranges: SourceRange[]) {
+    this.ranges = ranges;
+    for (const range of ranges) {
+      // Keep the first occurrence if the document declares a name twice
+      if (!this.byId.has(range.id)) {
+        this.byId.set(range.id, range);
+      }
+    }
+  }
+
+  /**
+   * Builds the index for an XSD document.
+   *
+   * @param text - The document text
+   * @returns The index of the document's schema nodes
+   */
+  public static build(text: string): SourceRangeIndex {
+    return new SourceRangeIndex(collectSourceRanges(text));
+  }
+
+  /**
+   * Finds the source range of a schema node.
+   *
+   * @param id - ID of the schema node
+   * @returns The range, or undefined if the node is not in the document
+   */
+  public findRange(id: string): SourceRange | undefined {
+    return this.byId.get(id);
+  }
+
+  /**
+   * Finds the innermost schema node containing an offset.
+   *
+   * @param offset - Character offset in the document
+   * @returns The ID of the node, or undefined if the offset is outside all nodes
+   */
+  public findIdAtOffset(offset: number): string | undefined {
+    let match: SourceRange | undefined;
+    for (const range of this.ranges) {
+      if (range.start > offset) {
+        break;
+      }
+      // Ranges are nested, so the last one starting before the offset wins
+      if (offset < range.end) {
+        match = range;
+      }
+    }
+    return match?.id;
+  }
+
+  /**
+   * Gets all indexed ranges.
+   *
+   * @returns The ranges in document order
+   */
+  public getRanges(): readonly SourceRange[] {
+    return this.ranges;
+  }
+}
+
+/**
+ * Parses XSD text and records the ranges of the schema nodes that have IDs.
+ *
+ * @param text - The document text
+ * @returns The ranges in document order
+ */
+function collectSourceRanges(text: string): SourceRange[] {
+  const ranges: SourceRange[] = [];
+  const { root } = parseXmlSource(text);
+  if (root) {
+    visitElement(root, undefined, ranges);
+  }
+  return ranges;
+}
+
+/**
+ * Records the range of an element if it is a schema node, then visits its children.
+ *
+ * @param element - The element to visit
+ * @param parent - Frame of the parent element, or undefined for the document root
+ * @param ranges - The recorded ranges
+ */
+function visitElement(
+  element: XmlSourceElement,
+  parent: Frame | undefined,
+  ranges: SourceRange[]
+): void {
+  const frame = frameOf(element, parent);
+  if (frame.id) {
+    ranges.push({
+      id: frame.id,
+      start: element.start,
+      end: element.end,
+      startTagEnd: element.startTagEnd,
+    });
+  }
+  for (const child of childElements(element)) {
+    visitElement(child, frame, ranges);
+  }
+}
+
+/**
+ * Determines the frame of an element from its parent.
+ *
+ * @param element - The element
+ * @param parent - Frame of the parent element, or undefined for the document root
+ * @returns The frame of the element
+ */
+function frameOf(element: XmlSourceElement, parent: Frame | undefined): Frame {
+  const { localName } = element;
+  const frame = (role: FrameRole, ownerId: string, id?: string): Frame => ({
+    role,
+    ownerId,
+    id,
+    elementCount: 0,
+    compositorCounts: new Map(),
+  });
+  const node = (role: FrameRole, id: string): Frame => frame(role, id, id);
+  const other = (): Frame => frame("other", "");
+  const name = findAttribute(element, "name")?.value;
+
+  if (!parent) {
+    return localName === "schema"
+      ? node("schema", generateSchemaId({ nodeType: SchemaNodeType.Schema }))
+      : other();
+  }
+
+  switch (parent.role) {
+    case "schema": {
+      const nodeType = TOP_LEVEL_NODE_TYPES[localName];
+      if (!nodeType || !name) {
+        return other();
+      }
+      return node(roleOfComponent(localName), generateSchemaId({ nodeType, name }));
+    }
+
+    case "element": {
+      if (localName === "complexType" || localName === "simpleType") {
+        const id = generateSchemaId({
+          nodeType:
+            localName === "complexType"
+              ? SchemaNodeType.AnonymousComplexType
+              : SchemaNodeType.AnonymousSimpleType,
+          parentId: parent.ownerId,
+          position: 0,
+        });
+        return node(localName === "complexType" ? "complexType" : "other", id);
+      }
+      return other();
+    }
+
+    case "complexType": {
+      if (COMPOSITORS.has(localName)) {
+        const id = generateSchemaId({
+          nodeType: SchemaNodeType.Group,
+          name: localName,
+          parentId: parent.ownerId,
+        });
+        return node("compositor", id);
+      }
+      if (localName === "attribute" && name) {
+        const id = generateSchemaId({
+          nodeType: SchemaNodeType.Attribute,
+          name,
+          parentId: parent.ownerId,
+        });
+        return node("other", id);
+      }
+      if (CONTENT_WRAPPERS.has(localName)) {
+        // Compositors inside content wrappers belong to the enclosing type
+        return frame("complexType", parent.ownerId);
+      }
+      return other();
+    }
+
+    case "compositor":
+    case "nestedCompositor": {
+      const nestedType = NESTED_COMPOSITORS.get(localName);
+      if (nestedType) {
+        // Nested compositors are addressed by their position among those of the same kind
+        const position = parent.compositorCounts.get(localName) ?? 0;
+        parent.compositorCounts.set(localName, position + 1);
+        const id = generateSchemaId({
+          nodeType: nestedType,
+          parentId: parent.ownerId,
+          position,
+        });
+        return node("nestedCompositor", id);
+      }
+      // Elements of nested compositors have no IDs of their own
+      if (localName !== "element" || parent.role === "nestedCompositor") {
+        return other();
+      }
+      const id = generateSchemaId({
+        nodeType: SchemaNodeType.Element,
+        name: name ?? findAttribute(element, "ref")?.value ?? "unnamed",
+        parentId: parent.ownerId,
+        position: parent.elementCount++,
+      });
+      return node("element", id);
+    }
+
+    default:
+      return other();
+  }
+}
+
+/**
+ * Returns the role of a top-level component.
+ *
+ * @param localName - Local name of the component's XML element
+ * @returns The role deciding how the component's children are identified
+ */
+function roleOfComponent(localName: string): FrameRole {
+  if (localName === "element") {
+    return "element";
+  }
+  if (localName === "complexType") {
+    return "complexType";
+  }
+  return "other";
+}
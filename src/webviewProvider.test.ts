@@ -4,6 +4,7 @@
 
 import * as vscode from "vscode";
 import { SchemaEditorProvider } from "./webviewProvider";
+import { SelectionSync } from "./selectionSync";
 
 // Mock helpers
 const mockPostMessage = jest.fn();
@@ -44,8 +45,8 @@ describe("SchemaEditorProvider", () => {
     mockDocument = {
       uri: { toString: () => "/test/schema.xsd" } as vscode.Uri,
       getText: jest.fn(() => "<xs:schema></xs:schema>"),
-      lineCount: 1,
-      lineAt: jest.fn(() => ({ text: "<xs:schema></xs:schema>" })),
+      // Positions are represented by their offsets to keep the stub simple
+      positionAt: jest.fn((offset: number) => offset),
     } as unknown as vscode.TextDocument;
 
     provider = new SchemaEditorProvider(mockContext);
@@ -365,9 +366,10 @@ describe("SchemaEditorProvider", () => {
       const { CommandProcessor } = await import("./commandProcessor");
       jest.spyOn(CommandProcessor.prototype, "execute").mockReturnValue({
         success: true,
-        // schema/xmlContent values are irrelevant — only the applyEdit branch is under test
+        // schema/xmlContent/edits values are irrelevant — only the applyEdit branch is under test
         schema: {},
         xmlContent: "<xs:schema/>",
+        edits: [{ start: 0, end: 23, newText: "<xs:schema/>" }],
       });
       (vscode.workspace.applyEdit as jest.Mock).mockResolvedValue(false);
 
@@ -396,4 +398,288 @@ describe("SchemaEditorProvider", () => {
     });
 
   });
+
+  describe("executeCommand edits", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should replace only the ranges of the command's text edits", async () => {
+      const { CommandProcessor } = await import("./commandProcessor");
+      jest.spyOn(CommandProcessor.prototype, "execute").mockReturnValue({
+        success: true,
+        schema: {},
+        xmlContent: "<xs:schema><xs:element name=\"a\"/></xs:schema>",
+        edits: [
+          { start: 11, end: 11, newText: "<xs:element name=\"a\"/>" },
+          { start: 22, end: 23, newText: "" },
+        ],
+      });
+      (vscode.workspace.applyEdit as jest.Mock).mockResolvedValue(true);
+      provider.resolveCustomTextEditor(
+        mockDocument,
+        mockWebviewPanel,
+        {} as vscode.CancellationToken
+      );
+      type OnReceiveMock = jest.MockedFunction<
+        (listener: (msg: unknown) => void) => vscode.Disposable
+      >;
+      const handler = (mockWebview.onDidReceiveMessage as OnReceiveMock).mock.calls[0][0];
+
+      handler({
+        command: "executeCommand",
+        data: { type: "addElement", payload: { parentId: "schema", elementName: "a" } },
+      });
+      await new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+      const editInstance = (vscode.WorkspaceEdit as jest.Mock).mock.results[0].value as {
+        replace: jest.Mock<void, [vscode.Uri, vscode.Range, string]>;
+      };
+      expect(editInstance.replace.mock.calls).toEqual([
+        [mockDocument.uri, { start: 11, end: 11 }, "<xs:element name=\"a\"/>"],
+        [mockDocument.uri, { start: 22, end: 23 }, ""],
+      ]);
+      expect(vscode.workspace.applyEdit).toHaveBeenCalledWith(editInstance);
+    });
+  });
+
+  describe("command history", () => {
+    const AFTER = "<xs:schema><xs:element name=\"a\"/></xs:schema>";
+    type OnReceiveMock = jest.MockedFunction<
+      (listener: (msg: unknown) => void) => vscode.Disposable
+    >;
+
+    /** Opens the editor, executes an addElement command and returns the message handler. */
+    async function executeAddElement(): Promise<(msg: unknown) => void> {
+      const { CommandProcessor } = await import("./commandProcessor");
+      jest.spyOn(CommandProcessor.prototype, "execute").mockReturnValue({
+        success: true,
+        schema: {},
+        xmlContent: AFTER,
+        edits: [{ start: 11, end: 11, newText: "<xs:element name=\"a\"/>" }],
+      });
+      (vscode.workspace.applyEdit as jest.Mock).mockImplementation(() => {
+        (mockDocument.getText as jest.Mock).mockReturnValue(AFTER);
+        return Promise.resolve(true);
+      });
+      provider.resolveCustomTextEditor(
+        mockDocument,
+        mockWebviewPanel,
+        {} as vscode.CancellationToken
+      );
+      const handler = (mockWebview.onDidReceiveMessage as OnReceiveMock).mock.calls[0][0];
+
+      handler({
+        command: "executeCommand",
+        data: { type: "addElement", payload: { parentId: "schema", elementName: "a" } },
+      });
+      await new Promise<void>((resolve) => setTimeout(resolve, 0));
+      return handler;
+    }
+
+    /** Data of the last updateHistory message sent to the webview. */
+    function lastHistory(): unknown {
+      const calls = mockPostMessage.mock.calls as Array<[{ command: string; data?: unknown }]>;
+      return calls
+        .map(([message]) => message)
+        .filter((message) => message.command === "updateHistory")
+        .pop()?.data;
+    }
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should send the empty history when the editor opens", () => {
+      provider.resolveCustomTextEditor(
+        mockDocument,
+        mockWebviewPanel,
+        {} as vscode.CancellationToken
+      );
+
+      expect(lastHistory()).toMatchObject({ entries: [], position: 0 });
+    });
+
+    it("should record an applied command and send the updated history", async () => {
+      await executeAddElement();
+
+      expect(mockPostMessage).toHaveBeenLastCalledWith({
+        command: "commandResult",
+        data: { success: true },
+      });
+      expect(lastHistory()).toMatchObject({
+        position: 1,
+        entries: [{ id: 1, label: 'Add element "a"' }],
+      });
+    });
+
+    it("should restore the document when stepping back in the history", async () => {
+      const handler = await executeAddElement();
+      (vscode.WorkspaceEdit as jest.Mock).mockClear();
+      mockPostMessage.mockClear();
+
+      handler({ command: "stepToHistory", data: { position: 0 } });
+      await new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+      const editInstance = (vscode.WorkspaceEdit as jest.Mock).mock.results[0].value as {
+        replace: jest.Mock<void, [vscode.Uri, vscode.Range, string]>;
+      };
+      expect(editInstance.replace.mock.calls).toEqual([
+        [mockDocument.uri, { start: 11, end: 33 }, ""],
+      ]);
+      expect(lastHistory()).toMatchObject({ position: 0 });
+    });
+
+    it("should keep the history until the last panel of the document is disposed", async () => {
+      const { CommandProcessor } = await import("./commandProcessor");
+      const clearHistory = jest.spyOn(CommandProcessor.prototype, "clearHistory");
+      await executeAddElement();
+      provider.resolveCustomTextEditor(
+        mockDocument,
+        mockWebviewPanel,
+        {} as vscode.CancellationToken
+      );
+      type OnDisposeMock = jest.MockedFunction<(listener: () => void) => vscode.Disposable>;
+      const [[disposeFirst], [disposeSecond]] = (
+        mockWebviewPanel.onDidDispose as OnDisposeMock
+      ).mock.calls;
+
+      disposeFirst();
+      expect(clearHistory).not.toHaveBeenCalled();
+
+      disposeSecond();
+      expect(clearHistory).toHaveBeenCalledWith("/test/schema.xsd");
+    });
+
+    it("should report a history position out of range", async () => {
+      const handler = await executeAddElement();
+
+      handler({ command: "stepToHistory", data: { position: 5 } });
+      await new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+      expect(mockPostMessage).toHaveBeenCalledWith({
+        command: "error",
+        data: { message: "History position out of range: 5" },
+      });
+    });
+  });
+
+  describe("find usages", () => {
+    type OnReceiveMock = jest.MockedFunction<
+      (listener: (msg: unknown) => void) => vscode.Disposable
+    >;
+
+    /** Opens the editor on a schema and sends a findUsages message. */
+    function findUsages(xml: string, componentId: string, forSafeDelete?: boolean): void {
+      (mockDocument.getText as jest.Mock).mockReturnValue(xml);
+      provider.resolveCustomTextEditor(
+        mockDocument,
+        mockWebviewPanel,
+        {} as vscode.CancellationToken
+      );
+      const handler = (mockWebview.onDidReceiveMessage as OnReceiveMock).mock.calls[0][0];
+      handler({ command: "findUsages", data: { componentId, forSafeDelete } });
+    }
+
+    it("should send the usages of the component to the webview", () => {
+      findUsages(
+        `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="person" type="PersonType"/>
+  <xs:complexType name="PersonType"/>
+</xs:schema>`,
+        "/complexType:PersonType"
+      );
+
+      expect(mockPostMessage).toHaveBeenLastCalledWith({
+        command: "showUsages",
+        data: {
+          componentId: "/complexType:PersonType",
+          usages: [{ nodeId: "/element:person", attribute: "type", value: "PersonType" }],
+        },
+      });
+    });
+
+    it("should send the usages of the dependants for a safe delete", () => {
+      findUsages(
+        `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="person" type="PersonType"/>
+  <xs:element name="people">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element ref="person"/>
+      </xs:sequence>
+    </xs:complexType>
+  </xs:element>
+  <xs:complexType name="PersonType"/>
+</xs:schema>`,
+        "/complexType:PersonType",
+        true
+      );
+
+      expect(mockPostMessage).toHaveBeenLastCalledWith({
+        command: "showUsages",
+        data: {
+          componentId: "/complexType:PersonType",
+          usages: [{ nodeId: "/element:person", attribute: "type", value: "PersonType" }],
+          dependants: [
+            {
+              nodeId: "/element:people/anonymousComplexType[0]/group:sequence/element:person[0]",
+              attribute: "ref",
+              value: "person",
+            },
+          ],
+        },
+      });
+    });
+
+    it("should report a component that is not found", () => {
+      findUsages("<xs:schema></xs:schema>", "/complexType:Missing");
+
+      expect(mockPostMessage).toHaveBeenLastCalledWith({
+        command: "error",
+        data: { message: "Component not found: /complexType:Missing" },
+      });
+    });
+  });
+
+  describe("selection synchronisation", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should reveal the node selected in the diagram in the text editor", async () => {
+      const revealNode = jest
+        .spyOn(SelectionSync.prototype, "revealNode")
+        .mockResolvedValue();
+      provider.resolveCustomTextEditor(
+        mockDocument,
+        mockWebviewPanel,
+        {} as vscode.CancellationToken
+      );
+      type OnReceiveMock = jest.MockedFunction<
+        (listener: (msg: unknown) => void) => vscode.Disposable
+      >;
+      const handler = (mockWebview.onDidReceiveMessage as OnReceiveMock).mock.calls[0][0];
+
+      handler({ command: "selectionChanged", data: { nodeId: "/element:person" } });
+      await new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+      expect(revealNode).toHaveBeenCalledWith("/element:person");
+    });
+
+    it("should stop synchronising when the panel is disposed", () => {
+      const dispose = jest.spyOn(SelectionSync.prototype, "dispose");
+      provider.resolveCustomTextEditor(
+        mockDocument,
+        mockWebviewPanel,
+        {} as vscode.CancellationToken
+      );
+      type OnDisposeMock = jest.MockedFunction<(listener: () => void) => vscode.Disposable>;
+      const onDispose = (mockWebviewPanel.onDidDispose as OnDisposeMock).mock.calls[0][0];
+
+      onDispose();
+
+      expect(dispose).toHaveBeenCalled();
+    });
+  });
 });
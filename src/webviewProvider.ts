@@ -5,8 +5,15 @@ import {
   ExecuteCommandMessage,
   WebviewMessage,
   DiagramOptions,
+  UpdateHistoryMessage,
+  ShowUsagesMessage,
+  FindUsagesData,
 } from "../shared/messages";
 import { CommandProcessor } from "./commandProcessor";
+import { computeSnapshotEdits } from "./commandHistory";
+import { XmlTextEdit } from "./minimalTextEdits";
+import { SelectionSync } from "./selectionSync";
+import { findCascadeUsages, findComponentUsages } from "./componentUsages";
 
 /**
  * Provider for the XML Schema Visual Editor custom text editor.
@@ -15,6 +22,8 @@ import { CommandProcessor } from "./commandProcessor";
  */
 export class SchemaEditorProvider implements vscode.CustomTextEditorProvider {
   private readonly commandProcessor: CommandProcessor;
+  /** Number of open editor panels per document URI, sharing the document's history */
+  private readonly openPanels = new Map<string, number>();
 
   /**
    * Creates a new SchemaEditorProvider.
@@ -65,6 +74,9 @@ export class SchemaEditorProvider implements vscode.CustomTextEditorProvider {
 
     webviewPanel.webview.html = this.getHtmlForWebview(webviewPanel.webview);
 
+    const uri = document.uri.toString();
+    this.openPanels.set(uri, (this.openPanels.get(uri) ?? 0) + 1);
+
     // Send initial schema and diagram options to webview
     this.updateWebview(document, webviewPanel.webview);
     this.sendDiagramOptions(webviewPanel.webview);
@@ -87,10 +99,21 @@ export class SchemaEditorProvider implements vscode.CustomTextEditorProvider {
       }
     );
 
+    // Keep the diagram selection and the text editor cursor in step
+    const selectionSync = new SelectionSync(
+      document,
+      (message) => void this.safePostMessage(webviewPanel.webview, message)
+    );
+
     // Listen for messages from webview
     webviewPanel.webview.onDidReceiveMessage(
       (message: WebviewMessage) =>
-        void this.handleWebviewMessage(message, document, webviewPanel.webview),
+        void this.handleWebviewMessage(
+          message,
+          document,
+          webviewPanel.webview,
+          selectionSync
+        ),
       undefined,
       this.context.subscriptions
     );
@@ -98,6 +121,15 @@ export class SchemaEditorProvider implements vscode.CustomTextEditorProvider {
     webviewPanel.onDidDispose(() => {
       changeDocumentSubscription.dispose();
       changeConfigSubscription.dispose();
+      selectionSync.dispose();
+      // The history belongs to the document, so keep it while other panels show it
+      const remaining = (this.openPanels.get(uri) ?? 1) - 1;
+      if (remaining > 0) {
+        this.openPanels.set(uri, remaining);
+      } else {
+        this.openPanels.delete(uri);
+        this.commandProcessor.clearHistory(uri);
+      }
     });
   }
 
@@ -155,6 +187,26 @@ export class SchemaEditorProvider implements vscode.CustomTextEditorProvider {
         data: { message: (error as Error).message },
       });
     }
+
+    this.sendHistory(document, webview);
+  }
+
+  /**
+   * Sends the command history of the document to the webview.
+   *
+   * @param document - The document whose history to send
+   * @param webview - The webview to send the history to
+   */
+  private sendHistory(
+    document: vscode.TextDocument,
+    webview: vscode.Webview
+  ): void {
+    const history = this.commandProcessor.getHistory(document.uri.toString());
+    const message: UpdateHistoryMessage = {
+      command: "updateHistory",
+      data: history.toData(document.getText()),
+    };
+    void this.safePostMessage(webview, message);
   }
 
   /**
@@ -164,20 +216,144 @@ export class SchemaEditorProvider implements vscode.CustomTextEditorProvider {
    * @param message - The message received from the webview
    * @param document - The document being edited
    * @param webview - The webview to send responses back to
+   * @param selectionSync - Selection synchronisation with the text editor
    */
   private async handleWebviewMessage(
     message: WebviewMessage,
     document: vscode.TextDocument,
-    webview: vscode.Webview
+    webview: vscode.Webview,
+    selectionSync: SelectionSync
   ): Promise<void> {
     switch (message.command) {
       case "executeCommand": {
         await this.executeCommand(message, document, webview);
         break;
       }
+      case "selectionChanged": {
+        await selectionSync.revealNode(message.data.nodeId);
+        break;
+      }
+      case "stepToHistory": {
+        await this.stepToHistory(message.data.position, document, webview);
+        break;
+      }
+      case "findUsages": {
+        this.findUsages(message.data, document, webview);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Finds the usages of a component and sends them to the webview. For a
+   * safe delete, the usages of the components the cascade would remove along
+   * with it are found on a copy of the schema and sent as well.
+   *
+   * @param data - The component whose usages to find
+   * @param document - The document to search
+   * @param webview - The webview to send the usages to
+   */
+  private findUsages(
+    data: FindUsagesData,
+    document: vscode.TextDocument,
+    webview: vscode.Webview
+  ): void {
+    const { componentId, forSafeDelete } = data;
+    try {
+      const schemaObj = unmarshal(schema, document.getText());
+      const result = findComponentUsages(schemaObj, componentId);
+      if (!result.found) {
+        void this.safePostMessage(webview, {
+          command: "error",
+          data: { message: result.error },
+        });
+        return;
+      }
+      const message: ShowUsagesMessage = {
+        command: "showUsages",
+        data: { componentId, usages: result.usages },
+      };
+      if (forSafeDelete) {
+        const cascade = findCascadeUsages(
+          schemaObj,
+          unmarshal(schema, document.getText()),
+          componentId
+        );
+        if (cascade.found) {
+          message.data.dependants = cascade.usages;
+        }
+      }
+      void this.safePostMessage(webview, message);
+    } catch (error) {
+      void this.safePostMessage(webview, {
+        command: "error",
+        data: { message: (error as Error).message },
+      });
+    }
+  }
+
+  /**
+   * Restores the document to a point of its command history.
+   * Edits made outside the history since then are replaced as well; they can
+   * still be recovered with the text editor's undo.
+   *
+   * @param position - Number of history entries to keep applied
+   * @param document - The document to restore
+   * @param webview - The webview to send responses back to
+   */
+  private async stepToHistory(
+    position: number,
+    document: vscode.TextDocument,
+    webview: vscode.Webview
+  ): Promise<void> {
+    const history = this.commandProcessor.getHistory(document.uri.toString());
+    const snapshot = history.snapshotAt(position);
+    if (snapshot === undefined) {
+      void this.safePostMessage(webview, {
+        command: "error",
+        data: { message: `History position out of range: ${position}` },
+      });
+      return;
+    }
+
+    const edits = computeSnapshotEdits(document.getText(), snapshot);
+    const success = await this.applyDocumentEdits(document, edits);
+    if (success) {
+      history.moveTo(position);
+      this.sendHistory(document, webview);
+    } else {
+      void this.safePostMessage(webview, {
+        command: "error",
+        data: {
+          message: "Failed to apply edit to the document.",
+          code: "COMMAND_EXECUTION_ERROR",
+        },
+      });
     }
   }
 
+  /**
+   * Applies text edits, given as offsets into the current text, to the document.
+   *
+   * @param document - The document to edit
+   * @param edits - The edits to apply
+   * @returns Whether VS Code applied the edits
+   */
+  private async applyDocumentEdits(
+    document: vscode.TextDocument,
+    edits: XmlTextEdit[]
+  ): Promise<boolean> {
+    const edit = new vscode.WorkspaceEdit();
+    for (const textEdit of edits) {
+      const range = new vscode.Range(
+        document.positionAt(textEdit.start),
+        document.positionAt(textEdit.end)
+      );
+      edit.replace(document.uri, range, textEdit.newText);
+    }
+    return vscode.workspace.applyEdit(edit);
+  }
+
   /**
    * Executes a command using the CommandProcessor.
    * Applies the resulting changes to the document if successful.
@@ -196,20 +372,16 @@ export class SchemaEditorProvider implements vscode.CustomTextEditorProvider {
       const result = this.commandProcessor.execute(message.data, currentXml);
 
       if (result.success) {
-        // Apply the changes to the document
-        const edit = new vscode.WorkspaceEdit();
-        // Calculate the full range of the document, handling empty documents
-        const lastLine = Math.max(0, document.lineCount - 1);
-        const fullRange = new vscode.Range(
-          0,
-          0,
-          lastLine,
-          document.lineAt(lastLine).text.length
-        );
-        edit.replace(document.uri, fullRange, result.xmlContent);
-        const success = await vscode.workspace.applyEdit(edit);
+        // Apply only the changed fragments, so the rest of the document
+        // (comments, formatting, attribute order) stays untouched
+        const success = await this.applyDocumentEdits(document, result.edits);
 
         if (success) {
+          this.commandProcessor
+            .getHistory(document.uri.toString())
+            .record(message.data, currentXml, document.getText());
+          this.sendHistory(document, webview);
+
           // Send success response
           void this.safePostMessage(webview, {
             command: "commandResult",
@@ -308,6 +480,10 @@ export class SchemaEditorProvider implements vscode.CustomTextEditorProvider {
     <div id="properties-panel">
         <h3>Properties</h3>
         <div id="properties-content"></div>
+        <h3>Usages</h3>
+        <div id="usages-content"></div>
+        <h3>History</h3>
+        <ol id="history-list"></ol>
     </div>
     <script nonce="${nonce}" src="${scriptSrc}"></script>
 </body>
@@ -0,0 +1,56 @@
+/**
+ * Unit tests for the alignment of child elements.
+ */
+
+import { alignChildren, AlignmentStep } from "./xmlChildAlignment";
+import { parseXmlSource, childElements, findAttribute, XmlSourceElement } from "./xmlSourceTree";
+
+/**
+ * Parses a document and returns the child elements of its root.
+ */
+function childrenOf(text: string): XmlSourceElement[] {
+  const root = parseXmlSource(text).root;
+  return root ? childElements(root) : [];
+}
+
+/**
+ * Describes an alignment step by the names of the aligned elements.
+ */
+function describeStep(step: AlignmentStep): string {
+  const nameOf = (element: XmlSourceElement): string =>
+    findAttribute(element, "name")?.value ?? element.localName;
+  switch (step.kind) {
+    case "match":
+      return `${nameOf(step.before)}=${nameOf(step.after)}`;
+    case "delete":
+      return `-${nameOf(step.before)}`;
+    case "insert":
+      return `+${nameOf(step.after)}`;
+  }
+}
+
+describe("alignChildren", () => {
+  it("should match elements by local name and identifying attribute", () => {
+    const before = childrenOf('<s><element name="a"/><element name="b"/><element name="c"/></s>');
+    const after = childrenOf('<s><element name="a"/><element name="x"/><element name="c"/><attribute name="d"/></s>');
+
+    expect(alignChildren(before, after).map(describeStep)).toEqual(["a=a", "b=x", "c=c", "+d"]);
+  });
+
+  it("should delete and insert elements with different local names", () => {
+    const before = childrenOf('<s><element name="a"/><sequence/></s>');
+    const after = childrenOf('<s><choice/><element name="a"/></s>');
+
+    expect(alignChildren(before, after).map(describeStep)).toEqual(["+choice", "a=a", "-sequence"]);
+  });
+
+  it("should match elements without identifying attributes by local name", () => {
+    const before = childrenOf("<s><annotation/><sequence/></s>");
+    const after = childrenOf("<s><annotation/><sequence/></s>");
+
+    expect(alignChildren(before, after).map(describeStep)).toEqual([
+      "annotation=annotation",
+      "sequence=sequence",
+    ]);
+  });
+});
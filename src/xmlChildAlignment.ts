@@ -0,0 +1,114 @@
+/**
+ * XmlChildAlignment: Aligns the child elements of an element in two versions of
+ * a document, so that unchanged elements can be kept and only the differences edited.
+ */
+
+import { findAttribute, XmlSourceElement } from "./xmlSourceTree";
+
+/** One step of the alignment of two lists of child elements. */
+export type AlignmentStep =
+  | { kind: "match"; before: XmlSourceElement; after: XmlSourceElement }
+  | { kind: "delete"; before: XmlSourceElement }
+  | { kind: "insert"; after: XmlSourceElement };
+
+/** Attributes that match children with the same local name across both texts. */
+const IDENTIFYING_ATTRIBUTES = ["name", "ref", "value", "namespace", "schemaLocation"];
+
+/**
+ * Aligns the child elements of both texts. Elements are matched by a key made of
+ * their local name and identifying attribute; unmatched elements with the same
+ * local name between two matches are paired up as changed elements.
+ *
+ * @param before - Child elements of the original text
+ * @param after - Child elements of the updated text
+ * @returns The alignment in document order
+ */
+export function alignChildren(before: XmlSourceElement[], after: XmlSourceElement[]): AlignmentStep[] {
+  const beforeKeys = before.map(keyOf);
+  const afterKeys = after.map(keyOf);
+
+  // Longest common subsequence of the keys
+  const lengths: number[][] = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        beforeKeys[i] === afterKeys[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const steps: AlignmentStep[] = [];
+  let deleted: XmlSourceElement[] = [];
+  let inserted: XmlSourceElement[] = [];
+  const flushGap = (): void => {
+    steps.push(...pairGap(deleted, inserted));
+    deleted = [];
+    inserted = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && beforeKeys[i] === afterKeys[j]) {
+      flushGap();
+      steps.push({ kind: "match", before: before[i++], after: after[j++] });
+    } else if (j < after.length && (i === before.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      inserted.push(after[j++]);
+    } else {
+      deleted.push(before[i++]);
+    }
+  }
+  flushGap();
+
+  return steps;
+}
+
+/**
+ * Pairs deleted and inserted elements between two matches that have the same
+ * local name, so that changing an identifying attribute edits the element in place.
+ *
+ * @param deleted - Unmatched elements of the original text
+ * @param inserted - Unmatched elements of the updated text
+ * @returns The alignment of the gap in document order
+ */
+function pairGap(deleted: XmlSourceElement[], inserted: XmlSourceElement[]): AlignmentStep[] {
+  const steps: AlignmentStep[] = [];
+  let next = 0;
+  for (const after of inserted) {
+    const index = deleted.findIndex(
+      (before, position) => position >= next && before.localName === after.localName
+    );
+    if (index === -1) {
+      steps.push({ kind: "insert", after });
+      continue;
+    }
+    for (const before of deleted.slice(next, index)) {
+      steps.push({ kind: "delete", before });
+    }
+    steps.push({ kind: "match", before: deleted[index], after });
+    next = index + 1;
+  }
+  for (const before of deleted.slice(next)) {
+    steps.push({ kind: "delete", before });
+  }
+  return steps;
+}
+
+/**
+ * Builds the key matching an element across both texts.
+ *
+ * @param element - The element
+ * @returns Its local name and the value of its first identifying attribute
+ */
+function keyOf(element: XmlSourceElement): string {
+  for (const name of IDENTIFYING_ATTRIBUTES) {
+    const attribute = findAttribute(element, name);
+    if (attribute) {
+      return `${element.localName}|${name}=${attribute.value}`;
+    }
+  }
+  return element.localName;
+}
@@ -0,0 +1,42 @@
+/**
+ * Unit tests for XML equivalence checks.
+ */
+
+import { isEquivalentXml } from "./xmlEquivalence";
+
+describe("isEquivalentXml", () => {
+  it("should ignore formatting, quoting, comments and the prolog", () => {
+    expect(
+      isEquivalentXml(
+        "<?xml version='1.0'?><a x='1'><!-- c --><b/></a>",
+        '<a x="1">\n  <b></b>\n</a>'
+      )
+    ).toBe(true);
+  });
+
+  it("should ignore the order of attributes", () => {
+    expect(isEquivalentXml('<a x="1" y="2"/>', '<a y="2" x="1"/>')).toBe(true);
+  });
+
+  it("should detect differing attributes and elements", () => {
+    expect(isEquivalentXml('<a x="1"/>', '<a x="2"/>')).toBe(false);
+    expect(isEquivalentXml('<a x="1"/>', "<a/>")).toBe(false);
+    expect(isEquivalentXml("<a><b/></a>", "<a><b/><b/></a>")).toBe(false);
+    expect(isEquivalentXml("<a><b/></a>", "<a><c/></a>")).toBe(false);
+  });
+
+  it("should allow additional namespace declarations only in the actual document", () => {
+    expect(isEquivalentXml('<a xmlns:p="urn:p"/>', "<a/>")).toBe(true);
+    expect(isEquivalentXml("<a/>", '<a xmlns:p="urn:p"/>')).toBe(false);
+  });
+
+  it("should compare character content with collapsed whitespace", () => {
+    expect(isEquivalentXml("<a>\n  some   text\n</a>", "<a>some text</a>")).toBe(true);
+    expect(isEquivalentXml("<a><![CDATA[x & y]]></a>", "<a>x &amp; y</a>")).toBe(true);
+    expect(isEquivalentXml("<a>one</a>", "<a>two</a>")).toBe(false);
+  });
+
+  it("should not treat documents without root element as equivalent", () => {
+    expect(isEquivalentXml("", "")).toBe(false);
+  });
+});
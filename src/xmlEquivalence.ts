@@ -0,0 +1,130 @@
+/**
+ * XmlEquivalence: Compares XML documents and elements independently of their formatting.
+ * Used to check that minimal text edits reproduce the serialized result of a command.
+ */
+
+import {
+  parseXmlSource,
+  childElements,
+  findAttribute,
+  decodeXmlText,
+  XmlSourceElement,
+} from "./xmlSourceTree";
+
+/**
+ * Checks whether two XML documents have the same elements, attributes and
+ * character content, ignoring formatting, comments and processing instructions.
+ * Namespace declarations of the first document may be a superset of the second's.
+ *
+ * @param actual - The document to check
+ * @param expected - The reference document
+ * @returns True if the documents are equivalent
+ */
+export function isEquivalentXml(actual: string, expected: string): boolean {
+  const actualRoot = parseXmlSource(actual).root;
+  const expectedRoot = parseXmlSource(expected).root;
+  return (
+    !!actualRoot &&
+    !!expectedRoot &&
+    areEquivalentElements(actualRoot, actual, expectedRoot, expected)
+  );
+}
+
+/**
+ * Checks whether two elements are equivalent.
+ *
+ * @param actual - Element of the document to check
+ * @param actualText - Text of the document to check
+ * @param expected - Element of the reference document
+ * @param expectedText - Text of the reference document
+ * @returns True if the elements are equivalent
+ */
+function areEquivalentElements(
+  actual: XmlSourceElement,
+  actualText: string,
+  expected: XmlSourceElement,
+  expectedText: string
+): boolean {
+  if (actual.localName !== expected.localName) {
+    return false;
+  }
+
+  const sameAttributes =
+    expected.attributes.every(
+      (attribute) => findAttribute(actual, attribute.name)?.value === attribute.value
+    ) &&
+    actual.attributes.every(
+      (attribute) =>
+        isNamespaceDeclaration(attribute.name) || !!findAttribute(expected, attribute.name)
+    );
+  if (!sameAttributes) {
+    return false;
+  }
+
+  if (hasCharacterContent(actual, actualText) || hasCharacterContent(expected, expectedText)) {
+    return contentSignature(actual, actualText) === contentSignature(expected, expectedText);
+  }
+
+  const actualChildren = childElements(actual);
+  const expectedChildren = childElements(expected);
+  return (
+    actualChildren.length === expectedChildren.length &&
+    actualChildren.every((child, index) =>
+      areEquivalentElements(child, actualText, expectedChildren[index], expectedText)
+    )
+  );
+}
+
+/**
+ * Checks whether an element holds text or CDATA sections besides whitespace.
+ *
+ * @param element - The element
+ * @param text - The document text
+ * @returns True if the element has character content
+ */
+export function hasCharacterContent(element: XmlSourceElement, text: string): boolean {
+  return element.children.some(
+    (child) =>
+      child.type === "cdata" ||
+      (child.type === "text" && text.substring(child.start, child.end).trim() !== "")
+  );
+}
+
+/**
+ * Builds a formatting-independent signature of the content of an element.
+ * Whitespace runs are collapsed, since `marshal` may reformat mixed content.
+ *
+ * @param element - The element
+ * @param text - The document text
+ * @returns The signature of the element's content
+ */
+export function contentSignature(element: XmlSourceElement, text: string): string {
+  const parts = element.children.map((child) => {
+    switch (child.type) {
+      case "text":
+        return decodeXmlText(text.substring(child.start, child.end));
+      case "cdata":
+        return text.substring(child.start + "<![CDATA[".length, child.end - "]]>".length);
+      case "element": {
+        const attributes = child.attributes
+          .map((attribute) => `${attribute.name}=${attribute.value}`)
+          .sort()
+          .join(" ");
+        return `<${child.localName} ${attributes}>${contentSignature(child, text)}</>`;
+      }
+      default:
+        return "";
+    }
+  });
+  return parts.join("").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Checks whether an attribute declares a namespace prefix.
+ *
+ * @param name - Qualified name of the attribute
+ * @returns True for `xmlns` and `xmlns:*`
+ */
+export function isNamespaceDeclaration(name: string): boolean {
+  return name === "xmlns" || name.startsWith("xmlns:");
+}
@@ -0,0 +1,109 @@
+/**
+ * Unit tests for the XML source tree parser.
+ */
+
+import {
+  parseXmlSource,
+  childElements,
+  findAttribute,
+  decodeXmlText,
+  localNameOf,
+  XmlSourceElement,
+} from "./xmlSourceTree";
+
+describe("parseXmlSource", () => {
+  const text = `<?xml version="1.0"?>
+<!-- <xs:element name="commented"/> -->
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name='a&amp;b' fixed="x > y"/>
+  <xs:annotation><xs:documentation><![CDATA[<b>bold</b>]]></xs:documentation></xs:annotation>
+</xs:schema>`;
+
+  /**
+   * Returns the root element, failing the test if there is none.
+   */
+  function rootOf(source: string): XmlSourceElement {
+    const root = parseXmlSource(source).root;
+    if (!root) {
+      throw new Error("No root element");
+    }
+    return root;
+  }
+
+  it("should keep the prolog and comments as top-level nodes", () => {
+    const document = parseXmlSource(text);
+
+    expect(document.children.map((node) => node.type)).toEqual([
+      "processingInstruction",
+      "text",
+      "comment",
+      "text",
+      "element",
+    ]);
+    expect(document.root?.name).toBe("xs:schema");
+  });
+
+  it("should record the offsets of elements and attributes", () => {
+    const element = childElements(rootOf(text))[0];
+    const attribute = findAttribute(element, "name");
+
+    expect(text.substring(element.start, element.end)).toBe(
+      "<xs:element name='a&amp;b' fixed=\"x > y\"/>"
+    );
+    expect(element.selfClosing).toBe(true);
+    expect(element.localName).toBe("element");
+    expect(attribute?.value).toBe("a&b");
+    expect(text.substring(attribute?.start ?? 0, attribute?.end)).toBe("name='a&amp;b'");
+    expect(text.substring(attribute?.valueStart ?? 0, attribute?.valueEnd)).toBe("a&amp;b");
+    expect(findAttribute(element, "fixed")?.value).toBe("x > y");
+  });
+
+  it("should record the content range of elements", () => {
+    const root = rootOf(text);
+    const documentation = childElements(childElements(root)[1])[0];
+
+    expect(text.substring(documentation.startTagEnd, documentation.contentEnd)).toBe(
+      "<![CDATA[<b>bold</b>]]>"
+    );
+    expect(documentation.children.map((node) => node.type)).toEqual(["cdata"]);
+    expect(text.substring(root.contentEnd, root.end)).toBe("</xs:schema>");
+  });
+
+  it("should close elements left open by a mismatched end tag", () => {
+    const source = "<a><b><c></a>";
+    const root = rootOf(source);
+    const b = childElements(root)[0];
+
+    expect(root.end).toBe(source.length);
+    expect(b.end).toBe(source.length);
+    expect(childElements(b)[0].contentEnd).toBe(source.indexOf("</a>"));
+  });
+
+  it("should extend unclosed elements to the end of the text", () => {
+    const root = rootOf("<a><b>");
+
+    expect(root.end).toBe(6);
+    expect(childElements(root)[0].contentEnd).toBe(6);
+  });
+
+  it("should return no root for text without elements", () => {
+    expect(parseXmlSource("just text").root).toBeUndefined();
+  });
+});
+
+describe("decodeXmlText", () => {
+  it("should resolve predefined entities and character references", () => {
+    expect(decodeXmlText("&lt;&gt;&amp;&quot;&apos;&#65;&#x42;")).toBe("<>&\"'AB");
+  });
+
+  it("should keep unknown entities", () => {
+    expect(decodeXmlText("&custom;")).toBe("&custom;");
+  });
+});
+
+describe("localNameOf", () => {
+  it("should strip the namespace prefix", () => {
+    expect(localNameOf("xs:element")).toBe("element");
+    expect(localNameOf("element")).toBe("element");
+  });
+});
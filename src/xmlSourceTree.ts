@@ -0,0 +1,322 @@
+/**
+ * XmlSourceTree: A lightweight XML parser that keeps the source offsets of every node.
+ * Unlike `unmarshal`, which produces schema objects without positions, the tree
+ * produced here can be mapped back onto the document text. Parsing is tolerant:
+ * mismatched end tags close the innermost matching element and unclosed
+ * elements extend to the end of the text.
+ */
+
+/**
+ * An attribute of an element start tag.
+ */
+export interface XmlSourceAttribute {
+  /** Qualified name as written in the tag */
+  name: string;
+  /** Value with entity and character references resolved */
+  value: string;
+  /** Offset of the first character of the name */
+  start: number;
+  /** Offset just past the closing quote */
+  end: number;
+  /** Offset just past the opening quote */
+  valueStart: number;
+  /** Offset of the closing quote */
+  valueEnd: number;
+}
+
+/**
+ * An element with its attributes and children.
+ */
+export interface XmlSourceElement {
+  type: "element";
+  /** Qualified name as written in the tag */
+  name: string;
+  /** Name without namespace prefix */
+  localName: string;
+  /** Attributes in document order */
+  attributes: XmlSourceAttribute[];
+  /** Child nodes in document order */
+  children: XmlSourceNode[];
+  /** Offset of the `<` opening the start tag */
+  start: number;
+  /** Offset just past the start tag */
+  startTagEnd: number;
+  /** Offset of the `<` opening the end tag; equals `end` for self-closing elements */
+  contentEnd: number;
+  /** Offset just past the end tag (or the self-closing start tag) */
+  end: number;
+  /** Whether the element is written as `<name/>` */
+  selfClosing: boolean;
+}
+
+/**
+ * Markup other than elements.
+ */
+export interface XmlSourceCharacters {
+  type: "text" | "cdata" | "comment" | "processingInstruction" | "declaration";
+  /** Offset of the first character */
+  start: number;
+  /** Offset just past the last character */
+  end: number;
+}
+
+/** A node of the source tree. */
+export type XmlSourceNode = XmlSourceElement | XmlSourceCharacters;
+
+/**
+ * The parsed document.
+ */
+export interface XmlSourceDocument {
+  /** Top-level nodes, including the prolog and trailing comments */
+  children: XmlSourceNode[];
+  /** The first top-level element, if any */
+  root: XmlSourceElement | undefined;
+}
+
+/** Markup that is skipped as a whole, with its opening and closing delimiters. */
+const SKIPPED_MARKUP: ReadonlyArray<[string, string, XmlSourceCharacters["type"]]> = [
+  ["<!--", "-->", "comment"],
+  ["<![CDATA[", "]]>", "cdata"],
+  ["<?", "?>", "processingInstruction"],
+  ["<!", ">", "declaration"],
+];
+
+/** Matches `name="value"` pairs inside a start tag. */
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/** Predefined entities of XML. */
+const PREDEFINED_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Parses XML text into a tree of nodes with source offsets.
+ *
+ * @param text - The document text
+ * @returns The parsed document
+ */
+export function parseXmlSource(text: string): XmlSourceDocument {
+  const document: XmlSourceDocument = { children: [], root: undefined };
+  const stack: XmlSourceElement[] = [];
+  const childrenOfCurrent = (): XmlSourceNode[] =>
+    stack.length > 0 ? stack[stack.length - 1].children : document.children;
+  let position = 0;
+
+  while (position < text.length) {
+    const tagStart = text.indexOf("<", position);
+    const textEnd = tagStart === -1 ? text.length : tagStart;
+    if (textEnd > position) {
+      childrenOfCurrent().push({ type: "text", start: position, end: textEnd });
+    }
+    if (tagStart === -1) {
+      break;
+    }
+
+    const skipped = SKIPPED_MARKUP.find(([opening]) => text.startsWith(opening, tagStart));
+    if (skipped) {
+      const [opening, closing, type] = skipped;
+      const closingIndex = text.indexOf(closing, tagStart + opening.length);
+      const end = closingIndex === -1 ? text.length : closingIndex + closing.length;
+      childrenOfCurrent().push({ type, start: tagStart, end });
+      position = end;
+      continue;
+    }
+
+    const tagEnd = findTagEnd(text, tagStart);
+    const tag = text.substring(tagStart + 1, tagEnd - 1);
+
+    if (tag.startsWith("/")) {
+      closeElement(stack, tag.substring(1).trim(), tagStart, tagEnd);
+    } else {
+      const element = createElement(text, tag, tagStart, tagEnd);
+      childrenOfCurrent().push(element);
+      if (!document.root && stack.length === 0) {
+        document.root = element;
+      }
+      if (!element.selfClosing) {
+        stack.push(element);
+      }
+    }
+    position = tagEnd;
+  }
+
+  // Elements left open extend to the end of the document
+  for (const element of stack) {
+    element.contentEnd = text.length;
+    element.end = text.length;
+  }
+
+  return document;
+}
+
+/**
+ * Gets the child elements of an element, skipping text and other markup.
+ *
+ * @param element - The parent element
+ * @returns The child elements in document order
+ */
+export function childElements(element: XmlSourceElement): XmlSourceElement[] {
+  return element.children.filter(
+    (child): child is XmlSourceElement => child.type === "element"
+  );
+}
+
+/**
+ * Finds an attribute of an element by its qualified name.
+ *
+ * @param element - The element
+ * @param name - Qualified name of the attribute
+ * @returns The attribute, or undefined if the element does not have it
+ */
+export function findAttribute(
+  element: XmlSourceElement,
+  name: string
+): XmlSourceAttribute | undefined {
+  return element.attributes.find((attribute) => attribute.name === name);
+}
+
+/**
+ * Resolves entity and character references.
+ *
+ * @param raw - Text as written in the document
+ * @returns The text with references replaced by the characters they stand for
+ */
+export function decodeXmlText(raw: string): string {
+  return raw.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|\w+);/g, (reference: string, body: string) => {
+    if (body.startsWith("#x")) {
+      return String.fromCodePoint(parseInt(body.substring(2), 16));
+    }
+    if (body.startsWith("#")) {
+      return String.fromCodePoint(parseInt(body.substring(1), 10));
+    }
+    return PREDEFINED_ENTITIES[body] ?? reference;
+  });
+}
+
+/**
+ * Strips the namespace prefix from a qualified name.
+ *
+ * @param qualifiedName - The name as written in the tag
+ * @returns The local name
+ */
+export function localNameOf(qualifiedName: string): string {
+  const colonIndex = qualifiedName.indexOf(":");
+  return colonIndex >= 0 ? qualifiedName.substring(colonIndex + 1) : qualifiedName;
+}
+
+/**
+ * Gets the indentation of the line an offset is on, if only whitespace precedes it.
+ *
+ * @param text - The document text
+ * @param offset - Offset of the first non-whitespace character
+ * @returns The leading whitespace, or undefined if other text precedes the offset on its line
+ */
+export function lineIndentOf(text: string, offset: number): string | undefined {
+  let lineStart = offset;
+  while (lineStart > 0 && (text[lineStart - 1] === " " || text[lineStart - 1] === "\t")) {
+    lineStart--;
+  }
+  return lineStart === 0 || text[lineStart - 1] === "\n"
+    ? text.substring(lineStart, offset)
+    : undefined;
+}
+
+/**
+ * Creates the element of a start tag.
+ *
+ * @param text - The document text
+ * @param tag - The tag content between `<` and `>`
+ * @param tagStart - Offset of the `<`
+ * @param tagEnd - Offset just past the `>`
+ * @returns The element, without children yet
+ */
+function createElement(
+  text: string,
+  tag: string,
+  tagStart: number,
+  tagEnd: number
+): XmlSourceElement {
+  const name = /^[^\s/>]*/.exec(tag)?.[0] ?? "";
+  const selfClosing = tag.endsWith("/");
+  const attributes: XmlSourceAttribute[] = [];
+
+  for (const match of tag.substring(name.length).matchAll(ATTRIBUTE_PATTERN)) {
+    const start = tagStart + 1 + name.length + (match.index ?? 0);
+    const end = start + match[0].length;
+    const raw = match[2] ?? match[3] ?? "";
+    attributes.push({
+      name: match[1],
+      value: decodeXmlText(raw),
+      start,
+      end,
+      valueStart: end - 1 - raw.length,
+      valueEnd: end - 1,
+    });
+  }
+
+  return {
+    type: "element",
+    name,
+    localName: localNameOf(name),
+    attributes,
+    children: [],
+    start: tagStart,
+    startTagEnd: tagEnd,
+    contentEnd: selfClosing ? tagEnd : text.length,
+    end: tagEnd,
+    selfClosing,
+  };
+}
+
+/**
+ * Closes the innermost open element with the given name.
+ * Elements opened after it are closed too, tolerating malformed documents.
+ *
+ * @param stack - The currently open elements
+ * @param name - Qualified name from the end tag
+ * @param endTagStart - Offset of the `<` opening the end tag
+ * @param endTagEnd - Offset just past the end tag
+ */
+function closeElement(
+  stack: XmlSourceElement[],
+  name: string,
+  endTagStart: number,
+  endTagEnd: number
+): void {
+  const index = stack.map((element) => element.name).lastIndexOf(name);
+  if (index === -1) {
+    return;
+  }
+  for (const element of stack.splice(index)) {
+    element.contentEnd = endTagStart;
+    element.end = endTagEnd;
+  }
+}
+
+/**
+ * Finds the end of a tag, skipping `>` characters inside quoted attribute values.
+ *
+ * @param text - The document text
+ * @param tagStart - Offset of the `<`
+ * @returns The offset just past the closing `>`, or the text length if the tag is not closed
+ */
+function findTagEnd(text: string, tagStart: number): number {
+  let quote: string | undefined;
+  for (let i = tagStart + 1; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ">") {
+      return i + 1;
+    }
+  }
+  return text.length;
+}
@@ -0,0 +1,81 @@
+/**
+ * Unit tests for ContextMenu class.
+ */
+
+import { ContextMenu } from "./contextMenu";
+import { ContextMenuAction } from "./contextMenuActions";
+
+describe("ContextMenu", () => {
+  const actions: ContextMenuAction[] = [
+    {
+      label: "Add Child Element",
+      command: { type: "addElement", payload: { parentId: "schema", elementName: "newElement" } },
+    },
+    {
+      label: "Delete Element",
+      command: { type: "removeElement", payload: { elementId: "/element:person" } },
+      destructive: true,
+    },
+  ];
+  let dispatch: jest.Mock;
+  let menu: ContextMenu;
+
+  beforeEach(() => {
+    dispatch = jest.fn();
+    menu = new ContextMenu(dispatch);
+  });
+
+  afterEach(() => {
+    menu.hide();
+    document.body.innerHTML = "";
+  });
+
+  it("should list the actions at the given position", () => {
+    menu.show(actions, 40, 60);
+
+    const element = document.querySelector<HTMLElement>(".context-menu");
+    const items = document.querySelectorAll(".context-menu-item");
+    expect(element?.style.left).toBe("40px");
+    expect(element?.style.top).toBe("60px");
+    expect(Array.from(items).map((item) => item.textContent)).toEqual([
+      "Add Child Element",
+      "Delete Element",
+    ]);
+    expect(items[1].classList.contains("destructive")).toBe(true);
+  });
+
+  it("should dispatch the command of the chosen action and close", () => {
+    menu.show(actions, 0, 0);
+
+    document.querySelector<HTMLButtonElement>(".context-menu-item")?.click();
+
+    expect(dispatch).toHaveBeenCalledWith(actions[0].command);
+    expect(menu.isOpen()).toBe(false);
+    expect(document.querySelector(".context-menu")).toBeNull();
+  });
+
+  it("should not open without actions", () => {
+    menu.show([], 0, 0);
+
+    expect(menu.isOpen()).toBe(false);
+  });
+
+  it("should close on Escape and on clicks outside the menu", () => {
+    menu.show(actions, 0, 0);
+    document.dispatchEvent(new KeyboardEvent("keydown", { key: "Escape" }));
+    expect(menu.isOpen()).toBe(false);
+
+    menu.show(actions, 0, 0);
+    document.body.dispatchEvent(new MouseEvent("mousedown", { bubbles: true }));
+    expect(menu.isOpen()).toBe(false);
+    expect(dispatch).not.toHaveBeenCalled();
+  });
+
+  it("should replace an open menu", () => {
+    menu.show(actions, 0, 0);
+    menu.show(actions.slice(0, 1), 10, 10);
+
+    expect(document.querySelectorAll(".context-menu")).toHaveLength(1);
+    expect(document.querySelectorAll(".context-menu-item")).toHaveLength(1);
+  });
+});
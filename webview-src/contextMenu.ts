@@ -0,0 +1,99 @@
+/**
+ * Popup menu shown when a diagram item is right-clicked.
+ * Lists the context menu actions of the item and dispatches the command of the chosen one.
+ */
+
+import { ContextMenuAction } from "./contextMenuActions";
+import { CommandDispatcher } from "./propertyForm";
+
+/**
+ * A context menu rendered as a list of buttons floating above the canvas.
+ * Only one menu is open at a time; it closes when an action is chosen,
+ * on Escape, or when the user clicks elsewhere.
+ */
+export class ContextMenu {
+  private dispatch: CommandDispatcher;
+  private menuElement: HTMLDivElement | null = null;
+  private onDocumentMouseDown = (e: MouseEvent): void => {
+    if (this.menuElement && !this.menuElement.contains(e.target as Node)) {
+      this.hide();
+    }
+  };
+  private onDocumentKeyDown = (e: KeyboardEvent): void => {
+    if (e.key === "Escape") {
+      this.hide();
+    }
+  };
+
+  /**
+   * Creates a new ContextMenu.
+   *
+   * @param dispatch - Callback used to send the command of a chosen action
+   */
+  constructor(dispatch: CommandDispatcher) {
+    this.dispatch = dispatch;
+  }
+
+  /**
+   * Shows the menu at a position on the page, replacing any open menu.
+   * Nothing is shown if there are no actions.
+   *
+   * @param actions - The actions to list
+   * @param x - Horizontal page position in pixels
+   * @param y - Vertical page position in pixels
+   */
+  public show(actions: ContextMenuAction[], x: number, y: number): void {
+    this.hide();
+    if (actions.length === 0) {
+      return;
+    }
+
+    const menu = document.createElement("div");
+    menu.className = "context-menu";
+    menu.setAttribute("role", "menu");
+    menu.style.left = `${x}px`;
+    menu.style.top = `${y}px`;
+
+    for (const action of actions) {
+      const item = document.createElement("button");
+      item.type = "button";
+      item.className = action.destructive
+        ? "context-menu-item destructive"
+        : "context-menu-item";
+      item.setAttribute("role", "menuitem");
+      item.textContent = action.label;
+      item.addEventListener("click", () => {
+        this.hide();
+        this.dispatch(action.command);
+      });
+      menu.appendChild(item);
+    }
+
+    document.body.appendChild(menu);
+    this.menuElement = menu;
+    document.addEventListener("mousedown", this.onDocumentMouseDown);
+    document.addEventListener("keydown", this.onDocumentKeyDown);
+  }
+
+  /**
+   * Closes the menu if it is open.
+   */
+  public hide(): void {
+    if (!this.menuElement) {
+      return;
+    }
+    this.menuElement.remove();
+    this.menuElement = null;
+    document.removeEventListener("mousedown", this.onDocumentMouseDown);
+    document.removeEventListener("keydown", this.onDocumentKeyDown);
+  }
+
+  /**
+   * Checks whether the menu is open.
+   *
+   * @returns True if the menu is shown
+   */
+  public isOpen(): boolean {
+    return this.menuElement !== null;
+  }
+}
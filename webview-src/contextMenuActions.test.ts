@@ -0,0 +1,377 @@
+/**
+ * Unit tests for the diagram context menu actions.
+ */
+
+import {
+  buildContextMenuActions,
+  createContextMenuContext,
+  uniqueName,
+  ContextMenuAction,
+  ContextMenuContext,
+} from "./contextMenuActions";
+import { DiagramItem } from "./diagram/DiagramItem";
+import { Diagram } from "./diagram/Diagram";
+import { DiagramItemType, DiagramItemGroupType } from "./diagram/DiagramTypes";
+import { schema } from "../shared/types";
+
+/**
+ * Returns the labels of a list of actions.
+ */
+function labelsOf(actions: ContextMenuAction[]): string[] {
+  return actions.map((action) => action.label);
+}
+
+/**
+ * Finds an action by label, failing the test if it is not offered.
+ */
+function actionOf(actions: ContextMenuAction[], label: string): ContextMenuAction {
+  const action = actions.find((a) => a.label === label);
+  if (!action) {
+    throw new Error(`Action not offered: ${label}`);
+  }
+  return action;
+}
+
+describe("contextMenuActions", () => {
+  const context: ContextMenuContext = {
+    groupNames: ["AddressGroup"],
+    attributeGroupNames: [],
+    attributeNames: [],
+    typeNames: ["PersonType", "Code"],
+    simpleTypeNames: ["Code"],
+    xsdPrefix: "xs",
+  };
+  let diagram: Diagram;
+
+  beforeEach(() => {
+    diagram = new Diagram();
+  });
+
+  describe("buildContextMenuActions", () => {
+    it("should add top-level components from the schema root", () => {
+      const root = new DiagramItem("/schema", "Schema", DiagramItemType.element, diagram);
+      root.addChild(new DiagramItem("/element:newElement", "newElement", DiagramItemType.element, diagram));
+
+      const actions = buildContextMenuActions(root, context);
+
+      expect(labelsOf(actions)).toEqual(["Add Child Element", "Add Attribute", "Add Documentation"]);
+      expect(actionOf(actions, "Add Child Element").command).toEqual({
+        type: "addElement",
+        payload: { parentId: "schema", elementName: "newElement2" },
+      });
+    });
+
+    it("should add elements and group references to sequences", () => {
+      const sequence = new DiagramItem(
+        "/complexType:PersonType/group:sequence",
+        "sequence",
+        DiagramItemType.group,
+        diagram
+      );
+
+      const actions = buildContextMenuActions(sequence, context);
+
+      expect(actionOf(actions, "Add Child Element").command.payload).toEqual({
+        parentId: "/complexType:PersonType/group:sequence",
+        elementName: "newElement",
+      });
+      expect(actionOf(actions, "Add Group Reference: AddressGroup").command).toEqual({
+        type: "addGroup",
+        payload: { ref: "AddressGroup", parentId: "/complexType:PersonType/group:sequence" },
+      });
+      expect(actionOf(actions, "Add Any Element").command).toEqual({
+        type: "addWildcard",
+        payload: { parentId: "/complexType:PersonType/group:sequence", kind: "any" },
+      });
+    });
+
+    it("should delete element wildcards", () => {
+      const any = new DiagramItem(
+        "/complexType:PersonType/group:sequence/any[0]",
+        "any",
+        DiagramItemType.any,
+        diagram
+      );
+
+      expect(buildContextMenuActions(any, context)).toEqual([
+        {
+          label: "Delete Wildcard",
+          command: {
+            type: "removeWildcard",
+            payload: { wildcardId: "/complexType:PersonType/group:sequence/any[0]" },
+          },
+          destructive: true,
+        },
+      ]);
+    });
+
+    it("should not offer group references in all groups", () => {
+      const all = new DiagramItem("/complexType:PersonType/group:all", "all", DiagramItemType.group, diagram);
+      all.groupType = DiagramItemGroupType.All;
+
+      expect(labelsOf(buildContextMenuActions(all, context))).toEqual(["Add Child Element"]);
+    });
+
+    it("should edit the content of a complex type with a compositor", () => {
+      const typeItem = new DiagramItem("/complexType:PersonType", "PersonType", DiagramItemType.type, diagram);
+      typeItem.typeId = typeItem.id;
+      typeItem.compositorId = "/complexType:PersonType/group:sequence";
+      typeItem.hasContentModel = true;
+      typeItem.attributes = [{ name: "newAttribute", type: "xs:string" }];
+
+      const actions = buildContextMenuActions(typeItem, context);
+
+      expect(labelsOf(actions)).toEqual([
+        "Add Child Element",
+        "Add Attribute",
+        "Add Any Attribute",
+        "Add Documentation",
+        "Delete Complex Type",
+      ]);
+      expect(actionOf(actions, "Add Attribute").command.payload).toEqual({
+        parentId: "/complexType:PersonType",
+        attributeName: "newAttribute2",
+      });
+      expect(actionOf(actions, "Delete Complex Type").destructive).toBe(true);
+    });
+
+    it("should extract the attributes of a complex type into an attribute group", () => {
+      const typeItem = new DiagramItem("/complexType:PersonType", "PersonType", DiagramItemType.type, diagram);
+      typeItem.typeId = typeItem.id;
+      typeItem.hasContentModel = true;
+      typeItem.attributes = [
+        { id: "/complexType:PersonType/attribute:id", name: "id", type: "xs:ID" },
+      ];
+
+      const actions = buildContextMenuActions(typeItem, context);
+
+      expect(actionOf(actions, "Extract Attributes to Group").command).toEqual({
+        type: "extractAttributeGroup",
+        payload: {
+          attributeIds: ["/complexType:PersonType/attribute:id"],
+          groupName: "IdAttributes",
+        },
+      });
+    });
+
+    it("should offer compositors and group references for complex types without content model", () => {
+      const typeItem = new DiagramItem("/complexType:EmptyType", "EmptyType", DiagramItemType.type, diagram);
+      typeItem.typeId = typeItem.id;
+
+      const actions = buildContextMenuActions(typeItem, context);
+
+      expect(actionOf(actions, "Add Sequence").command).toEqual({
+        type: "modifyComplexType",
+        payload: { typeId: "/complexType:EmptyType", contentModel: "sequence" },
+      });
+      expect(labelsOf(actions)).toContain("Add Choice");
+      expect(labelsOf(actions)).toContain("Add Group Reference: AddressGroup");
+      expect(labelsOf(actions)).not.toContain("Add Child Element");
+    });
+
+    it("should delete the attribute wildcard of a complex type", () => {
+      const typeItem = new DiagramItem("/complexType:Open", "Open", DiagramItemType.type, diagram);
+      typeItem.typeId = typeItem.id;
+      typeItem.hasContentModel = true;
+      typeItem.anyAttribute = {
+        id: "/complexType:Open/anyAttribute",
+        namespace: "##other",
+        processContents: "lax",
+      };
+
+      const actions = buildContextMenuActions(typeItem, context);
+
+      expect(labelsOf(actions)).not.toContain("Add Any Attribute");
+      expect(actionOf(actions, "Delete Any Attribute").command).toEqual({
+        type: "removeWildcard",
+        payload: { wildcardId: "/complexType:Open/anyAttribute" },
+      });
+    });
+
+    it("should not add attributes to derived complex types", () => {
+      const typeItem = new DiagramItem("/complexType:Derived", "Derived", DiagramItemType.type, diagram);
+      typeItem.typeId = typeItem.id;
+      typeItem.baseType = "BaseType";
+      typeItem.hasContentModel = true;
+
+      expect(labelsOf(buildContextMenuActions(typeItem, context))).not.toContain("Add Attribute");
+    });
+
+    it("should target the inline complex type of an element", () => {
+      const element = new DiagramItem("/element:person", "person", DiagramItemType.element, diagram);
+      element.type = "<anonymous complexType>";
+      element.typeId = "/element:person/anonymousComplexType[0]";
+      element.compositorId = "/element:person/anonymousComplexType[0]/group:sequence";
+      element.hasContentModel = true;
+
+      const actions = buildContextMenuActions(element, context);
+
+      expect(actionOf(actions, "Add Child Element").command.payload).toMatchObject({
+        parentId: "/element:person/anonymousComplexType[0]/group:sequence",
+      });
+      expect(actionOf(actions, "Add Attribute").command.payload).toMatchObject({
+        parentId: "/element:person/anonymousComplexType[0]",
+      });
+      expect(actionOf(actions, "Delete Element").command).toEqual({
+        type: "removeElement",
+        payload: { elementId: "/element:person" },
+      });
+    });
+
+    it("should extract the inline type of an element into a named type with a free name", () => {
+      const person = new DiagramItem("/element:person", "person", DiagramItemType.element, diagram);
+      person.typeId = "/element:person/anonymousComplexType[0]";
+      person.hasContentModel = true;
+      const code = new DiagramItem("/element:code", "code", DiagramItemType.element, diagram);
+      code.typeId = "/element:code/anonymousSimpleType[0]";
+
+      const personActions = buildContextMenuActions(person, context);
+      const codeActions = buildContextMenuActions(code, context);
+
+      expect(actionOf(personActions, "Extract to Named Type").command).toEqual({
+        type: "extractType",
+        payload: { typeId: "/element:person/anonymousComplexType[0]", typeName: "PersonType2" },
+      });
+      expect(labelsOf(codeActions)).toEqual([
+        "Extract to Named Type",
+        "Add Documentation",
+        "Delete Element",
+      ]);
+      expect(actionOf(codeActions, "Extract to Named Type").command).toEqual({
+        type: "extractType",
+        payload: { typeId: "/element:code/anonymousSimpleType[0]", typeName: "CodeType" },
+      });
+    });
+
+    it("should offer inline types only for elements without a type", () => {
+      const untyped = new DiagramItem("/element:note", "note", DiagramItemType.element, diagram);
+      const typed = new DiagramItem("/element:person", "person", DiagramItemType.element, diagram);
+      typed.type = "PersonType";
+
+      const actions = buildContextMenuActions(untyped, { ...context, xsdPrefix: "xsd" });
+
+      expect(actionOf(actions, "Insert Anonymous Complex Type").command).toEqual({
+        type: "addComplexType",
+        payload: { parentId: "/element:note", contentModel: "sequence" },
+      });
+      expect(actionOf(actions, "Insert Anonymous Simple Type").command).toEqual({
+        type: "addSimpleType",
+        payload: { parentId: "/element:note", baseType: "xsd:string" },
+      });
+      expect(labelsOf(buildContextMenuActions(typed, context))).toEqual([
+        "Inline Type",
+        "Add Documentation",
+        "Delete Element",
+      ]);
+    });
+
+    it("should inline the named types of the schema into an element", () => {
+      const person = new DiagramItem("/element:person", "person", DiagramItemType.element, diagram);
+      person.type = "tns:PersonType";
+      const code = new DiagramItem("/element:code", "code", DiagramItemType.element, diagram);
+      code.type = "Code";
+      const note = new DiagramItem("/element:note", "note", DiagramItemType.element, diagram);
+      note.type = "xs:string";
+
+      expect(actionOf(buildContextMenuActions(person, context), "Inline Type").command).toEqual({
+        type: "inlineType",
+        payload: { typeId: "/complexType:PersonType", declarationId: "/element:person" },
+      });
+      expect(actionOf(buildContextMenuActions(code, context), "Inline Type").command).toEqual({
+        type: "inlineType",
+        payload: { typeId: "/simpleType:Code", declarationId: "/element:code" },
+      });
+      expect(labelsOf(buildContextMenuActions(note, context))).not.toContain("Inline Type");
+    });
+
+    it("should not edit the content of element references", () => {
+      const reference = new DiagramItem(
+        "/complexType:OrderType/group:sequence/element:item[0]",
+        "unnamed",
+        DiagramItemType.element,
+        diagram
+      );
+      reference.isReference = true;
+
+      expect(labelsOf(buildContextMenuActions(reference, context))).toEqual([
+        "Demote to Local Element",
+        "Add Documentation",
+        "Delete Element",
+      ]);
+    });
+
+    it("should promote local elements after their type actions", () => {
+      const local = new DiagramItem(
+        "/complexType:OrderType/group:sequence/element:note[0]",
+        "note",
+        DiagramItemType.element,
+        diagram
+      );
+      local.type = "PersonType";
+
+      expect(labelsOf(buildContextMenuActions(local, context))).toEqual([
+        "Inline Type",
+        "Promote to Global Element",
+        "Add Documentation",
+        "Delete Element",
+      ]);
+    });
+
+    it("should not offer documentation for documented items", () => {
+      const simpleType = new DiagramItem("/simpleType:Code", "Code", DiagramItemType.type, diagram);
+      simpleType.documentation = "A code";
+
+      expect(buildContextMenuActions(simpleType, context)).toEqual([
+        {
+          label: "Delete Simple Type",
+          command: { type: "removeSimpleType", payload: { typeId: "/simpleType:Code" } },
+          destructive: true,
+        },
+      ]);
+    });
+
+    it("should offer nothing for the placeholder item", () => {
+      const placeholder = new DiagramItem(
+        "/schema/element:placeholder[0]",
+        "No elements found",
+        DiagramItemType.element,
+        diagram
+      );
+
+      expect(buildContextMenuActions(placeholder, context)).toEqual([]);
+    });
+  });
+
+  describe("createContextMenuContext", () => {
+    it("should collect group and attribute names and the XSD prefix", () => {
+      const schemaObj = {
+        group: [{ name: "AddressGroup" }],
+        attributeGroup: [{ name: "Audit" }],
+        attribute: [{ name: "lang" }],
+        complexType: [{ name: "PersonType" }],
+        simpleType: [{ name: "Code" }],
+        _namespacePrefixes: { xsd: "http://www.w3.org/2001/XMLSchema" },
+      } as schema;
+
+      expect(createContextMenuContext(schemaObj)).toEqual({
+        groupNames: ["AddressGroup"],
+        attributeGroupNames: ["Audit"],
+        attributeNames: ["lang"],
+        typeNames: ["PersonType", "Code"],
+        simpleTypeNames: ["Code"],
+        xsdPrefix: "xsd",
+      });
+    });
+
+    it("should default to the xs prefix", () => {
+      expect(createContextMenuContext({}).xsdPrefix).toBe("xs");
+    });
+  });
+
+  describe("uniqueName", () => {
+    it("should append the lowest free number to taken names", () => {
+      expect(uniqueName("newElement", [])).toBe("newElement");
+      expect(uniqueName("newElement", ["newElement", "newElement2"])).toBe("newElement3");
+    });
+  });
+});
@@ -0,0 +1,456 @@
+/**
+ * Actions offered by the diagram context menu.
+ * Determines which schema components can be added to or removed from a diagram
+ * item and builds the commands that perform them. Actions the extension's
+ * validator would reject for the item's parent type are not offered.
+ */
+
+import { schema, SchemaCommand, ContentModel } from "../shared/types";
+import { DiagramItem, DiagramItemType, DiagramItemGroupType } from "./diagram";
+import { resolveEditTarget, resolveAnonymousTypeTarget } from "./editTargets";
+import {
+  inlineTypeAction,
+  promoteElementAction,
+  demoteElementAction,
+  extractAttributeGroupAction,
+} from "./refactoringActions";
+import { toArray } from "../shared/schemaUtils";
+
+/**
+ * A single entry of the diagram context menu.
+ */
+export interface ContextMenuAction {
+  /** Label shown in the menu */
+  label: string;
+  /** Command dispatched when the action is chosen */
+  command: SchemaCommand;
+  /** Whether the action removes schema content */
+  destructive?: boolean;
+}
+
+/**
+ * Schema-wide information needed to build context menu actions.
+ */
+export interface ContextMenuContext {
+  /** Names of the top-level group definitions that can be referenced */
+  groupNames: string[];
+  /** Names of the top-level attribute group definitions */
+  attributeGroupNames: string[];
+  /** Names of the top-level attributes */
+  attributeNames: string[];
+  /** Names of the top-level simple and complex types */
+  typeNames: string[];
+  /** Names of the top-level simple types */
+  simpleTypeNames: string[];
+  /** Prefix bound to the XML Schema namespace, used for built-in type names */
+  xsdPrefix: string;
+}
+
+/** Namespace URI of XML Schema. */
+const XSD_NAMESPACE = "http://www.w3.org/2001/XMLSchema";
+
+/** ID of the schema root as used by add commands. */
+const SCHEMA_ROOT_ID = "schema";
+
+/** Base name for new elements; a number is appended if it is taken. */
+const NEW_ELEMENT_NAME = "newElement";
+
+/** Base name for new attributes; a number is appended if it is taken. */
+const NEW_ATTRIBUTE_NAME = "newAttribute";
+
+/** Initial text of documentation added from the menu. */
+const NEW_DOCUMENTATION = "New documentation";
+
+/** Compositors that can be added to a type without content model. */
+const NEW_COMPOSITORS: ReadonlyArray<ContentModel> = ["sequence", "choice"];
+
+/**
+ * Derives the context menu context from a schema.
+ *
+ * @param schemaObj - The schema currently displayed
+ * @returns The context for building menu actions
+ */
+export function createContextMenuContext(schemaObj: schema): ContextMenuContext {
+  const groupNames = toArray(schemaObj.group)
+    .map((group) => group.name)
+    .filter((name): name is string => !!name);
+  const attributeGroupNames = toArray(schemaObj.attributeGroup)
+    .map((group) => group.name)
+    .filter((name): name is string => !!name);
+  const attributeNames = toArray(schemaObj.attribute)
+    .map((attr) => attr.name)
+    .filter((name): name is string => !!name);
+  const complexTypeNames = toArray(schemaObj.complexType)
+    .map((type) => type.name)
+    .filter((name): name is string => !!name);
+  const simpleTypeNames = toArray(schemaObj.simpleType)
+    .map((type) => type.name)
+    .filter((name): name is string => !!name);
+  const typeNames = [...complexTypeNames, ...simpleTypeNames];
+
+  return {
+    groupNames,
+    attributeGroupNames,
+    attributeNames,
+    typeNames,
+    simpleTypeNames,
+    xsdPrefix: findXsdPrefix(schemaObj),
+  };
+}
+
+/**
+ * Finds the prefix a schema binds to the XML Schema namespace.
+ *
+ * @param schemaObj - The schema currently displayed
+ * @returns The bound prefix, or "xs" if the schema declares none
+ */
+export function findXsdPrefix(schemaObj: schema): string {
+  const prefixes = schemaObj._namespacePrefixes ?? {};
+  return Object.keys(prefixes).find((prefix) => prefixes[prefix] === XSD_NAMESPACE) ?? "xs";
+}
+
+/**
+ * Builds the context menu actions that apply to a diagram item.
+ *
+ * @param node - The diagram item the menu was opened on
+ * @param context - Schema-wide information for building the actions
+ * @returns The applicable actions, in display order; empty if the item is not editable
+ */
+export function buildContextMenuActions(
+  node: DiagramItem,
+  context: ContextMenuContext
+): ContextMenuAction[] {
+  if (node.id === "/schema") {
+    return buildSchemaRootActions(node, context);
+  }
+  if (node.itemType === DiagramItemType.group) {
+    return buildCompositorActions(node, context);
+  }
+  if (node.itemType === DiagramItemType.any) {
+    return [
+      {
+        label: "Delete Wildcard",
+        command: { type: "removeWildcard", payload: { wildcardId: node.id } },
+        destructive: true,
+      },
+    ];
+  }
+
+  const target = resolveEditTarget(node);
+  if (!target) {
+    return [];
+  }
+
+  const actions: ContextMenuAction[] = [];
+  if (target.kind === "element") {
+    actions.push(...buildElementActions(node, context));
+  } else if (target.kind === "complexType") {
+    actions.push(...buildComplexTypeContentActions(node, target.id, context));
+  }
+
+  if (!node.documentation) {
+    actions.push(addDocumentationAction(target.id));
+  }
+
+  if (target.kind === "element") {
+    actions.push({
+      label: "Delete Element",
+      command: { type: "removeElement", payload: { elementId: target.id } },
+      destructive: true,
+    });
+  } else if (target.kind === "complexType") {
+    actions.push({
+      label: "Delete Complex Type",
+      command: { type: "removeComplexType", payload: { typeId: target.id } },
+      destructive: true,
+    });
+  } else {
+    actions.push({
+      label: "Delete Simple Type",
+      command: { type: "removeSimpleType", payload: { typeId: target.id } },
+      destructive: true,
+    });
+  }
+
+  return actions;
+}
+
+/**
+ * Returns the first name derived from a base name that is not taken yet.
+ *
+ * @param baseName - The preferred name
+ * @param taken - Names already in use
+ * @returns The base name, or the base name followed by the lowest free number
+ */
+export function uniqueName(baseName: string, taken: ReadonlyArray<string>): string {
+  if (!taken.includes(baseName)) {
+    return baseName;
+  }
+  let counter = 2;
+  while (taken.includes(`${baseName}${counter}`)) {
+    counter++;
+  }
+  return `${baseName}${counter}`;
+}
+
+// ===== Actions per Item Kind =====
+
+/**
+ * Builds the actions of the schema root: top-level elements, attributes and documentation.
+ *
+ * @param node - The schema root item
+ * @param context - Schema-wide information for building the actions
+ * @returns The actions of the schema root
+ */
+function buildSchemaRootActions(
+  node: DiagramItem,
+  context: ContextMenuContext
+): ContextMenuAction[] {
+  return [
+    addElementAction(SCHEMA_ROOT_ID, childElementNames(node)),
+    {
+      label: "Add Attribute",
+      command: {
+        type: "addAttribute",
+        payload: {
+          parentId: SCHEMA_ROOT_ID,
+          attributeName: uniqueName(NEW_ATTRIBUTE_NAME, context.attributeNames),
+        },
+      },
+    },
+    addDocumentationAction(SCHEMA_ROOT_ID),
+  ];
+}
+
+/**
+ * Builds the actions of a compositor: child elements and, for sequences
+ * and choices, element wildcards and group references.
+ *
+ * @param node - The compositor item
+ * @param context - Schema-wide information for building the actions
+ * @returns The actions of the compositor
+ */
+function buildCompositorActions(
+  node: DiagramItem,
+  context: ContextMenuContext
+): ContextMenuAction[] {
+  const actions = [addElementAction(node.id, childElementNames(node))];
+  if (node.groupType !== DiagramItemGroupType.All) {
+    actions.push({
+      label: "Add Any Element",
+      command: { type: "addWildcard", payload: { parentId: node.id, kind: "any" } },
+    });
+    actions.push(...addGroupRefActions(node.id, context));
+  }
+  return actions;
+}
+
+/**
+ * Builds the content actions of an element. Elements with an inline complex
+ * type get the actions of that type, and an inline type of either kind can be
+ * extracted into a named type; elements without any type can get an inline
+ * type. A named type of the schema can be inlined into the element.
+ * References and elements with a named type have no content to edit; local
+ * elements can be promoted to top-level elements and references demoted.
+ *
+ * @param node - The element item
+ * @param context - Schema-wide information for building the actions
+ * @returns The content actions of the element
+ */
+function buildElementActions(
+  node: DiagramItem,
+  context: ContextMenuContext
+): ContextMenuAction[] {
+  if (node.isReference) {
+    return [demoteElementAction(node)];
+  }
+  const scopeActions = toArray(promoteElementAction(node));
+
+  const typeTarget = resolveAnonymousTypeTarget(node);
+  if (typeTarget) {
+    const contentActions =
+      typeTarget.kind === "complexType"
+        ? buildComplexTypeContentActions(node, typeTarget.id, context)
+        : [];
+    return [
+      ...contentActions,
+      extractTypeAction(node.name, typeTarget.id, context),
+      ...scopeActions,
+    ];
+  }
+  if (node.type) {
+    return [...toArray(inlineTypeAction(node, context)), ...scopeActions];
+  }
+
+  return [
+    {
+      label: "Insert Anonymous Complex Type",
+      command: {
+        type: "addComplexType",
+        payload: { parentId: node.id, contentModel: "sequence" },
+      },
+    },
+    {
+      label: "Insert Anonymous Simple Type",
+      command: {
+        type: "addSimpleType",
+        payload: { parentId: node.id, baseType: `${context.xsdPrefix}:string` },
+      },
+    },
+    ...scopeActions,
+  ];
+}
+
+/**
+ * Builds the actions that edit the content of a complex type: child elements
+ * in its compositor, attributes, the attribute wildcard, and a compositor or
+ * group reference if the type has no content model yet.
+ *
+ * @param node - The item backed by the complex type
+ * @param typeId - ID of the complex type
+ * @param context - Schema-wide information for building the actions
+ * @returns The content actions of the complex type
+ */
+function buildComplexTypeContentActions(
+  node: DiagramItem,
+  typeId: string,
+  context: ContextMenuContext
+): ContextMenuAction[] {
+  const actions: ContextMenuAction[] = [];
+
+  if (node.compositorId) {
+    const compositor = node.childElements.find((child) => child.id === node.compositorId);
+    actions.push(
+      addElementAction(node.compositorId, compositor ? childElementNames(compositor) : [])
+    );
+  }
+
+  // Attributes of derived types belong to their extension or restriction
+  if (!node.baseType) {
+    actions.push({
+      label: "Add Attribute",
+      command: {
+        type: "addAttribute",
+        payload: {
+          parentId: typeId,
+          attributeName: uniqueName(NEW_ATTRIBUTE_NAME, node.attributes.map((attr) => attr.name)),
+        },
+      },
+    });
+  }
+
+  const extractAttributes = extractAttributeGroupAction([node], context);
+  if (extractAttributes) {
+    actions.push(extractAttributes);
+  }
+
+  if (!node.anyAttribute) {
+    actions.push({
+      label: "Add Any Attribute",
+      command: { type: "addWildcard", payload: { parentId: typeId, kind: "anyAttribute" } },
+    });
+  } else if (node.anyAttribute.id) {
+    actions.push({
+      label: "Delete Any Attribute",
+      command: { type: "removeWildcard", payload: { wildcardId: node.anyAttribute.id } },
+      destructive: true,
+    });
+  }
+
+  if (!node.hasContentModel) {
+    for (const contentModel of NEW_COMPOSITORS) {
+      actions.push({
+        label: `Add ${contentModel === "sequence" ? "Sequence" : "Choice"}`,
+        command: { type: "modifyComplexType", payload: { typeId, contentModel } },
+      });
+    }
+    actions.push(...addGroupRefActions(typeId, context));
+  }
+
+  return actions;
+}
+
+// ===== Action Builders =====
+
+/**
+ * Builds the action that adds a child element with a free default name.
+ *
+ * @param parentId - ID of the schema root or compositor receiving the element
+ * @param siblingNames - Names of the elements already in the parent
+ * @returns The add element action
+ */
+function addElementAction(parentId: string, siblingNames: string[]): ContextMenuAction {
+  return {
+    label: "Add Child Element",
+    command: {
+      type: "addElement",
+      payload: { parentId, elementName: uniqueName(NEW_ELEMENT_NAME, siblingNames) },
+    },
+  };
+}
+
+/**
+ * Builds one action per referenceable group that adds a reference to it.
+ *
+ * @param parentId - ID of the compositor or complex type receiving the reference
+ * @param context - Schema-wide information listing the group definitions
+ * @returns The add group reference actions
+ */
+function addGroupRefActions(parentId: string, context: ContextMenuContext): ContextMenuAction[] {
+  return context.groupNames.map((groupName) => ({
+    label: `Add Group Reference: ${groupName}`,
+    command: { type: "addGroup", payload: { ref: groupName, parentId } },
+  }));
+}
+
+/**
+ * Builds the action that extracts the inline type of an element into a named
+ * top-level type, named after the element.
+ *
+ * @param elementName - Name of the element declaring the type
+ * @param typeId - ID of the anonymous type
+ * @param context - Schema-wide information listing the type names
+ * @returns The extract type action
+ */
+function extractTypeAction(
+  elementName: string,
+  typeId: string,
+  context: ContextMenuContext
+): ContextMenuAction {
+  const baseName = `${elementName.charAt(0).toUpperCase()}${elementName.slice(1)}Type`;
+  return {
+    label: "Extract to Named Type",
+    command: {
+      type: "extractType",
+      payload: { typeId, typeName: uniqueName(baseName, context.typeNames) },
+    },
+  };
+}
+
+/**
+ * Builds the action that adds documentation to a schema component.
+ *
+ * @param targetId - ID of the component to document
+ * @returns The add documentation action
+ */
+function addDocumentationAction(targetId: string): ContextMenuAction {
+  return {
+    label: "Add Documentation",
+    command: {
+      type: "addDocumentation",
+      payload: { targetId, content: NEW_DOCUMENTATION },
+    },
+  };
+}
+
+/**
+ * Collects the names of the element items directly below an item.
+ *
+ * @param node - The parent item
+ * @returns The names of its child elements
+ */
+function childElementNames(node: DiagramItem): string[] {
+  return node.childElements
+    .filter((child) => child.itemType === DiagramItemType.element)
+    .map((child) => child.name);
+}
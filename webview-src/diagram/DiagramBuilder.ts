@@ -33,6 +33,7 @@ import {
   processComplexType,
   processRestriction,
 } from "./SchemaProcessors";
+import { extractListOrUnion, extractSchemaAttributes } from "./DiagramBuilderHelpers";
 
 /**
  * Builds diagram visualizations from XSD schema objects.
@@ -70,6 +71,7 @@ export class DiagramBuilder {
       DiagramItemType.element,
       this.diagram
     );
+    extractSchemaAttributes(schemaNode, schemaObj);
 
     // Process schema child elements
     processChildCollection(
@@ -171,6 +173,7 @@ export class DiagramBuilder {
     if (simpleType.restriction) {
       processRestriction(item, simpleType.restriction);
     }
+    extractListOrUnion(item, simpleType);
 
     return item;
   }
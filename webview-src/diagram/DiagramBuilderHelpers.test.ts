@@ -5,11 +5,20 @@
 import {
   extractDocumentation,
   extractOccurrenceConstraints,
+  extractElementProperties,
+  extractSchemaAttributes,
   extractAttributes,
+  createWildcardItem,
+  extractListOrUnion,
 } from "./DiagramBuilderHelpers";
 import { DiagramItem } from "./DiagramItem";
 import { Diagram } from "./Diagram";
 import { DiagramItemType } from "./DiagramTypes";
+import {
+  formChoice,
+  reducedDerivationControl,
+  typeDerivationControl,
+} from "../../shared/generated/enums";
 
 describe("DiagramBuilderHelpers", () => {
   describe("extractDocumentation", () => {
@@ -66,6 +75,67 @@ describe("DiagramBuilderHelpers", () => {
     });
   });
 
+  describe("extractElementProperties", () => {
+    let item: DiagramItem;
+
+    beforeEach(() => {
+      item = new DiagramItem("test-1", "TestElement", DiagramItemType.element, new Diagram());
+    });
+
+    it("should extract the declaration properties", () => {
+      extractElementProperties(item, {
+        nillable: true,
+        abstract: true,
+        substitutionGroup: "tns:vehicle",
+        default_: "0",
+        block: "#all",
+        final: [reducedDerivationControl.extension, reducedDerivationControl.restriction],
+        form: formChoice.qualified,
+      });
+
+      expect(item.isNillable).toBe(true);
+      expect(item.isAbstract).toBe(true);
+      expect(item.substitutionGroup).toBe("tns:vehicle");
+      expect(item.defaultValue).toBe("0");
+      expect(item.fixedValue).toBe("");
+      expect(item.block).toBe("#all");
+      expect(item.final).toBe("extension restriction");
+      expect(item.form).toBe("qualified");
+    });
+
+    it("should leave properties that are not declared at their defaults", () => {
+      extractElementProperties(item, {});
+
+      expect(item.isNillable).toBe(false);
+      expect(item.isAbstract).toBe(false);
+      expect(item.substitutionGroup).toBe("");
+      expect(item.final).toBe("");
+    });
+  });
+
+  describe("extractSchemaAttributes", () => {
+    it("should extract the attributes of the schema root", () => {
+      const item = new DiagramItem("/schema", "Schema", DiagramItemType.element, new Diagram());
+
+      extractSchemaAttributes(item, {
+        targetNamespace: "urn:orders",
+        attributeFormDefault: formChoice.unqualified,
+        finalDefault: [typeDerivationControl.list, typeDerivationControl.union],
+        _anyAttributes: { "xml:lang": "en" },
+      });
+
+      expect(item.schemaAttributes).toEqual({
+        targetNamespace: "urn:orders",
+        elementFormDefault: "",
+        attributeFormDefault: "unqualified",
+        blockDefault: "",
+        finalDefault: "list union",
+        version: "",
+        lang: "en",
+      });
+    });
+  });
+
   describe("extractAttributes", () => {
     let diagram: Diagram;
     let item: DiagramItem;
@@ -131,6 +201,34 @@ describe("DiagramBuilderHelpers", () => {
       expect(item.attributes[0].type).toBe("inner simpleType or ref");
     });
 
+    it("should assign attribute IDs below the owning type", () => {
+      const source = {
+        attribute: [{ name: "id", type_: "string" }],
+      };
+      extractAttributes(item, source, "/complexType:PersonType");
+      expect(item.attributes[0].id).toBe("/complexType:PersonType/attribute:id");
+    });
+
+    it("should leave attribute IDs unset without an owning type", () => {
+      const source = {
+        attribute: [{ name: "id", type_: "string" }],
+      };
+      extractAttributes(item, source);
+      expect(item.attributes[0].id).toBeUndefined();
+    });
+
+    it("should extract the attribute wildcard with its ID", () => {
+      const source = {
+        anyAttribute: { namespace: "##other" as const },
+      };
+      extractAttributes(item, source, "/complexType:OpenType");
+      expect(item.anyAttribute).toEqual({
+        id: "/complexType:OpenType/anyAttribute",
+        namespace: "##other",
+        processContents: "strict",
+      });
+    });
+
     it("should handle attribute without use", () => {
       const source = {
         attribute: {
@@ -143,4 +241,62 @@ describe("DiagramBuilderHelpers", () => {
       expect(item.attributes[0].use).toBeUndefined();
     });
   });
+
+  describe("createWildcardItem", () => {
+    it("should read the wildcard attributes", () => {
+      const any = {
+        _anyAttributes: { namespace: "##local", processContents: "lax", minOccurs: "0" },
+      };
+      const item = createWildcardItem(any, "/group:g/sequence/any[0]", null);
+      expect(item.name).toBe("any");
+      expect(item.itemType).toBe(DiagramItemType.any);
+      expect(item.type).toBe("##local");
+      expect(item.processContents).toBe("lax");
+      expect(item.minOccurrence).toBe(0);
+    });
+
+    it("should default to ##any and strict", () => {
+      const item = createWildcardItem({}, "/group:g/sequence/any[0]", null);
+      expect(item.type).toBe("##any");
+      expect(item.processContents).toBe("strict");
+    });
+  });
+
+  describe("extractListOrUnion", () => {
+    let item: DiagramItem;
+
+    beforeEach(() => {
+      item = new DiagramItem("/simpleType:T", "T", DiagramItemType.type, null);
+      item.type = "simpleType";
+    });
+
+    it("should extract the item type of a list", () => {
+      extractListOrUnion(item, { list: { itemType: "xs:int" } });
+      expect(item.simpleTypeDerivation).toEqual({
+        variety: "list",
+        namedTypes: ["xs:int"],
+        inlineBaseTypes: [],
+      });
+      expect(item.type).toBe("simpleType (list of xs:int)");
+    });
+
+    it("should extract named and anonymous union members", () => {
+      extractListOrUnion(item, {
+        union: {
+          memberTypes: " xs:int  tns:Code ",
+          simpleType: [{ restriction: { base: "xs:token" } }],
+        },
+      });
+      expect(item.simpleTypeDerivation?.namedTypes).toEqual(["xs:int", "tns:Code"]);
+      expect(item.type).toBe(
+        "simpleType (union of xs:int | tns:Code | <anonymous restriction of xs:token>)"
+      );
+    });
+
+    it("should leave restrictions unchanged", () => {
+      extractListOrUnion(item, { restriction: { base: "xs:string" } });
+      expect(item.simpleTypeDerivation).toBeUndefined();
+      expect(item.type).toBe("simpleType");
+    });
+  });
 });
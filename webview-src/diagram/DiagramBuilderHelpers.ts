@@ -4,14 +4,38 @@
  */
 
 import { DiagramItem } from "./DiagramItem";
-import type { ElementWithOccurrence, ElementWithAttributes } from "./DiagramTypes";
+import { DiagramItemType } from "./DiagramTypes";
+import type {
+  ElementWithOccurrence,
+  ElementWithAttributes,
+  ElementWithProperties,
+  SimpleTypeLike,
+} from "./DiagramTypes";
+import type { Diagram } from "./Diagram";
 import type { annotationType } from "../../shared/generated/annotationType";
+import type { anyType } from "../../shared/generated/anyType";
+import type { schema } from "../../shared/generated/schema";
 import { toArray } from "../../shared/schemaUtils";
+import { generateSchemaId, SchemaNodeType } from "../../shared/idStrategy";
+
+/**
+ * Type shown for attributes that declare their type inline or reference a top-level attribute.
+ */
+export const UNRESOLVED_ATTRIBUTE_TYPE = "inner simpleType or ref";
+
+/** Namespace constraint of a wildcard without a namespace attribute. */
+export const DEFAULT_WILDCARD_NAMESPACE = "##any";
+
+/** processContents of a wildcard without a processContents attribute. */
+export const DEFAULT_PROCESS_CONTENTS = "strict";
+
+/** Label of an anonymous simple type that does not derive by restriction. */
+const ANONYMOUS_SIMPLE_TYPE_LABEL = "<anonymous simpleType>";
 
 /**
  * Extracts documentation from an annotation object in an XSD schema.
  * Concatenates multiple documentation elements with newlines.
- * 
+ *
  * @param annotation - Annotation object from schema element
  * @returns Concatenated documentation string or undefined if no documentation exists
  */
@@ -27,7 +51,7 @@ export function extractDocumentation(annotation?: annotationType): string | unde
 /**
  * Extracts occurrence constraints (minOccurs/maxOccurs) from a schema element.
  * Updates the diagram item with parsed occurrence values.
- * 
+ *
  * @param item - Diagram item to update with occurrence constraints
  * @param source - Source object with minOccurs/maxOccurs properties
  */
@@ -44,14 +68,60 @@ export function extractOccurrenceConstraints(
   }
 }
 
+/**
+ * Extracts the declaration properties of an element (nillable, abstract,
+ * substitutionGroup, default, fixed, block, final and form).
+ *
+ * @param item - Diagram item to update with the properties
+ * @param element - Element declaration from schema
+ */
+export function extractElementProperties(item: DiagramItem, element: ElementWithProperties): void {
+  item.isNillable = element.nillable ?? false;
+  item.isAbstract = element.abstract ?? false;
+  item.substitutionGroup = element.substitutionGroup ?? "";
+  item.defaultValue = element.default_ ?? "";
+  item.fixedValue = element.fixed ?? "";
+  item.block = element.block ?? "";
+  // The generated type models final as a list, but it is read as its lexical string
+  item.final = Array.isArray(element.final) ? element.final.join(" ") : element.final ?? "";
+  item.form = element.form ?? "";
+}
+
+/**
+ * Extracts the attributes of the schema root onto the schema node.
+ *
+ * @param item - Diagram item of the schema root
+ * @param schemaObj - The schema
+ */
+export function extractSchemaAttributes(item: DiagramItem, schemaObj: schema): void {
+  const { finalDefault } = schemaObj;
+  item.schemaAttributes = {
+    targetNamespace: schemaObj.targetNamespace ?? "",
+    elementFormDefault: schemaObj.elementFormDefault ?? "",
+    attributeFormDefault: schemaObj.attributeFormDefault ?? "",
+    blockDefault: schemaObj.blockDefault ?? "",
+    // The generated type models finalDefault as a list, but it is read as its lexical string
+    finalDefault: Array.isArray(finalDefault) ? finalDefault.join(" ") : finalDefault ?? "",
+    version: schemaObj.version ?? "",
+    lang: schemaObj._anyAttributes?.["xml:lang"] ?? "",
+  };
+}
+
 /**
  * Extracts attributes from a complex type or extension definition.
  * Parses attribute properties and adds them to the diagram item.
- * 
+ *
+ * When `ownerId` is given, each attribute also receives its schema ID so it can be edited.
+ *
  * @param item - Diagram item to add attributes to
  * @param source - Source object that may contain attribute definitions
+ * @param ownerId - Optional ID of the type definition that declares the attributes
  */
-export function extractAttributes(item: DiagramItem, source: ElementWithAttributes | null | undefined): void {
+export function extractAttributes(
+  item: DiagramItem,
+  source: ElementWithAttributes | null | undefined,
+  ownerId?: string
+): void {
   if (!source) {
     return;
   }
@@ -64,11 +134,105 @@ export function extractAttributes(item: DiagramItem, source: ElementWithAttribut
     }
 
     item.attributes.push({
+      id: ownerId
+        ? generateSchemaId({
+            nodeType: SchemaNodeType.Attribute,
+            name: attr.name,
+            parentId: ownerId,
+          })
+        : undefined,
       name: attr.name,
-      type: attr.type_ || "inner simpleType or ref",
+      type: attr.type_ || UNRESOLVED_ATTRIBUTE_TYPE,
       use: attr.use,
       defaultValue: attr.default_,
       fixedValue: attr.fixed,
     });
   }
+
+  if (source.anyAttribute) {
+    item.anyAttribute = {
+      id: ownerId
+        ? generateSchemaId({ nodeType: SchemaNodeType.AnyAttribute, parentId: ownerId })
+        : undefined,
+      namespace: source.anyAttribute.namespace ?? DEFAULT_WILDCARD_NAMESPACE,
+      processContents: source.anyAttribute.processContents ?? DEFAULT_PROCESS_CONTENTS,
+    };
+  }
+}
+
+/**
+ * Creates the diagram item of an element wildcard (xs:any).
+ * The generated compositor classes type xs:any as the generic anyType, so
+ * the wildcard's attributes are read from its `_anyAttributes` map.
+ *
+ * @param any - The element wildcard from schema
+ * @param id - Schema ID of the wildcard
+ * @param diagram - The diagram the item belongs to
+ * @returns The wildcard item, labelled "any" with its namespace constraint as type
+ */
+export function createWildcardItem(
+  any: anyType,
+  id: string,
+  diagram: Diagram | null
+): DiagramItem {
+  const attributes = any._anyAttributes ?? {};
+  const item = new DiagramItem(id, "any", DiagramItemType.any, diagram);
+  item.type = attributes.namespace ?? DEFAULT_WILDCARD_NAMESPACE;
+  item.processContents = attributes.processContents ?? DEFAULT_PROCESS_CONTENTS;
+
+  const { minOccurs, maxOccurs } = attributes;
+  extractOccurrenceConstraints(item, {
+    minOccurs: minOccurs !== undefined ? Number(minOccurs) : undefined,
+    maxOccurs:
+      maxOccurs === undefined || maxOccurs === "unbounded" ? maxOccurs : Number(maxOccurs),
+  });
+  return item;
+}
+
+/**
+ * Extracts the item type of a list or the member types of a union and
+ * appends them to the type description of the item.
+ * Simple types derived by restriction are left unchanged.
+ *
+ * @param item - Diagram item of the simple type or of the element declaring it inline
+ * @param simpleType - The simple type definition from schema
+ */
+export function extractListOrUnion(item: DiagramItem, simpleType: SimpleTypeLike): void {
+  if (simpleType.list) {
+    const { itemType, simpleType: inlineItemType } = simpleType.list;
+    item.simpleTypeDerivation = {
+      variety: "list",
+      namedTypes: itemType ? [itemType] : [],
+      inlineBaseTypes: inlineItemType ? [inlineItemType.restriction?.base ?? ""] : [],
+    };
+    item.type += ` (list of ${describeSimpleTypeMembers(item).join(" | ")})`;
+  } else if (simpleType.union) {
+    const { memberTypes, simpleType: inlineMembers } = simpleType.union;
+    item.simpleTypeDerivation = {
+      variety: "union",
+      namedTypes: memberTypes?.trim().split(/\s+/).filter((member) => member) ?? [],
+      inlineBaseTypes: toArray(inlineMembers).map((member) => member.restriction?.base ?? ""),
+    };
+    item.type += ` (union of ${describeSimpleTypeMembers(item).join(" | ")})`;
+  }
+}
+
+/**
+ * Describes the item or member types of a list or union simple type for display.
+ * Anonymous types are described by the base type they restrict.
+ *
+ * @param item - Diagram item carrying the list or union derivation
+ * @returns The named types followed by descriptions of the anonymous ones
+ */
+export function describeSimpleTypeMembers(item: DiagramItem): string[] {
+  const derivation = item.simpleTypeDerivation;
+  if (!derivation) {
+    return [];
+  }
+  return [
+    ...derivation.namedTypes,
+    ...derivation.inlineBaseTypes.map((base) =>
+      base ? `<anonymous restriction of ${base}>` : ANONYMOUS_SIMPLE_TYPE_LABEL
+    ),
+  ];
 }
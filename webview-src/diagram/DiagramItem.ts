@@ -22,6 +22,14 @@ export class DiagramItem {
   public parent: DiagramItem | null = null;
   public childElements: DiagramItem[] = [];
   public inheritFrom: DiagramItem | null = null;
+  // ID of the type definition backing this item (the named type itself or an inline anonymous type)
+  public typeId: string = "";
+  // Base type of the restriction or extension this item derives from
+  public baseType: string = "";
+  // ID of the compositor directly holding the item's child elements, if the type defines one
+  public compositorId: string = "";
+  // Whether the backing type already defines its content (a particle or simple/complex content)
+  public hasContentModel: boolean = false;
 
   // Occurrence constraints
   public minOccurrence: number = 1;
@@ -33,6 +41,16 @@ export class DiagramItem {
   public isReference: boolean = false;
   public isSimpleContent: boolean = false;
   public isAbstract: boolean = false;
+  public isMixed: boolean = false;
+
+  // Element declaration properties; isAbstract is shared with complex types
+  public isNillable: boolean = false;
+  public substitutionGroup: string = "";
+  public defaultValue: string = "";
+  public fixedValue: string = "";
+  public block: string = "";
+  public final: string = "";
+  public form: string = "";
 
   // Layout properties
   public location: Point = { x: 0, y: 0 };
@@ -50,6 +68,7 @@ export class DiagramItem {
 
   // Attributes
   public attributes: Array<{
+    id?: string;
     name: string;
     type: string;
     use?: string;
@@ -57,6 +76,24 @@ export class DiagramItem {
     fixedValue?: string;
   }> = [];
 
+  // How content matched by a wildcard item is validated (strict, lax or skip)
+  public processContents: string = "";
+
+  // Attribute wildcard (xs:anyAttribute)
+  public anyAttribute?: {
+    id?: string;
+    namespace: string;
+    processContents: string;
+  };
+
+  // Derivation of a simple type by list or union: its named item or member types
+  // and the base types of its anonymous item or member types
+  public simpleTypeDerivation?: {
+    variety: "list" | "union";
+    namedTypes: string[];
+    inlineBaseTypes: string[];
+  };
+
   // Restrictions (for simpleType restrictions)
   public restrictions?: {
     enumeration?: string[];
@@ -73,6 +110,17 @@ export class DiagramItem {
     whiteSpace?: string;
   };
 
+  // Attributes of the xs:schema root, only set on the schema node; unset attributes are empty
+  public schemaAttributes?: {
+    targetNamespace: string;
+    elementFormDefault: string;
+    attributeFormDefault: string;
+    blockDefault: string;
+    finalDefault: string;
+    version: string;
+    lang: string;
+  };
+
   // Reference to diagram for accessing settings
   public diagram: Diagram | null = null;
 
@@ -18,6 +18,7 @@ import {
   renderElementShape,
   renderGroupShape,
   renderTypeShape,
+  renderWildcardShape,
 } from "./ShapeRenderers";
 import {
   renderText,
@@ -283,6 +284,16 @@ export class DiagramSvgRenderer {
           group
         );
         break;
+
+      case DiagramItemType.any:
+        renderWildcardShape(
+          scaledBox,
+          backgroundBrush,
+          foregroundPen + dashed,
+          item,
+          group
+        );
+        break;
     }
   }
 
@@ -4,7 +4,9 @@
  */
 
 import type { attribute } from "../../shared/generated/attribute";
-import type { allNNI } from "../../shared/generated/types";
+import type { allNNI, blockSet, derivationSet } from "../../shared/generated/types";
+import type { formChoice } from "../../shared/generated/enums";
+import type { wildcard } from "../../shared/generated/wildcard";
 import type { explicitGroup } from "../../shared/generated/explicitGroup";
 import type { all } from "../../shared/generated/all";
 import type { localComplexType } from "../../shared/generated/localComplexType";
@@ -17,6 +19,8 @@ export enum DiagramItemType {
   group = "group",
   type = "type",
   reference = "reference",
+  /** Element wildcard (xs:any) */
+  any = "any",
 }
 
 export enum DiagramItemGroupType {
@@ -52,6 +56,22 @@ export interface ElementWithOccurrence {
   maxOccurs?: allNNI;
 }
 
+/**
+ * Interface for element declarations and their declaration properties.
+ * Top-level elements have no form; local elements have no abstract,
+ * substitutionGroup or final.
+ */
+export interface ElementWithProperties {
+  nillable?: boolean;
+  abstract?: boolean;
+  substitutionGroup?: string;
+  default_?: string;
+  fixed?: string;
+  block?: blockSet;
+  final?: derivationSet;
+  form?: formChoice;
+}
+
 /**
  * Interface for schema elements that have attribute definitions.
  * This includes complexType, extension, and restriction definitions.
@@ -59,6 +79,7 @@ export interface ElementWithOccurrence {
  */
 export interface ElementWithAttributes {
   attribute?: attribute | attribute[];
+  anyAttribute?: wildcard;
 }
 
 /**
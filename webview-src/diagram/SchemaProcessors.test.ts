@@ -5,6 +5,7 @@
 import {
   processExtension,
   processRestriction,
+  processAnonymousComplexType,
   processAnonymousSimpleType,
   processComplexType,
   extractRestrictionFacets,
@@ -223,9 +224,125 @@ describe("SchemaProcessors", () => {
 
       expect(item.isSimpleContent).toBe(true);
     });
+
+    it("should record the anonymous type ID and base type", () => {
+      const element = new DiagramItem("/element:age", "age", DiagramItemType.element, diagram);
+
+      processAnonymousSimpleType(element, { restriction: { base: "xs:int" } });
+
+      expect(element.typeId).toBe("/element:age/anonymousSimpleType[0]");
+      expect(element.baseType).toBe("xs:int");
+    });
+
+    it("should describe the item type of an anonymous list", () => {
+      processAnonymousSimpleType(item, { list: { simpleType: { restriction: { base: "xs:int" } } } });
+
+      expect(item.type).toBe("<anonymous simpleType> (list of <anonymous restriction of xs:int>)");
+      expect(item.simpleTypeDerivation?.variety).toBe("list");
+    });
+  });
+
+  describe("processAnonymousComplexType", () => {
+    it("should derive compositor and child IDs from the anonymous type ID", () => {
+      const element = new DiagramItem("/element:person", "person", DiagramItemType.element, diagram);
+      const complexType = {
+        mixed: true,
+        sequence: { element: [{ name: "firstName", type_: "xs:string" }] },
+        attribute: [{ name: "id", type_: "xs:ID" }],
+      };
+
+      processAnonymousComplexType(element, complexType);
+
+      const sequence = element.childElements[0];
+      expect(element.typeId).toBe("/element:person/anonymousComplexType[0]");
+      expect(element.isMixed).toBe(true);
+      expect(sequence.id).toBe("/element:person/anonymousComplexType[0]/group:sequence");
+      expect(sequence.childElements[0].id).toBe(
+        "/element:person/anonymousComplexType[0]/group:sequence/element:firstName[0]"
+      );
+      expect(element.attributes[0].id).toBe(
+        "/element:person/anonymousComplexType[0]/attribute:id"
+      );
+    });
   });
 
   describe("processComplexType", () => {
+    it("should derive compositor IDs from the backing type ID", () => {
+      const typeItem = new DiagramItem("/complexType:OrderType", "OrderType", DiagramItemType.type, diagram);
+      typeItem.typeId = typeItem.id;
+      const complexType = {
+        choice: { element: [{ ref: "item" }] },
+      };
+
+      processComplexType(typeItem, complexType);
+
+      const choice = typeItem.childElements[0];
+      expect(choice.id).toBe("/complexType:OrderType/group:choice");
+      expect(choice.childElements[0].id).toBe("/complexType:OrderType/group:choice/element:item[0]");
+      expect(choice.childElements[0].isReference).toBe(true);
+    });
+
+    it("should add element wildcards after the child elements of a compositor", () => {
+      const typeItem = new DiagramItem("/complexType:OpenType", "OpenType", DiagramItemType.type, diagram);
+      typeItem.typeId = typeItem.id;
+      const complexType = {
+        sequence: {
+          element: [{ name: "id", type_: "xs:ID" }],
+          any_: [{ _anyAttributes: { namespace: "##other", maxOccurs: "unbounded" } }],
+        },
+      };
+
+      processComplexType(typeItem, complexType);
+
+      const wildcard = typeItem.childElements[0].childElements[1];
+      expect(wildcard.id).toBe("/complexType:OpenType/group:sequence/any[0]");
+      expect(wildcard.itemType).toBe(DiagramItemType.any);
+      expect(wildcard.type).toBe("##other");
+      expect(wildcard.maxOccurrence).toBe(-1);
+    });
+
+    it("should record the compositor that holds child elements", () => {
+      const typeItem = new DiagramItem("/complexType:OrderType", "OrderType", DiagramItemType.type, diagram);
+      typeItem.typeId = typeItem.id;
+
+      processComplexType(typeItem, { sequence: {} });
+
+      expect(typeItem.hasContentModel).toBe(true);
+      expect(typeItem.compositorId).toBe("/complexType:OrderType/group:sequence");
+    });
+
+    it("should not record a compositor for types without content model", () => {
+      const typeItem = new DiagramItem("/complexType:EmptyType", "EmptyType", DiagramItemType.type, diagram);
+      typeItem.typeId = typeItem.id;
+
+      processComplexType(typeItem, { attribute: [{ name: "id", type_: "xs:ID" }] });
+
+      expect(typeItem.hasContentModel).toBe(false);
+      expect(typeItem.compositorId).toBe("");
+    });
+
+    it("should record the inline types of local elements", () => {
+      const typeItem = new DiagramItem("/complexType:OrderType", "OrderType", DiagramItemType.type, diagram);
+      typeItem.typeId = typeItem.id;
+      const complexType = {
+        sequence: {
+          element: [
+            { name: "line", complexType: { choice: {} } },
+            { name: "code", simpleType: { restriction: { base: "xs:string" } } },
+          ],
+        },
+      };
+
+      processComplexType(typeItem, complexType);
+
+      const [line, code] = typeItem.childElements[0].childElements;
+      expect(line.typeId).toBe("/complexType:OrderType/group:sequence/element:line[0]/anonymousComplexType[0]");
+      expect(line.compositorId).toBe(
+        "/complexType:OrderType/group:sequence/element:line[0]/anonymousComplexType[0]/group:choice"
+      );
+      expect(code.typeId).toBe("/complexType:OrderType/group:sequence/element:code[1]/anonymousSimpleType[0]");
+    });
+
     it("should process complexContent with extension", () => {
       item.type = "complexType";
       const complexType = {
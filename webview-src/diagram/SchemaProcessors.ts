@@ -20,6 +20,9 @@ import {
   extractDocumentation,
   extractAttributes,
   extractOccurrenceConstraints,
+  extractElementProperties,
+  createWildcardItem,
+  extractListOrUnion,
 } from "./DiagramBuilderHelpers";
 import { toArray } from "../../shared/schemaUtils";
 import type { localElement } from "../../shared/generated/localElement";
@@ -97,6 +100,12 @@ export function processAnonymousComplexType(
   if (!parent.type) {
     parent.type = "<anonymous complexType>";
   }
+  parent.typeId = generateSchemaId({
+    nodeType: SchemaNodeType.AnonymousComplexType,
+    parentId: parent.id,
+    position: 0,
+  });
+  parent.isMixed = complexType.mixed ?? false;
 
   // Merge documentation from the anonymous type if parent has none
   if (!parent.documentation) {
@@ -130,11 +139,17 @@ export function processAnonymousSimpleType(
   if (!parent.type) {
     parent.type = "<anonymous simpleType>";
   }
+  parent.typeId = generateSchemaId({
+    nodeType: SchemaNodeType.AnonymousSimpleType,
+    parentId: parent.id,
+    position: 0,
+  });
 
   // Process restriction/list/union if present to extract base type
   if (simpleType.restriction) {
     processRestriction(parent, simpleType.restriction);
   }
+  extractListOrUnion(parent, simpleType);
 }
 
 /**
@@ -149,7 +164,8 @@ export function processComplexType(
   complexType: ComplexTypeLike
 ): void {
   // Process attributes
-  extractAttributes(parent, complexType);
+  extractAttributes(parent, complexType, parent.typeId || undefined);
+  recordContentModel(parent, complexType);
 
   // Process complexContent
   if (complexType.complexContent) {
@@ -194,6 +210,43 @@ export function processComplexType(
   }
 }
 
+/**
+ * Records how the content model of a complex type is defined, so that editing
+ * actions know where child elements go and whether a compositor may still be added.
+ * Only compositors placed directly on the type are addressable by their ID.
+ *
+ * @param parent - Diagram item backed by the complex type
+ * @param complexType - Complex type definition from schema
+ */
+function recordContentModel(
+  parent: DiagramItem,
+  complexType: ComplexTypeLike
+): void {
+  parent.hasContentModel = Boolean(
+    complexType.sequence ||
+      complexType.choice ||
+      complexType.all ||
+      complexType.group ||
+      complexType.complexContent ||
+      complexType.simpleContent
+  );
+
+  const compositor = complexType.sequence
+    ? "sequence"
+    : complexType.choice
+      ? "choice"
+      : complexType.all
+        ? "all"
+        : undefined;
+  if (compositor && parent.typeId) {
+    parent.compositorId = generateSchemaId({
+      nodeType: SchemaNodeType.Group,
+      name: compositor,
+      parentId: parent.typeId,
+    });
+  }
+}
+
 /**
  * Processes a sequence group in the schema.
  * Creates a sequence group container and processes its elements.
@@ -235,7 +288,7 @@ export function processAll(parent: DiagramItem, all: all): void {
 
 /**
  * Generic function to process a group (sequence, choice, or all).
- * Creates a group container and processes child elements.
+ * Creates a group container and processes child elements and element wildcards.
  *
  * @param parent - Parent diagram item
  * @param groupDef - Group definition from schema
@@ -248,10 +301,15 @@ function processGroup(
   groupName: string,
   groupType: DiagramItemGroupType
 ): void {
-  // Groups don't have names, so we use position-based ID
-  // Create the group item first (without ID) to ensure proper position tracking
+  // A type holds at most one compositor of each kind, so the compositor name
+  // under the backing type's ID is unique and matches the extension's paths.
+  // The ID must be known before the child element IDs are derived from it.
   const groupItem = new DiagramItem(
-    "", // Temporary ID, will be set after determining position
+    generateSchemaId({
+      nodeType: SchemaNodeType.Group,
+      name: groupName,
+      parentId: parent.typeId || parent.id,
+    }),
     groupName,
     DiagramItemType.group,
     parent.diagram
@@ -268,7 +326,8 @@ function processGroup(
     const item = new DiagramItem(
       generateSchemaId({
         nodeType: SchemaNodeType.Element,
-        name: elem.name || "unnamed",
+        // The extension also resolves element references by their ref name
+        name: elem.name || elem.ref || "unnamed",
         parentId: groupItem.id,
         position: elemPosition,
       }),
@@ -279,23 +338,45 @@ function processGroup(
     if (elem.type_) {
       item.type = elem.type_;
     }
+    item.isReference = Boolean(elem.ref);
+    // Inline types are not expanded here, but their IDs are needed for editing
+    if (elem.complexType) {
+      item.typeId = generateSchemaId({
+        nodeType: SchemaNodeType.AnonymousComplexType,
+        parentId: item.id,
+        position: 0,
+      });
+      recordContentModel(item, elem.complexType);
+    } else if (elem.simpleType) {
+      item.typeId = generateSchemaId({
+        nodeType: SchemaNodeType.AnonymousSimpleType,
+        parentId: item.id,
+        position: 0,
+      });
+    }
     item.documentation = extractDocumentation(elem.annotation) ?? "";
 
     // Extract occurrence constraints for the element
     extractOccurrenceConstraints(item, elem);
+    extractElementProperties(item, elem);
 
     groupItem.addChild(item);
   });
 
+  // Element wildcards are addressed by their position among the compositor's wildcards
+  if ("any_" in groupDef) {
+    toArray(groupDef.any_).forEach((any, anyPosition) => {
+      const id = generateSchemaId({
+        nodeType: SchemaNodeType.Any,
+        parentId: groupItem.id,
+        position: anyPosition,
+      });
+      groupItem.addChild(createWildcardItem(any, id, parent.diagram));
+    });
+  }
+
   // Only add the group if it has children
   if (groupItem.childElements.length > 0) {
-    // Calculate position right before adding to ensure uniqueness
-    const position = parent.childElements.length;
-    groupItem.id = generateSchemaId({
-      nodeType: SchemaNodeType.Group,
-      parentId: parent.id,
-      position,
-    });
     parent.addChild(groupItem);
   }
 }
@@ -314,6 +395,7 @@ export function processExtension(
   // Extract base type - append to existing type info
   if (extension.base) {
     parent.type += ` (extends ${extension.base})`;
+    parent.baseType = extension.base;
   }
 
   // Extract attributes from extension
@@ -462,6 +544,7 @@ export function processRestriction(
   // Extract base type from restriction - append to existing type info
   if (restriction.base) {
     parent.type += ` (restricts ${restriction.base})`;
+    parent.baseType = restriction.base;
   }
 
   // Extract restriction facets (enumeration, pattern, length, etc.)
@@ -6,6 +6,7 @@ import {
   renderElementShape,
   renderGroupShape,
   renderTypeShape,
+  renderWildcardShape,
   renderGroupTypeIndicator,
 } from "./ShapeRenderers";
 import { DiagramItem } from "./DiagramItem";
@@ -80,6 +81,31 @@ describe("ShapeRenderers", () => {
     });
   });
 
+  describe("renderWildcardShape", () => {
+    it("should render an outer and an inset inner rectangle", () => {
+      const rect: Rectangle = { x: 10, y: 10, width: 100, height: 50 };
+      const item = new DiagramItem("id1", "any", DiagramItemType.any);
+
+      renderWildcardShape(rect, "fill:blue", "stroke:black;stroke-width:2", item, mockGroup);
+
+      const rectangles = mockGroup.querySelectorAll("rect");
+      expect(rectangles.length).toBe(2);
+      expect(rectangles[1].getAttribute("x")).toBe("13");
+      expect(rectangles[1].getAttribute("width")).toBe("94");
+      expect(rectangles[1].getAttribute("style")).toBe("fill:none;stroke:black;stroke-width:1");
+    });
+
+    it("should render shadow for multiple occurrences", () => {
+      const rect: Rectangle = { x: 10, y: 10, width: 100, height: 50 };
+      const item = new DiagramItem("id2", "any", DiagramItemType.any);
+      item.maxOccurrence = -1;
+
+      renderWildcardShape(rect, "fill:blue", "stroke:black", item, mockGroup);
+
+      expect(mockGroup.querySelectorAll("rect").length).toBe(3);
+    });
+  });
+
   describe("renderGroupShape", () => {
     it("should render an octagon for single occurrence", () => {
       const rect: Rectangle = { x: 10, y: 10, width: 100, height: 50 };
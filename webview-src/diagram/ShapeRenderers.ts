@@ -35,6 +35,35 @@ export function renderElementShape(
   svgRectangle(group, rect, fill, stroke);
 }
 
+/** Inset of the inner outline of wildcard shapes */
+const WILDCARD_INSET = 3;
+
+/**
+ * Render an element wildcard (xs:any) as a rectangle with a double outline,
+ * with optional shadow for multiple occurrences
+ * @param rect - Rectangle dimensions and position
+ * @param fill - Fill style string
+ * @param stroke - Stroke style string
+ * @param item - Diagram item being rendered
+ * @param group - Parent SVG group element
+ */
+export function renderWildcardShape(
+  rect: Rectangle,
+  fill: string,
+  stroke: string,
+  item: DiagramItem,
+  group: SVGElement
+): void {
+  renderElementShape(rect, fill, stroke, item, group);
+  const innerRect = {
+    x: rect.x + WILDCARD_INSET,
+    y: rect.y + WILDCARD_INSET,
+    width: rect.width - WILDCARD_INSET * 2,
+    height: rect.height - WILDCARD_INSET * 2,
+  };
+  svgRectangle(group, innerRect, "fill:none", stroke.replace("stroke-width:2", "stroke-width:1"));
+}
+
 /**
  * Render a group as an octagon shape with optional shadow for multiple occurrences
  * @param rect - Rectangle dimensions and position
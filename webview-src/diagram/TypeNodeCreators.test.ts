@@ -78,6 +78,18 @@ describe("TypeNodeCreators", () => {
       expect(node!.type).toBe("complexType");
     });
 
+    it("should record type ID, abstract and mixed flags", () => {
+      const complexType = new topLevelComplexType();
+      complexType.name = "PersonType";
+      complexType.abstract = true;
+      complexType.mixed = true;
+      const node = createComplexTypeNode(complexType, diagram);
+
+      expect(node!.typeId).toBe("/complexType:PersonType");
+      expect(node!.isAbstract).toBe(true);
+      expect(node!.isMixed).toBe(true);
+    });
+
     it("should extract documentation", () => {
       const complexType = new topLevelComplexType();
       complexType.name = "PersonType";
@@ -15,7 +15,7 @@ import {
   generateSchemaId,
   SchemaNodeType,
 } from "../../shared/idStrategy";
-import { extractDocumentation } from "./DiagramBuilderHelpers";
+import { extractDocumentation, extractElementProperties } from "./DiagramBuilderHelpers";
 
 /**
  * Creates a diagram item node from an element definition in the schema.
@@ -51,6 +51,8 @@ export function createElementNode(
   // Extract documentation
   item.documentation = extractDocumentation(element.annotation) ?? "";
 
+  extractElementProperties(item, element);
+
   // Note: topLevelElement does not have occurrence constraints (minOccurs/maxOccurs)
   // Those only exist on localElement within complex types
 
@@ -84,6 +86,9 @@ export function createComplexTypeNode(
   );
 
   item.type = "complexType";
+  item.typeId = item.id;
+  item.isAbstract = complexType.abstract ?? false;
+  item.isMixed = complexType.mixed ?? false;
 
   // Extract documentation
   item.documentation = extractDocumentation(complexType.annotation) ?? "";
@@ -118,6 +123,7 @@ export function createSimpleTypeNode(
   );
 
   item.type = "simpleType";
+  item.typeId = item.id;
   item.isSimpleContent = true;
 
   // Extract documentation
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for DiagramDragAndDrop class.
+ */
+
+import { DiagramDragAndDrop } from "./dragAndDrop";
+import { DiagramItem } from "./diagram/DiagramItem";
+import { Diagram } from "./diagram/Diagram";
+import { DiagramItemType } from "./diagram/DiagramTypes";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const SEQUENCE_ID = "/complexType:PersonType/group:sequence";
+
+describe("DiagramDragAndDrop", () => {
+  let canvas: SVGSVGElement;
+  let dispatch: jest.Mock;
+  let items: Map<string, DiagramItem>;
+  let rendered: Map<string, SVGGElement>;
+
+  /**
+   * Renders a diagram item as an SVG group with a shape inside.
+   */
+  function render(item: DiagramItem): void {
+    const group = document.createElementNS(SVG_NS, "g");
+    group.setAttribute("data-item-id", item.id);
+    group.appendChild(document.createElementNS(SVG_NS, "rect"));
+    canvas.appendChild(group);
+    items.set(item.id, item);
+    rendered.set(item.id, group);
+  }
+
+  /**
+   * Dispatches a mouse event on the shape of a rendered item.
+   */
+  function mouse(type: string, itemId: string, clientX: number, init: MouseEventInit = {}): void {
+    rendered
+      .get(itemId)!
+      .firstChild!.dispatchEvent(new MouseEvent(type, { bubbles: true, clientX, clientY: 0, ...init }));
+  }
+
+  beforeEach(() => {
+    canvas = document.createElementNS(SVG_NS, "svg");
+    document.body.appendChild(canvas);
+    dispatch = jest.fn();
+    items = new Map();
+    rendered = new Map();
+
+    const diagram = new Diagram();
+    const sequence = new DiagramItem(SEQUENCE_ID, "sequence", DiagramItemType.group, diagram);
+    ["firstName", "lastName"].forEach((name, position) => {
+      sequence.addChild(
+        new DiagramItem(`${SEQUENCE_ID}/element:${name}[${position}]`, name, DiagramItemType.element, diagram)
+      );
+    });
+    render(sequence);
+    sequence.childElements.forEach(render);
+
+    new DiagramDragAndDrop(canvas, (itemId) => items.get(itemId ?? "") ?? null, dispatch);
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = "";
+  });
+
+  it("should dispatch a move command when an element is dropped on another", () => {
+    const lastName = `${SEQUENCE_ID}/element:lastName[1]`;
+    const firstName = `${SEQUENCE_ID}/element:firstName[0]`;
+
+    mouse("mousedown", lastName, 100);
+    mouse("mousemove", firstName, 50);
+    expect(rendered.get(lastName)!.classList.contains("dragging")).toBe(true);
+    expect(rendered.get(firstName)!.classList.contains("drop-target")).toBe(true);
+    mouse("mouseup", firstName, 50);
+
+    expect(dispatch).toHaveBeenCalledWith({
+      type: "moveNode",
+      payload: { nodeId: lastName, newParentId: SEQUENCE_ID, index: 0 },
+    });
+    expect(rendered.get(lastName)!.classList.contains("dragging")).toBe(false);
+    expect(rendered.get(firstName)!.classList.contains("drop-target")).toBe(false);
+  });
+
+  it("should swallow the click that ends a drag", () => {
+    const onClick = jest.fn();
+    canvas.addEventListener("click", onClick);
+    const lastName = `${SEQUENCE_ID}/element:lastName[1]`;
+
+    mouse("mousedown", lastName, 100);
+    mouse("mousemove", SEQUENCE_ID, 50);
+    mouse("mouseup", SEQUENCE_ID, 50);
+    mouse("click", SEQUENCE_ID, 50);
+
+    expect(onClick).not.toHaveBeenCalled();
+  });
+
+  it("should not start a drag for small movements, other buttons or invalid targets", () => {
+    const lastName = `${SEQUENCE_ID}/element:lastName[1]`;
+    const firstName = `${SEQUENCE_ID}/element:firstName[0]`;
+
+    mouse("mousedown", lastName, 100);
+    mouse("mousemove", lastName, 98);
+    mouse("mouseup", firstName, 98);
+    mouse("mousedown", lastName, 100, { ctrlKey: true });
+    mouse("mousemove", firstName, 50);
+    mouse("mouseup", firstName, 50);
+    mouse("mousedown", SEQUENCE_ID, 100);
+    mouse("mousemove", firstName, 50);
+    mouse("mouseup", firstName, 50);
+
+    expect(dispatch).not.toHaveBeenCalled();
+  });
+});
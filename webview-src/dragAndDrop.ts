@@ -0,0 +1,144 @@
+/**
+ * Drag-and-drop reordering of diagram items.
+ * Lets the user drag an element of a compositor onto another element, to
+ * insert it before that element, or onto a compositor, to append it there,
+ * and dispatches the moveNode command that performs the move.
+ */
+
+import { DiagramItem } from "./diagram";
+import { CommandDispatcher } from "./propertyForm";
+import { buildMoveCommand, isDraggable } from "./dragAndDropActions";
+
+/** Distance in pixels the pointer must travel before a press becomes a drag. */
+const DRAG_THRESHOLD = 4;
+
+/** Element pressed on the canvas that may become a drag. */
+interface DragSource {
+  item: DiagramItem;
+  element: SVGElement;
+  startX: number;
+  startY: number;
+}
+
+/**
+ * Handles dragging diagram items on the canvas. Only left-button presses
+ * without Ctrl start a drag, so panning keeps working; the click that ends a
+ * drag is swallowed so that it does not select another item.
+ */
+export class DiagramDragAndDrop {
+  private canvas: SVGSVGElement;
+  private findItem: (itemId: string | null) => DiagramItem | null;
+  private dispatch: CommandDispatcher;
+  private source: DragSource | null = null;
+  private dragging = false;
+  private dropTarget: SVGElement | null = null;
+  private onClickAfterDrag = (e: MouseEvent): void => {
+    e.stopImmediatePropagation();
+    this.canvas.removeEventListener("click", this.onClickAfterDrag, true);
+  };
+
+  /**
+   * Creates a new DiagramDragAndDrop and starts listening on the canvas.
+   *
+   * @param canvas - The SVG canvas the diagram is rendered into
+   * @param findItem - Resolves the diagram item rendered with a given ID
+   * @param dispatch - Callback used to send the move command of a drop
+   */
+  constructor(
+    canvas: SVGSVGElement,
+    findItem: (itemId: string | null) => DiagramItem | null,
+    dispatch: CommandDispatcher
+  ) {
+    this.canvas = canvas;
+    this.findItem = findItem;
+    this.dispatch = dispatch;
+
+    canvas.addEventListener("mousedown", (e: MouseEvent) => this.onMouseDown(e));
+    canvas.addEventListener("mousemove", (e: MouseEvent) => this.onMouseMove(e));
+    document.addEventListener("mouseup", (e: MouseEvent) => this.onMouseUp(e));
+  }
+
+  /**
+   * Returns the rendered diagram item containing an event target.
+   */
+  private itemElementOf(target: EventTarget | null): SVGElement | null {
+    return target instanceof Element
+      ? target.closest<SVGElement>("[data-item-id]")
+      : null;
+  }
+
+  /**
+   * Remembers a pressed draggable item as the possible source of a drag.
+   */
+  private onMouseDown(e: MouseEvent): void {
+    if (e.button !== 0 || e.ctrlKey || (e.target as Element).closest(".expand-button")) {
+      return;
+    }
+    const element = this.itemElementOf(e.target);
+    const item = element ? this.findItem(element.getAttribute("data-item-id")) : null;
+    if (element && item && isDraggable(item)) {
+      this.source = { item, element, startX: e.clientX, startY: e.clientY };
+    }
+  }
+
+  /**
+   * Starts the drag once the pointer has moved far enough and highlights
+   * the item under the pointer if the dragged element can be dropped on it.
+   */
+  private onMouseMove(e: MouseEvent): void {
+    if (!this.source) {
+      return;
+    }
+    if (!this.dragging) {
+      const distance = Math.hypot(e.clientX - this.source.startX, e.clientY - this.source.startY);
+      if (distance < DRAG_THRESHOLD) {
+        return;
+      }
+      this.dragging = true;
+      this.source.element.classList.add("dragging");
+    }
+
+    const element = this.itemElementOf(e.target);
+    const target = element ? this.findItem(element.getAttribute("data-item-id")) : null;
+    const canDrop = target !== null && buildMoveCommand(this.source.item, target) !== null;
+    this.setDropTarget(canDrop ? element : null);
+  }
+
+  /**
+   * Ends the drag and dispatches the move command of a valid drop.
+   */
+  private onMouseUp(e: MouseEvent): void {
+    const source = this.source;
+    const wasDragging = this.dragging;
+    this.source = null;
+    this.dragging = false;
+    this.setDropTarget(null);
+    if (!source || !wasDragging) {
+      return;
+    }
+
+    source.element.classList.remove("dragging");
+    this.canvas.addEventListener("click", this.onClickAfterDrag, true);
+    // Remove the click guard if the button was released outside the canvas
+    setTimeout(() => this.canvas.removeEventListener("click", this.onClickAfterDrag, true), 0);
+
+    const element = this.itemElementOf(e.target);
+    const target = element ? this.findItem(element.getAttribute("data-item-id")) : null;
+    const command = target ? buildMoveCommand(source.item, target) : null;
+    if (command) {
+      this.dispatch(command);
+    }
+  }
+
+  /**
+   * Moves the drop target highlight to another rendered item.
+   */
+  private setDropTarget(element: SVGElement | null): void {
+    if (this.dropTarget === element) {
+      return;
+    }
+    this.dropTarget?.classList.remove("drop-target");
+    element?.classList.add("drop-target");
+    this.dropTarget = element;
+  }
+}
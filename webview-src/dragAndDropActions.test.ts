@@ -0,0 +1,99 @@
+/**
+ * Unit tests for the drag-and-drop move commands.
+ */
+
+import { buildMoveCommand, isDraggable } from "./dragAndDropActions";
+import { DiagramItem } from "./diagram/DiagramItem";
+import { Diagram } from "./diagram/Diagram";
+import { DiagramItemType } from "./diagram/DiagramTypes";
+
+const SEQUENCE_ID = "/complexType:PersonType/group:sequence";
+const CHOICE_ID = "/element:contact/anonymousComplexType[0]/group:choice";
+
+describe("dragAndDropActions", () => {
+  let diagram: Diagram;
+  let sequence: DiagramItem;
+  let choice: DiagramItem;
+  let sequenceElements: DiagramItem[];
+
+  /**
+   * Creates a compositor item with element children named as given.
+   */
+  function createCompositor(id: string, names: string[]): DiagramItem {
+    const compositor = new DiagramItem(id, id, DiagramItemType.group, diagram);
+    names.forEach((name, position) => {
+      compositor.addChild(
+        new DiagramItem(`${id}/element:${name}[${position}]`, name, DiagramItemType.element, diagram)
+      );
+    });
+    return compositor;
+  }
+
+  beforeEach(() => {
+    diagram = new Diagram();
+    sequence = createCompositor(SEQUENCE_ID, ["firstName", "lastName", "phone"]);
+    choice = createCompositor(CHOICE_ID, ["email", "fax"]);
+    sequenceElements = sequence.childElements;
+  });
+
+  describe("isDraggable", () => {
+    it("should allow dragging elements of a compositor", () => {
+      expect(isDraggable(sequenceElements[0])).toBe(true);
+    });
+
+    it("should not allow dragging top-level elements, compositors or wildcards", () => {
+      const root = new DiagramItem("/element:person", "person", DiagramItemType.element, diagram);
+      const wildcard = new DiagramItem(`${SEQUENCE_ID}/any[0]`, "any", DiagramItemType.any, diagram);
+      sequence.addChild(wildcard);
+
+      expect(isDraggable(root)).toBe(false);
+      expect(isDraggable(sequence)).toBe(false);
+      expect(isDraggable(wildcard)).toBe(false);
+    });
+  });
+
+  describe("buildMoveCommand", () => {
+    it("should insert an element before the element it is dropped on", () => {
+      expect(buildMoveCommand(sequenceElements[2], sequenceElements[0])).toEqual({
+        type: "moveNode",
+        payload: { nodeId: `${SEQUENCE_ID}/element:phone[2]`, newParentId: SEQUENCE_ID, index: 0 },
+      });
+    });
+
+    it("should count the index without the dragged element when moving down", () => {
+      expect(buildMoveCommand(sequenceElements[0], sequenceElements[2])?.payload).toEqual({
+        nodeId: `${SEQUENCE_ID}/element:firstName[0]`,
+        newParentId: SEQUENCE_ID,
+        index: 1,
+      });
+    });
+
+    it("should move an element into another compositor", () => {
+      expect(buildMoveCommand(sequenceElements[1], choice.childElements[1])?.payload).toEqual({
+        nodeId: `${SEQUENCE_ID}/element:lastName[1]`,
+        newParentId: CHOICE_ID,
+        index: 1,
+      });
+    });
+
+    it("should append an element dropped on a compositor", () => {
+      expect(buildMoveCommand(sequenceElements[0], choice)?.payload).toEqual({
+        nodeId: `${SEQUENCE_ID}/element:firstName[0]`,
+        newParentId: CHOICE_ID,
+      });
+    });
+
+    it("should not build a command for drops that keep the element in place", () => {
+      expect(buildMoveCommand(sequenceElements[1], sequenceElements[1])).toBeNull();
+      expect(buildMoveCommand(sequenceElements[1], sequenceElements[2])).toBeNull();
+      expect(buildMoveCommand(sequenceElements[2], sequence)).toBeNull();
+    });
+
+    it("should not build a command for invalid drop targets", () => {
+      const root = new DiagramItem("/element:person", "person", DiagramItemType.element, diagram);
+
+      expect(buildMoveCommand(sequenceElements[0], root)).toBeNull();
+      expect(buildMoveCommand(root, sequence)).toBeNull();
+    });
+  });
+});
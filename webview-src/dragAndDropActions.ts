@@ -0,0 +1,77 @@
+/**
+ * Commands built by dragging diagram items.
+ * Determines which diagram items can be dragged and where they can be
+ * dropped, and builds the moveNode command that relocates a dragged element.
+ */
+
+import { MoveNodeCommand } from "../shared/types";
+import { parseSchemaId, SchemaNodeType } from "../shared/idStrategy";
+import { DiagramItem, DiagramItemType } from "./diagram";
+
+/**
+ * Returns the position of an element among the elements of its compositor,
+ * as encoded in its ID.
+ */
+function elementPosition(item: DiagramItem): number | undefined {
+  return parseSchemaId(item.id).position;
+}
+
+/**
+ * Returns true if a diagram item can be dragged to a new position: an
+ * element declared in a sequence, choice or all.
+ *
+ * @param item - The diagram item
+ */
+export function isDraggable(item: DiagramItem): boolean {
+  return (
+    item.itemType === DiagramItemType.element &&
+    item.parent?.itemType === DiagramItemType.group &&
+    parseSchemaId(item.id).nodeType === SchemaNodeType.Element &&
+    elementPosition(item) !== undefined
+  );
+}
+
+/**
+ * Builds the command that moves a dragged element to where it was dropped.
+ * Dropping on an element of a compositor inserts the dragged element before
+ * it; dropping on a compositor appends it to its elements.
+ *
+ * @param dragged - The dragged element
+ * @param target - The diagram item the element was dropped on
+ * @returns The move command, or null if the drop target is not valid or the
+ *   element would stay in place
+ */
+export function buildMoveCommand(
+  dragged: DiagramItem,
+  target: DiagramItem
+): MoveNodeCommand | null {
+  if (!isDraggable(dragged) || target === dragged) {
+    return null;
+  }
+
+  if (target.itemType === DiagramItemType.group) {
+    const elements = target.childElements.filter(
+      (child) => child.itemType === DiagramItemType.element
+    );
+    if (elements[elements.length - 1] === dragged) {
+      return null;
+    }
+    return { type: "moveNode", payload: { nodeId: dragged.id, newParentId: target.id } };
+  }
+
+  if (!isDraggable(target) || !target.parent) {
+    return null;
+  }
+  const draggedPosition = elementPosition(dragged) ?? 0;
+  const targetPosition = elementPosition(target) ?? 0;
+  const sameParent = target.parent === dragged.parent;
+  // The index is counted after the dragged element has left its place
+  const index = sameParent && draggedPosition < targetPosition ? targetPosition - 1 : targetPosition;
+  if (sameParent && index === draggedPosition) {
+    return null;
+  }
+  return {
+    type: "moveNode",
+    payload: { nodeId: dragged.id, newParentId: target.parent.id, index },
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for edit target resolution.
+ */
+
+import {
+  resolveEditTarget,
+  resolveAnonymousTypeTarget,
+  renameSchemaId,
+} from "./editTargets";
+import { DiagramItem } from "./diagram/DiagramItem";
+import { Diagram } from "./diagram/Diagram";
+import { DiagramItemType } from "./diagram/DiagramTypes";
+
+describe("editTargets", () => {
+  let diagram: Diagram;
+
+  beforeEach(() => {
+    diagram = new Diagram();
+  });
+
+  describe("resolveEditTarget", () => {
+    it("should resolve top-level elements", () => {
+      const item = new DiagramItem("/element:person", "person", DiagramItemType.element, diagram);
+
+      expect(resolveEditTarget(item)).toEqual({
+        kind: "element",
+        id: "/element:person",
+        isTopLevel: true,
+      });
+    });
+
+    it("should resolve local elements", () => {
+      const item = new DiagramItem(
+        "/complexType:PersonType/group:sequence/element:name[0]",
+        "name",
+        DiagramItemType.element,
+        diagram
+      );
+
+      expect(resolveEditTarget(item)).toMatchObject({ kind: "element", isTopLevel: false });
+    });
+
+    it("should resolve named complex and simple types", () => {
+      const complexType = new DiagramItem("/complexType:PersonType", "PersonType", DiagramItemType.type, diagram);
+      const simpleType = new DiagramItem("/simpleType:AgeType", "AgeType", DiagramItemType.type, diagram);
+
+      expect(resolveEditTarget(complexType)?.kind).toBe("complexType");
+      expect(resolveEditTarget(simpleType)?.kind).toBe("simpleType");
+    });
+
+    it("should resolve the schema root", () => {
+      const root = new DiagramItem("/schema", "Schema", DiagramItemType.element, diagram);
+
+      expect(resolveEditTarget(root)).toEqual({ kind: "schema", id: "/schema", isTopLevel: false });
+    });
+
+    it("should not resolve compositors, placeholders or non-schema IDs", () => {
+      const group = new DiagramItem("/complexType:PersonType/group:sequence", "sequence", DiagramItemType.group, diagram);
+      const placeholder = new DiagramItem("/schema/element:placeholder[0]", "No elements found", DiagramItemType.element, diagram);
+      const other = new DiagramItem("test-1", "Test", DiagramItemType.element, diagram);
+
+      expect(resolveEditTarget(group)).toBeUndefined();
+      expect(resolveEditTarget(placeholder)).toBeUndefined();
+      expect(resolveEditTarget(other)).toBeUndefined();
+    });
+  });
+
+  describe("resolveAnonymousTypeTarget", () => {
+    it("should resolve the inline type of an element", () => {
+      const item = new DiagramItem("/element:age", "age", DiagramItemType.element, diagram);
+      item.typeId = "/element:age/anonymousSimpleType[0]";
+
+      expect(resolveAnonymousTypeTarget(item)).toEqual({
+        kind: "simpleType",
+        id: "/element:age/anonymousSimpleType[0]",
+        isTopLevel: false,
+      });
+    });
+
+    it("should return undefined for named types and elements without inline type", () => {
+      const typeItem = new DiagramItem("/complexType:PersonType", "PersonType", DiagramItemType.type, diagram);
+      typeItem.typeId = typeItem.id;
+      const element = new DiagramItem("/element:person", "person", DiagramItemType.element, diagram);
+
+      expect(resolveAnonymousTypeTarget(typeItem)).toBeUndefined();
+      expect(resolveAnonymousTypeTarget(element)).toBeUndefined();
+    });
+  });
+
+  describe("renameSchemaId", () => {
+    it("should replace the name of the last segment", () => {
+      expect(renameSchemaId("/element:person", "customer")).toBe("/element:customer");
+      expect(
+        renameSchemaId("/complexType:PersonType/group:sequence/element:name[1]", "fullName")
+      ).toBe("/complexType:PersonType/group:sequence/element:fullName[1]");
+    });
+  });
+});
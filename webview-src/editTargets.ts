@@ -0,0 +1,124 @@
+/**
+ * Resolution of diagram items to the schema components that can be edited.
+ * Maps the XPath-like IDs of diagram items onto the kind of modify command that applies to them.
+ */
+
+import {
+  generateSchemaId,
+  parseSchemaId,
+  ParsedSchemaId,
+  SchemaNodeType,
+} from "../shared/idStrategy";
+import { DiagramItem } from "./diagram";
+
+/**
+ * Kind of schema component an edit target refers to.
+ */
+export type EditTargetKind = "element" | "complexType" | "simpleType" | "schema";
+
+/**
+ * A schema component that can be modified from the property panel.
+ */
+export interface EditTarget {
+  /** Kind of the component, selects the modify command to use */
+  kind: EditTargetKind;
+  /** Schema ID of the component as understood by the extension */
+  id: string;
+  /** Whether the component is a direct child of the schema root */
+  isTopLevel: boolean;
+}
+
+/**
+ * Resolves the edit target for a diagram item.
+ * Only the schema root, elements and type definitions are editable; groups,
+ * placeholders and items whose ID is not a schema ID yield undefined.
+ *
+ * @param node - The diagram item to resolve
+ * @returns The edit target, or undefined if the item cannot be edited
+ */
+export function resolveEditTarget(node: DiagramItem): EditTarget | undefined {
+  return targetFromId(node.id);
+}
+
+/**
+ * Resolves the edit target for the inline anonymous type of an element.
+ *
+ * @param node - The diagram item of the element
+ * @returns The edit target of the anonymous type, or undefined if the element has none
+ */
+export function resolveAnonymousTypeTarget(
+  node: DiagramItem
+): EditTarget | undefined {
+  if (!node.typeId || node.typeId === node.id) {
+    return undefined;
+  }
+  return targetFromId(node.typeId);
+}
+
+/**
+ * Computes the ID a named component will have after being renamed.
+ *
+ * @param id - The current schema ID of the component
+ * @param newName - The new name of the component
+ * @returns The schema ID under the new name
+ */
+export function renameSchemaId(id: string, newName: string): string {
+  const parsed = parseSchemaId(id);
+  return generateSchemaId({
+    nodeType: parsed.nodeType,
+    name: newName,
+    parentId: parsed.parentId,
+    position: parsed.position,
+  });
+}
+
+/**
+ * Maps a schema ID to an edit target.
+ *
+ * @param id - The schema ID to map
+ * @returns The edit target, or undefined if the ID does not denote an editable component
+ */
+function targetFromId(id: string): EditTarget | undefined {
+  if (id === "/schema") {
+    return { kind: "schema", id, isTopLevel: false };
+  }
+  // Placeholder children of the schema root are not editable components
+  if (id.startsWith("/schema/")) {
+    return undefined;
+  }
+
+  let parsed: ParsedSchemaId;
+  try {
+    parsed = parseSchemaId(id);
+  } catch {
+    return undefined;
+  }
+
+  const kind = kindOf(parsed.nodeType);
+  if (!kind) {
+    return undefined;
+  }
+
+  return { kind, id, isTopLevel: parsed.path.length === 1 };
+}
+
+/**
+ * Maps a schema node type to the kind of edit target.
+ *
+ * @param nodeType - The node type from a parsed schema ID
+ * @returns The edit target kind, or undefined if the node type is not editable
+ */
+function kindOf(nodeType: SchemaNodeType): EditTargetKind | undefined {
+  switch (nodeType) {
+    case SchemaNodeType.Element:
+      return "element";
+    case SchemaNodeType.ComplexType:
+    case SchemaNodeType.AnonymousComplexType:
+      return "complexType";
+    case SchemaNodeType.SimpleType:
+    case SchemaNodeType.AnonymousSimpleType:
+      return "simpleType";
+    default:
+      return undefined;
+  }
+}
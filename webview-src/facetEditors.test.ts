@@ -0,0 +1,70 @@
+/**
+ * Unit tests for the facet fields of the property panel.
+ */
+
+import { currentFacets, isFacetShown, parseNonNegativeInteger } from "./facetEditors";
+import { DiagramItem } from "./diagram/DiagramItem";
+import { Diagram } from "./diagram/Diagram";
+import { DiagramItemType } from "./diagram/DiagramTypes";
+
+describe("facetEditors", () => {
+  let diagram: Diagram;
+
+  beforeEach(() => {
+    diagram = new Diagram();
+  });
+
+  describe("currentFacets", () => {
+    it("should map diagram restrictions to command facets", () => {
+      const item = new DiagramItem(
+        "/simpleType:CodeType",
+        "CodeType",
+        DiagramItemType.type,
+        diagram
+      );
+      item.restrictions = { pattern: ["[A-Z]+", "[0-9]+"], whiteSpace: "collapse" };
+
+      const facets = currentFacets(item);
+
+      expect(facets.pattern).toEqual(["[A-Z]+", "[0-9]+"]);
+      expect(facets.whiteSpace).toBe("collapse");
+    });
+  });
+
+  describe("isFacetShown", () => {
+    it("should show the facets that apply to a built-in base type", () => {
+      const item = new DiagramItem("/simpleType:Flag", "Flag", DiagramItemType.type, diagram);
+      item.baseType = "xsd:boolean";
+
+      expect(isFacetShown(item, "pattern", "xsd")).toBe(true);
+      expect(isFacetShown(item, "enumeration", "xsd")).toBe(false);
+
+      item.restrictions = { enumeration: ["true"] };
+      expect(isFacetShown(item, "enumeration", "xsd")).toBe(true);
+    });
+
+    it("should show all facets for other base types", () => {
+      const item = new DiagramItem("/simpleType:Code", "Code", DiagramItemType.type, diagram);
+      item.baseType = "tns:BaseCode";
+
+      expect(isFacetShown(item, "totalDigits", "xsd")).toBe(true);
+      expect(isFacetShown(item, "maxLength", "xsd")).toBe(true);
+    });
+
+    it("should not treat types of other namespaces with built-in names as built-in", () => {
+      const item = new DiagramItem("/simpleType:Day", "Day", DiagramItemType.type, diagram);
+      item.baseType = "tns:boolean";
+
+      expect(isFacetShown(item, "enumeration", "xs")).toBe(true);
+    });
+  });
+
+  describe("parseNonNegativeInteger", () => {
+    it("should parse non-negative integers only", () => {
+      expect(parseNonNegativeInteger(" 3 ")).toBe(3);
+      expect(parseNonNegativeInteger("-1")).toBeUndefined();
+      expect(parseNonNegativeInteger("1.5")).toBeUndefined();
+      expect(parseNonNegativeInteger("")).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Facet fields of the property panel.
+ * Renders the restriction facets of a simple type and merges the edit of a
+ * single facet into the full set of facets sent with the modify command.
+ */
+
+import { RestrictionFacets, SchemaCommand } from "../shared/types";
+import { FacetName, getBuiltInDatatype, isFacetApplicable } from "../shared/xsdDatatypes";
+import { DiagramItem } from "./diagram";
+import { PropertyForm } from "./propertyForm";
+
+/**
+ * Allowed values of the whiteSpace facet.
+ */
+const WHITE_SPACE_VALUES = ["preserve", "replace", "collapse"] as const;
+
+/**
+ * Facets edited as free text, in display order.
+ */
+const TEXT_FACETS: ReadonlyArray<
+  ["minInclusive" | "maxInclusive" | "minExclusive" | "maxExclusive", string]
+> = [
+  ["minInclusive", "Min Inclusive"],
+  ["maxInclusive", "Max Inclusive"],
+  ["minExclusive", "Min Exclusive"],
+  ["maxExclusive", "Max Exclusive"],
+];
+
+/**
+ * Facets edited as non-negative integers, in display order.
+ */
+const NUMERIC_FACETS: ReadonlyArray<
+  ["length" | "minLength" | "maxLength" | "totalDigits" | "fractionDigits", string]
+> = [
+  ["length", "Length"],
+  ["minLength", "Min Length"],
+  ["maxLength", "Max Length"],
+  ["totalDigits", "Total Digits"],
+  ["fractionDigits", "Fraction Digits"],
+];
+
+/**
+ * Collects the facets currently applied to a diagram item.
+ * The modifySimpleType command replaces all facets at once, so edits of a
+ * single facet are merged into this set before they are sent.
+ *
+ * @param node - The diagram item carrying the restrictions
+ * @returns The current facets in command form
+ */
+export function currentFacets(node: DiagramItem): RestrictionFacets {
+  const restrictions = node.restrictions ?? {};
+  const whiteSpace = WHITE_SPACE_VALUES.find((value) => value === restrictions.whiteSpace);
+  return {
+    minInclusive: restrictions.minInclusive,
+    maxInclusive: restrictions.maxInclusive,
+    minExclusive: restrictions.minExclusive,
+    maxExclusive: restrictions.maxExclusive,
+    length: restrictions.length,
+    minLength: restrictions.minLength,
+    maxLength: restrictions.maxLength,
+    pattern: restrictions.pattern,
+    enumeration: restrictions.enumeration,
+    whiteSpace,
+    totalDigits: restrictions.totalDigits,
+    fractionDigits: restrictions.fractionDigits,
+  };
+}
+
+/**
+ * Parses a non-negative integer from user input.
+ *
+ * @param value - The raw input
+ * @returns The parsed number, or undefined if the input is not a non-negative integer
+ */
+export function parseNonNegativeInteger(value: string): number | undefined {
+  const trimmed = value.trim();
+  return /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) : undefined;
+}
+
+/**
+ * Returns the local name of a type name whose prefix is bound to XML Schema.
+ *
+ * @param typeName - The type name, with or without a prefix
+ * @param xsdPrefix - The prefix bound to the XML Schema namespace
+ * @returns The local name, or undefined if the type is not in the XML Schema namespace
+ */
+function getXsdLocalName(typeName: string, xsdPrefix: string): string | undefined {
+  const colon = typeName.indexOf(":");
+  const prefix = colon < 0 ? "" : typeName.substring(0, colon);
+  return prefix === xsdPrefix ? typeName.substring(colon + 1) : undefined;
+}
+
+/**
+ * Returns true if the field of a facet should be shown for a simple type.
+ * A built-in base type only takes the facets that apply to it, but facets
+ * that are already set stay editable so they can be removed.
+ *
+ * @param node - The simple type
+ * @param facet - The facet name
+ * @param xsdPrefix - The prefix bound to the XML Schema namespace
+ */
+export function isFacetShown(node: DiagramItem, facet: FacetName, xsdPrefix: string): boolean {
+  const builtInType = getXsdLocalName(node.baseType, xsdPrefix);
+  return (
+    builtInType === undefined ||
+    getBuiltInDatatype(builtInType) === undefined ||
+    isFacetApplicable(builtInType, facet) ||
+    node.restrictions?.[facet] !== undefined
+  );
+}
+
+/**
+ * Adds the facet fields of a simple type restriction.
+ *
+ * @param form - The form to render the fields into
+ * @param node - The simple type
+ * @param withFacet - Builds the modify command for the facets with one facet changed
+ * @param xsdPrefix - The prefix bound to the XML Schema namespace
+ */
+export function addFacetFields(
+  form: PropertyForm,
+  node: DiagramItem,
+  withFacet: (facets: Partial<RestrictionFacets>) => SchemaCommand,
+  xsdPrefix: string
+): void {
+  const isShown = (facet: FacetName): boolean => isFacetShown(node, facet, xsdPrefix);
+
+  if (isShown("enumeration")) {
+    form.addTextArea(
+      "enumeration",
+      "Enumeration (one value per line)",
+      (node.restrictions?.enumeration ?? []).join("\n"),
+      (value) => {
+        const values = value
+          .split("\n")
+          .map((v) => v.trim())
+          .filter((v) => v);
+        return withFacet({ enumeration: values.length > 0 ? values : undefined });
+      }
+    );
+  }
+
+  if (isShown("pattern")) {
+    form.addTextArea(
+      "pattern",
+      "Patterns (one per line)",
+      (node.restrictions?.pattern ?? []).join("\n"),
+      (value) => {
+        const patterns = value.split("\n").filter((pattern) => pattern.trim());
+        return withFacet({ pattern: patterns.length > 0 ? patterns : undefined });
+      }
+    );
+  }
+
+  for (const [key, label] of TEXT_FACETS.filter(([key]) => isShown(key))) {
+    const current = node.restrictions?.[key];
+    form.addTextField(key, label, current === undefined ? "" : String(current), (value) =>
+      withFacet({ [key]: value.trim() || undefined })
+    );
+  }
+
+  for (const [key, label] of NUMERIC_FACETS.filter(([key]) => isShown(key))) {
+    const current = node.restrictions?.[key];
+    form.addTextField(key, label, current === undefined ? "" : String(current), (value) => {
+      if (!value.trim()) {
+        return withFacet({ [key]: undefined });
+      }
+      const parsed = parseNonNegativeInteger(value);
+      return parsed === undefined
+        ? `${label} must be a non-negative integer`
+        : withFacet({ [key]: parsed });
+    });
+  }
+
+  if (isShown("whiteSpace")) {
+    form.addSelect(
+      "whiteSpace",
+      "White Space",
+      WHITE_SPACE_VALUES,
+      node.restrictions?.whiteSpace ?? "",
+      (value) => withFacet({ whiteSpace: WHITE_SPACE_VALUES.find((ws) => ws === value) })
+    );
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for HistoryPanel class.
+ */
+
+import { HistoryPanel } from "./historyPanel";
+import { CommandHistoryData, CommandHistoryEntryData } from "../shared/messages";
+
+/** Builds a history entry whose document hashes are derived from its id. */
+function entry(id: number, label: string): CommandHistoryEntryData {
+  return {
+    id,
+    label,
+    timestamp: Date.UTC(2024, 0, 1, 12, id),
+    command: { type: "addElement", payload: { parentId: "schema", elementName: `e${id}` } },
+    beforeHash: `hash${id - 1}`,
+    afterHash: `hash${id}`,
+  };
+}
+
+/** History with three entries, positioned at the given point. */
+function historyAt(position: number, documentHash = `hash${position}`): CommandHistoryData {
+  return {
+    entries: [entry(1, "Add element \"a\""), entry(2, "Add element \"b\""), entry(3, "Add element \"c\"")],
+    position,
+    documentHash,
+  };
+}
+
+describe("HistoryPanel", () => {
+  let container: HTMLOListElement;
+  let onStep: jest.Mock<void, [number]>;
+  let panel: HistoryPanel;
+
+  beforeEach(() => {
+    container = document.createElement("ol");
+    onStep = jest.fn<void, [number]>();
+    panel = new HistoryPanel(container, onStep);
+  });
+
+  /** Labels of the listed items, without their times. */
+  function labels(): Array<string | null> {
+    return Array.from(container.querySelectorAll("button")).map(
+      (button) => button.firstChild?.textContent ?? null
+    );
+  }
+
+  it("lists nothing before a command was recorded", () => {
+    panel.display({ entries: [], position: 0, documentHash: "hash0" });
+
+    expect(container.children).toHaveLength(0);
+  });
+
+  it("lists the opened document followed by the entries, oldest first", () => {
+    panel.display(historyAt(3));
+
+    expect(labels()).toEqual([
+      "Document opened",
+      'Add element "a"',
+      'Add element "b"',
+      'Add element "c"',
+    ]);
+    expect(container.querySelectorAll(".history-time")).toHaveLength(3);
+  });
+
+  it("marks the current point and the entries stepped back over", () => {
+    panel.display(historyAt(1));
+
+    const items = Array.from(container.querySelectorAll("li"));
+    expect(items[1].querySelector("button")?.getAttribute("aria-current")).toBe("step");
+    expect(items.map((item) => item.classList.contains("undone"))).toEqual([
+      false,
+      false,
+      true,
+      true,
+    ]);
+  });
+
+  it("reports the position of the chosen entry", () => {
+    panel.display(historyAt(3));
+
+    container.querySelectorAll("button")[2].click();
+
+    expect(onStep).toHaveBeenCalledWith(2);
+  });
+
+  it("notes an edit made outside the history after the current point", () => {
+    panel.display(historyAt(2, "edited"));
+
+    const note = container.querySelector(".history-note");
+    expect(note?.textContent).toBe("The document was edited since this point");
+    expect(note?.previousElementSibling?.querySelector("button")?.getAttribute("aria-current")).toBe(
+      "step"
+    );
+  });
+
+  it("replaces the previous history", () => {
+    panel.display(historyAt(2, "edited"));
+    panel.display(historyAt(3));
+
+    expect(container.querySelectorAll("li")).toHaveLength(4);
+    expect(container.querySelector(".history-note")).toBeNull();
+  });
+});
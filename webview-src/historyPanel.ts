@@ -0,0 +1,108 @@
+/**
+ * History panel listing the commands applied to the document.
+ * Choosing an entry asks the extension to restore the document to the state
+ * right after that command; the first item restores the document as opened.
+ */
+
+import { CommandHistoryData } from "../shared/messages";
+
+/**
+ * Callback that asks the extension to restore a point of the history.
+ * The position is the number of entries to keep applied.
+ */
+export type HistoryStepHandler = (position: number) => void;
+
+/**
+ * Renders the command history as an ordered list of buttons.
+ * Entries that were stepped back over stay listed, marked as undone,
+ * until a new command replaces them.
+ */
+export class HistoryPanel {
+  private container: HTMLElement;
+  private onStep: HistoryStepHandler;
+
+  /**
+   * Creates a new HistoryPanel.
+   *
+   * @param container - The list element to render the history into
+   * @param onStep - Called with the position of the entry the user chose
+   */
+  constructor(container: HTMLElement, onStep: HistoryStepHandler) {
+    this.container = container;
+    this.onStep = onStep;
+  }
+
+  /**
+   * Displays a command history, replacing the previous one.
+   * Nothing is listed until a command has been recorded.
+   *
+   * @param data - The history to display
+   */
+  public display(data: CommandHistoryData): void {
+    this.container.innerHTML = "";
+    if (data.entries.length === 0) {
+      return;
+    }
+
+    const currentHash =
+      data.position === 0
+        ? data.entries[0].beforeHash
+        : data.entries[data.position - 1].afterHash;
+    const editedOutside = currentHash !== data.documentHash;
+
+    this.container.appendChild(this.createItem("Document opened", undefined, 0, data.position));
+    data.entries.forEach((entry, index) => {
+      this.container.appendChild(
+        this.createItem(entry.label, entry.timestamp, index + 1, data.position)
+      );
+    });
+
+    if (editedOutside) {
+      const note = document.createElement("li");
+      note.className = "history-note";
+      note.textContent = "The document was edited since this point";
+      this.container.insertBefore(note, this.container.children[data.position + 1] ?? null);
+    }
+  }
+
+  /**
+   * Creates the list item of one point of the history.
+   *
+   * @param label - Description of the point
+   * @param timestamp - Time the command was applied, if the point is a command
+   * @param position - Position of the point in the history
+   * @param current - Position the document is currently at
+   * @returns The list item
+   */
+  private createItem(
+    label: string,
+    timestamp: number | undefined,
+    position: number,
+    current: number
+  ): HTMLLIElement {
+    const item = document.createElement("li");
+    item.className = "history-item";
+    if (position > current) {
+      item.classList.add("undone");
+    }
+
+    const button = document.createElement("button");
+    button.type = "button";
+    button.textContent = label;
+    if (timestamp !== undefined) {
+      const time = new Date(timestamp);
+      button.title = time.toLocaleString();
+      const timeLabel = document.createElement("span");
+      timeLabel.className = "history-time";
+      timeLabel.textContent = time.toLocaleTimeString();
+      button.appendChild(timeLabel);
+    }
+    if (position === current) {
+      button.setAttribute("aria-current", "step");
+    }
+    button.addEventListener("click", () => this.onStep(position));
+
+    item.appendChild(button);
+    return item;
+  }
+}
@@ -2,6 +2,8 @@
  * Unit tests for main module (webview entry point).
  */
 
+import { setupGetBBoxMock } from "./__tests__/svgTestUtils";
+
 // Mock the VS Code API before importing
 const mockPostMessage = jest.fn();
 const mockGetState = jest.fn();
@@ -36,6 +38,8 @@ describe("SchemaEditorApp", () => {
         <g id="content"></g>
       </svg>
       <div id="properties-content"></div>
+      <div id="usages-content"></div>
+      <ol id="history-list"></ol>
       <button id="zoomIn"></button>
       <button id="zoomOut"></button>
       <button id="fitView"></button>
@@ -104,6 +108,229 @@ describe("SchemaEditorApp", () => {
     expect(textContentAfter).toContain("Test error");
   });
 
+  it("should show command results in the property panel", () => {
+    const addEventListenerSpy = jest.spyOn(window, "addEventListener");
+
+    require("./main");
+
+    const messageHandler = addEventListenerSpy.mock.calls.find(
+      (call) => call[0] === "message"
+    )?.[1] as EventListener;
+
+    messageHandler(
+      new MessageEvent("message", {
+        data: { command: "commandResult", data: { success: false, error: "Invalid name" } },
+      })
+    );
+
+    const properties = document.getElementById("properties-content");
+    expect(properties?.textContent).toContain("Invalid name");
+  });
+
+  it("should post executeCommand messages for property edits", () => {
+    setupGetBBoxMock();
+    const addEventListenerSpy = jest.spyOn(window, "addEventListener");
+
+    require("./main");
+
+    const messageHandler = addEventListenerSpy.mock.calls.find(
+      (call) => call[0] === "message"
+    )?.[1] as EventListener;
+
+    messageHandler(
+      new MessageEvent("message", {
+        data: { command: "updateSchema", data: { element: [{ name: "person", type_: "xs:string" }] } },
+      })
+    );
+    // Expand the schema root, then select the element
+    document
+      .querySelector('[data-item-id="/schema"] .expand-button')
+      ?.dispatchEvent(new MouseEvent("click", { bubbles: true }));
+    document
+      .querySelector('[data-item-id="/element:person"]')
+      ?.dispatchEvent(new MouseEvent("click", { bubbles: true }));
+
+    const docInput = document.querySelector<HTMLTextAreaElement>(
+      '#properties-content [data-field="documentation"] textarea'
+    );
+    expect(docInput).toBeTruthy();
+    docInput!.value = "A person";
+    docInput!.dispatchEvent(new Event("change"));
+
+    expect(mockPostMessage).toHaveBeenCalledWith({
+      command: "executeCommand",
+      data: {
+        type: "modifyElement",
+        payload: { elementId: "/element:person", documentation: "A person" },
+      },
+    });
+  });
+
+  it("should report the selected item to the extension", () => {
+    setupGetBBoxMock();
+    const addEventListenerSpy = jest.spyOn(window, "addEventListener");
+
+    require("./main");
+
+    const messageHandler = addEventListenerSpy.mock.calls.find(
+      (call) => call[0] === "message"
+    )?.[1] as EventListener;
+
+    messageHandler(
+      new MessageEvent("message", {
+        data: { command: "updateSchema", data: { element: [{ name: "person", type_: "xs:string" }] } },
+      })
+    );
+    document
+      .querySelector('[data-item-id="/schema"]')
+      ?.dispatchEvent(new MouseEvent("click", { bubbles: true }));
+
+    expect(mockPostMessage).toHaveBeenCalledWith({
+      command: "selectionChanged",
+      data: { nodeId: "/schema" },
+    });
+    expect(
+      document.querySelector('[data-item-id="/schema"]')?.classList.contains("selected")
+    ).toBe(true);
+  });
+
+  it("should select and show the item revealed from the text editor", () => {
+    setupGetBBoxMock();
+    const addEventListenerSpy = jest.spyOn(window, "addEventListener");
+
+    require("./main");
+
+    const messageHandler = addEventListenerSpy.mock.calls.find(
+      (call) => call[0] === "message"
+    )?.[1] as EventListener;
+
+    messageHandler(
+      new MessageEvent("message", {
+        data: { command: "updateSchema", data: { element: [{ name: "person", type_: "xs:string" }] } },
+      })
+    );
+    messageHandler(
+      new MessageEvent("message", {
+        data: { command: "revealNode", data: { nodeId: "/element:person" } },
+      })
+    );
+
+    expect(
+      document.querySelector('[data-item-id="/element:person"]')?.classList.contains("selected")
+    ).toBe(true);
+    expect(
+      document.querySelector<HTMLInputElement>('#properties-content [data-field="name"] input')?.value
+    ).toBe("person");
+    // Revealing a node must not echo a selection back to the extension
+    expect(mockPostMessage).not.toHaveBeenCalledWith(
+      expect.objectContaining({ command: "selectionChanged" })
+    );
+  });
+
+  it("should list the command history and post stepToHistory when an entry is chosen", () => {
+    const addEventListenerSpy = jest.spyOn(window, "addEventListener");
+
+    require("./main");
+
+    const messageHandler = addEventListenerSpy.mock.calls.find(
+      (call) => call[0] === "message"
+    )?.[1] as EventListener;
+
+    messageHandler(
+      new MessageEvent("message", {
+        data: {
+          command: "updateHistory",
+          data: {
+            entries: [
+              {
+                id: 1,
+                label: 'Add element "person"',
+                timestamp: 0,
+                command: { type: "addElement", payload: { parentId: "schema", elementName: "person" } },
+                beforeHash: "a",
+                afterHash: "b",
+              },
+            ],
+            position: 1,
+            documentHash: "b",
+          },
+        },
+      })
+    );
+
+    const buttons = document.querySelectorAll<HTMLButtonElement>("#history-list button");
+    expect(buttons).toHaveLength(2);
+    buttons[0].click();
+
+    expect(mockPostMessage).toHaveBeenCalledWith({
+      command: "stepToHistory",
+      data: { position: 0 },
+    });
+  });
+
+  it("should find the usages of the selected component and select a listed usage", () => {
+    setupGetBBoxMock();
+    const addEventListenerSpy = jest.spyOn(window, "addEventListener");
+
+    require("./main");
+
+    const messageHandler = addEventListenerSpy.mock.calls.find(
+      (call) => call[0] === "message"
+    )?.[1] as EventListener;
+
+    messageHandler(
+      new MessageEvent("message", {
+        data: {
+          command: "updateSchema",
+          data: {
+            element: [
+              { name: "person", type_: "PersonType" },
+              { name: "employee", type_: "PersonType" },
+            ],
+            complexType: [{ name: "PersonType" }],
+          },
+        },
+      })
+    );
+    messageHandler(
+      new MessageEvent("message", {
+        data: { command: "revealNode", data: { nodeId: "/complexType:PersonType" } },
+      })
+    );
+    document.querySelector<HTMLButtonElement>("#usages-content .usages-find")?.click();
+
+    expect(mockPostMessage).toHaveBeenCalledWith({
+      command: "findUsages",
+      data: { componentId: "/complexType:PersonType", forSafeDelete: false },
+    });
+
+    messageHandler(
+      new MessageEvent("message", {
+        data: {
+          command: "showUsages",
+          data: {
+            componentId: "/complexType:PersonType",
+            usages: [
+              { nodeId: "/element:person", attribute: "type", value: "PersonType" },
+              { nodeId: "/element:employee", attribute: "type", value: "PersonType" },
+            ],
+          },
+        },
+      })
+    );
+    const usages = document.querySelectorAll<HTMLButtonElement>("#usages-content .usages-item button");
+    expect(usages).toHaveLength(2);
+    usages[1].click();
+
+    expect(
+      document.querySelector('[data-item-id="/element:employee"]')?.classList.contains("selected")
+    ).toBe(true);
+    expect(mockPostMessage).toHaveBeenCalledWith({
+      command: "selectionChanged",
+      data: { nodeId: "/element:employee" },
+    });
+  });
+
   it("should setup zoom controls", () => {
     const addEventListenerSpy = jest.spyOn(HTMLElement.prototype, "addEventListener");
 
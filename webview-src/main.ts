@@ -1,12 +1,15 @@
 import { DiagramRenderer } from "./renderer";
 import { PropertyPanel } from "./propertyPanel";
-import { schema } from "../shared/types";
+import { HistoryPanel } from "./historyPanel";
+import { UsagesPanel } from "./usagesPanel";
+import { schema, SchemaCommand } from "../shared/types";
 import {
   VSCodeAPI,
   ViewState,
   WebviewState,
 } from "./webviewTypes";
 import { DiagramItem } from "./diagram";
+import { findXsdPrefix } from "./contextMenuActions";
 import { ExtensionMessage, DiagramOptions } from "../shared/messages";
 
 declare function acquireVsCodeApi<State>(): VSCodeAPI<State>;
@@ -15,6 +18,8 @@ class SchemaEditorApp {
   private vscode: VSCodeAPI<WebviewState>;
   private renderer: DiagramRenderer;
   private propertyPanel: PropertyPanel;
+  private historyPanel: HistoryPanel;
+  private usagesPanel: UsagesPanel;
   private currentSchema: schema | undefined;
   private viewState: ViewState;
   private diagramOptions: DiagramOptions;
@@ -36,9 +41,27 @@ class SchemaEditorApp {
       throw new Error("Canvas element not found or is not an SVG element");
     }
 
-    this.renderer = new DiagramRenderer(canvas, this.viewState);
+    const dispatch = (command: SchemaCommand): void => {
+      this.vscode.postMessage({ command: "executeCommand", data: command });
+    };
+    this.renderer = new DiagramRenderer(canvas, this.viewState, dispatch);
     this.propertyPanel = new PropertyPanel(
-      document.getElementById("properties-content") as HTMLDivElement
+      document.getElementById("properties-content") as HTMLDivElement,
+      dispatch
+    );
+    this.historyPanel = new HistoryPanel(
+      document.getElementById("history-list") as HTMLOListElement,
+      (position) => {
+        this.vscode.postMessage({ command: "stepToHistory", data: { position } });
+      }
+    );
+    this.usagesPanel = new UsagesPanel(
+      document.getElementById("usages-content") as HTMLDivElement,
+      (componentId, forSafeDelete) => {
+        this.vscode.postMessage({ command: "findUsages", data: { componentId, forSafeDelete } });
+      },
+      (nodeId) => this.selectUsage(nodeId),
+      dispatch
     );
 
     this.setupMessageListener();
@@ -70,6 +93,7 @@ class SchemaEditorApp {
           case "updateSchema": {
             this.currentSchema = message.data;
             this.renderSchema(message.data);
+            this.propertyPanel.refresh((id) => this.renderer.findItemById(id));
             this.saveState();
             break;
           }
@@ -89,6 +113,31 @@ class SchemaEditorApp {
             this.showError(errorMessage);
             break;
           }
+
+          case "commandResult": {
+            this.propertyPanel.showCommandResult(message.data);
+            break;
+          }
+
+          case "revealNode": {
+            // The cursor moved onto a node in the text editor
+            const item = this.renderer.revealNode(message.data.nodeId);
+            if (item) {
+              this.propertyPanel.display(item);
+              this.usagesPanel.setSelection(item.id);
+            }
+            break;
+          }
+
+          case "showUsages": {
+            this.usagesPanel.display(message.data);
+            break;
+          }
+
+          case "updateHistory": {
+            this.historyPanel.display(message.data);
+            break;
+          }
         }
       }
     );
@@ -106,6 +155,7 @@ class SchemaEditorApp {
 
     try {
       console.log("Schema object received:", schemaObj);
+      this.propertyPanel.setXsdPrefix(findXsdPrefix(schemaObj));
 
       // The renderer will need to traverse the schema structure
       this.renderer.renderSchema(
@@ -162,9 +212,32 @@ class SchemaEditorApp {
       // Refresh the diagram (re-layout and re-render without rebuilding)
       this.renderer.refresh();
     } else {
-      // Display item properties in the property panel
+      // Select the item, show its properties and reveal it in the text editor
+      this.renderer.selectNode(item.id);
+      this.propertyPanel.display(item);
+      this.usagesPanel.setSelection(item.id);
+      this.vscode.postMessage({
+        command: "selectionChanged",
+        data: { nodeId: item.id },
+      });
+    }
+  }
+
+  /**
+   * Select the node of a usage chosen in the usages panel and reveal it in
+   * the text editor. Nodes the diagram does not show are selected through
+   * their closest shown ancestor.
+   * @param nodeId - ID of the referencing node
+   */
+  private selectUsage(nodeId: string): void {
+    const item = this.renderer.revealNode(nodeId);
+    if (item) {
       this.propertyPanel.display(item);
     }
+    this.vscode.postMessage({
+      command: "selectionChanged",
+      data: { nodeId },
+    });
   }
 
   /**
@@ -0,0 +1,443 @@
+/**
+ * Unit tests for the property panel editors.
+ */
+
+import {
+  renderElementEditor,
+  renderComplexTypeEditor,
+  renderSimpleTypeEditor,
+  renderSchemaEditor,
+  EditorContext,
+} from "./propertyEditors";
+import { PropertyForm } from "./propertyForm";
+import { SchemaCommand } from "../shared/types";
+import { resolveEditTarget, EditTarget } from "./editTargets";
+import { DiagramItem } from "./diagram/DiagramItem";
+import { Diagram } from "./diagram/Diagram";
+import { DiagramItemType } from "./diagram/DiagramTypes";
+
+/**
+ * Commits a new value to the control of the field with the given key.
+ */
+function commitField(container: HTMLElement, key: string, value: string): void {
+  const control = container.querySelector<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>(
+    `[data-field="${key}"] input, [data-field="${key}"] textarea, [data-field="${key}"] select`
+  );
+  if (!control) {
+    throw new Error(`Field not found: ${key}`);
+  }
+  control.value = value;
+  control.dispatchEvent(new Event("change"));
+}
+
+/**
+ * Toggles the checkbox of the field with the given key.
+ */
+function toggleField(container: HTMLElement, key: string, checked: boolean): void {
+  const checkbox = container.querySelector<HTMLInputElement>(`[data-field="${key}"] input`);
+  if (!checkbox) {
+    throw new Error(`Field not found: ${key}`);
+  }
+  checkbox.checked = checked;
+  checkbox.dispatchEvent(new Event("change"));
+}
+
+/**
+ * Resolves the edit target of an item, failing the test if it is not editable.
+ */
+function targetOf(item: DiagramItem): EditTarget {
+  const target = resolveEditTarget(item);
+  if (!target) {
+    throw new Error(`Item is not editable: ${item.id}`);
+  }
+  return target;
+}
+
+describe("propertyEditors", () => {
+  let container: HTMLDivElement;
+  let dispatch: jest.Mock<void, [SchemaCommand]>;
+  let onRename: jest.Mock;
+  let diagram: Diagram;
+
+  /**
+   * Creates an editor context for the given item.
+   */
+  function contextFor(node: DiagramItem): EditorContext {
+    return { form: new PropertyForm(container, dispatch), node, onRename, xsdPrefix: "xs" };
+  }
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    dispatch = jest.fn<void, [SchemaCommand]>();
+    onRename = jest.fn();
+    diagram = new Diagram();
+  });
+
+  describe("renderSchemaEditor", () => {
+    it("should show the schema attributes and dispatch modifySchema for edits", () => {
+      const item = new DiagramItem("/schema", "Schema: urn:orders", DiagramItemType.element, diagram);
+      item.schemaAttributes = {
+        targetNamespace: "urn:orders",
+        elementFormDefault: "qualified",
+        attributeFormDefault: "",
+        blockDefault: "",
+        finalDefault: "#all",
+        version: "1.0",
+        lang: "en",
+      };
+
+      renderSchemaEditor(contextFor(item));
+      commitField(container, "targetNamespace", " urn:orders:v2 ");
+      commitField(container, "elementFormDefault", "");
+      commitField(container, "lang", "de");
+
+      const finalDefault = container.querySelector<HTMLInputElement>('[data-field="finalDefault"] input');
+      expect(finalDefault?.value).toBe("#all");
+      expect(dispatch).toHaveBeenNthCalledWith(1, {
+        type: "modifySchema",
+        payload: { targetNamespace: "urn:orders:v2" },
+      });
+      expect(dispatch).toHaveBeenNthCalledWith(2, {
+        type: "modifySchema",
+        payload: { elementFormDefault: "" },
+      });
+      expect(dispatch).toHaveBeenNthCalledWith(3, { type: "modifySchema", payload: { lang: "de" } });
+    });
+  });
+
+  describe("renderElementEditor", () => {
+    it("should dispatch renameComponent for a renamed top-level element and report the new ID", () => {
+      const item = new DiagramItem("/element:person", "person", DiagramItemType.element, diagram);
+      item.type = "PersonType";
+
+      renderElementEditor(contextFor(item), targetOf(item));
+      commitField(container, "name", "customer");
+
+      expect(dispatch).toHaveBeenCalledWith({
+        type: "renameComponent",
+        payload: { componentId: "/element:person", newName: "customer" },
+      });
+      expect(onRename).toHaveBeenCalledWith("/element:customer");
+    });
+
+    it("should dispatch modifyElement for a renamed local element", () => {
+      const id = "/complexType:PersonType/group:sequence/element:name[1]";
+      const item = new DiagramItem(id, "name", DiagramItemType.element, diagram);
+
+      renderElementEditor(contextFor(item), targetOf(item));
+      commitField(container, "name", "fullName");
+
+      expect(dispatch).toHaveBeenCalledWith({
+        type: "modifyElement",
+        payload: { elementId: id, elementName: "fullName" },
+      });
+      expect(onRename).toHaveBeenCalledWith(
+        "/complexType:PersonType/group:sequence/element:fullName[1]"
+      );
+    });
+
+    it("should not offer occurrence fields for top-level elements", () => {
+      const item = new DiagramItem("/element:person", "person", DiagramItemType.element, diagram);
+
+      renderElementEditor(contextFor(item), targetOf(item));
+
+      expect(container.querySelector('[data-field="minOccurs"]')).toBeNull();
+      expect(container.querySelector('[data-field="maxOccurs"]')).toBeNull();
+    });
+
+    it("should dispatch occurrence changes for local elements", () => {
+      const item = new DiagramItem(
+        "/complexType:PersonType/group:sequence/element:phone[0]",
+        "phone",
+        DiagramItemType.element,
+        diagram
+      );
+
+      renderElementEditor(contextFor(item), targetOf(item));
+      commitField(container, "minOccurs", "0");
+      commitField(container, "maxOccurs", "unbounded");
+
+      expect(dispatch).toHaveBeenNthCalledWith(1, {
+        type: "modifyElement",
+        payload: { elementId: item.id, minOccurs: 0 },
+      });
+      expect(dispatch).toHaveBeenNthCalledWith(2, {
+        type: "modifyElement",
+        payload: { elementId: item.id, maxOccurs: "unbounded" },
+      });
+    });
+
+    it("should reject invalid occurrences inline", () => {
+      const item = new DiagramItem(
+        "/complexType:PersonType/group:sequence/element:phone[0]",
+        "phone",
+        DiagramItemType.element,
+        diagram
+      );
+
+      renderElementEditor(contextFor(item), targetOf(item));
+      commitField(container, "maxOccurs", "many");
+
+      expect(dispatch).not.toHaveBeenCalled();
+      expect(container.querySelector('[data-field="maxOccurs"] .field-error')?.textContent).toContain(
+        "unbounded"
+      );
+    });
+
+    it("should edit the mixed flag of an inline complex type instead of the type reference", () => {
+      const item = new DiagramItem("/element:person", "person", DiagramItemType.element, diagram);
+      item.typeId = "/element:person/anonymousComplexType[0]";
+
+      renderElementEditor(contextFor(item), targetOf(item));
+      toggleField(container, "mixed", true);
+
+      expect(container.querySelector('[data-field="elementType"]')).toBeNull();
+      expect(dispatch).toHaveBeenCalledWith({
+        type: "modifyComplexType",
+        payload: { typeId: "/element:person/anonymousComplexType[0]", mixed: true },
+      });
+    });
+
+    it("should edit the declaration properties of top-level elements", () => {
+      const item = new DiagramItem("/element:car", "car", DiagramItemType.element, diagram);
+      item.defaultValue = "sedan";
+
+      renderElementEditor(contextFor(item), targetOf(item));
+      toggleField(container, "abstract", true);
+      commitField(container, "substitutionGroup", " vehicle ");
+      commitField(container, "default", "");
+
+      expect(dispatch).toHaveBeenNthCalledWith(1, {
+        type: "modifyElement",
+        payload: { elementId: item.id, abstract: true },
+      });
+      expect(dispatch).toHaveBeenNthCalledWith(2, {
+        type: "modifyElement",
+        payload: { elementId: item.id, substitutionGroup: "vehicle" },
+      });
+      expect(dispatch).toHaveBeenNthCalledWith(3, {
+        type: "modifyElement",
+        payload: { elementId: item.id, defaultValue: "" },
+      });
+      expect(container.querySelector('[data-field="form"]')).toBeNull();
+    });
+
+    it("should offer form but not abstract or final for local elements", () => {
+      const item = new DiagramItem(
+        "/complexType:PersonType/group:sequence/element:phone[0]",
+        "phone",
+        DiagramItemType.element,
+        diagram
+      );
+
+      renderElementEditor(contextFor(item), targetOf(item));
+      commitField(container, "form", "qualified");
+
+      expect(dispatch).toHaveBeenCalledWith({
+        type: "modifyElement",
+        payload: { elementId: item.id, form: "qualified" },
+      });
+      expect(container.querySelector('[data-field="abstract"]')).toBeNull();
+      expect(container.querySelector('[data-field="final"]')).toBeNull();
+    });
+
+    it("should not offer declaration properties for element references", () => {
+      const item = new DiagramItem(
+        "/complexType:PersonType/group:sequence/element:address[0]",
+        "address",
+        DiagramItemType.element,
+        diagram
+      );
+      item.isReference = true;
+
+      renderElementEditor(contextFor(item), targetOf(item));
+
+      expect(container.querySelector('[data-field="nillable"]')).toBeNull();
+      expect(container.querySelector('[data-field="default"]')).toBeNull();
+    });
+
+    it("should dispatch modifyAttribute for attributes with an ID", () => {
+      const item = new DiagramItem("/element:person", "person", DiagramItemType.element, diagram);
+      item.typeId = "/element:person/anonymousComplexType[0]";
+      item.attributes = [
+        { id: "/element:person/anonymousComplexType[0]/attribute:id", name: "id", type: "xs:ID" },
+        { name: "inherited", type: "xs:string" },
+      ];
+
+      renderElementEditor(contextFor(item), targetOf(item));
+      toggleField(container, "/element:person/anonymousComplexType[0]/attribute:id#required", true);
+
+      expect(container.textContent).not.toContain("Attribute: inherited");
+      expect(dispatch).toHaveBeenCalledWith({
+        type: "modifyAttribute",
+        payload: { attributeId: "/element:person/anonymousComplexType[0]/attribute:id", required: true },
+      });
+    });
+
+    it("should remove the default value of an attribute when the field is cleared", () => {
+      const attributeId = "/complexType:PersonType/attribute:status";
+      const item = new DiagramItem("/complexType:PersonType", "PersonType", DiagramItemType.type, diagram);
+      item.attributes = [{ id: attributeId, name: "status", type: "xs:string", defaultValue: "new" }];
+
+      renderComplexTypeEditor(contextFor(item), targetOf(item));
+      commitField(container, `${attributeId}#default`, "");
+
+      expect(container.querySelector(".field-error")?.textContent).toBe("");
+      expect(dispatch).toHaveBeenCalledWith({
+        type: "modifyAttribute",
+        payload: { attributeId, defaultValue: "" },
+      });
+    });
+
+    it("should suggest built-in types with the prefix bound to XML Schema", () => {
+      const item = new DiagramItem("/element:person", "person", DiagramItemType.element, diagram);
+      item.type = "xsd:string";
+
+      renderElementEditor({ ...contextFor(item), xsdPrefix: "xsd" }, targetOf(item));
+
+      const typeInput = container.querySelector('[data-field="elementType"] input');
+      const suggestions = container.querySelector(`#${typeInput?.getAttribute("list")}`);
+      expect(suggestions?.querySelector('option[value="xsd:string"]')).not.toBeNull();
+      expect(suggestions?.querySelector('option[value="xs:string"]')).toBeNull();
+    });
+  });
+
+  describe("renderComplexTypeEditor", () => {
+    it("should dispatch renameComponent for a renamed complex type", () => {
+      const item = new DiagramItem("/complexType:PersonType", "PersonType", DiagramItemType.type, diagram);
+
+      renderComplexTypeEditor(contextFor(item), targetOf(item));
+      commitField(container, "name", "CustomerType");
+
+      expect(dispatch).toHaveBeenCalledWith({
+        type: "renameComponent",
+        payload: { componentId: "/complexType:PersonType", newName: "CustomerType" },
+      });
+      expect(onRename).toHaveBeenCalledWith("/complexType:CustomerType");
+    });
+
+    it("should dispatch modifyComplexType for abstract and documentation", () => {
+      const item = new DiagramItem("/complexType:PersonType", "PersonType", DiagramItemType.type, diagram);
+
+      renderComplexTypeEditor(contextFor(item), targetOf(item));
+      toggleField(container, "abstract", true);
+      commitField(container, "documentation", "A person");
+
+      expect(dispatch).toHaveBeenNthCalledWith(1, {
+        type: "modifyComplexType",
+        payload: { typeId: "/complexType:PersonType", abstract: true },
+      });
+      expect(dispatch).toHaveBeenNthCalledWith(2, {
+        type: "modifyComplexType",
+        payload: { typeId: "/complexType:PersonType", documentation: "A person" },
+      });
+    });
+  });
+
+  describe("renderSimpleTypeEditor", () => {
+    it("should send the complete facet set when a single facet changes", () => {
+      const item = new DiagramItem("/simpleType:CodeType", "CodeType", DiagramItemType.type, diagram);
+      item.restrictions = { enumeration: ["A", "B"], maxLength: 3 };
+
+      renderSimpleTypeEditor(contextFor(item), targetOf(item));
+      commitField(container, "minLength", "1");
+
+      expect(dispatch.mock.calls[0][0]).toMatchObject({
+        type: "modifySimpleType",
+        payload: {
+          typeId: "/simpleType:CodeType",
+          restrictions: { enumeration: ["A", "B"], maxLength: 3, minLength: 1 },
+        },
+      });
+    });
+
+    it("should read enumeration values one per line", () => {
+      const item = new DiagramItem("/simpleType:CodeType", "CodeType", DiagramItemType.type, diagram);
+
+      renderSimpleTypeEditor(contextFor(item), targetOf(item));
+      commitField(container, "enumeration", "A\n B \n\nC");
+
+      expect(dispatch.mock.calls[0][0]).toMatchObject({
+        type: "modifySimpleType",
+        payload: {
+          typeId: "/simpleType:CodeType",
+          restrictions: { enumeration: ["A", "B", "C"] },
+        },
+      });
+    });
+
+    it("should read patterns one per line", () => {
+      const item = new DiagramItem("/simpleType:CodeType", "CodeType", DiagramItemType.type, diagram);
+      item.restrictions = { pattern: ["[A-Z]+"] };
+
+      renderSimpleTypeEditor(contextFor(item), targetOf(item));
+      commitField(container, "pattern", "[A-Z]+\n\n[0-9]{3}");
+
+      expect(dispatch.mock.calls[0][0]).toMatchObject({
+        type: "modifySimpleType",
+        payload: {
+          typeId: "/simpleType:CodeType",
+          restrictions: { pattern: ["[A-Z]+", "[0-9]{3}"] },
+        },
+      });
+    });
+
+    it("should only show the facets that apply to a built-in base type", () => {
+      const item = new DiagramItem("/simpleType:Count", "Count", DiagramItemType.type, diagram);
+      item.baseType = "xs:int";
+      item.restrictions = { maxLength: 3 };
+
+      renderSimpleTypeEditor(contextFor(item), targetOf(item));
+
+      const baseTypeInput = container.querySelector('[data-field="baseType"] input');
+      const suggestions = container.querySelector(`#${baseTypeInput?.getAttribute("list")}`);
+      expect(suggestions?.querySelector('option[value="xs:int"]')).not.toBeNull();
+      expect(container.querySelector('[data-field="totalDigits"]')).not.toBeNull();
+      expect(container.querySelector('[data-field="maxLength"]')).not.toBeNull();
+      expect(container.querySelector('[data-field="minLength"]')).toBeNull();
+    });
+
+    it("should edit the item type of a list instead of its facets", () => {
+      const item = new DiagramItem("/simpleType:Codes", "Codes", DiagramItemType.type, diagram);
+      item.simpleTypeDerivation = { variety: "list", namedTypes: ["xs:token"], inlineBaseTypes: [] };
+
+      renderSimpleTypeEditor(contextFor(item), targetOf(item));
+      commitField(container, "itemType", " tns:Code ");
+
+      expect(container.querySelector('[data-field="baseType"]')).toBeNull();
+      expect(dispatch).toHaveBeenCalledWith({
+        type: "modifySimpleType",
+        payload: { typeId: "/simpleType:Codes", itemType: "tns:Code" },
+      });
+    });
+
+    it("should edit the named member types of a union", () => {
+      const item = new DiagramItem("/simpleType:Size", "Size", DiagramItemType.type, diagram);
+      item.simpleTypeDerivation = {
+        variety: "union",
+        namedTypes: ["xs:int"],
+        inlineBaseTypes: ["xs:token"],
+      };
+
+      renderSimpleTypeEditor(contextFor(item), targetOf(item));
+      commitField(container, "memberTypes", "xs:int  xs:decimal");
+
+      expect(dispatch).toHaveBeenCalledWith({
+        type: "modifySimpleType",
+        payload: { typeId: "/simpleType:Size", memberTypes: ["xs:int", "xs:decimal"] },
+      });
+    });
+
+    it("should reject non-numeric values for numeric facets", () => {
+      const item = new DiagramItem("/simpleType:CodeType", "CodeType", DiagramItemType.type, diagram);
+
+      renderSimpleTypeEditor(contextFor(item), targetOf(item));
+      commitField(container, "totalDigits", "-1");
+
+      expect(dispatch).not.toHaveBeenCalled();
+      expect(container.querySelector('[data-field="totalDigits"] .field-error')?.textContent).toBe(
+        "Total Digits must be a non-negative integer"
+      );
+    });
+  });
+});
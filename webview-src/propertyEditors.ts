@@ -0,0 +1,422 @@
+/**
+ * Editors for the property panel.
+ * Renders the editable fields for the schema root, elements, complex types, simple types
+ * and attributes and builds the modify commands that apply the edits to the schema.
+ */
+
+import {
+  ModifyElementPayload,
+  ModifyAttributePayload,
+  ModifySimpleTypePayload,
+  ModifyComplexTypePayload,
+  ModifySchemaPayload,
+  RestrictionFacets,
+  SchemaCommand,
+} from "../shared/types";
+import { BUILT_IN_DATATYPE_NAMES } from "../shared/xsdDatatypes";
+import { DiagramItem, UNRESOLVED_ATTRIBUTE_TYPE } from "./diagram";
+import { EditTarget, resolveAnonymousTypeTarget, renameSchemaId } from "./editTargets";
+import { PropertyForm } from "./propertyForm";
+import { addFacetFields, currentFacets, parseNonNegativeInteger } from "./facetEditors";
+
+/**
+ * Everything an editor needs to render fields for a diagram item.
+ */
+export interface EditorContext {
+  /** The form to render the fields into */
+  form: PropertyForm;
+  /** The diagram item being edited */
+  node: DiagramItem;
+  /** Notifies the panel that a rename was dispatched, so the selection can follow the new ID */
+  onRename: (newId: string) => void;
+  /** Prefix the schema binds to the XML Schema namespace */
+  xsdPrefix: string;
+}
+
+/**
+ * Returns the name of a built-in type as written in the schema.
+ * The name is unprefixed when XML Schema is the default namespace.
+ *
+ * @param ctx - The editor context
+ * @param localName - The local name of the built-in type
+ */
+function builtInTypeName(ctx: EditorContext, localName: string): string {
+  return ctx.xsdPrefix ? `${ctx.xsdPrefix}:${localName}` : localName;
+}
+
+/**
+ * Built-in types offered while editing the type of an element.
+ *
+ * @param ctx - The editor context
+ */
+function builtInTypes(ctx: EditorContext): string[] {
+  return BUILT_IN_DATATYPE_NAMES.map((name) => builtInTypeName(ctx, name));
+}
+
+/**
+ * Built-in simple types offered while editing base, item and attribute types.
+ *
+ * @param ctx - The editor context
+ */
+function builtInSimpleTypes(ctx: EditorContext): string[] {
+  return BUILT_IN_DATATYPE_NAMES.filter((name) => name !== "anyType").map((name) =>
+    builtInTypeName(ctx, name)
+  );
+}
+
+/**
+ * Allowed values of an element's form and of the schema's form defaults.
+ */
+const ELEMENT_FORMS = ["qualified", "unqualified"] as const;
+
+/**
+ * Renders the fields of the schema root: target namespace, form defaults,
+ * block and final defaults, version and language.
+ * Clearing a field removes the attribute.
+ *
+ * @param ctx - The editor context
+ */
+export function renderSchemaEditor(ctx: EditorContext): void {
+  const { form, node } = ctx;
+  const attributes = node.schemaAttributes;
+  const modify = (payload: ModifySchemaPayload): SchemaCommand => ({ type: "modifySchema", payload });
+
+  form.addTextField("targetNamespace", "Target Namespace", attributes?.targetNamespace ?? "", (value) =>
+    modify({ targetNamespace: value.trim() })
+  );
+  form.addSelect(
+    "elementFormDefault",
+    "Element Form Default",
+    ELEMENT_FORMS,
+    attributes?.elementFormDefault ?? "",
+    (value) => modify({ elementFormDefault: ELEMENT_FORMS.find((f) => f === value) ?? "" })
+  );
+  form.addSelect(
+    "attributeFormDefault",
+    "Attribute Form Default",
+    ELEMENT_FORMS,
+    attributes?.attributeFormDefault ?? "",
+    (value) => modify({ attributeFormDefault: ELEMENT_FORMS.find((f) => f === value) ?? "" })
+  );
+  form.addTextField("blockDefault", "Block Default", attributes?.blockDefault ?? "", (value) =>
+    modify({ blockDefault: value.trim() })
+  );
+  form.addTextField("finalDefault", "Final Default", attributes?.finalDefault ?? "", (value) =>
+    modify({ finalDefault: value.trim() })
+  );
+  form.addTextField("version", "Version", attributes?.version ?? "", (value) =>
+    modify({ version: value.trim() })
+  );
+  form.addTextField("lang", "Language", attributes?.lang ?? "", (value) =>
+    modify({ lang: value.trim() })
+  );
+}
+
+/**
+ * Renders the fields of an element: name, type, occurrences, declaration properties,
+ * documentation, its inline anonymous type and its attributes.
+ *
+ * @param ctx - The editor context
+ * @param target - The edit target of the element
+ */
+export function renderElementEditor(ctx: EditorContext, target: EditTarget): void {
+  const { form, node } = ctx;
+  const modify = (payload: Omit<ModifyElementPayload, "elementId">): SchemaCommand => ({
+    type: "modifyElement",
+    payload: { elementId: target.id, ...payload },
+  });
+
+  addNameField(ctx, target, (name) => modify({ elementName: name }));
+
+  // Elements with an inline type have no type reference to edit
+  if (!node.typeId) {
+    form.addTextField(
+      "elementType",
+      "Type",
+      node.type,
+      (value) => {
+        const elementType = value.trim();
+        return elementType ? modify({ elementType }) : "Type must not be empty";
+      },
+      builtInTypes(ctx)
+    );
+  }
+
+  // Occurrence constraints only exist on local elements
+  if (!target.isTopLevel) {
+    form.addTextField("minOccurs", "Min Occurs", String(node.minOccurrence), (value) => {
+      const minOccurs = parseNonNegativeInteger(value);
+      return minOccurs === undefined
+        ? "Min occurs must be a non-negative integer"
+        : modify({ minOccurs });
+    });
+    const max = node.maxOccurrence === -1 ? "unbounded" : String(node.maxOccurrence);
+    form.addTextField("maxOccurs", "Max Occurs", max, (value) => {
+      if (value.trim() === "unbounded") {
+        return modify({ maxOccurs: "unbounded" });
+      }
+      const maxOccurs = parseNonNegativeInteger(value);
+      return maxOccurs === undefined
+        ? "Max occurs must be a non-negative integer or 'unbounded'"
+        : modify({ maxOccurs });
+    });
+  }
+
+  // Element references take their declaration properties from the referenced element
+  if (!node.isReference) {
+    addElementPropertyFields(ctx, target, modify);
+  }
+
+  form.addTextArea("documentation", "Documentation", node.documentation, (documentation) =>
+    modify({ documentation })
+  );
+
+  const typeTarget = resolveAnonymousTypeTarget(node);
+  if (typeTarget?.kind === "complexType") {
+    form.addHeading("Anonymous complexType");
+    addMixedField(ctx, typeTarget);
+  } else if (typeTarget?.kind === "simpleType") {
+    form.addHeading("Anonymous simpleType");
+    addSimpleTypeFields(ctx, typeTarget);
+  }
+
+  renderAttributeEditors(ctx);
+}
+
+/**
+ * Renders the fields of a complex type: name, abstract, mixed, documentation and attributes.
+ *
+ * @param ctx - The editor context
+ * @param target - The edit target of the complex type
+ */
+export function renderComplexTypeEditor(ctx: EditorContext, target: EditTarget): void {
+  const modify = (payload: Omit<ModifyComplexTypePayload, "typeId">): SchemaCommand => ({
+    type: "modifyComplexType",
+    payload: { typeId: target.id, ...payload },
+  });
+
+  addNameField(ctx, target);
+
+  // Only top-level complex types may be abstract
+  if (target.isTopLevel) {
+    ctx.form.addCheckbox("abstract", "Abstract", ctx.node.isAbstract, (abstract) =>
+      modify({ abstract })
+    );
+  }
+  addMixedField(ctx, target);
+
+  ctx.form.addTextArea("documentation", "Documentation", ctx.node.documentation, (documentation) =>
+    modify({ documentation })
+  );
+
+  renderAttributeEditors(ctx);
+}
+
+/**
+ * Renders the fields of a simple type: name, base type, documentation and facets.
+ *
+ * @param ctx - The editor context
+ * @param target - The edit target of the simple type
+ */
+export function renderSimpleTypeEditor(ctx: EditorContext, target: EditTarget): void {
+  addNameField(ctx, target);
+  ctx.form.addTextArea("documentation", "Documentation", ctx.node.documentation, (documentation) => ({
+    type: "modifySimpleType",
+    payload: { typeId: target.id, documentation },
+  }));
+  addSimpleTypeFields(ctx, target);
+}
+
+// ===== Shared Fields =====
+
+/**
+ * Adds the name field of a named component. Anonymous types have no name to edit.
+ * Top-level components are renamed with renameComponent, which also rewrites the
+ * references to them.
+ *
+ * @param ctx - The editor context
+ * @param target - The edit target of the component
+ * @param renameLocal - Builds the rename command of a local element for a validated name
+ */
+function addNameField(
+  ctx: EditorContext,
+  target: EditTarget,
+  renameLocal?: (name: string) => SchemaCommand
+): void {
+  const rename = target.isTopLevel
+    ? (name: string): SchemaCommand => ({
+        type: "renameComponent",
+        payload: { componentId: target.id, newName: name },
+      })
+    : renameLocal;
+  if (!rename) {
+    return;
+  }
+
+  ctx.form.addTextField("name", "Name", ctx.node.name, (value) => {
+    const name = value.trim();
+    if (!name) {
+      return "Name must not be empty";
+    }
+    ctx.onRename(renameSchemaId(target.id, name));
+    return rename(name);
+  });
+}
+
+/**
+ * Adds the declaration property fields of a named element.
+ * Clearing a text field removes the property.
+ *
+ * @param ctx - The editor context
+ * @param target - The edit target of the element
+ * @param modify - Builds the modifyElement command for the edited properties
+ */
+function addElementPropertyFields(
+  ctx: EditorContext,
+  target: EditTarget,
+  modify: (payload: Omit<ModifyElementPayload, "elementId">) => SchemaCommand
+): void {
+  const { form, node } = ctx;
+
+  form.addCheckbox("nillable", "Nillable", node.isNillable, (nillable) => modify({ nillable }));
+
+  // Only top-level elements can be abstract, head a substitution group or be final;
+  // only local elements have a form
+  if (target.isTopLevel) {
+    form.addCheckbox("abstract", "Abstract", node.isAbstract, (abstract) => modify({ abstract }));
+    form.addTextField("substitutionGroup", "Substitution Group", node.substitutionGroup, (value) =>
+      modify({ substitutionGroup: value.trim() })
+    );
+  } else {
+    form.addSelect("form", "Form", ELEMENT_FORMS, node.form, (value) =>
+      modify({ form: ELEMENT_FORMS.find((elementForm) => elementForm === value) ?? "" })
+    );
+  }
+
+  form.addTextField("default", "Default", node.defaultValue, (defaultValue) =>
+    modify({ defaultValue })
+  );
+  form.addTextField("fixed", "Fixed", node.fixedValue, (fixedValue) => modify({ fixedValue }));
+  form.addTextField("block", "Block", node.block, (block) => modify({ block: block.trim() }));
+  if (target.isTopLevel) {
+    form.addTextField("final", "Final", node.final, (final) => modify({ final: final.trim() }));
+  }
+}
+
+/**
+ * Adds the mixed content checkbox of a complex type.
+ *
+ * @param ctx - The editor context
+ * @param target - The edit target of the complex type
+ */
+function addMixedField(ctx: EditorContext, target: EditTarget): void {
+  ctx.form.addCheckbox("mixed", "Mixed", ctx.node.isMixed, (mixed) => ({
+    type: "modifyComplexType",
+    payload: { typeId: target.id, mixed },
+  }));
+}
+
+/**
+ * Adds the base type and facet fields of a simple type, or the item type of
+ * a list or the named member types of a union.
+ *
+ * @param ctx - The editor context
+ * @param target - The edit target of the simple type
+ */
+function addSimpleTypeFields(ctx: EditorContext, target: EditTarget): void {
+  const { form, node } = ctx;
+  const modify = (payload: Omit<ModifySimpleTypePayload, "typeId">): SchemaCommand => ({
+    type: "modifySimpleType",
+    payload: { typeId: target.id, ...payload },
+  });
+  const withFacet = (facets: Partial<RestrictionFacets>): SchemaCommand =>
+    modify({ restrictions: { ...currentFacets(node), ...facets } });
+
+  // Lists and unions have no base type or facets of their own
+  const derivation = node.simpleTypeDerivation;
+  if (derivation?.variety === "list") {
+    form.addTextField(
+      "itemType",
+      "Item Type",
+      derivation.namedTypes[0] ?? "",
+      (value) => {
+        const itemType = value.trim();
+        return itemType ? modify({ itemType }) : "Item type must not be empty";
+      },
+      builtInSimpleTypes(ctx)
+    );
+    return;
+  }
+  if (derivation?.variety === "union") {
+    form.addTextField(
+      "memberTypes",
+      "Member Types (space-separated)",
+      derivation.namedTypes.join(" "),
+      (value) => modify({ memberTypes: value.split(/\s+/).filter((member) => member) })
+    );
+    return;
+  }
+
+  form.addTextField(
+    "baseType",
+    "Base Type",
+    node.baseType,
+    (value) => {
+      const baseType = value.trim();
+      return baseType ? modify({ baseType }) : "Base type must not be empty";
+    },
+    builtInSimpleTypes(ctx)
+  );
+
+  addFacetFields(form, node, withFacet, ctx.xsdPrefix);
+}
+
+/**
+ * Renders the fields of each editable attribute declared by the item's type.
+ *
+ * @param ctx - The editor context
+ */
+function renderAttributeEditors(ctx: EditorContext): void {
+  const { form } = ctx;
+
+  for (const attr of ctx.node.attributes) {
+    const attributeId = attr.id;
+    if (!attributeId) {
+      continue;
+    }
+    const modify = (payload: Omit<ModifyAttributePayload, "attributeId">): SchemaCommand => ({
+      type: "modifyAttribute",
+      payload: { attributeId, ...payload },
+    });
+
+    form.addHeading(`Attribute: ${attr.name}`);
+    form.addTextField(`${attributeId}#name`, "Name", attr.name, (value) => {
+      const attributeName = value.trim();
+      return attributeName ? modify({ attributeName }) : "Name must not be empty";
+    });
+    if (attr.type !== UNRESOLVED_ATTRIBUTE_TYPE) {
+      form.addTextField(
+        `${attributeId}#type`,
+        "Type",
+        attr.type,
+        (value) => {
+          const attributeType = value.trim();
+          return attributeType ? modify({ attributeType }) : "Type must not be empty";
+        },
+        builtInSimpleTypes(ctx)
+      );
+    }
+    form.addCheckbox(`${attributeId}#required`, "Required", attr.use === "required", (required) =>
+      modify({ required })
+    );
+    form.addTextField(
+      `${attributeId}#default`,
+      "Default",
+      attr.defaultValue ?? "",
+      (defaultValue) => modify({ defaultValue })
+    );
+    form.addTextField(`${attributeId}#fixed`, "Fixed", attr.fixedValue ?? "", (fixedValue) =>
+      modify({ fixedValue })
+    );
+  }
+}
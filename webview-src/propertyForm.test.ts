@@ -0,0 +1,138 @@
+/**
+ * Unit tests for PropertyForm class.
+ */
+
+import { PropertyForm } from "./propertyForm";
+import { SchemaCommand } from "../shared/types";
+
+/**
+ * Finds the row of a field by its key.
+ */
+function fieldRow(container: HTMLElement, key: string): HTMLElement {
+  const row = container.querySelector<HTMLElement>(`[data-field="${key}"]`);
+  if (!row) {
+    throw new Error(`Field not found: ${key}`);
+  }
+  return row;
+}
+
+/**
+ * Sets the value of an input-like control and fires its change event.
+ */
+function changeValue(control: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement, value: string): void {
+  control.value = value;
+  control.dispatchEvent(new Event("change"));
+}
+
+describe("PropertyForm", () => {
+  const renameCommand: SchemaCommand = {
+    type: "modifyElement",
+    payload: { elementId: "/element:person", elementName: "customer" },
+  };
+  let container: HTMLDivElement;
+  let dispatch: jest.Mock;
+  let form: PropertyForm;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    dispatch = jest.fn();
+    form = new PropertyForm(container, dispatch);
+  });
+
+  it("should render a labelled text field with its initial value", () => {
+    form.addTextField("name", "Name", "person", () => renameCommand);
+
+    const row = fieldRow(container, "name");
+    const input = row.querySelector("input");
+    expect(row.querySelector("label")?.textContent).toBe("Name:");
+    expect(row.querySelector("label")?.htmlFor).toBe(input?.id);
+    expect(input?.value).toBe("person");
+  });
+
+  it("should offer suggestions for a text field", () => {
+    form.addTextField("type", "Type", "", () => renameCommand, ["xs:string", "xs:int"]);
+
+    const input = fieldRow(container, "type").querySelector("input");
+    const datalist = container.querySelector<HTMLDataListElement>(`#${input?.getAttribute("list")}`);
+    expect(Array.from(datalist?.options ?? []).map((option) => option.value)).toEqual([
+      "xs:string",
+      "xs:int",
+    ]);
+  });
+
+  it("should dispatch the command built from a committed value", () => {
+    const commit = jest.fn(() => renameCommand);
+    form.addTextField("name", "Name", "person", commit);
+
+    changeValue(fieldRow(container, "name").querySelector("input")!, "customer");
+
+    expect(commit).toHaveBeenCalledWith("customer");
+    expect(dispatch).toHaveBeenCalledWith(renameCommand);
+    expect(form.getPendingKey()).toBe("name");
+  });
+
+  it("should show local validation errors without dispatching", () => {
+    form.addTextField("minOccurs", "Min Occurs", "1", () => "Must be a number");
+
+    changeValue(fieldRow(container, "minOccurs").querySelector("input")!, "x");
+
+    expect(dispatch).not.toHaveBeenCalled();
+    expect(fieldRow(container, "minOccurs").querySelector(".field-error")?.textContent).toBe(
+      "Must be a number"
+    );
+  });
+
+  it("should show command errors next to the pending field", () => {
+    form.addTextField("name", "Name", "person", () => renameCommand);
+    form.addTextArea("documentation", "Documentation", "", () => renameCommand);
+
+    changeValue(fieldRow(container, "name").querySelector("input")!, "customer");
+    form.showError("Duplicate element name");
+
+    expect(fieldRow(container, "name").querySelector(".field-error")?.textContent).toBe(
+      "Duplicate element name"
+    );
+    expect(fieldRow(container, "documentation").querySelector(".field-error")?.textContent).toBe("");
+    expect(form.getPendingKey()).toBeUndefined();
+  });
+
+  it("should show command errors at form level when no field is pending", () => {
+    form.showError("Something went wrong");
+
+    expect(container.querySelector(".form-error")?.textContent).toBe("Something went wrong");
+  });
+
+  it("should clear previous errors on the next commit", () => {
+    form.addTextField("name", "Name", "person", () => renameCommand);
+    const input = fieldRow(container, "name").querySelector("input")!;
+
+    changeValue(input, "customer");
+    form.showError("Duplicate element name");
+    changeValue(input, "client");
+
+    expect(fieldRow(container, "name").querySelector(".field-error")?.textContent).toBe("");
+  });
+
+  it("should commit checkbox state", () => {
+    const commit = jest.fn(() => renameCommand);
+    form.addCheckbox("abstract", "Abstract", false, commit);
+    const checkbox = fieldRow(container, "abstract").querySelector("input")!;
+
+    checkbox.checked = true;
+    checkbox.dispatchEvent(new Event("change"));
+
+    expect(commit).toHaveBeenCalledWith(true);
+  });
+
+  it("should offer an empty option in selects", () => {
+    const commit = jest.fn(() => renameCommand);
+    form.addSelect("whiteSpace", "White Space", ["preserve", "collapse"], "collapse", commit);
+    const select = fieldRow(container, "whiteSpace").querySelector("select")!;
+
+    expect(Array.from(select.options).map((o) => o.value)).toEqual(["", "preserve", "collapse"]);
+    expect(select.value).toBe("collapse");
+
+    changeValue(select, "");
+    expect(commit).toHaveBeenCalledWith("");
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Form building blocks for the editable property panel.
+ * Renders labelled input fields that turn user edits into schema commands
+ * and shows validation errors next to the field that caused them.
+ */
+
+import { SchemaCommand } from "../shared/types";
+
+/**
+ * Callback that sends a schema command to the extension.
+ */
+export type CommandDispatcher = (command: SchemaCommand) => void;
+
+/**
+ * Converts a committed field value into the command to dispatch.
+ * Returns a string instead of a command when the value is invalid;
+ * the string is shown as an error next to the field.
+ */
+export type FieldCommit<T> = (value: T) => SchemaCommand | string;
+
+/**
+ * Builds a form of editable fields inside a container element.
+ * Each field is identified by a key so that errors reported for the last
+ * dispatched command can be shown next to the field that issued it.
+ */
+export class PropertyForm {
+  private container: HTMLElement;
+  private dispatch: CommandDispatcher;
+  private errorElements: Map<string, HTMLDivElement> = new Map();
+  private formError: HTMLDivElement;
+  private pendingKey: string | undefined;
+  private static fieldCounter = 0;
+
+  /**
+   * Creates a new PropertyForm.
+   *
+   * @param container - The element to render the fields into
+   * @param dispatch - Callback used to send commands for committed edits
+   */
+  constructor(container: HTMLElement, dispatch: CommandDispatcher) {
+    this.container = container;
+    this.dispatch = dispatch;
+
+    this.formError = document.createElement("div");
+    this.formError.className = "field-error form-error";
+    this.formError.setAttribute("role", "alert");
+    this.container.appendChild(this.formError);
+  }
+
+  /**
+   * Gets the key of the field whose command is awaiting a result.
+   *
+   * @returns The field key, or undefined if no command is pending
+   */
+  public getPendingKey(): string | undefined {
+    return this.pendingKey;
+  }
+
+  /**
+   * Adds a section heading to the form.
+   *
+   * @param title - The heading text
+   */
+  public addHeading(title: string): void {
+    const heading = document.createElement("h4");
+    heading.className = "property-heading";
+    heading.textContent = title;
+    this.container.appendChild(heading);
+  }
+
+  /**
+   * Adds a single-line text field.
+   *
+   * @param key - Unique key of the field within the form
+   * @param label - The field label
+   * @param value - The initial value
+   * @param commit - Converts the edited value into a command
+   * @param suggestions - Values offered for completion while typing
+   */
+  public addTextField(
+    key: string,
+    label: string,
+    value: string,
+    commit: FieldCommit<string>,
+    suggestions?: readonly string[]
+  ): void {
+    const input = document.createElement("input");
+    input.type = "text";
+    input.value = value;
+    input.addEventListener("change", () => this.commit(key, commit(input.value)));
+    this.addField(key, label, input);
+
+    if (suggestions && suggestions.length > 0) {
+      const datalist = document.createElement("datalist");
+      datalist.id = `${input.id}-suggestions`;
+      for (const suggestion of suggestions) {
+        const option = document.createElement("option");
+        option.value = suggestion;
+        datalist.appendChild(option);
+      }
+      input.setAttribute("list", datalist.id);
+      input.after(datalist);
+    }
+  }
+
+  /**
+   * Adds a multi-line text field (e.g., documentation).
+   *
+   * @param key - Unique key of the field within the form
+   * @param label - The field label
+   * @param value - The initial value
+   * @param commit - Converts the edited value into a command
+   */
+  public addTextArea(
+    key: string,
+    label: string,
+    value: string,
+    commit: FieldCommit<string>
+  ): void {
+    const textarea = document.createElement("textarea");
+    textarea.rows = 3;
+    textarea.value = value;
+    textarea.addEventListener("change", () =>
+      this.commit(key, commit(textarea.value))
+    );
+    this.addField(key, label, textarea);
+  }
+
+  /**
+   * Adds a checkbox field for boolean properties.
+   *
+   * @param key - Unique key of the field within the form
+   * @param label - The field label
+   * @param checked - The initial state
+   * @param commit - Converts the new state into a command
+   */
+  public addCheckbox(
+    key: string,
+    label: string,
+    checked: boolean,
+    commit: FieldCommit<boolean>
+  ): void {
+    const input = document.createElement("input");
+    input.type = "checkbox";
+    input.checked = checked;
+    input.addEventListener("change", () => this.commit(key, commit(input.checked)));
+    this.addField(key, label, input);
+  }
+
+  /**
+   * Adds a drop-down field with a fixed set of options.
+   * An empty option is offered first so that the property can be left unset.
+   *
+   * @param key - Unique key of the field within the form
+   * @param label - The field label
+   * @param options - The selectable values
+   * @param value - The initial value (empty for unset)
+   * @param commit - Converts the selected value into a command
+   */
+  public addSelect(
+    key: string,
+    label: string,
+    options: readonly string[],
+    value: string,
+    commit: FieldCommit<string>
+  ): void {
+    const select = document.createElement("select");
+    for (const optionValue of ["", ...options]) {
+      const option = document.createElement("option");
+      option.value = optionValue;
+      option.textContent = optionValue;
+      select.appendChild(option);
+    }
+    select.value = value;
+    select.addEventListener("change", () => this.commit(key, commit(select.value)));
+    this.addField(key, label, select);
+  }
+
+  /**
+   * Shows an error reported for the pending command next to the field that issued it.
+   * Falls back to a form-level message when no field is pending.
+   *
+   * @param message - The error message to show
+   */
+  public showError(message: string): void {
+    const target =
+      (this.pendingKey && this.errorElements.get(this.pendingKey)) ||
+      this.formError;
+    target.textContent = message;
+    this.pendingKey = undefined;
+  }
+
+  /**
+   * Marks the pending command as completed without an error.
+   */
+  public resolvePending(): void {
+    this.pendingKey = undefined;
+  }
+
+  /**
+   * Handles a committed field value: shows local validation errors or dispatches the command.
+   *
+   * @param key - The key of the committed field
+   * @param result - The command to dispatch, or an error message
+   */
+  private commit(key: string, result: SchemaCommand | string): void {
+    this.clearErrors();
+
+    if (typeof result === "string") {
+      (this.errorElements.get(key) ?? this.formError).textContent = result;
+      return;
+    }
+
+    this.pendingKey = key;
+    this.dispatch(result);
+  }
+
+  /**
+   * Clears all error messages in the form.
+   */
+  private clearErrors(): void {
+    this.formError.textContent = "";
+    this.errorElements.forEach((el) => {
+      el.textContent = "";
+    });
+  }
+
+  /**
+   * Appends a labelled field row with an error slot to the form.
+   *
+   * @param key - Unique key of the field within the form
+   * @param label - The field label
+   * @param control - The input control of the field
+   */
+  private addField(key: string, label: string, control: HTMLElement): void {
+    const fieldId = `property-field-${++PropertyForm.fieldCounter}`;
+
+    const propertyDiv = document.createElement("div");
+    propertyDiv.className = "property property-field";
+    propertyDiv.dataset.field = key;
+
+    const labelEl = document.createElement("label");
+    labelEl.htmlFor = fieldId;
+    labelEl.textContent = `${label}:`;
+    control.id = fieldId;
+
+    const errorEl = document.createElement("div");
+    errorEl.className = "field-error";
+    errorEl.setAttribute("role", "alert");
+    this.errorElements.set(key, errorEl);
+
+    propertyDiv.appendChild(labelEl);
+    propertyDiv.appendChild(control);
+    propertyDiv.appendChild(errorEl);
+    this.container.appendChild(propertyDiv);
+  }
+}
@@ -113,6 +113,69 @@ describe("PropertyPanel", () => {
       expectAdjacentText(container, "Namespace:", "http://example.com/ns");
     });
 
+    it("should display wildcard properties", () => {
+      expect.hasAssertions();
+      const item = new DiagramItem("test-1", "any", DiagramItemType.any, diagram);
+      item.type = "##other";
+      item.processContents = "lax";
+
+      panel.display(item);
+
+      expectAdjacentText(container, "Type:", "##other");
+      expectAdjacentText(container, "Process Contents:", "lax");
+    });
+
+    it("should display the member types of a union", () => {
+      expect.hasAssertions();
+      const item = new DiagramItem("test-1", "Size", DiagramItemType.type, diagram);
+      item.simpleTypeDerivation = {
+        variety: "union",
+        namedTypes: ["xs:int"],
+        inlineBaseTypes: ["xs:token"],
+      };
+
+      panel.display(item);
+
+      expect(container.textContent).toContain(
+        "Union Members:xs:int, <anonymous restriction of xs:token>"
+      );
+    });
+
+    it("should display the item type of a list", () => {
+      expect.hasAssertions();
+      const item = new DiagramItem("test-1", "Codes", DiagramItemType.type, diagram);
+      item.simpleTypeDerivation = { variety: "list", namedTypes: ["xs:token"], inlineBaseTypes: [] };
+
+      panel.display(item);
+
+      expectAdjacentText(container, "List Item Type:", "xs:token");
+    });
+
+    it("should display element declaration properties that are set", () => {
+      expect.hasAssertions();
+      const item = new DiagramItem("test-1", "car", DiagramItemType.element, diagram);
+      item.isNillable = true;
+      item.substitutionGroup = "vehicle";
+      item.fixedValue = "sedan";
+
+      panel.display(item);
+
+      expectAdjacentText(container, "Nillable:", "true");
+      expectAdjacentText(container, "Substitution Group:", "vehicle");
+      expectAdjacentText(container, "Fixed:", "sedan");
+      expect(container.textContent).not.toContain("Default:");
+    });
+
+    it("should display the attribute wildcard if present", () => {
+      expect.hasAssertions();
+      const item = new DiagramItem("test-1", "TestItem", DiagramItemType.element, diagram);
+      item.anyAttribute = { namespace: "##any", processContents: "skip" };
+
+      panel.display(item);
+
+      expectAdjacentText(container, "Any Attribute:", "##any (skip)");
+    });
+
     it("should handle item without optional properties", () => {
       expect.hasAssertions();
       const item = new DiagramItem("test-1", "TestItem", DiagramItemType.element, diagram);
@@ -294,6 +357,109 @@ describe("PropertyPanel", () => {
     });
   });
 
+  describe("editing", () => {
+    let dispatch: jest.Mock;
+
+    beforeEach(() => {
+      dispatch = jest.fn();
+      panel = new PropertyPanel(container, dispatch);
+    });
+
+    it("should render editable fields for schema elements", () => {
+      expect.hasAssertions();
+      const item = new DiagramItem("/element:person", "person", DiagramItemType.element, diagram);
+
+      panel.display(item);
+
+      const nameInput = container.querySelector<HTMLInputElement>('[data-field="name"] input');
+      expect(nameInput?.value).toBe("person");
+    });
+
+    it("should render the schema editor for the schema root", () => {
+      expect.hasAssertions();
+      const item = new DiagramItem("/schema", "Schema: urn:orders", DiagramItemType.element, diagram);
+      item.schemaAttributes = {
+        targetNamespace: "urn:orders",
+        elementFormDefault: "",
+        attributeFormDefault: "",
+        blockDefault: "",
+        finalDefault: "",
+        version: "",
+        lang: "",
+      };
+
+      panel.display(item);
+
+      const namespaceInput = container.querySelector<HTMLInputElement>('[data-field="targetNamespace"] input');
+      expect(namespaceInput?.value).toBe("urn:orders");
+      expect(container.querySelector('[data-field="name"]')).toBeNull();
+    });
+
+    it("should stay read-only for items that are not schema components", () => {
+      expect.hasAssertions();
+      const item = new DiagramItem("/complexType:PersonType/group:sequence", "sequence", DiagramItemType.group, diagram);
+
+      panel.display(item);
+
+      expect(container.querySelector("input")).toBeNull();
+      expectAdjacentText(container, "Name:", "sequence");
+    });
+
+    it("should dispatch commands for edits", () => {
+      expect.hasAssertions();
+      const item = new DiagramItem("/element:person", "person", DiagramItemType.element, diagram);
+      panel.display(item);
+
+      const docInput = container.querySelector<HTMLTextAreaElement>('[data-field="documentation"] textarea')!;
+      docInput.value = "A person";
+      docInput.dispatchEvent(new Event("change"));
+
+      expect(dispatch).toHaveBeenCalledWith({
+        type: "modifyElement",
+        payload: { elementId: "/element:person", documentation: "A person" },
+      });
+    });
+
+    it("should show validation errors next to the edited field", () => {
+      expect.hasAssertions();
+      const item = new DiagramItem("/element:person", "person", DiagramItemType.element, diagram);
+      panel.display(item);
+
+      const nameInput = container.querySelector<HTMLInputElement>('[data-field="name"] input')!;
+      nameInput.value = "1nvalid";
+      nameInput.dispatchEvent(new Event("change"));
+      panel.showCommandResult({ success: false, error: "Invalid element name" });
+
+      expect(container.querySelector('[data-field="name"] .field-error')?.textContent).toBe(
+        "Invalid element name"
+      );
+    });
+
+    it("should follow a successful rename when refreshed", () => {
+      expect.hasAssertions();
+      const item = new DiagramItem("/element:person", "person", DiagramItemType.element, diagram);
+      const renamed = new DiagramItem("/element:customer", "customer", DiagramItemType.element, diagram);
+      panel.display(item);
+
+      const nameInput = container.querySelector<HTMLInputElement>('[data-field="name"] input')!;
+      nameInput.value = "customer";
+      nameInput.dispatchEvent(new Event("change"));
+      panel.refresh((id) => (id === renamed.id ? renamed : null));
+
+      expect(container.querySelector<HTMLInputElement>('[data-field="name"] input')?.value).toBe("customer");
+    });
+
+    it("should clear when the displayed node no longer exists", () => {
+      expect.hasAssertions();
+      const item = new DiagramItem("/element:person", "person", DiagramItemType.element, diagram);
+      panel.display(item);
+
+      panel.refresh(() => null);
+
+      expect(container.innerHTML).toBe("");
+    });
+  });
+
   describe("clear", () => {
     it("should clear container content", () => {
       expect.hasAssertions();
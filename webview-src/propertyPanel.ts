@@ -1,34 +1,166 @@
 /**
- * Property panel for displaying diagram node details.
+ * Property panel for displaying and editing diagram node details.
  * Renders node properties such as name, type, cardinality, documentation, and attributes.
+ * The schema root, elements and types are rendered as editable forms that dispatch modify commands.
  */
 
-import { DiagramItem } from "./diagram";
+import { CommandResponse } from "../shared/types";
+import { DiagramItem, describeSimpleTypeMembers } from "./diagram";
+import { EditTarget, resolveEditTarget } from "./editTargets";
+import { CommandDispatcher, PropertyForm } from "./propertyForm";
+import {
+  EditorContext,
+  renderElementEditor,
+  renderComplexTypeEditor,
+  renderSimpleTypeEditor,
+  renderSchemaEditor,
+} from "./propertyEditors";
 
 /**
  * Manages the property panel UI that displays details about selected diagram nodes.
  */
 export class PropertyPanel {
   private container: HTMLDivElement;
+  private dispatch: CommandDispatcher | undefined;
+  private form: PropertyForm | undefined;
+  private nodeId: string | undefined;
+  private renamedId: string | undefined;
+  private xsdPrefix = "xs";
 
   /**
    * Creates a new PropertyPanel.
+   * Without a dispatcher the panel is read-only.
    * 
    * @param container - The HTML div element to render the properties into
+   * @param dispatch - Optional callback that sends commands for edits made in the panel
    */
-  constructor(container: HTMLDivElement) {
+  constructor(container: HTMLDivElement, dispatch?: CommandDispatcher) {
     this.container = container;
+    this.dispatch = dispatch;
   }
 
   /**
    * Displays the properties of a diagram node in the panel.
-   * Shows name, type, namespace, cardinality, documentation, attributes, and children count.
+   * Editable nodes are rendered as a form when the panel has a dispatcher;
+   * all other nodes show name, type, namespace, cardinality, documentation,
+   * attributes, and children count.
    * 
    * @param node - The diagram item whose properties to display
    */
   public display(node: DiagramItem): void {
     this.container.innerHTML = "";
+    this.form = undefined;
+    this.nodeId = node.id;
+    this.renamedId = undefined;
+
+    const target = resolveEditTarget(node);
+    if (this.dispatch && target) {
+      this.renderEditor(node, target, this.dispatch);
+    } else {
+      this.renderReadOnly(node);
+    }
+  }
+
+  /**
+   * Sets the prefix the displayed schema binds to the XML Schema namespace,
+   * used for the built-in types suggested by the editors.
+   * 
+   * @param xsdPrefix - The prefix bound to the XML Schema namespace
+   */
+  public setXsdPrefix(xsdPrefix: string): void {
+    this.xsdPrefix = xsdPrefix;
+  }
+
+  /**
+   * Re-displays the current node after the diagram has been rebuilt.
+   * Follows a pending rename to the node's new ID and clears the panel
+   * when the node no longer exists.
+   * 
+   * @param findNode - Looks up a diagram item of the rebuilt diagram by ID
+   */
+  public refresh(findNode: (id: string) => DiagramItem | null): void {
+    if (!this.nodeId) {
+      return;
+    }
+
+    const node =
+      (this.renamedId ? findNode(this.renamedId) : null) ?? findNode(this.nodeId);
+    if (node) {
+      this.display(node);
+    } else {
+      this.clear();
+    }
+  }
+
+  /**
+   * Shows the result of a command dispatched from the panel.
+   * Errors are shown next to the field whose edit caused them.
+   * 
+   * @param response - The command result reported by the extension
+   */
+  public showCommandResult(response: CommandResponse): void {
+    if (response.success) {
+      this.form?.resolvePending();
+      return;
+    }
+
+    this.renamedId = undefined;
+    const message = response.error ?? "Command failed";
+    if (this.form) {
+      this.form.showError(message);
+    } else {
+      const errorEl = document.createElement("div");
+      errorEl.className = "field-error form-error";
+      errorEl.setAttribute("role", "alert");
+      errorEl.textContent = message;
+      this.container.prepend(errorEl);
+    }
+  }
+
+  /**
+   * Renders the editable form for a node.
+   * 
+   * @param node - The diagram item to edit
+   * @param target - The edit target resolved for the node
+   * @param dispatch - Callback that sends the resulting commands
+   */
+  private renderEditor(
+    node: DiagramItem,
+    target: EditTarget,
+    dispatch: CommandDispatcher
+  ): void {
+    this.form = new PropertyForm(this.container, dispatch);
+    const ctx: EditorContext = {
+      form: this.form,
+      node,
+      onRename: (newId) => {
+        this.renamedId = newId;
+      },
+      xsdPrefix: this.xsdPrefix,
+    };
+
+    switch (target.kind) {
+      case "schema":
+        renderSchemaEditor(ctx);
+        break;
+      case "element":
+        renderElementEditor(ctx, target);
+        break;
+      case "complexType":
+        renderComplexTypeEditor(ctx, target);
+        break;
+      case "simpleType":
+        renderSimpleTypeEditor(ctx, target);
+        break;
+    }
+  }
 
+  /**
+   * Renders the read-only view of a node.
+   * 
+   * @param node - The diagram item whose properties to display
+   */
+  private renderReadOnly(node: DiagramItem): void {
     // Name property
     this.addProperty("Name", node.name);
 
@@ -42,6 +174,11 @@ export class PropertyPanel {
       this.addProperty("Namespace", node.namespace);
     }
 
+    // processContents of wildcards
+    if (node.processContents) {
+      this.addProperty("Process Contents", node.processContents);
+    }
+
     // Cardinality
     if (node.minOccurrence !== undefined || node.maxOccurrence !== undefined) {
       const min = node.minOccurrence ?? 1;
@@ -49,6 +186,8 @@ export class PropertyPanel {
       this.addProperty("Cardinality", `${min}..${max}`);
     }
 
+    this.addDeclarationProperties(node);
+
     // Documentation
     if (node.documentation) {
       this.addPropertyBlock("Documentation", node.documentation);
@@ -77,6 +216,24 @@ export class PropertyPanel {
       this.addPropertyWithElement("Attributes", attrList);
     }
 
+    // Item type of a list or member types of a union
+    if (node.simpleTypeDerivation) {
+      const members = describeSimpleTypeMembers(node).join(", ");
+      if (node.simpleTypeDerivation.variety === "list") {
+        this.addProperty("List Item Type", members);
+      } else {
+        this.addProperty("Union Members", members);
+      }
+    }
+
+    // Attribute wildcard
+    if (node.anyAttribute) {
+      this.addProperty(
+        "Any Attribute",
+        `${node.anyAttribute.namespace} (${node.anyAttribute.processContents})`
+      );
+    }
+
     // Restrictions (for simpleType restrictions)
     if (node.restrictions) {
       const restrictionList = document.createElement("div");
@@ -191,6 +348,33 @@ export class PropertyPanel {
     this.container.appendChild(propertyDiv);
   }
 
+  /**
+   * Adds the declaration properties of an element that differ from their defaults.
+   * 
+   * @param node - The diagram item to describe
+   */
+  private addDeclarationProperties(node: DiagramItem): void {
+    if (node.isAbstract) {
+      this.addProperty("Abstract", "true");
+    }
+    if (node.isNillable) {
+      this.addProperty("Nillable", "true");
+    }
+    const values: Array<[string, string]> = [
+      ["Substitution Group", node.substitutionGroup],
+      ["Default", node.defaultValue],
+      ["Fixed", node.fixedValue],
+      ["Block", node.block],
+      ["Final", node.final],
+      ["Form", node.form],
+    ];
+    for (const [label, value] of values) {
+      if (value) {
+        this.addProperty(label, value);
+      }
+    }
+  }
+
   /**
    * Adds a multi-line property block (e.g., documentation) to the panel.
    * Uses a paragraph element for better formatting of longer text.
@@ -259,5 +443,8 @@ export class PropertyPanel {
    */
   public clear(): void {
     this.container.innerHTML = "";
+    this.form = undefined;
+    this.nodeId = undefined;
+    this.renamedId = undefined;
   }
 }
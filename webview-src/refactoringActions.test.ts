@@ -0,0 +1,211 @@
+/**
+ * Unit tests for the refactoring context menu actions.
+ */
+
+import {
+  inlineTypeAction,
+  promoteElementAction,
+  demoteElementAction,
+  extractGroupActions,
+  extractAttributeGroupAction,
+  buildSelectionActions,
+} from "./refactoringActions";
+import { ContextMenuContext } from "./contextMenuActions";
+import { DiagramItem } from "./diagram/DiagramItem";
+import { Diagram } from "./diagram/Diagram";
+import { DiagramItemType, DiagramItemGroupType } from "./diagram/DiagramTypes";
+
+describe("refactoringActions", () => {
+  const context: ContextMenuContext = {
+    groupNames: [],
+    attributeGroupNames: ["IdAttributes"],
+    attributeNames: [],
+    typeNames: ["AddressType", "ZipCode"],
+    simpleTypeNames: ["ZipCode"],
+    xsdPrefix: "xs",
+  };
+  let diagram: Diagram;
+
+  beforeEach(() => {
+    diagram = new Diagram();
+  });
+
+  /** Creates an element item with a type. */
+  function elementItem(id: string, type = ""): DiagramItem {
+    const item = new DiagramItem(id, "item", DiagramItemType.element, diagram);
+    item.type = type;
+    return item;
+  }
+
+  describe("inlineTypeAction", () => {
+    it("should inline complex and simple types declared in the schema", () => {
+      expect(inlineTypeAction(elementItem("/element:address", "tns:AddressType"), context)).toEqual(
+        {
+          label: "Inline Type",
+          command: {
+            type: "inlineType",
+            payload: { typeId: "/complexType:AddressType", declarationId: "/element:address" },
+          },
+        }
+      );
+      expect(inlineTypeAction(elementItem("/element:zip", "ZipCode"), context)?.command).toEqual({
+        type: "inlineType",
+        payload: { typeId: "/simpleType:ZipCode", declarationId: "/element:zip" },
+      });
+    });
+
+    it("should not inline built-in or unknown types", () => {
+      expect(inlineTypeAction(elementItem("/element:a", "xs:string"), context)).toBeUndefined();
+      expect(inlineTypeAction(elementItem("/element:b", "ext:Other"), context)).toBeUndefined();
+    });
+  });
+
+  describe("promoteElementAction", () => {
+    it("should promote local elements only", () => {
+      const localId = "/complexType:OrderType/group:sequence/element:item[0]";
+
+      expect(promoteElementAction(elementItem(localId))).toEqual({
+        label: "Promote to Global Element",
+        command: { type: "promoteElement", payload: { elementId: localId } },
+      });
+      expect(promoteElementAction(elementItem("/element:order"))).toBeUndefined();
+    });
+  });
+
+  describe("demoteElementAction", () => {
+    it("should demote the element reference", () => {
+      const referenceId = "/complexType:OrderType/group:sequence/element:tns:item[0]";
+
+      expect(demoteElementAction(elementItem(referenceId)).command).toEqual({
+        type: "demoteElement",
+        payload: { elementId: referenceId },
+      });
+    });
+  });
+
+  describe("extractGroupActions", () => {
+    /** Creates a compositor item with element items of the given names. */
+    function compositorItem(groupType: DiagramItemGroupType, names: string[]): DiagramItem {
+      const compositor = new DiagramItem(
+        `/complexType:AddressType/group:${groupType}`,
+        groupType,
+        DiagramItemType.group,
+        diagram
+      );
+      compositor.groupType = groupType;
+      names.forEach((name, i) => {
+        const child = new DiagramItem(
+          `${compositor.id}/element:${name}[${i}]`,
+          name,
+          DiagramItemType.element,
+          diagram
+        );
+        compositor.addChild(child);
+      });
+      return compositor;
+    }
+
+    it("should extract elements of a sequence, with and without identical runs", () => {
+      const [, street, city] = compositorItem(DiagramItemGroupType.Sequence, [
+        "name",
+        "street",
+        "city",
+      ]).childElements;
+      const particleIds = [city.id, street.id];
+
+      expect(
+        extractGroupActions([city, street], { ...context, groupNames: ["StreetGroup"] })
+      ).toEqual([
+        {
+          label: "Extract to Group",
+          command: { type: "extractGroup", payload: { particleIds, groupName: "StreetGroup2" } },
+        },
+        {
+          label: "Extract to Group and Replace Identical Runs",
+          command: {
+            type: "extractGroup",
+            payload: { particleIds, groupName: "StreetGroup2", replaceDuplicates: true },
+          },
+        },
+      ]);
+    });
+
+    it("should not extract elements of an all or of different compositors", () => {
+      const [street] = compositorItem(DiagramItemGroupType.All, ["street"]).childElements;
+      const [city] = compositorItem(DiagramItemGroupType.Choice, ["city"]).childElements;
+      const [zip] = compositorItem(DiagramItemGroupType.Choice, ["zip"]).childElements;
+
+      expect(extractGroupActions([street], context)).toEqual([]);
+      expect(extractGroupActions([city, zip], context)).toEqual([]);
+    });
+  });
+
+  describe("extractAttributeGroupAction", () => {
+    /** Creates a type item declaring attributes of the given names. */
+    function typeItem(name: string, attributeNames: string[]): DiagramItem {
+      const item = new DiagramItem(`/complexType:${name}`, name, DiagramItemType.type, diagram);
+      item.attributes = attributeNames.map((attributeName) => ({
+        id: `${item.id}/attribute:${attributeName}`,
+        name: attributeName,
+        type: "xs:string",
+      }));
+      return item;
+    }
+
+    it("should extract all attributes of a single item", () => {
+      expect(
+        extractAttributeGroupAction([typeItem("OrderType", ["id", "created"])], context)
+      ).toEqual({
+        label: "Extract Attributes to Group",
+        command: {
+          type: "extractAttributeGroup",
+          payload: {
+            attributeIds: [
+              "/complexType:OrderType/attribute:id",
+              "/complexType:OrderType/attribute:created",
+            ],
+            groupName: "IdAttributes2",
+          },
+        },
+      });
+    });
+
+    it("should extract the attributes common to all selected items", () => {
+      const items = [
+        typeItem("OrderType", ["id", "created"]),
+        typeItem("InvoiceType", ["paid", "created"]),
+      ];
+
+      expect(buildSelectionActions(items, context)).toEqual([
+        {
+          label: "Extract Attributes to Group",
+          command: {
+            type: "extractAttributeGroup",
+            payload: {
+              attributeIds: [
+                "/complexType:OrderType/attribute:created",
+                "/complexType:InvoiceType/attribute:created",
+              ],
+              groupName: "CreatedAttributes",
+            },
+          },
+        },
+      ]);
+    });
+
+    it("should not extract attributes without IDs or not shared by all items", () => {
+      const derived = new DiagramItem(
+        "/complexType:Derived",
+        "Derived",
+        DiagramItemType.type,
+        diagram
+      );
+      derived.attributes = [{ name: "id", type: "xs:ID" }];
+
+      expect(extractAttributeGroupAction([derived], context)).toBeUndefined();
+      expect(
+        extractAttributeGroupAction([typeItem("A", ["id"]), typeItem("B", ["code"])], context)
+      ).toBeUndefined();
+    });
+  });
+});
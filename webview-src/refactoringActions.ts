@@ -0,0 +1,166 @@
+/**
+ * Context menu actions for refactorings of element declarations: inlining
+ * the named type of an element, moving a declaration between the schema
+ * root and the compositor using it, and extracting several elements into a
+ * named group or the attributes of one or more types into a named attribute
+ * group.
+ */
+
+import { ContextMenuAction, ContextMenuContext, uniqueName } from "./contextMenuActions";
+import { DiagramItem, DiagramItemType, DiagramItemGroupType } from "./diagram";
+import { parseSchemaId } from "../shared/idStrategy";
+
+/**
+ * Builds the action that inlines the named type of an element, if the type
+ * is declared in the schema.
+ *
+ * @param node - The element item with a named type
+ * @param context - Schema-wide information listing the type names
+ * @returns The inline type action, or undefined for built-in and unknown types
+ */
+export function inlineTypeAction(
+  node: DiagramItem,
+  context: ContextMenuContext
+): ContextMenuAction | undefined {
+  const separator = node.type.indexOf(":");
+  const prefix = separator >= 0 ? node.type.slice(0, separator) : "";
+  const localName = node.type.slice(separator + 1);
+  if (prefix === context.xsdPrefix || !context.typeNames.includes(localName)) {
+    return undefined;
+  }
+  const kind = context.simpleTypeNames.includes(localName) ? "simpleType" : "complexType";
+  return {
+    label: "Inline Type",
+    command: {
+      type: "inlineType",
+      payload: { typeId: `/${kind}:${localName}`, declarationId: node.id },
+    },
+  };
+}
+
+/**
+ * Builds the action that promotes a local element to a top-level element.
+ *
+ * @param node - The element item, which must not be a reference
+ * @returns The promote action, or undefined for top-level elements
+ */
+export function promoteElementAction(node: DiagramItem): ContextMenuAction | undefined {
+  if (parseSchemaId(node.id).parentId === undefined) {
+    return undefined;
+  }
+  return {
+    label: "Promote to Global Element",
+    command: { type: "promoteElement", payload: { elementId: node.id } },
+  };
+}
+
+/**
+ * Builds the action that demotes an element reference to a local element.
+ *
+ * @param node - The element reference item
+ * @returns The demote action
+ */
+export function demoteElementAction(node: DiagramItem): ContextMenuAction {
+  return {
+    label: "Demote to Local Element",
+    command: { type: "demoteElement", payload: { elementId: node.id } },
+  };
+}
+
+/**
+ * Builds the actions that extract selected elements into a named group, if
+ * they are elements of the same sequence or choice.
+ *
+ * @param items - The selected items, in any order
+ * @param context - Schema-wide information listing the group names
+ * @returns The extract actions, without and with replacing identical runs of
+ *   elements elsewhere; empty if the items cannot be extracted together
+ */
+export function extractGroupActions(
+  items: DiagramItem[],
+  context: ContextMenuContext
+): ContextMenuAction[] {
+  const parent = items[0]?.parent;
+  if (
+    !parent ||
+    parent.itemType !== DiagramItemType.group ||
+    parent.groupType === DiagramItemGroupType.All ||
+    items.some((item) => item.parent !== parent || item.itemType !== DiagramItemType.element)
+  ) {
+    return [];
+  }
+  const particleIds = items.map((item) => item.id);
+  const first = parent.childElements.find((child) => items.includes(child)) ?? items[0];
+  const baseName = `${first.name.charAt(0).toUpperCase()}${first.name.slice(1)}Group`;
+  const groupName = uniqueName(baseName, context.groupNames);
+  return [
+    {
+      label: "Extract to Group",
+      command: { type: "extractGroup", payload: { particleIds, groupName } },
+    },
+    {
+      label: "Extract to Group and Replace Identical Runs",
+      command: {
+        type: "extractGroup",
+        payload: { particleIds, groupName, replaceDuplicates: true },
+      },
+    },
+  ];
+}
+
+/**
+ * Builds the action that extracts attributes into a named attribute group:
+ * all attributes of a single item, or the attributes of the same name on
+ * every selected item.
+ *
+ * @param items - The selected items declaring the attributes
+ * @param context - Schema-wide information listing the attribute group names
+ * @returns The extract action, or undefined if there are no such attributes
+ */
+export function extractAttributeGroupAction(
+  items: DiagramItem[],
+  context: ContextMenuContext
+): ContextMenuAction | undefined {
+  const [first, ...others] = items;
+  const names = (first?.attributes ?? [])
+    .filter((attr) => attr.id)
+    .map((attr) => attr.name)
+    .filter((name) =>
+      others.every((item) => item.attributes.some((attr) => attr.id && attr.name === name))
+    );
+  if (names.length === 0) {
+    return undefined;
+  }
+  const attributeIds = items.flatMap((item) =>
+    item.attributes
+      .filter((attr) => names.includes(attr.name))
+      .map((attr) => attr.id)
+      .filter((id): id is string => !!id)
+  );
+  const baseName = `${names[0].charAt(0).toUpperCase()}${names[0].slice(1)}Attributes`;
+  return {
+    label: "Extract Attributes to Group",
+    command: {
+      type: "extractAttributeGroup",
+      payload: { attributeIds, groupName: uniqueName(baseName, context.attributeGroupNames) },
+    },
+  };
+}
+
+/**
+ * Builds the actions that apply to several selected items.
+ *
+ * @param items - The selected items, in any order
+ * @param context - Schema-wide information for building the actions
+ * @returns The extract actions that apply to the whole selection
+ */
+export function buildSelectionActions(
+  items: DiagramItem[],
+  context: ContextMenuContext
+): ContextMenuAction[] {
+  const extractAttributes = extractAttributeGroupAction(items, context);
+  return [
+    ...extractGroupActions(items, context),
+    ...(extractAttributes ? [extractAttributes] : []),
+  ];
+}
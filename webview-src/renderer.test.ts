@@ -5,6 +5,7 @@
 import { DiagramRenderer } from "./renderer";
 import { DiagramOptions } from "../shared/messages";
 import { setupGetBBoxMock } from "./__tests__/svgTestUtils";
+import { DiagramItem } from "./diagram";
 
 const defaultDiagramOptions: DiagramOptions = {
   showDocumentation: false,
@@ -207,6 +208,128 @@ describe("DiagramRenderer", () => {
     });
   });
 
+  describe("context menu", () => {
+    const mockSchema = { element: [{ name: "Person" }] };
+
+    beforeEach(() => {
+      setupGetBBoxMock();
+    });
+
+    afterEach(() => {
+      document.body.innerHTML = "";
+    });
+
+    /**
+     * Fires a contextmenu event on the rendered item with the given ID.
+     */
+    function openMenuOn(itemId: string): MouseEvent {
+      const event = new MouseEvent("contextmenu", { bubbles: true, cancelable: true });
+      mockCanvas.querySelector(`[data-item-id="${itemId}"]`)?.dispatchEvent(event);
+      return event;
+    }
+
+    it("should dispatch the command of the chosen action", () => {
+      const dispatch = jest.fn();
+      renderer = new DiagramRenderer(mockCanvas, { zoom: 1, panX: 0, panY: 0 }, dispatch);
+      renderer.renderSchema(mockSchema, defaultDiagramOptions, jest.fn());
+
+      const event = openMenuOn("/schema");
+      const items = Array.from(document.querySelectorAll<HTMLButtonElement>(".context-menu-item"));
+      items.find((item) => item.textContent === "Add Child Element")?.click();
+
+      expect(event.defaultPrevented).toBe(true);
+      expect(dispatch).toHaveBeenCalledWith({
+        type: "addElement",
+        payload: { parentId: "schema", elementName: "newElement" },
+      });
+      expect(document.querySelector(".context-menu")).toBeNull();
+    });
+
+    it("should offer to extract elements selected together into a group", () => {
+      const dispatch = jest.fn();
+      renderer = new DiagramRenderer(mockCanvas, { zoom: 1, panX: 0, panY: 0 }, dispatch);
+      renderer.renderSchema(
+        {
+          complexType: [
+            { name: "AddressType", sequence: { element: [{ name: "street" }, { name: "city" }] } },
+          ],
+        },
+        defaultDiagramOptions,
+        jest.fn()
+      );
+      const findItem = (items: DiagramItem[], name: string): DiagramItem | undefined =>
+        items.find((item) => item.name === name) ??
+        items.map((item) => findItem(item.childElements, name)).find(Boolean);
+      const roots = renderer.getCurrentDiagram()?.rootElements ?? [];
+      const [street, city] = ["street", "city"].map((name) => findItem(roots, name) as DiagramItem);
+      renderer.revealNode(street.id);
+
+      mockCanvas
+        .querySelector(`[data-item-id="${city.id}"]`)
+        ?.dispatchEvent(new MouseEvent("click", { bubbles: true, ctrlKey: true }));
+      openMenuOn(city.id);
+      const items = Array.from(document.querySelectorAll<HTMLButtonElement>(".context-menu-item"));
+      items.find((item) => item.textContent === "Extract to Group")?.click();
+
+      expect(mockCanvas.querySelectorAll(".selected")).toHaveLength(2);
+      expect(dispatch).toHaveBeenCalledWith({
+        type: "extractGroup",
+        payload: { particleIds: [street.id, city.id], groupName: "StreetGroup" },
+      });
+    });
+
+    it("should not open a menu without a command dispatcher", () => {
+      renderer.renderSchema(mockSchema, defaultDiagramOptions, jest.fn());
+
+      const event = openMenuOn("/schema");
+
+      expect(event.defaultPrevented).toBe(false);
+      expect(document.querySelector(".context-menu")).toBeNull();
+    });
+  });
+
+  describe("revealNode", () => {
+    const mockSchema = {
+      element: [{ name: "Person", type_: "xs:string" }],
+      complexType: [{ name: "PersonType", attribute: [{ name: "id" }] }],
+    };
+
+    beforeEach(() => {
+      setupGetBBoxMock();
+      renderer.renderSchema(mockSchema, defaultDiagramOptions, jest.fn());
+    });
+
+    /**
+     * Checks whether the rendered item with the given ID is selected.
+     */
+    function isSelected(itemId: string): boolean {
+      return (
+        mockCanvas.querySelector(`[data-item-id="${itemId}"]`)?.classList.contains("selected") ??
+        false
+      );
+    }
+
+    it("should expand the ancestors and select the item", () => {
+      const item = renderer.revealNode("/element:Person");
+
+      expect(item?.id).toBe("/element:Person");
+      expect(item?.parent?.showChildElements).toBe(true);
+      expect(isSelected("/element:Person")).toBe(true);
+    });
+
+    it("should select the closest ancestor of nodes without an item", () => {
+      const item = renderer.revealNode("/complexType:PersonType/attribute:id");
+
+      expect(item?.id).toBe("/complexType:PersonType");
+      expect(isSelected("/complexType:PersonType")).toBe(true);
+    });
+
+    it("should return null for unknown nodes", () => {
+      expect(renderer.revealNode("/element:Unknown")).toBeNull();
+      expect(mockCanvas.querySelector(".selected")).toBeNull();
+    });
+  });
+
   describe("showMessage", () => {
     it("should display message in canvas", () => {
       renderer["showMessage"]("Test message");
@@ -8,6 +8,15 @@ import {
   Diagram,
   DiagramItem,
 } from "./diagram";
+import { CommandDispatcher } from "./propertyForm";
+import { ContextMenu } from "./contextMenu";
+import { DiagramDragAndDrop } from "./dragAndDrop";
+import {
+  ContextMenuContext,
+  buildContextMenuActions,
+  createContextMenuContext,
+} from "./contextMenuActions";
+import { buildSelectionActions } from "./refactoringActions";
 
 export class DiagramRenderer {
   private canvas: SVGSVGElement;
@@ -20,6 +29,17 @@ export class DiagramRenderer {
   private onNodeClickCallback:
     | ((node: DiagramItem, isExpandButton: boolean) => void)
     | null = null;
+  private contextMenu: ContextMenu | null = null;
+  private selectedIds: string[] = [];
+  private dragAndDrop: DiagramDragAndDrop | null = null;
+  private contextMenuContext: ContextMenuContext = {
+    groupNames: [],
+    attributeGroupNames: [],
+    attributeNames: [],
+    typeNames: [],
+    simpleTypeNames: [],
+    xsdPrefix: "xs",
+  };
 
   /**
    * Get the current diagram (exposed for testing).
@@ -33,8 +53,9 @@ export class DiagramRenderer {
    * Create a new DiagramRenderer
    * @param canvas - The SVG canvas element to render into
    * @param viewState - Initial view state (zoom and pan)
+   * @param dispatch - Callback for commands chosen from the context menu or issued by drag-and-drop; without it the diagram is read-only
    */
-  constructor(canvas: SVGSVGElement, viewState: ViewState) {
+  constructor(canvas: SVGSVGElement, viewState: ViewState, dispatch?: CommandDispatcher) {
     this.canvas = canvas;
     this.viewState = viewState;
 
@@ -52,6 +73,16 @@ export class DiagramRenderer {
 
     // Setup click handling
     this.setupClickHandling();
+
+    if (dispatch) {
+      this.contextMenu = new ContextMenu(dispatch);
+      this.setupContextMenuHandling();
+      this.dragAndDrop = new DiagramDragAndDrop(
+        canvas,
+        (itemId) => this.findItemById(itemId),
+        dispatch
+      );
+    }
   }
 
   /**
@@ -67,6 +98,8 @@ export class DiagramRenderer {
   ): void {
     this.onNodeClickCallback = onNodeClick;
     this.renderedNodes.clear();
+    this.selectedIds = [];
+    this.contextMenu?.hide();
 
     if (!schemaObj) {
       this.showMessage("No schema to display");
@@ -80,6 +113,7 @@ export class DiagramRenderer {
       // Build diagram from schema
       const builder = new DiagramBuilder();
       this.currentDiagram = builder.buildFromSchema(schemaObj);
+      this.contextMenuContext = createContextMenuContext(schemaObj);
 
       // Apply diagram options
       this.currentDiagram.showDocumentation = diagramOptions.showDocumentation;
@@ -153,19 +187,49 @@ export class DiagramRenderer {
       if (itemGroup) {
         const itemId = itemGroup.getAttribute("data-item-id");
         const item = this.findItemById(itemId);
-        if (item && this.onNodeClickCallback) {
+        if (item && (e.ctrlKey || e.metaKey)) {
+          this.toggleSelection(item);
+        } else if (item && this.onNodeClickCallback) {
           this.onNodeClickCallback(item, false);
         }
       }
     });
   }
 
+  /**
+   * Set up the context menu that offers the editing actions of a diagram item,
+   * or of all selected items if it is opened on one of several selected items
+   */
+  private setupContextMenuHandling(): void {
+    this.canvas.addEventListener("contextmenu", (e: MouseEvent) => {
+      const target = e.target as SVGElement;
+      const itemGroup = target.closest("[data-item-id]") as SVGElement;
+      const item = itemGroup ? this.findItemById(itemGroup.getAttribute("data-item-id")) : null;
+      if (!item || !this.contextMenu) {
+        return;
+      }
+
+      e.preventDefault();
+      let actions;
+      if (this.selectedIds.length > 1 && this.selectedIds.includes(item.id)) {
+        const selection = this.selectedIds
+          .map((id) => this.findItemById(id))
+          .filter((selected): selected is DiagramItem => selected !== null);
+        actions = buildSelectionActions(selection, this.contextMenuContext);
+      } else {
+        this.selectNode(item.id);
+        actions = buildContextMenuActions(item, this.contextMenuContext);
+      }
+      this.contextMenu.show(actions, e.clientX, e.clientY);
+    });
+  }
+
   /**
    * Find a diagram item by its ID
    * @param itemId - ID of the item to find
    * @returns The diagram item or null if not found
    */
-  private findItemById(itemId: string | null): DiagramItem | null {
+  public findItemById(itemId: string | null): DiagramItem | null {
     if (!itemId || !this.currentDiagram) return null;
 
     const searchInItem = (item: DiagramItem): DiagramItem | null => {
@@ -330,12 +394,62 @@ export class DiagramRenderer {
     });
 
     // Add selection to specified node
+    this.selectedIds = [nodeId];
     const nodeElement = this.canvas.querySelector(`[data-item-id="${nodeId}"]`);
     if (nodeElement) {
       nodeElement.classList.add("selected");
     }
   }
 
+  /**
+   * Add an item to the selection or remove it from the selection. Only items
+   * with the same parent can be selected together; other items start a new
+   * selection.
+   * @param item - The item clicked with the control or command key pressed
+   */
+  private toggleSelection(item: DiagramItem): void {
+    if (this.selectedIds.some((id) => this.findItemById(id)?.parent !== item.parent)) {
+      this.selectNode(item.id);
+      return;
+    }
+    const isSelected = this.selectedIds.includes(item.id);
+    this.selectedIds = isSelected
+      ? this.selectedIds.filter((id) => id !== item.id)
+      : [...this.selectedIds, item.id];
+    this.canvas
+      .querySelector(`[data-item-id="${item.id}"]`)
+      ?.classList.toggle("selected", !isSelected);
+  }
+
+  /**
+   * Select the diagram item of a schema node, expanding its ancestors if needed.
+   * Nodes without an item of their own, such as attributes or anonymous types,
+   * select the item of their closest ancestor.
+   * @param nodeId - ID of the schema node to reveal
+   * @returns The selected item or null if neither the node nor its ancestors are shown
+   */
+  public revealNode(nodeId: string): DiagramItem | null {
+    let item: DiagramItem | null = null;
+    for (let id = nodeId; id && !item; id = id.substring(0, id.lastIndexOf("/"))) {
+      item = this.findItemById(id);
+    }
+    if (!item) return null;
+
+    let expanded = false;
+    for (let ancestor = item.parent; ancestor; ancestor = ancestor.parent) {
+      if (!ancestor.showChildElements) {
+        ancestor.showChildElements = true;
+        expanded = true;
+      }
+    }
+    if (expanded) {
+      this.refresh();
+    }
+
+    this.selectNode(item.id);
+    return item;
+  }
+
   /**
    * Display an error message on the canvas
    * @param message - Error message to display
@@ -0,0 +1,207 @@
+/**
+ * Unit tests for UsagesPanel class.
+ */
+
+import { UsagesPanel, isReferenceableComponentId } from "./usagesPanel";
+import { SafeDeleteComponentCommand } from "../shared/types";
+
+describe("UsagesPanel", () => {
+  let container: HTMLDivElement;
+  let onFind: jest.Mock<void, [string, boolean]>;
+  let onSelect: jest.Mock<void, [string]>;
+  let onDelete: jest.Mock<void, [SafeDeleteComponentCommand]>;
+  let panel: UsagesPanel;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    onFind = jest.fn<void, [string, boolean]>();
+    onSelect = jest.fn<void, [string]>();
+    onDelete = jest.fn<void, [SafeDeleteComponentCommand]>();
+    panel = new UsagesPanel(container, onFind, onSelect, onDelete);
+  });
+
+  /** The button asking for the usages of the selected component. */
+  function findButton(): HTMLButtonElement {
+    return container.querySelector(".usages-find") as HTMLButtonElement;
+  }
+
+  /** A button of the panel, looked up by its CSS class. */
+  function button(className: string): HTMLButtonElement | null {
+    return container.querySelector<HTMLButtonElement>(`.${className}`);
+  }
+
+  /** Starts a safe delete of a component and shows its usages. */
+  function startSafeDelete(componentId: string, usageCount: number): void {
+    panel.setSelection(componentId);
+    button("usages-delete")?.click();
+    panel.display({
+      componentId,
+      usages: Array.from({ length: usageCount }, (_, i) => ({
+        nodeId: `/element:user${i}`,
+        attribute: "type",
+        value: "CodeType",
+      })),
+    });
+  }
+
+  describe("isReferenceableComponentId", () => {
+    it("should accept top-level components", () => {
+      expect(isReferenceableComponentId("/complexType:AddressType")).toBe(true);
+      expect(isReferenceableComponentId("/attributeGroup:Common")).toBe(true);
+    });
+
+    it("should reject the schema root, local nodes and invalid IDs", () => {
+      expect(isReferenceableComponentId("/schema")).toBe(false);
+      expect(isReferenceableComponentId("/complexType:AddressType/group:sequence")).toBe(false);
+      expect(isReferenceableComponentId("")).toBe(false);
+    });
+  });
+
+  it("should offer to find the usages of a selected top-level component", () => {
+    panel.setSelection("/simpleType:CodeType");
+
+    expect(findButton().hidden).toBe(false);
+    expect(findButton().textContent).toBe("Find usages of /simpleType:CodeType");
+    findButton().click();
+    expect(onFind).toHaveBeenCalledWith("/simpleType:CodeType", false);
+  });
+
+  it("should hide the button when a local node is selected", () => {
+    panel.setSelection("/simpleType:CodeType");
+    panel.setSelection("/complexType:OrderType/group:sequence/element:code[0]");
+
+    expect(findButton().hidden).toBe(true);
+    findButton().click();
+    expect(onFind).not.toHaveBeenCalled();
+  });
+
+  it("should list the usages and select the node of the chosen one", () => {
+    panel.display({
+      componentId: "/simpleType:CodeType",
+      usages: [
+        { nodeId: "/attribute:currency", attribute: "type", value: "tns:CodeType" },
+        { nodeId: "/simpleType:CodeList", attribute: "itemType", value: "tns:CodeType" },
+      ],
+    });
+
+    expect(container.querySelector(".usages-summary")?.textContent).toBe(
+      "2 usages of /simpleType:CodeType"
+    );
+    const buttons = container.querySelectorAll<HTMLButtonElement>(".usages-item button");
+    expect(Array.from(buttons).map((button) => button.textContent)).toEqual([
+      '/attribute:currencytype="tns:CodeType"',
+      '/simpleType:CodeListitemType="tns:CodeType"',
+    ]);
+    buttons[1].click();
+    expect(onSelect).toHaveBeenCalledWith("/simpleType:CodeList");
+  });
+
+  it("should replace earlier usages and report when there are none", () => {
+    panel.display({
+      componentId: "/simpleType:CodeType",
+      usages: [{ nodeId: "/attribute:currency", attribute: "type", value: "tns:CodeType" }],
+    });
+    panel.display({ componentId: "/group:Unused", usages: [] });
+
+    expect(container.querySelector(".usages-summary")?.textContent).toBe(
+      "No usages of /group:Unused"
+    );
+    expect(container.querySelectorAll(".usages-item")).toHaveLength(0);
+  });
+
+  it("should keep the usages when the selection changes", () => {
+    panel.display({
+      componentId: "/simpleType:CodeType",
+      usages: [{ nodeId: "/attribute:currency", attribute: "type", value: "tns:CodeType" }],
+    });
+    panel.setSelection("/attribute:currency");
+
+    expect(container.querySelectorAll(".usages-item")).toHaveLength(1);
+  });
+
+  describe("safe delete", () => {
+    it("should find the usages of the component to delete", () => {
+      panel.setSelection("/simpleType:CodeType");
+
+      expect(button("usages-delete")?.hidden).toBe(false);
+      expect(button("usages-delete")?.textContent).toBe("Safe delete /simpleType:CodeType");
+      button("usages-delete")?.click();
+      expect(onFind).toHaveBeenCalledWith("/simpleType:CodeType", true);
+    });
+
+    it("should not prompt for usages found without a safe delete", () => {
+      panel.setSelection("/simpleType:CodeType");
+      findButton().click();
+      panel.display({ componentId: "/simpleType:CodeType", usages: [] });
+
+      expect(button("usages-cascade")).toBeNull();
+    });
+
+    it("should delete the component and its dependants", () => {
+      startSafeDelete("/simpleType:CodeType", 2);
+
+      expect(container.querySelectorAll(".usages-item")).toHaveLength(2);
+      expect(button("usages-cascade")?.textContent).toBe("Delete with dependants");
+      button("usages-cascade")?.click();
+      expect(onDelete).toHaveBeenCalledWith({
+        type: "safeDeleteComponent",
+        payload: { componentId: "/simpleType:CodeType", strategy: "cascade" },
+      });
+      expect(button("usages-cascade")).toBeNull();
+    });
+
+    it("should list the usages of everything else the cascade removes", () => {
+      panel.setSelection("/simpleType:CodeType");
+      button("usages-delete")?.click();
+      panel.display({
+        componentId: "/simpleType:CodeType",
+        usages: [{ nodeId: "/attribute:currency", attribute: "type", value: "tns:CodeType" }],
+        dependants: [{ nodeId: "/complexType:OrderType", attribute: "ref", value: "tns:currency" }],
+      });
+
+      const buttons = container.querySelectorAll<HTMLButtonElement>(
+        ".usages-cascade-list .usages-item button"
+      );
+      expect(Array.from(buttons).map((button) => button.textContent)).toEqual([
+        '/complexType:OrderTyperef="tns:currency"',
+      ]);
+      buttons[0].click();
+      expect(onSelect).toHaveBeenCalledWith("/complexType:OrderType");
+    });
+
+    it("should retarget the references to the entered replacement", () => {
+      startSafeDelete("/simpleType:CodeType", 1);
+
+      button("usages-retarget")?.click();
+      expect(onDelete).not.toHaveBeenCalled();
+
+      const replacement = container.querySelector(".usages-replacement") as HTMLInputElement;
+      replacement.value = " xs:token ";
+      button("usages-retarget")?.click();
+      expect(onDelete).toHaveBeenCalledWith({
+        type: "safeDeleteComponent",
+        payload: {
+          componentId: "/simpleType:CodeType",
+          strategy: "retarget",
+          replacement: "xs:token",
+        },
+      });
+    });
+
+    it("should only offer to delete a component without usages", () => {
+      startSafeDelete("/group:Unused", 0);
+
+      expect(button("usages-cascade")?.textContent).toBe("Delete");
+      expect(button("usages-retarget")).toBeNull();
+    });
+
+    it("should cancel without deleting", () => {
+      startSafeDelete("/simpleType:CodeType", 1);
+
+      button("usages-cancel")?.click();
+      expect(button("usages-cascade")).toBeNull();
+      expect(onDelete).not.toHaveBeenCalled();
+      expect(container.querySelectorAll(".usages-item")).toHaveLength(1);
+    });
+  });
+});
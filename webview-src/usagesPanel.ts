@@ -0,0 +1,295 @@
+/**
+ * Usages panel listing the places in the schema that refer to a component.
+ * Offers to find the usages of the selected top-level component; choosing a
+ * listed usage selects the referencing node in the diagram and the text editor.
+ * A safe delete first lists the usages as the dependants of the component,
+ * along with the usages of everything else the cascade would remove, then
+ * lets the user cancel, delete the dependants too, or retarget the
+ * references to a replacement.
+ */
+
+import { ComponentUsageData, ComponentUsagesData } from "../shared/messages";
+import { SafeDeleteComponentCommand } from "../shared/types";
+import { parseSchemaId } from "../shared/idStrategy";
+
+/**
+ * Callback that asks the extension for the usages of a component, and for a
+ * safe delete also for the usages of the components removed with it.
+ */
+export type FindUsagesHandler = (componentId: string, forSafeDelete: boolean) => void;
+
+/**
+ * Callback that selects the node of a usage.
+ */
+export type UsageSelectHandler = (nodeId: string) => void;
+
+/**
+ * Callback that dispatches the safe delete the user confirmed.
+ */
+export type SafeDeleteHandler = (command: SafeDeleteComponentCommand) => void;
+
+/** Node types of the top-level components whose usages can be found. */
+const REFERENCEABLE_NODE_TYPES = new Set([
+  "element",
+  "attribute",
+  "complexType",
+  "simpleType",
+  "group",
+  "attributeGroup",
+]);
+
+/**
+ * Returns true if a node ID denotes a top-level component that can be referenced.
+ *
+ * @param nodeId - ID of a diagram item
+ */
+export function isReferenceableComponentId(nodeId: string): boolean {
+  try {
+    const parsed = parseSchemaId(nodeId);
+    return parsed.parentId === undefined && REFERENCEABLE_NODE_TYPES.has(parsed.nodeType);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Renders "Find usages" and "Safe delete" buttons for the selected component
+ * and the list of usages last found. The list stays until new usages are
+ * shown, so its entries can be visited one after the other.
+ */
+export class UsagesPanel {
+  private findButton: HTMLButtonElement;
+  private deleteButton: HTMLButtonElement;
+  private summary: HTMLParagraphElement;
+  private list: HTMLUListElement;
+  private deletePrompt: HTMLDivElement;
+  private onSelect: UsageSelectHandler;
+  private onDelete: SafeDeleteHandler;
+  private componentId: string | undefined;
+  /** Component whose usages are awaited to confirm its deletion */
+  private pendingDeleteId: string | undefined;
+
+  /**
+   * Creates a new UsagesPanel.
+   *
+   * @param container - The element to render the panel into
+   * @param onFind - Called with the ID of the component whose usages to find,
+   *   and whether they are found for a safe delete
+   * @param onSelect - Called with the node ID of the usage the user chose
+   * @param onDelete - Called with the safe delete the user confirmed
+   */
+  constructor(
+    container: HTMLElement,
+    onFind: FindUsagesHandler,
+    onSelect: UsageSelectHandler,
+    onDelete: SafeDeleteHandler
+  ) {
+    this.onSelect = onSelect;
+    this.onDelete = onDelete;
+    this.findButton = document.createElement("button");
+    this.findButton.type = "button";
+    this.findButton.className = "usages-find";
+    this.findButton.hidden = true;
+    this.findButton.addEventListener("click", () => {
+      if (this.componentId) {
+        onFind(this.componentId, false);
+      }
+    });
+
+    this.deleteButton = document.createElement("button");
+    this.deleteButton.type = "button";
+    this.deleteButton.className = "usages-delete";
+    this.deleteButton.hidden = true;
+    this.deleteButton.addEventListener("click", () => {
+      if (this.componentId) {
+        this.pendingDeleteId = this.componentId;
+        onFind(this.componentId, true);
+      }
+    });
+
+    this.summary = document.createElement("p");
+    this.summary.className = "usages-summary";
+    this.list = document.createElement("ul");
+    this.list.className = "usages-list";
+
+    this.deletePrompt = document.createElement("div");
+    this.deletePrompt.className = "usages-delete-prompt";
+    this.deletePrompt.hidden = true;
+
+    container.innerHTML = "";
+    container.append(
+      this.findButton,
+      this.deleteButton,
+      this.summary,
+      this.list,
+      this.deletePrompt
+    );
+  }
+
+  /**
+   * Updates the panel for the node selected in the diagram. The buttons are
+   * only offered for top-level components.
+   *
+   * @param nodeId - ID of the selected node
+   */
+  public setSelection(nodeId: string): void {
+    this.componentId = isReferenceableComponentId(nodeId) ? nodeId : undefined;
+    this.findButton.hidden = this.componentId === undefined;
+    this.findButton.textContent = this.componentId ? `Find usages of ${this.componentId}` : "";
+    this.deleteButton.hidden = this.componentId === undefined;
+    this.deleteButton.textContent = this.componentId ? `Safe delete ${this.componentId}` : "";
+  }
+
+  /**
+   * Displays the usages of a component, replacing the previous ones. If the
+   * usages were found for a safe delete, the choices to complete it are shown.
+   *
+   * @param data - The usages to display
+   */
+  public display(data: ComponentUsagesData): void {
+    const count = data.usages.length;
+    this.summary.textContent =
+      count === 0
+        ? `No usages of ${data.componentId}`
+        : `${count} ${count === 1 ? "usage" : "usages"} of ${data.componentId}`;
+
+    this.list.innerHTML = "";
+    for (const usage of data.usages) {
+      this.list.appendChild(this.createUsageItem(usage));
+    }
+
+    const deleting = data.componentId === this.pendingDeleteId;
+    this.pendingDeleteId = undefined;
+    if (deleting) {
+      this.showDeletePrompt(data.componentId, count, data.dependants ?? []);
+    } else {
+      this.closeDeletePrompt();
+    }
+  }
+
+  /**
+   * Shows the choices to complete the safe delete of a component. Without
+   * dependants the component can simply be deleted.
+   *
+   * @param componentId - ID of the component to delete
+   * @param dependantCount - Number of usages of the component
+   * @param cascadeUsages - Usages of the components the cascade removes
+   *   along with the component
+   */
+  private showDeletePrompt(
+    componentId: string,
+    dependantCount: number,
+    cascadeUsages: ComponentUsageData[]
+  ): void {
+    this.deletePrompt.innerHTML = "";
+    this.deletePrompt.hidden = false;
+
+    const message = document.createElement("p");
+    message.textContent =
+      dependantCount === 0
+        ? `Delete ${componentId}?`
+        : `Delete ${componentId} and its dependants, or replace its references?`;
+    this.deletePrompt.appendChild(message);
+
+    if (cascadeUsages.length > 0) {
+      const cascadeMessage = document.createElement("p");
+      cascadeMessage.textContent = "Deleting with dependants also removes:";
+      const cascadeList = document.createElement("ul");
+      cascadeList.className = "usages-cascade-list";
+      for (const usage of cascadeUsages) {
+        cascadeList.appendChild(this.createUsageItem(usage));
+      }
+      this.deletePrompt.append(cascadeMessage, cascadeList);
+    }
+
+    const confirm = (command: SafeDeleteComponentCommand): void => {
+      this.closeDeletePrompt();
+      this.onDelete(command);
+    };
+
+    this.deletePrompt.appendChild(
+      this.createPromptButton(
+        dependantCount === 0 ? "Delete" : "Delete with dependants",
+        "usages-cascade",
+        () =>
+          confirm({ type: "safeDeleteComponent", payload: { componentId, strategy: "cascade" } })
+      )
+    );
+
+    if (dependantCount > 0) {
+      const replacement = document.createElement("input");
+      replacement.type = "text";
+      replacement.className = "usages-replacement";
+      replacement.placeholder = "Replacement, e.g. xs:string";
+      this.deletePrompt.appendChild(replacement);
+      this.deletePrompt.appendChild(
+        this.createPromptButton("Replace references", "usages-retarget", () => {
+          const value = replacement.value.trim();
+          if (value) {
+            confirm({
+              type: "safeDeleteComponent",
+              payload: { componentId, strategy: "retarget", replacement: value },
+            });
+          }
+        })
+      );
+    }
+
+    this.deletePrompt.appendChild(
+      this.createPromptButton("Cancel", "usages-cancel", () => this.closeDeletePrompt())
+    );
+  }
+
+  /**
+   * Creates the list item of a usage, which selects the referencing node
+   * when chosen.
+   *
+   * @param usage - The usage to list
+   * @returns The list item
+   */
+  private createUsageItem(usage: ComponentUsageData): HTMLLIElement {
+    const item = document.createElement("li");
+    item.className = "usages-item";
+
+    const button = document.createElement("button");
+    button.type = "button";
+    button.textContent = usage.nodeId;
+    const reference = document.createElement("span");
+    reference.className = "usages-reference";
+    reference.textContent = `${usage.attribute}="${usage.value}"`;
+    button.appendChild(reference);
+    button.addEventListener("click", () => this.onSelect(usage.nodeId));
+
+    item.appendChild(button);
+    return item;
+  }
+
+  /**
+   * Creates a button of the safe delete prompt.
+   *
+   * @param label - Text of the button
+   * @param className - CSS class identifying the choice
+   * @param onClick - Called when the button is clicked
+   * @returns The button
+   */
+  private createPromptButton(
+    label: string,
+    className: string,
+    onClick: () => void
+  ): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.className = className;
+    button.textContent = label;
+    button.addEventListener("click", onClick);
+    return button;
+  }
+
+  /**
+   * Closes the safe delete prompt without deleting anything.
+   */
+  private closeDeletePrompt(): void {
+    this.deletePrompt.hidden = true;
+    this.deletePrompt.innerHTML = "";
+  }
+}